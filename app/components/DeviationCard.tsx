@@ -0,0 +1,154 @@
+import { ExclamationmarkTriangleIcon } from '@navikt/aksel-icons'
+import { BodyShort, Box, Button, Detail, HStack, ReadMore, Select, Tag, TextField, VStack } from '@navikt/ds-react'
+import { Form } from 'react-router'
+import type { DeploymentDeviation, DeviationStatusLogEntry } from '~/db/deviations.server'
+import {
+  DEVIATION_FOLLOW_UP_ROLE_LABELS,
+  DEVIATION_INTENT_LABELS,
+  DEVIATION_SEVERITY_LABELS,
+  DEVIATION_STATUS_LABELS,
+  DEVIATION_STATUS_TRANSITIONS,
+  type DeviationStatus,
+  isDeviationOverdue,
+} from '~/lib/deviation-constants'
+
+const STATUS_COLORS: Record<DeviationStatus, 'warning' | 'info' | 'danger' | 'success'> = {
+  open: 'warning',
+  under_investigation: 'info',
+  action_required: 'danger',
+  closed: 'success',
+}
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('no-NO', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+interface DeviationCardProps {
+  deviation: DeploymentDeviation
+  statusLog?: DeviationStatusLogEntry[]
+  /** Show the status change form (requires a route action handling update_deviation_status) */
+  editable?: boolean
+}
+
+export function DeviationCard({ deviation, statusLog = [], editable = false }: DeviationCardProps) {
+  const overdue = isDeviationOverdue(deviation)
+  const nextStatuses = DEVIATION_STATUS_TRANSITIONS[deviation.status]
+
+  return (
+    <Box
+      padding="space-16"
+      borderRadius="8"
+      background="raised"
+      borderColor={deviation.status === 'closed' ? 'neutral-subtle' : 'warning-subtle'}
+      borderWidth="1"
+    >
+      <VStack gap="space-4">
+        <HStack gap="space-8" align="center" wrap>
+          <ExclamationmarkTriangleIcon
+            aria-hidden
+            style={{
+              color: deviation.status === 'closed' ? 'var(--ax-text-neutral-subtle)' : 'var(--ax-text-warning)',
+            }}
+          />
+          <Detail textColor="subtle">
+            {formatDateTime(deviation.created_at)}
+            {' — '}
+            {deviation.registered_by_name || deviation.registered_by}
+          </Detail>
+          <Tag size="xsmall" variant="moderate" data-color={STATUS_COLORS[deviation.status]}>
+            {DEVIATION_STATUS_LABELS[deviation.status]}
+          </Tag>
+          {overdue && (
+            <Tag size="xsmall" variant="strong" data-color="danger">
+              Frist passert
+            </Tag>
+          )}
+          {deviation.severity && (
+            <Tag
+              size="xsmall"
+              variant="moderate"
+              data-color={
+                deviation.severity === 'critical' || deviation.severity === 'high'
+                  ? 'danger'
+                  : deviation.severity === 'medium'
+                    ? 'warning'
+                    : 'neutral'
+              }
+            >
+              {DEVIATION_SEVERITY_LABELS[deviation.severity]}
+            </Tag>
+          )}
+        </HStack>
+        {deviation.breach_type && (
+          <BodyShort size="small" weight="semibold">
+            {deviation.breach_type}
+          </BodyShort>
+        )}
+        <BodyShort>{deviation.reason}</BodyShort>
+        <HStack gap="space-12" wrap>
+          {deviation.intent && (
+            <Detail textColor="subtle">Intensjon: {DEVIATION_INTENT_LABELS[deviation.intent]}</Detail>
+          )}
+          {deviation.follow_up_role && (
+            <Detail textColor="subtle">Oppfølging: {DEVIATION_FOLLOW_UP_ROLE_LABELS[deviation.follow_up_role]}</Detail>
+          )}
+          <Detail textColor="subtle">Tildelt: {deviation.assigned_to || 'Ingen'}</Detail>
+          {deviation.due_at && deviation.status !== 'closed' && (
+            <Detail textColor={overdue ? 'default' : 'subtle'} weight={overdue ? 'semibold' : 'regular'}>
+              Frist: {formatDateTime(deviation.due_at)}
+            </Detail>
+          )}
+        </HStack>
+        {deviation.resolved_at && deviation.resolution_note && (
+          <BodyShort size="small" textColor="subtle">
+            Løsning: {deviation.resolution_note}
+          </BodyShort>
+        )}
+
+        {editable && (
+          <Form method="post">
+            <input type="hidden" name="intent" value="update_deviation_status" />
+            <input type="hidden" name="deviation_id" value={deviation.id} />
+            <HStack gap="space-8" align="end" wrap style={{ marginTop: 'var(--ax-space-8)' }}>
+              <Select label="Ny status" name="deviation_status" size="small">
+                {nextStatuses.map((status) => (
+                  <option key={status} value={status}>
+                    {DEVIATION_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </Select>
+              <TextField
+                label="Kommentar"
+                description={deviation.status === 'closed' ? undefined : 'Påkrevd ved lukking'}
+                name="deviation_note"
+                size="small"
+                autoComplete="off"
+                style={{ minWidth: '300px' }}
+              />
+              <Button type="submit" size="small" variant="secondary">
+                Oppdater
+              </Button>
+            </HStack>
+          </Form>
+        )}
+
+        {statusLog.length > 0 && (
+          <ReadMore header={`Historikk (${statusLog.length})`} size="small">
+            <VStack gap="space-4">
+              {statusLog.map((entry) => (
+                <Detail key={entry.id} textColor="subtle">
+                  {formatDateTime(entry.created_at)}:{' '}
+                  {entry.from_status
+                    ? `${DEVIATION_STATUS_LABELS[entry.from_status]} → ${DEVIATION_STATUS_LABELS[entry.to_status]}`
+                    : DEVIATION_STATUS_LABELS[entry.to_status]}{' '}
+                  av {entry.changed_by_name || entry.changed_by}
+                  {entry.note && ` — ${entry.note}`}
+                </Detail>
+              ))}
+            </VStack>
+          </ReadMore>
+        )}
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,98 @@
+import { BodyShort, Box, Heading, HGrid, HStack, Select, VStack } from '@navikt/ds-react'
+import { DORA_LEVEL_LABELS, type DoraLevel, type DoraMetrics } from '~/lib/dora'
+import { formatLeadTime } from '~/lib/promotion'
+import { TIME_PERIOD_OPTIONS, type TimePeriod } from '~/lib/time-periods'
+import { StatCard } from './StatCard'
+
+const LEVEL_VARIANTS: Record<DoraLevel, 'success' | 'warning' | 'danger'> = {
+  elite: 'success',
+  high: 'success',
+  medium: 'warning',
+  low: 'danger',
+}
+
+function levelSubtitle(level: DoraLevel | null, detail: string): string {
+  return level ? `${DORA_LEVEL_LABELS[level]} · ${detail}` : detail
+}
+
+interface DoraMetricsPanelProps {
+  metrics: DoraMetrics
+  period: TimePeriod
+  /** Shows a period selector when set; otherwise the period is chosen elsewhere on the page */
+  onPeriodChange?: (period: TimePeriod) => void
+}
+
+/**
+ * Deployment frequency, lead time, change failure rate and time to restore
+ */
+export function DoraMetricsPanel({ metrics, period, onPeriodChange }: DoraMetricsPanelProps) {
+  return (
+    <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+      <VStack gap="space-20">
+        <HStack justify="space-between" align="center" wrap>
+          <Heading level="2" size="medium">
+            DORA-metrikker
+          </Heading>
+          {onPeriodChange && (
+            <Select
+              label="Tidsperiode"
+              hideLabel
+              size="small"
+              value={period}
+              onChange={(e) => onPeriodChange(e.target.value as TimePeriod)}
+            >
+              {TIME_PERIOD_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </Select>
+          )}
+        </HStack>
+
+        {metrics.deployments === 0 ? (
+          <BodyShort textColor="subtle">Ingen produksjonsdeployments i perioden.</BodyShort>
+        ) : (
+          <HGrid gap="space-16" columns={{ xs: 1, sm: 2, lg: 4 }}>
+            <StatCard
+              label="Deploymentfrekvens"
+              value={`${metrics.deploymentsPerWeek.toFixed(1)} per uke`}
+              subtitle={levelSubtitle(metrics.deploymentFrequencyLevel, `${metrics.deployments} deployments`)}
+              variant={metrics.deploymentFrequencyLevel ? LEVEL_VARIANTS[metrics.deploymentFrequencyLevel] : undefined}
+              compact
+            />
+            <StatCard
+              label="Ledetid for endringer"
+              value={metrics.medianLeadTimeMs !== null ? formatLeadTime(metrics.medianLeadTimeMs) : '–'}
+              subtitle={levelSubtitle(
+                metrics.leadTimeLevel,
+                metrics.medianMergeToDeployMs !== null
+                  ? `PR åpnet → prod, ${formatLeadTime(metrics.medianMergeToDeployMs)} fra merge`
+                  : 'PR åpnet → prod',
+              )}
+              variant={metrics.leadTimeLevel ? LEVEL_VARIANTS[metrics.leadTimeLevel] : undefined}
+              compact
+            />
+            <StatCard
+              label="Feilrate for endringer"
+              value={metrics.changeFailureRate !== null ? `${Math.round(metrics.changeFailureRate * 100)}%` : '–'}
+              subtitle={levelSubtitle(
+                metrics.changeFailureRateLevel,
+                `${metrics.failures} feilet, ${metrics.rollbacks} rollback${metrics.rollbacks === 1 ? '' : 's'}`,
+              )}
+              variant={metrics.changeFailureRateLevel ? LEVEL_VARIANTS[metrics.changeFailureRateLevel] : undefined}
+              compact
+            />
+            <StatCard
+              label="Gjenopprettingstid"
+              value={metrics.medianTimeToRestoreMs !== null ? formatLeadTime(metrics.medianTimeToRestoreMs) : '–'}
+              subtitle={levelSubtitle(metrics.timeToRestoreLevel, 'median')}
+              variant={metrics.timeToRestoreLevel ? LEVEL_VARIANTS[metrics.timeToRestoreLevel] : undefined}
+              compact
+            />
+          </HGrid>
+        )}
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,268 @@
+import { PaperplaneIcon, PlusIcon, TrashIcon } from '@navikt/aksel-icons'
+import {
+  Alert,
+  BodyShort,
+  Box,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Detail,
+  Heading,
+  HStack,
+  Select,
+  Table,
+  Tag,
+  Textarea,
+  TextField,
+  VStack,
+} from '@navikt/ds-react'
+import { useState } from 'react'
+import { Form } from 'react-router'
+import type { getNotificationChannelSettings } from '~/lib/notifications/channel-actions.server'
+import {
+  NOTIFICATION_CHANNEL_KIND_LABELS,
+  NOTIFICATION_CHANNEL_KINDS,
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENT_TYPES,
+  type NotificationChannelKind,
+} from '~/lib/notifications/types'
+
+type NotificationChannelSettings = Awaited<ReturnType<typeof getNotificationChannelSettings>>
+
+interface NotificationChannelsSectionProps extends NotificationChannelSettings {
+  /** Name of the form field the route action dispatches on */
+  intentField: 'action' | 'intent'
+  description: string
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleString('nb-NO', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export function NotificationChannelsSection({
+  channels,
+  deliveries,
+  unavailableKinds,
+  intentField,
+  description,
+}: NotificationChannelsSectionProps) {
+  const [kind, setKind] = useState<NotificationChannelKind>('webhook')
+
+  return (
+    <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+      <VStack gap="space-16">
+        <div>
+          <Heading size="small" level="2">
+            Varslingskanaler
+          </Heading>
+          <BodyShort textColor="subtle" size="small">
+            {description}
+          </BodyShort>
+        </div>
+
+        {channels.length === 0 ? (
+          <BodyShort textColor="subtle" style={{ fontStyle: 'italic' }}>
+            Ingen varslingskanaler er satt opp.
+          </BodyShort>
+        ) : (
+          <Table size="small">
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Navn</Table.HeaderCell>
+                <Table.HeaderCell>Type</Table.HeaderCell>
+                <Table.HeaderCell>Mottaker</Table.HeaderCell>
+                <Table.HeaderCell>Hendelser</Table.HeaderCell>
+                <Table.HeaderCell />
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {channels.map((channel) => (
+                <Table.Row key={channel.id}>
+                  <Table.DataCell>
+                    <HStack gap="space-8" align="center">
+                      {channel.name}
+                      {!channel.enabled && (
+                        <Tag data-color="neutral" variant="moderate" size="xsmall">
+                          Deaktivert
+                        </Tag>
+                      )}
+                    </HStack>
+                  </Table.DataCell>
+                  <Table.DataCell>{NOTIFICATION_CHANNEL_KIND_LABELS[channel.kind]}</Table.DataCell>
+                  <Table.DataCell style={{ wordBreak: 'break-all' }}>{channel.target}</Table.DataCell>
+                  <Table.DataCell>
+                    {channel.events.map((event) => NOTIFICATION_EVENT_LABELS[event]).join(', ')}
+                  </Table.DataCell>
+                  <Table.DataCell>
+                    <HStack gap="space-4" wrap={false}>
+                      <Form method="post">
+                        <input type="hidden" name={intentField} value="test_notification_channel" />
+                        <input type="hidden" name="channel_id" value={channel.id} />
+                        <Button type="submit" size="xsmall" variant="tertiary" icon={<PaperplaneIcon aria-hidden />}>
+                          Test
+                        </Button>
+                      </Form>
+                      <Form method="post">
+                        <input type="hidden" name={intentField} value="toggle_notification_channel" />
+                        <input type="hidden" name="channel_id" value={channel.id} />
+                        <Button type="submit" size="xsmall" variant="tertiary">
+                          {channel.enabled ? 'Deaktiver' : 'Aktiver'}
+                        </Button>
+                      </Form>
+                      <Form method="post">
+                        <input type="hidden" name={intentField} value="delete_notification_channel" />
+                        <input type="hidden" name="channel_id" value={channel.id} />
+                        <Button type="submit" size="xsmall" variant="tertiary" icon={<TrashIcon aria-hidden />}>
+                          Slett
+                        </Button>
+                      </Form>
+                    </HStack>
+                  </Table.DataCell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+
+        <Form method="post">
+          <input type="hidden" name={intentField} value="create_notification_channel" />
+          <VStack gap="space-16">
+            <Heading size="xsmall" level="3">
+              Ny kanal
+            </Heading>
+
+            <HStack gap="space-16" wrap>
+              <Select
+                label="Type"
+                name="kind"
+                size="small"
+                value={kind}
+                onChange={(e) => setKind(e.target.value as NotificationChannelKind)}
+              >
+                {NOTIFICATION_CHANNEL_KINDS.map((value) => (
+                  <option key={value} value={value}>
+                    {NOTIFICATION_CHANNEL_KIND_LABELS[value]}
+                  </option>
+                ))}
+              </Select>
+              <TextField
+                label="Navn"
+                name="name"
+                size="small"
+                description="F.eks. «Teams-kanal» eller «Hendelsesverktøy»"
+              />
+            </HStack>
+
+            {unavailableKinds.includes(kind) && (
+              <Alert variant="warning" size="small">
+                {kind === 'email'
+                  ? 'SMTP er ikke konfigurert (SMTP_HOST og SMTP_FROM), så e-post kan ikke sendes.'
+                  : 'Slack er ikke konfigurert, så Slack-meldinger kan ikke sendes.'}
+              </Alert>
+            )}
+
+            {kind === 'slack' && (
+              <TextField
+                label="Slack-kanal"
+                name="slack_channel_id"
+                size="small"
+                description="Kanal-ID (C01234567) eller kanalnavn (#kanal-navn)"
+                style={{ maxWidth: '300px' }}
+              />
+            )}
+            {kind === 'email' && (
+              <Textarea
+                label="Mottakere"
+                name="email_recipients"
+                size="small"
+                description="E-postadresser, adskilt med komma eller linjeskift"
+                minRows={2}
+              />
+            )}
+            {kind === 'webhook' && (
+              <>
+                <TextField
+                  label="URL"
+                  name="webhook_url"
+                  size="small"
+                  description="Må bruke https og peke til en offentlig adresse."
+                />
+                <TextField
+                  label="Hemmelighet"
+                  name="webhook_secret"
+                  type="password"
+                  size="small"
+                  autoComplete="off"
+                  description="Minst 16 tegn. Brukes til signaturen i X-Deployment-Audit-Signature (sha256=HMAC av innholdet)."
+                  style={{ maxWidth: '400px' }}
+                />
+              </>
+            )}
+
+            <CheckboxGroup legend="Hendelser" size="small" defaultValue={[...NOTIFICATION_EVENT_TYPES]}>
+              {NOTIFICATION_EVENT_TYPES.map((event) => (
+                <Checkbox key={event} name="events" value={event}>
+                  {NOTIFICATION_EVENT_LABELS[event]}
+                </Checkbox>
+              ))}
+            </CheckboxGroup>
+
+            <div>
+              <Button type="submit" size="small" variant="secondary" icon={<PlusIcon aria-hidden />}>
+                Legg til kanal
+              </Button>
+            </div>
+          </VStack>
+        </Form>
+
+        {deliveries.length > 0 && (
+          <VStack gap="space-8">
+            <Heading size="xsmall" level="3">
+              Siste leveranser
+            </Heading>
+            <Table size="small">
+              <Table.Header>
+                <Table.Row>
+                  <Table.HeaderCell>Tidspunkt</Table.HeaderCell>
+                  <Table.HeaderCell>Kanal</Table.HeaderCell>
+                  <Table.HeaderCell>Hendelse</Table.HeaderCell>
+                  <Table.HeaderCell>Resultat</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {deliveries.map((delivery) => (
+                  <Table.Row key={delivery.id}>
+                    <Table.DataCell>
+                      <Detail>{formatDate(delivery.sent_at)}</Detail>
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {delivery.channel_name ?? NOTIFICATION_CHANNEL_KIND_LABELS[delivery.channel_kind]}
+                    </Table.DataCell>
+                    <Table.DataCell>{NOTIFICATION_EVENT_LABELS[delivery.event_type]}</Table.DataCell>
+                    <Table.DataCell>
+                      {delivery.success ? (
+                        <Tag data-color="success" variant="moderate" size="xsmall">
+                          Levert
+                        </Tag>
+                      ) : (
+                        <Tag data-color="danger" variant="moderate" size="xsmall" title={delivery.error ?? undefined}>
+                          Feilet
+                        </Tag>
+                      )}
+                    </Table.DataCell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          </VStack>
+        )}
+      </VStack>
+    </Box>
+  )
+}
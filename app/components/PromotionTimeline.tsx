@@ -0,0 +1,87 @@
+import { ArrowRightIcon } from '@navikt/aksel-icons'
+import { Alert, BodyShort, Box, Detail, Heading, HStack, Tag, VStack } from '@navikt/ds-react'
+import { Link } from 'react-router'
+import { formatLeadTime, type PromotionTimeline as PromotionTimelineData } from '~/lib/promotion'
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('no-NO', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+function LeadTime({ label, ms }: { label: string; ms: number | null }) {
+  if (ms === null) return null
+  return (
+    <Detail textColor="subtle">
+      {label}: <strong>{formatLeadTime(ms)}</strong>
+    </Detail>
+  )
+}
+
+interface PromotionTimelineProps {
+  timeline: PromotionTimelineData
+  currentDeploymentId: number
+}
+
+/**
+ * Deployments of the same commit across environments, with lead times
+ */
+export function PromotionTimeline({ timeline, currentDeploymentId }: PromotionTimelineProps) {
+  const { steps, leadTimes } = timeline
+
+  return (
+    <VStack gap="space-16">
+      <Heading size="medium" level="2">
+        Promotering
+      </Heading>
+
+      {timeline.skippedPreProd && (
+        <Alert variant="warning" size="small">
+          Commiten ble deployet til produksjon uten å ha vært deployet til et pre-prod-miljø først.
+        </Alert>
+      )}
+
+      <HStack gap="space-8" align="center" wrap>
+        {steps.map((step, index) => (
+          <HStack key={`${step.team_slug}/${step.environment_name}`} gap="space-8" align="center">
+            {index > 0 && <ArrowRightIcon aria-hidden />}
+            <Box
+              padding="space-12"
+              borderRadius="8"
+              borderWidth="1"
+              borderColor={step.first_deployment_id === currentDeploymentId ? 'accent' : 'neutral-subtle'}
+            >
+              <VStack gap="space-4">
+                <HStack gap="space-8" align="center">
+                  <Tag data-color={step.is_production ? 'success' : 'info'} variant="moderate" size="small">
+                    {step.environment_name}
+                  </Tag>
+                  <Link
+                    to={`/team/${step.team_slug}/env/${step.environment_name}/app/${step.app_name}/deployments/${step.first_deployment_id}`}
+                  >
+                    <BodyShort size="small">#{step.first_deployment_id}</BodyShort>
+                  </Link>
+                </HStack>
+                <Detail textColor="subtle">
+                  {formatDateTime(step.first_deployed_at)}
+                  {step.deployment_count > 1 && ` (${step.deployment_count} deployments)`}
+                </Detail>
+              </VStack>
+            </Box>
+          </HStack>
+        ))}
+      </HStack>
+
+      {timeline.mergedAt || leadTimes.preProdToProdMs !== null ? (
+        <HStack gap="space-16" wrap>
+          {timeline.mergedAt && <Detail textColor="subtle">Merget: {formatDateTime(timeline.mergedAt)}</Detail>}
+          <LeadTime label="Merge → pre-prod" ms={leadTimes.mergeToPreProdMs} />
+          <LeadTime label="Pre-prod → prod" ms={leadTimes.preProdToProdMs} />
+          <LeadTime label="Merge → prod" ms={leadTimes.mergeToProdMs} />
+        </HStack>
+      ) : null}
+
+      {!timeline.hasPreProdEnvironment && (
+        <Detail textColor="subtle">Ingen pre-prod-miljø for denne applikasjonen overvåkes.</Detail>
+      )}
+    </VStack>
+  )
+}
@@ -1,15 +1,9 @@
 import { MagnifyingGlassIcon } from '@navikt/aksel-icons'
-import { BodyShort, Box, Detail, Dialog, HStack, Loader, Search, Tag, VStack } from '@navikt/ds-react'
+import { BodyShort, Box, Detail, Dialog, HStack, Loader, Search, VStack } from '@navikt/ds-react'
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { Link, useLocation, useNavigate } from 'react-router'
-
-interface SearchResult {
-  type: 'deployment' | 'user'
-  id?: number
-  url: string
-  title: string
-  subtitle?: string
-}
+import { buildSearchParams, type SearchFacets, type SearchFilters, type SearchResult } from '~/lib/search'
+import { SearchFacetChips, SearchResultTags, SearchSnippet } from './SearchResultDetails'
 
 function Kbd({ children }: { children: React.ReactNode }) {
   return (
@@ -34,6 +28,8 @@ export function SearchDialog() {
   const [open, setOpen] = useState(false)
   const [query, setQuery] = useState('')
   const [results, setResults] = useState<SearchResult[]>([])
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
+  const [filters, setFilters] = useState<SearchFilters>({})
   const [loading, setLoading] = useState(false)
   const [selectedIndex, setSelectedIndex] = useState(0)
   const searchInputRef = useRef<HTMLInputElement>(null)
@@ -52,6 +48,7 @@ export function SearchDialog() {
     setOpen(false)
     setQuery('')
     setResults([])
+    setFilters({})
   }, [location.pathname])
 
   // Keyboard shortcut to open dialog (Cmd/Ctrl + K)
@@ -96,16 +93,18 @@ export function SearchDialog() {
   useEffect(() => {
     if (!query.trim()) {
       setResults([])
+      setFacets(null)
       return
     }
 
     const timer = setTimeout(async () => {
       setLoading(true)
       try {
-        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`)
+        const response = await fetch(`/api/search?${buildSearchParams(query, filters)}`)
         if (response.ok) {
           const data = await response.json()
           setResults(data.results || [])
+          setFacets(data.facets || null)
           setSelectedIndex(0)
         }
       } catch {
@@ -116,7 +115,7 @@ export function SearchDialog() {
     }, 200)
 
     return () => clearTimeout(timer)
-  }, [query])
+  }, [query, filters])
 
   const handleSelect = useCallback(
     (result: SearchResult) => {
@@ -162,11 +161,16 @@ export function SearchDialog() {
             label="Søk"
             hideLabel
             variant="simple"
-            placeholder="Søk på navn, NAV-ident, SHA, deployment ID..."
+            placeholder="Søk på navn, NAV-ident, SHA, deployment ID eller fritekst..."
             value={query}
             onChange={setQuery}
             autoComplete="off"
           />
+          {query && facets && (
+            <Box paddingBlock="space-8 space-0">
+              <SearchFacetChips facets={facets} filters={filters} onChange={setFilters} />
+            </Box>
+          )}
         </Dialog.Header>
 
         <Dialog.Body style={{ padding: 0, maxHeight: '400px', overflowY: 'auto' }}>
@@ -228,9 +232,7 @@ export function SearchDialog() {
                               >
                                 {result.title}
                               </BodyShort>
-                              <Tag size="xsmall" variant={result.type === 'deployment' ? 'info' : 'neutral'}>
-                                {result.type === 'deployment' ? 'Deployment' : 'Bruker'}
-                              </Tag>
+                              <SearchResultTags result={result} />
                             </HStack>
                             {result.subtitle && (
                               <BodyShort
@@ -245,6 +247,7 @@ export function SearchDialog() {
                                 {result.subtitle}
                               </BodyShort>
                             )}
+                            {result.snippet && <SearchSnippet snippet={result.snippet} truncate />}
                           </VStack>
                         </HStack>
                       </Link>
@@ -259,7 +262,8 @@ export function SearchDialog() {
             <Box padding="space-24">
               <VStack gap="space-8" align="center">
                 <BodyShort style={{ color: 'var(--ax-text-neutral-subtle)' }}>
-                  Søk på navn, NAV-ident, GitHub-brukernavn, SHA eller deployment ID
+                  Søk på navn, NAV-ident, GitHub-brukernavn, SHA, deployment ID eller tekst i PR-er, commits,
+                  kommentarer og avvik
                 </BodyShort>
                 <HStack gap="space-8">
                   <HStack gap="space-4" align="center">
@@ -0,0 +1,91 @@
+import { BodyShort, Chips, HStack, Tag } from '@navikt/ds-react'
+import {
+  SEARCH_MATCH_SOURCE_LABELS,
+  type SearchFacets,
+  type SearchFacetValue,
+  type SearchFilters,
+  type SearchResult,
+  splitSearchSnippet,
+} from '~/lib/search'
+
+/**
+ * Result type, and for full-text matches where the query matched
+ */
+export function SearchResultTags({ result }: { result: SearchResult }) {
+  return (
+    <HStack gap="space-4" align="center" wrap={false}>
+      <Tag size="xsmall" variant={result.type === 'deployment' ? 'info' : 'neutral'}>
+        {result.type === 'deployment' ? 'Deployment' : 'Bruker'}
+      </Tag>
+      {result.matchedIn
+        ?.filter((source) => source !== 'deployment')
+        .map((source) => (
+          <Tag key={source} size="xsmall" variant="neutral">
+            {SEARCH_MATCH_SOURCE_LABELS[source]}
+          </Tag>
+        ))}
+    </HStack>
+  )
+}
+
+/**
+ * Excerpt of the best full-text match with the matched words highlighted
+ */
+export function SearchSnippet({ snippet, truncate = false }: { snippet: string; truncate?: boolean }) {
+  return (
+    <BodyShort
+      size="small"
+      style={{
+        color: 'var(--ax-text-neutral-subtle)',
+        ...(truncate && { overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }),
+      }}
+    >
+      {splitSearchSnippet(snippet).map((part, index) =>
+        part.highlight ? (
+          // biome-ignore lint/suspicious/noArrayIndexKey: parts have no identity and never reorder
+          <mark key={index}>{part.text}</mark>
+        ) : (
+          part.text
+        ),
+      )}
+    </BodyShort>
+  )
+}
+
+const FACET_CHIP_LIMIT = 4
+
+/**
+ * Compact facet filters for the search dialog: the most common values of each facet as toggles
+ */
+export function SearchFacetChips({
+  facets,
+  filters,
+  onChange,
+}: {
+  facets: SearchFacets
+  filters: SearchFilters
+  onChange: (filters: SearchFilters) => void
+}) {
+  const chips = (key: keyof SearchFilters, values: SearchFacetValue[]) =>
+    values.slice(0, FACET_CHIP_LIMIT).map((facet) => {
+      const selected = filters[key] === facet.value
+      return (
+        <Chips.Toggle
+          key={`${key}-${facet.value}`}
+          selected={selected}
+          onClick={() => onChange({ ...filters, [key]: selected ? undefined : facet.value })}
+        >
+          {`${facet.label} (${facet.count})`}
+        </Chips.Toggle>
+      )
+    })
+
+  return (
+    <Chips size="small">
+      {chips('environment', facets.environment)}
+      {chips('status', facets.status)}
+      {chips('team', facets.team)}
+      {chips('period', facets.period)}
+    </Chips>
+  )
+}
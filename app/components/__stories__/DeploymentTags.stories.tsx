@@ -1,6 +1,6 @@
 import { HStack } from '@navikt/ds-react'
 import type { Meta, StoryObj } from '@storybook/react'
-import { MethodTag, StatusTag } from '../deployment-tags'
+import { ChangeTypeTag, MethodTag, StatusTag } from '../deployment-tags'
 
 const meta: Meta = {
   title: 'Components/DeploymentTags',
@@ -63,6 +63,29 @@ export const StatusTagLegacy: Story = {
   render: () => <StatusTag four_eyes_status="legacy" has_four_eyes={false} />,
 }
 
+export const StatusTagInfrastructure: Story = {
+  name: 'StatusTag - Infrastrukturendring',
+  render: () => (
+    <HStack gap="space-8">
+      <StatusTag four_eyes_status="approved" has_four_eyes={true} change_type="infrastructure" />
+    </HStack>
+  ),
+}
+
+/**
+ * ChangeTypeTag viser hva slags endring en deployment var, basert på Nais-ressursene
+ */
+export const ChangeTypeTagVariants: Story = {
+  name: 'ChangeTypeTag - Alle varianter',
+  render: () => (
+    <HStack gap="space-8" wrap>
+      <ChangeTypeTag change_type="code" />
+      <ChangeTypeTag change_type="config" />
+      <ChangeTypeTag change_type="infrastructure" />
+    </HStack>
+  ),
+}
+
 export const AllStatusTags: Story = {
   name: 'StatusTag - Alle varianter',
   render: () => (
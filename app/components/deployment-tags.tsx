@@ -1,17 +1,30 @@
 import { CheckmarkIcon, ExclamationmarkTriangleIcon, XMarkIcon } from '@navikt/aksel-icons'
 import { Tag } from '@navikt/ds-react'
 import { type FourEyesStatus, isLegacyStatus, isPendingStatus } from '~/lib/four-eyes-status'
+import {
+  DEPLOYMENT_CHANGE_TYPE_DESCRIPTIONS,
+  DEPLOYMENT_CHANGE_TYPE_LABELS,
+  type DeploymentChangeType,
+} from '~/lib/resource-changes'
 
 interface DeploymentTagProps {
   github_pr_number: number | null
   four_eyes_status: FourEyesStatus
   has_four_eyes: boolean
+  change_type?: DeploymentChangeType | null
 }
 
 export function MethodTag({
   github_pr_number,
   four_eyes_status,
 }: Pick<DeploymentTagProps, 'github_pr_number' | 'four_eyes_status'>) {
+  if (four_eyes_status === 'rollback') {
+    return (
+      <Tag data-color="info" variant="outline" size="small">
+        Rollback
+      </Tag>
+    )
+  }
   if (github_pr_number) {
     return (
       <Tag data-color="info" variant="outline" size="small">
@@ -40,9 +53,44 @@ export function MethodTag({
   )
 }
 
+/**
+ * Endringstype fra Nais-ressursene og endrede filer (kode, konfigurasjon eller infrastruktur).
+ * Tooltipen forklarer hva klassifiseringen bygger på, siden den ikke ser innholdet i ressursene.
+ */
+export function ChangeTypeTag({ change_type }: { change_type: DeploymentChangeType }) {
+  return (
+    <Tag
+      data-color={change_type === 'infrastructure' ? 'warning' : 'neutral'}
+      variant="outline"
+      size="small"
+      title={DEPLOYMENT_CHANGE_TYPE_DESCRIPTIONS[change_type]}
+    >
+      {DEPLOYMENT_CHANGE_TYPE_LABELS[change_type]}
+    </Tag>
+  )
+}
+
 export function StatusTag({
   four_eyes_status,
   has_four_eyes,
+  change_type,
+}: Pick<DeploymentTagProps, 'four_eyes_status' | 'has_four_eyes' | 'change_type'>) {
+  // Infrastrukturendringer (ressurser lagt til/fjernet eller endret Nais-manifest) vises ved siden av
+  // statusen, siden de kan kreve strengere review. Kode og konfigurasjon vises bare på deployment-siden.
+  if (change_type === 'infrastructure') {
+    return (
+      <>
+        <ApprovalStatusTag four_eyes_status={four_eyes_status} has_four_eyes={has_four_eyes} />
+        <ChangeTypeTag change_type={change_type} />
+      </>
+    )
+  }
+  return <ApprovalStatusTag four_eyes_status={four_eyes_status} has_four_eyes={has_four_eyes} />
+}
+
+function ApprovalStatusTag({
+  four_eyes_status,
+  has_four_eyes,
 }: Pick<DeploymentTagProps, 'four_eyes_status' | 'has_four_eyes'>) {
   // Godkjent - har passert fire-øyne prinsippet
   if (has_four_eyes) {
@@ -80,6 +128,12 @@ export function StatusTag({
           Ikke godkjent
         </Tag>
       )
+    case 'missing_required_tests':
+      return (
+        <Tag data-color="warning" variant="outline" size="small" icon={<ExclamationmarkTriangleIcon aria-hidden />}>
+          Mangler tester
+        </Tag>
+      )
     case 'approved_pr_with_unreviewed':
       return (
         <Tag data-color="warning" variant="outline" size="small" icon={<ExclamationmarkTriangleIcon aria-hidden />}>
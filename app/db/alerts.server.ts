@@ -1,9 +1,12 @@
+import type { BranchProtectionWeakening } from '~/lib/branch-protection'
 import { pool } from './connection.server'
+import { recordOutboxEvent } from './event-outbox.server'
 
 export interface RepositoryAlert {
   id: number
   monitored_app_id: number
-  deployment_id: number
+  /** Null for alerts that are not about a deployment, e.g. weakened branch protection */
+  deployment_id: number | null
   alert_type: string
   expected_github_owner: string
   expected_github_repo_name: string
@@ -13,6 +16,7 @@ export interface RepositoryAlert {
   resolved_at: Date | null
   resolved_by: string | null
   resolution_note: string | null
+  details: { branch?: string; weakenings?: BranchProtectionWeakening[] } | null
   created_at: Date
 }
 
@@ -20,10 +24,10 @@ export interface RepositoryAlertWithContext extends RepositoryAlert {
   team_slug: string
   environment_name: string
   app_name: string
-  deployment_nais_id: string
-  deployment_created_at: Date
-  deployer_username: string
-  commit_sha: string
+  deployment_nais_id: string | null
+  deployment_created_at: Date | null
+  deployer_username: string | null
+  commit_sha: string | null
 }
 
 export async function createRepositoryAlert(data: {
@@ -67,9 +71,53 @@ export async function createRepositoryAlert(data: {
       data.detectedGithubRepoName,
     ],
   )
+  if (result.rows[0]) {
+    await recordAlertEvent(result.rows[0])
+  }
   return result.rows[0]
 }
 
+/**
+ * Alert that the protection of a repository's default branch was weakened
+ */
+export async function createBranchProtectionAlert(data: {
+  monitoredApplicationId: number
+  githubOwner: string
+  githubRepoName: string
+  branch: string
+  weakenings: BranchProtectionWeakening[]
+}): Promise<RepositoryAlert> {
+  const result = await pool.query(
+    `INSERT INTO repository_alerts
+      (monitored_app_id, alert_type, expected_github_owner, expected_github_repo_name, detected_github_owner, detected_github_repo_name, details)
+    VALUES ($1, 'branch_protection_weakened', $2, $3, $2, $3, $4)
+    RETURNING *`,
+    [
+      data.monitoredApplicationId,
+      data.githubOwner,
+      data.githubRepoName,
+      JSON.stringify({ branch: data.branch, weakenings: data.weakenings }),
+    ],
+  )
+  await recordAlertEvent(result.rows[0])
+  return result.rows[0]
+}
+
+async function recordAlertEvent(alert: RepositoryAlert): Promise<void> {
+  await recordOutboxEvent({
+    type: 'repository_alert.created',
+    monitoredAppId: alert.monitored_app_id,
+    deploymentId: alert.deployment_id,
+    payload: {
+      alertId: alert.id,
+      alertType: alert.alert_type,
+      expectedRepository: `${alert.expected_github_owner}/${alert.expected_github_repo_name}`,
+      detectedRepository: `${alert.detected_github_owner}/${alert.detected_github_repo_name}`,
+      details: alert.details,
+    },
+  })
+}
+
 export async function resolveRepositoryAlert(id: number, resolutionNote: string): Promise<RepositoryAlert> {
   const result = await pool.query(
     `UPDATE repository_alerts 
@@ -113,7 +161,7 @@ export async function getUnresolvedAlertsByApp(monitoredAppId: number): Promise<
       d.commit_sha
     FROM repository_alerts ra
     JOIN monitored_applications ma ON ra.monitored_app_id = ma.id
-    JOIN deployments d ON ra.deployment_id = d.id
+    LEFT JOIN deployments d ON ra.deployment_id = d.id
     WHERE ra.resolved_at IS NULL AND ra.monitored_app_id = $1
     ORDER BY ra.created_at DESC`,
     [monitoredAppId],
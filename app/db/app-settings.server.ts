@@ -1,5 +1,12 @@
 import { logger } from '~/lib/logger.server'
-import { IMPLICIT_APPROVAL_MODES, type ImplicitApprovalMode } from '~/lib/verification/types'
+import {
+  IMPLICIT_APPROVAL_MODES,
+  type ImplicitApprovalMode,
+  TEST_REQUIREMENTS,
+  type TestRequirement,
+  type TestRequirementChecks,
+  type TestRequirementSettings,
+} from '~/lib/verification/types'
 import { pool } from './connection.server'
 
 // ============================================================================
@@ -36,9 +43,42 @@ export const DEFAULT_IMPLICIT_APPROVAL_SETTINGS: ImplicitApprovalSettings = {
   mode: 'off',
 }
 
+// Test requirement check names structure
+export interface TestRequirementChecksSetting extends TestRequirementChecks {
+  [key: string]: unknown // Allow index signature for Record<string, unknown> compatibility
+}
+
+export const DEFAULT_TEST_REQUIREMENT_CHECKS: TestRequirementChecksSetting = {
+  unit_tests: [],
+  integration_tests: [],
+}
+
+// CODEOWNERS requirement settings structure
+export interface CodeownersRequirementSettings {
+  enabled: boolean
+  [key: string]: unknown // Allow index signature for Record<string, unknown> compatibility
+}
+
+export const DEFAULT_CODEOWNERS_REQUIREMENT_SETTINGS: CodeownersRequirementSettings = {
+  enabled: false,
+}
+
+// Stricter review of infrastructure-changing deployments
+export interface InfrastructureReviewSettings {
+  enabled: boolean
+  [key: string]: unknown // Allow index signature for Record<string, unknown> compatibility
+}
+
+export const DEFAULT_INFRASTRUCTURE_REVIEW_SETTINGS: InfrastructureReviewSettings = {
+  enabled: false,
+}
+
 // Setting keys
 export const SETTING_KEYS = {
   IMPLICIT_APPROVAL: 'implicit_approval',
+  TEST_REQUIREMENT_CHECKS: 'test_requirement_checks',
+  CODEOWNERS_REQUIREMENT: 'codeowners_requirement',
+  INFRASTRUCTURE_REVIEW: 'infrastructure_review',
 } as const
 
 // Re-export for convenience
@@ -75,6 +115,55 @@ export async function getImplicitApprovalSettings(monitoredAppId: number): Promi
   return getAppSetting(monitoredAppId, SETTING_KEYS.IMPLICIT_APPROVAL, DEFAULT_IMPLICIT_APPROVAL_SETTINGS)
 }
 
+/**
+ * Get the check run names that satisfy each test requirement level for an application
+ */
+export async function getTestRequirementChecks(monitoredAppId: number): Promise<TestRequirementChecksSetting> {
+  return getAppSetting(monitoredAppId, SETTING_KEYS.TEST_REQUIREMENT_CHECKS, DEFAULT_TEST_REQUIREMENT_CHECKS)
+}
+
+/**
+ * Get whether changed files with code owners must be approved by one of their owners
+ */
+export async function getCodeownersRequirementSettings(monitoredAppId: number): Promise<CodeownersRequirementSettings> {
+  return getAppSetting(monitoredAppId, SETTING_KEYS.CODEOWNERS_REQUIREMENT, DEFAULT_CODEOWNERS_REQUIREMENT_SETTINGS)
+}
+
+/**
+ * Get whether infrastructure-changing deployments need an explicitly approved PR
+ */
+export async function getInfrastructureReviewSettings(monitoredAppId: number): Promise<InfrastructureReviewSettings> {
+  return getAppSetting(monitoredAppId, SETTING_KEYS.INFRASTRUCTURE_REVIEW, DEFAULT_INFRASTRUCTURE_REVIEW_SETTINGS)
+}
+
+/**
+ * Get the test requirement level and its check names for an application.
+ * The level lives on monitored_applications; the check names in app_settings.
+ */
+export async function getTestRequirementSettings(monitoredAppId: number): Promise<TestRequirementSettings> {
+  const result = await pool.query<{ test_requirement: string }>(
+    'SELECT test_requirement FROM monitored_applications WHERE id = $1',
+    [monitoredAppId],
+  )
+  const rawLevel = result.rows[0]?.test_requirement
+  const level: TestRequirement = TEST_REQUIREMENTS.includes(rawLevel as TestRequirement)
+    ? (rawLevel as TestRequirement)
+    : 'none'
+
+  if (level === 'none') {
+    return { level, checks: { unit_tests: [], integration_tests: [] } }
+  }
+
+  const checks = await getTestRequirementChecks(monitoredAppId)
+  return {
+    level,
+    checks: {
+      unit_tests: checks.unit_tests ?? [],
+      integration_tests: checks.integration_tests ?? [],
+    },
+  }
+}
+
 /**
  * Update a setting for an application with audit logging
  */
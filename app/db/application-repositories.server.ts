@@ -11,6 +11,7 @@ export interface ApplicationRepository {
   notes: string | null
   approved_at: Date | null
   approved_by: string | null
+  github_repo_id: string | null
   created_at: Date
 }
 
@@ -170,6 +171,104 @@ export async function approveRepository(
   return result.rows[0]
 }
 
+/**
+ * Store the GitHub repository ID of a repository, once it has been looked up
+ */
+export async function setRepositoryGitHubId(repoId: number, githubRepoId: number): Promise<void> {
+  await pool.query('UPDATE application_repositories SET github_repo_id = $1 WHERE id = $2', [githubRepoId, repoId])
+}
+
+/**
+ * Record that a repository was renamed or transferred: the previous repository becomes
+ * historical and redirects to the new name, which is approved as active. Open pending
+ * approval alerts for the new name are resolved, and the change is written to the app's
+ * config audit log, since it replaces a manual approval.
+ */
+export async function recordRepositoryRedirect(data: {
+  previousRepositoryId: number
+  githubOwner: string
+  githubRepoName: string
+  githubRepoId: number
+  approvedBy: string
+}): Promise<ApplicationRepository> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const previous = await client.query<ApplicationRepository>(
+      `UPDATE application_repositories
+       SET status = 'historical', redirects_to_owner = $2, redirects_to_repo = $3
+       WHERE id = $1
+       RETURNING *`,
+      [data.previousRepositoryId, data.githubOwner, data.githubRepoName],
+    )
+    if (previous.rows.length === 0) {
+      throw new Error(`Repository with id ${data.previousRepositoryId} not found`)
+    }
+    const {
+      monitored_app_id: monitoredAppId,
+      github_owner: previousOwner,
+      github_repo_name: previousRepo,
+    } = previous.rows[0]
+
+    const notes = `Omdøpt/flyttet fra ${previousOwner}/${previousRepo} (GitHub repo-ID ${data.githubRepoId})`
+    const result = await client.query<ApplicationRepository>(
+      `INSERT INTO application_repositories (
+        monitored_app_id, github_owner, github_repo_name, status, notes, approved_at, approved_by, github_repo_id
+      ) VALUES ($1, $2, $3, 'active', $4, NOW(), $5, $6)
+      ON CONFLICT (monitored_app_id, github_owner, github_repo_name)
+      DO UPDATE SET
+        status = 'active',
+        redirects_to_owner = NULL,
+        redirects_to_repo = NULL,
+        notes = EXCLUDED.notes,
+        approved_at = EXCLUDED.approved_at,
+        approved_by = EXCLUDED.approved_by,
+        github_repo_id = EXCLUDED.github_repo_id
+      RETURNING *`,
+      [monitoredAppId, data.githubOwner, data.githubRepoName, notes, data.approvedBy, data.githubRepoId],
+    )
+
+    const resolvedAlerts = await client.query<{ id: number }>(
+      `UPDATE repository_alerts
+       SET resolved = true, resolved_at = NOW(), resolved_by = $4, resolution_note = $5
+       WHERE monitored_app_id = $1
+         AND alert_type = 'pending_approval'
+         AND detected_github_owner = $2
+         AND detected_github_repo_name = $3
+         AND resolved = false
+       RETURNING id`,
+      [monitoredAppId, data.githubOwner, data.githubRepoName, data.approvedBy, notes],
+    )
+
+    await client.query(
+      `INSERT INTO app_config_audit_log
+       (monitored_app_id, changed_by_nav_ident, setting_key, old_value, new_value, change_reason)
+       VALUES ($1, $2, 'repository_redirect', $3, $4, $5)`,
+      [
+        monitoredAppId,
+        data.approvedBy,
+        JSON.stringify({ owner: previousOwner, repo: previousRepo }),
+        JSON.stringify({
+          owner: data.githubOwner,
+          repo: data.githubRepoName,
+          github_repo_id: data.githubRepoId,
+          resolved_alert_ids: resolvedAlerts.rows.map((row) => row.id),
+        }),
+        'Automatisk godkjent: GitHub viderekobler til samme repository-ID',
+      ],
+    )
+
+    await client.query('COMMIT')
+    return result.rows[0]
+  } catch (e) {
+    await client.query('ROLLBACK')
+    throw e
+  } finally {
+    client.release()
+  }
+}
+
 /**
  * Reject/delete a pending repository
  */
@@ -223,3 +322,18 @@ export async function getAllActiveRepositories(): Promise<Map<number, string>> {
   }
   return map
 }
+
+/**
+ * Get IDs of monitored applications with an active repository matching owner/repo
+ */
+export async function getMonitoredAppIdsForRepository(owner: string, repoName: string): Promise<number[]> {
+  const result = await pool.query(
+    `SELECT DISTINCT monitored_app_id
+     FROM application_repositories 
+     WHERE status = 'active'
+       AND LOWER(github_owner) = LOWER($1)
+       AND LOWER(github_repo_name) = LOWER($2)`,
+    [owner, repoName],
+  )
+  return result.rows.map((row) => row.monitored_app_id)
+}
@@ -1,8 +1,13 @@
 import { createHash } from 'node:crypto'
+import type { BranchProtectionRules } from '~/lib/branch-protection'
+import { isApprovedStatus, isAuditAcceptedStatus } from '~/lib/four-eyes-status'
+import { computeChainHash, type ReportChainEntry } from '~/lib/report-integrity'
 import type { ReportPeriodType } from '~/lib/report-periods'
 import { generateReportId } from '~/lib/report-periods'
+import { type BranchProtectionSnapshot, getBranchProtectionSnapshotsForPeriod } from './branch-protection.server'
 import { pool } from './connection.server'
 import { getDeviationsForPeriod } from './deviations.server'
+import { getProductionApplicationIds } from './monitored-applications.server'
 
 // ============================================================================
 // Types
@@ -57,6 +62,11 @@ export interface AuditReport {
   pdf_data: Buffer | null
   generated_at: Date
   generated_by: string | null
+  // Tamper evidence - set when the PDF is stored
+  pdf_hash: string | null
+  signature: string | null
+  signing_key_id: string | null
+  chain_hash: string | null
 }
 
 export interface AuditReportData {
@@ -67,6 +77,16 @@ export interface AuditReportData {
   legacy_count: number
   deviations: DeviationEntry[]
   unverified_commit_deployments: UnverifiedCommitDeploymentEntry[]
+  /** Default-branch protection in force during the period (absent when never snapshotted) */
+  branch_protection?: BranchProtectionEntry[]
+}
+
+export interface BranchProtectionEntry {
+  repository: string
+  branch: string
+  /** When the rules were first seen; the first entry may predate the period */
+  in_force_from: string
+  rules: BranchProtectionRules
 }
 
 export interface DeviationEntry {
@@ -178,6 +198,8 @@ export interface AuditReadinessCheck {
   approved_count: number
   legacy_count: number
   pending_count: number
+  /** IDs of all pending deployments, in deployment order */
+  pending_deployment_ids: number[]
   pending_deployments: Array<{
     id: number
     created_at: Date
@@ -202,7 +224,9 @@ export async function checkAuditReadiness(
   const startDate = periodStart
   const endDate = periodEnd
 
-  // Get all deployments for the year in production environments
+  const productionAppIds = await getProductionApplicationIds()
+
+  // Get all deployments for the period, if the app is classified as production
   const result = await pool.query<{
     id: number
     created_at: Date
@@ -217,32 +241,15 @@ export async function checkAuditReadiness(
      WHERE d.monitored_app_id = $1
        AND d.created_at >= $2
        AND d.created_at <= $3
-       AND ma.environment_name IN ('prod-fss', 'prod-gcp')
+       AND ma.id = ANY($4)
      ORDER BY d.created_at ASC`,
-    [monitoredAppId, startDate, endDate],
+    [monitoredAppId, startDate, endDate, productionAppIds],
   )
 
   const deployments = result.rows
-  // Approved statuses - 'approved' is the main status for PR-verified deployments
-  const approvedStatuses = [
-    'approved',
-    'approved_pr',
-    'manually_approved',
-    'implicitly_approved',
-    'legacy',
-    'baseline',
-    'no_changes',
-  ]
-
-  const approved = deployments.filter(
-    (d) =>
-      d.four_eyes_status === 'approved' ||
-      d.four_eyes_status === 'approved_pr' ||
-      d.four_eyes_status === 'manually_approved' ||
-      d.four_eyes_status === 'implicitly_approved',
-  )
+  const approved = deployments.filter((d) => isApprovedStatus(d.four_eyes_status))
   const legacy = deployments.filter((d) => d.four_eyes_status === 'legacy')
-  const pending = deployments.filter((d) => !approvedStatuses.includes(d.four_eyes_status))
+  const pending = deployments.filter((d) => !isAuditAcceptedStatus(d.four_eyes_status))
 
   return {
     is_ready: pending.length === 0 && deployments.length > 0,
@@ -250,6 +257,7 @@ export async function checkAuditReadiness(
     approved_count: approved.length,
     legacy_count: legacy.length,
     pending_count: pending.length,
+    pending_deployment_ids: pending.map((d) => d.id),
     pending_deployments: pending.slice(0, 10), // Return first 10 for display
   }
 }
@@ -262,7 +270,13 @@ export async function getAuditReportData(
   periodStart: Date,
   periodEnd: Date,
 ): Promise<{
-  app: { app_name: string; team_slug: string; environment_name: string; test_requirement: string }
+  app: {
+    app_name: string
+    team_slug: string
+    environment_name: string
+    test_requirement: string
+    default_branch: string | null
+  }
   repository: string
   deployments: AuditDeploymentRow[]
   manual_approvals: Array<{
@@ -280,13 +294,14 @@ export async function getAuditReportData(
   reviewer_counts: Map<string, number>
   user_mappings: Map<string, { display_name: string | null; nav_ident: string | null; github_username: string }>
   canonical_map: Map<string, string>
+  branch_protection_snapshots: BranchProtectionSnapshot[]
 }> {
   const startDate = periodStart
   const endDate = periodEnd
 
   // Get app info
   const appResult = await pool.query(
-    `SELECT app_name, team_slug, environment_name, test_requirement FROM monitored_applications WHERE id = $1`,
+    `SELECT app_name, team_slug, environment_name, test_requirement, default_branch FROM monitored_applications WHERE id = $1`,
     [monitoredAppId],
   )
   if (appResult.rows.length === 0) {
@@ -294,7 +309,9 @@ export async function getAuditReportData(
   }
   const app = appResult.rows[0]
 
-  // Get all production deployments for the year - extract approved_by from JSON in SQL
+  const productionAppIds = await getProductionApplicationIds()
+
+  // Get all production deployments for the period - extract approved_by from JSON in SQL
   // This avoids loading the large github_pr_data blob into memory
   const deploymentsResult = await pool.query<AuditDeploymentRow>(
     `SELECT 
@@ -327,9 +344,9 @@ export async function getAuditReportData(
      WHERE d.monitored_app_id = $1
        AND d.created_at >= $2
        AND d.created_at <= $3
-       AND ma.environment_name IN ('prod-fss', 'prod-gcp')
+       AND ma.id = ANY($4)
      ORDER BY d.created_at ASC`,
-    [monitoredAppId, startDate, endDate],
+    [monitoredAppId, startDate, endDate, productionAppIds],
   )
   const deployments = deploymentsResult.rows
 
@@ -448,6 +465,12 @@ export async function getAuditReportData(
 
   const deviations = await getDeviationsForPeriod(monitoredAppId, startDate, endDate)
 
+  const [owner, repo] = repository.split('/')
+  const branch_protection_snapshots =
+    deployments.length > 0
+      ? await getBranchProtectionSnapshotsForPeriod(owner, repo, app.default_branch || 'main', startDate, endDate)
+      : []
+
   return {
     app,
     repository,
@@ -458,6 +481,7 @@ export async function getAuditReportData(
     user_mappings,
     canonical_map,
     deviations,
+    branch_protection_snapshots,
   }
 }
 
@@ -473,6 +497,7 @@ export function buildReportData(rawData: Awaited<ReturnType<typeof getAuditRepor
     user_mappings,
     canonical_map,
     deviations: rawDeviations,
+    branch_protection_snapshots,
   } = rawData
   const manualApprovalMap = new Map(manual_approvals.map((a) => [a.deployment_id, a]))
   const legacyInfoMap = new Map(legacy_infos.map((l) => [l.deployment_id, l]))
@@ -671,13 +696,21 @@ export function buildReportData(rawData: Awaited<ReturnType<typeof getAuditRepor
     legacy_count: legacyCount,
     deviations: deviationEntries,
     unverified_commit_deployments: unverifiedCommitDeployments,
+    ...(branch_protection_snapshots.length > 0 && {
+      branch_protection: branch_protection_snapshots.map((s) => ({
+        repository: `${s.owner}/${s.repo}`,
+        branch: s.branch,
+        in_force_from: new Date(s.fetched_at).toISOString(),
+        rules: s.data,
+      })),
+    }),
   }
 }
 
 /**
  * Calculate SHA256 hash of report data for integrity verification
  */
-function calculateReportHash(reportData: AuditReportData): string {
+export function calculateReportHash(reportData: AuditReportData): string {
   const json = JSON.stringify(reportData)
   return createHash('sha256').update(json).digest('hex')
 }
@@ -744,7 +777,11 @@ export async function saveAuditReport(params: {
       report_data = EXCLUDED.report_data,
       content_hash = EXCLUDED.content_hash,
       generated_at = NOW(),
-      generated_by = EXCLUDED.generated_by
+      generated_by = EXCLUDED.generated_by,
+      pdf_hash = NULL,
+      signature = NULL,
+      signing_key_id = NULL,
+      chain_hash = NULL
     RETURNING *`,
     [
       reportId,
@@ -780,6 +817,14 @@ export async function getAuditReportById(id: number): Promise<AuditReport | null
   return result.rows[0] || null
 }
 
+/**
+ * Get an audit report by its document ID (report_id)
+ */
+export async function getAuditReportByReportId(reportId: string): Promise<AuditReport | null> {
+  const result = await pool.query<AuditReport>('SELECT * FROM audit_reports WHERE report_id = $1', [reportId])
+  return result.rows[0] || null
+}
+
 /**
  * Get all audit reports (summary)
  */
@@ -808,9 +853,187 @@ export async function getAuditReportsForApp(monitoredAppId: number): Promise<Aud
   return result.rows
 }
 
+/**
+ * Get the stored audit report for an app and period, if one has been generated
+ */
+export async function getAuditReportForPeriod(
+  monitoredAppId: number,
+  periodType: ReportPeriodType,
+  periodStart: Date,
+): Promise<{ id: number; report_id: string } | null> {
+  const result = await pool.query<{ id: number; report_id: string }>(
+    `SELECT id, report_id FROM audit_reports
+     WHERE monitored_app_id = $1 AND period_type = $2 AND period_start = $3`,
+    [monitoredAppId, periodType, periodStart],
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Record that a Slack summary was sent for a period blocked by unapproved deployments.
+ * Returns false if a summary was already sent for this app and period with the same blocking
+ * deployments less than resendAfterDays ago. Release the claim with releaseAuditReportBlockedNotice
+ * if the summary could not be sent.
+ */
+export async function claimAuditReportBlockedNotice(
+  monitoredAppId: number,
+  periodType: ReportPeriodType,
+  periodStart: Date,
+  pendingDeploymentIds: number[],
+  resendAfterDays: number,
+): Promise<boolean> {
+  const ids = [...pendingDeploymentIds].sort((a, b) => a - b)
+  const result = await pool.query(
+    `INSERT INTO audit_report_blocked_notices
+       (monitored_app_id, period_type, period_start, pending_count, pending_deployment_ids)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (monitored_app_id, period_type, period_start) DO UPDATE
+       SET pending_count = EXCLUDED.pending_count,
+           pending_deployment_ids = EXCLUDED.pending_deployment_ids,
+           notified_at = NOW()
+       WHERE audit_report_blocked_notices.pending_deployment_ids IS DISTINCT FROM EXCLUDED.pending_deployment_ids
+          OR audit_report_blocked_notices.notified_at < NOW() - make_interval(days => $6)
+     RETURNING id`,
+    [monitoredAppId, periodType, periodStart, ids.length, ids, resendAfterDays],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Undo a claim from claimAuditReportBlockedNotice, so the summary is sent on the next run
+ */
+export async function releaseAuditReportBlockedNotice(
+  monitoredAppId: number,
+  periodType: ReportPeriodType,
+  periodStart: Date,
+): Promise<void> {
+  await pool.query(
+    `DELETE FROM audit_report_blocked_notices
+     WHERE monitored_app_id = $1 AND period_type = $2 AND period_start = $3`,
+    [monitoredAppId, periodType, periodStart],
+  )
+}
+
+/**
+ * Get the production apps belonging to a section: apps owned by the section's Nais teams
+ * and apps linked directly to one of the section's dev teams.
+ */
+export async function getSectionAuditApplications(
+  sectionId: number,
+  teamSlugs: string[],
+): Promise<Array<{ id: number; app_name: string; team_slug: string; environment_name: string }>> {
+  const productionAppIds = await getProductionApplicationIds()
+
+  const result = await pool.query<{ id: number; app_name: string; team_slug: string; environment_name: string }>(
+    `SELECT ma.id, ma.app_name, ma.team_slug, ma.environment_name
+     FROM monitored_applications ma
+     WHERE ma.is_active = true
+       AND ma.id = ANY($3)
+       AND (
+         ma.team_slug = ANY($2)
+         OR ma.id IN (
+           SELECT dta.monitored_app_id
+           FROM dev_team_applications dta
+           JOIN dev_teams dt ON dt.id = dta.dev_team_id
+           WHERE dt.section_id = $1 AND dt.is_active = true
+         )
+       )
+     ORDER BY ma.team_slug, ma.app_name, ma.environment_name`,
+    [sectionId, teamSlugs, productionAppIds],
+  )
+  return result.rows
+}
+
 /**
  * Update PDF data for an audit report
  */
 export async function updateAuditReportPdf(reportId: number, pdfData: Buffer): Promise<void> {
   await pool.query('UPDATE audit_reports SET pdf_data = $1 WHERE id = $2', [pdfData, reportId])
 }
+
+/**
+ * Append a stored report to its app's hash chain and save the signature.
+ * The app row is locked so concurrent generation cannot fork the chain.
+ * `sign` receives the new chain link and returns the signature (or null when signing is not configured).
+ */
+export async function appendAuditReportChain(
+  report: Pick<AuditReport, 'id' | 'report_id' | 'monitored_app_id' | 'content_hash'>,
+  pdfHash: string,
+  sign: (link: {
+    sequence: number
+    previousChainHash: string | null
+    chainHash: string
+  }) => Promise<{ signature: string; keyId: string } | null>,
+): Promise<ReportChainEntry> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    await client.query('SELECT id FROM monitored_applications WHERE id = $1 FOR UPDATE', [report.monitored_app_id])
+
+    const latest = await client.query<{ sequence: number; chain_hash: string }>(
+      `SELECT sequence, chain_hash FROM audit_report_chain
+       WHERE monitored_app_id = $1
+       ORDER BY sequence DESC
+       LIMIT 1`,
+      [report.monitored_app_id],
+    )
+    const sequence = (latest.rows[0]?.sequence ?? 0) + 1
+    const previousChainHash = latest.rows[0]?.chain_hash ?? null
+    const chainHash = computeChainHash(previousChainHash, report.content_hash)
+
+    const signed = await sign({ sequence, previousChainHash, chainHash })
+
+    await client.query(
+      `INSERT INTO audit_report_chain
+        (monitored_app_id, sequence, audit_report_id, report_id, content_hash, previous_chain_hash, chain_hash)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        report.monitored_app_id,
+        sequence,
+        report.id,
+        report.report_id,
+        report.content_hash,
+        previousChainHash,
+        chainHash,
+      ],
+    )
+    await client.query(
+      `UPDATE audit_reports
+       SET pdf_hash = $2, signature = $3, signing_key_id = $4, chain_hash = $5
+       WHERE id = $1`,
+      [report.id, pdfHash, signed?.signature ?? null, signed?.keyId ?? null, chainHash],
+    )
+    await client.query('COMMIT')
+
+    return {
+      sequence,
+      audit_report_id: report.id,
+      report_id: report.report_id,
+      content_hash: report.content_hash,
+      previous_chain_hash: previousChainHash,
+      chain_hash: chainHash,
+      report_exists: true,
+    }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Get the hash chain for an app, with whether each entry's report still exists
+ */
+export async function getAuditReportChain(monitoredAppId: number): Promise<ReportChainEntry[]> {
+  const result = await pool.query<ReportChainEntry>(
+    `SELECT c.sequence, c.audit_report_id, c.report_id, c.content_hash, c.previous_chain_hash, c.chain_hash,
+            (ar.id IS NOT NULL) AS report_exists
+     FROM audit_report_chain c
+     LEFT JOIN audit_reports ar ON ar.id = c.audit_report_id AND ar.report_id = c.report_id
+     WHERE c.monitored_app_id = $1
+     ORDER BY c.sequence`,
+    [monitoredAppId],
+  )
+  return result.rows
+}
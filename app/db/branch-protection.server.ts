@@ -0,0 +1,130 @@
+import type { BranchProtectionRules } from '~/lib/branch-protection'
+import { pool } from './connection.server'
+
+export interface BranchProtectionSnapshot {
+  id: number
+  owner: string
+  repo: string
+  branch: string
+  fetched_at: Date
+  last_checked_at: Date
+  data: BranchProtectionRules
+}
+
+/** A repository of an app, with the branch its deployments are verified against */
+export interface BranchProtectionTarget {
+  owner: string
+  repo: string
+  branch: string
+}
+
+/**
+ * Repositories registered for an app (except historical ones), with the app's default branch,
+ * that have not been claimed for a check within the interval
+ */
+export async function getDueBranchProtectionTargetsForApp(
+  monitoredAppId: number,
+  intervalMs: number,
+): Promise<BranchProtectionTarget[]> {
+  const result = await pool.query<BranchProtectionTarget>(
+    `SELECT DISTINCT ar.github_owner AS owner, ar.github_repo_name AS repo, COALESCE(ma.default_branch, 'main') AS branch
+     FROM application_repositories ar
+     JOIN monitored_applications ma ON ma.id = ar.monitored_app_id
+     LEFT JOIN branch_protection_checks c
+       ON c.owner = ar.github_owner AND c.repo = ar.github_repo_name AND c.branch = COALESCE(ma.default_branch, 'main')
+     WHERE ar.monitored_app_id = $1 AND ar.status != 'historical'
+       AND (c.claimed_at IS NULL OR c.claimed_at < NOW() - INTERVAL '1 millisecond' * $2)`,
+    [monitoredAppId, intervalMs],
+  )
+  return result.rows
+}
+
+/**
+ * Atomically claim a repository for a branch protection check.
+ * Returns false if it was claimed within the interval, e.g. by another app using the same repository.
+ */
+export async function claimBranchProtectionCheck(target: BranchProtectionTarget, intervalMs: number): Promise<boolean> {
+  const result = await pool.query(
+    `INSERT INTO branch_protection_checks (owner, repo, branch, claimed_at)
+     VALUES ($1, $2, $3, NOW())
+     ON CONFLICT (owner, repo, branch) DO UPDATE SET claimed_at = NOW()
+       WHERE branch_protection_checks.claimed_at < NOW() - INTERVAL '1 millisecond' * $4
+     RETURNING owner`,
+    [target.owner, target.repo, target.branch, intervalMs],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Apps that have the repository registered (except as historical)
+ */
+export async function getAppIdsForRepository(owner: string, repo: string): Promise<number[]> {
+  const result = await pool.query<{ monitored_app_id: number }>(
+    `SELECT DISTINCT monitored_app_id
+     FROM application_repositories
+     WHERE github_owner = $1 AND github_repo_name = $2 AND status != 'historical'`,
+    [owner, repo],
+  )
+  return result.rows.map((r) => r.monitored_app_id)
+}
+
+export async function getLatestBranchProtectionSnapshot(
+  owner: string,
+  repo: string,
+  branch: string,
+): Promise<BranchProtectionSnapshot | null> {
+  const result = await pool.query(
+    `SELECT * FROM branch_protection_snapshots
+     WHERE owner = $1 AND repo = $2 AND branch = $3
+     ORDER BY fetched_at DESC
+     LIMIT 1`,
+    [owner, repo, branch],
+  )
+  return result.rows[0] || null
+}
+
+export async function saveBranchProtectionSnapshot(
+  owner: string,
+  repo: string,
+  branch: string,
+  rules: BranchProtectionRules,
+): Promise<BranchProtectionSnapshot> {
+  const result = await pool.query(
+    `INSERT INTO branch_protection_snapshots (owner, repo, branch, data)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [owner, repo, branch, JSON.stringify(rules)],
+  )
+  return result.rows[0]
+}
+
+/**
+ * Record that the rules were checked and found unchanged
+ */
+export async function markBranchProtectionSnapshotChecked(id: number): Promise<void> {
+  await pool.query(`UPDATE branch_protection_snapshots SET last_checked_at = NOW() WHERE id = $1`, [id])
+}
+
+/**
+ * Snapshots in force during a period: the one in force at the start, plus any changes during it
+ */
+export async function getBranchProtectionSnapshotsForPeriod(
+  owner: string,
+  repo: string,
+  branch: string,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<BranchProtectionSnapshot[]> {
+  const result = await pool.query(
+    `(SELECT * FROM branch_protection_snapshots
+      WHERE owner = $1 AND repo = $2 AND branch = $3 AND fetched_at <= $4
+      ORDER BY fetched_at DESC
+      LIMIT 1)
+     UNION ALL
+     (SELECT * FROM branch_protection_snapshots
+      WHERE owner = $1 AND repo = $2 AND branch = $3 AND fetched_at > $4 AND fetched_at <= $5)
+     ORDER BY fetched_at ASC`,
+    [owner, repo, branch, periodStart, periodEnd],
+  )
+  return result.rows
+}
@@ -1,4 +1,6 @@
+import { NOT_APPROVED_STATUSES, PENDING_STATUSES } from '~/lib/four-eyes-status'
 import { pool } from './connection.server'
+import { getProductionApplicationIds } from './monitored-applications.server'
 
 export interface SectionOverallStats {
   total_deployments: number
@@ -37,26 +39,28 @@ export interface BoardObjectiveProgress {
 
 /**
  * Get overall section stats using section_teams for the full picture.
- * This includes ALL deployments for nais teams in the section, regardless of dev team assignment.
+ * This includes ALL production deployments for nais teams in the section, regardless of dev team assignment.
  */
 export async function getSectionOverallStats(
   sectionId: number,
   startDate: Date,
   endDate: Date,
 ): Promise<SectionOverallStats> {
+  const productionAppIds = await getProductionApplicationIds()
   const result = await pool.query(
     `SELECT
        COUNT(d.id)::int AS total_deployments,
        COUNT(d.id) FILTER (WHERE d.has_four_eyes = true)::int AS with_four_eyes,
-       COUNT(d.id) FILTER (WHERE d.four_eyes_status IN ('direct_push', 'unverified_commits', 'approved_pr_with_unreviewed', 'unauthorized_repository', 'unauthorized_branch'))::int AS without_four_eyes,
-       COUNT(d.id) FILTER (WHERE d.four_eyes_status IN ('pending', 'pending_baseline', 'pending_approval', 'unknown'))::int AS pending_verification,
+       COUNT(d.id) FILTER (WHERE d.four_eyes_status = ANY($4))::int AS without_four_eyes,
+       COUNT(d.id) FILTER (WHERE d.four_eyes_status = ANY($5))::int AS pending_verification,
        COUNT(DISTINCT dgl.deployment_id)::int AS linked_to_goal
      FROM section_teams st
      JOIN deployments d ON d.team_slug = st.team_slug
        AND d.created_at >= $2 AND d.created_at < $3
+       AND d.monitored_app_id = ANY($6)
      LEFT JOIN deployment_goal_links dgl ON dgl.deployment_id = d.id
      WHERE st.section_id = $1`,
-    [sectionId, startDate, endDate],
+    [sectionId, startDate, endDate, NOT_APPROVED_STATUSES, PENDING_STATUSES, productionAppIds],
   )
 
   const row = result.rows[0]
@@ -84,6 +88,7 @@ export async function getSectionDashboardStats(
   startDate: Date,
   endDate: Date,
 ): Promise<DevTeamDashboardStats[]> {
+  const productionAppIds = await getProductionApplicationIds()
   const result = await pool.query(
     `WITH team_apps AS (
        -- Direct app links
@@ -100,8 +105,8 @@ export async function getSectionDashboardStats(
        SELECT ta.dev_team_id,
               COUNT(d.id) AS total_deployments,
               COUNT(d.id) FILTER (WHERE d.has_four_eyes = true) AS with_four_eyes,
-              COUNT(d.id) FILTER (WHERE d.four_eyes_status IN ('direct_push', 'unverified_commits', 'approved_pr_with_unreviewed', 'unauthorized_repository', 'unauthorized_branch')) AS without_four_eyes,
-              COUNT(d.id) FILTER (WHERE d.four_eyes_status IN ('pending', 'pending_baseline', 'pending_approval', 'unknown')) AS pending_verification,
+              COUNT(d.id) FILTER (WHERE d.four_eyes_status = ANY($4)) AS without_four_eyes,
+              COUNT(d.id) FILTER (WHERE d.four_eyes_status = ANY($5)) AS pending_verification,
               COUNT(DISTINCT dgl.deployment_id) AS linked_to_goal
        FROM team_apps ta
        LEFT JOIN deployments d ON (
@@ -110,6 +115,7 @@ export async function getSectionDashboardStats(
            ELSE d.team_slug = ANY(ta.nais_team_slugs)
          END
        ) AND d.created_at >= $2 AND d.created_at < $3
+         AND d.monitored_app_id = ANY($6)
        LEFT JOIN deployment_goal_links dgl ON dgl.deployment_id = d.id
        GROUP BY ta.dev_team_id
      )
@@ -123,7 +129,7 @@ export async function getSectionDashboardStats(
      FROM team_apps ta
      LEFT JOIN deployment_stats ds ON ds.dev_team_id = ta.dev_team_id
      ORDER BY ta.dev_team_name`,
-    [sectionId, startDate, endDate],
+    [sectionId, startDate, endDate, NOT_APPROVED_STATUSES, PENDING_STATUSES, productionAppIds],
   )
 
   return result.rows.map((row) => ({
@@ -1,3 +1,4 @@
+import type { ExternalReference } from './boards.server'
 import { pool } from './connection.server'
 
 export interface DeploymentGoalLink {
@@ -112,3 +113,143 @@ export async function getOriginOfChangeCoverage(
   const linked = Number(result.rows[0]?.linked ?? 0)
   return { total, linked, coverage: total > 0 ? linked / total : 0 }
 }
+
+// --- Automatic linking ---
+
+export interface GoalReference {
+  board_id: number
+  ref_type: ExternalReference['ref_type']
+  url: string
+  title: string | null
+  objective_id: number | null
+  key_result_id: number | null
+}
+
+const GOAL_REFERENCES_SELECT = `SELECT b.id AS board_id, er.ref_type, er.url, er.title, er.objective_id, er.key_result_id
+     FROM external_references er
+     LEFT JOIN board_key_results bkr ON bkr.id = er.key_result_id
+     JOIN board_objectives bo ON bo.id = COALESCE(er.objective_id, bkr.objective_id)
+     JOIN boards b ON b.id = bo.board_id`
+
+/** External references on the active boards of the given dev teams */
+export async function getGoalReferencesForDevTeams(devTeamIds: number[]): Promise<GoalReference[]> {
+  if (devTeamIds.length === 0) return []
+  const result = await pool.query(
+    `${GOAL_REFERENCES_SELECT}
+     WHERE b.dev_team_id = ANY($1) AND b.is_active = true
+     ORDER BY er.id`,
+    [devTeamIds],
+  )
+  return result.rows
+}
+
+/** External references on a single board */
+export async function getGoalReferencesForBoard(boardId: number): Promise<GoalReference[]> {
+  const result = await pool.query(
+    `${GOAL_REFERENCES_SELECT}
+     WHERE b.id = $1
+     ORDER BY er.id`,
+    [boardId],
+  )
+  return result.rows
+}
+
+/**
+ * Insert automatic goal links, skipping goals the deployment is already linked to.
+ * Returns the number of links created.
+ */
+export async function addAutoGoalLinks(
+  deploymentId: number,
+  links: Array<{
+    objective_id: number | null
+    key_result_id: number | null
+    link_method: 'commit_keyword' | 'pr_title'
+  }>,
+): Promise<number> {
+  let created = 0
+  for (const link of links) {
+    const result = await pool.query(
+      `INSERT INTO deployment_goal_links (deployment_id, objective_id, key_result_id, link_method)
+       SELECT $1, $2, $3, $4
+       WHERE NOT EXISTS (
+         SELECT 1 FROM deployment_goal_links
+         WHERE deployment_id = $1
+           AND objective_id IS NOT DISTINCT FROM $2
+           AND key_result_id IS NOT DISTINCT FROM $3
+       )`,
+      [deploymentId, link.objective_id, link.key_result_id, link.link_method],
+    )
+    created += result.rowCount ?? 0
+  }
+  return created
+}
+
+export interface GoalLinkPreviewDeployment {
+  id: number
+  created_at: Date
+  team_slug: string
+  environment_name: string
+  app_name: string
+  commit_sha: string | null
+  title: string | null
+  pr_title: string | null
+  pr_body: string | null
+  commit_messages: string[]
+  linked_goals: Array<{ objective_id: number | null; key_result_id: number | null }>
+}
+
+/**
+ * Deployments in a date range with the texts used for automatic goal linking,
+ * scoped to nais team slugs or directly linked apps (same scoping as coverage).
+ */
+export async function getDeploymentsForGoalLinkPreview(
+  naisTeamSlugs: string[],
+  startDate: Date,
+  endDate: Date,
+  directAppIds?: number[],
+): Promise<GoalLinkPreviewDeployment[]> {
+  const useDirectApps = directAppIds && directAppIds.length > 0
+  if (!useDirectApps && naisTeamSlugs.length === 0) return []
+
+  const result = await pool.query(
+    `SELECT d.id, d.created_at, ma.team_slug, ma.environment_name, ma.app_name, d.commit_sha, d.title,
+       d.github_pr_data->>'title' AS pr_title,
+       d.github_pr_data->>'body' AS pr_body,
+       COALESCE(
+         (SELECT json_agg(c->>'message') FROM jsonb_array_elements(COALESCE(d.github_pr_data->'commits', '[]'::jsonb)) c),
+         '[]'::json
+       ) AS pr_commit_messages,
+       COALESCE(
+         (SELECT json_agg(c->>'message') FROM jsonb_array_elements(COALESCE(d.unverified_commits, '[]'::jsonb)) c),
+         '[]'::json
+       ) AS unverified_commit_messages,
+       COALESCE(
+         (SELECT json_agg(json_build_object('objective_id', dgl.objective_id, 'key_result_id', dgl.key_result_id))
+          FROM deployment_goal_links dgl WHERE dgl.deployment_id = d.id),
+         '[]'::json
+       ) AS linked_goals
+     FROM deployments d
+     JOIN monitored_applications ma ON ma.id = d.monitored_app_id
+     WHERE ${useDirectApps ? 'd.monitored_app_id = ANY($1)' : 'd.team_slug = ANY($1)'}
+       AND d.created_at >= $2
+       AND d.created_at < $3
+     ORDER BY d.created_at DESC`,
+    [useDirectApps ? directAppIds : naisTeamSlugs, startDate, endDate],
+  )
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    created_at: row.created_at,
+    team_slug: row.team_slug,
+    environment_name: row.environment_name,
+    app_name: row.app_name,
+    commit_sha: row.commit_sha,
+    title: row.title,
+    pr_title: row.pr_title,
+    pr_body: row.pr_body,
+    commit_messages: [...new Set<string>([...row.pr_commit_messages, ...row.unverified_commit_messages])].filter(
+      Boolean,
+    ),
+    linked_goals: row.linked_goals,
+  }))
+}
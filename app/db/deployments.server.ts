@@ -1,5 +1,15 @@
 import { NOT_APPROVED_STATUSES, PENDING_STATUSES } from '~/lib/four-eyes-status'
+import type { DeploymentChangeType, ResourceChanges } from '~/lib/resource-changes'
+import {
+  buildFullTextQuery,
+  computeSearchFacets,
+  hasSearchFilters,
+  type SearchFilters,
+  type SearchResponse,
+  type SearchResult,
+} from '~/lib/search'
 import { pool } from './connection.server'
+import { findFullTextMatches } from './deployments/search.server'
 import { logStatusTransition } from './deployments/status-history.server'
 
 export interface UnverifiedCommit {
@@ -31,11 +41,15 @@ export interface Deployment {
   parent_commits: Array<{ sha: string }> | null
   unverified_commits: UnverifiedCommit[] | null
   resources: any // JSONB
+  change_type: DeploymentChangeType | null
+  resource_changes: ResourceChanges | null
   synced_at: Date
   title: string | null
   slack_message_ts: string | null
   slack_channel_id: string | null
   slack_deploy_message_ts: string | null
+  rollback_target_deployment_id: number | null
+  is_rollback: boolean
 }
 
 export interface GitHubPRData {
@@ -450,6 +464,10 @@ export async function getVerificationStats(monitoredAppId?: number): Promise<{
   }
 }
 
+/**
+ * Update a deployment's four-eyes data and log the status transition. Use updateDeploymentStatus
+ * in ~/lib/deployment-status.server, which also notifies about the change.
+ */
 export async function updateDeploymentFourEyes(
   deploymentId: number,
   data: {
@@ -468,61 +486,73 @@ export async function updateDeploymentFourEyes(
     changedBy?: string
     details?: Record<string, unknown>
   },
-): Promise<Deployment> {
-  // Get current status before update for history logging
-  const current = await pool.query(`SELECT four_eyes_status, has_four_eyes FROM deployments WHERE id = $1`, [
-    deploymentId,
-  ])
-
-  const result = await pool.query(
-    `UPDATE deployments 
-     SET has_four_eyes = $1,
-         four_eyes_status = $2,
-         github_pr_number = $3,
-         github_pr_url = $4,
-         github_pr_data = $5,
-         branch_name = $6,
-         parent_commits = $7,
-         unverified_commits = $8,
-         title = $9
-     WHERE id = $10
-     RETURNING *`,
-    [
-      data.hasFourEyes,
-      data.fourEyesStatus,
-      data.githubPrNumber,
-      data.githubPrUrl,
-      data.githubPrData ? JSON.stringify(data.githubPrData) : null,
-      data.branchName || null,
-      data.parentCommits ? JSON.stringify(data.parentCommits) : null,
-      data.unverifiedCommits ? JSON.stringify(data.unverifiedCommits) : null,
-      data.title || null,
-      deploymentId,
-    ],
-  )
+): Promise<{ deployment: Deployment; statusChanged: boolean }> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    // Get current status before update for history logging
+    const current = await client.query(
+      `SELECT four_eyes_status, has_four_eyes FROM deployments WHERE id = $1 FOR UPDATE`,
+      [deploymentId],
+    )
+    if (current.rows.length === 0) {
+      throw new Error('Deployment not found')
+    }
 
-  if (result.rows.length === 0) {
-    throw new Error('Deployment not found')
-  }
+    const result = await client.query(
+      `UPDATE deployments 
+       SET has_four_eyes = $1,
+           four_eyes_status = $2,
+           github_pr_number = $3,
+           github_pr_url = $4,
+           github_pr_data = $5,
+           branch_name = $6,
+           parent_commits = $7,
+           unverified_commits = $8,
+           title = $9
+       WHERE id = $10
+       RETURNING *`,
+      [
+        data.hasFourEyes,
+        data.fourEyesStatus,
+        data.githubPrNumber,
+        data.githubPrUrl,
+        data.githubPrData ? JSON.stringify(data.githubPrData) : null,
+        data.branchName || null,
+        data.parentCommits ? JSON.stringify(data.parentCommits) : null,
+        data.unverifiedCommits ? JSON.stringify(data.unverifiedCommits) : null,
+        data.title || null,
+        deploymentId,
+      ],
+    )
 
-  // Log status transition if status actually changed
-  if (current.rows.length > 0) {
+    // Log status transition if status actually changed
     const prev = current.rows[0]
     if (prev.four_eyes_status !== data.fourEyesStatus || prev.has_four_eyes !== data.hasFourEyes) {
-      const source = statusChangeOptions?.changeSource || 'unknown'
-      await logStatusTransition(deploymentId, {
-        fromStatus: prev.four_eyes_status,
-        toStatus: data.fourEyesStatus,
-        fromHasFourEyes: prev.has_four_eyes,
-        toHasFourEyes: data.hasFourEyes,
-        changeSource: source,
-        changedBy: statusChangeOptions?.changedBy,
-        details: statusChangeOptions?.details,
-      })
+      await logStatusTransition(
+        deploymentId,
+        {
+          fromStatus: prev.four_eyes_status,
+          toStatus: data.fourEyesStatus,
+          fromHasFourEyes: prev.has_four_eyes,
+          toHasFourEyes: data.hasFourEyes,
+          changeSource: statusChangeOptions?.changeSource || 'unknown',
+          changedBy: statusChangeOptions?.changedBy,
+          details: statusChangeOptions?.details,
+        },
+        client,
+      )
     }
-  }
 
-  return result.rows[0]
+    await client.query('COMMIT')
+    return { deployment: result.rows[0], statusChanged: prev.four_eyes_status !== data.fourEyesStatus }
+  } catch (e) {
+    await client.query('ROLLBACK')
+    throw e
+  } finally {
+    client.release()
+  }
 }
 
 /**
@@ -812,21 +842,81 @@ export async function getDeploymentsByDeployer(deployerUsername: string, limit =
   return result.rows
 }
 
+const FULL_TEXT_CANDIDATE_LIMIT = 500
+
+/**
+ * Search deployments by ID, commit SHA, deployer or free text (see ~/lib/search)
+ */
+export async function searchDeployments(
+  query: string,
+  limit = 10,
+  filters: SearchFilters = {},
+  canReadTeam: (teamSlug: string) => boolean = () => true,
+): Promise<SearchResult[]> {
+  return (await searchDeploymentsWithFacets(query, limit, filters, canReadTeam)).results
+}
+
 /**
- * Search result types for global search
+ * Search with facets. ID and SHA lookups return exact matches without facets; otherwise
+ * users matching the query are listed first (unless filtered), followed by ranked full-text
+ * matches narrowed by the filters. The filters and the caller's teams are applied in the query,
+ * before ranking and the limit. Facets are counted over the top FULL_TEXT_CANDIDATE_LIMIT matches
+ * in the caller's teams.
+ *
+ * @param canReadTeam - Only deployments of teams the caller can read are returned (see getReadableTeamFilter)
  */
-export interface SearchResult {
-  type: 'deployment' | 'user'
-  id?: number
-  url: string
-  title: string
-  subtitle?: string
+export async function searchDeploymentsWithFacets(
+  query: string,
+  limit: number,
+  filters: SearchFilters = {},
+  canReadTeam: (teamSlug: string) => boolean = () => true,
+): Promise<SearchResponse> {
+  const results = await searchDeploymentsExact(query, limit, canReadTeam)
+  if (results) return { results, facets: null }
+
+  const trimmedQuery = query.trim()
+  const userResults = hasSearchFilters(filters) ? [] : await searchDeploymentUsers(trimmedQuery, limit)
+
+  const tsQuery = buildFullTextQuery(trimmedQuery)
+  if (!tsQuery) return { results: userResults, facets: null }
+
+  const teamSlugs = await getReadableTeamSlugs(canReadTeam)
+
+  // Without filters the results are the top candidates, so one query serves both
+  const candidates = await findFullTextMatches(tsQuery, Math.max(limit, FULL_TEXT_CANDIDATE_LIMIT), { teamSlugs })
+  const hits = hasSearchFilters(filters)
+    ? await findFullTextMatches(tsQuery, limit, { teamSlugs, filters })
+    : candidates.slice(0, limit)
+
+  const deploymentResults = hits.map(
+    (hit): SearchResult => ({
+      type: 'deployment',
+      id: hit.id,
+      url: `/team/${hit.team_slug}/env/${hit.environment_name}/app/${hit.app_name}/deployments/${hit.id}`,
+      title: hit.title,
+      subtitle: `${hit.app_name} • ${hit.environment_name} • ${hit.commit_sha?.substring(0, 7) || 'ukjent SHA'}`,
+      matchedIn: hit.sources,
+      snippet: hit.snippet ?? undefined,
+    }),
+  )
+
+  return { results: [...userResults, ...deploymentResults], facets: computeSearchFacets(candidates, filters) }
+}
+
+async function getReadableTeamSlugs(canReadTeam: (teamSlug: string) => boolean): Promise<string[]> {
+  const result = await pool.query<{ team_slug: string }>('SELECT DISTINCT team_slug FROM monitored_applications')
+  return result.rows.map((row) => row.team_slug).filter(canReadTeam)
 }
 
 /**
- * Search deployments by ID, commit SHA, or deployer username
+ * Nais deployment ID, deployment ID and SHA lookups. Returns null if the query is none of these
+ * (or a SHA-like query found nothing), so the caller falls through to user and full-text search.
  */
-export async function searchDeployments(query: string, limit = 10): Promise<SearchResult[]> {
+async function searchDeploymentsExact(
+  query: string,
+  limit: number,
+  canReadTeam: (teamSlug: string) => boolean,
+): Promise<SearchResult[] | null> {
   const results: SearchResult[] = []
   const trimmedQuery = query.trim()
 
@@ -844,7 +934,7 @@ export async function searchDeployments(query: string, limit = 10): Promise<Sear
        LIMIT $2`,
       [`${trimmedQuery}%`, limit],
     )
-    for (const row of naisResult.rows) {
+    for (const row of naisResult.rows.filter((r) => canReadTeam(r.team_slug))) {
       results.push({
         type: 'deployment',
         id: row.id,
@@ -867,7 +957,7 @@ export async function searchDeployments(query: string, limit = 10): Promise<Sear
        WHERE d.id = $1`,
       [deploymentId],
     )
-    if (result.rows.length > 0) {
+    if (result.rows.length > 0 && canReadTeam(result.rows[0].team_slug)) {
       const row = result.rows[0]
       results.push({
         type: 'deployment',
@@ -894,7 +984,7 @@ export async function searchDeployments(query: string, limit = 10): Promise<Sear
        LIMIT $2`,
       [`${trimmedQuery}%`, limit],
     )
-    for (const row of shaResult.rows) {
+    for (const row of shaResult.rows.filter((r) => canReadTeam(r.team_slug))) {
       results.push({
         type: 'deployment',
         id: row.id,
@@ -909,7 +999,13 @@ export async function searchDeployments(query: string, limit = 10): Promise<Sear
     }
   }
 
-  // Otherwise, search by deployer username OR user mapping fields (nav_ident, nav_email, display_name, slack_member_id)
+  return null
+}
+
+async function searchDeploymentUsers(trimmedQuery: string, limit: number): Promise<SearchResult[]> {
+  const results: SearchResult[] = []
+
+  // Search by deployer username OR user mapping fields (nav_ident, nav_email, display_name, slack_member_id)
   const userResult = await pool.query(
     `SELECT DISTINCT d.deployer_username, 
             um.display_name, um.nav_email, um.nav_ident, um.slack_member_id,
@@ -1013,6 +1109,8 @@ export {
   getHomeTabSummaryStats,
   getIssueDeploymentsPerApp,
   getRecentDeploymentsForHomeTab,
+  getReviewerIssueDeployments,
+  getUserIssueDeployments,
 } from './deployments/home.server'
 export {
   claimDeploymentForDeployNotify,
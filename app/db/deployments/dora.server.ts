@@ -0,0 +1,89 @@
+import { computeDoraMetrics, type DoraDeployment, type DoraMetrics } from '~/lib/dora'
+import { getDateRangeForPeriod, type TimePeriod } from '~/lib/time-periods'
+import { pool } from '../connection.server'
+import { getAppIdsForDevTeams } from '../dev-teams.server'
+import { getProductionApplicationIds } from '../monitored-applications.server'
+
+/**
+ * DORA metrics for the deployments of a set of apps in a period (see ~/lib/dora)
+ */
+export async function getDoraMetrics(monitoredAppIds: number[], period: TimePeriod): Promise<DoraMetrics> {
+  const range = getDateRangeForPeriod(period)
+  if (monitoredAppIds.length === 0) return computeDoraMetrics([], range)
+
+  const result = await pool.query<DoraDeployment>(
+    `SELECT d.id, d.created_at, d.commit_sha,
+            (d.github_pr_data->>'created_at')::timestamptz AS pr_created_at,
+            (d.github_pr_data->>'merged_at')::timestamptz AS pr_merged_at,
+            prev.id AS previous_deployment_id,
+            prev.created_at AS previous_deployed_at,
+            prev.commit_sha AS previous_commit_sha,
+            next.created_at AS next_deployed_at,
+            EXISTS (SELECT 1 FROM deployment_deviations dd WHERE dd.deployment_id = d.id) AS has_deviation,
+            EXISTS (
+              SELECT 1 FROM deployments e
+              WHERE e.monitored_app_id = d.monitored_app_id
+                AND e.commit_sha = d.commit_sha
+                AND e.created_at < d.created_at
+            ) AS redeployed_commit,
+            d.is_rollback OR EXISTS (
+              SELECT 1 FROM verification_runs vr
+              WHERE vr.deployment_id = d.id
+                AND vr.status = 'error'
+                AND vr.result->'approvalDetails'->>'reason' LIKE '%compare returned 0 commits%'
+            ) AS compare_rollback
+     FROM deployments d
+     LEFT JOIN LATERAL (
+       SELECT p.id, p.created_at, p.commit_sha FROM deployments p
+       WHERE p.monitored_app_id = d.monitored_app_id AND p.created_at < d.created_at
+       ORDER BY p.created_at DESC
+       LIMIT 1
+     ) prev ON true
+     LEFT JOIN LATERAL (
+       SELECT n.created_at FROM deployments n
+       WHERE n.monitored_app_id = d.monitored_app_id AND n.created_at > d.created_at
+       ORDER BY n.created_at ASC
+       LIMIT 1
+     ) next ON true
+     WHERE d.monitored_app_id = ANY($1)
+       AND ($2::timestamptz IS NULL OR d.created_at >= $2)
+       AND ($3::timestamptz IS NULL OR d.created_at <= $3)`,
+    [monitoredAppIds, range?.startDate ?? null, range?.endDate ?? null],
+  )
+
+  return computeDoraMetrics(result.rows, range)
+}
+
+/**
+ * DORA metrics for a dev team's production apps
+ */
+export async function getDevTeamDoraMetrics(devTeamId: number, period: TimePeriod): Promise<DoraMetrics> {
+  const [appIds, productionAppIds] = await Promise.all([
+    getAppIdsForDevTeams([devTeamId]),
+    getProductionApplicationIds(),
+  ])
+  return getDoraMetrics(
+    appIds.filter((id) => productionAppIds.includes(id)),
+    period,
+  )
+}
+
+/**
+ * DORA metrics for the production apps of all Nais teams in a section
+ */
+export async function getSectionDoraMetrics(sectionId: number, period: TimePeriod): Promise<DoraMetrics> {
+  const [result, productionAppIds] = await Promise.all([
+    pool.query<{ id: number }>(
+      `SELECT ma.id
+       FROM monitored_applications ma
+       JOIN section_teams st ON st.team_slug = ma.team_slug
+       WHERE st.section_id = $1 AND ma.is_active = true`,
+      [sectionId],
+    ),
+    getProductionApplicationIds(),
+  ])
+  return getDoraMetrics(
+    result.rows.map((r) => r.id).filter((id) => productionAppIds.includes(id)),
+    period,
+  )
+}
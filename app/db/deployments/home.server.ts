@@ -20,9 +20,9 @@ export async function getRecentDeploymentsForHomeTab(limit = 10): Promise<Deploy
 }
 
 /**
- * Get summary stats for Slack Home Tab
+ * Get summary stats for Slack Home Tab, optionally limited to a set of apps
  */
-export async function getHomeTabSummaryStats(): Promise<{
+export async function getHomeTabSummaryStats(monitoredAppIds?: number[]): Promise<{
   totalApps: number
   totalDeployments: number
   withoutFourEyes: number
@@ -31,18 +31,21 @@ export async function getHomeTabSummaryStats(): Promise<{
   const result = await pool.query(
     `
     SELECT 
-      (SELECT COUNT(*) FROM monitored_applications WHERE is_active = true) as total_apps,
+      (SELECT COUNT(*) FROM monitored_applications ma
+       WHERE ma.is_active = true AND ($3::int[] IS NULL OR ma.id = ANY($3))) as total_apps,
       (SELECT COUNT(*) FROM deployments d 
        JOIN monitored_applications ma ON d.monitored_app_id = ma.id 
-       WHERE ma.is_active = true) as total_deployments,
+       WHERE ma.is_active = true AND ($3::int[] IS NULL OR ma.id = ANY($3))) as total_deployments,
       (SELECT COUNT(*) FROM deployments d 
        JOIN monitored_applications ma ON d.monitored_app_id = ma.id 
-       WHERE ma.is_active = true AND d.four_eyes_status = ANY($1)) as without_four_eyes,
+       WHERE ma.is_active = true AND ($3::int[] IS NULL OR ma.id = ANY($3))
+         AND d.four_eyes_status = ANY($1)) as without_four_eyes,
       (SELECT COUNT(*) FROM deployments d 
        JOIN monitored_applications ma ON d.monitored_app_id = ma.id 
-       WHERE ma.is_active = true AND d.four_eyes_status = ANY($2)) as pending_verification
+       WHERE ma.is_active = true AND ($3::int[] IS NULL OR ma.id = ANY($3))
+         AND d.four_eyes_status = ANY($2)) as pending_verification
   `,
-    [NOT_APPROVED_STATUSES, PENDING_STATUSES],
+    [NOT_APPROVED_STATUSES, PENDING_STATUSES, monitoredAppIds ?? null],
   )
   const row = result.rows[0]
   return {
@@ -54,9 +57,10 @@ export async function getHomeTabSummaryStats(): Promise<{
 }
 
 /**
- * Get apps that have issues (missing approval, pending verification, or repo alerts)
+ * Get apps that have issues (missing approval, pending verification, or repo alerts),
+ * optionally limited to a set of apps
  */
-export async function getAppsWithIssues(): Promise<AppWithIssues[]> {
+export async function getAppsWithIssues(monitoredAppIds?: number[]): Promise<AppWithIssues[]> {
   const result = await pool.query(
     `
     SELECT 
@@ -81,12 +85,13 @@ export async function getAppsWithIssues(): Promise<AppWithIssues[]> {
       WHERE ra.monitored_app_id = ma.id AND ra.resolved_at IS NULL
     ) alerts ON true
     WHERE ma.is_active = true
+      AND ($3::int[] IS NULL OR ma.id = ANY($3))
       AND (COALESCE(dep.without_four_eyes, 0) > 0 
         OR COALESCE(dep.pending_verification, 0) > 0 
         OR COALESCE(alerts.count, 0) > 0)
     ORDER BY COALESCE(dep.without_four_eyes, 0) DESC, COALESCE(alerts.count, 0) DESC
   `,
-    [NOT_APPROVED_STATUSES, PENDING_STATUSES],
+    [NOT_APPROVED_STATUSES, PENDING_STATUSES, monitoredAppIds ?? null],
   )
   return result.rows
 }
@@ -126,3 +131,57 @@ export async function getIssueDeploymentsPerApp(
   }
   return grouped
 }
+
+const ISSUE_DEPLOYMENT_COLUMNS = `d.id, d.commit_sha, d.deployer_username, d.four_eyes_status,
+       d.github_pr_number, d.github_pr_data, d.title, d.created_at,
+       ma.app_name, ma.team_slug, ma.environment_name`
+
+/**
+ * Get deployments without four-eyes approval that the user deployed or authored the PR for.
+ * Used in the personalised Slack Home Tab.
+ */
+export async function getUserIssueDeployments(githubUsername: string, limit = 10): Promise<IssueDeployment[]> {
+  const result = await pool.query(
+    `SELECT ${ISSUE_DEPLOYMENT_COLUMNS}
+     FROM deployments d
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     WHERE ma.is_active = true
+       AND d.has_four_eyes = false
+       AND d.four_eyes_status NOT IN ('legacy', 'legacy_pending', 'pending_baseline')
+       AND (ma.audit_start_year IS NULL OR d.created_at >= make_date(ma.audit_start_year, 1, 1))
+       AND (LOWER(d.deployer_username) = LOWER($1) OR LOWER(d.github_pr_data->'creator'->>'username') = LOWER($1))
+     ORDER BY d.created_at DESC
+     LIMIT $2`,
+    [githubUsername, limit],
+  )
+  return result.rows
+}
+
+/**
+ * Get deployments without four-eyes approval where the user is a reviewer (or requested reviewer)
+ * on the PR, excluding the user's own deployments. Used in the personalised Slack Home Tab.
+ */
+export async function getReviewerIssueDeployments(githubUsername: string, limit = 10): Promise<IssueDeployment[]> {
+  const result = await pool.query(
+    `SELECT ${ISSUE_DEPLOYMENT_COLUMNS}
+     FROM deployments d
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     WHERE ma.is_active = true
+       AND d.has_four_eyes = false
+       AND d.four_eyes_status NOT IN ('legacy', 'legacy_pending', 'pending_baseline')
+       AND (ma.audit_start_year IS NULL OR d.created_at >= make_date(ma.audit_start_year, 1, 1))
+       AND LOWER(COALESCE(d.deployer_username, '')) <> LOWER($1)
+       AND LOWER(COALESCE(d.github_pr_data->'creator'->>'username', '')) <> LOWER($1)
+       AND EXISTS (
+         SELECT 1
+         FROM jsonb_array_elements(
+           COALESCE(d.github_pr_data->'reviewers', '[]'::jsonb) || COALESCE(d.github_pr_data->'requested_reviewers', '[]'::jsonb)
+         ) reviewer
+         WHERE LOWER(reviewer->>'username') = LOWER($1)
+       )
+     ORDER BY d.created_at DESC
+     LIMIT $2`,
+    [githubUsername, limit],
+  )
+  return result.rows
+}
@@ -0,0 +1,128 @@
+import { isProductionApp } from '~/lib/production-environments'
+import {
+  buildPromotionTimeline,
+  type ProductionPromotion,
+  type PromotionSummary,
+  type PromotionTimeline,
+  summarizePromotions,
+} from '~/lib/promotion'
+import { pool } from '../connection.server'
+import { getProductionEnvironmentSettings } from '../global-settings.server'
+
+/**
+ * The app in every environment: monitored apps with the same team and app name, split by production classification
+ */
+async function getEnvironmentsForApp(app: {
+  team_slug: string
+  app_name: string
+}): Promise<{ productionIds: number[]; preProdIds: number[] }> {
+  const [settings, result] = await Promise.all([
+    getProductionEnvironmentSettings(),
+    pool.query<{ id: number; environment_name: string }>(
+      `SELECT id, environment_name FROM monitored_applications
+       WHERE team_slug = $1 AND app_name = $2 AND is_active = true`,
+      [app.team_slug, app.app_name],
+    ),
+  ])
+
+  const productionIds: number[] = []
+  const preProdIds: number[] = []
+  for (const app of result.rows) {
+    if (isProductionApp(settings, app)) {
+      productionIds.push(app.id)
+    } else {
+      preProdIds.push(app.id)
+    }
+  }
+  return { productionIds, preProdIds }
+}
+
+/**
+ * Promotion timeline for a deployment: all deployments of its commit to the same app (team and app name)
+ * across environments, limited to the teams the user can read. Returns null if the deployment has no commit SHA.
+ */
+export async function getPromotionTimeline(
+  deployment: {
+    id: number
+    commit_sha: string | null
+    created_at: Date
+    team_slug: string
+    app_name: string
+  },
+  canReadTeam: (teamSlug: string) => boolean,
+): Promise<PromotionTimeline | null> {
+  if (!deployment.commit_sha) return null
+
+  const [{ productionIds, preProdIds }, result] = await Promise.all([
+    getEnvironmentsForApp(deployment),
+    pool.query(
+      `SELECT d.id, d.monitored_app_id, d.created_at, d.four_eyes_status,
+              d.github_pr_data->>'merged_at' AS merged_at,
+              ma.team_slug, ma.environment_name, ma.app_name
+       FROM deployments d
+       JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+       WHERE d.commit_sha = $1 AND ma.team_slug = $2 AND ma.app_name = $3
+       ORDER BY d.created_at ASC`,
+      [deployment.commit_sha, deployment.team_slug, deployment.app_name],
+    ),
+  ])
+
+  const rows = result.rows.filter((row) => canReadTeam(row.team_slug))
+  const mergedAt = rows.find((row) => row.merged_at)?.merged_at
+
+  return buildPromotionTimeline({
+    currentDeployment: deployment,
+    commitSha: deployment.commit_sha,
+    mergedAt: mergedAt ? new Date(mergedAt) : null,
+    deployments: rows.map((row) => ({
+      id: row.id,
+      team_slug: row.team_slug,
+      environment_name: row.environment_name,
+      app_name: row.app_name,
+      created_at: row.created_at,
+      four_eyes_status: row.four_eyes_status,
+      is_production: productionIds.includes(row.monitored_app_id),
+    })),
+    hasPreProdEnvironment: preProdIds.length > 0,
+  })
+}
+
+/**
+ * Lead times and pre-prod coverage for a production app's deployments in a period.
+ * Only the first production deployment of each commit counts; redeploys are ignored.
+ */
+export async function getPromotionSummary(
+  app: { id: number; team_slug: string; app_name: string },
+  startDate?: Date,
+  endDate?: Date,
+): Promise<PromotionSummary> {
+  const { preProdIds } = await getEnvironmentsForApp(app)
+
+  const result = await pool.query(
+    `SELECT d.id AS deployment_id, d.commit_sha, d.created_at AS deployed_at,
+            (d.github_pr_data->>'merged_at')::timestamptz AS merged_at,
+            pre.first_deployed_at AS pre_prod_deployed_at
+     FROM deployments d
+     LEFT JOIN LATERAL (
+       SELECT MIN(p.created_at) AS first_deployed_at
+       FROM deployments p
+       WHERE p.commit_sha = d.commit_sha
+         AND p.monitored_app_id = ANY($2)
+         AND p.created_at <= d.created_at
+     ) pre ON true
+     WHERE d.monitored_app_id = $1
+       AND d.commit_sha IS NOT NULL
+       AND ($3::timestamptz IS NULL OR d.created_at >= $3)
+       AND ($4::timestamptz IS NULL OR d.created_at <= $4)
+       AND NOT EXISTS (
+         SELECT 1 FROM deployments e
+         WHERE e.monitored_app_id = d.monitored_app_id
+           AND e.commit_sha = d.commit_sha
+           AND e.created_at < d.created_at
+       )
+     ORDER BY d.created_at DESC`,
+    [app.id, preProdIds, startDate ?? null, endDate ?? null],
+  )
+
+  return summarizePromotions(result.rows as ProductionPromotion[], preProdIds.length > 0)
+}
@@ -0,0 +1,84 @@
+import { getChangedFilesBetween } from '~/lib/github'
+import { logger } from '~/lib/logger.server'
+import { classifyDeploymentChange, type DeploymentResource, needsChangedFiles } from '~/lib/resource-changes'
+import { pool } from '../connection.server'
+
+interface ClassificationRow {
+  id: number
+  commit_sha: string | null
+  resources: DeploymentResource[] | null
+  detected_github_owner: string | null
+  detected_github_repo_name: string | null
+  prev_id: number | null
+  prev_commit_sha: string | null
+  prev_resources: DeploymentResource[] | null
+}
+
+/**
+ * The files changed since the previous deployment. files is null when they cannot be known;
+ * returns null when GitHub failed, so the deployment is classified on the next sync.
+ */
+async function fetchChangedFiles(row: ClassificationRow): Promise<{ files: string[] | null } | null> {
+  if (!row.detected_github_owner || !row.detected_github_repo_name || !row.prev_commit_sha || !row.commit_sha) {
+    return { files: null }
+  }
+  return getChangedFilesBetween(
+    row.detected_github_owner,
+    row.detected_github_repo_name,
+    row.prev_commit_sha,
+    row.commit_sha,
+  )
+}
+
+/**
+ * Diff each deployment's Nais resources against the app's previous deployment and store the change type.
+ *
+ * Classifies deployments not classified yet, and redoes the ones whose previous deployment changed
+ * (an older deployment synced later). The changed files are fetched from GitHub only when the
+ * resources alone do not decide the change type; if that fails, the deployment is left for the
+ * next sync. Returns the number of deployments updated.
+ */
+export async function classifyDeploymentChanges(monitoredAppId: number): Promise<number> {
+  const result = await pool.query<ClassificationRow>(
+    `SELECT id, commit_sha, resources, detected_github_owner, detected_github_repo_name,
+            prev_id, prev_commit_sha, prev_resources
+     FROM (
+       SELECT d.id, d.commit_sha, d.resources, d.resource_changes,
+              d.detected_github_owner, d.detected_github_repo_name,
+              LAG(d.id) OVER w AS prev_id,
+              LAG(d.commit_sha) OVER w AS prev_commit_sha,
+              LAG(d.resources) OVER w AS prev_resources
+       FROM deployments d
+       WHERE d.monitored_app_id = $1
+       WINDOW w AS (ORDER BY d.created_at)
+     ) ordered
+     WHERE resource_changes IS NULL
+        OR (resource_changes->>'previousDeploymentId')::int IS DISTINCT FROM prev_id
+     ORDER BY id`,
+    [monitoredAppId],
+  )
+
+  let updated = 0
+  for (const row of result.rows) {
+    const current = { commitSha: row.commit_sha, resources: row.resources }
+    const previous = row.prev_id
+      ? { id: row.prev_id, commitSha: row.prev_commit_sha, resources: row.prev_resources }
+      : null
+
+    const changedFiles = needsChangedFiles(current, previous) ? await fetchChangedFiles(row) : { files: null }
+    if (!changedFiles) continue
+
+    const { changeType, changes } = classifyDeploymentChange(current, previous, changedFiles.files)
+    await pool.query('UPDATE deployments SET change_type = $1, resource_changes = $2 WHERE id = $3', [
+      changeType,
+      JSON.stringify(changes),
+      row.id,
+    ])
+    updated++
+  }
+
+  if (updated > 0) {
+    logger.info(`🧩 Classified ${updated} deployment(s) by resource changes for app ${monitoredAppId}`)
+  }
+  return updated
+}
@@ -0,0 +1,161 @@
+import { APPROVED_STATUSES, LEGACY_STATUSES, PENDING_STATUSES } from '~/lib/four-eyes-status'
+import {
+  type FullTextSearchHit,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_STOP,
+  type SearchFilters,
+  type SearchMatchSource,
+} from '~/lib/search'
+import { getDateRangeForPeriod } from '~/lib/time-periods'
+import { pool } from '../connection.server'
+
+// The tsvector expressions must match the indexes in 1772400000000_add-full-text-search.sql
+const DEPLOYMENT_VECTOR = `(
+  setweight(to_tsvector('simple', COALESCE(d.title, '')), 'A') ||
+  setweight(to_tsvector('simple', COALESCE(d.github_pr_data->>'title', '')), 'A') ||
+  setweight(to_tsvector('simple', COALESCE(d.github_pr_data->>'body', '')), 'C')
+)`
+const COMMIT_VECTOR = `to_tsvector('simple', COALESCE(c.message, ''))`
+const COMMENT_VECTOR = `to_tsvector('simple', dc.comment_text)`
+const DEVIATION_VECTOR = `(
+  setweight(to_tsvector('simple', COALESCE(dd.breach_type, '')), 'A') ||
+  setweight(to_tsvector('simple', dd.reason), 'B')
+)`
+
+/**
+ * Deployments to search among. Applied before ranking, so the limit only counts deployments in scope.
+ */
+export interface FullTextSearchScope {
+  /** Teams the caller can read (null = all teams) */
+  teamSlugs: string[] | null
+  filters?: SearchFilters
+}
+
+/**
+ * SQL conditions on d (deployments) and ma (monitored_applications) for the scope.
+ * Status groups mirror getSearchStatusGroup.
+ */
+function buildScopeConditions(scope: FullTextSearchScope, params: unknown[]): string[] {
+  const conditions: string[] = []
+  const addParam = (value: unknown) => {
+    params.push(value)
+    return `$${params.length}`
+  }
+  const { filters = {} } = scope
+
+  if (scope.teamSlugs) conditions.push(`ma.team_slug = ANY(${addParam(scope.teamSlugs)}::text[])`)
+  if (filters.team) conditions.push(`ma.team_slug = ${addParam(filters.team)}`)
+  if (filters.environment) conditions.push(`ma.environment_name = ${addParam(filters.environment)}`)
+
+  switch (filters.status) {
+    case undefined:
+      break
+    case 'approved':
+      conditions.push(`d.four_eyes_status = ANY(${addParam(APPROVED_STATUSES)}::text[])`)
+      break
+    case 'legacy':
+      conditions.push(`d.four_eyes_status = ANY(${addParam(LEGACY_STATUSES)}::text[])`)
+      break
+    case 'pending':
+      conditions.push(`d.four_eyes_status = ANY(${addParam(PENDING_STATUSES)}::text[])`)
+      break
+    case 'not_approved':
+      conditions.push(
+        `NOT (COALESCE(d.four_eyes_status, '') = ANY(${addParam([...APPROVED_STATUSES, ...LEGACY_STATUSES, ...PENDING_STATUSES])}::text[]))`,
+      )
+      break
+  }
+
+  const range = filters.period ? getDateRangeForPeriod(filters.period) : null
+  if (range) {
+    conditions.push(`d.created_at BETWEEN ${addParam(range.startDate)} AND ${addParam(range.endDate)}`)
+  }
+
+  return conditions
+}
+
+/**
+ * Find deployments matching a to_tsquery() expression (see buildFullTextQuery).
+ *
+ * Matches in the deployment and PR text, cached commit messages (the deployed commit and
+ * the commits of its PR), comments and deviations are summed per deployment and ranked.
+ * Deployments outside the scope are left out before ranking and the limit.
+ */
+export async function findFullTextMatches(
+  tsQuery: string,
+  limit: number,
+  scope: FullTextSearchScope = { teamSlugs: null },
+): Promise<FullTextSearchHit[]> {
+  const params: unknown[] = [tsQuery, limit]
+  const conditions = buildScopeConditions(scope, params)
+
+  const result = await pool.query(
+    `WITH q AS (SELECT to_tsquery('simple', $1) AS query),
+     matches AS (
+       SELECT d.id AS deployment_id,
+              CASE WHEN to_tsvector('simple', COALESCE(d.github_pr_data->>'title', '') || ' ' ||
+                                              COALESCE(d.github_pr_data->>'body', '')) @@ q.query
+                   THEN 'pull_request' ELSE 'deployment' END AS source,
+              ts_rank(${DEPLOYMENT_VECTOR}, q.query) AS rank,
+              concat_ws(' ', d.github_pr_data->>'title', d.title, d.github_pr_data->>'body') AS text
+       FROM deployments d, q
+       WHERE ${DEPLOYMENT_VECTOR} @@ q.query
+       UNION ALL
+       SELECT d.id, 'commit', ts_rank(${COMMIT_VECTOR}, q.query), c.message
+       FROM commits c
+       CROSS JOIN q
+       JOIN deployments d ON d.detected_github_owner = c.repo_owner
+         AND d.detected_github_repo_name = c.repo_name
+         AND (d.commit_sha = c.sha OR (c.original_pr_number IS NOT NULL AND d.github_pr_number = c.original_pr_number))
+       WHERE ${COMMIT_VECTOR} @@ q.query
+       UNION ALL
+       SELECT dc.deployment_id, 'comment', ts_rank(${COMMENT_VECTOR}, q.query), dc.comment_text
+       FROM deployment_comments dc, q
+       WHERE ${COMMENT_VECTOR} @@ q.query
+       UNION ALL
+       SELECT dd.deployment_id, 'deviation', ts_rank(${DEVIATION_VECTOR}, q.query),
+              concat_ws(': ', dd.breach_type, dd.reason)
+       FROM deployment_deviations dd, q
+       WHERE ${DEVIATION_VECTOR} @@ q.query
+     ),
+     ranked AS (
+       SELECT m.deployment_id,
+              SUM(m.rank) AS rank,
+              array_agg(m.source ORDER BY m.rank DESC) AS sources,
+              (array_agg(m.text ORDER BY m.rank DESC))[1] AS best_text
+       FROM matches m
+       JOIN deployments d ON d.id = m.deployment_id
+       JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       GROUP BY m.deployment_id
+       ORDER BY SUM(m.rank) DESC
+       LIMIT $2
+     )
+     SELECT d.id, r.rank, r.sources,
+            ts_headline('simple', r.best_text, q.query,
+                        'StartSel="${SEARCH_HIGHLIGHT_START}", StopSel="${SEARCH_HIGHLIGHT_STOP}", MaxWords=20, MinWords=8, MaxFragments=1') AS snippet,
+            COALESCE(d.github_pr_data->>'title', d.title) AS title,
+            d.four_eyes_status, d.commit_sha, d.created_at,
+            ma.app_name, ma.team_slug, ma.environment_name
+     FROM ranked r
+     CROSS JOIN q
+     JOIN deployments d ON d.id = r.deployment_id
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     ORDER BY r.rank DESC, d.created_at DESC`,
+    params,
+  )
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    rank: Number(row.rank),
+    sources: [...new Set<SearchMatchSource>(row.sources)],
+    snippet: row.snippet || null,
+    title: row.title || `Deployment #${row.id}`,
+    app_name: row.app_name,
+    team_slug: row.team_slug,
+    environment_name: row.environment_name,
+    four_eyes_status: row.four_eyes_status,
+    commit_sha: row.commit_sha,
+    created_at: row.created_at,
+  }))
+}
@@ -1,6 +1,12 @@
+import type { PoolClient } from 'pg'
 import { pool } from '../connection.server'
 import type { StatusTransition } from '../deployments.server'
+import { recordOutboxEvent } from '../event-outbox.server'
 
+/**
+ * Log a status transition and publish it to the event outbox. Takes the client of the transaction
+ * that updates the deployment, so the status, its history and the event are committed together.
+ */
 export async function logStatusTransition(
   deploymentId: number,
   data: {
@@ -12,8 +18,9 @@ export async function logStatusTransition(
     changedBy?: string
     details?: Record<string, unknown>
   },
+  client: PoolClient,
 ): Promise<void> {
-  await pool.query(
+  await client.query(
     `INSERT INTO deployment_status_history 
        (deployment_id, from_status, to_status, from_has_four_eyes, to_has_four_eyes, 
         changed_by, change_source, details)
@@ -29,6 +36,22 @@ export async function logStatusTransition(
       data.details ? JSON.stringify(data.details) : null,
     ],
   )
+  await recordOutboxEvent(
+    {
+      type: 'deployment.status_changed',
+      deploymentId,
+      payload: {
+        deploymentId,
+        fromStatus: data.fromStatus,
+        toStatus: data.toStatus,
+        fromHasFourEyes: data.fromHasFourEyes,
+        toHasFourEyes: data.toHasFourEyes,
+        changeSource: data.changeSource,
+        changedBy: data.changedBy ?? null,
+      },
+    },
+    client,
+  )
 }
 
 export async function getStatusHistory(deploymentId: number): Promise<StatusTransition[]> {
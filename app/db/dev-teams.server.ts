@@ -6,6 +6,8 @@ export interface DevTeam {
   slug: string
   name: string
   is_active: boolean
+  product_lead_nav_ident: string | null
+  delivery_lead_nav_ident: string | null
   created_at: Date
 }
 
@@ -84,6 +86,61 @@ export async function getDevTeamsForApp(monitoredAppId: number, teamSlug: string
   return result.rows
 }
 
+/**
+ * Find the dev teams a user belongs to: teams they lead, and teams owning the apps
+ * they have deployed or authored PRs for in the last 90 days
+ */
+export async function getDevTeamsForUser(githubUsername: string, navIdent: string | null): Promise<DevTeam[]> {
+  const result = await pool.query(
+    `SELECT dt.* FROM dev_teams dt
+     WHERE dt.is_active = true
+       AND (
+         ($2::text IS NOT NULL AND (UPPER(dt.product_lead_nav_ident) = UPPER($2) OR UPPER(dt.delivery_lead_nav_ident) = UPPER($2)))
+         OR EXISTS (
+           SELECT 1
+           FROM deployments d
+           JOIN monitored_applications ma ON ma.id = d.monitored_app_id
+           WHERE d.created_at >= NOW() - INTERVAL '90 days'
+             AND (LOWER(d.deployer_username) = LOWER($1) OR LOWER(d.github_pr_data->'creator'->>'username') = LOWER($1))
+             AND (
+               EXISTS (SELECT 1 FROM dev_team_applications dta WHERE dta.dev_team_id = dt.id AND dta.monitored_app_id = ma.id)
+               OR (
+                 NOT EXISTS (SELECT 1 FROM dev_team_applications dta WHERE dta.dev_team_id = dt.id)
+                 AND EXISTS (SELECT 1 FROM dev_team_nais_teams dnt WHERE dnt.dev_team_id = dt.id AND dnt.nais_team_slug = ma.team_slug)
+               )
+             )
+         )
+       )
+     ORDER BY dt.name`,
+    [githubUsername, navIdent],
+  )
+  return result.rows
+}
+
+/**
+ * Get the active apps belonging to dev teams: directly linked apps, or (for teams
+ * without direct links) all apps of their Nais teams
+ */
+export async function getAppIdsForDevTeams(devTeamIds: number[]): Promise<number[]> {
+  if (devTeamIds.length === 0) return []
+
+  const result = await pool.query<{ id: number }>(
+    `SELECT DISTINCT ma.id
+     FROM monitored_applications ma
+     JOIN dev_teams dt ON dt.id = ANY($1)
+     WHERE ma.is_active = true
+       AND (
+         EXISTS (SELECT 1 FROM dev_team_applications dta WHERE dta.dev_team_id = dt.id AND dta.monitored_app_id = ma.id)
+         OR (
+           NOT EXISTS (SELECT 1 FROM dev_team_applications dta WHERE dta.dev_team_id = dt.id)
+           AND EXISTS (SELECT 1 FROM dev_team_nais_teams dnt WHERE dnt.dev_team_id = dt.id AND dnt.nais_team_slug = ma.team_slug)
+         )
+       )`,
+    [devTeamIds],
+  )
+  return result.rows.map((r) => r.id)
+}
+
 export async function createDevTeam(sectionId: number, slug: string, name: string): Promise<DevTeam> {
   const result = await pool.query('INSERT INTO dev_teams (section_id, slug, name) VALUES ($1, $2, $3) RETURNING *', [
     sectionId,
@@ -93,7 +150,15 @@ export async function createDevTeam(sectionId: number, slug: string, name: strin
   return result.rows[0]
 }
 
-export async function updateDevTeam(id: number, data: { name?: string; is_active?: boolean }): Promise<DevTeam | null> {
+export async function updateDevTeam(
+  id: number,
+  data: {
+    name?: string
+    is_active?: boolean
+    product_lead_nav_ident?: string | null
+    delivery_lead_nav_ident?: string | null
+  },
+): Promise<DevTeam | null> {
   const sets: string[] = []
   const values: unknown[] = []
   let idx = 1
@@ -106,6 +171,14 @@ export async function updateDevTeam(id: number, data: { name?: string; is_active
     sets.push(`is_active = $${idx++}`)
     values.push(data.is_active)
   }
+  if (data.product_lead_nav_ident !== undefined) {
+    sets.push(`product_lead_nav_ident = $${idx++}`)
+    values.push(data.product_lead_nav_ident)
+  }
+  if (data.delivery_lead_nav_ident !== undefined) {
+    sets.push(`delivery_lead_nav_ident = $${idx++}`)
+    values.push(data.delivery_lead_nav_ident)
+  }
 
   if (sets.length === 0) return getDevTeamById(id)
 
@@ -1,13 +1,29 @@
-import { query } from './connection.server'
+import { pool, query } from './connection.server'
+import { recordOutboxEvent } from './event-outbox.server'
 
-export type { DeviationFollowUpRole, DeviationIntent, DeviationSeverity } from '~/lib/deviation-constants'
+export type {
+  DeviationFollowUpRole,
+  DeviationIntent,
+  DeviationSeverity,
+  DeviationStatus,
+} from '~/lib/deviation-constants'
 export {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
   DEVIATION_SEVERITY_LABELS,
+  DEVIATION_STATUS_LABELS,
 } from '~/lib/deviation-constants'
 
-import type { DeviationFollowUpRole, DeviationIntent, DeviationSeverity } from '~/lib/deviation-constants'
+import {
+  canTransitionDeviation,
+  type DeviationFollowUpLeads,
+  type DeviationFollowUpRole,
+  type DeviationIntent,
+  type DeviationSeverity,
+  type DeviationStatus,
+  getDeviationDueDate,
+  resolveDeviationAssignee,
+} from '~/lib/deviation-constants'
 
 export interface DeploymentDeviation {
   id: number
@@ -17,6 +33,10 @@ export interface DeploymentDeviation {
   intent: DeviationIntent | null
   severity: DeviationSeverity | null
   follow_up_role: DeviationFollowUpRole | null
+  status: DeviationStatus
+  assigned_to: string | null
+  due_at: Date | null
+  escalated_at: Date | null
   registered_by: string
   registered_by_name: string | null
   resolved_at: Date | null
@@ -35,6 +55,17 @@ export interface DeploymentDeviationWithContext extends DeploymentDeviation {
   deploy_started_at?: Date
 }
 
+export interface DeviationStatusLogEntry {
+  id: number
+  deviation_id: number
+  from_status: DeviationStatus | null
+  to_status: DeviationStatus
+  changed_by: string
+  changed_by_name: string | null
+  note: string | null
+  created_at: Date
+}
+
 export interface CreateDeviationParams {
   deployment_id: number
   reason: string
@@ -46,23 +77,95 @@ export interface CreateDeviationParams {
   registered_by_name?: string
 }
 
+/**
+ * Register a deviation. The assignee is resolved from the dev team/section leads
+ * for the follow-up role, and the due date from the severity.
+ */
 export async function createDeviation(params: CreateDeviationParams): Promise<DeploymentDeviation> {
-  const result = await query<DeploymentDeviation>(
-    `INSERT INTO deployment_deviations (deployment_id, reason, breach_type, intent, severity, follow_up_role, registered_by, registered_by_name)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-     RETURNING *`,
-    [
-      params.deployment_id,
-      params.reason,
-      params.breach_type || null,
-      params.intent || null,
-      params.severity || null,
-      params.follow_up_role || null,
-      params.registered_by,
-      params.registered_by_name || null,
-    ],
+  const leads = await getFollowUpLeadsForDeployment(params.deployment_id)
+  const assignedTo = resolveDeviationAssignee(params.follow_up_role, leads)
+  const dueAt = getDeviationDueDate(params.severity, new Date())
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const result = await client.query<DeploymentDeviation>(
+      `INSERT INTO deployment_deviations (deployment_id, reason, breach_type, intent, severity, follow_up_role, registered_by, registered_by_name, status, assigned_to, due_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'open', $9, $10)
+       RETURNING *`,
+      [
+        params.deployment_id,
+        params.reason,
+        params.breach_type || null,
+        params.intent || null,
+        params.severity || null,
+        params.follow_up_role || null,
+        params.registered_by,
+        params.registered_by_name || null,
+        assignedTo,
+        dueAt,
+      ],
+    )
+    const deviation = result.rows[0]
+    await client.query(
+      `INSERT INTO deviation_status_log (deviation_id, from_status, to_status, changed_by, changed_by_name)
+       VALUES ($1, NULL, 'open', $2, $3)`,
+      [deviation.id, params.registered_by, params.registered_by_name || null],
+    )
+    await recordOutboxEvent(
+      {
+        type: 'deviation.registered',
+        deploymentId: deviation.deployment_id,
+        payload: {
+          deviationId: deviation.id,
+          deploymentId: deviation.deployment_id,
+          reason: deviation.reason,
+          breachType: deviation.breach_type,
+          intent: deviation.intent,
+          severity: deviation.severity,
+          followUpRole: deviation.follow_up_role,
+          assignedTo: deviation.assigned_to,
+          dueAt: deviation.due_at,
+          registeredBy: deviation.registered_by,
+        },
+      },
+      client,
+    )
+    await client.query('COMMIT')
+    return deviation
+  } catch (e) {
+    await client.query('ROLLBACK')
+    throw e
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Get the follow-up leads for a deployment's app. Uses the dev team the app is
+ * directly linked to (or the one owning its Nais team), and that team's section.
+ */
+export async function getFollowUpLeadsForDeployment(deploymentId: number): Promise<DeviationFollowUpLeads> {
+  const result = await query<DeviationFollowUpLeads>(
+    `SELECT dt.product_lead_nav_ident, dt.delivery_lead_nav_ident, s.section_lead_nav_ident
+     FROM deployments d
+     JOIN monitored_applications ma ON ma.id = d.monitored_app_id
+     LEFT JOIN LATERAL (
+       SELECT t.* FROM dev_teams t
+       LEFT JOIN dev_team_applications dta ON dta.dev_team_id = t.id AND dta.monitored_app_id = ma.id
+       LEFT JOIN dev_team_nais_teams dnt ON dnt.dev_team_id = t.id AND dnt.nais_team_slug = ma.team_slug
+       WHERE t.is_active = true AND (dta.monitored_app_id IS NOT NULL OR dnt.nais_team_slug IS NOT NULL)
+       ORDER BY (dta.monitored_app_id IS NOT NULL) DESC, t.name
+       LIMIT 1
+     ) dt ON true
+     LEFT JOIN sections s ON s.id = COALESCE(
+       dt.section_id,
+       (SELECT st.section_id FROM section_teams st WHERE st.team_slug = ma.team_slug ORDER BY st.section_id LIMIT 1)
+     )
+     WHERE d.id = $1`,
+    [deploymentId],
   )
-  return result.rows[0]
+  return result.rows[0] ?? { product_lead_nav_ident: null, delivery_lead_nav_ident: null, section_lead_nav_ident: null }
 }
 
 export async function getDeviationsByDeploymentId(deploymentId: number): Promise<DeploymentDeviation[]> {
@@ -75,7 +178,7 @@ export async function getDeviationsByDeploymentId(deploymentId: number): Promise
 
 export async function getDeviationsByAppId(
   monitoredAppId: number,
-  options?: { resolved?: boolean; limit?: number; offset?: number },
+  options?: { resolved?: boolean; status?: DeviationStatus; overdue?: boolean; limit?: number; offset?: number },
 ): Promise<DeploymentDeviationWithContext[]> {
   let sql = `
     SELECT dd.*, d.commit_sha, d.title, d.created_at AS deploy_started_at,
@@ -84,13 +187,20 @@ export async function getDeviationsByAppId(
     JOIN deployments d ON dd.deployment_id = d.id
     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
     WHERE d.monitored_app_id = $1`
-  const params: (number | boolean)[] = [monitoredAppId]
+  const params: (number | string)[] = [monitoredAppId]
   let paramIndex = 2
 
   if (options?.resolved === true) {
-    sql += ' AND dd.resolved_at IS NOT NULL'
+    sql += " AND dd.status = 'closed'"
   } else if (options?.resolved === false) {
-    sql += ' AND dd.resolved_at IS NULL'
+    sql += " AND dd.status <> 'closed'"
+  }
+  if (options?.status) {
+    sql += ` AND dd.status = $${paramIndex++}`
+    params.push(options.status)
+  }
+  if (options?.overdue) {
+    sql += " AND dd.status <> 'closed' AND dd.due_at < CURRENT_TIMESTAMP"
   }
 
   sql += ' ORDER BY dd.created_at DESC'
@@ -126,26 +236,225 @@ export async function getDeviationsForPeriod(
   return result.rows
 }
 
+export async function getDeviationById(id: number): Promise<DeploymentDeviation | null> {
+  const result = await query<DeploymentDeviation>('SELECT * FROM deployment_deviations WHERE id = $1', [id])
+  return result.rows[0] || null
+}
+
+export class DeviationTransitionError extends Error {
+  constructor(
+    public readonly from: DeviationStatus,
+    public readonly to: DeviationStatus,
+  ) {
+    super(`Invalid deviation status change: ${from} → ${to}`)
+    this.name = 'DeviationTransitionError'
+  }
+}
+
+/**
+ * Change the status of a deviation and log the change.
+ * Closing records the resolution; reopening clears it and restarts the due date.
+ * Throws DeviationTransitionError for changes not allowed by DEVIATION_STATUS_TRANSITIONS.
+ */
+export async function updateDeviationStatus(params: {
+  id: number
+  status: DeviationStatus
+  changed_by: string
+  changed_by_name?: string
+  note?: string
+}): Promise<DeploymentDeviation | null> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const current = await client.query<DeploymentDeviation>(
+      'SELECT * FROM deployment_deviations WHERE id = $1 FOR UPDATE',
+      [params.id],
+    )
+    const deviation = current.rows[0]
+    if (!deviation) {
+      await client.query('ROLLBACK')
+      return null
+    }
+    if (!canTransitionDeviation(deviation.status, params.status)) {
+      throw new DeviationTransitionError(deviation.status, params.status)
+    }
+
+    let result: { rows: DeploymentDeviation[] }
+    if (params.status === 'closed') {
+      result = await client.query<DeploymentDeviation>(
+        `UPDATE deployment_deviations
+         SET status = 'closed', resolved_at = CURRENT_TIMESTAMP, resolved_by = $2, resolved_by_name = $3, resolution_note = $4
+         WHERE id = $1
+         RETURNING *`,
+        [params.id, params.changed_by, params.changed_by_name || null, params.note || null],
+      )
+    } else if (deviation.status === 'closed') {
+      result = await client.query<DeploymentDeviation>(
+        `UPDATE deployment_deviations
+         SET status = $2, resolved_at = NULL, resolved_by = NULL, resolved_by_name = NULL, resolution_note = NULL,
+             due_at = $3, escalated_at = NULL
+         WHERE id = $1
+         RETURNING *`,
+        [params.id, params.status, getDeviationDueDate(deviation.severity, new Date())],
+      )
+    } else {
+      result = await client.query<DeploymentDeviation>(
+        'UPDATE deployment_deviations SET status = $2 WHERE id = $1 RETURNING *',
+        [params.id, params.status],
+      )
+    }
+
+    await client.query(
+      `INSERT INTO deviation_status_log (deviation_id, from_status, to_status, changed_by, changed_by_name, note)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        params.id,
+        deviation.status,
+        params.status,
+        params.changed_by,
+        params.changed_by_name || null,
+        params.note || null,
+      ],
+    )
+    if (params.status === 'closed') {
+      await recordOutboxEvent(
+        {
+          type: 'deviation.resolved',
+          deploymentId: deviation.deployment_id,
+          payload: {
+            deviationId: deviation.id,
+            deploymentId: deviation.deployment_id,
+            fromStatus: deviation.status,
+            resolvedBy: params.changed_by,
+            resolutionNote: params.note ?? null,
+          },
+        },
+        client,
+      )
+    }
+    await client.query('COMMIT')
+    return result.rows[0]
+  } catch (e) {
+    await client.query('ROLLBACK')
+    throw e
+  } finally {
+    client.release()
+  }
+}
+
 export async function resolveDeviation(params: {
   id: number
   resolved_by: string
   resolved_by_name?: string
   resolution_note: string
 }): Promise<DeploymentDeviation | null> {
+  return updateDeviationStatus({
+    id: params.id,
+    status: 'closed',
+    changed_by: params.resolved_by,
+    changed_by_name: params.resolved_by_name,
+    note: params.resolution_note,
+  })
+}
+
+/**
+ * Update how a deviation is classified. Unless the deviation is closed, a new severity
+ * moves the due date (counted from registration) and a new follow-up role reassigns it.
+ */
+export async function updateDeviationClassification(params: {
+  id: number
+  breach_type?: string
+  intent?: DeviationIntent
+  severity?: DeviationSeverity
+  follow_up_role?: DeviationFollowUpRole
+}): Promise<DeploymentDeviation | null> {
+  const current = await getDeviationById(params.id)
+  if (!current) return null
+
+  const isOpen = current.status !== 'closed'
+  const severity = params.severity ?? null
+  const followUpRole = params.follow_up_role ?? null
+
+  let dueAt = current.due_at
+  let escalatedAt = current.escalated_at
+  if (isOpen && severity !== current.severity) {
+    dueAt = getDeviationDueDate(severity, new Date(current.created_at))
+    escalatedAt = null
+  }
+
+  let assignedTo = current.assigned_to
+  if (isOpen && followUpRole !== current.follow_up_role) {
+    assignedTo = resolveDeviationAssignee(followUpRole, await getFollowUpLeadsForDeployment(current.deployment_id))
+  }
+
   const result = await query<DeploymentDeviation>(
     `UPDATE deployment_deviations
-     SET resolved_at = CURRENT_TIMESTAMP, resolved_by = $2, resolved_by_name = $3, resolution_note = $4
+     SET breach_type = $2, intent = $3, severity = $4, follow_up_role = $5, due_at = $6, escalated_at = $7, assigned_to = $8
      WHERE id = $1
      RETURNING *`,
-    [params.id, params.resolved_by, params.resolved_by_name || null, params.resolution_note],
+    [
+      params.id,
+      params.breach_type || null,
+      params.intent || null,
+      severity,
+      followUpRole,
+      dueAt,
+      escalatedAt,
+      assignedTo,
+    ],
   )
   return result.rows[0] || null
 }
 
+export async function assignDeviation(id: number, assignedTo: string | null): Promise<DeploymentDeviation | null> {
+  const result = await query<DeploymentDeviation>(
+    'UPDATE deployment_deviations SET assigned_to = $2 WHERE id = $1 RETURNING *',
+    [id, assignedTo],
+  )
+  return result.rows[0] || null
+}
+
+export async function getDeviationStatusLog(deviationIds: number[]): Promise<DeviationStatusLogEntry[]> {
+  if (deviationIds.length === 0) return []
+  const result = await query<DeviationStatusLogEntry>(
+    'SELECT * FROM deviation_status_log WHERE deviation_id = ANY($1) ORDER BY created_at ASC, id ASC',
+    [deviationIds],
+  )
+  return result.rows
+}
+
+/**
+ * Atomically claim overdue, unescalated deviations for escalation.
+ * Marks them escalated so each deviation is escalated once (across pods);
+ * release the claim with releaseDeviationEscalation if the escalation could not be sent.
+ */
+export async function claimOverdueDeviations(): Promise<DeploymentDeviationWithContext[]> {
+  const result = await query<DeploymentDeviationWithContext>(
+    `UPDATE deployment_deviations dd
+     SET escalated_at = CURRENT_TIMESTAMP
+     FROM deployments d
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     WHERE dd.deployment_id = d.id
+       AND dd.status <> 'closed'
+       AND dd.due_at < CURRENT_TIMESTAMP
+       AND dd.escalated_at IS NULL
+     RETURNING dd.*, d.commit_sha, d.title, d.created_at AS deploy_started_at,
+               ma.app_name, ma.environment_name, ma.team_slug`,
+  )
+  return result.rows
+}
+
+/**
+ * Undo a claim from claimOverdueDeviations, so the deviation is escalated on the next run
+ */
+export async function releaseDeviationEscalation(id: number): Promise<void> {
+  await query('UPDATE deployment_deviations SET escalated_at = NULL WHERE id = $1', [id])
+}
+
 export async function getDeviationCountByAppId(monitoredAppId: number): Promise<{ open: number; total: number }> {
   const result = await query<{ open: string; total: string }>(
     `SELECT 
-       COUNT(*) FILTER (WHERE dd.resolved_at IS NULL) AS open,
+       COUNT(*) FILTER (WHERE dd.status <> 'closed') AS open,
        COUNT(*) AS total
      FROM deployment_deviations dd
      JOIN deployments d ON dd.deployment_id = d.id
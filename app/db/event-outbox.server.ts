@@ -0,0 +1,251 @@
+/**
+ * Event outbox, subscribers and delivery state for the outbound event stream
+ */
+
+import type { PoolClient } from 'pg'
+import type { EventDeliveryStatus, OutboxEventType } from '~/lib/event-outbox'
+import { pool } from './connection.server'
+
+/** The pool, or a client when the event must be written in the same transaction as the change */
+type Queryable = Pick<PoolClient, 'query'>
+
+export interface OutboxEvent {
+  id: string
+  event_type: OutboxEventType
+  monitored_app_id: number | null
+  deployment_id: number | null
+  payload: Record<string, unknown>
+  created_at: Date
+}
+
+export interface EventSubscriber {
+  id: number
+  name: string
+  url: string
+  secret: string
+  event_types: OutboxEventType[]
+  enabled: boolean
+  created_by: string | null
+  created_at: Date
+  updated_at: Date
+}
+
+export interface EventSubscriberWithStats extends Omit<EventSubscriber, 'secret'> {
+  pending_count: number
+  delivered_count: number
+  failed_count: number
+  last_delivered_at: Date | null
+}
+
+export interface EventDelivery {
+  id: string
+  event_id: string
+  subscriber_id: number
+  status: EventDeliveryStatus
+  attempts: number
+  next_attempt_at: Date
+  last_attempt_at: Date | null
+  last_response_status: number | null
+  last_error: string | null
+  delivered_at: Date | null
+  created_at: Date
+}
+
+/** A due delivery with everything needed to send it */
+export interface DueEventDelivery extends EventDelivery {
+  event_type: OutboxEventType
+  monitored_app_id: number | null
+  deployment_id: number | null
+  payload: Record<string, unknown>
+  event_created_at: Date
+  team_slug: string | null
+  environment_name: string | null
+  app_name: string | null
+  url: string
+  secret: string
+}
+
+export interface FailedEventDelivery extends EventDelivery {
+  event_type: OutboxEventType
+  deployment_id: number | null
+  subscriber_name: string
+}
+
+/**
+ * Write an event to the outbox and create a pending delivery for every enabled subscriber that wants it.
+ * The app is looked up from the deployment when not given.
+ */
+export async function recordOutboxEvent(
+  event: {
+    type: OutboxEventType
+    monitoredAppId?: number | null
+    deploymentId?: number | null
+    payload: Record<string, unknown>
+  },
+  db: Queryable = pool,
+): Promise<void> {
+  await db.query(
+    `WITH event AS (
+       INSERT INTO event_outbox (event_type, monitored_app_id, deployment_id, payload)
+       VALUES ($1, COALESCE($2, (SELECT monitored_app_id FROM deployments WHERE id = $3)), $3, $4)
+       RETURNING id
+     )
+     INSERT INTO event_deliveries (event_id, subscriber_id)
+     SELECT event.id, s.id
+     FROM event, event_subscribers s
+     WHERE s.enabled AND (cardinality(s.event_types) = 0 OR $1 = ANY(s.event_types))`,
+    [event.type, event.monitoredAppId ?? null, event.deploymentId ?? null, JSON.stringify(event.payload)],
+  )
+}
+
+export async function hasDueEventDeliveries(): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM event_deliveries ed
+     JOIN event_subscribers s ON s.id = ed.subscriber_id
+     WHERE ed.status = 'pending' AND ed.next_attempt_at <= NOW() AND s.enabled
+     LIMIT 1`,
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Claim pending deliveries that are due, oldest event first. Deliveries to disabled subscribers wait.
+ *
+ * Claimed rows get next_attempt_at pushed forward by the lease, so another worker does not pick them up
+ * while they are being sent. Marking the delivery as delivered or failed replaces the lease; if the worker
+ * dies, the delivery becomes due again when the lease runs out.
+ */
+export async function claimDueEventDeliveries(limit: number, leaseMs: number): Promise<DueEventDelivery[]> {
+  const result = await pool.query(
+    `WITH claimed AS (
+       UPDATE event_deliveries
+       SET next_attempt_at = NOW() + $2 * INTERVAL '1 millisecond'
+       WHERE id IN (
+         SELECT ed.id
+         FROM event_deliveries ed
+         JOIN event_subscribers s ON s.id = ed.subscriber_id
+         WHERE ed.status = 'pending' AND ed.next_attempt_at <= NOW() AND s.enabled
+         ORDER BY ed.event_id, ed.id
+         LIMIT $1
+         FOR UPDATE OF ed SKIP LOCKED
+       )
+       RETURNING *
+     )
+     SELECT c.*, e.event_type, e.monitored_app_id, e.deployment_id, e.payload, e.created_at AS event_created_at,
+            ma.team_slug, ma.environment_name, ma.app_name, s.url, s.secret
+     FROM claimed c
+     JOIN event_outbox e ON e.id = c.event_id
+     JOIN event_subscribers s ON s.id = c.subscriber_id
+     LEFT JOIN monitored_applications ma ON ma.id = e.monitored_app_id
+     ORDER BY c.event_id, c.id`,
+    [limit, leaseMs],
+  )
+  return result.rows
+}
+
+export async function markEventDelivered(id: string, responseStatus: number): Promise<void> {
+  await pool.query(
+    `UPDATE event_deliveries
+     SET status = 'delivered', attempts = attempts + 1, last_attempt_at = NOW(), delivered_at = NOW(),
+         last_response_status = $2, last_error = NULL
+     WHERE id = $1`,
+    [id, responseStatus],
+  )
+}
+
+/**
+ * Record a failed attempt. Without a next attempt time the delivery is given up (status failed).
+ */
+export async function markEventDeliveryFailed(
+  id: string,
+  data: { nextAttemptAt: Date | null; responseStatus?: number; error: string },
+): Promise<void> {
+  await pool.query(
+    `UPDATE event_deliveries
+     SET status = CASE WHEN $2::timestamptz IS NULL THEN 'failed' ELSE 'pending' END,
+         attempts = attempts + 1, last_attempt_at = NOW(), next_attempt_at = COALESCE($2, next_attempt_at),
+         last_response_status = $3, last_error = $4
+     WHERE id = $1`,
+    [id, data.nextAttemptAt, data.responseStatus ?? null, data.error],
+  )
+}
+
+/**
+ * Put failed deliveries back in the queue with a fresh set of attempts.
+ * Retries one delivery when id is given, otherwise all failed deliveries of the subscriber.
+ */
+export async function retryFailedEventDeliveries(filter: { id: string } | { subscriberId: number }): Promise<number> {
+  const result = await pool.query(
+    `UPDATE event_deliveries
+     SET status = 'pending', attempts = 0, next_attempt_at = NOW()
+     WHERE status = 'failed' AND ${'id' in filter ? 'id = $1' : 'subscriber_id = $1'}`,
+    ['id' in filter ? filter.id : filter.subscriberId],
+  )
+  return result.rowCount ?? 0
+}
+
+export async function getFailedEventDeliveries(limit = 100): Promise<FailedEventDelivery[]> {
+  const result = await pool.query(
+    `SELECT ed.*, e.event_type, e.deployment_id, s.name AS subscriber_name
+     FROM event_deliveries ed
+     JOIN event_outbox e ON e.id = ed.event_id
+     JOIN event_subscribers s ON s.id = ed.subscriber_id
+     WHERE ed.status = 'failed'
+     ORDER BY ed.last_attempt_at DESC
+     LIMIT $1`,
+    [limit],
+  )
+  return result.rows
+}
+
+export async function getRecentOutboxEvents(limit = 20): Promise<OutboxEvent[]> {
+  const result = await pool.query('SELECT * FROM event_outbox ORDER BY id DESC LIMIT $1', [limit])
+  return result.rows
+}
+
+/**
+ * Subscribers with delivery counts, without their secrets
+ */
+export async function getEventSubscribers(): Promise<EventSubscriberWithStats[]> {
+  const result = await pool.query(
+    `SELECT s.id, s.name, s.url, s.event_types, s.enabled, s.created_by, s.created_at, s.updated_at,
+            COUNT(ed.id) FILTER (WHERE ed.status = 'pending')::int AS pending_count,
+            COUNT(ed.id) FILTER (WHERE ed.status = 'delivered')::int AS delivered_count,
+            COUNT(ed.id) FILTER (WHERE ed.status = 'failed')::int AS failed_count,
+            MAX(ed.delivered_at) AS last_delivered_at
+     FROM event_subscribers s
+     LEFT JOIN event_deliveries ed ON ed.subscriber_id = s.id
+     GROUP BY s.id
+     ORDER BY s.created_at`,
+  )
+  return result.rows
+}
+
+export async function createEventSubscriber(data: {
+  name: string
+  url: string
+  secret: string
+  eventTypes: OutboxEventType[]
+  createdBy: string
+}): Promise<EventSubscriber> {
+  const result = await pool.query(
+    `INSERT INTO event_subscribers (name, url, secret, event_types, created_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [data.name, data.url, data.secret, data.eventTypes, data.createdBy],
+  )
+  return result.rows[0]
+}
+
+export async function setEventSubscriberEnabled(id: number, enabled: boolean): Promise<boolean> {
+  const result = await pool.query('UPDATE event_subscribers SET enabled = $2, updated_at = NOW() WHERE id = $1', [
+    id,
+    enabled,
+  ])
+  return (result.rowCount ?? 0) > 0
+}
+
+export async function deleteEventSubscriber(id: number): Promise<boolean> {
+  const result = await pool.query('DELETE FROM event_subscribers WHERE id = $1', [id])
+  return (result.rowCount ?? 0) > 0
+}
@@ -70,9 +70,11 @@ export async function getLatestPrSnapshot(
   dataType: PrDataType,
   options?: {
     requireCurrentSchema?: boolean
+    includeInvalidated?: boolean
   },
 ): Promise<PrSnapshot | null> {
   const requireCurrent = options?.requireCurrentSchema ?? true
+  const includeInvalidated = options?.includeInvalidated ?? false
 
   const result = await pool.query(
     `SELECT id, owner, repo, pr_number, data_type, schema_version, 
@@ -80,6 +82,7 @@ export async function getLatestPrSnapshot(
      FROM github_pr_snapshots
      WHERE owner = $1 AND repo = $2 AND pr_number = $3 AND data_type = $4
        ${requireCurrent ? `AND schema_version = ${CURRENT_SCHEMA_VERSION}` : ''}
+       ${includeInvalidated ? '' : 'AND invalidated_at IS NULL'}
      ORDER BY fetched_at DESC
      LIMIT 1`,
     [owner, repo, prNumber, dataType],
@@ -170,6 +173,7 @@ export async function getAllLatestPrSnapshots(
      FROM github_pr_snapshots
      WHERE owner = $1 AND repo = $2 AND pr_number = $3
        AND schema_version = $4
+       AND invalidated_at IS NULL
      ORDER BY data_type, fetched_at DESC`,
     [owner, repo, prNumber, CURRENT_SCHEMA_VERSION],
   )
@@ -280,9 +284,11 @@ export async function getLatestCommitSnapshot(
   dataType: CommitDataType,
   options?: {
     requireCurrentSchema?: boolean
+    includeInvalidated?: boolean
   },
 ): Promise<CommitSnapshot | null> {
   const requireCurrent = options?.requireCurrentSchema ?? true
+  const includeInvalidated = options?.includeInvalidated ?? false
 
   const result = await pool.query(
     `SELECT id, owner, repo, sha, data_type, schema_version, 
@@ -290,6 +296,7 @@ export async function getLatestCommitSnapshot(
      FROM github_commit_snapshots
      WHERE owner = $1 AND repo = $2 AND sha = $3 AND data_type = $4
        ${requireCurrent ? `AND schema_version = ${CURRENT_SCHEMA_VERSION}` : ''}
+       ${includeInvalidated ? '' : 'AND invalidated_at IS NULL'}
      ORDER BY fetched_at DESC
      LIMIT 1`,
     [owner, repo, sha, dataType],
@@ -329,6 +336,7 @@ export async function getAllLatestCommitSnapshots(
      FROM github_commit_snapshots
      WHERE owner = $1 AND repo = $2 AND sha = $3
        AND schema_version = $4
+       AND invalidated_at IS NULL
      ORDER BY data_type, fetched_at DESC`,
     [owner, repo, sha, CURRENT_SCHEMA_VERSION],
   )
@@ -412,6 +420,7 @@ export async function markPrDataUnavailable(
   // Get the last known good data
   const lastGood = await getLatestPrSnapshot(owner, repo, prNumber, dataType, {
     requireCurrentSchema: false,
+    includeInvalidated: true,
   })
 
   if (lastGood) {
@@ -434,6 +443,7 @@ export async function markCommitDataUnavailable(
 ): Promise<void> {
   const lastGood = await getLatestCommitSnapshot(owner, repo, sha, dataType, {
     requireCurrentSchema: false,
+    includeInvalidated: true,
   })
 
   if (lastGood) {
@@ -444,6 +454,42 @@ export async function markCommitDataUnavailable(
   }
 }
 
+// =============================================================================
+// Invalidation
+// =============================================================================
+
+/**
+ * Invalidate all cached snapshots for a PR (e.g. after a GitHub webhook event).
+ * Snapshots are kept for history, but are no longer returned as latest data,
+ * so the next verification fetches fresh data from GitHub.
+ * Returns the number of snapshots invalidated.
+ */
+export async function invalidatePrSnapshots(owner: string, repo: string, prNumber: number): Promise<number> {
+  const result = await pool.query(
+    `UPDATE github_pr_snapshots
+     SET invalidated_at = NOW()
+     WHERE owner = $1 AND repo = $2 AND pr_number = $3 AND invalidated_at IS NULL`,
+    [owner, repo, prNumber],
+  )
+  return result.rowCount ?? 0
+}
+
+/**
+ * Invalidate all cached snapshots for a set of commits.
+ * Returns the number of snapshots invalidated.
+ */
+export async function invalidateCommitSnapshots(owner: string, repo: string, shas: string[]): Promise<number> {
+  if (shas.length === 0) return 0
+
+  const result = await pool.query(
+    `UPDATE github_commit_snapshots
+     SET invalidated_at = NOW()
+     WHERE owner = $1 AND repo = $2 AND sha = ANY($3) AND invalidated_at IS NULL`,
+    [owner, repo, shas],
+  )
+  return result.rowCount ?? 0
+}
+
 // =============================================================================
 // Verification Runs
 // =============================================================================
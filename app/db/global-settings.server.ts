@@ -1,3 +1,7 @@
+import {
+  DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS,
+  type ProductionEnvironmentSettings,
+} from '~/lib/production-environments'
 import { pool } from './connection.server'
 
 export interface GlobalSetting {
@@ -9,6 +13,7 @@ export interface GlobalSetting {
 
 export const GLOBAL_SETTING_KEYS = {
   DEVIATION_SLACK_CHANNEL: 'deviation_slack_channel',
+  PRODUCTION_ENVIRONMENTS: 'production_environments',
 } as const
 
 export interface DeviationSlackChannelSettings {
@@ -56,3 +61,16 @@ export async function updateDeviationSlackChannel(channelId: string): Promise<Gl
     newValue: { channel_id: channelId },
   })
 }
+
+export async function getProductionEnvironmentSettings(): Promise<ProductionEnvironmentSettings> {
+  return getGlobalSetting(GLOBAL_SETTING_KEYS.PRODUCTION_ENVIRONMENTS, DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS)
+}
+
+export async function updateProductionEnvironmentSettings(
+  settings: ProductionEnvironmentSettings,
+): Promise<GlobalSetting> {
+  return updateGlobalSetting({
+    settingKey: GLOBAL_SETTING_KEYS.PRODUCTION_ENVIRONMENTS,
+    newValue: settings,
+  })
+}
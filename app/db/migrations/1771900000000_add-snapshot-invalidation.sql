@@ -0,0 +1,10 @@
+-- Migration: Allow GitHub snapshots to be invalidated
+-- Set by the GitHub webhook when a PR or commit changes. Invalidated snapshots are
+-- kept for history, but are skipped when looking up the latest cached data so the
+-- next verification fetches fresh data from GitHub.
+
+ALTER TABLE github_pr_snapshots
+ADD COLUMN IF NOT EXISTS invalidated_at TIMESTAMPTZ;
+
+ALTER TABLE github_commit_snapshots
+ADD COLUMN IF NOT EXISTS invalidated_at TIMESTAMPTZ;
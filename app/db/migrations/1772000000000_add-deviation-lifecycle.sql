@@ -0,0 +1,44 @@
+-- Deviation lifecycle: status, assignee, due date and escalation
+ALTER TABLE deployment_deviations
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'under_investigation', 'action_required', 'closed')),
+  ADD COLUMN IF NOT EXISTS assigned_to VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE deployment_deviations SET status = 'closed' WHERE resolved_at IS NOT NULL;
+
+-- Due dates for existing open deviations, as getDeviationDueDate (DEVIATION_DUE_DAYS, medium by default)
+UPDATE deployment_deviations
+SET due_at = created_at + CASE severity
+    WHEN 'critical' THEN INTERVAL '1 day'
+    WHEN 'high' THEN INTERVAL '3 days'
+    WHEN 'low' THEN INTERVAL '30 days'
+    ELSE INTERVAL '14 days'
+  END
+WHERE due_at IS NULL AND status <> 'closed';
+
+CREATE INDEX IF NOT EXISTS idx_deployment_deviations_open_due
+  ON deployment_deviations(due_at) WHERE status <> 'closed';
+
+-- Log of deviation status changes (who, when, from → to)
+CREATE TABLE IF NOT EXISTS deviation_status_log (
+  id SERIAL PRIMARY KEY,
+  deviation_id INTEGER NOT NULL REFERENCES deployment_deviations(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by VARCHAR(255) NOT NULL,
+  changed_by_name VARCHAR(255),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_deviation_status_log_deviation_id ON deviation_status_log(deviation_id);
+
+-- Follow-up roles for deviations
+ALTER TABLE dev_teams
+  ADD COLUMN IF NOT EXISTS product_lead_nav_ident VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS delivery_lead_nav_ident VARCHAR(255);
+
+ALTER TABLE sections
+  ADD COLUMN IF NOT EXISTS section_lead_nav_ident VARCHAR(255);
@@ -0,0 +1,4 @@
+-- Section-wide audit reports: a report job covers either one app or a whole section
+ALTER TABLE report_jobs ADD COLUMN IF NOT EXISTS section_id INTEGER REFERENCES sections(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_report_jobs_section_id ON report_jobs(section_id) WHERE section_id IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Scheduled audit report generation: Slack summaries sent for periods blocked by
+-- unapproved deployments. One row per app and period so each summary is sent once.
+CREATE TABLE IF NOT EXISTS audit_report_blocked_notices (
+  id SERIAL PRIMARY KEY,
+  monitored_app_id INTEGER NOT NULL REFERENCES monitored_applications(id) ON DELETE CASCADE,
+  period_type TEXT NOT NULL CHECK (period_type IN ('yearly', 'tertiary', 'quarterly', 'monthly')),
+  period_start DATE NOT NULL,
+  pending_count INTEGER NOT NULL,
+  notified_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (monitored_app_id, period_type, period_start)
+);
@@ -0,0 +1,20 @@
+-- Tamper evidence for audit reports: JWS signature per report and a hash chain per app
+ALTER TABLE audit_reports
+  ADD COLUMN IF NOT EXISTS pdf_hash TEXT,
+  ADD COLUMN IF NOT EXISTS signature TEXT,
+  ADD COLUMN IF NOT EXISTS signing_key_id TEXT,
+  ADD COLUMN IF NOT EXISTS chain_hash TEXT;
+
+CREATE TABLE IF NOT EXISTS audit_report_chain (
+  id SERIAL PRIMARY KEY,
+  monitored_app_id INTEGER NOT NULL REFERENCES monitored_applications(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL,
+  -- No foreign key: the entry must outlive a deleted report so the deletion is detectable
+  audit_report_id INTEGER NOT NULL,
+  report_id TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  previous_chain_hash TEXT,
+  chain_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (monitored_app_id, sequence)
+);
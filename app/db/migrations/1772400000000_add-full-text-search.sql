@@ -0,0 +1,25 @@
+-- Full-text search over deployments and the text attached to them.
+-- The 'simple' configuration is used since titles, commit messages and comments mix
+-- Norwegian and English; queries match word prefixes instead of relying on stemming.
+--
+-- Expression indexes rather than tsvector columns, so SELECT * stays unchanged.
+-- The expressions must match the ones in app/db/deployments/search.server.ts exactly.
+
+CREATE INDEX IF NOT EXISTS idx_deployments_search ON deployments USING GIN ((
+  setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('simple', COALESCE(github_pr_data->>'title', '')), 'A') ||
+  setweight(to_tsvector('simple', COALESCE(github_pr_data->>'body', '')), 'C')
+));
+
+CREATE INDEX IF NOT EXISTS idx_commits_search ON commits USING GIN ((
+  to_tsvector('simple', COALESCE(message, ''))
+));
+
+CREATE INDEX IF NOT EXISTS idx_deployment_comments_search ON deployment_comments USING GIN ((
+  to_tsvector('simple', comment_text)
+));
+
+CREATE INDEX IF NOT EXISTS idx_deployment_deviations_search ON deployment_deviations USING GIN ((
+  setweight(to_tsvector('simple', COALESCE(breach_type, '')), 'A') ||
+  setweight(to_tsvector('simple', reason), 'B')
+));
@@ -0,0 +1,3 @@
+-- Rollbacks: the earlier deployment of the same commit that a rollback returned to
+ALTER TABLE deployments
+  ADD COLUMN IF NOT EXISTS rollback_target_deployment_id INTEGER REFERENCES deployments(id) ON DELETE SET NULL;
@@ -0,0 +1,17 @@
+-- Default-branch protection rules per repository, with history.
+-- A new row is only added when the rules change; last_checked_at records the latest sync.
+CREATE TABLE IF NOT EXISTS branch_protection_snapshots (
+  id SERIAL PRIMARY KEY,
+  owner TEXT NOT NULL,
+  repo TEXT NOT NULL,
+  branch TEXT NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  data JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_branch_protection_snapshots_lookup
+  ON branch_protection_snapshots (owner, repo, branch, fetched_at DESC);
+
+-- Alerts that are not about a deployment (e.g. weakened branch protection) carry their details here
+ALTER TABLE repository_alerts ADD COLUMN IF NOT EXISTS details JSONB;
@@ -0,0 +1,40 @@
+-- Personal Slack notifications (DMs), configured by each user.
+-- A user opts in by saving preferences; events are queued and delivered as one DM per user
+-- either right away or batched into an hourly or daily digest.
+CREATE TABLE IF NOT EXISTS user_notification_preferences (
+  github_username TEXT PRIMARY KEY REFERENCES user_mappings(github_username) ON DELETE CASCADE,
+  notify_own_unverified BOOLEAN NOT NULL DEFAULT true,
+  notify_review_requested BOOLEAN NOT NULL DEFAULT true,
+  delivery TEXT NOT NULL DEFAULT 'immediate' CHECK (delivery IN ('immediate', 'hourly', 'daily')),
+  digest_time TEXT NOT NULL DEFAULT '09:00',
+  last_delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Apps a user follows: status changes to any of the given statuses, and optionally deviation events
+CREATE TABLE IF NOT EXISTS user_notification_subscriptions (
+  id SERIAL PRIMARY KEY,
+  github_username TEXT NOT NULL REFERENCES user_mappings(github_username) ON DELETE CASCADE,
+  monitored_app_id INTEGER NOT NULL REFERENCES monitored_applications(id) ON DELETE CASCADE,
+  statuses TEXT[] NOT NULL DEFAULT '{}',
+  deviation_events BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (github_username, monitored_app_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_notification_subscriptions_app
+  ON user_notification_subscriptions (monitored_app_id);
+
+-- Notifications waiting to be delivered. sent_at is set when a delivery claims them.
+CREATE TABLE IF NOT EXISTS user_notification_queue (
+  id SERIAL PRIMARY KEY,
+  github_username TEXT NOT NULL REFERENCES user_mappings(github_username) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_notification_queue_pending
+  ON user_notification_queue (github_username) WHERE sent_at IS NULL;
@@ -0,0 +1,36 @@
+-- Outbound notification channels (Slack channel, email, signed HTTP webhook) for deviation and
+-- unverified-deployment events. A channel belongs to one app, or is global when monitored_app_id is NULL.
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id SERIAL PRIMARY KEY,
+  monitored_app_id INTEGER REFERENCES monitored_applications(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('slack', 'email', 'webhook')),
+  name TEXT NOT NULL,
+  config JSONB NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_app ON notification_channels (monitored_app_id);
+
+-- One row per delivery attempt, like slack_notifications for the deployment channel messages
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id SERIAL PRIMARY KEY,
+  channel_id INTEGER REFERENCES notification_channels(id) ON DELETE SET NULL,
+  monitored_app_id INTEGER REFERENCES monitored_applications(id) ON DELETE SET NULL,
+  channel_kind TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  deployment_id INTEGER REFERENCES deployments(id) ON DELETE SET NULL,
+  target TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  response_status INTEGER,
+  external_id TEXT,
+  error TEXT,
+  payload JSONB NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_app ON notification_deliveries (monitored_app_id, sent_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_channel ON notification_deliveries (channel_id, sent_at DESC);
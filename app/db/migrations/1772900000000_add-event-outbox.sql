@@ -0,0 +1,52 @@
+-- Outbox of domain events (status transitions, deviations, repository alerts) for external subscribers.
+-- Events are written together with the change that caused them and published by a background worker.
+CREATE TABLE IF NOT EXISTS event_outbox (
+  id BIGSERIAL PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  monitored_app_id INTEGER REFERENCES monitored_applications(id) ON DELETE SET NULL,
+  deployment_id INTEGER REFERENCES deployments(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_outbox_created ON event_outbox (created_at DESC);
+
+-- HTTP endpoints receiving the events. An empty event_types list means all events.
+CREATE TABLE IF NOT EXISTS event_subscribers (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One row per event and subscriber, created when the event is written.
+-- pending rows are retried with backoff until delivered or attempts run out (failed).
+CREATE TABLE IF NOT EXISTS event_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  event_id BIGINT NOT NULL REFERENCES event_outbox(id) ON DELETE CASCADE,
+  subscriber_id INTEGER NOT NULL REFERENCES event_subscribers(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+  last_response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (event_id, subscriber_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_due ON event_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_failed ON event_deliveries (subscriber_id, last_attempt_at DESC)
+  WHERE status = 'failed';
+
+-- sync_jobs_active_lock does not cover jobs without an app (NULLs are distinct),
+-- so global jobs like the outbox worker need their own single-runner index
+CREATE UNIQUE INDEX IF NOT EXISTS sync_jobs_active_global_lock
+  ON sync_jobs (job_type)
+  WHERE status = 'running' AND monitored_app_id IS NULL;
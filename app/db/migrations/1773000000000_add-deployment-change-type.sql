@@ -0,0 +1,5 @@
+-- Change classification from diffing Nais resources against the app's previous deployment.
+-- resource_changes is NULL until the deployment has been classified (after the next Nais sync).
+ALTER TABLE deployments
+  ADD COLUMN IF NOT EXISTS change_type TEXT CHECK (change_type IN ('code', 'config', 'infrastructure')),
+  ADD COLUMN IF NOT EXISTS resource_changes JSONB;
@@ -0,0 +1,8 @@
+-- Entra ID groups of each user as of their last login in the web app.
+-- Used to resolve section access for actions outside the web app (Slack, notifications),
+-- where no token with the user's groups is available.
+CREATE TABLE IF NOT EXISTS user_access_snapshots (
+  nav_ident TEXT PRIMARY KEY,
+  entra_groups TEXT[] NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,4 @@
+-- The blocking deployments a Slack summary was sent for, so a new summary is sent when they change.
+-- Existing notices get an empty list, so the next run sends a summary of the current blockers.
+ALTER TABLE audit_report_blocked_notices
+  ADD COLUMN IF NOT EXISTS pending_deployment_ids INTEGER[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,16 @@
+-- When each repository's branch protection was last claimed for a check. Apps sharing a
+-- repository (and pods syncing at the same time) claim it here, so it is checked once per interval.
+CREATE TABLE IF NOT EXISTS branch_protection_checks (
+  owner TEXT NOT NULL,
+  repo TEXT NOT NULL,
+  branch TEXT NOT NULL,
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (owner, repo, branch)
+);
+
+-- Repositories already snapshotted count as checked at their latest check
+INSERT INTO branch_protection_checks (owner, repo, branch, claimed_at)
+SELECT owner, repo, branch, MAX(last_checked_at)
+FROM branch_protection_snapshots
+GROUP BY owner, repo, branch
+ON CONFLICT (owner, repo, branch) DO NOTHING;
@@ -0,0 +1,10 @@
+-- Rollbacks, also those to a commit not deployed here before (which have no rollback target),
+-- so re-verification from cached data can treat them as rollbacks
+ALTER TABLE deployments
+  ADD COLUMN IF NOT EXISTS is_rollback BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE deployments
+SET is_rollback = true
+WHERE NOT is_rollback
+  AND (rollback_target_deployment_id IS NOT NULL
+       OR unverified_commits @> '[{"reason": "rollback_to_unverified"}]'::jsonb);
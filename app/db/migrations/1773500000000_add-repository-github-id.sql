@@ -0,0 +1,4 @@
+-- GitHub's repository ID, which survives renames and transfers. Stored once looked up, so the sync
+-- does not have to ask GitHub again for repositories it has already compared
+ALTER TABLE application_repositories
+  ADD COLUMN IF NOT EXISTS github_repo_id BIGINT;
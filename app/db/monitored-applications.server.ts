@@ -1,4 +1,6 @@
+import { isProductionApp } from '~/lib/production-environments'
 import { pool } from './connection.server'
+import { getProductionEnvironmentSettings } from './global-settings.server'
 
 export interface MonitoredApplication {
   id: number
@@ -66,6 +68,17 @@ export async function getApplicationsByTeamAndEnv(
   return result.rows
 }
 
+/**
+ * Get IDs of all monitored applications classified as production (see admin/global-settings)
+ */
+export async function getProductionApplicationIds(): Promise<number[]> {
+  const [settings, result] = await Promise.all([
+    getProductionEnvironmentSettings(),
+    pool.query<{ id: number; environment_name: string }>('SELECT id, environment_name FROM monitored_applications'),
+  ])
+  return result.rows.filter((app) => isProductionApp(settings, app)).map((app) => app.id)
+}
+
 export async function getMonitoredApplicationById(id: number): Promise<MonitoredApplication | null> {
   const result = await pool.query('SELECT * FROM monitored_applications WHERE id = $1', [id])
   return result.rows[0] || null
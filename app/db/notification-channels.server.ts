@@ -0,0 +1,152 @@
+/**
+ * Notification channel configuration and delivery log
+ */
+
+import type {
+  DeliveryResult,
+  NotificationChannelConfigs,
+  NotificationChannelKind,
+  NotificationEventType,
+} from '~/lib/notifications/types'
+import { pool } from './connection.server'
+
+export interface NotificationChannel<K extends NotificationChannelKind = NotificationChannelKind> {
+  id: number
+  monitored_app_id: number | null
+  kind: K
+  name: string
+  config: NotificationChannelConfigs[K]
+  events: NotificationEventType[]
+  enabled: boolean
+  created_by: string | null
+  created_at: Date
+  updated_at: Date
+}
+
+export interface NotificationDelivery {
+  id: number
+  channel_id: number | null
+  monitored_app_id: number | null
+  channel_kind: NotificationChannelKind
+  event_type: NotificationEventType
+  deployment_id: number | null
+  target: string
+  success: boolean
+  response_status: number | null
+  external_id: string | null
+  error: string | null
+  payload: Record<string, unknown>
+  sent_at: Date
+  channel_name: string | null
+}
+
+/**
+ * Get the channels of an app, or the global channels when monitoredAppId is null
+ */
+export async function getNotificationChannels(monitoredAppId: number | null): Promise<NotificationChannel[]> {
+  const result = await pool.query(
+    `SELECT * FROM notification_channels
+     WHERE monitored_app_id IS NOT DISTINCT FROM $1
+     ORDER BY created_at`,
+    [monitoredAppId],
+  )
+  return result.rows
+}
+
+export async function getNotificationChannelById(id: number): Promise<NotificationChannel | null> {
+  const result = await pool.query('SELECT * FROM notification_channels WHERE id = $1', [id])
+  return result.rows[0] || null
+}
+
+/**
+ * Enabled channels that should receive an event for an app: the app's own channels and the global ones
+ */
+export async function getChannelsForEvent(
+  eventType: NotificationEventType,
+  monitoredAppId: number,
+): Promise<NotificationChannel[]> {
+  const result = await pool.query(
+    `SELECT * FROM notification_channels
+     WHERE enabled AND $1 = ANY(events)
+       AND (monitored_app_id = $2 OR monitored_app_id IS NULL)
+     ORDER BY monitored_app_id NULLS LAST, created_at`,
+    [eventType, monitoredAppId],
+  )
+  return result.rows
+}
+
+export async function createNotificationChannel<K extends NotificationChannelKind>(data: {
+  monitoredAppId: number | null
+  kind: K
+  name: string
+  config: NotificationChannelConfigs[K]
+  events: NotificationEventType[]
+  createdBy?: string
+}): Promise<NotificationChannel<K>> {
+  const result = await pool.query(
+    `INSERT INTO notification_channels (monitored_app_id, kind, name, config, events, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [data.monitoredAppId, data.kind, data.name, JSON.stringify(data.config), data.events, data.createdBy || null],
+  )
+  return result.rows[0]
+}
+
+export async function setNotificationChannelEnabled(id: number, enabled: boolean): Promise<void> {
+  await pool.query('UPDATE notification_channels SET enabled = $2, updated_at = NOW() WHERE id = $1', [id, enabled])
+}
+
+export async function deleteNotificationChannel(id: number): Promise<void> {
+  await pool.query('DELETE FROM notification_channels WHERE id = $1', [id])
+}
+
+/**
+ * Log a delivery attempt
+ */
+export async function logNotificationDelivery(data: {
+  channel: Pick<NotificationChannel, 'id' | 'kind'>
+  monitoredAppId: number | null
+  eventType: NotificationEventType
+  deploymentId: number | null
+  result: DeliveryResult
+  payload: Record<string, unknown>
+}): Promise<void> {
+  await pool.query(
+    `INSERT INTO notification_deliveries
+       (channel_id, monitored_app_id, channel_kind, event_type, deployment_id, target,
+        success, response_status, external_id, error, payload)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+    [
+      data.channel.id,
+      data.monitoredAppId,
+      data.channel.kind,
+      data.eventType,
+      data.deploymentId,
+      data.result.target,
+      data.result.success,
+      data.result.responseStatus ?? null,
+      data.result.externalId ?? null,
+      data.result.error ?? null,
+      JSON.stringify(data.payload),
+    ],
+  )
+}
+
+/**
+ * Latest deliveries through the channels of an app, or through the global channels when monitoredAppId is null
+ */
+export async function getNotificationDeliveries(
+  monitoredAppId: number | null,
+  limit = 20,
+): Promise<NotificationDelivery[]> {
+  const result = await pool.query(
+    `SELECT nd.*, nc.name AS channel_name
+     FROM notification_deliveries nd
+     LEFT JOIN notification_channels nc ON nc.id = nd.channel_id
+     WHERE ${monitoredAppId === null ? 'nc.monitored_app_id IS NULL AND nd.channel_id IS NOT NULL' : 'nd.monitored_app_id = $2 AND nc.monitored_app_id IS NOT DISTINCT FROM $2'}
+     ORDER BY nd.sent_at DESC
+     LIMIT $1`,
+    monitoredAppId === null ? [limit] : [limit, monitoredAppId],
+  )
+  return result.rows
+}
@@ -27,6 +27,51 @@ export async function createReportJob(
   return result.rows[0].job_id
 }
 
+/** Create a report job covering all production apps in a section */
+export async function createSectionReportJob(
+  sectionId: number,
+  year: number,
+  periodType: ReportPeriodType,
+  periodLabel: string,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<string> {
+  const result = await pool.query(
+    `INSERT INTO report_jobs (section_id, year, period_type, period_label, period_start, period_end, status)
+     VALUES ($1, $2, $3, $4, $5, $6, 'pending')
+     RETURNING job_id`,
+    [sectionId, year, periodType, periodLabel, periodStart, periodEnd],
+  )
+  return result.rows[0].job_id
+}
+
+export interface SectionReportJob {
+  job_id: string
+  section_id: number
+  section_name: string
+  section_slug: string
+  period_type: ReportPeriodType
+  period_label: string
+  status: ReportJob['status']
+  error: string | null
+  created_at: Date
+  completed_at: Date | null
+}
+
+/** List section report jobs, newest first (without PDF data) */
+export async function getSectionReportJobs(limit = 50): Promise<SectionReportJob[]> {
+  const result = await pool.query<SectionReportJob>(
+    `SELECT rj.job_id, rj.section_id, s.name AS section_name, s.slug AS section_slug,
+            rj.period_type, rj.period_label, rj.status, rj.error, rj.created_at, rj.completed_at
+     FROM report_jobs rj
+     JOIN sections s ON rj.section_id = s.id
+     ORDER BY rj.created_at DESC
+     LIMIT $1`,
+    [limit],
+  )
+  return result.rows
+}
+
 export async function getReportJobStatus(
   jobId: string,
 ): Promise<{ status: string; error: string | null; created_at: Date; completed_at: Date | null } | null> {
@@ -43,9 +88,10 @@ export async function getReportJobWithPdf(
   jobId: string,
 ): Promise<{ status: string; pdf_data: Buffer | null; app_name: string; year: number } | null> {
   const result = await pool.query(
-    `SELECT rj.pdf_data, rj.status, ma.app_name, rj.year
+    `SELECT rj.pdf_data, rj.status, COALESCE(ma.app_name, 'seksjon-' || s.slug) AS app_name, rj.year
      FROM report_jobs rj
-     JOIN monitored_applications ma ON rj.monitored_app_id = ma.id
+     LEFT JOIN monitored_applications ma ON rj.monitored_app_id = ma.id
+     LEFT JOIN sections s ON rj.section_id = s.id
      WHERE rj.job_id = $1`,
     [jobId],
   )
@@ -6,6 +6,7 @@ export interface Section {
   name: string
   entra_group_admin: string | null
   entra_group_user: string | null
+  section_lead_nav_ident: string | null
   is_active: boolean
   created_at: Date
 }
@@ -90,6 +91,34 @@ export async function getTeamSlugsForSections(sectionIds: number[]): Promise<str
   return result.rows.map((r) => r.team_slug)
 }
 
+/**
+ * Get the IDs of the active sections a Nais team belongs to.
+ */
+export async function getSectionIdsForTeam(teamSlug: string): Promise<number[]> {
+  const result = await pool.query(
+    `SELECT st.section_id
+     FROM section_teams st
+     JOIN sections s ON s.id = st.section_id
+     WHERE st.team_slug = $1 AND s.is_active = true`,
+    [teamSlug],
+  )
+  return result.rows.map((r) => r.section_id)
+}
+
+/**
+ * Get the IDs of the active sections of every Nais team that belongs to a section.
+ */
+export async function getSectionIdsByTeam(): Promise<Map<string, number[]>> {
+  const result = await pool.query(
+    `SELECT st.team_slug, array_agg(st.section_id) as section_ids
+     FROM section_teams st
+     JOIN sections s ON s.id = st.section_id
+     WHERE s.is_active = true
+     GROUP BY st.team_slug`,
+  )
+  return new Map(result.rows.map((r) => [r.team_slug, r.section_ids]))
+}
+
 export async function createSection(
   slug: string,
   name: string,
@@ -105,7 +134,13 @@ export async function createSection(
 
 export async function updateSection(
   id: number,
-  data: { name?: string; entra_group_admin?: string | null; entra_group_user?: string | null; is_active?: boolean },
+  data: {
+    name?: string
+    entra_group_admin?: string | null
+    entra_group_user?: string | null
+    section_lead_nav_ident?: string | null
+    is_active?: boolean
+  },
 ): Promise<Section | null> {
   const sets: string[] = []
   const values: unknown[] = []
@@ -123,6 +158,10 @@ export async function updateSection(
     sets.push(`entra_group_user = $${idx++}`)
     values.push(data.entra_group_user)
   }
+  if (data.section_lead_nav_ident !== undefined) {
+    sets.push(`section_lead_nav_ident = $${idx++}`)
+    values.push(data.section_lead_nav_ident)
+  }
   if (data.is_active !== undefined) {
     sets.push(`is_active = $${idx++}`)
     values.push(data.is_active)
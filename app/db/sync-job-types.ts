@@ -4,6 +4,9 @@ export const SYNC_JOB_TYPES = [
   'fetch_verification_data',
   'reverify_app',
   'cache_check_logs',
+  'audit_report_generation',
+  'branch_protection_sync',
+  'event_outbox_delivery',
 ] as const
 export type SyncJobType = (typeof SYNC_JOB_TYPES)[number]
 
@@ -13,6 +16,9 @@ export const SYNC_JOB_TYPE_LABELS: Record<SyncJobType, string> = {
   fetch_verification_data: 'Hent verifiseringsdata',
   reverify_app: 'Reverifisering',
   cache_check_logs: 'Cache sjekk-logger',
+  audit_report_generation: 'Automatisk leveranserapport',
+  branch_protection_sync: 'Branch protection',
+  event_outbox_delivery: 'Hendelsesstrøm',
 }
 
 export const SYNC_JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled'] as const
@@ -52,20 +52,22 @@ export async function releaseExpiredLocks(): Promise<number> {
 /**
  * Try to acquire a lock for a sync job
  * Returns job ID if successful, null if lock is already held
+ * appId is null for global jobs that are not tied to one app
  */
 export async function acquireSyncLock(
   jobType: SyncJobType,
-  appId: number,
+  appId: number | null,
   timeoutMinutes: number = 10,
   options?: Record<string, unknown>,
+  cooldownMs: number = SYNC_INTERVAL_MS,
 ): Promise<number | null> {
-  // Skip if a job for this app+type was started within the last sync interval
+  // Skip if a job for this app+type was started within the cooldown (by default the last sync interval)
   const cooldown = await pool.query(
     `SELECT 1 FROM sync_jobs
-     WHERE job_type = $1 AND monitored_app_id = $2
+     WHERE job_type = $1 AND monitored_app_id IS NOT DISTINCT FROM $2
        AND started_at > NOW() - INTERVAL '1 millisecond' * $3
      LIMIT 1`,
-    [jobType, appId, SYNC_INTERVAL_MS],
+    [jobType, appId, cooldownMs],
   )
   if (cooldown.rowCount && cooldown.rowCount > 0) {
     return null
@@ -85,12 +87,12 @@ export async function acquireSyncLock(
        RETURNING id`,
       [jobType, appId, POD_ID, timeoutMinutes, JSON.stringify({ ...options, version: APP_VERSION })],
     )
-    logger.info(`🔒 Acquired ${jobType} lock for app ${appId} (job ${result.rows[0].id})`)
+    logger.info(`🔒 Acquired ${jobType} lock for app ${appId ?? 'global'} (job ${result.rows[0].id})`)
     return result.rows[0].id
   } catch (e: unknown) {
     // Unique constraint violation = lock already held
     if (e instanceof Error && 'code' in e && e.code === '23505') {
-      logger.info(`⏳ ${jobType} lock for app ${appId} already held by another process`)
+      logger.info(`⏳ ${jobType} lock for app ${appId ?? 'global'} already held by another process`)
       return null
     }
     throw e
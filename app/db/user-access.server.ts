@@ -0,0 +1,24 @@
+import { pool } from './connection.server'
+
+/**
+ * Remember the Entra ID groups a user logged in with
+ */
+export async function saveUserAccessSnapshot(navIdent: string, entraGroups: string[]): Promise<void> {
+  await pool.query(
+    `INSERT INTO user_access_snapshots (nav_ident, entra_groups, updated_at)
+     VALUES (UPPER($1), $2, NOW())
+     ON CONFLICT (nav_ident) DO UPDATE SET entra_groups = EXCLUDED.entra_groups, updated_at = NOW()`,
+    [navIdent, entraGroups],
+  )
+}
+
+/**
+ * Entra ID groups from the user's last login, or null if the user has never logged in
+ */
+export async function getUserAccessSnapshot(navIdent: string): Promise<string[] | null> {
+  const result = await pool.query<{ entra_groups: string[] }>(
+    'SELECT entra_groups FROM user_access_snapshots WHERE nav_ident = UPPER($1)',
+    [navIdent],
+  )
+  return result.rows[0]?.entra_groups ?? null
+}
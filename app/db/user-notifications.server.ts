@@ -0,0 +1,293 @@
+import type { NotificationDelivery, PersonalNotificationType } from '~/lib/personal-notifications'
+import type { PersonalNotification } from '~/lib/slack/blocks'
+import { pool } from './connection.server'
+
+export interface UserNotificationPreferences {
+  github_username: string
+  notify_own_unverified: boolean
+  notify_review_requested: boolean
+  delivery: NotificationDelivery
+  digest_time: string
+  last_delivered_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+export interface UserNotificationSubscription {
+  id: number
+  github_username: string
+  monitored_app_id: number
+  statuses: string[]
+  deviation_events: boolean
+  created_at: Date
+  team_slug: string
+  environment_name: string
+  app_name: string
+}
+
+export interface NotificationRecipient {
+  github_username: string
+  nav_ident: string | null
+}
+
+export interface StatusNotificationRecipient extends NotificationRecipient {
+  notify_own_unverified: boolean
+  statuses: string[] | null
+}
+
+export interface NotificationDeploymentContext {
+  id: number
+  monitored_app_id: number
+  deployer_username: string | null
+  commit_sha: string | null
+  title: string | null
+  github_pr_number: number | null
+  github_pr_url: string | null
+  team_slug: string
+  environment_name: string
+  app_name: string
+}
+
+export interface PendingNotificationUser extends UserNotificationPreferences {
+  slack_member_id: string
+}
+
+export interface QueuedNotification {
+  id: number
+  event_type: PersonalNotificationType
+  payload: PersonalNotification
+}
+
+/**
+ * Get a user's notification preferences. Null means the user has not opted in.
+ */
+export async function getNotificationPreferences(githubUsername: string): Promise<UserNotificationPreferences | null> {
+  const result = await pool.query('SELECT * FROM user_notification_preferences WHERE github_username = $1', [
+    githubUsername,
+  ])
+  return result.rows[0] || null
+}
+
+export async function upsertNotificationPreferences(
+  githubUsername: string,
+  data: {
+    notifyOwnUnverified: boolean
+    notifyReviewRequested: boolean
+    delivery: NotificationDelivery
+    digestTime: string
+  },
+): Promise<UserNotificationPreferences> {
+  const result = await pool.query(
+    `INSERT INTO user_notification_preferences
+       (github_username, notify_own_unverified, notify_review_requested, delivery, digest_time)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (github_username) DO UPDATE SET
+       notify_own_unverified = EXCLUDED.notify_own_unverified,
+       notify_review_requested = EXCLUDED.notify_review_requested,
+       delivery = EXCLUDED.delivery,
+       digest_time = EXCLUDED.digest_time,
+       updated_at = NOW()
+     RETURNING *`,
+    [githubUsername, data.notifyOwnUnverified, data.notifyReviewRequested, data.delivery, data.digestTime],
+  )
+  return result.rows[0]
+}
+
+/**
+ * Stop all personal notifications for a user, including pending ones
+ */
+export async function deleteNotificationPreferences(githubUsername: string): Promise<void> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    await client.query('DELETE FROM user_notification_subscriptions WHERE github_username = $1', [githubUsername])
+    await client.query('DELETE FROM user_notification_queue WHERE github_username = $1 AND sent_at IS NULL', [
+      githubUsername,
+    ])
+    await client.query('DELETE FROM user_notification_preferences WHERE github_username = $1', [githubUsername])
+    await client.query('COMMIT')
+  } catch (e) {
+    await client.query('ROLLBACK')
+    throw e
+  } finally {
+    client.release()
+  }
+}
+
+export async function getNotificationSubscriptions(githubUsername: string): Promise<UserNotificationSubscription[]> {
+  const result = await pool.query(
+    `SELECT s.*, ma.team_slug, ma.environment_name, ma.app_name
+     FROM user_notification_subscriptions s
+     JOIN monitored_applications ma ON ma.id = s.monitored_app_id
+     WHERE s.github_username = $1
+     ORDER BY ma.team_slug, ma.app_name, ma.environment_name`,
+    [githubUsername],
+  )
+  return result.rows
+}
+
+/**
+ * Follow an app, or change what is followed if the user already follows it
+ */
+export async function upsertNotificationSubscription(
+  githubUsername: string,
+  monitoredAppId: number,
+  data: { statuses: string[]; deviationEvents: boolean },
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO user_notification_subscriptions (github_username, monitored_app_id, statuses, deviation_events)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (github_username, monitored_app_id) DO UPDATE SET
+       statuses = EXCLUDED.statuses,
+       deviation_events = EXCLUDED.deviation_events`,
+    [githubUsername, monitoredAppId, data.statuses, data.deviationEvents],
+  )
+}
+
+export async function deleteNotificationSubscription(githubUsername: string, id: number): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM user_notification_subscriptions WHERE id = $1 AND github_username = $2',
+    [id, githubUsername],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Get a deployment with the app fields needed to describe it in a notification
+ */
+export async function getNotificationDeploymentContext(
+  deploymentId: number,
+): Promise<NotificationDeploymentContext | null> {
+  const result = await pool.query(
+    `SELECT d.id, d.monitored_app_id, d.deployer_username, d.commit_sha, d.title,
+            d.github_pr_number, d.github_pr_url, ma.team_slug, ma.environment_name, ma.app_name
+     FROM deployments d
+     JOIN monitored_applications ma ON ma.id = d.monitored_app_id
+     WHERE d.id = $1`,
+    [deploymentId],
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Users who may be notified about a status change on an app: everyone following the app,
+ * plus the deployer. Only users with a Slack member ID can receive DMs.
+ */
+export async function getStatusNotificationRecipients(
+  monitoredAppId: number,
+  deployerUsername: string | null,
+): Promise<StatusNotificationRecipient[]> {
+  const result = await pool.query(
+    `SELECT p.github_username, um.nav_ident, p.notify_own_unverified, s.statuses
+     FROM user_notification_preferences p
+     JOIN user_mappings um ON um.github_username = p.github_username
+     LEFT JOIN user_notification_subscriptions s
+       ON s.github_username = p.github_username AND s.monitored_app_id = $1
+     WHERE um.slack_member_id IS NOT NULL
+       AND (s.id IS NOT NULL OR LOWER(p.github_username) = LOWER($2))`,
+    [monitoredAppId, deployerUsername],
+  )
+  return result.rows
+}
+
+/**
+ * Users following deviation events on an app
+ */
+export async function getDeviationNotificationRecipients(monitoredAppId: number): Promise<NotificationRecipient[]> {
+  const result = await pool.query(
+    `SELECT s.github_username, um.nav_ident
+     FROM user_notification_subscriptions s
+     JOIN user_notification_preferences p ON p.github_username = s.github_username
+     JOIN user_mappings um ON um.github_username = s.github_username
+     WHERE s.monitored_app_id = $1 AND s.deviation_events AND um.slack_member_id IS NOT NULL`,
+    [monitoredAppId],
+  )
+  return result.rows
+}
+
+/**
+ * The stored GitHub username of a user who wants review request notifications, or null
+ */
+export async function getReviewRequestRecipient(githubUsername: string): Promise<string | null> {
+  const result = await pool.query(
+    `SELECT p.github_username
+     FROM user_notification_preferences p
+     JOIN user_mappings um ON um.github_username = p.github_username
+     WHERE LOWER(p.github_username) = LOWER($1) AND p.notify_review_requested AND um.slack_member_id IS NOT NULL`,
+    [githubUsername],
+  )
+  return result.rows[0]?.github_username ?? null
+}
+
+export async function queueNotification(
+  githubUsername: string,
+  eventType: PersonalNotificationType,
+  payload: PersonalNotification,
+): Promise<void> {
+  await pool.query('INSERT INTO user_notification_queue (github_username, event_type, payload) VALUES ($1, $2, $3)', [
+    githubUsername,
+    eventType,
+    JSON.stringify(payload),
+  ])
+}
+
+/**
+ * Users with undelivered notifications, with their delivery preferences
+ */
+export async function getUsersWithPendingNotifications(): Promise<PendingNotificationUser[]> {
+  const result = await pool.query(
+    `SELECT p.*, um.slack_member_id
+     FROM user_notification_preferences p
+     JOIN user_mappings um ON um.github_username = p.github_username
+     WHERE um.slack_member_id IS NOT NULL
+       AND EXISTS (
+         SELECT 1 FROM user_notification_queue q
+         WHERE q.github_username = p.github_username AND q.sent_at IS NULL
+       )`,
+  )
+  return result.rows
+}
+
+/**
+ * Atomically claim a user's undelivered notifications (prevents duplicate DMs across pods)
+ */
+export async function claimPendingNotifications(githubUsername: string): Promise<QueuedNotification[]> {
+  const result = await pool.query(
+    `UPDATE user_notification_queue SET sent_at = NOW()
+     WHERE github_username = $1 AND sent_at IS NULL
+     RETURNING id, event_type, payload, created_at`,
+    [githubUsername],
+  )
+  return result.rows
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .map(({ id, event_type, payload }) => ({ id, event_type, payload }))
+}
+
+/**
+ * Record that a user's notifications were delivered, which digest scheduling counts from
+ */
+export async function markNotificationsDelivered(githubUsername: string): Promise<void> {
+  await pool.query('UPDATE user_notification_preferences SET last_delivered_at = NOW() WHERE github_username = $1', [
+    githubUsername,
+  ])
+}
+
+/**
+ * Put claimed notifications back in the queue after a failed delivery
+ */
+export async function releaseNotifications(ids: number[]): Promise<void> {
+  if (ids.length === 0) return
+  await pool.query('UPDATE user_notification_queue SET sent_at = NULL WHERE id = ANY($1)', [ids])
+}
+
+/**
+ * Remove delivered notifications older than the given number of days
+ */
+export async function deleteDeliveredNotifications(olderThanDays: number): Promise<number> {
+  const result = await pool.query(
+    `DELETE FROM user_notification_queue
+     WHERE sent_at IS NOT NULL AND sent_at < NOW() - make_interval(days => $1)`,
+    [olderThanDays],
+  )
+  return result.rowCount ?? 0
+}
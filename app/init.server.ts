@@ -3,7 +3,11 @@
  * This is imported from root.tsx and runs once when the server starts
  */
 
+import { startAuditReportScheduler } from './lib/audit-report-scheduler.server'
+import { startDeviationEscalationScheduler } from './lib/deviation-escalation.server'
+import { startEventOutboxScheduler } from './lib/event-outbox.server'
 import { logger } from './lib/logger.server'
+import { startPersonalNotificationScheduler } from './lib/personal-notifications.server'
 import { startReminderScheduler } from './lib/reminder-scheduler.server'
 import { registerShutdownHandlers } from './lib/shutdown.server'
 import { isSlackConfigured, startSlackConnection } from './lib/slack'
@@ -24,6 +28,8 @@ export function initializeServer(): void {
   if (enablePeriodicSync) {
     logger.info('🚀 Initializing server-side services...')
     startPeriodicSync()
+    startAuditReportScheduler()
+    startEventOutboxScheduler()
   } else {
     logger.info('⏸️ Periodic sync disabled (set ENABLE_PERIODIC_SYNC=true to enable)')
   }
@@ -34,8 +40,10 @@ export function initializeServer(): void {
     startSlackConnection().catch((err) => {
       logger.error('Failed to start Slack connection:', err)
     })
-    // Start reminder scheduler alongside Slack
+    // Start reminder, deviation escalation and personal notification schedulers alongside Slack
     startReminderScheduler()
+    startDeviationEscalationScheduler()
+    startPersonalNotificationScheduler()
   } else {
     logger.info('💬 Slack not configured (set SLACK_BOT_TOKEN and SLACK_APP_TOKEN to enable)')
   }
@@ -0,0 +1,132 @@
+/**
+ * Recorded GitHub webhook payloads, trimmed to the fields the webhook intake reads
+ * plus enough surrounding context to recognize the event.
+ */
+
+const repository = {
+  id: 123456789,
+  name: 'pensjon-pen',
+  full_name: 'navikt/pensjon-pen',
+  private: false,
+  owner: { login: 'navikt', id: 11848947, type: 'Organization' },
+  html_url: 'https://github.com/navikt/pensjon-pen',
+  default_branch: 'main',
+}
+
+const sender = { login: 'developer-a', id: 1001, type: 'User' }
+
+const pullRequest = {
+  url: 'https://api.github.com/repos/navikt/pensjon-pen/pulls/4711',
+  html_url: 'https://github.com/navikt/pensjon-pen/pull/4711',
+  number: 4711,
+  state: 'closed',
+  title: 'feat: legg til ny pensjonsberegning for AFP',
+  user: { login: 'developer-a', id: 1001, type: 'User' },
+  merged: true,
+  merged_at: '2026-02-27T14:00:00Z',
+  merge_commit_sha: 'c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00',
+  head: { ref: 'feature/afp', sha: 'head0000head0000head0000head0000head0000' },
+  base: { ref: 'main', sha: 'base0000base0000base0000base0000base0000' },
+}
+
+export const githubWebhookFixtures = {
+  pullRequestClosed: {
+    event: 'pull_request' as const,
+    payload: {
+      action: 'closed',
+      number: 4711,
+      pull_request: pullRequest,
+      repository,
+      sender,
+    },
+  },
+
+  pullRequestReviewRequested: {
+    event: 'pull_request' as const,
+    payload: {
+      action: 'review_requested',
+      number: 4711,
+      pull_request: { ...pullRequest, state: 'open', merged: false, merged_at: null, merge_commit_sha: null },
+      requested_reviewer: { login: 'reviewer-b', id: 1002, type: 'User' },
+      repository,
+      sender,
+    },
+  },
+
+  pullRequestReviewSubmitted: {
+    event: 'pull_request_review' as const,
+    payload: {
+      action: 'submitted',
+      review: {
+        id: 987654,
+        user: { login: 'reviewer-b', id: 1002, type: 'User' },
+        state: 'approved',
+        submitted_at: '2026-02-27T13:00:00Z',
+        commit_id: 'head0000head0000head0000head0000head0000',
+      },
+      pull_request: { ...pullRequest, state: 'open', merged: false, merged_at: null, merge_commit_sha: null },
+      repository,
+      sender: { login: 'reviewer-b', id: 1002, type: 'User' },
+    },
+  },
+
+  checkRunCompleted: {
+    event: 'check_run' as const,
+    payload: {
+      action: 'completed',
+      check_run: {
+        id: 555001,
+        name: 'build',
+        head_sha: 'head0000head0000head0000head0000head0000',
+        status: 'completed',
+        conclusion: 'success',
+        started_at: '2026-02-27T12:01:00Z',
+        completed_at: '2026-02-27T12:09:00Z',
+        pull_requests: [
+          {
+            number: 4711,
+            head: { ref: 'feature/afp', sha: 'head0000head0000head0000head0000head0000' },
+            base: { ref: 'main', sha: 'base0000base0000base0000base0000base0000' },
+          },
+        ],
+      },
+      repository,
+      sender: { login: 'github-actions[bot]', id: 41898282, type: 'Bot' },
+    },
+  },
+
+  pushToMain: {
+    event: 'push' as const,
+    payload: {
+      ref: 'refs/heads/main',
+      before: 'base0000base0000base0000base0000base0000',
+      after: 'c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00',
+      created: false,
+      deleted: false,
+      forced: false,
+      commits: [
+        { id: 'aaaa1111aaaa1111aaaa1111aaaa1111aaaa1111', message: 'fix: rett avrunding' },
+        { id: 'c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00', message: 'Merge pull request #4711' },
+      ],
+      head_commit: { id: 'c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00', message: 'Merge pull request #4711' },
+      repository,
+      sender,
+    },
+  },
+
+  branchDeleted: {
+    event: 'push' as const,
+    payload: {
+      ref: 'refs/heads/feature/afp',
+      before: 'head0000head0000head0000head0000head0000',
+      after: '0000000000000000000000000000000000000000',
+      created: false,
+      deleted: true,
+      forced: false,
+      commits: [],
+      head_commit: null,
+      repository,
+      sender,
+    },
+  },
+}
@@ -1,8 +1,12 @@
 import type {
+  AuditReportBlockedNotification,
   DeploymentNotification,
+  DeviationEscalationNotification,
   DeviationNotification,
   HomeTabInput,
   NewDeploymentNotification,
+  PersonalNotification,
+  PersonalNotificationDigest,
   ReminderNotification,
 } from '~/lib/slack'
 
@@ -54,6 +58,13 @@ export const deploymentFixtures = {
     commitMessage: 'fix: korriger beregning av uføretrygd',
   },
 
+  approvedViaSlack: {
+    ...base,
+    status: 'approved' as const,
+    commitMessage: 'hotfix: fiks kritisk feil i pensjonsberegning',
+    approvedBy: 'U01ABCDEF',
+  },
+
   rejected: {
     ...base,
     status: 'rejected' as const,
@@ -126,11 +137,46 @@ const issueDeploymentsMap = new Map([
   ],
 ])
 
+const myIssueDeployments = [
+  {
+    id: 150,
+    commit_sha: 'fed4321',
+    deployer_username: 'ola-nordmann',
+    four_eyes_status: 'direct_push',
+    github_pr_number: null,
+    github_pr_data: null,
+    title: 'fix: rett opp feil i vedtaksbrev',
+    created_at: new Date('2026-02-13T11:00:00Z'),
+    app_name: 'pensjon-pen',
+    team_slug: 'pensjondeployer',
+    environment_name: 'prod-gcp',
+  },
+]
+
+const reviewIssueDeployments = [
+  {
+    id: 160,
+    commit_sha: 'c0ffee1',
+    deployer_username: 'kari-nordmann',
+    four_eyes_status: 'unverified_commits',
+    github_pr_number: 130,
+    github_pr_data: { title: 'feat: nytt felt i søknadsskjema', creator: { username: 'kari-nordmann' } },
+    title: 'feat: nytt felt i søknadsskjema',
+    created_at: new Date('2026-02-13T08:30:00Z'),
+    app_name: 'pensjon-selvbetjening',
+    team_slug: 'pensjondeployer',
+    environment_name: 'prod-gcp',
+  },
+]
+
 export const homeTabFixtures = {
   withIssues: {
     slackUserId: 'U12345678',
     githubUsername: 'ola-nordmann',
     baseUrl: BASE_URL,
+    devTeams: [{ slug: 'starte-pensjon', name: 'Starte pensjon' }],
+    myDeployments: myIssueDeployments,
+    reviewDeployments: reviewIssueDeployments,
     stats: {
       totalApps: 12,
       totalDeployments: 847,
@@ -162,6 +208,9 @@ export const homeTabFixtures = {
     slackUserId: 'U12345678',
     githubUsername: 'kari-nordmann',
     baseUrl: BASE_URL,
+    devTeams: [{ slug: 'starte-pensjon', name: 'Starte pensjon' }],
+    myDeployments: [],
+    reviewDeployments: [],
     stats: {
       totalApps: 12,
       totalDeployments: 847,
@@ -176,6 +225,9 @@ export const homeTabFixtures = {
     slackUserId: 'U99999999',
     githubUsername: null,
     baseUrl: BASE_URL,
+    devTeams: [],
+    myDeployments: [],
+    reviewDeployments: [],
     stats: {
       totalApps: 5,
       totalDeployments: 123,
@@ -232,8 +284,33 @@ export const deviationFixtures = {
     intent: 'accidental',
     severity: 'high',
     followUpRole: 'delivery_lead',
+    assignedTo: 'D123456',
+    dueAt: '2026-03-02T10:00:00Z',
     registeredByName: 'Kari Nordmann',
     detailsUrl: `${BASE_URL}/team/pensjondeployer/env/prod-gcp/app/pensjon-pen/deployments/42`,
+    deviationId: 7,
+    status: 'open',
+  },
+
+  closed: {
+    deploymentId: 42,
+    appName: 'pensjon-pen',
+    environmentName: 'prod-gcp',
+    teamSlug: 'pensjondeployer',
+    commitSha: 'abc1234def5678',
+    reason:
+      'Deployment inneholder endringer som ikke var godkjent gjennom standard PR-prosess. Hastefix for kritisk feil i produksjon.',
+    breachType: 'Brudd på rutine for endringshåndtering',
+    intent: 'accidental',
+    severity: 'medium',
+    followUpRole: 'delivery_lead',
+    assignedTo: 'D123456',
+    registeredByName: 'Kari Nordmann',
+    detailsUrl: `${BASE_URL}/team/pensjondeployer/env/prod-gcp/app/pensjon-pen/deployments/42`,
+    deviationId: 7,
+    status: 'closed',
+    resolvedByName: 'Dina Leder',
+    resolutionNote: 'Endringen er gjennomgått i etterkant av to utviklere. Rutinen for hastefix er oppdatert.',
   },
 
   shortReason: {
@@ -264,6 +341,34 @@ export const deviationFixtures = {
   },
 } satisfies Record<string, DeviationNotification>
 
+export const deviationEscalationFixtures = {
+  overdue: {
+    deviationId: 7,
+    deploymentId: 42,
+    appName: 'pensjon-pen',
+    environmentName: 'prod-gcp',
+    teamSlug: 'pensjondeployer',
+    reason: deviationFixtures.standard.reason,
+    severity: 'high',
+    status: 'under_investigation',
+    assignedTo: 'D123456',
+    dueAt: '2026-03-02T10:00:00Z',
+    detailsUrl: deviationFixtures.standard.detailsUrl,
+  },
+
+  unassigned: {
+    deviationId: 8,
+    deploymentId: 99,
+    appName: 'pensjon-selvbetjening',
+    environmentName: 'prod-gcp',
+    teamSlug: 'pensjondeployer',
+    reason: deviationFixtures.shortReason.reason,
+    status: 'open',
+    dueAt: '2026-03-13T10:00:00Z',
+    detailsUrl: deviationFixtures.shortReason.detailsUrl,
+  },
+} satisfies Record<string, DeviationEscalationNotification>
+
 // =============================================================================
 // Reminder Notification Fixtures
 // =============================================================================
@@ -403,3 +508,80 @@ export const newDeploymentFixtures = {
     commitsCount: 1,
   },
 } satisfies Record<string, NewDeploymentNotification>
+
+// =============================================================================
+// Audit Report Blocked Fixtures
+// =============================================================================
+
+export const auditReportBlockedFixtures = {
+  fewPending: {
+    appName: 'pensjon-pen',
+    environmentName: 'prod-gcp',
+    teamSlug: 'pensjondeployer',
+    periodLabel: 'Q1 2026',
+    pendingCount: 2,
+    deployments: reminderFixtures.fewDeployments.deployments.slice(0, 2),
+    adminUrl: `${appUrl}/admin`,
+  },
+
+  manyPending: {
+    appName: 'pensjon-pen',
+    environmentName: 'prod-gcp',
+    teamSlug: 'pensjondeployer',
+    periodLabel: '2025',
+    pendingCount: 23,
+    deployments: reminderFixtures.manyDeployments.deployments.slice(0, 10),
+    adminUrl: `${appUrl}/admin`,
+  },
+} satisfies Record<string, AuditReportBlockedNotification>
+
+// =============================================================================
+// Personal Notification Fixtures
+// =============================================================================
+
+const ownUnverified: PersonalNotification = {
+  type: 'own_deployment_unverified',
+  title: 'feat: legg til ny pensjonsberegning for AFP',
+  appName: 'pensjon-pen',
+  environmentName: 'prod-gcp',
+  statusLabel: 'Uverifiserte commits',
+  url: `${appUrl}/deployments/9700`,
+  createdAt: '2026-02-13T10:30:00Z',
+}
+
+const reviewRequested: PersonalNotification = {
+  type: 'review_requested',
+  title: '#4711 fix: rett beregning av gjenlevendetillegg',
+  appName: 'navikt/pensjon-pen',
+  url: 'https://github.com/navikt/pensjon-pen/pull/4711',
+  createdAt: '2026-02-13T11:00:00Z',
+}
+
+const deviationRegistered: PersonalNotification = {
+  type: 'deviation_registered',
+  title: 'Deployment gikk ut uten godkjent PR under hendelse',
+  appName: 'pensjon-pen',
+  environmentName: 'prod-gcp',
+  statusLabel: 'Åpen',
+  url: `${appUrl}/deployments/9701`,
+  createdAt: '2026-02-13T12:15:00Z',
+}
+
+const settingsUrl = `${BASE_URL}/users/developer-a/notifications`
+
+export const personalNotificationFixtures = {
+  single: {
+    notifications: [ownUnverified],
+    settingsUrl,
+  },
+
+  digest: {
+    notifications: [
+      ownUnverified,
+      reviewRequested,
+      deviationRegistered,
+      { ...ownUnverified, type: 'app_status', appName: 'pensjon-opptjening', url: `${appUrl}/deployments/9702` },
+    ],
+    settingsUrl,
+  },
+} satisfies Record<string, PersonalNotificationDigest>
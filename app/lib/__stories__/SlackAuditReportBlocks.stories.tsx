@@ -0,0 +1,26 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { SlackBlockPreview } from '~/components/__stories__/SlackBlockPreview'
+import { auditReportBlockedFixtures } from '~/lib/__fixtures__/slack-fixtures'
+import { buildAuditReportBlockedBlocks } from '~/lib/slack'
+
+const meta: Meta<typeof SlackBlockPreview> = {
+  title: 'Slack/Audit Report Blocked',
+  component: SlackBlockPreview,
+}
+
+export default meta
+type Story = StoryObj<typeof SlackBlockPreview>
+
+export const FewPending: Story = {
+  name: '📄 Få deployments mangler godkjenning',
+  args: {
+    blocks: buildAuditReportBlockedBlocks(auditReportBlockedFixtures.fewPending),
+  },
+}
+
+export const ManyPending: Story = {
+  name: '📄 Mange deployments mangler godkjenning',
+  args: {
+    blocks: buildAuditReportBlockedBlocks(auditReportBlockedFixtures.manyPending),
+  },
+}
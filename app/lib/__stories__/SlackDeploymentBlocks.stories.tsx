@@ -39,6 +39,13 @@ export const Approved: Story = {
   },
 }
 
+export const ApprovedViaSlack: Story = {
+  name: '✅ Godkjent fra Slack',
+  args: {
+    blocks: buildDeploymentBlocks(deploymentFixtures.approvedViaSlack),
+  },
+}
+
 export const Rejected: Story = {
   name: '❌ Avvist',
   args: {
@@ -1,7 +1,7 @@
 import type { Meta, StoryObj } from '@storybook/react'
 import { SlackBlockPreview } from '~/components/__stories__/SlackBlockPreview'
-import { deviationFixtures } from '~/lib/__fixtures__/slack-fixtures'
-import { buildDeviationBlocks } from '~/lib/slack'
+import { deviationEscalationFixtures, deviationFixtures } from '~/lib/__fixtures__/slack-fixtures'
+import { buildDeviationBlocks, buildDeviationEscalationBlocks } from '~/lib/slack'
 
 const meta: Meta<typeof SlackBlockPreview> = {
   title: 'Slack/Deviation Notification',
@@ -31,3 +31,24 @@ export const Critical: Story = {
     blocks: buildDeviationBlocks(deviationFixtures.critical),
   },
 }
+
+export const Closed: Story = {
+  name: '✅ Avvik lukket',
+  args: {
+    blocks: buildDeviationBlocks(deviationFixtures.closed),
+  },
+}
+
+export const Escalation: Story = {
+  name: '⏰ Frist passert',
+  args: {
+    blocks: buildDeviationEscalationBlocks(deviationEscalationFixtures.overdue),
+  },
+}
+
+export const EscalationUnassigned: Story = {
+  name: '⏰ Frist passert (ikke tildelt)',
+  args: {
+    blocks: buildDeviationEscalationBlocks(deviationEscalationFixtures.unassigned),
+  },
+}
@@ -0,0 +1,26 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { SlackBlockPreview } from '~/components/__stories__/SlackBlockPreview'
+import { personalNotificationFixtures } from '~/lib/__fixtures__/slack-fixtures'
+import { buildPersonalNotificationBlocks } from '~/lib/slack'
+
+const meta: Meta<typeof SlackBlockPreview> = {
+  title: 'Slack/Personal Notification',
+  component: SlackBlockPreview,
+}
+
+export default meta
+type Story = StoryObj<typeof SlackBlockPreview>
+
+export const Single: Story = {
+  name: '⚠️ Enkeltvarsel',
+  args: {
+    blocks: buildPersonalNotificationBlocks(personalNotificationFixtures.single),
+  },
+}
+
+export const Digest: Story = {
+  name: '🔔 Samlet oppsummering',
+  args: {
+    blocks: buildPersonalNotificationBlocks(personalNotificationFixtures.digest),
+  },
+}
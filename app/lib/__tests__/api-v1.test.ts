@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import type { DeploymentWithApp } from '~/db/deployments.server'
+import { API_V1_MAX_PER_PAGE, parseDeploymentQuery, toApiDeployment } from '../api-v1'
+
+function query(params: Record<string, string>) {
+  return parseDeploymentQuery(new URLSearchParams(params))
+}
+
+describe('parseDeploymentQuery', () => {
+  it('uses defaults when no parameters are given', () => {
+    expect(query({}).filters).toMatchObject({ page: 1, per_page: 50 })
+  })
+
+  it('maps query parameters to deployment filters', () => {
+    const { filters } = query({
+      page: '2',
+      per_page: '10',
+      status: 'unverified_commits',
+      only_missing_four_eyes: 'true',
+      deployer: 'developer-a',
+      sha: 'abc123',
+      from: '2026-01-01',
+      to: '2026-02-01',
+    })
+
+    expect(filters).toEqual({
+      page: 2,
+      per_page: 10,
+      four_eyes_status: 'unverified_commits',
+      only_missing_four_eyes: true,
+      deployer_username: 'developer-a',
+      commit_sha: 'abc123',
+      start_date: new Date('2026-01-01'),
+      end_date: new Date('2026-02-01'),
+    })
+  })
+
+  it('caps per_page', () => {
+    expect(query({ per_page: '10000' }).filters?.per_page).toBe(API_V1_MAX_PER_PAGE)
+  })
+
+  it.each([
+    [{ page: '0' }, 'page must be a positive integer'],
+    [{ per_page: 'many' }, 'per_page must be a positive integer'],
+    [{ status: 'nope' }, 'Unknown status: nope'],
+    [{ from: 'yesterday' }, 'from must be an ISO date'],
+  ])('rejects invalid parameters %o', (params, error) => {
+    expect(query(params).error).toBe(error)
+  })
+})
+
+describe('toApiDeployment', () => {
+  const deployment = {
+    id: 42,
+    monitored_app_id: 7,
+    team_slug: 'pensjondeployer',
+    environment_name: 'prod-gcp',
+    app_name: 'pensjon-pen',
+    created_at: new Date('2026-02-27T14:05:00Z'),
+    deployer_username: 'developer-a',
+    commit_sha: 'abc1234',
+    detected_github_owner: 'navikt',
+    detected_github_repo_name: 'pensjon-pen',
+    branch_name: 'main',
+    title: 'feat: ny beregning',
+    has_four_eyes: false,
+    four_eyes_status: 'unverified_commits',
+    github_pr_number: null,
+    github_pr_url: null,
+    unverified_commits: [
+      {
+        sha: 'def5678',
+        message: 'hotfix',
+        author: 'developer-a',
+        date: '2026-02-27T12:00:00Z',
+        html_url: 'https://github.com/navikt/pensjon-pen/commit/def5678',
+        pr_number: null,
+        reason: 'no_pr',
+      },
+    ],
+  } as DeploymentWithApp
+
+  it('maps a deployment row to the public shape', () => {
+    expect(toApiDeployment(deployment)).toEqual({
+      id: 42,
+      appId: 7,
+      team: 'pensjondeployer',
+      environment: 'prod-gcp',
+      app: 'pensjon-pen',
+      createdAt: '2026-02-27T14:05:00.000Z',
+      deployer: 'developer-a',
+      commitSha: 'abc1234',
+      repository: 'navikt/pensjon-pen',
+      branch: 'main',
+      title: 'feat: ny beregning',
+      hasFourEyes: false,
+      fourEyesStatus: 'unverified_commits',
+      pullRequest: null,
+      unverifiedCommits: [{ sha: 'def5678', message: 'hotfix', author: 'developer-a', reason: 'no_pr' }],
+    })
+  })
+
+  it('includes the pull request when present', () => {
+    expect(
+      toApiDeployment({ ...deployment, github_pr_number: 4711, github_pr_url: 'https://github.com/x/y/pull/4711' })
+        .pullRequest,
+    ).toEqual({ number: 4711, url: 'https://github.com/x/y/pull/4711' })
+  })
+})
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('~/db/audit-reports.server', () => ({
+  checkAuditReadiness: vi.fn(),
+  claimAuditReportBlockedNotice: vi.fn().mockResolvedValue(true),
+  getAuditReportForPeriod: vi.fn().mockResolvedValue(null),
+  releaseAuditReportBlockedNotice: vi.fn(),
+}))
+
+vi.mock('~/db/monitored-applications.server', () => ({
+  getAllMonitoredApplications: vi.fn().mockResolvedValue([
+    {
+      id: 1,
+      team_slug: 'pensjondeployer',
+      environment_name: 'prod-gcp',
+      app_name: 'pensjon-pen',
+      audit_start_year: null,
+      slack_channel_id: 'C123',
+    },
+    {
+      id: 2,
+      team_slug: 'pensjondeployer',
+      environment_name: 'dev-gcp',
+      app_name: 'pensjon-pen',
+      slack_channel_id: null,
+    },
+  ]),
+  getProductionApplicationIds: vi.fn().mockResolvedValue([1]),
+}))
+
+vi.mock('~/db/user-mappings.server', () => ({
+  getUserMapping: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('~/lib/audit-report-generation.server', () => ({
+  generateAuditReport: vi.fn().mockResolvedValue({ report: { report_id: 'AUDIT-x' }, reused: false }),
+}))
+
+vi.mock('~/lib/report-periods', () => ({
+  getRecentlyCompletedPeriods: vi.fn().mockReturnValue([
+    {
+      type: 'monthly',
+      label: 'September 2026',
+      year: 2026,
+      startDate: new Date(2026, 8, 1),
+      endDate: new Date(2026, 9, 0, 23, 59, 59, 999),
+    },
+  ]),
+}))
+
+vi.mock('~/lib/sync/with-sync-lock.server', () => ({
+  withSyncLock: vi.fn(async (_type, _appId, _options, fn) => ({ success: true, result: await fn() })),
+}))
+
+vi.mock('~/lib/slack', () => ({
+  isSlackConfigured: vi.fn().mockReturnValue(true),
+  sendAuditReportBlocked: vi.fn().mockResolvedValue('ts'),
+}))
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+const { checkAuditReadiness, claimAuditReportBlockedNotice, getAuditReportForPeriod, releaseAuditReportBlockedNotice } =
+  await import('~/db/audit-reports.server')
+const { generateAuditReport } = await import('~/lib/audit-report-generation.server')
+const { withSyncLock } = await import('~/lib/sync/with-sync-lock.server')
+const { sendAuditReportBlocked } = await import('~/lib/slack')
+const { getAllMonitoredApplications } = await import('~/db/monitored-applications.server')
+const { runScheduledAuditReports, startAuditReportScheduler, stopAuditReportScheduler } = await import(
+  '../audit-report-scheduler.server'
+)
+
+const readiness = (pending: number, total = 3) => ({
+  is_ready: pending === 0 && total > 0,
+  total_deployments: total,
+  approved_count: total - pending,
+  legacy_count: 0,
+  pending_count: pending,
+  pending_deployment_ids: Array.from({ length: pending }, (_, i) => 100 + i),
+  pending_deployments: Array.from({ length: pending }, (_, i) => ({
+    id: 100 + i,
+    created_at: new Date(2026, 8, 10),
+    commit_sha: 'abc1234def',
+    deployer_username: 'dev',
+    four_eyes_status: 'unverified',
+  })),
+})
+
+describe('runScheduledAuditReports', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('only processes production apps, each under a sync lock', async () => {
+    vi.mocked(checkAuditReadiness).mockResolvedValue(readiness(0))
+
+    await runScheduledAuditReports()
+
+    expect(withSyncLock).toHaveBeenCalledTimes(1)
+    expect(withSyncLock).toHaveBeenCalledWith('audit_report_generation', 1, expect.anything(), expect.any(Function))
+  })
+
+  it('generates the report when all deployments are approved', async () => {
+    vi.mocked(checkAuditReadiness).mockResolvedValue(readiness(0))
+
+    await runScheduledAuditReports()
+
+    expect(generateAuditReport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        appId: 1,
+        periodType: 'monthly',
+        periodLabel: 'September 2026',
+        generatedBy: 'system',
+      }),
+    )
+    expect(sendAuditReportBlocked).not.toHaveBeenCalled()
+  })
+
+  it('skips periods that already have a report', async () => {
+    vi.mocked(getAuditReportForPeriod).mockResolvedValueOnce({ id: 5, report_id: 'AUDIT-existing' })
+
+    await runScheduledAuditReports()
+
+    expect(checkAuditReadiness).not.toHaveBeenCalled()
+    expect(generateAuditReport).not.toHaveBeenCalled()
+  })
+
+  it('skips periods without deployments', async () => {
+    vi.mocked(checkAuditReadiness).mockResolvedValue(readiness(0, 0))
+
+    await runScheduledAuditReports()
+
+    expect(generateAuditReport).not.toHaveBeenCalled()
+    expect(sendAuditReportBlocked).not.toHaveBeenCalled()
+  })
+
+  it('posts a Slack summary of blocking deployments instead of generating', async () => {
+    vi.mocked(checkAuditReadiness).mockResolvedValue(readiness(2))
+
+    await runScheduledAuditReports()
+
+    expect(generateAuditReport).not.toHaveBeenCalled()
+    expect(claimAuditReportBlockedNotice).toHaveBeenCalledWith(1, 'monthly', new Date(2026, 8, 1), [100, 101], 7)
+    expect(sendAuditReportBlocked).toHaveBeenCalledWith(
+      expect.objectContaining({
+        appName: 'pensjon-pen',
+        periodLabel: 'September 2026',
+        pendingCount: 2,
+        deployments: [expect.objectContaining({ id: 100 }), expect.objectContaining({ id: 101 })],
+      }),
+      'C123',
+    )
+  })
+
+  it('does not repeat the Slack summary while the blocking deployments are unchanged', async () => {
+    vi.mocked(checkAuditReadiness).mockResolvedValue(readiness(2))
+    vi.mocked(claimAuditReportBlockedNotice).mockResolvedValueOnce(false)
+
+    await runScheduledAuditReports()
+
+    expect(sendAuditReportBlocked).not.toHaveBeenCalled()
+  })
+
+  it('releases the claim when the Slack summary could not be sent', async () => {
+    vi.mocked(checkAuditReadiness).mockResolvedValue(readiness(2))
+    vi.mocked(sendAuditReportBlocked).mockResolvedValueOnce(null)
+
+    await runScheduledAuditReports()
+
+    expect(releaseAuditReportBlockedNotice).toHaveBeenCalledWith(1, 'monthly', new Date(2026, 8, 1))
+  })
+
+  it('keeps the claim when the Slack summary was sent', async () => {
+    vi.mocked(checkAuditReadiness).mockResolvedValue(readiness(2))
+
+    await runScheduledAuditReports()
+
+    expect(releaseAuditReportBlockedNotice).not.toHaveBeenCalled()
+  })
+})
+
+describe('startAuditReportScheduler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    stopAuditReportScheduler()
+    vi.useRealTimers()
+  })
+
+  it('runs once shortly after startup instead of waiting a full interval', async () => {
+    vi.mocked(checkAuditReadiness).mockResolvedValue(readiness(0))
+
+    startAuditReportScheduler()
+    expect(getAllMonitoredApplications).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000)
+    expect(getAllMonitoredApplications).toHaveBeenCalledTimes(1)
+  })
+})
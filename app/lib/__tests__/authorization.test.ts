@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+
+vi.mock('~/db/sections.server', () => ({
+  getSectionIdsForTeam: vi.fn(),
+  getSectionIdsByTeam: vi.fn(),
+}))
+
+import { getSectionIdsByTeam, getSectionIdsForTeam } from '~/db/sections.server'
+import type { UserIdentity } from '~/lib/auth.server'
+import { getReadableTeamFilter, hasSectionAccess, requireTeamAccess } from '~/lib/authorization.server'
+
+const mockGetSectionIdsForTeam = getSectionIdsForTeam as Mock
+const mockGetSectionIdsByTeam = getSectionIdsByTeam as Mock
+
+const PENSJON = 1
+const UFORE = 2
+
+function user(overrides: Partial<UserIdentity> = {}): UserIdentity {
+  return {
+    navIdent: 'A123456',
+    role: 'user',
+    entraGroups: ['group'],
+    sections: [{ id: PENSJON, slug: 'pensjon', name: 'Pensjon', role: 'user' }],
+    ...overrides,
+  }
+}
+
+const sectionAdmin = user({ sections: [{ id: PENSJON, slug: 'pensjon', name: 'Pensjon', role: 'admin' }] })
+
+describe('hasSectionAccess', () => {
+  it('lets section members read, but not administer, their sections', () => {
+    expect(hasSectionAccess(user(), [PENSJON], 'read')).toBe(true)
+    expect(hasSectionAccess(user(), [PENSJON], 'admin')).toBe(false)
+  })
+
+  it('lets section admins administer their own sections only', () => {
+    expect(hasSectionAccess(sectionAdmin, [PENSJON], 'admin')).toBe(true)
+    expect(hasSectionAccess(sectionAdmin, [UFORE], 'read')).toBe(false)
+    expect(hasSectionAccess(sectionAdmin, [UFORE], 'admin')).toBe(false)
+  })
+
+  it('grants access when any of the sections matches', () => {
+    expect(hasSectionAccess(user(), [UFORE, PENSJON], 'read')).toBe(true)
+  })
+
+  it('lets all users read, but only global admins administer, apps outside sections', () => {
+    expect(hasSectionAccess(user({ sections: [] }), [], 'read')).toBe(true)
+    expect(hasSectionAccess(sectionAdmin, [], 'admin')).toBe(false)
+    expect(hasSectionAccess(user({ role: 'admin', sections: [] }), [], 'admin')).toBe(true)
+  })
+
+  it('lets global admins administer every section', () => {
+    expect(hasSectionAccess(user({ role: 'admin', sections: [] }), [UFORE], 'admin')).toBe(true)
+  })
+})
+
+describe('requireTeamAccess', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('throws 403 for a team in another section', async () => {
+    mockGetSectionIdsForTeam.mockResolvedValue([UFORE])
+
+    const error = await requireTeamAccess(user(), 'team-ufore').catch((e) => e)
+    expect(error).toBeInstanceOf(Response)
+    expect((error as Response).status).toBe(403)
+  })
+
+  it('allows a team in the user section', async () => {
+    mockGetSectionIdsForTeam.mockResolvedValue([PENSJON])
+
+    await expect(requireTeamAccess(user(), 'pensjondeployer')).resolves.toBeUndefined()
+    expect(mockGetSectionIdsForTeam).toHaveBeenCalledWith('pensjondeployer')
+  })
+})
+
+describe('getReadableTeamFilter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetSectionIdsByTeam.mockResolvedValue(
+      new Map([
+        ['pensjondeployer', [PENSJON]],
+        ['team-ufore', [UFORE]],
+      ]),
+    )
+  })
+
+  it('keeps teams in the user sections and teams outside any section', async () => {
+    const canRead = await getReadableTeamFilter(user())
+
+    expect(canRead('pensjondeployer')).toBe(true)
+    expect(canRead('team-ufore')).toBe(false)
+    expect(canRead('team-without-section')).toBe(true)
+  })
+
+  it('does not look up sections for global admins', async () => {
+    const canRead = await getReadableTeamFilter(user({ role: 'admin' }))
+
+    expect(canRead('team-ufore')).toBe(true)
+    expect(mockGetSectionIdsByTeam).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+
+vi.mock('~/db/branch-protection.server', () => ({
+  claimBranchProtectionCheck: vi.fn(),
+  getAppIdsForRepository: vi.fn(),
+  getDueBranchProtectionTargetsForApp: vi.fn(),
+  getLatestBranchProtectionSnapshot: vi.fn(),
+  markBranchProtectionSnapshotChecked: vi.fn(),
+  saveBranchProtectionSnapshot: vi.fn(),
+}))
+
+vi.mock('~/db/alerts.server', () => ({
+  createBranchProtectionAlert: vi.fn(),
+}))
+
+vi.mock('~/lib/github', () => ({
+  getBranchProtectionRules: vi.fn(),
+}))
+
+vi.mock('~/lib/sync/with-sync-lock.server', () => ({
+  withSyncLock: vi.fn(async (_type, _appId, _options, fn) => ({ success: true, result: await fn() })),
+}))
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+import {
+  claimBranchProtectionCheck,
+  getDueBranchProtectionTargetsForApp,
+  getLatestBranchProtectionSnapshot,
+  saveBranchProtectionSnapshot,
+} from '~/db/branch-protection.server'
+import { getBranchProtectionRules } from '~/lib/github'
+import { withSyncLock } from '~/lib/sync/with-sync-lock.server'
+import { UNPROTECTED_BRANCH } from '../branch-protection'
+import { snapshotBranchProtectionWithLock } from '../sync/branch-protection-job.server'
+
+/**
+ * Tests for the branch protection snapshot job: it runs every sync cycle for every app, so it must
+ * not take a lock unless a repository is due, and must check a shared repository only once.
+ */
+
+const mockGetDue = getDueBranchProtectionTargetsForApp as Mock
+const mockClaim = claimBranchProtectionCheck as Mock
+
+const target = { owner: 'navikt', repo: 'pensjon-pen', branch: 'main' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getLatestBranchProtectionSnapshot as Mock).mockResolvedValue(null)
+  ;(getBranchProtectionRules as Mock).mockResolvedValue(UNPROTECTED_BRANCH)
+})
+
+describe('snapshotBranchProtectionWithLock', () => {
+  it('does not take the lock when no repository is due', async () => {
+    mockGetDue.mockResolvedValue([])
+
+    const result = await snapshotBranchProtectionWithLock(1)
+
+    expect(result.success).toBe(true)
+    expect(withSyncLock).not.toHaveBeenCalled()
+  })
+
+  it('snapshots a due repository it could claim', async () => {
+    mockGetDue.mockResolvedValue([target])
+    mockClaim.mockResolvedValue(true)
+
+    const result = await snapshotBranchProtectionWithLock(1)
+
+    expect(result.result).toEqual({ checked: 1, changed: 1, alerts: 0 })
+    expect(saveBranchProtectionSnapshot).toHaveBeenCalledWith('navikt', 'pensjon-pen', 'main', UNPROTECTED_BRANCH)
+  })
+
+  it('skips a repository another app claimed first', async () => {
+    mockGetDue.mockResolvedValue([target])
+    mockClaim.mockResolvedValue(false)
+
+    const result = await snapshotBranchProtectionWithLock(2)
+
+    expect(result.result).toEqual({ checked: 0, changed: 0, alerts: 0 })
+    expect(getBranchProtectionRules).not.toHaveBeenCalled()
+    expect(saveBranchProtectionSnapshot).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type BranchProtectionRules,
+  branchProtectionRulesEqual,
+  describeBranchProtection,
+  findBranchProtectionWeakenings,
+  UNPROTECTED_BRANCH,
+} from '../branch-protection'
+
+function rules(overrides: Partial<BranchProtectionRules> = {}): BranchProtectionRules {
+  return {
+    protected: true,
+    requiredApprovingReviewCount: 2,
+    dismissStaleReviews: true,
+    requireCodeOwnerReviews: true,
+    requireLastPushApproval: true,
+    adminsCanBypass: false,
+    rulesets: [],
+    ...overrides,
+  }
+}
+
+describe('branchProtectionRulesEqual', () => {
+  it('ignores the order of rulesets', () => {
+    const a = { id: 1, name: 'main', enforcement: 'active', bypassActorCount: 0 }
+    const b = { id: 2, name: 'release', enforcement: 'evaluate', bypassActorCount: 1 }
+
+    expect(branchProtectionRulesEqual(rules({ rulesets: [a, b] }), rules({ rulesets: [b, a] }))).toBe(true)
+  })
+
+  it('detects changed rules', () => {
+    expect(branchProtectionRulesEqual(rules(), rules({ requiredApprovingReviewCount: 1 }))).toBe(false)
+  })
+})
+
+describe('findBranchProtectionWeakenings', () => {
+  it('finds no weakenings when rules are strengthened', () => {
+    expect(findBranchProtectionWeakenings(UNPROTECTED_BRANCH, rules())).toEqual([])
+    expect(findBranchProtectionWeakenings(rules(), rules({ requiredApprovingReviewCount: 3 }))).toEqual([])
+  })
+
+  it('reports only removal when protection is removed', () => {
+    expect(findBranchProtectionWeakenings(rules(), UNPROTECTED_BRANCH)).toEqual([
+      { type: 'protection_removed', from: true, to: false },
+    ])
+  })
+
+  it('reports fewer required reviewers and admin bypass', () => {
+    const weakenings = findBranchProtectionWeakenings(
+      rules(),
+      rules({ requiredApprovingReviewCount: 1, adminsCanBypass: true }),
+    )
+
+    expect(weakenings).toEqual([
+      { type: 'required_reviews_reduced', from: 2, to: 1 },
+      { type: 'admin_bypass_enabled', from: false, to: true },
+    ])
+  })
+
+  it('reports disabled review requirements', () => {
+    const weakenings = findBranchProtectionWeakenings(
+      rules(),
+      rules({ dismissStaleReviews: false, requireCodeOwnerReviews: false, requireLastPushApproval: false }),
+    )
+
+    expect(weakenings.map((w) => w.type)).toEqual([
+      'stale_review_dismissal_disabled',
+      'code_owner_reviews_disabled',
+      'last_push_approval_disabled',
+    ])
+  })
+})
+
+describe('describeBranchProtection', () => {
+  it('describes an unprotected branch', () => {
+    expect(describeBranchProtection(UNPROTECTED_BRANCH)).toEqual(['Ingen branch protection eller rulesets'])
+  })
+
+  it('describes the rules in force', () => {
+    const lines = describeBranchProtection(
+      rules({
+        requiredApprovingReviewCount: 1,
+        requireCodeOwnerReviews: false,
+        rulesets: [{ id: 1, name: 'main', enforcement: 'active', bypassActorCount: 0 }],
+      }),
+    )
+
+    expect(lines).toEqual([
+      'Krever 1 godkjenning før merge',
+      'Gamle godkjenninger forkastes ved nye commits',
+      'Siste push må godkjennes av en annen',
+      'Reglene gjelder også administratorer',
+      'Rulesets: main (active)',
+    ])
+  })
+})
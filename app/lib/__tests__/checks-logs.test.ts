@@ -12,6 +12,10 @@ vi.mock('~/lib/github', () => ({
   getGitHubClient: vi.fn(),
 }))
 
+vi.mock('~/lib/authorization.server', () => ({
+  requireRepositoryAccess: vi.fn(),
+}))
+
 vi.mock('~/lib/logger.server', () => ({
   logger: { warn: vi.fn(), info: vi.fn() },
 }))
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest'
+import { findFilesWithoutOwnerApproval, getCodeowners, getCodeownerTeams, parseCodeowners } from '../codeowners'
+import type { PrCodeownersData, PrReview, VerificationInput } from '../verification/types'
+import { checkCodeownerApproval, verifyDeployment } from '../verification/verify'
+
+/**
+ * Tests for the per-app CODEOWNERS requirement (app_settings 'codeowners_requirement').
+ *
+ * An otherwise approved PR is not verified when changed files with code owners
+ * were only approved by reviewers who are not among the owners.
+ */
+
+const CODEOWNERS = `
+# Default owners
+*                     @navikt/team-app
+
+/.nais/               @navikt/team-security
+src/db/migrations/    @dba-person @navikt/team-db
+*.sql                 @dba-person
+docs/*                @tech-writer
+/generated/           # no owners
+`
+
+describe('parseCodeowners', () => {
+  const rules = parseCodeowners(CODEOWNERS)
+
+  it('skips comments and blank lines', () => {
+    expect(rules.map((r) => r.pattern)).toEqual([
+      '*',
+      '/.nais/',
+      'src/db/migrations/',
+      '*.sql',
+      'docs/*',
+      '/generated/',
+    ])
+  })
+
+  it('lets the last matching pattern win', () => {
+    expect(getCodeowners(rules, 'src/app.ts')).toEqual(['@navikt/team-app'])
+    expect(getCodeowners(rules, '.nais/prod.yaml')).toEqual(['@navikt/team-security'])
+    expect(getCodeowners(rules, 'src/db/migrations/V1__init.sql')).toEqual(['@dba-person'])
+    expect(getCodeowners(rules, 'src/db/migrations/README.md')).toEqual(['@dba-person', '@navikt/team-db'])
+  })
+
+  it('matches unanchored patterns at any depth and anchored patterns from the root only', () => {
+    expect(getCodeowners(rules, 'deep/nested/schema.sql')).toEqual(['@dba-person'])
+    expect(getCodeowners(rules, 'app/.nais/prod.yaml')).toEqual(['@navikt/team-app'])
+  })
+
+  it('matches only direct children for a trailing single wildcard', () => {
+    expect(getCodeowners(rules, 'docs/index.md')).toEqual(['@tech-writer'])
+    expect(getCodeowners(rules, 'docs/guides/setup.md')).toEqual(['@navikt/team-app'])
+  })
+
+  it('leaves paths unowned when the matching pattern has no owners', () => {
+    expect(getCodeowners(rules, 'generated/client.ts')).toEqual([])
+  })
+
+  it('supports double wildcards', () => {
+    const doubleWildcard = parseCodeowners('src/**/security/ @security-person')
+    expect(getCodeowners(doubleWildcard, 'src/security/config.ts')).toEqual(['@security-person'])
+    expect(getCodeowners(doubleWildcard, 'src/a/b/security/config.ts')).toEqual(['@security-person'])
+    expect(getCodeowners(doubleWildcard, 'lib/security/config.ts')).toEqual([])
+  })
+
+  it('collects team owners in lowercase', () => {
+    expect(getCodeownerTeams(rules).sort()).toEqual(['navikt/team-app', 'navikt/team-db', 'navikt/team-security'])
+  })
+})
+
+describe('findFilesWithoutOwnerApproval', () => {
+  const rules = parseCodeowners(CODEOWNERS)
+  const teamMembers = { 'navikt/team-security': ['sec-member'], 'navikt/team-app': ['app-member'] }
+
+  it('accepts approval from a user owner or a member of a team owner', () => {
+    expect(
+      findFilesWithoutOwnerApproval({
+        filenames: ['schema.sql', '.nais/prod.yaml'],
+        rules,
+        teamMembers,
+        approvers: ['DBA-Person', 'sec-member'],
+      }),
+    ).toEqual([])
+  })
+
+  it('reports owned files approved by non-owners only', () => {
+    expect(
+      findFilesWithoutOwnerApproval({
+        filenames: ['src/app.ts', '.nais/prod.yaml', 'generated/client.ts'],
+        rules,
+        teamMembers,
+        approvers: ['app-member'],
+      }),
+    ).toEqual([{ filename: '.nais/prod.yaml', owners: ['@navikt/team-security'] }])
+  })
+})
+
+const approvalFrom = (username: string): PrReview => ({
+  id: 1,
+  username,
+  state: 'APPROVED',
+  submittedAt: '2026-02-27T13:00:00Z',
+  body: null,
+})
+
+function codeownersData(filenames: string[], content: string | null = CODEOWNERS): PrCodeownersData {
+  return {
+    files: filenames.map((filename) => ({ filename, status: 'modified', previousFilename: null })),
+    codeowners: {
+      path: content ? '.github/CODEOWNERS' : null,
+      content,
+      teamMembers: { 'navikt/team-security': ['sec-member'], 'navikt/team-app': ['app-member'] },
+    },
+  }
+}
+
+describe('checkCodeownerApproval', () => {
+  it('is satisfied when the repository has no CODEOWNERS file', () => {
+    const result = checkCodeownerApproval([approvalFrom('someone')], codeownersData(['.nais/prod.yaml'], null))
+    expect(result.satisfied).toBe(true)
+  })
+
+  it('is not satisfied when the data is missing', () => {
+    expect(checkCodeownerApproval([approvalFrom('sec-member')], null).satisfied).toBe(false)
+  })
+
+  it('ignores reviews that are not approvals', () => {
+    const review: PrReview = { ...approvalFrom('sec-member'), state: 'COMMENTED' }
+    const result = checkCodeownerApproval([review], codeownersData(['.nais/prod.yaml']))
+    expect(result.satisfied).toBe(false)
+    expect(result.filesWithoutOwnerApproval).toEqual(['.nais/prod.yaml'])
+  })
+})
+
+function makeInput(reviewer: string, overrides: Partial<VerificationInput> = {}): VerificationInput {
+  return {
+    deploymentId: 1000,
+    commitSha: 'deploy-sha-1000',
+    repository: 'navikt/test-app',
+    environmentName: 'prod-fss',
+    baseBranch: 'main',
+    repositoryStatus: 'active',
+    commitOnBaseBranch: true,
+    auditStartYear: 2025,
+    implicitApprovalSettings: { mode: 'off' },
+    codeownersRequired: true,
+    previousDeployment: { id: 999, commitSha: 'deploy-sha-999', createdAt: '2026-02-26T10:00:00Z' },
+    deployedPr: {
+      number: 100,
+      url: 'https://github.com/navikt/test-app/pull/100',
+      metadata: {
+        number: 100,
+        title: 'Tighten network policy',
+        body: null,
+        state: 'closed',
+        merged: true,
+        draft: false,
+        createdAt: '2026-02-27T10:00:00Z',
+        updatedAt: '2026-02-27T14:00:00Z',
+        mergedAt: '2026-02-27T14:00:00Z',
+        closedAt: '2026-02-27T14:00:00Z',
+        baseBranch: 'main',
+        baseSha: 'base-sha-000',
+        headBranch: 'feature/netpol',
+        headSha: 'head-sha-000',
+        mergeCommitSha: 'deploy-sha-1000',
+        author: { username: 'developer-a' },
+        mergedBy: { username: 'third-person' },
+        labels: [],
+        commitsCount: 1,
+        changedFiles: 1,
+        additions: 5,
+        deletions: 2,
+      },
+      reviews: [approvalFrom(reviewer)],
+      commits: [
+        {
+          sha: 'deploy-sha-1000',
+          message: 'Tighten network policy',
+          authorUsername: 'developer-a',
+          authorDate: '2026-02-27T12:00:00Z',
+          committerDate: '2026-02-27T12:00:00Z',
+          isMergeCommit: false,
+          parentShas: [],
+        },
+      ],
+      codeowners: codeownersData(['.nais/prod.yaml']),
+    },
+    commitsBetween: [
+      {
+        sha: 'deploy-sha-1000',
+        message: 'Tighten network policy',
+        authorUsername: 'developer-a',
+        authorDate: '2026-02-27T12:00:00Z',
+        isMergeCommit: false,
+        parentShas: ['deploy-sha-999'],
+        htmlUrl: 'https://github.com/navikt/test-app/commit/deploy-sha-1000',
+        pr: null,
+      },
+    ],
+    dataFreshness: {
+      deployedPrFetchedAt: new Date('2026-02-28T10:00:00Z'),
+      commitsFetchedAt: new Date('2026-02-28T10:00:00Z'),
+      schemaVersion: 2,
+    },
+    ...overrides,
+  }
+}
+
+describe('verifyDeployment with CODEOWNERS requirement', () => {
+  it('approves when an owner approved the owned files', () => {
+    const result = verifyDeployment(makeInput('sec-member'))
+    expect(result.status).toBe('approved')
+  })
+
+  it('returns codeowner_approval_missing when only non-owners approved', () => {
+    const result = verifyDeployment(makeInput('app-member'))
+    expect(result.status).toBe('unverified_commits')
+    expect(result.hasFourEyes).toBe(false)
+    expect(result.unverifiedCommits.map((c) => c.reason)).toEqual(['codeowner_approval_missing'])
+  })
+
+  it('does not let implicit approval override a missing owner approval', () => {
+    const result = verifyDeployment(makeInput('app-member', { implicitApprovalSettings: { mode: 'all' } }))
+    expect(result.status).toBe('unverified_commits')
+  })
+
+  it('ignores CODEOWNERS when the app does not require it', () => {
+    const result = verifyDeployment(makeInput('app-member', { codeownersRequired: false }))
+    expect(result.status).toBe('approved')
+  })
+})
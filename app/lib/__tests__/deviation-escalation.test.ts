@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+
+vi.mock('~/db/deviations.server', () => ({
+  claimOverdueDeviations: vi.fn(),
+  releaseDeviationEscalation: vi.fn(),
+}))
+
+vi.mock('~/db/global-settings.server', () => ({
+  getDeviationSlackChannel: vi.fn(),
+}))
+
+vi.mock('../slack', () => ({
+  isSlackConfigured: vi.fn(),
+  sendDeviationEscalation: vi.fn(),
+}))
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+import { claimOverdueDeviations, releaseDeviationEscalation } from '~/db/deviations.server'
+import { getDeviationSlackChannel } from '~/db/global-settings.server'
+import { escalateOverdueDeviations } from '../deviation-escalation.server'
+import { isSlackConfigured, sendDeviationEscalation } from '../slack'
+
+/**
+ * Tests for escalating overdue deviations: a claim is only kept when the Slack message was sent.
+ */
+
+const mockClaim = claimOverdueDeviations as Mock
+const mockRelease = releaseDeviationEscalation as Mock
+const mockSend = sendDeviationEscalation as Mock
+
+function deviation(id: number) {
+  return {
+    id,
+    deployment_id: 100 + id,
+    reason: 'Manglende review',
+    severity: 'high',
+    status: 'open',
+    assigned_to: null,
+    due_at: new Date('2026-03-01T10:00:00Z'),
+    created_at: new Date('2026-02-26T10:00:00Z'),
+    app_name: 'pensjon-pen',
+    environment_name: 'prod-fss',
+    team_slug: 'pensjondeployer',
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(isSlackConfigured as Mock).mockReturnValue(true)
+  ;(getDeviationSlackChannel as Mock).mockResolvedValue({ channel_id: 'C123' })
+})
+
+describe('escalateOverdueDeviations', () => {
+  it('keeps the claim for deviations that were sent', async () => {
+    mockClaim.mockResolvedValue([deviation(1)])
+    mockSend.mockResolvedValue('1700000000.000100')
+
+    expect(await escalateOverdueDeviations()).toBe(1)
+    expect(mockRelease).not.toHaveBeenCalled()
+  })
+
+  it('releases the claim when the message could not be sent', async () => {
+    mockClaim.mockResolvedValue([deviation(1), deviation(2)])
+    mockSend.mockResolvedValueOnce(null).mockRejectedValueOnce(new Error('channel_not_found'))
+
+    expect(await escalateOverdueDeviations()).toBe(0)
+    expect(mockRelease).toHaveBeenCalledWith(1)
+    expect(mockRelease).toHaveBeenCalledWith(2)
+  })
+
+  it('does not claim anything when Slack is not configured', async () => {
+    ;(isSlackConfigured as Mock).mockReturnValue(false)
+
+    expect(await escalateOverdueDeviations()).toBe(0)
+    expect(mockClaim).not.toHaveBeenCalled()
+  })
+})
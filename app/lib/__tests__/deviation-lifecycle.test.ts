@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  canTransitionDeviation,
+  getDeviationDueDate,
+  isDeviationOverdue,
+  resolveDeviationAssignee,
+} from '../deviation-constants'
+
+describe('canTransitionDeviation', () => {
+  it('allows moving an open deviation forward', () => {
+    expect(canTransitionDeviation('open', 'under_investigation')).toBe(true)
+    expect(canTransitionDeviation('open', 'action_required')).toBe(true)
+    expect(canTransitionDeviation('open', 'closed')).toBe(true)
+  })
+
+  it('allows reopening a closed deviation, but nothing else', () => {
+    expect(canTransitionDeviation('closed', 'open')).toBe(true)
+    expect(canTransitionDeviation('closed', 'under_investigation')).toBe(false)
+  })
+
+  it('does not allow going back to open without closing', () => {
+    expect(canTransitionDeviation('under_investigation', 'open')).toBe(false)
+    expect(canTransitionDeviation('action_required', 'open')).toBe(false)
+  })
+
+  it('does not allow no-op transitions', () => {
+    expect(canTransitionDeviation('open', 'open')).toBe(false)
+  })
+})
+
+describe('getDeviationDueDate', () => {
+  const registeredAt = new Date('2026-03-02T10:00:00Z')
+
+  it('derives the due date from severity', () => {
+    expect(getDeviationDueDate('critical', registeredAt)).toEqual(new Date('2026-03-03T10:00:00Z'))
+    expect(getDeviationDueDate('high', registeredAt)).toEqual(new Date('2026-03-05T10:00:00Z'))
+    expect(getDeviationDueDate('medium', registeredAt)).toEqual(new Date('2026-03-16T10:00:00Z'))
+    expect(getDeviationDueDate('low', registeredAt)).toEqual(new Date('2026-04-01T10:00:00Z'))
+  })
+
+  it('treats missing severity as medium', () => {
+    expect(getDeviationDueDate(null, registeredAt)).toEqual(getDeviationDueDate('medium', registeredAt))
+  })
+})
+
+describe('isDeviationOverdue', () => {
+  const now = new Date('2026-03-10T00:00:00Z')
+
+  it('is overdue when open and past the due date', () => {
+    expect(isDeviationOverdue({ status: 'open', due_at: '2026-03-09T00:00:00Z' }, now)).toBe(true)
+    expect(isDeviationOverdue({ status: 'action_required', due_at: '2026-03-09T00:00:00Z' }, now)).toBe(true)
+  })
+
+  it('is not overdue before the due date, when closed, or without a due date', () => {
+    expect(isDeviationOverdue({ status: 'open', due_at: '2026-03-11T00:00:00Z' }, now)).toBe(false)
+    expect(isDeviationOverdue({ status: 'closed', due_at: '2026-03-09T00:00:00Z' }, now)).toBe(false)
+    expect(isDeviationOverdue({ status: 'open', due_at: null }, now)).toBe(false)
+  })
+})
+
+describe('resolveDeviationAssignee', () => {
+  const leads = {
+    product_lead_nav_ident: 'P111111',
+    delivery_lead_nav_ident: 'D222222',
+    section_lead_nav_ident: 'S333333',
+  }
+
+  it('assigns the lead for the follow-up role', () => {
+    expect(resolveDeviationAssignee('product_lead', leads)).toBe('P111111')
+    expect(resolveDeviationAssignee('delivery_lead', leads)).toBe('D222222')
+    expect(resolveDeviationAssignee('section_lead', leads)).toBe('S333333')
+  })
+
+  it('defaults to the delivery lead without a follow-up role', () => {
+    expect(resolveDeviationAssignee(null, leads)).toBe('D222222')
+  })
+
+  it('falls back to the section lead when the dev team role is not set', () => {
+    expect(resolveDeviationAssignee('product_lead', { ...leads, product_lead_nav_ident: null })).toBe('S333333')
+  })
+
+  it('returns null when no lead is configured', () => {
+    expect(
+      resolveDeviationAssignee('delivery_lead', {
+        product_lead_nav_ident: null,
+        delivery_lead_nav_ident: null,
+        section_lead_nav_ident: null,
+      }),
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeDoraMetrics,
+  type DoraDeployment,
+  getChangeFailureRateLevel,
+  getDeploymentFrequencyLevel,
+  getLeadTimeLevel,
+  getTimeToRestoreLevel,
+  isRollback,
+} from '../dora'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+function deployment(overrides: Partial<DoraDeployment>): DoraDeployment {
+  return {
+    id: 1,
+    created_at: new Date('2026-03-10T12:00:00Z'),
+    commit_sha: 'aaa',
+    pr_created_at: null,
+    pr_merged_at: null,
+    previous_deployment_id: null,
+    previous_deployed_at: null,
+    previous_commit_sha: null,
+    next_deployed_at: null,
+    has_deviation: false,
+    redeployed_commit: false,
+    compare_rollback: false,
+    ...overrides,
+  }
+}
+
+describe('isRollback', () => {
+  it('detects a redeployed older commit replacing a different commit', () => {
+    expect(isRollback(deployment({ redeployed_commit: true, previous_commit_sha: 'bbb' }))).toBe(true)
+  })
+
+  it('does not treat a redeploy of the running commit as a rollback', () => {
+    expect(isRollback(deployment({ redeployed_commit: true, previous_commit_sha: 'aaa' }))).toBe(false)
+  })
+
+  it('detects rollbacks flagged by verification', () => {
+    expect(isRollback(deployment({ compare_rollback: true }))).toBe(true)
+  })
+})
+
+describe('DORA levels', () => {
+  it('classifies by the State of DevOps thresholds', () => {
+    expect(getDeploymentFrequencyLevel(10)).toBe('elite')
+    expect(getDeploymentFrequencyLevel(2)).toBe('high')
+    expect(getDeploymentFrequencyLevel(0.5)).toBe('medium')
+    expect(getDeploymentFrequencyLevel(0.1)).toBe('low')
+
+    expect(getLeadTimeLevel(2 * HOUR)).toBe('elite')
+    expect(getLeadTimeLevel(3 * DAY)).toBe('high')
+    expect(getLeadTimeLevel(14 * DAY)).toBe('medium')
+    expect(getLeadTimeLevel(60 * DAY)).toBe('low')
+
+    expect(getChangeFailureRateLevel(0.05)).toBe('elite')
+    expect(getChangeFailureRateLevel(0.1)).toBe('high')
+    expect(getChangeFailureRateLevel(0.15)).toBe('medium')
+    expect(getChangeFailureRateLevel(0.3)).toBe('low')
+
+    expect(getTimeToRestoreLevel(30 * 60 * 1000)).toBe('elite')
+    expect(getTimeToRestoreLevel(5 * HOUR)).toBe('high')
+    expect(getTimeToRestoreLevel(3 * DAY)).toBe('medium')
+    expect(getTimeToRestoreLevel(10 * DAY)).toBe('low')
+  })
+})
+
+describe('computeDoraMetrics', () => {
+  const range = { startDate: new Date('2026-03-01T00:00:00Z'), endDate: new Date('2026-03-15T00:00:00Z') }
+
+  const first = deployment({
+    id: 1,
+    commit_sha: 'aaa',
+    created_at: new Date('2026-03-10T12:00:00Z'),
+    pr_created_at: new Date('2026-03-10T08:00:00Z'),
+    pr_merged_at: new Date('2026-03-10T11:00:00Z'),
+    next_deployed_at: new Date('2026-03-11T12:00:00Z'),
+  })
+  const broken = deployment({
+    id: 2,
+    commit_sha: 'bbb',
+    created_at: new Date('2026-03-11T12:00:00Z'),
+    pr_created_at: new Date('2026-03-11T10:00:00Z'),
+    pr_merged_at: new Date('2026-03-11T11:00:00Z'),
+    previous_deployment_id: 1,
+    previous_deployed_at: first.created_at,
+    previous_commit_sha: 'aaa',
+    next_deployed_at: new Date('2026-03-11T12:30:00Z'),
+  })
+  const rollback = deployment({
+    id: 3,
+    commit_sha: 'aaa',
+    created_at: new Date('2026-03-11T12:30:00Z'),
+    pr_created_at: new Date('2026-03-10T08:00:00Z'),
+    previous_deployment_id: 2,
+    previous_deployed_at: broken.created_at,
+    previous_commit_sha: 'bbb',
+    next_deployed_at: new Date('2026-03-12T12:00:00Z'),
+    redeployed_commit: true,
+  })
+  const withDeviation = deployment({
+    id: 4,
+    commit_sha: 'ccc',
+    created_at: new Date('2026-03-12T12:00:00Z'),
+    pr_created_at: new Date('2026-03-12T06:00:00Z'),
+    previous_deployment_id: 3,
+    previous_deployed_at: rollback.created_at,
+    previous_commit_sha: 'aaa',
+    next_deployed_at: new Date('2026-03-12T15:00:00Z'),
+    has_deviation: true,
+  })
+
+  it('computes frequency, lead time, failure rate and time to restore', () => {
+    const metrics = computeDoraMetrics([first, broken, rollback, withDeviation], range)
+
+    expect(metrics.deployments).toBe(4)
+    expect(metrics.deploymentsPerWeek).toBe(2)
+    expect(metrics.deploymentFrequencyLevel).toBe('high')
+
+    // Lead times of new commits only: 4 h, 2 h and 6 h
+    expect(metrics.medianLeadTimeMs).toBe(4 * HOUR)
+    expect(metrics.medianMergeToDeployMs).toBe(HOUR)
+
+    // The rolled back deployment and the one with a deviation failed
+    expect(metrics.rollbacks).toBe(1)
+    expect(metrics.failures).toBe(2)
+    expect(metrics.changeFailureRate).toBe(0.5)
+    expect(metrics.changeFailureRateLevel).toBe('low')
+
+    // Restored after 30 min and 3 h
+    expect(metrics.medianTimeToRestoreMs).toBe(1.75 * HOUR)
+    expect(metrics.timeToRestoreLevel).toBe('high')
+  })
+
+  it('returns empty metrics without deployments', () => {
+    const metrics = computeDoraMetrics([], null)
+
+    expect(metrics.deployments).toBe(0)
+    expect(metrics.deploymentsPerWeek).toBe(0)
+    expect(metrics.deploymentFrequencyLevel).toBeNull()
+    expect(metrics.changeFailureRate).toBeNull()
+    expect(metrics.medianTimeToRestoreMs).toBeNull()
+  })
+})
@@ -0,0 +1,188 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+
+vi.mock('~/db/event-outbox.server', () => ({
+  claimDueEventDeliveries: vi.fn(),
+  hasDueEventDeliveries: vi.fn(),
+  markEventDelivered: vi.fn(),
+  markEventDeliveryFailed: vi.fn(),
+}))
+
+vi.mock('~/lib/sync/with-sync-lock.server', () => ({
+  withSyncLock: vi.fn(),
+}))
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+import {
+  claimDueEventDeliveries,
+  type DueEventDelivery,
+  hasDueEventDeliveries,
+  markEventDelivered,
+  markEventDeliveryFailed,
+} from '~/db/event-outbox.server'
+import { withSyncLock } from '~/lib/sync/with-sync-lock.server'
+import { getRetryDelayMs, MAX_DELIVERY_ATTEMPTS } from '../event-outbox'
+import { buildEventBody, deliverEvent, publishDueEvents } from '../event-outbox.server'
+import { signWebhookBody } from '../notifications/webhook-channel.server'
+
+/**
+ * Tests for the outbound event stream: retry schedule and delivery to a local HTTP subscriber.
+ */
+
+const mockMarkDelivered = markEventDelivered as Mock
+const mockMarkFailed = markEventDeliveryFailed as Mock
+const mockClaim = claimDueEventDeliveries as Mock
+const mockHasDue = hasDueEventDeliveries as Mock
+const mockWithSyncLock = withSyncLock as Mock
+
+let server: Server
+let subscriberUrl: string
+let received: Array<{ headers: IncomingHttpHeaders; body: string }> = []
+let responseStatus = 200
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      received.push({ headers: req.headers, body })
+      res.statusCode = responseStatus
+      res.end()
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  subscriberUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  received = []
+  responseStatus = 200
+})
+
+function delivery(overrides: Partial<DueEventDelivery> = {}): DueEventDelivery {
+  return {
+    id: '11',
+    event_id: '7',
+    subscriber_id: 1,
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date('2026-03-01T10:00:00Z'),
+    last_attempt_at: null,
+    last_response_status: null,
+    last_error: null,
+    delivered_at: null,
+    created_at: new Date('2026-03-01T10:00:00Z'),
+    event_type: 'deployment.status_changed',
+    monitored_app_id: 3,
+    deployment_id: 42,
+    payload: { deploymentId: 42, fromStatus: 'pending', toStatus: 'direct_push' },
+    event_created_at: new Date('2026-03-01T10:00:00Z'),
+    team_slug: 'pensjondeployer',
+    environment_name: 'prod-fss',
+    app_name: 'pensjon-pen',
+    url: subscriberUrl,
+    secret: 'a-long-shared-secret',
+    ...overrides,
+  }
+}
+
+describe('getRetryDelayMs', () => {
+  it('doubles the delay from one minute after each failed attempt', () => {
+    expect(getRetryDelayMs(1)).toBe(60_000)
+    expect(getRetryDelayMs(2)).toBe(120_000)
+    expect(getRetryDelayMs(4)).toBe(480_000)
+  })
+
+  it('waits a little over four hours before the last attempt', () => {
+    expect(getRetryDelayMs(MAX_DELIVERY_ATTEMPTS - 1)).toBe(256 * 60_000)
+  })
+
+  it('gives up after the last attempt', () => {
+    expect(getRetryDelayMs(MAX_DELIVERY_ATTEMPTS)).toBeNull()
+  })
+})
+
+describe('buildEventBody', () => {
+  it('describes the event with its app and deployment', () => {
+    expect(buildEventBody(delivery())).toEqual({
+      id: '7',
+      type: 'deployment.status_changed',
+      occurredAt: '2026-03-01T10:00:00.000Z',
+      app: { team: 'pensjondeployer', environment: 'prod-fss', name: 'pensjon-pen' },
+      deploymentId: 42,
+      data: { deploymentId: 42, fromStatus: 'pending', toStatus: 'direct_push' },
+    })
+  })
+})
+
+describe('deliverEvent', () => {
+  it('posts the signed event and marks it delivered', async () => {
+    expect(await deliverEvent(delivery())).toBe(true)
+
+    expect(received).toHaveLength(1)
+    const [request] = received
+    expect(request.headers['x-deployment-audit-event']).toBe('deployment.status_changed')
+    expect(request.headers['x-deployment-audit-delivery']).toBe('7')
+    expect(request.headers['x-deployment-audit-signature']).toBe(signWebhookBody(request.body, 'a-long-shared-secret'))
+    expect(mockMarkDelivered).toHaveBeenCalledWith('11', 200)
+    expect(mockMarkFailed).not.toHaveBeenCalled()
+  })
+
+  it('schedules a retry with backoff when the subscriber fails', async () => {
+    responseStatus = 500
+    const before = Date.now()
+
+    expect(await deliverEvent(delivery({ attempts: 2 }))).toBe(false)
+
+    const [id, failure] = mockMarkFailed.mock.calls[0]
+    expect(id).toBe('11')
+    expect(failure).toMatchObject({ responseStatus: 500, error: 'HTTP 500 Internal Server Error' })
+    expect(failure.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(4 * 60_000)
+  })
+
+  it('gives up when the last attempt fails', async () => {
+    expect(await deliverEvent(delivery({ url: 'http://127.0.0.1:1/', attempts: MAX_DELIVERY_ATTEMPTS - 1 }))).toBe(
+      false,
+    )
+
+    expect(mockMarkFailed.mock.calls[0][1]).toMatchObject({ nextAttemptAt: null })
+  })
+})
+
+describe('publishDueEvents', () => {
+  beforeEach(() => {
+    mockHasDue.mockResolvedValue(true)
+    mockWithSyncLock.mockImplementation(async (_type, _appId, _options, fn) => ({ result: await fn() }))
+  })
+
+  it('does not take the lock when nothing is due', async () => {
+    mockHasDue.mockResolvedValue(false)
+
+    await publishDueEvents()
+
+    expect(mockWithSyncLock).not.toHaveBeenCalled()
+  })
+
+  it('claims small batches with a lease until a short batch is returned', async () => {
+    const fullBatch = Array.from({ length: 10 }, (_, i) => delivery({ id: String(i), event_id: String(i) }))
+    mockClaim.mockResolvedValueOnce(fullBatch).mockResolvedValueOnce([delivery({ id: '99', event_id: '99' })])
+
+    await publishDueEvents()
+
+    expect(mockWithSyncLock.mock.calls[0][1]).toBeNull()
+    expect(mockClaim).toHaveBeenCalledTimes(2)
+    expect(mockClaim).toHaveBeenCalledWith(10, 3 * 60 * 1000)
+    expect(received).toHaveLength(11)
+  })
+})
@@ -5,6 +5,7 @@ import {
   FOUR_EYES_STATUSES,
   getFourEyesStatusLabel,
   isApprovedStatus,
+  isAuditAcceptedStatus,
   isLegacyStatus,
   isNotApprovedStatus,
   isPendingStatus,
@@ -31,7 +32,14 @@ describe('status categorization', () => {
 })
 
 describe('isApprovedStatus', () => {
-  it.each(['approved', 'approved_pr', 'implicitly_approved', 'manually_approved'])('returns true for %s', (status) => {
+  it.each([
+    'approved',
+    'approved_pr',
+    'implicitly_approved',
+    'manually_approved',
+    'baseline',
+    'no_changes',
+  ])('returns true for %s', (status) => {
     expect(isApprovedStatus(status)).toBe(true)
   })
 
@@ -40,6 +48,16 @@ describe('isApprovedStatus', () => {
   })
 })
 
+describe('isAuditAcceptedStatus', () => {
+  it.each(['approved', 'manually_approved', 'no_changes', 'legacy'])('returns true for %s', (status) => {
+    expect(isAuditAcceptedStatus(status)).toBe(true)
+  })
+
+  it.each(['legacy_pending', 'pending', 'unverified_commits', 'error'])('returns false for %s', (status) => {
+    expect(isAuditAcceptedStatus(status)).toBe(false)
+  })
+})
+
 describe('isNotApprovedStatus', () => {
   it.each([
     'direct_push',
@@ -47,6 +65,7 @@ describe('isNotApprovedStatus', () => {
     'approved_pr_with_unreviewed',
     'unauthorized_repository',
     'unauthorized_branch',
+    'missing_required_tests',
   ])('returns true for %s', (status) => {
     expect(isNotApprovedStatus(status)).toBe(true)
   })
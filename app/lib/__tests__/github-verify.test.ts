@@ -3,7 +3,10 @@ import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vite
 // Mock DB modules
 vi.mock('~/db/deployments.server', () => ({
   getAllDeployments: vi.fn(),
-  updateDeploymentFourEyes: vi.fn(),
+}))
+
+vi.mock('~/lib/deployment-status.server', () => ({
+  updateDeploymentStatus: vi.fn(),
 }))
 
 // Mock verification
@@ -16,12 +19,13 @@ vi.mock('~/lib/logger.server', () => ({
   logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
 }))
 
-import { getAllDeployments, updateDeploymentFourEyes } from '~/db/deployments.server'
+import { getAllDeployments } from '~/db/deployments.server'
+import { updateDeploymentStatus } from '~/lib/deployment-status.server'
 import { verifyDeploymentsFourEyes } from '~/lib/sync/github-verify.server'
 import { runVerification } from '~/lib/verification'
 
 const mockGetAll = getAllDeployments as Mock
-const mockUpdateFourEyes = updateDeploymentFourEyes as Mock
+const mockUpdateFourEyes = updateDeploymentStatus as Mock
 const mockRunVerification = runVerification as Mock
 
 function makeDeployment(overrides: Record<string, unknown> = {}) {
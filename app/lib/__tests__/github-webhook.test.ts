@@ -0,0 +1,150 @@
+import { createHmac } from 'node:crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { githubWebhookFixtures } from '../__fixtures__/github-webhook-fixtures'
+import { extractWebhookTargets, verifyWebhookSignature } from '../github/webhook.server'
+
+vi.mock('~/db/github-data.server', () => ({
+  invalidatePrSnapshots: vi.fn().mockResolvedValue(5),
+  invalidateCommitSnapshots: vi.fn().mockResolvedValue(2),
+}))
+
+vi.mock('~/db/application-repositories.server', () => ({
+  getMonitoredAppIdsForRepository: vi.fn().mockResolvedValue([7]),
+}))
+
+vi.mock('~/lib/sync/scheduler.server', () => ({
+  verifyDeploymentsWithLock: vi.fn().mockResolvedValue({ success: true, result: { verified: 1 } }),
+}))
+
+vi.mock('~/lib/personal-notifications.server', () => ({
+  queueReviewRequestNotification: vi.fn(),
+}))
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+const { invalidateCommitSnapshots, invalidatePrSnapshots } = await import('~/db/github-data.server')
+const { queueReviewRequestNotification } = await import('~/lib/personal-notifications.server')
+const { processGitHubWebhook } = await import('../sync/github-webhook.server')
+
+const SECRET = 'test-webhook-secret'
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify(githubWebhookFixtures.pushToMain.payload)
+
+  it('accepts a correctly signed body', () => {
+    expect(verifyWebhookSignature(body, sign(body), SECRET)).toBe(true)
+  })
+
+  it('rejects a body signed with another secret', () => {
+    expect(verifyWebhookSignature(body, sign(body, 'other-secret'), SECRET)).toBe(false)
+  })
+
+  it('rejects a modified body', () => {
+    expect(verifyWebhookSignature(`${body} `, sign(body), SECRET)).toBe(false)
+  })
+
+  it('rejects missing or malformed signatures', () => {
+    expect(verifyWebhookSignature(body, null, SECRET)).toBe(false)
+    expect(verifyWebhookSignature(body, 'sha1=abc', SECRET)).toBe(false)
+    expect(verifyWebhookSignature(body, 'sha256=abc', SECRET)).toBe(false)
+  })
+})
+
+describe('extractWebhookTargets', () => {
+  it('pull_request: targets the PR, its merge commit and head commit', () => {
+    const { event, payload } = githubWebhookFixtures.pullRequestClosed
+    expect(extractWebhookTargets(event, payload)).toEqual({
+      owner: 'navikt',
+      repo: 'pensjon-pen',
+      prNumbers: [4711],
+      commitShas: ['c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00', 'head0000head0000head0000head0000head0000'],
+    })
+  })
+
+  it('pull_request_review: targets the PR and head commit (no merge commit yet)', () => {
+    const { event, payload } = githubWebhookFixtures.pullRequestReviewSubmitted
+    expect(extractWebhookTargets(event, payload)).toMatchObject({
+      prNumbers: [4711],
+      commitShas: ['head0000head0000head0000head0000head0000'],
+    })
+  })
+
+  it('check_run: targets the head commit and associated PRs', () => {
+    const { event, payload } = githubWebhookFixtures.checkRunCompleted
+    expect(extractWebhookTargets(event, payload)).toMatchObject({
+      prNumbers: [4711],
+      commitShas: ['head0000head0000head0000head0000head0000'],
+    })
+  })
+
+  it('push: targets every pushed commit once', () => {
+    const { event, payload } = githubWebhookFixtures.pushToMain
+    expect(extractWebhookTargets(event, payload)).toMatchObject({
+      prNumbers: [],
+      commitShas: ['aaaa1111aaaa1111aaaa1111aaaa1111aaaa1111', 'c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00'],
+    })
+  })
+
+  it('push: ignores branch deletions', () => {
+    const { event, payload } = githubWebhookFixtures.branchDeleted
+    expect(extractWebhookTargets(event, payload)).toMatchObject({ prNumbers: [], commitShas: [] })
+  })
+
+  it('returns null without a repository', () => {
+    expect(extractWebhookTargets('push', { commits: [] })).toBeNull()
+  })
+})
+
+describe('processGitHubWebhook', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('invalidates snapshots and returns affected apps', async () => {
+    const { event, payload } = githubWebhookFixtures.pullRequestClosed
+
+    const result = await processGitHubWebhook(event, payload)
+
+    expect(invalidatePrSnapshots).toHaveBeenCalledWith('navikt', 'pensjon-pen', 4711)
+    expect(invalidateCommitSnapshots).toHaveBeenCalledWith('navikt', 'pensjon-pen', [
+      'c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00',
+      'head0000head0000head0000head0000head0000',
+    ])
+    expect(result).toEqual({ invalidatedPrSnapshots: 5, invalidatedCommitSnapshots: 2, monitoredAppIds: [7] })
+  })
+
+  it('queues a personal notification for review requests', async () => {
+    const { event, payload } = githubWebhookFixtures.pullRequestReviewRequested
+
+    await processGitHubWebhook(event, payload)
+
+    expect(queueReviewRequestNotification).toHaveBeenCalledWith({
+      reviewerUsername: 'reviewer-b',
+      repository: 'navikt/pensjon-pen',
+      prNumber: 4711,
+      prTitle: 'feat: legg til ny pensjonsberegning for AFP',
+      prUrl: 'https://github.com/navikt/pensjon-pen/pull/4711',
+    })
+  })
+
+  it('does not queue review notifications for other pull request events', async () => {
+    const { event, payload } = githubWebhookFixtures.pullRequestClosed
+
+    await processGitHubWebhook(event, payload)
+
+    expect(queueReviewRequestNotification).not.toHaveBeenCalled()
+  })
+
+  it('does nothing for payloads without a repository', async () => {
+    const result = await processGitHubWebhook('push', {})
+
+    expect(invalidatePrSnapshots).not.toHaveBeenCalled()
+    expect(result.monitoredAppIds).toEqual([])
+  })
+})
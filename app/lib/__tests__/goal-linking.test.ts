@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildGoalKeywords,
+  buildGoalLinkSources,
+  extractReferenceKeywords,
+  findGoalLinkMatches,
+  type GoalKeyword,
+} from '../goal-linking'
+
+describe('extractReferenceKeywords', () => {
+  it('extracts the Jira key from a browse URL', () => {
+    expect(
+      extractReferenceKeywords({ ref_type: 'jira', url: 'https://jira.adeo.no/browse/pen-1234', title: null }),
+    ).toEqual(['PEN-1234'])
+  })
+
+  it('extracts Jira keys from the title of a Jira reference', () => {
+    expect(
+      extractReferenceKeywords({
+        ref_type: 'jira',
+        url: 'https://jira.adeo.no/secure/RapidBoard.jspa',
+        title: 'Epic PEN-100 og PEN-101',
+      }),
+    ).toEqual(['PEN-100', 'PEN-101'])
+  })
+
+  it('uses a code-like title as keyword for any reference type', () => {
+    expect(extractReferenceKeywords({ ref_type: 'other', url: 'https://example.com', title: 'KR-3' })).toEqual(['KR-3'])
+    expect(extractReferenceKeywords({ ref_type: 'confluence', url: 'https://example.com', title: 'O1.KR2' })).toEqual([
+      'O1.KR2',
+    ])
+  })
+
+  it('ignores free-text titles on non-Jira references', () => {
+    expect(
+      extractReferenceKeywords({ ref_type: 'slack', url: 'https://slack.com/x', title: 'Diskusjon om PEN-1' }),
+    ).toEqual([])
+  })
+})
+
+describe('buildGoalKeywords', () => {
+  it('maps keywords to the objective or key result of the reference', () => {
+    expect(
+      buildGoalKeywords([
+        {
+          ref_type: 'jira',
+          url: 'https://jira.adeo.no/browse/PEN-1',
+          title: null,
+          objective_id: 1,
+          key_result_id: null,
+        },
+        { ref_type: 'other', url: 'https://example.com', title: 'KR-7', objective_id: null, key_result_id: 7 },
+      ]),
+    ).toEqual([
+      { keyword: 'PEN-1', objective_id: 1, key_result_id: null },
+      { keyword: 'KR-7', objective_id: null, key_result_id: 7 },
+    ])
+  })
+})
+
+describe('findGoalLinkMatches', () => {
+  const keywords: GoalKeyword[] = [
+    { keyword: 'PEN-12', objective_id: 1, key_result_id: null },
+    { keyword: 'KR-3', objective_id: null, key_result_id: 3 },
+  ]
+
+  it('matches the PR title with link method pr_title', () => {
+    const sources = buildGoalLinkSources({ prTitle: 'PEN-12: ny beregning', commitMessages: [] })
+    expect(findGoalLinkMatches(keywords, sources)).toEqual([
+      { keyword: 'PEN-12', objective_id: 1, key_result_id: null, link_method: 'pr_title' },
+    ])
+  })
+
+  it('matches the PR body with link method pr_title', () => {
+    const sources = buildGoalLinkSources({ prTitle: 'Ny beregning', prBody: 'Del av kr-3', commitMessages: [] })
+    expect(findGoalLinkMatches(keywords, sources)).toEqual([
+      { keyword: 'KR-3', objective_id: null, key_result_id: 3, link_method: 'pr_title' },
+    ])
+  })
+
+  it('matches commit messages with link method commit_keyword', () => {
+    const sources = buildGoalLinkSources({ prTitle: null, commitMessages: ['fix: rett avrunding (PEN-12)'] })
+    expect(findGoalLinkMatches(keywords, sources)).toEqual([
+      { keyword: 'PEN-12', objective_id: 1, key_result_id: null, link_method: 'commit_keyword' },
+    ])
+  })
+
+  it('links each goal once, preferring the PR over commits', () => {
+    const sources = buildGoalLinkSources({ prTitle: 'PEN-12', commitMessages: ['PEN-12 del 1', 'PEN-12 del 2'] })
+    const matches = findGoalLinkMatches(keywords, sources)
+    expect(matches).toHaveLength(1)
+    expect(matches[0].link_method).toBe('pr_title')
+  })
+
+  it('does not match keywords that are part of a longer key', () => {
+    const sources = buildGoalLinkSources({ prTitle: 'PEN-123 og XPEN-12 og KR-30', commitMessages: [] })
+    expect(findGoalLinkMatches(keywords, sources)).toEqual([])
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { deploymentFixtures, homeTabFixtures } from '../__fixtures__/slack-fixtures'
+import { findSelfApprovalConflict } from '../manual-approval.server'
+import { buildDeploymentBlocks, buildHomeTabBlocks } from '../slack/blocks'
+
+describe('findSelfApprovalConflict', () => {
+  it('allows approval by an uninvolved person', () => {
+    expect(
+      findSelfApprovalConflict({
+        approverNavIdent: 'A123456',
+        prCreatorNavIdent: 'B123456',
+        lastCommitAuthorNavIdent: 'C123456',
+        deployerNavIdent: 'D123456',
+      }),
+    ).toBeNull()
+  })
+
+  it('refuses approval by the PR creator (case-insensitive)', () => {
+    expect(findSelfApprovalConflict({ approverNavIdent: 'a123456', prCreatorNavIdent: 'A123456' })).toBe('pr_creator')
+  })
+
+  it('refuses approval by the last commit author', () => {
+    expect(findSelfApprovalConflict({ approverNavIdent: 'A123456', lastCommitAuthorNavIdent: 'A123456' })).toBe(
+      'last_commit_author',
+    )
+  })
+
+  it('refuses approval by the deployer', () => {
+    expect(findSelfApprovalConflict({ approverNavIdent: 'A123456', deployerNavIdent: 'a123456' })).toBe('deployer')
+  })
+
+  it('ignores missing idents', () => {
+    expect(
+      findSelfApprovalConflict({
+        approverNavIdent: 'A123456',
+        prCreatorNavIdent: null,
+        lastCommitAuthorNavIdent: undefined,
+        deployerNavIdent: null,
+      }),
+    ).toBeNull()
+  })
+})
+
+describe('buildDeploymentBlocks approve button', () => {
+  function findActionIds(blocks: ReturnType<typeof buildDeploymentBlocks>): string[] {
+    return blocks
+      .filter((b) => b.type === 'actions')
+      .flatMap((b) => ('elements' in b ? b.elements : []))
+      .map((e) => ('action_id' in e ? (e.action_id ?? '') : ''))
+  }
+
+  it('shows approve button for deployments needing approval', () => {
+    const blocks = buildDeploymentBlocks(deploymentFixtures.unverified)
+    expect(findActionIds(blocks)).toContain('approve_deployment')
+  })
+
+  it('encodes the deployment id in the approve button value', () => {
+    const blocks = buildDeploymentBlocks(deploymentFixtures.pending)
+    const button = blocks
+      .flatMap((b) => (b.type === 'actions' ? b.elements : []))
+      .find((e) => e.type === 'button' && e.action_id === 'approve_deployment')
+    expect(button?.type === 'button' ? JSON.parse(button.value ?? '{}') : null).toEqual({
+      deploymentId: 42,
+      appName: 'pensjon-pen',
+    })
+  })
+
+  it('hides approve button and shows approver once approved', () => {
+    const blocks = buildDeploymentBlocks(deploymentFixtures.approvedViaSlack)
+    expect(findActionIds(blocks)).not.toContain('approve_deployment')
+    expect(JSON.stringify(blocks)).toContain('Godkjent av <@U01ABCDEF>')
+  })
+})
+
+describe('buildHomeTabBlocks quick actions', () => {
+  function findButtons(blocks: ReturnType<typeof buildHomeTabBlocks>, actionId: string) {
+    return blocks
+      .flatMap((b) => (b.type === 'actions' ? b.elements : []))
+      .filter((e) => e.type === 'button' && e.action_id === actionId)
+  }
+
+  it('offers approval only on deployments the viewer reviews, not on their own', () => {
+    const blocks = buildHomeTabBlocks(homeTabFixtures.withIssues)
+    const approveButtons = findButtons(blocks, 'approve_deployment')
+
+    expect(approveButtons).toHaveLength(1)
+    expect(approveButtons[0].type === 'button' ? JSON.parse(approveButtons[0].value ?? '{}') : null).toEqual({
+      deploymentId: 160,
+      appName: 'pensjon-selvbetjening',
+    })
+  })
+
+  it('links deviation registration for every listed deployment', () => {
+    const blocks = buildHomeTabBlocks(homeTabFixtures.withIssues)
+    const urls = findButtons(blocks, 'register_deviation_link').map((e) => (e.type === 'button' ? e.url : null))
+
+    expect(urls).toEqual([
+      'https://pensjon-deployment-audit.ansatt.nav.no/team/pensjondeployer/env/prod-gcp/app/pensjon-pen/deployments/150?avvik=ny',
+      'https://pensjon-deployment-audit.ansatt.nav.no/team/pensjondeployer/env/prod-gcp/app/pensjon-selvbetjening/deployments/160?avvik=ny',
+    ])
+  })
+
+  it('asks unmapped users to link their Slack user instead of listing deployments', () => {
+    const text = JSON.stringify(buildHomeTabBlocks(homeTabFixtures.noGithubUser))
+
+    expect(text).toContain('ikke koblet til en GitHub-bruker')
+    expect(text).not.toContain('Dine deployments')
+  })
+})
@@ -0,0 +1,369 @@
+import { createServer as createHttpServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { createServer as createTcpServer } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+
+vi.mock('~/db/notification-channels.server', () => ({
+  getChannelsForEvent: vi.fn(),
+  logNotificationDelivery: vi.fn(),
+}))
+
+vi.mock('~/db/user-notifications.server', () => ({
+  getNotificationDeploymentContext: vi.fn(),
+}))
+
+vi.mock('~/lib/slack', () => ({
+  sendDeploymentNotification: vi.fn(),
+  sendDeviationNotification: vi.fn(),
+  sendReminder: vi.fn(),
+}))
+
+// The local HTTP stand-in is on a loopback address, which webhook URLs may not use
+vi.mock('../notifications/webhook-url.server', () => ({
+  checkWebhookUrl: vi.fn(),
+}))
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+import type { NotificationChannel } from '~/db/notification-channels.server'
+import { getChannelsForEvent, logNotificationDelivery } from '~/db/notification-channels.server'
+import { getNotificationDeploymentContext } from '~/db/user-notifications.server'
+import { sendDeploymentNotification, sendDeviationNotification, sendReminder } from '~/lib/slack'
+import { dispatchDeploymentStatusNotification, dispatchNotification } from '../notifications/dispatch.server'
+import { emailChannel, resetEmailTransporter } from '../notifications/email-channel.server'
+import { buildEmailMessage, buildWebhookBody } from '../notifications/format'
+import { postSlackMessage, slackChannel } from '../notifications/slack-channel.server'
+import type { NotificationEvent } from '../notifications/types'
+import { signWebhookBody, webhookChannel } from '../notifications/webhook-channel.server'
+import { checkWebhookUrl } from '../notifications/webhook-url.server'
+
+/**
+ * Tests for the email and webhook notification channels against local SMTP and HTTP stand-ins,
+ * and for dispatching events to the configured channels.
+ */
+
+const mockGetChannels = getChannelsForEvent as Mock
+const mockLogDelivery = logNotificationDelivery as Mock
+const mockGetDeployment = getNotificationDeploymentContext as Mock
+const mockCheckWebhookUrl = checkWebhookUrl as Mock
+
+const deviationEvent: NotificationEvent = {
+  type: 'deviation_registered',
+  deviation: {
+    deploymentId: 42,
+    appName: 'pensjon-pen',
+    environmentName: 'prod-fss',
+    teamSlug: 'pensjondeployer',
+    commitSha: 'abc1234def5678',
+    reason: 'Hotfix <uten> review',
+    severity: 'high',
+    registeredByName: 'Ola Nordmann',
+    detailsUrl: 'https://audit.example/team/pensjondeployer/env/prod-fss/app/pensjon-pen/deployments/42',
+  },
+}
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+// Local HTTP stand-in for a webhook receiver
+let httpServer: Server
+let webhookUrl: string
+let received: ReceivedRequest[] = []
+let responseStatus = 200
+
+beforeAll(async () => {
+  httpServer = createHttpServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      received.push({ headers: req.headers, body })
+      res.statusCode = responseStatus
+      res.end()
+    })
+  })
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve))
+  webhookUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/hooks/deployment-audit`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => httpServer.close(resolve))
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockCheckWebhookUrl.mockResolvedValue(null)
+  received = []
+  responseStatus = 200
+})
+
+describe('buildEmailMessage', () => {
+  it('describes a deviation in subject, text and escaped HTML', () => {
+    const message = buildEmailMessage(deviationEvent)
+    expect(message.subject).toBe('Avvik registrert: pensjon-pen (prod-fss)')
+    expect(message.text).toContain('Beskrivelse: Hotfix <uten> review')
+    expect(message.text).toContain(`Se detaljer: ${deviationEvent.deviation.detailsUrl}`)
+    expect(message.html).toContain('Hotfix &lt;uten&gt; review')
+  })
+})
+
+describe('buildWebhookBody', () => {
+  it('wraps the event data with the event type and send time', () => {
+    const sentAt = new Date('2026-03-01T10:00:00Z')
+    expect(buildWebhookBody(deviationEvent, sentAt)).toEqual({
+      event: 'deviation_registered',
+      sentAt: '2026-03-01T10:00:00.000Z',
+      data: deviationEvent.deviation,
+    })
+  })
+})
+
+describe('webhookChannel', () => {
+  it('posts the event with a signature the receiver can verify', async () => {
+    const result = await webhookChannel.send(deviationEvent, { url: webhookUrl, secret: 'a-long-shared-secret' })
+
+    expect(result).toEqual({ success: true, target: webhookUrl, responseStatus: 200 })
+    expect(received).toHaveLength(1)
+    const [request] = received
+    expect(request.headers['content-type']).toBe('application/json')
+    expect(request.headers['x-deployment-audit-event']).toBe('deviation_registered')
+    expect(request.headers['x-deployment-audit-signature']).toBe(signWebhookBody(request.body, 'a-long-shared-secret'))
+    expect(JSON.parse(request.body)).toMatchObject({ event: 'deviation_registered', data: { deploymentId: 42 } })
+  })
+
+  it('reports non-2xx responses as failed deliveries', async () => {
+    responseStatus = 503
+
+    const result = await webhookChannel.send(deviationEvent, { url: webhookUrl, secret: 'a-long-shared-secret' })
+
+    expect(result).toMatchObject({ success: false, responseStatus: 503, error: 'Mottakeren svarte med en feilstatus' })
+  })
+
+  it('reports unreachable receivers as failed deliveries without the error details', async () => {
+    const result = await webhookChannel.send(deviationEvent, { url: 'http://127.0.0.1:1/', secret: 'x'.repeat(16) })
+
+    expect(result).toMatchObject({ success: false, error: 'Fikk ikke kontakt med mottakeren' })
+  })
+
+  it('does not post to a URL that fails the check', async () => {
+    mockCheckWebhookUrl.mockResolvedValue('Webhook-URL-en kan ikke peke til en intern adresse')
+
+    const result = await webhookChannel.send(deviationEvent, { url: webhookUrl, secret: 'a-long-shared-secret' })
+
+    expect(result).toMatchObject({ success: false, error: 'Webhook-URL-en kan ikke peke til en intern adresse' })
+    expect(received).toHaveLength(0)
+  })
+})
+
+describe('checkWebhookUrl', () => {
+  async function check(url: string) {
+    const actual = await vi.importActual<typeof import('../notifications/webhook-url.server')>(
+      '../notifications/webhook-url.server',
+    )
+    return actual.checkWebhookUrl(url)
+  }
+
+  it('accepts HTTPS URLs to public addresses', async () => {
+    expect(await check('https://93.184.215.14/hooks')).toBeNull()
+    expect(await check('https://[2606:4700::1111]/hooks')).toBeNull()
+  })
+
+  it('rejects other protocols', async () => {
+    expect(await check('http://93.184.215.14/hooks')).toBe('Webhook-URL-en må bruke https')
+    expect(await check('ftp://93.184.215.14/hooks')).toBe('Webhook-URL-en må bruke https')
+    expect(await check('not a url')).toBe('Ugyldig webhook-URL')
+  })
+
+  it.each([
+    'https://localhost/',
+    'https://127.0.0.1/',
+    'https://10.1.2.3/',
+    'https://172.20.0.1/',
+    'https://192.168.1.1/',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/',
+    'https://[fd00::1]/',
+    'https://[::ffff:127.0.0.1]/',
+  ])('rejects internal address %s', async (url) => {
+    expect(await check(url)).toBe('Webhook-URL-en kan ikke peke til en intern adresse')
+  })
+})
+
+describe('emailChannel', () => {
+  // Minimal SMTP stand-in that accepts every message and keeps the DATA section
+  const messages: string[] = []
+  const smtpServer = createTcpServer((socket) => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 localhost ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString()
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end === -1) return
+        messages.push(buffer.substring(0, end))
+        buffer = buffer.substring(end + 5)
+        inData = false
+        socket.write('250 OK queued\r\n')
+      }
+      let lineEnd = buffer.indexOf('\r\n')
+      while (!inData && lineEnd !== -1) {
+        const command = buffer.substring(0, lineEnd).toUpperCase()
+        buffer = buffer.substring(lineEnd + 2)
+        if (command.startsWith('DATA')) {
+          inData = true
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n')
+        } else if (command.startsWith('QUIT')) {
+          socket.end('221 Bye\r\n')
+        } else {
+          socket.write('250 OK\r\n')
+        }
+        lineEnd = buffer.indexOf('\r\n')
+      }
+    })
+  })
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => smtpServer.listen(0, '127.0.0.1', resolve))
+    vi.stubEnv('SMTP_HOST', '127.0.0.1')
+    vi.stubEnv('SMTP_PORT', String((smtpServer.address() as AddressInfo).port))
+    vi.stubEnv('SMTP_FROM', 'deployment-audit@example.com')
+    resetEmailTransporter()
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    resetEmailTransporter()
+    await new Promise((resolve) => smtpServer.close(resolve))
+  })
+
+  it('sends the event to all recipients over SMTP', async () => {
+    const result = await emailChannel.send(deviationEvent, { recipients: ['a@example.com', 'b@example.com'] })
+
+    expect(result).toMatchObject({ success: true, target: 'a@example.com, b@example.com' })
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toContain('Subject: Avvik registrert: pensjon-pen (prod-fss)')
+    expect(messages[0]).toContain('To: a@example.com, b@example.com')
+  })
+
+  it('is unavailable without SMTP configuration', async () => {
+    vi.stubEnv('SMTP_HOST', '')
+
+    expect(emailChannel.isAvailable()).toBe(false)
+    expect(await emailChannel.send(deviationEvent, { recipients: ['a@example.com'] })).toMatchObject({
+      success: false,
+      error: 'SMTP er ikke konfigurert',
+    })
+
+    vi.stubEnv('SMTP_HOST', '127.0.0.1')
+  })
+})
+
+describe('slackChannel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('posts deviation events as deviation messages', async () => {
+    ;(sendDeviationNotification as Mock).mockResolvedValue('1700000000.000100')
+
+    const result = await slackChannel.send(deviationEvent, { channel_id: 'C123' })
+
+    expect(result).toEqual({ success: true, target: 'C123', externalId: '1700000000.000100' })
+    expect(sendDeviationNotification).toHaveBeenCalledWith(deviationEvent.deviation, 'C123')
+    expect(sendDeploymentNotification).not.toHaveBeenCalled()
+  })
+
+  it('reports reminders that could not be posted as failed deliveries', async () => {
+    ;(sendReminder as Mock).mockResolvedValue(null)
+
+    const result = await postSlackMessage(
+      {
+        type: 'reminder',
+        notification: {
+          appName: 'pensjon-pen',
+          environmentName: 'prod-fss',
+          teamSlug: 'pensjondeployer',
+          deployments: [],
+          deploymentsListUrl: 'https://deployment-audit.example/deployments',
+        },
+      },
+      'C123',
+    )
+
+    expect(result).toMatchObject({ success: false, target: 'C123' })
+  })
+})
+
+describe('dispatchNotification', () => {
+  function webhook(id: number, url: string): NotificationChannel {
+    return {
+      id,
+      monitored_app_id: id === 1 ? 7 : null,
+      kind: 'webhook',
+      name: `Webhook ${id}`,
+      config: { url, secret: 'a-long-shared-secret' },
+      events: ['deviation_registered'],
+      enabled: true,
+      created_by: 'Z123456',
+      created_at: new Date(),
+      updated_at: new Date(),
+    }
+  }
+
+  it('delivers to every channel and logs each attempt, also when one fails', async () => {
+    mockGetChannels.mockResolvedValue([webhook(1, 'http://127.0.0.1:1/'), webhook(2, webhookUrl)])
+
+    await dispatchNotification(deviationEvent, 7)
+
+    expect(mockGetChannels).toHaveBeenCalledWith('deviation_registered', 7)
+    expect(received).toHaveLength(1)
+    expect(mockLogDelivery).toHaveBeenCalledTimes(2)
+    expect(mockLogDelivery.mock.calls[0][0]).toMatchObject({ deploymentId: 42, result: { success: false } })
+    expect(mockLogDelivery.mock.calls[1][0]).toMatchObject({
+      channel: { id: 2 },
+      monitoredAppId: 7,
+      eventType: 'deviation_registered',
+      result: { success: true, responseStatus: 200 },
+    })
+  })
+
+  it('never throws when the channels cannot be loaded', async () => {
+    mockGetChannels.mockRejectedValue(new Error('connection refused'))
+
+    await expect(dispatchNotification(deviationEvent, 7)).resolves.toBeUndefined()
+  })
+})
+
+describe('dispatchDeploymentStatusNotification', () => {
+  it('only notifies for statuses that are not approved', async () => {
+    await dispatchDeploymentStatusNotification(42, 'approved')
+
+    expect(mockGetDeployment).not.toHaveBeenCalled()
+  })
+
+  it('sends an unverified deployment event for the app', async () => {
+    mockGetDeployment.mockResolvedValue({
+      id: 42,
+      monitored_app_id: 7,
+      deployer_username: 'developer-a',
+      commit_sha: 'abc1234def5678',
+      title: 'Direkte push til main',
+      github_pr_number: null,
+      github_pr_url: null,
+      team_slug: 'pensjondeployer',
+      environment_name: 'prod-fss',
+      app_name: 'pensjon-pen',
+    })
+    mockGetChannels.mockResolvedValue([])
+
+    await dispatchDeploymentStatusNotification(42, 'direct_push')
+
+    expect(mockGetChannels).toHaveBeenCalledWith('deployment_unverified', 7)
+  })
+})
@@ -0,0 +1,226 @@
+import { beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+
+vi.mock('~/db/user-notifications.server', () => ({
+  claimPendingNotifications: vi.fn(),
+  deleteDeliveredNotifications: vi.fn(),
+  getNotificationDeploymentContext: vi.fn(),
+  getStatusNotificationRecipients: vi.fn(),
+  getDeviationNotificationRecipients: vi.fn(),
+  getUsersWithPendingNotifications: vi.fn(),
+  markNotificationsDelivered: vi.fn(),
+  queueNotification: vi.fn(),
+  releaseNotifications: vi.fn(),
+}))
+
+vi.mock('../slack', () => ({
+  sendPersonalNotification: vi.fn(),
+}))
+
+vi.mock('../auth.server', () => ({
+  getUserIdentityByNavIdent: vi.fn(),
+}))
+
+vi.mock('../authorization.server', () => ({
+  canAccessTeam: vi.fn(),
+}))
+
+vi.mock('../logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+import type { DeploymentDeviation } from '~/db/deviations.server'
+import {
+  claimPendingNotifications,
+  getDeviationNotificationRecipients,
+  getNotificationDeploymentContext,
+  getStatusNotificationRecipients,
+  getUsersWithPendingNotifications,
+  markNotificationsDelivered,
+  queueNotification,
+  releaseNotifications,
+} from '~/db/user-notifications.server'
+import { personalNotificationFixtures } from '../__fixtures__/slack-fixtures'
+import { getUserIdentityByNavIdent } from '../auth.server'
+import { canAccessTeam } from '../authorization.server'
+import { getStatusNotificationType, isDeliveryDue, isValidDigestTime } from '../personal-notifications'
+import {
+  deliverPersonalNotifications,
+  queueDeviationNotifications,
+  queueStatusChangeNotifications,
+} from '../personal-notifications.server'
+import { sendPersonalNotification } from '../slack'
+import { buildPersonalNotificationBlocks } from '../slack/blocks'
+
+/**
+ * Tests for personal notification matching, queueing and digest scheduling.
+ *
+ * The delivery scheduler runs every minute; isDeliveryDue decides whether a user's queued
+ * notifications go out now or wait for the next hourly or daily digest.
+ */
+
+// Local times, as the scheduler compares against server time
+const at = (hours: number, minutes: number, day = 13) => new Date(2026, 1, day, hours, minutes)
+
+describe('isDeliveryDue', () => {
+  it('always delivers immediate notifications', () => {
+    expect(
+      isDeliveryDue({ delivery: 'immediate', digest_time: '09:00', last_delivered_at: at(9, 59) }, at(10, 0)),
+    ).toBe(true)
+  })
+
+  it('delivers hourly digests at most once an hour', () => {
+    const preference = { delivery: 'hourly' as const, digest_time: '09:00', last_delivered_at: at(9, 30) }
+    expect(isDeliveryDue(preference, at(10, 29))).toBe(false)
+    expect(isDeliveryDue(preference, at(10, 30))).toBe(true)
+    expect(isDeliveryDue({ ...preference, last_delivered_at: null }, at(10, 0))).toBe(true)
+  })
+
+  it('delivers daily digests once the digest time has passed', () => {
+    const preference = { delivery: 'daily' as const, digest_time: '09:00', last_delivered_at: at(9, 0, 12) }
+    expect(isDeliveryDue(preference, at(8, 59))).toBe(false)
+    expect(isDeliveryDue(preference, at(9, 0))).toBe(true)
+    expect(isDeliveryDue(preference, at(15, 0))).toBe(true)
+  })
+
+  it('does not deliver a daily digest twice the same day', () => {
+    const preference = { delivery: 'daily' as const, digest_time: '09:00', last_delivered_at: at(9, 1) }
+    expect(isDeliveryDue(preference, at(15, 0))).toBe(false)
+    expect(isDeliveryDue(preference, at(9, 0, 14))).toBe(true)
+  })
+})
+
+describe('getStatusNotificationType', () => {
+  const recipient = { github_username: 'Developer-A', notify_own_unverified: true, statuses: null }
+
+  it('notifies the deployer when their own deployment gets unverified commits', () => {
+    expect(getStatusNotificationType(recipient, 'developer-a', 'unverified_commits')).toBe('own_deployment_unverified')
+    expect(getStatusNotificationType(recipient, 'developer-a', 'approved')).toBeNull()
+    expect(getStatusNotificationType(recipient, 'someone-else', 'unverified_commits')).toBeNull()
+  })
+
+  it('respects the own deployment preference', () => {
+    expect(
+      getStatusNotificationType({ ...recipient, notify_own_unverified: false }, 'developer-a', 'unverified_commits'),
+    ).toBeNull()
+  })
+
+  it('notifies followers about the statuses they follow', () => {
+    const follower = { ...recipient, statuses: ['direct_push', 'unverified_commits'] }
+    expect(getStatusNotificationType(follower, 'someone-else', 'direct_push')).toBe('app_status')
+    expect(getStatusNotificationType(follower, 'someone-else', 'error')).toBeNull()
+  })
+
+  it('notifies a deployer who also follows the app only once, as their own deployment', () => {
+    const follower = { ...recipient, statuses: ['unverified_commits'] }
+    expect(getStatusNotificationType(follower, 'developer-a', 'unverified_commits')).toBe('own_deployment_unverified')
+  })
+})
+
+describe('isValidDigestTime', () => {
+  it('accepts HH:mm and rejects other formats', () => {
+    expect(isValidDigestTime('09:00')).toBe(true)
+    expect(isValidDigestTime('23:59')).toBe(true)
+    expect(isValidDigestTime('24:00')).toBe(false)
+    expect(isValidDigestTime('9:00')).toBe(false)
+  })
+})
+
+describe('buildPersonalNotificationBlocks', () => {
+  it('shows a single notification under its own heading', () => {
+    const blocks = buildPersonalNotificationBlocks(personalNotificationFixtures.single)
+    expect(blocks[0]).toMatchObject({ type: 'header', text: { text: '⚠️ Deploymenten din har uverifiserte commits' } })
+  })
+
+  it('lists every notification in a digest', () => {
+    const blocks = buildPersonalNotificationBlocks(personalNotificationFixtures.digest)
+    expect(blocks[0]).toMatchObject({ type: 'header', text: { text: '🔔 4 nye varsler' } })
+    expect(blocks.filter((b) => b.type === 'section')).toHaveLength(4)
+  })
+})
+
+describe('queueing notifications', () => {
+  const mockQueue = queueNotification as Mock
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(getNotificationDeploymentContext as Mock).mockResolvedValue({
+      id: 42,
+      monitored_app_id: 3,
+      deployer_username: 'developer-a',
+      commit_sha: 'abc1234567',
+      title: 'Fix vedtak',
+      github_pr_number: null,
+      github_pr_url: null,
+      team_slug: 'pensjondeployer',
+      environment_name: 'prod-fss',
+      app_name: 'pensjon-pen',
+    })
+    // A1 can read the team, B2 has lost access, C3 has never logged in
+    ;(getUserIdentityByNavIdent as Mock).mockImplementation(async (navIdent: string) =>
+      navIdent === 'C3' ? null : { navIdent, role: 'user', entraGroups: [], sections: [] },
+    )
+    ;(canAccessTeam as Mock).mockImplementation(async (identity: { navIdent: string }) => identity.navIdent === 'A1')
+  })
+
+  const recipients = [
+    { github_username: 'follower-a', nav_ident: 'A1' },
+    { github_username: 'follower-b', nav_ident: 'B2' },
+    { github_username: 'follower-c', nav_ident: 'C3' },
+    { github_username: 'follower-d', nav_ident: null },
+  ]
+
+  it('only queues status changes for followers who can still read the app', async () => {
+    ;(getStatusNotificationRecipients as Mock).mockResolvedValue(
+      recipients.map((r) => ({ ...r, notify_own_unverified: true, statuses: ['direct_push'] })),
+    )
+
+    await queueStatusChangeNotifications(42, 'direct_push')
+
+    expect(mockQueue).toHaveBeenCalledTimes(1)
+    expect(mockQueue.mock.calls[0][0]).toBe('follower-a')
+  })
+
+  it('only queues deviation events for followers who can still read the app', async () => {
+    ;(getDeviationNotificationRecipients as Mock).mockResolvedValue(recipients)
+
+    await queueDeviationNotifications(
+      { id: 7, deployment_id: 42, reason: 'Manglende review', status: 'open' } as DeploymentDeviation,
+      'deviation_registered',
+    )
+
+    expect(mockQueue).toHaveBeenCalledTimes(1)
+    expect(mockQueue.mock.calls[0][0]).toBe('follower-a')
+  })
+})
+
+describe('deliverPersonalNotifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(getUsersWithPendingNotifications as Mock).mockResolvedValue([
+      {
+        github_username: 'follower-a',
+        slack_member_id: 'U123',
+        delivery: 'immediate',
+        digest_time: '08:00',
+        last_delivered_at: null,
+      },
+    ])
+    ;(claimPendingNotifications as Mock).mockResolvedValue([{ id: 1, event_type: 'status_change', payload: {} }])
+  })
+
+  it('records the delivery time once the DM is sent', async () => {
+    ;(sendPersonalNotification as Mock).mockResolvedValue('1700000000.000100')
+
+    expect(await deliverPersonalNotifications()).toBe(1)
+    expect(markNotificationsDelivered).toHaveBeenCalledWith('follower-a')
+    expect(releaseNotifications).not.toHaveBeenCalled()
+  })
+
+  it('puts the notifications back without recording a delivery when the DM fails', async () => {
+    ;(sendPersonalNotification as Mock).mockResolvedValue(null)
+
+    expect(await deliverPersonalNotifications()).toBe(0)
+    expect(releaseNotifications).toHaveBeenCalledWith([1])
+    expect(markNotificationsDelivered).not.toHaveBeenCalled()
+  })
+})
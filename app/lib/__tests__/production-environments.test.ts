@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS,
+  isProductionApp,
+  parseEnvironmentList,
+} from '../production-environments'
+
+describe('isProductionApp', () => {
+  it('uses the environment list by default', () => {
+    expect(isProductionApp(DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS, { id: 1, environment_name: 'prod-gcp' })).toBe(true)
+    expect(isProductionApp(DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS, { id: 1, environment_name: 'prod-fss' })).toBe(true)
+    expect(isProductionApp(DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS, { id: 1, environment_name: 'dev-gcp' })).toBe(false)
+  })
+
+  it('supports custom environments', () => {
+    const settings = { ...DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS, environments: ['prod-gcp', 'prod-sky'] }
+    expect(isProductionApp(settings, { id: 1, environment_name: 'prod-sky' })).toBe(true)
+    expect(isProductionApp(settings, { id: 1, environment_name: 'prod-fss' })).toBe(false)
+  })
+
+  it('per-app inclusion overrides the environment list', () => {
+    const settings = { ...DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS, production_app_ids: [7] }
+    expect(isProductionApp(settings, { id: 7, environment_name: 'dev-gcp' })).toBe(true)
+    expect(isProductionApp(settings, { id: 8, environment_name: 'dev-gcp' })).toBe(false)
+  })
+
+  it('per-app exclusion overrides the environment list', () => {
+    const settings = { ...DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS, non_production_app_ids: [7] }
+    expect(isProductionApp(settings, { id: 7, environment_name: 'prod-gcp' })).toBe(false)
+    expect(isProductionApp(settings, { id: 8, environment_name: 'prod-gcp' })).toBe(true)
+  })
+})
+
+describe('parseEnvironmentList', () => {
+  it('splits on commas and newlines, trims and removes duplicates', () => {
+    expect(parseEnvironmentList('prod-gcp, prod-fss\nprod-gcp\n\n')).toEqual(['prod-gcp', 'prod-fss'])
+  })
+
+  it('returns an empty list for blank input', () => {
+    expect(parseEnvironmentList('  ')).toEqual([])
+  })
+})
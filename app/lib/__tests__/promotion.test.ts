@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildPromotionTimeline,
+  formatLeadTime,
+  type ProductionPromotion,
+  type PromotionDeployment,
+  summarizePromotions,
+} from '../promotion'
+
+const HOUR = 60 * 60 * 1000
+
+function deployment(overrides: Partial<PromotionDeployment>): PromotionDeployment {
+  return {
+    id: 1,
+    team_slug: 'pensjondeployer',
+    environment_name: 'dev-gcp',
+    app_name: 'pensjon-pen',
+    created_at: new Date('2026-03-10T10:00:00Z'),
+    four_eyes_status: 'approved',
+    is_production: false,
+    ...overrides,
+  }
+}
+
+describe('buildPromotionTimeline', () => {
+  const mergedAt = new Date('2026-03-10T09:00:00Z')
+  const dev = deployment({ id: 1 })
+  const devRedeploy = deployment({ id: 2, created_at: new Date('2026-03-10T12:00:00Z') })
+  const prod = deployment({
+    id: 3,
+    environment_name: 'prod-gcp',
+    created_at: new Date('2026-03-11T10:00:00Z'),
+    is_production: true,
+  })
+
+  it('orders environments by first deployment and measures lead times', () => {
+    const timeline = buildPromotionTimeline({
+      currentDeployment: prod,
+      commitSha: 'abc1234',
+      mergedAt,
+      deployments: [prod, devRedeploy, dev],
+      hasPreProdEnvironment: true,
+    })
+
+    expect(timeline.steps.map((s) => [s.environment_name, s.first_deployment_id, s.deployment_count])).toEqual([
+      ['dev-gcp', 1, 2],
+      ['prod-gcp', 3, 1],
+    ])
+    expect(timeline.leadTimes).toEqual({
+      mergeToPreProdMs: HOUR,
+      preProdToProdMs: 24 * HOUR,
+      mergeToProdMs: 25 * HOUR,
+    })
+    expect(timeline.skippedPreProd).toBe(false)
+  })
+
+  it('flags a production deployment that was not deployed to pre-prod first', () => {
+    const lateDev = deployment({ id: 4, created_at: new Date('2026-03-12T10:00:00Z') })
+    const timeline = buildPromotionTimeline({
+      currentDeployment: prod,
+      commitSha: 'abc1234',
+      mergedAt,
+      deployments: [prod, lateDev],
+      hasPreProdEnvironment: true,
+    })
+
+    expect(timeline.skippedPreProd).toBe(true)
+    expect(timeline.leadTimes.preProdToProdMs).toBeNull()
+  })
+
+  it('does not flag when no pre-prod environment is monitored, or for pre-prod deployments', () => {
+    const prodOnly = buildPromotionTimeline({
+      currentDeployment: prod,
+      commitSha: 'abc1234',
+      mergedAt: null,
+      deployments: [prod],
+      hasPreProdEnvironment: false,
+    })
+    expect(prodOnly.skippedPreProd).toBe(false)
+    expect(prodOnly.leadTimes.mergeToProdMs).toBeNull()
+
+    const devOnly = buildPromotionTimeline({
+      currentDeployment: dev,
+      commitSha: 'abc1234',
+      mergedAt,
+      deployments: [dev],
+      hasPreProdEnvironment: true,
+    })
+    expect(devOnly.skippedPreProd).toBe(false)
+  })
+})
+
+describe('summarizePromotions', () => {
+  const promotions: ProductionPromotion[] = [
+    {
+      deployment_id: 1,
+      commit_sha: 'aaa',
+      merged_at: new Date('2026-03-10T08:00:00Z'),
+      pre_prod_deployed_at: new Date('2026-03-10T09:00:00Z'),
+      deployed_at: new Date('2026-03-10T12:00:00Z'),
+    },
+    {
+      deployment_id: 2,
+      commit_sha: 'bbb',
+      merged_at: new Date('2026-03-10T08:00:00Z'),
+      pre_prod_deployed_at: new Date('2026-03-10T11:00:00Z'),
+      deployed_at: new Date('2026-03-10T18:00:00Z'),
+    },
+    {
+      deployment_id: 3,
+      commit_sha: 'ccc',
+      merged_at: null,
+      pre_prod_deployed_at: null,
+      deployed_at: new Date('2026-03-11T08:00:00Z'),
+    },
+  ]
+
+  it('counts promotions via pre-prod and computes median lead times', () => {
+    const summary = summarizePromotions(promotions, true)
+
+    expect(summary.productionDeployments).toBe(3)
+    expect(summary.promotedViaPreProd).toBe(2)
+    expect(summary.skippedPreProd.map((p) => p.deployment_id)).toEqual([3])
+    expect(summary.medianMergeToPreProdMs).toBe(2 * HOUR)
+    expect(summary.medianPreProdToProdMs).toBe(5 * HOUR)
+    expect(summary.medianMergeToProdMs).toBe(7 * HOUR)
+  })
+
+  it('does not flag anything when the app has no pre-prod environment', () => {
+    expect(summarizePromotions(promotions, false).skippedPreProd).toEqual([])
+  })
+})
+
+describe('formatLeadTime', () => {
+  it('formats minutes, hours and days', () => {
+    expect(formatLeadTime(45 * 60 * 1000)).toBe('45 min')
+    expect(formatLeadTime(3 * HOUR + 20 * 60 * 1000)).toBe('3 t 20 min')
+    expect(formatLeadTime(5 * HOUR)).toBe('5 t')
+    expect(formatLeadTime(52 * HOUR)).toBe('2 d 4 t')
+  })
+})
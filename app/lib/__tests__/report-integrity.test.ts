@@ -0,0 +1,157 @@
+import { generateKeyPairSync } from 'node:crypto'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  canonicalJson,
+  checkUploadedReport,
+  computeChainHash,
+  computeDataHash,
+  type ReportChainEntry,
+  type SignedReportPayload,
+  sha256Hex,
+  verifyReportChain,
+} from '../report-integrity'
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+// The signing key is read once per module instance, so set it before importing
+const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+process.env.AUDIT_REPORT_SIGNING_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+process.env.AUDIT_REPORT_SIGNING_KEY_ID = 'test-key'
+const { getReportPublicKeys, signReportPayload, verifyReportSignature } = await import('../report-signing.server')
+
+function buildChain(contentHashes: string[]): ReportChainEntry[] {
+  const entries: ReportChainEntry[] = []
+  let previous: string | null = null
+  contentHashes.forEach((contentHash, i) => {
+    const chainHash = computeChainHash(previous, contentHash)
+    entries.push({
+      sequence: i + 1,
+      audit_report_id: i + 1,
+      report_id: `AUDIT-${i + 1}`,
+      content_hash: contentHash,
+      previous_chain_hash: previous,
+      chain_hash: chainHash,
+      report_exists: true,
+    })
+    previous = chainHash
+  })
+  return entries
+}
+
+const payload: SignedReportPayload = {
+  report_id: 'AUDIT-2026-M09-pensjon-pen-prod-gcp-abc123',
+  monitored_app_id: 1,
+  period_type: 'monthly',
+  period_start: '2026-09-01',
+  period_end: '2026-09-30',
+  content_hash: 'abc123',
+  data_hash: computeDataHash({ deployments: [] }),
+  pdf_hash: sha256Hex('%PDF-1.7 test'),
+  sequence: 1,
+  previous_chain_hash: null,
+  chain_hash: computeChainHash(null, 'abc123'),
+  signed_at: '2026-10-01T03:00:00.000Z',
+}
+
+describe('canonicalJson', () => {
+  it('is independent of object key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } })).toBe(
+      canonicalJson({ a: { c: null, d: [2, { e: 0, f: 1 }] }, b: 1 }),
+    )
+  })
+
+  it('keeps array order significant', () => {
+    expect(canonicalJson([1, 2])).not.toBe(canonicalJson([2, 1]))
+  })
+})
+
+describe('verifyReportChain', () => {
+  it('accepts an intact chain', () => {
+    expect(verifyReportChain(buildChain(['h1', 'h2', 'h3']))).toEqual([])
+  })
+
+  it('detects a deleted report', () => {
+    const chain = buildChain(['h1', 'h2', 'h3'])
+    chain[1].report_exists = false
+
+    expect(verifyReportChain(chain)).toEqual([{ type: 'missing_report', sequence: 2, report_id: 'AUDIT-2' }])
+  })
+
+  it('treats a regenerated report as superseded, not deleted', () => {
+    const chain = buildChain(['h1', 'h2', 'h3'])
+    chain[0].report_exists = false
+    chain[2].audit_report_id = chain[0].audit_report_id
+
+    expect(verifyReportChain(chain)).toEqual([])
+  })
+
+  it('detects a removed chain entry', () => {
+    const chain = buildChain(['h1', 'h2', 'h3'])
+    chain.splice(1, 1)
+
+    expect(verifyReportChain(chain)).toEqual([
+      { type: 'sequence_gap', sequence: 3, expected: 2 },
+      { type: 'broken_link', sequence: 3 },
+    ])
+  })
+
+  it('detects altered content in an entry', () => {
+    const chain = buildChain(['h1', 'h2'])
+    chain[0].content_hash = 'tampered'
+
+    expect(verifyReportChain(chain)).toEqual([{ type: 'hash_mismatch', sequence: 1 }])
+  })
+})
+
+describe('checkUploadedReport', () => {
+  const encode = (s: string) => new TextEncoder().encode(s)
+
+  it('matches a PDF by its file hash', () => {
+    expect(checkUploadedReport(encode('%PDF-1.7 test'), payload)).toMatchObject({ kind: 'pdf', matches: true })
+    expect(checkUploadedReport(encode('%PDF-1.7 other'), payload)).toMatchObject({ kind: 'pdf', matches: false })
+  })
+
+  it('matches JSON report data regardless of key order, also inside an export', () => {
+    expect(checkUploadedReport(encode('{"deployments":[]}'), payload)).toMatchObject({ kind: 'json', matches: true })
+    expect(checkUploadedReport(encode('{"report_id":"x","report_data":{"deployments":[]}}'), payload)).toMatchObject({
+      kind: 'json',
+      matches: true,
+    })
+    expect(checkUploadedReport(encode('{"deployments":[1]}'), payload)).toMatchObject({ matches: false })
+  })
+
+  it('rejects unknown and invalid files', () => {
+    expect(checkUploadedReport(encode('hello'), payload)).toEqual({ kind: null, hash: null, matches: false })
+    expect(checkUploadedReport(encode('{not json'), payload)).toEqual({ kind: 'json', hash: null, matches: false })
+  })
+})
+
+describe('report signing', () => {
+  it('signs and verifies a payload with the configured key', async () => {
+    const signed = await signReportPayload(payload)
+    expect(signed?.keyId).toBe('test-key')
+
+    const result = await verifyReportSignature(signed?.signature ?? '')
+    expect(result).toEqual({ valid: true, keyId: 'test-key', payload })
+  })
+
+  it('rejects a modified signature', async () => {
+    const signed = await signReportPayload(payload)
+    const [header, body, signature] = (signed?.signature ?? '').split('.')
+    const forgedBody = Buffer.from(JSON.stringify({ ...payload, pdf_hash: 'forged' })).toString('base64url')
+
+    expect(await verifyReportSignature(`${header}.${forgedBody}.${signature}`)).toEqual({
+      valid: false,
+      error: 'Signaturen er ugyldig',
+    })
+    expect(body).not.toBe(forgedBody)
+  })
+
+  it('publishes the public key without private parts', async () => {
+    const [key] = await getReportPublicKeys()
+    expect(key).toMatchObject({ kid: 'test-key', alg: 'ES256', kty: 'EC' })
+    expect(key).not.toHaveProperty('d')
+  })
+})
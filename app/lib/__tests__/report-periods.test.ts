@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest'
-import { generateReportId, getCompletedPeriods, isPeriodCompleted, type ReportPeriod } from '../report-periods'
+import {
+  generateReportId,
+  getCompletedPeriods,
+  getRecentlyCompletedPeriods,
+  isPeriodCompleted,
+  type ReportPeriod,
+} from '../report-periods'
 
 describe('getCompletedPeriods', () => {
   describe('yearly', () => {
@@ -204,6 +210,25 @@ describe('getCompletedPeriods', () => {
   })
 })
 
+describe('getRecentlyCompletedPeriods', () => {
+  it('returns periods that ended within the lookback window', () => {
+    const ref = new Date(2026, 1, 10) // Feb 10, 2026
+    const periods = getRecentlyCompletedPeriods(['yearly', 'quarterly', 'monthly'], 45, ref)
+
+    expect(periods.map((p) => p.label)).toEqual(['2025', 'Q4 2025', 'Januar 2026', 'Desember 2025'])
+  })
+
+  it('returns nothing when no period ended within the window', () => {
+    const ref = new Date(2026, 5, 15) // June 15, 2026
+    expect(getRecentlyCompletedPeriods(['yearly'], 30, ref)).toEqual([])
+  })
+
+  it('respects startYear', () => {
+    const ref = new Date(2026, 0, 5)
+    expect(getRecentlyCompletedPeriods(['yearly'], 30, ref, 2026)).toEqual([])
+  })
+})
+
 describe('isPeriodCompleted', () => {
   it('returns true for past periods', () => {
     const period: ReportPeriod = {
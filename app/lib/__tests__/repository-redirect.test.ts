@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+
+vi.mock('~/db/application-repositories.server', () => ({
+  getRepositoriesByAppId: vi.fn(),
+  recordRepositoryRedirect: vi.fn(),
+  setRepositoryGitHubId: vi.fn(),
+}))
+
+vi.mock('~/lib/github', () => ({
+  getRepositoryIdentity: vi.fn(),
+}))
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+import {
+  getRepositoriesByAppId,
+  recordRepositoryRedirect,
+  setRepositoryGitHubId,
+} from '~/db/application-repositories.server'
+import { getRepositoryIdentity } from '~/lib/github'
+import { approveRenamedRepository } from '~/lib/sync/repository-redirect.server'
+
+const mockGetRepositories = getRepositoriesByAppId as Mock
+const mockRecordRedirect = recordRepositoryRedirect as Mock
+const mockGetIdentity = getRepositoryIdentity as Mock
+const mockSetGitHubId = setRepositoryGitHubId as Mock
+
+function repository(
+  id: number,
+  repoName: string,
+  status: 'active' | 'historical' | 'pending_approval',
+  githubRepoId: string | null = null,
+) {
+  return {
+    id,
+    monitored_app_id: 1,
+    github_owner: 'navikt',
+    github_repo_name: repoName,
+    status,
+    redirects_to_owner: null,
+    redirects_to_repo: null,
+    notes: null,
+    approved_at: null,
+    approved_by: null,
+    github_repo_id: githubRepoId,
+    created_at: new Date('2026-01-01T00:00:00Z'),
+  }
+}
+
+// GitHub resolves both the old and the new name of a renamed repository to the same ID
+const githubIds: Record<string, number> = {
+  'navikt/old-name': 42,
+  'navikt/new-name': 42,
+  'navikt/other-repo': 7,
+}
+
+describe('approveRenamedRepository', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetIdentity.mockImplementation(async (owner: string, repo: string) => {
+      const id = githubIds[`${owner}/${repo}`]
+      return id ? { id, owner, repo } : null
+    })
+    mockRecordRedirect.mockImplementation(async (data) => repository(3, data.githubRepoName, 'active'))
+  })
+
+  it('records the redirect when the detected repository has the same GitHub ID as an active one', async () => {
+    mockGetRepositories.mockResolvedValue([repository(1, 'old-name', 'active'), repository(2, 'ancient', 'historical')])
+
+    const result = await approveRenamedRepository(1, 'navikt', 'new-name')
+
+    expect(result?.github_repo_name).toBe('new-name')
+    expect(mockRecordRedirect).toHaveBeenCalledWith({
+      previousRepositoryId: 1,
+      githubOwner: 'navikt',
+      githubRepoName: 'new-name',
+      githubRepoId: 42,
+      approvedBy: 'system',
+    })
+    // Historical repositories are not compared
+    expect(mockGetIdentity).not.toHaveBeenCalledWith('navikt', 'ancient')
+  })
+
+  it('leaves a different repository to the normal approval flow', async () => {
+    mockGetRepositories.mockResolvedValue([repository(1, 'old-name', 'active')])
+
+    expect(await approveRenamedRepository(1, 'navikt', 'other-repo')).toBeNull()
+    expect(mockRecordRedirect).not.toHaveBeenCalled()
+  })
+
+  it('does not approve when GitHub cannot resolve the detected repository', async () => {
+    mockGetRepositories.mockResolvedValue([repository(1, 'old-name', 'active')])
+
+    expect(await approveRenamedRepository(1, 'navikt', 'unknown')).toBeNull()
+    expect(mockRecordRedirect).not.toHaveBeenCalled()
+  })
+
+  it('stores the GitHub IDs it looks up', async () => {
+    mockGetRepositories.mockResolvedValue([
+      repository(1, 'old-name', 'active'),
+      repository(2, 'other-repo', 'pending_approval'),
+    ])
+
+    expect(await approveRenamedRepository(1, 'navikt', 'other-repo')).toBeNull()
+    expect(mockSetGitHubId).toHaveBeenCalledWith(1, 42)
+    expect(mockSetGitHubId).toHaveBeenCalledWith(2, 7)
+  })
+
+  it('does not ask GitHub again for a pending repository whose ID is stored', async () => {
+    mockGetRepositories.mockResolvedValue([
+      repository(1, 'old-name', 'active', '42'),
+      repository(2, 'other-repo', 'pending_approval', '7'),
+    ])
+
+    expect(await approveRenamedRepository(1, 'navikt', 'other-repo')).toBeNull()
+    expect(mockGetIdentity).not.toHaveBeenCalled()
+    expect(mockSetGitHubId).not.toHaveBeenCalled()
+  })
+
+  it('does nothing for apps without an active repository', async () => {
+    mockGetRepositories.mockResolvedValue([repository(2, 'old-name', 'pending_approval')])
+
+    expect(await approveRenamedRepository(1, 'navikt', 'new-name')).toBeNull()
+    expect(mockGetIdentity).not.toHaveBeenCalled()
+  })
+})
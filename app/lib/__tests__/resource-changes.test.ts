@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest'
+import {
+  classifyDeploymentChange,
+  type DeploymentResource,
+  diffResources,
+  isConfigFile,
+  isNaisManifest,
+  needsChangedFiles,
+} from '../resource-changes'
+import type { PrReview, VerificationInput } from '../verification/types'
+import { verifyDeployment } from '../verification/verify'
+
+/**
+ * Tests for diffing Nais resources and changed files between deployments and classifying the change,
+ * and for the per-app requirement of explicit review for infrastructure changes
+ * (app_settings 'infrastructure_review').
+ */
+
+const application: DeploymentResource = { kind: 'Application', name: 'pensjon-pen' }
+const topic: DeploymentResource = { kind: 'Topic', name: 'pensjon-vedtak' }
+const alert: DeploymentResource = { kind: 'Alert', name: 'pensjon-pen-alerts' }
+
+describe('diffResources', () => {
+  it('finds added and removed resources by kind and name', () => {
+    expect(diffResources([application, alert], [application, topic])).toEqual({
+      added: [topic],
+      removed: [alert],
+    })
+  })
+
+  it('ignores order, duplicates and extra fields', () => {
+    const withId = { ...application, id: 'Application_pensjondeployer_prod-fss_pensjon-pen' }
+    expect(diffResources([topic, application], [withId, topic, topic])).toEqual({ added: [], removed: [] })
+  })
+
+  it('treats a resource with the same name but another kind as a different resource', () => {
+    const unleash = { kind: 'Unleash', name: 'pensjon-pen' }
+    expect(diffResources([application], [unleash])).toEqual({ added: [unleash], removed: [application] })
+  })
+})
+
+describe('classifyDeploymentChange', () => {
+  const previous = { id: 1, commitSha: 'aaa111', resources: [application, topic] }
+
+  it('classifies added or removed resources as infrastructure', () => {
+    const result = classifyDeploymentChange({ commitSha: 'bbb222', resources: [application, topic, alert] }, previous)
+    expect(result).toEqual({
+      changeType: 'infrastructure',
+      changes: { previousDeploymentId: 1, added: [alert], removed: [], files: null },
+    })
+  })
+
+  it('leaves a new commit with the same resources unclassified when the changed files are not known', () => {
+    const result = classifyDeploymentChange({ commitSha: 'bbb222', resources: [topic, application] }, previous)
+    expect(result.changeType).toBeNull()
+    expect(result.changes.previousDeploymentId).toBe(1)
+  })
+
+  it('classifies a redeploy of the same commit with the same resources as config', () => {
+    const result = classifyDeploymentChange({ commitSha: 'aaa111', resources: [application, topic] }, previous)
+    expect(result.changeType).toBe('config')
+  })
+
+  it('leaves the first deployment unclassified', () => {
+    expect(classifyDeploymentChange({ commitSha: 'aaa111', resources: [application] }, null)).toEqual({
+      changeType: null,
+      changes: { previousDeploymentId: null, added: [], removed: [], files: null },
+    })
+  })
+
+  it('classifies a new commit that changes a Nais manifest as infrastructure', () => {
+    const result = classifyDeploymentChange({ commitSha: 'bbb222', resources: [application, topic] }, previous, [
+      '.nais/nais-prod.yaml',
+      'src/main/kotlin/App.kt',
+    ])
+    expect(result.changeType).toBe('infrastructure')
+    expect(result.changes.files).toEqual({ nais: ['.nais/nais-prod.yaml'], config: [], other: 1 })
+  })
+
+  it('classifies a new commit that only changes configuration files as config', () => {
+    const result = classifyDeploymentChange({ commitSha: 'bbb222', resources: [application, topic] }, previous, [
+      'src/main/resources/application-prod.yaml',
+      'config/unleash.json',
+    ])
+    expect(result.changeType).toBe('config')
+  })
+
+  it('classifies a new commit that changes code as code', () => {
+    const result = classifyDeploymentChange({ commitSha: 'bbb222', resources: [application, topic] }, previous, [
+      'src/main/resources/application.yaml',
+      'src/main/kotlin/App.kt',
+    ])
+    expect(result.changeType).toBe('code')
+  })
+
+  it('leaves deployments without a resource list unclassified', () => {
+    const result = classifyDeploymentChange(
+      { commitSha: 'bbb222', resources: [application] },
+      { ...previous, resources: null },
+    )
+    expect(result.changeType).toBeNull()
+    expect(result.changes.previousDeploymentId).toBe(1)
+  })
+})
+
+describe('needsChangedFiles', () => {
+  const previous = { commitSha: 'aaa111', resources: [application] }
+
+  it('needs the files for a new commit with the same resources', () => {
+    expect(needsChangedFiles({ commitSha: 'bbb222', resources: [application] }, previous)).toBe(true)
+  })
+
+  it('does not need the files when the resources or the commit decide the change type', () => {
+    expect(needsChangedFiles({ commitSha: 'bbb222', resources: [application, topic] }, previous)).toBe(false)
+    expect(needsChangedFiles({ commitSha: 'aaa111', resources: [application] }, previous)).toBe(false)
+    expect(needsChangedFiles({ commitSha: 'bbb222', resources: null }, previous)).toBe(false)
+  })
+})
+
+describe('changed file kinds', () => {
+  it('recognises Nais manifests by directory and name', () => {
+    expect(isNaisManifest('.nais/prod.yaml')).toBe(true)
+    expect(isNaisManifest('deploy/nais/topic.yml')).toBe(true)
+    expect(isNaisManifest('nais.yaml')).toBe(true)
+    expect(isNaisManifest('nais-dev-gcp.yaml')).toBe(true)
+    expect(isNaisManifest('.nais/README.md')).toBe(false)
+    expect(isNaisManifest('src/main/resources/naisjob.yaml')).toBe(false)
+  })
+
+  it('recognises configuration files', () => {
+    expect(isConfigFile('src/main/resources/application.properties')).toBe(true)
+    expect(isConfigFile('src/main/resources/application-prod.yaml')).toBe(true)
+    expect(isConfigFile('.env.production')).toBe(true)
+    expect(isConfigFile('config/features.json')).toBe(true)
+    expect(isConfigFile('src/main/kotlin/Application.kt')).toBe(false)
+  })
+})
+
+function makeInput(reviews: PrReview[], overrides: Partial<VerificationInput> = {}): VerificationInput {
+  return {
+    deploymentId: 1000,
+    commitSha: 'deploy-sha-1000',
+    repository: 'navikt/test-app',
+    environmentName: 'prod-fss',
+    baseBranch: 'main',
+    repositoryStatus: 'active',
+    commitOnBaseBranch: true,
+    auditStartYear: 2025,
+    implicitApprovalSettings: { mode: 'all' },
+    infrastructureReviewRequired: true,
+    previousDeployment: { id: 999, commitSha: 'deploy-sha-999', createdAt: '2026-02-26T10:00:00Z' },
+    deployedPr: {
+      number: 100,
+      url: 'https://github.com/navikt/test-app/pull/100',
+      metadata: {
+        number: 100,
+        title: 'Add Kafka topic for vedtak',
+        body: null,
+        state: 'closed',
+        merged: true,
+        draft: false,
+        createdAt: '2026-02-27T10:00:00Z',
+        updatedAt: '2026-02-27T14:00:00Z',
+        mergedAt: '2026-02-27T14:00:00Z',
+        closedAt: '2026-02-27T14:00:00Z',
+        baseBranch: 'main',
+        baseSha: 'base-sha-000',
+        headBranch: 'feature/topic',
+        headSha: 'head-sha-000',
+        mergeCommitSha: 'deploy-sha-1000',
+        author: { username: 'developer-a' },
+        mergedBy: { username: 'third-person' },
+        labels: [],
+        commitsCount: 1,
+        changedFiles: 1,
+        additions: 20,
+        deletions: 0,
+      },
+      reviews,
+      commits: [
+        {
+          sha: 'deploy-sha-1000',
+          message: 'Add Kafka topic for vedtak',
+          authorUsername: 'developer-a',
+          authorDate: '2026-02-27T12:00:00Z',
+          committerDate: '2026-02-27T12:00:00Z',
+          isMergeCommit: false,
+          parentShas: [],
+        },
+      ],
+    },
+    commitsBetween: [
+      {
+        sha: 'deploy-sha-1000',
+        message: 'Add Kafka topic for vedtak',
+        authorUsername: 'developer-a',
+        authorDate: '2026-02-27T12:00:00Z',
+        isMergeCommit: false,
+        parentShas: ['deploy-sha-999'],
+        htmlUrl: 'https://github.com/navikt/test-app/commit/deploy-sha-1000',
+        pr: null,
+      },
+    ],
+    dataFreshness: {
+      deployedPrFetchedAt: new Date('2026-02-28T10:00:00Z'),
+      commitsFetchedAt: new Date('2026-02-28T10:00:00Z'),
+      schemaVersion: 2,
+    },
+    ...overrides,
+  }
+}
+
+describe('verifyDeployment with infrastructure review requirement', () => {
+  const approval: PrReview = {
+    id: 1,
+    username: 'reviewer-b',
+    state: 'APPROVED',
+    submittedAt: '2026-02-27T13:00:00Z',
+    body: null,
+  }
+
+  it('approves an infrastructure change with an approved PR', () => {
+    expect(verifyDeployment(makeInput([approval])).status).toBe('approved')
+  })
+
+  it('does not let implicit approval stand in for review of an infrastructure change', () => {
+    const result = verifyDeployment(makeInput([]))
+    expect(result.status).toBe('unverified_commits')
+    expect(result.hasFourEyes).toBe(false)
+  })
+
+  it('allows implicit approval when the deployment does not change infrastructure', () => {
+    const result = verifyDeployment(makeInput([], { infrastructureReviewRequired: false }))
+    expect(result.status).toBe('implicitly_approved')
+  })
+})
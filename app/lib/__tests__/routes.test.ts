@@ -1,5 +1,5 @@
-import { existsSync } from 'node:fs'
-import { resolve } from 'node:path'
+import { existsSync, readFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
 import { describe, expect, it } from 'vitest'
 import routes from '../../routes'
 
@@ -21,6 +21,52 @@ function flattenRoutes(routeConfigs: typeof routes): { path: string | undefined;
 
 const allRoutes = flattenRoutes(routes)
 
+// Routes that are deliberately reachable without a logged-in user
+const PUBLIC_ROUTES: Record<string, string> = {
+  'routes/api/isalive.ts': 'Nais liveness probe',
+  'routes/api/isready.ts': 'Nais readiness probe',
+  'routes/api/webhooks.github.ts': 'Authenticated by the GitHub webhook signature',
+}
+
+// Loaders and actions that load no app-scoped data, so an authenticated user is enough
+const UNSCOPED_FUNCTIONS: Record<string, string> = {
+  'routes/layout.tsx loader': "Only the user's own identity",
+  'routes/users/$username.tsx action': 'User mappings are shared across sections',
+}
+
+const GUARD_PATTERN =
+  /\b(requireUser|requireAdmin|requireApiAccess|requireAppAccess|requireDeploymentAccess|requireRepositoryAccess)\(/
+// Guards that check the sections of the data, and filters for lists of apps. requireAdmin is global admin.
+const SECTION_GUARD_PATTERN =
+  /\b(requireAdmin|requireAppAccess|requireTeamAccess|requireDeploymentAccess|requireRepositoryAccess|requireSectionAccess|requireApiTeamAccess|canAccessTeam|getReadableTeamFilter)\(/
+
+/**
+ * Source of the loader and action exported by a route file, following `export { action } from './x'`
+ */
+function getRouteFunctionSources(file: string): { name: string; source: string }[] {
+  const filePath = resolve(appDir, file)
+  const content = readFileSync(filePath, 'utf-8')
+  const functions: { name: string; source: string }[] = []
+
+  for (const name of ['loader', 'action']) {
+    const reExport = content.match(new RegExp(`export \\{[^}]*\\b${name}\\b[^}]*\\} from '(\\.[^']+)'`))
+    const source = reExport ? readModule(resolve(dirname(filePath), reExport[1])) : content
+    const start = source.indexOf(`export async function ${name}(`)
+    if (start === -1) continue
+
+    const end = source.indexOf('\n}\n', start)
+    functions.push({ name, source: source.slice(start, end === -1 ? undefined : end) })
+  }
+  return functions
+}
+
+function readModule(pathWithoutExtension: string): string {
+  for (const extension of ['.ts', '.tsx']) {
+    if (existsSync(pathWithoutExtension + extension)) return readFileSync(pathWithoutExtension + extension, 'utf-8')
+  }
+  throw new Error(`Cannot resolve ${pathWithoutExtension}`)
+}
+
 describe('Route configuration', () => {
   it('has routes defined', () => {
     expect(allRoutes.length).toBeGreaterThan(0)
@@ -47,6 +93,34 @@ describe('Route configuration', () => {
     }
   })
 
+  describe('every loader and action has an authorization guard', () => {
+    for (const r of allRoutes.filter((route) => !(route.file in PUBLIC_ROUTES))) {
+      for (const { name, source } of getRouteFunctionSources(r.file)) {
+        it(`${r.file} ${name}`, () => {
+          expect(source).toMatch(GUARD_PATTERN)
+        })
+      }
+    }
+  })
+
+  describe('every loader and action is scoped to sections', () => {
+    for (const r of allRoutes.filter((route) => !(route.file in PUBLIC_ROUTES))) {
+      for (const { name, source } of getRouteFunctionSources(r.file)) {
+        if (`${r.file} ${name}` in UNSCOPED_FUNCTIONS) continue
+        it(`${r.file} ${name}`, () => {
+          expect(source).toMatch(SECTION_GUARD_PATTERN)
+        })
+      }
+    }
+  })
+
+  it('unscoped loaders and actions exist', () => {
+    const functions = allRoutes.flatMap((r) => getRouteFunctionSources(r.file).map(({ name }) => `${r.file} ${name}`))
+    for (const key of Object.keys(UNSCOPED_FUNCTIONS)) {
+      expect(functions).toContain(key)
+    }
+  })
+
   describe('no duplicate URL paths', () => {
     const pathRoutes = allRoutes.filter((r) => r.path !== undefined)
     const paths = pathRoutes.map((r) => r.path)
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  buildFullTextQuery,
+  buildSearchParams,
+  computeSearchFacets,
+  type FullTextSearchHit,
+  getSearchStatusGroup,
+  matchesSearchFilters,
+  parseSearchFilters,
+  splitSearchSnippet,
+} from '../search'
+
+function hit(overrides: Partial<FullTextSearchHit>): FullTextSearchHit {
+  return {
+    id: 1,
+    rank: 0.5,
+    sources: ['pull_request'],
+    snippet: null,
+    title: 'Endre beregning av uføretrygd',
+    app_name: 'pensjon-pen',
+    team_slug: 'pensjondeployer',
+    environment_name: 'prod-fss',
+    four_eyes_status: 'approved',
+    commit_sha: 'abc1234',
+    created_at: new Date(2026, 2, 14),
+    ...overrides,
+  }
+}
+
+describe('buildFullTextQuery', () => {
+  it('requires every word as a prefix', () => {
+    expect(buildFullTextQuery('payment calculation')).toBe('payment:* & calculation:*')
+  })
+
+  it('lowercases, strips operators and keeps Norwegian letters', () => {
+    expect(buildFullTextQuery("Beregning & 'Uføre' | !alder:*")).toBe('beregning:* & uføre:* & alder:*')
+  })
+
+  it('drops single characters and duplicates', () => {
+    expect(buildFullTextQuery('a fix Fix')).toBe('fix:*')
+  })
+
+  it('returns null when there is nothing to search for', () => {
+    expect(buildFullTextQuery('  & | ! ')).toBeNull()
+    expect(buildFullTextQuery('x')).toBeNull()
+  })
+})
+
+describe('getSearchStatusGroup', () => {
+  it('groups four-eyes statuses', () => {
+    expect(getSearchStatusGroup('manually_approved')).toBe('approved')
+    expect(getSearchStatusGroup('direct_push')).toBe('not_approved')
+    expect(getSearchStatusGroup('error')).toBe('not_approved')
+    expect(getSearchStatusGroup('pending_baseline')).toBe('pending')
+    expect(getSearchStatusGroup('legacy_pending')).toBe('legacy')
+  })
+})
+
+describe('parseSearchFilters', () => {
+  it('reads known filters and round-trips through buildSearchParams', () => {
+    const params = new URLSearchParams('q=beregning&team=pensjondeployer&env=prod-fss&status=pending&period=last-month')
+    const filters = parseSearchFilters(params)
+
+    expect(filters).toEqual({
+      team: 'pensjondeployer',
+      environment: 'prod-fss',
+      status: 'pending',
+      period: 'last-month',
+    })
+    expect(buildSearchParams('beregning', filters).toString()).toBe(params.toString())
+  })
+
+  it('ignores unknown status and period values', () => {
+    expect(parseSearchFilters(new URLSearchParams('status=bogus&period=all'))).toEqual({})
+    expect(parseSearchFilters(new URLSearchParams('period=forever'))).toEqual({})
+  })
+})
+
+describe('facets', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const hits = [
+    hit({ id: 1 }),
+    hit({ id: 2, environment_name: 'dev-fss', four_eyes_status: 'pending' }),
+    hit({ id: 3, team_slug: 'pensjonsamhandling', four_eyes_status: 'direct_push' }),
+    hit({ id: 4, created_at: new Date(2025, 0, 10) }),
+  ]
+
+  it('filters hits on every selected facet', () => {
+    vi.useFakeTimers({ now: new Date(2026, 2, 15, 12) })
+
+    const filters = { team: 'pensjondeployer', period: 'last-week' as const }
+    expect(hits.filter((h) => matchesSearchFilters(h, filters)).map((h) => h.id)).toEqual([1, 2])
+  })
+
+  it('counts each facet with the other filters applied but not its own', () => {
+    vi.useFakeTimers({ now: new Date(2026, 2, 15, 12) })
+
+    const facets = computeSearchFacets(hits, { environment: 'prod-fss', status: 'approved' })
+
+    // Environment ignores its own filter, but is narrowed to approved deployments
+    expect(facets.environment).toEqual([{ value: 'prod-fss', label: 'prod-fss', count: 2 }])
+    // Status ignores its own filter: all statuses in prod-fss are offered
+    expect(facets.status.map((f) => [f.value, f.count])).toEqual([
+      ['approved', 2],
+      ['not_approved', 1],
+    ])
+    expect(facets.team).toEqual([{ value: 'pensjondeployer', label: 'pensjondeployer', count: 2 }])
+    expect(facets.period.find((f) => f.value === 'last-week')?.count).toBe(1)
+    expect(facets.period.find((f) => f.value === 'last-year')?.count).toBe(1)
+  })
+})
+
+describe('splitSearchSnippet', () => {
+  it('splits highlighted words from plain text', () => {
+    expect(splitSearchSnippet('Endre <<beregning>> av <<uføretrygd>>')).toEqual([
+      { text: 'Endre ', highlight: false },
+      { text: 'beregning', highlight: true },
+      { text: ' av ', highlight: false },
+      { text: 'uføretrygd', highlight: true },
+    ])
+  })
+
+  it('keeps unterminated markers as plain text', () => {
+    expect(splitSearchSnippet('a << b')).toEqual([{ text: 'a << b', highlight: false }])
+  })
+})
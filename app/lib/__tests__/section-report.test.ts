@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import type { AuditDeploymentEntry, AuditReportData, DeviationEntry } from '~/db/audit-reports.server'
+import { buildSectionReportData, type SectionReportAppInput } from '../section-report'
+
+function deployment(id: number, method: AuditDeploymentEntry['method']): AuditDeploymentEntry {
+  return {
+    id,
+    nais_deployment_id: `nais-${id}`,
+    title: `Deployment ${id}`,
+    date: '2025-03-01T10:00:00.000Z',
+    commit_sha: `sha${id}`,
+    method,
+    deployer: 'dev',
+    approver: 'reviewer',
+  }
+}
+
+function deviation(deploymentId: number, date: string, resolvedAt: string | null = null): DeviationEntry {
+  return {
+    deployment_id: deploymentId,
+    date,
+    commit_sha: `sha${deploymentId}`,
+    reason: 'Merget uten review',
+    breach_type: null,
+    intent: null,
+    severity: 'high',
+    follow_up_role: null,
+    registered_by: 'A123456',
+    registered_by_name: null,
+    resolved_at: resolvedAt,
+    resolution_note: null,
+  }
+}
+
+function reportData(overrides: Partial<AuditReportData> = {}): AuditReportData {
+  return {
+    deployments: [],
+    manual_approvals: [],
+    contributors: [],
+    reviewers: [],
+    legacy_count: 0,
+    deviations: [],
+    unverified_commit_deployments: [],
+    ...overrides,
+  }
+}
+
+function app(overrides: Partial<SectionReportAppInput>): SectionReportAppInput {
+  return {
+    monitored_app_id: 1,
+    app_name: 'pensjon-pen',
+    team_slug: 'pensjondeployer',
+    environment_name: 'prod-gcp',
+    repository: 'navikt/pensjon-pen',
+    report_data: reportData(),
+    audit_report: null,
+    ...overrides,
+  }
+}
+
+describe('buildSectionReportData', () => {
+  it('builds one summary row per app with counts and the per-app report link', () => {
+    const result = buildSectionReportData([
+      app({
+        report_data: reportData({
+          deployments: [deployment(1, 'pr'), deployment(2, 'pr'), deployment(3, 'manual'), deployment(4, 'legacy')],
+          legacy_count: 1,
+          deviations: [
+            deviation(3, '2025-03-02T00:00:00.000Z'),
+            deviation(2, '2025-03-01T00:00:00.000Z', '2025-03-05'),
+          ],
+          unverified_commit_deployments: [
+            {
+              deployment_id: 3,
+              date: '2025-03-01',
+              commit_sha: 'sha3',
+              title: 'Deployment 3',
+              deployer: 'dev',
+              four_eyes_status: 'manually_approved',
+              commits: [
+                { sha: 'a', message: 'a', author: 'dev', date: '', html_url: '', pr_number: null, reason: 'no_pr' },
+                { sha: 'b', message: 'b', author: 'dev', date: '', html_url: '', pr_number: null, reason: 'no_pr' },
+              ],
+            },
+          ],
+        }),
+        audit_report: { id: 42, report_id: 'AUDIT-2025-pensjon-pen-prod-gcp-abcd1234' },
+      }),
+    ])
+
+    expect(result.apps).toEqual([
+      {
+        monitored_app_id: 1,
+        app_name: 'pensjon-pen',
+        team_slug: 'pensjondeployer',
+        environment_name: 'prod-gcp',
+        repository: 'navikt/pensjon-pen',
+        total_deployments: 4,
+        pr_approved_count: 2,
+        manually_approved_count: 1,
+        legacy_count: 1,
+        deviation_count: 2,
+        open_deviation_count: 1,
+        unverified_commit_deployment_count: 1,
+        unverified_commit_count: 2,
+        audit_report_id: 42,
+        audit_report_document_id: 'AUDIT-2025-pensjon-pen-prod-gcp-abcd1234',
+      },
+    ])
+  })
+
+  it('aggregates deviations across apps chronologically with app context', () => {
+    const result = buildSectionReportData([
+      app({
+        monitored_app_id: 1,
+        app_name: 'pensjon-pen',
+        report_data: reportData({ deviations: [deviation(10, '2025-05-01T00:00:00.000Z')] }),
+      }),
+      app({
+        monitored_app_id: 2,
+        app_name: 'pensjon-opptjening',
+        repository: 'navikt/pensjon-opptjening',
+        report_data: reportData({ deviations: [deviation(20, '2025-02-01T00:00:00.000Z')] }),
+      }),
+    ])
+
+    expect(result.deviations.map((d) => [d.app_name, d.deployment_id, d.repository])).toEqual([
+      ['pensjon-opptjening', 20, 'navikt/pensjon-opptjening'],
+      ['pensjon-pen', 10, 'navikt/pensjon-pen'],
+    ])
+  })
+
+  it('sorts apps by team and name and sums the totals', () => {
+    const result = buildSectionReportData([
+      app({
+        monitored_app_id: 1,
+        team_slug: 'teamb',
+        app_name: 'alpha',
+        report_data: reportData({ deployments: [deployment(1, 'pr')] }),
+      }),
+      app({
+        monitored_app_id: 2,
+        team_slug: 'teama',
+        app_name: 'zulu',
+        report_data: reportData({
+          deployments: [deployment(2, 'manual'), deployment(3, 'pr')],
+          deviations: [deviation(2, '2025-01-01')],
+        }),
+      }),
+    ])
+
+    expect(result.apps.map((a) => a.app_name)).toEqual(['zulu', 'alpha'])
+    expect(result.totals).toEqual({
+      app_count: 2,
+      total_deployments: 3,
+      pr_approved_count: 2,
+      manually_approved_count: 1,
+      legacy_count: 0,
+      deviation_count: 1,
+      open_deviation_count: 1,
+      unverified_commit_deployment_count: 0,
+      unverified_commit_count: 0,
+    })
+  })
+
+  it('returns empty totals for a section without apps', () => {
+    const result = buildSectionReportData([])
+    expect(result.apps).toEqual([])
+    expect(result.deviations).toEqual([])
+    expect(result.totals.app_count).toBe(0)
+    expect(result.totals.total_deployments).toBe(0)
+  })
+})
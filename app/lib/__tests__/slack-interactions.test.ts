@@ -0,0 +1,573 @@
+import { App, type Receiver, type ReceiverEvent } from '@slack/bolt'
+import { beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest'
+import { deviationFixtures } from '../__fixtures__/slack-fixtures'
+import { parseDeployAuditCommand } from '../slack/commands'
+import {
+  DEVIATION_FOLLOW_UP_MODAL_CALLBACK_ID,
+  DEVIATION_MODAL_CALLBACK_ID,
+  DEVIATION_RESOLVE_MODAL_CALLBACK_ID,
+} from '../slack/deviation-modals'
+
+vi.mock('~/db/deployments.server', () => ({
+  getAppDeploymentStatsBatch: vi.fn(),
+  getAppsWithIssues: vi.fn(),
+  getDeploymentById: vi.fn(),
+  getIssueDeploymentsPerApp: vi.fn(),
+  searchDeployments: vi.fn(),
+}))
+
+vi.mock('~/db/deviations.server', async (importOriginal) => ({
+  DeviationTransitionError: (await importOriginal<typeof import('~/db/deviations.server')>()).DeviationTransitionError,
+  getDeviationById: vi.fn(),
+  resolveDeviation: vi.fn(),
+  updateDeviationClassification: vi.fn(),
+  updateDeviationStatus: vi.fn(),
+}))
+
+vi.mock('~/db/dev-teams.server', () => ({
+  getAppIdsForDevTeams: vi.fn(),
+  getDevTeamBySlug: vi.fn(),
+}))
+
+vi.mock('~/db/monitored-applications.server', () => ({
+  getAllMonitoredApplications: vi.fn(),
+  getApplicationsByTeam: vi.fn(),
+}))
+
+vi.mock('~/db/user-mappings.server', () => ({
+  getUserMappingBySlackId: vi.fn(),
+}))
+
+vi.mock('~/lib/auth.server', () => ({
+  getUserIdentityByNavIdent: vi.fn(),
+}))
+
+vi.mock('~/lib/authorization.server', () => ({
+  canAccessTeam: vi.fn(),
+  getReadableTeamFilter: vi.fn(),
+}))
+
+vi.mock('~/lib/deviation-registration.server', () => ({
+  getDeviationNotification: vi.fn(),
+  registerDeviation: vi.fn(),
+}))
+
+vi.mock('~/lib/logger.server', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+const deploymentsDb = await import('~/db/deployments.server')
+const deviationsDb = await import('~/db/deviations.server')
+const devTeamsDb = await import('~/db/dev-teams.server')
+const appsDb = await import('~/db/monitored-applications.server')
+const { getUserMappingBySlackId } = await import('~/db/user-mappings.server')
+const { getUserIdentityByNavIdent } = await import('~/lib/auth.server')
+const { canAccessTeam, getReadableTeamFilter } = await import('~/lib/authorization.server')
+const { getDeviationNotification, registerDeviation } = await import('~/lib/deviation-registration.server')
+const { registerSlashCommands } = await import('../slack/commands.server')
+const { registerDeviationHandlers } = await import('../slack/deviations.server')
+
+/**
+ * Receiver that lets tests push payloads straight into the Bolt app
+ */
+class FakeReceiver implements Receiver {
+  private app: App | null = null
+
+  init(app: App) {
+    this.app = app
+  }
+
+  start() {
+    return Promise.resolve()
+  }
+
+  stop() {
+    return Promise.resolve()
+  }
+
+  async send(body: ReceiverEvent['body']) {
+    const ack = vi.fn().mockResolvedValue(undefined)
+    await this.app?.processEvent({ body, ack })
+    return ack
+  }
+}
+
+const deployment = {
+  id: 42,
+  commit_sha: 'abc1234def5678',
+  deployer_username: 'ola',
+  four_eyes_status: 'direct_push',
+  has_four_eyes: false,
+  github_pr_number: null,
+  github_pr_url: null,
+  github_pr_data: null,
+  title: 'hotfix: fiks beregning',
+  created_at: new Date('2026-10-01T10:00:00Z'),
+  app_name: 'pensjon-pen',
+  team_slug: 'pensjondeployer',
+  environment_name: 'prod-gcp',
+}
+
+const mapping = { github_username: 'kari', display_name: 'Kari Nordmann', nav_ident: 'K123456' }
+const identity = { navIdent: 'K123456', role: 'user' as const, entraGroups: ['pensjon'], sections: [] }
+
+let receiver: FakeReceiver
+let app: App
+let respond: MockInstance
+
+interface CommandReply {
+  response_type?: string
+  text: string
+  blocks?: unknown[]
+}
+
+/**
+ * Run a /deploy-audit command. Returns the ack and the reply sent through the response URL, if any.
+ */
+async function command(text: string): Promise<{ ack: ReturnType<typeof vi.fn>; reply: CommandReply | undefined }> {
+  const ack = await receiver.send({
+    command: '/deploy-audit',
+    text,
+    user_id: 'U123',
+    channel_id: 'C123',
+    trigger_id: 'trigger-1',
+    response_url: 'https://hooks.slack.test/commands/1',
+  })
+  return { ack, reply: respond.mock.calls[0]?.[1] }
+}
+
+function blockText(reply: CommandReply | undefined): string {
+  return JSON.stringify(reply?.blocks ?? [])
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getUserMappingBySlackId).mockResolvedValue(mapping as never)
+  vi.mocked(getUserIdentityByNavIdent).mockResolvedValue(identity)
+  vi.mocked(canAccessTeam).mockResolvedValue(true)
+  vi.mocked(getReadableTeamFilter).mockResolvedValue(() => true)
+  receiver = new FakeReceiver()
+  app = new App({
+    token: 'xoxb-test',
+    botId: 'B000',
+    botUserId: 'U000',
+    receiver,
+    tokenVerificationEnabled: false,
+  })
+  registerSlashCommands(app)
+  registerDeviationHandlers(app)
+  vi.spyOn(app.client.views, 'open').mockResolvedValue({ ok: true })
+  vi.spyOn(app.client.chat, 'postMessage').mockResolvedValue({ ok: true })
+  vi.spyOn(app.client.chat, 'postEphemeral').mockResolvedValue({ ok: true })
+  vi.spyOn(app.client.chat, 'update').mockResolvedValue({ ok: true })
+  // Bolt sends respond() to the response URL with its own (private) axios instance
+  const { axios } = app as unknown as { axios: { post: (url: string, body: unknown) => Promise<unknown> } }
+  respond = vi.spyOn(axios, 'post').mockResolvedValue({ status: 200 })
+})
+
+describe('parseDeployAuditCommand', () => {
+  it('parses subcommands and arguments', () => {
+    expect(parseDeployAuditCommand('')).toEqual({ type: 'help' })
+    expect(parseDeployAuditCommand('STATUS pensjon-pen')).toEqual({ type: 'status', app: 'pensjon-pen' })
+    expect(parseDeployAuditCommand('unverified')).toEqual({ type: 'unverified', team: null })
+    expect(parseDeployAuditCommand('unverified  pensjon ')).toEqual({ type: 'unverified', team: 'pensjon' })
+    expect(parseDeployAuditCommand('show abc1234')).toEqual({ type: 'show', query: 'abc1234' })
+    expect(parseDeployAuditCommand('deviation 42')).toEqual({ type: 'deviation', deploymentId: 42 })
+  })
+
+  it('rejects missing arguments and unknown subcommands', () => {
+    expect(parseDeployAuditCommand('status').type).toBe('invalid')
+    expect(parseDeployAuditCommand('deviation abc').type).toBe('invalid')
+    expect(parseDeployAuditCommand('delete 42')).toEqual({ type: 'invalid', message: 'Ukjent kommando `delete`' })
+  })
+})
+
+describe('/deploy-audit', () => {
+  it('status: replies ephemerally with stats for each environment of the app', async () => {
+    vi.mocked(appsDb.getAllMonitoredApplications).mockResolvedValue([
+      { id: 1, app_name: 'pensjon-pen', team_slug: 'pensjondeployer', environment_name: 'prod-gcp' },
+      { id: 2, app_name: 'pensjon-pen', team_slug: 'pensjondeployer', environment_name: 'dev-gcp' },
+      { id: 3, app_name: 'pensjon-opptjening', team_slug: 'pensjondeployer', environment_name: 'prod-gcp' },
+    ] as never)
+    const stats = {
+      total: 10,
+      with_four_eyes: 9,
+      without_four_eyes: 1,
+      pending_verification: 0,
+      last_deployment: null,
+      last_deployment_id: null,
+      four_eyes_percentage: 90,
+    }
+    vi.mocked(deploymentsDb.getAppDeploymentStatsBatch).mockResolvedValue(
+      new Map([
+        [1, stats],
+        [2, stats],
+      ]),
+    )
+
+    const { ack, reply } = await command('status Pensjon-Pen')
+
+    expect(ack).toHaveBeenCalledWith()
+    expect(respond).toHaveBeenCalledWith('https://hooks.slack.test/commands/1', expect.anything())
+    expect(reply?.response_type).toBe('ephemeral')
+    expect(vi.mocked(deploymentsDb.getAppDeploymentStatsBatch).mock.calls[0][0].map((a) => a.id)).toEqual([1, 2])
+    expect(blockText(reply)).toContain('prod-gcp')
+    expect(blockText(reply)).toContain('dev-gcp')
+    expect(blockText(reply)).toContain('9 (90%)')
+  })
+
+  it("status: leaves out apps outside the user's sections", async () => {
+    vi.mocked(appsDb.getAllMonitoredApplications).mockResolvedValue([
+      { id: 1, app_name: 'pensjon-pen', team_slug: 'pensjondeployer', environment_name: 'prod-gcp' },
+    ] as never)
+    vi.mocked(getReadableTeamFilter).mockResolvedValue((team) => team !== 'pensjondeployer')
+
+    const { reply } = await command('status pensjon-pen')
+
+    expect(reply?.text).toBe('Fant ingen overvåket applikasjon med navn `pensjon-pen`.')
+    expect(deploymentsDb.getAppDeploymentStatsBatch).not.toHaveBeenCalled()
+  })
+
+  it('refuses queries from users who have never logged in to the web app', async () => {
+    vi.mocked(getUserIdentityByNavIdent).mockResolvedValue(null)
+
+    const { reply } = await command('unverified')
+
+    expect(reply?.text).toContain('Logg inn i webappen')
+    expect(deploymentsDb.getAppsWithIssues).not.toHaveBeenCalled()
+  })
+
+  it('unverified: limits the list to the apps of a dev team', async () => {
+    vi.mocked(devTeamsDb.getDevTeamBySlug).mockResolvedValue({ id: 7, slug: 'pensjon', name: 'Team Pensjon' } as never)
+    vi.mocked(devTeamsDb.getAppIdsForDevTeams).mockResolvedValue([1, 3])
+    vi.mocked(deploymentsDb.getAppsWithIssues).mockResolvedValue([
+      {
+        app_name: 'pensjon-pen',
+        team_slug: 'pensjondeployer',
+        environment_name: 'prod-gcp',
+        without_four_eyes: 2,
+        pending_verification: 0,
+        alert_count: 0,
+      },
+    ])
+    vi.mocked(deploymentsDb.getIssueDeploymentsPerApp).mockResolvedValue(
+      new Map([['pensjondeployer/prod-gcp/pensjon-pen', [deployment]]]),
+    )
+
+    const { reply } = await command('unverified pensjon')
+
+    expect(deploymentsDb.getAppsWithIssues).toHaveBeenCalledWith([1, 3])
+    expect(blockText(reply)).toContain('Team Pensjon')
+    expect(blockText(reply)).toContain('2 uten godkjenning')
+    expect(blockText(reply)).toContain('/deployments/42|#42')
+  })
+
+  it('unverified: falls back to a Nais team and reports unknown teams', async () => {
+    vi.mocked(devTeamsDb.getDevTeamBySlug).mockResolvedValue(null)
+    vi.mocked(appsDb.getApplicationsByTeam).mockResolvedValue([])
+
+    const { reply } = await command('unverified finnes-ikke')
+
+    expect(reply?.text).toBe('Fant ikke team `finnes-ikke`.')
+    expect(deploymentsDb.getAppsWithIssues).not.toHaveBeenCalled()
+  })
+
+  it('show: shows a single match with approve and deviation actions', async () => {
+    vi.mocked(deploymentsDb.searchDeployments).mockResolvedValue([
+      { type: 'deployment', id: 42, url: '/team/x/env/y/app/z/deployments/42', title: 'abc1234' },
+    ])
+    vi.mocked(deploymentsDb.getDeploymentById).mockResolvedValue(deployment as never)
+
+    const { reply } = await command('show abc1234')
+
+    expect(deploymentsDb.searchDeployments).toHaveBeenCalledWith('abc1234', 10, {}, expect.any(Function))
+    expect(blockText(reply)).toContain('"action_id":"approve_deployment"')
+    expect(blockText(reply)).toContain('"action_id":"open_deviation_modal"')
+  })
+
+  it('show: lists several matches', async () => {
+    vi.mocked(deploymentsDb.searchDeployments).mockResolvedValue([
+      { type: 'deployment', id: 42, url: '/d/42', title: 'abc1234', subtitle: 'pensjon-pen • ola' },
+      { type: 'deployment', id: 43, url: '/d/43', title: 'abc1299', subtitle: 'pensjon-pen • kari' },
+    ])
+
+    const { reply } = await command('show abc12')
+
+    expect(deploymentsDb.getDeploymentById).not.toHaveBeenCalled()
+    expect(blockText(reply)).toContain('2 deployments matcher')
+  })
+
+  it('deviation: opens the modal for a mapped user', async () => {
+    vi.mocked(deploymentsDb.getDeploymentById).mockResolvedValue(deployment as never)
+
+    const { ack, reply } = await command('deviation 42')
+
+    expect(ack).toHaveBeenCalledWith()
+    expect(ack.mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(getUserMappingBySlackId).mock.invocationCallOrder[0])
+    expect(reply).toBeUndefined()
+    expect(app.client.views.open).toHaveBeenCalledWith({
+      trigger_id: 'trigger-1',
+      view: expect.objectContaining({
+        callback_id: DEVIATION_MODAL_CALLBACK_ID,
+        private_metadata: JSON.stringify({ deploymentId: 42 }),
+      }),
+    })
+  })
+
+  it('deviation: refuses users without a NAV ident', async () => {
+    vi.mocked(getUserMappingBySlackId).mockResolvedValue(null)
+
+    const { reply } = await command('deviation 42')
+
+    expect(reply?.text).toContain('ikke koblet til en NAV-ident')
+    expect(app.client.views.open).not.toHaveBeenCalled()
+  })
+
+  it("deviation: refuses deployments of apps outside the user's sections", async () => {
+    vi.mocked(deploymentsDb.getDeploymentById).mockResolvedValue(deployment as never)
+    vi.mocked(canAccessTeam).mockResolvedValue(false)
+
+    const { reply } = await command('deviation 42')
+
+    expect(canAccessTeam).toHaveBeenCalledWith(identity, 'pensjondeployer', 'read')
+    expect(reply?.text).toBe('Du har ikke tilgang til denne applikasjonen.')
+    expect(app.client.views.open).not.toHaveBeenCalled()
+  })
+})
+
+describe('deviation modal submission', () => {
+  function submit(values: Record<string, unknown>) {
+    return receiver.send({
+      type: 'view_submission',
+      user: { id: 'U123' },
+      view: {
+        id: 'V1',
+        callback_id: DEVIATION_MODAL_CALLBACK_ID,
+        private_metadata: JSON.stringify({ deploymentId: 42 }),
+        state: { values },
+      },
+    })
+  }
+
+  it('registers the deviation with the submitted fields', async () => {
+    vi.mocked(deploymentsDb.getDeploymentById).mockResolvedValue(deployment as never)
+    vi.mocked(registerDeviation).mockResolvedValue({ id: 1 } as never)
+
+    const ack = await submit({
+      reason: { value: { type: 'plain_text_input', value: ' Deployet uten review ' } },
+      breach_type: { value: { type: 'plain_text_input', value: null } },
+      intent: { value: { type: 'radio_buttons', selected_option: { value: 'accidental' } } },
+      severity: { value: { type: 'radio_buttons', selected_option: { value: 'high' } } },
+      follow_up_role: { value: { type: 'static_select', selected_option: { value: 'not-a-role' } } },
+    })
+
+    expect(ack).toHaveBeenCalledWith()
+    expect(registerDeviation).toHaveBeenCalledWith({
+      deploymentId: 42,
+      reason: 'Deployet uten review',
+      breachType: undefined,
+      intent: 'accidental',
+      severity: 'high',
+      followUpRole: undefined,
+      registeredBy: 'K123456',
+      registeredByName: 'Kari Nordmann',
+    })
+    expect(app.client.chat.postMessage).toHaveBeenCalledWith({
+      channel: 'U123',
+      text: '📝 Avvik registrert på deployment #42.',
+    })
+  })
+
+  it('returns a field error when the description is empty', async () => {
+    const ack = await submit({ reason: { value: { type: 'plain_text_input', value: '  ' } } })
+
+    expect(ack).toHaveBeenCalledWith({
+      response_action: 'errors',
+      errors: { reason: 'Beskrivelse av avvik er påkrevd' },
+    })
+    expect(registerDeviation).not.toHaveBeenCalled()
+  })
+})
+
+describe('deviation follow-up from the deviation message', () => {
+  const deviation = {
+    id: 7,
+    deployment_id: 42,
+    reason: 'Deployet uten review',
+    breach_type: null,
+    intent: 'unknown',
+    severity: 'medium',
+    follow_up_role: null,
+    status: 'open',
+  }
+  const metadata = { deviationId: 7, channelId: 'C-AVVIK', messageTs: '1700000000.000100' }
+
+  function clickButton(actionId: string) {
+    return receiver.send({
+      type: 'block_actions',
+      user: { id: 'U123' },
+      trigger_id: 'trigger-2',
+      channel: { id: 'C-AVVIK' },
+      message: { ts: '1700000000.000100' },
+      container: { type: 'message', channel_id: 'C-AVVIK', message_ts: '1700000000.000100' },
+      actions: [
+        {
+          type: 'button',
+          action_id: actionId,
+          block_id: 'actions',
+          value: JSON.stringify({ deviationId: 7 }),
+          action_ts: '1700000001.000100',
+        },
+      ],
+    })
+  }
+
+  function submit(callbackId: string, values: Record<string, unknown>) {
+    return receiver.send({
+      type: 'view_submission',
+      user: { id: 'U123' },
+      view: { id: 'V2', callback_id: callbackId, private_metadata: JSON.stringify(metadata), state: { values } },
+    })
+  }
+
+  function renderedActionIds(): string[] {
+    const { blocks } = vi.mocked(app.client.chat.update).mock.calls[0][0] as { blocks: unknown[] }
+    return JSON.stringify(blocks).match(/"action_id":"[a-z_]+"/g) ?? []
+  }
+
+  beforeEach(() => {
+    vi.mocked(deviationsDb.getDeviationById).mockResolvedValue(deviation as never)
+    vi.mocked(deploymentsDb.getDeploymentById).mockResolvedValue(deployment as never)
+  })
+
+  it('shows follow-up buttons only on open, stored deviations', async () => {
+    const { buildDeviationBlocks } = await import('../slack/blocks')
+    const actionIds = (n: Parameters<typeof buildDeviationBlocks>[0]) =>
+      JSON.stringify(buildDeviationBlocks(n)).match(/"action_id":"[a-z_]+"/g)
+
+    expect(actionIds(deviationFixtures.standard)).toEqual([
+      '"action_id":"view_deviation"',
+      '"action_id":"edit_deviation"',
+      '"action_id":"resolve_deviation"',
+    ])
+    expect(actionIds(deviationFixtures.closed)).toEqual(['"action_id":"view_deviation"'])
+    expect(actionIds(deviationFixtures.shortReason)).toEqual(['"action_id":"view_deviation"'])
+  })
+
+  it('opens the follow-up modal prefilled, pointing back at the message', async () => {
+    await clickButton('edit_deviation')
+
+    expect(app.client.views.open).toHaveBeenCalledWith({
+      trigger_id: 'trigger-2',
+      view: expect.objectContaining({
+        callback_id: DEVIATION_FOLLOW_UP_MODAL_CALLBACK_ID,
+        private_metadata: JSON.stringify(metadata),
+      }),
+    })
+    const { view } = vi.mocked(app.client.views.open).mock.calls[0][0] as { view: { blocks: unknown[] } }
+    expect(JSON.stringify(view.blocks)).toContain('"initial_option":{"text":{"type":"plain_text","text":"Middels"')
+  })
+
+  it('refuses to open modals for unmapped users', async () => {
+    vi.mocked(getUserMappingBySlackId).mockResolvedValue(null)
+
+    await clickButton('resolve_deviation')
+
+    expect(app.client.views.open).not.toHaveBeenCalled()
+    expect(app.client.chat.postEphemeral).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'C-AVVIK', user: 'U123' }),
+    )
+  })
+
+  it('updates status and classification as the mapped user and re-renders the message', async () => {
+    vi.mocked(getDeviationNotification).mockResolvedValue({ ...deviationFixtures.standard, severity: 'critical' })
+
+    const ack = await submit(DEVIATION_FOLLOW_UP_MODAL_CALLBACK_ID, {
+      status: { value: { type: 'static_select', selected_option: { value: 'under_investigation' } } },
+      breach_type: { value: { type: 'plain_text_input', value: 'Rutine for endringshåndtering' } },
+      intent: { value: { type: 'radio_buttons', selected_option: { value: 'accidental' } } },
+      severity: { value: { type: 'radio_buttons', selected_option: { value: 'critical' } } },
+      follow_up_role: { value: { type: 'static_select', selected_option: null } },
+    })
+
+    expect(ack).toHaveBeenCalledWith()
+    expect(deviationsDb.updateDeviationStatus).toHaveBeenCalledWith({
+      id: 7,
+      status: 'under_investigation',
+      changed_by: 'K123456',
+      changed_by_name: 'Kari Nordmann',
+    })
+    expect(deviationsDb.updateDeviationClassification).toHaveBeenCalledWith({
+      id: 7,
+      breach_type: 'Rutine for endringshåndtering',
+      intent: 'accidental',
+      severity: 'critical',
+      follow_up_role: undefined,
+    })
+    expect(app.client.chat.update).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'C-AVVIK', ts: '1700000000.000100' }),
+    )
+    expect(JSON.stringify(vi.mocked(app.client.chat.update).mock.calls[0][0])).toContain('Kritisk')
+  })
+
+  it("refuses changes to deviations on apps outside the user's sections", async () => {
+    vi.mocked(canAccessTeam).mockResolvedValue(false)
+
+    const ack = await submit(DEVIATION_RESOLVE_MODAL_CALLBACK_ID, {
+      resolution_note: { value: { type: 'plain_text_input', value: 'Gjennomgått i etterkant' } },
+    })
+
+    expect(ack).toHaveBeenCalledWith({
+      response_action: 'errors',
+      errors: { resolution_note: 'Du har ikke tilgang til denne applikasjonen.' },
+    })
+    expect(deviationsDb.resolveDeviation).not.toHaveBeenCalled()
+  })
+
+  it('shows a refused status change in the modal', async () => {
+    const { DeviationTransitionError } = deviationsDb
+    vi.mocked(deviationsDb.updateDeviationStatus).mockRejectedValue(
+      new DeviationTransitionError('action_required', 'open'),
+    )
+
+    const ack = await submit(DEVIATION_FOLLOW_UP_MODAL_CALLBACK_ID, {
+      status: { value: { type: 'static_select', selected_option: { value: 'action_required' } } },
+    })
+
+    expect(ack).toHaveBeenCalledWith({
+      response_action: 'errors',
+      errors: { status: 'Statusendringen er ikke tillatt' },
+    })
+    expect(app.client.chat.update).not.toHaveBeenCalled()
+  })
+
+  it('closes the deviation through resolveDeviation and removes the buttons', async () => {
+    vi.mocked(deviationsDb.resolveDeviation).mockResolvedValue({ ...deviation, status: 'closed' } as never)
+    vi.mocked(getDeviationNotification).mockResolvedValue(deviationFixtures.closed)
+
+    const ack = await submit(DEVIATION_RESOLVE_MODAL_CALLBACK_ID, {
+      resolution_note: { value: { type: 'plain_text_input', value: 'Gjennomgått i etterkant' } },
+    })
+
+    expect(ack).toHaveBeenCalledWith()
+    expect(deviationsDb.resolveDeviation).toHaveBeenCalledWith({
+      id: 7,
+      resolved_by: 'K123456',
+      resolved_by_name: 'Kari Nordmann',
+      resolution_note: 'Gjennomgått i etterkant',
+    })
+    expect(renderedActionIds()).toEqual(['"action_id":"view_deviation"'])
+  })
+
+  it('requires a resolution note', async () => {
+    const ack = await submit(DEVIATION_RESOLVE_MODAL_CALLBACK_ID, {
+      resolution_note: { value: { type: 'plain_text_input', value: '' } },
+    })
+
+    expect(ack).toHaveBeenCalledWith({
+      response_action: 'errors',
+      errors: { resolution_note: 'Beskriv hvordan avviket er fulgt opp før det lukkes' },
+    })
+    expect(deviationsDb.resolveDeviation).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest'
+import type { PrChecks, PrCommit, PrReview, TestRequirementSettings, VerificationInput } from '../verification/types'
+import { checkTestRequirement, verifyDeployment } from '../verification/verify'
+
+/**
+ * Tests for the per-app test requirement (monitored_applications.test_requirement).
+ *
+ * An otherwise approved deployment is downgraded to missing_required_tests
+ * when the configured check runs did not pass on the deployed commit, and to
+ * pending while they are still running.
+ */
+
+function makeCheckRun(name: string, conclusion: string | null, status: 'completed' | 'in_progress' = 'completed') {
+  return { id: name.length, name, status, conclusion, startedAt: null, completedAt: null }
+}
+
+function makeChecks(overrides: Partial<PrChecks> = {}): PrChecks {
+  return {
+    conclusion: 'success',
+    checkRuns: [],
+    statuses: [],
+    ...overrides,
+  }
+}
+
+function settings(
+  level: TestRequirementSettings['level'],
+  checks: Partial<TestRequirementSettings['checks']> = {},
+): TestRequirementSettings {
+  return { level, checks: { unit_tests: [], integration_tests: [], ...checks } }
+}
+
+const prCommit: PrCommit = {
+  sha: 'deploy-sha-1000',
+  message: 'Add feature',
+  authorUsername: 'developer-a',
+  authorDate: '2026-02-27T12:00:00Z',
+  committerDate: '2026-02-27T12:00:00Z',
+  isMergeCommit: false,
+  parentShas: [],
+}
+
+const approval: PrReview = {
+  id: 1,
+  username: 'reviewer-b',
+  state: 'APPROVED',
+  submittedAt: '2026-02-27T13:00:00Z',
+  body: null,
+}
+
+function makeApprovedInput(
+  testRequirement: TestRequirementSettings | undefined,
+  checks: PrChecks | null,
+  prHeadChecks: PrChecks | null = null,
+): VerificationInput {
+  return {
+    deploymentId: 1000,
+    commitSha: 'deploy-sha-1000',
+    repository: 'navikt/test-app',
+    environmentName: 'prod-fss',
+    baseBranch: 'main',
+    repositoryStatus: 'active',
+    commitOnBaseBranch: true,
+    auditStartYear: 2025,
+    implicitApprovalSettings: { mode: 'off' },
+    testRequirement,
+    deployedCommitChecks: checks,
+    previousDeployment: { id: 999, commitSha: 'deploy-sha-999', createdAt: '2026-02-26T10:00:00Z' },
+    deployedPr: {
+      number: 100,
+      url: 'https://github.com/navikt/test-app/pull/100',
+      metadata: {
+        number: 100,
+        title: 'Add feature',
+        body: null,
+        state: 'closed',
+        merged: true,
+        draft: false,
+        createdAt: '2026-02-27T10:00:00Z',
+        updatedAt: '2026-02-27T14:00:00Z',
+        mergedAt: '2026-02-27T14:00:00Z',
+        closedAt: '2026-02-27T14:00:00Z',
+        baseBranch: 'main',
+        baseSha: 'base-sha-000',
+        headBranch: 'feature/test',
+        headSha: 'head-sha-000',
+        mergeCommitSha: 'deploy-sha-1000',
+        author: { username: 'developer-a' },
+        mergedBy: { username: 'reviewer-b' },
+        labels: [],
+        commitsCount: 1,
+        changedFiles: 1,
+        additions: 5,
+        deletions: 2,
+      },
+      reviews: [approval],
+      commits: [prCommit],
+      checks: prHeadChecks,
+    },
+    commitsBetween: [
+      {
+        sha: 'deploy-sha-1000',
+        message: 'Add feature',
+        authorUsername: 'developer-a',
+        authorDate: '2026-02-27T12:00:00Z',
+        isMergeCommit: false,
+        parentShas: ['deploy-sha-999'],
+        htmlUrl: 'https://github.com/navikt/test-app/commit/deploy-sha-1000',
+        pr: null,
+      },
+    ],
+    dataFreshness: {
+      deployedPrFetchedAt: new Date('2026-02-28T10:00:00Z'),
+      commitsFetchedAt: new Date('2026-02-28T10:00:00Z'),
+      schemaVersion: 2,
+    },
+  }
+}
+
+describe('checkTestRequirement', () => {
+  it('is always satisfied for level none', () => {
+    expect(checkTestRequirement(settings('none'), null).satisfied).toBe(true)
+  })
+
+  it('requires the configured unit test check to succeed', () => {
+    const checks = makeChecks({ checkRuns: [makeCheckRun('Unit tests', 'success')] })
+    expect(checkTestRequirement(settings('unit_tests', { unit_tests: ['unit tests'] }), checks).satisfied).toBe(true)
+  })
+
+  it('reports a failed required check as missing', () => {
+    const checks = makeChecks({ checkRuns: [makeCheckRun('unit', 'failure')] })
+    const result = checkTestRequirement(settings('unit_tests', { unit_tests: ['unit'] }), checks)
+    expect(result.satisfied).toBe(false)
+    expect(result.missingChecks).toEqual(['unit'])
+  })
+
+  it('accepts a successful commit status with the required context', () => {
+    const checks = makeChecks({
+      statuses: [{ context: 'ci/unit', state: 'success', description: null, targetUrl: null }],
+    })
+    expect(checkTestRequirement(settings('unit_tests', { unit_tests: ['ci/unit'] }), checks).satisfied).toBe(true)
+  })
+
+  it('requires both unit and integration checks for level integration_tests', () => {
+    const checks = makeChecks({ checkRuns: [makeCheckRun('unit', 'success')] })
+    const result = checkTestRequirement(
+      settings('integration_tests', { unit_tests: ['unit'], integration_tests: ['integration'] }),
+      checks,
+    )
+    expect(result.satisfied).toBe(false)
+    expect(result.missingChecks).toEqual(['integration'])
+  })
+
+  it('requires all check runs to pass when no check names are configured', () => {
+    const passing = makeChecks({ checkRuns: [makeCheckRun('build', 'success'), makeCheckRun('lint', 'skipped')] })
+    expect(checkTestRequirement(settings('unit_tests'), passing).satisfied).toBe(true)
+
+    const running = makeChecks({ checkRuns: [makeCheckRun('build', null, 'in_progress')] })
+    expect(checkTestRequirement(settings('unit_tests'), running).missingChecks).toEqual(['build'])
+  })
+
+  it('is not satisfied when no check runs exist', () => {
+    const result = checkTestRequirement(settings('unit_tests'), makeChecks())
+    expect(result.satisfied).toBe(false)
+    expect(result.pending).toBe(false)
+  })
+
+  it('is pending when the checks could not be fetched', () => {
+    const result = checkTestRequirement(settings('unit_tests'), null)
+    expect(result.satisfied).toBe(false)
+    expect(result.pending).toBe(true)
+  })
+
+  it('is pending while a required check is still running', () => {
+    const running = makeChecks({
+      checkRuns: [makeCheckRun('unit', null, 'in_progress')],
+      statuses: [{ context: 'ci/integration', state: 'pending', description: null, targetUrl: null }],
+    })
+    const result = checkTestRequirement(
+      settings('integration_tests', { unit_tests: ['unit'], integration_tests: ['ci/integration'] }),
+      running,
+    )
+    expect(result.pending).toBe(true)
+    expect(result.missingChecks).toEqual(['unit', 'ci/integration'])
+  })
+
+  it('is not pending when another required check has failed', () => {
+    const checks = makeChecks({
+      checkRuns: [makeCheckRun('unit', 'failure'), makeCheckRun('integration', null, 'in_progress')],
+    })
+    const result = checkTestRequirement(
+      settings('integration_tests', { unit_tests: ['unit'], integration_tests: ['integration'] }),
+      checks,
+    )
+    expect(result.pending).toBe(false)
+  })
+})
+
+describe('verifyDeployment with test requirement', () => {
+  it('keeps approved status when no test requirement is configured', () => {
+    const result = verifyDeployment(makeApprovedInput(undefined, null))
+    expect(result.status).toBe('approved')
+    expect(result.hasFourEyes).toBe(true)
+  })
+
+  it('keeps approved status when required checks passed', () => {
+    const checks = makeChecks({ checkRuns: [makeCheckRun('unit', 'success')] })
+    const result = verifyDeployment(makeApprovedInput(settings('unit_tests', { unit_tests: ['unit'] }), checks))
+    expect(result.status).toBe('approved')
+  })
+
+  it('returns missing_required_tests when required checks did not pass', () => {
+    const checks = makeChecks({ checkRuns: [makeCheckRun('unit', 'failure')] })
+    const result = verifyDeployment(makeApprovedInput(settings('unit_tests', { unit_tests: ['unit'] }), checks))
+    expect(result.status).toBe('missing_required_tests')
+    expect(result.hasFourEyes).toBe(false)
+    expect(result.approvalDetails.reason).toContain('unit')
+  })
+
+  it('returns pending while required checks on the deployed commit are running', () => {
+    const checks = makeChecks({ checkRuns: [makeCheckRun('unit', null, 'in_progress')] })
+    const result = verifyDeployment(makeApprovedInput(settings('unit_tests', { unit_tests: ['unit'] }), checks))
+    expect(result.status).toBe('pending')
+    expect(result.hasFourEyes).toBe(false)
+  })
+
+  it('uses the checks on the deployed commit, not the PR head', () => {
+    const commitChecks = makeChecks({ checkRuns: [makeCheckRun('unit', 'success')] })
+    const prHeadChecks = makeChecks({ checkRuns: [makeCheckRun('unit', null, 'in_progress')] })
+    const result = verifyDeployment(
+      makeApprovedInput(settings('unit_tests', { unit_tests: ['unit'] }), commitChecks, prHeadChecks),
+    )
+    expect(result.status).toBe('approved')
+  })
+})
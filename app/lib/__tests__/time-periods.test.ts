@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from 'vitest'
-import { getDateRangeForPeriod, type TimePeriod } from '../time-periods'
+import { getDateRangeForPeriod, parseTimePeriod, type TimePeriod } from '../time-periods'
 
 function expectRange(period: TimePeriod) {
   const result = getDateRangeForPeriod(period)
@@ -132,3 +132,11 @@ describe('getDateRangeForPeriod', () => {
     expect(getDateRangeForPeriod('invalid' as TimePeriod)).toBeNull()
   })
 })
+
+describe('parseTimePeriod', () => {
+  it('returns known periods and falls back for missing or unknown values', () => {
+    expect(parseTimePeriod('last-year', 'last-week')).toBe('last-year')
+    expect(parseTimePeriod(null, 'current-tertial')).toBe('current-tertial')
+    expect(parseTimePeriod('bogus', 'current-tertial')).toBe('current-tertial')
+  })
+})
@@ -9,6 +9,7 @@ import { verifyDeployment, verifyFourEyesFromPrData } from '../verification/veri
  * - Case 1: pending_baseline (no previousDeployment)
  * - Case 2a: no_changes (empty commitsBetween, same SHA)
  * - Case 2b: compare error (empty commitsBetween, different SHAs)
+ * - Case 2c: rollback (empty commitsBetween, deployed commit is an ancestor)
  * - Case 5: approved via base branch merge (integration)
  * - Case 6: implicitly_approved via mode 'all' (integration)
  * - Deployed PR with approval_before_last_commit reason propagation
@@ -252,6 +253,61 @@ describe('verifyDeployment - Case 2b: compare error (different SHAs, 0 commits)'
   })
 })
 
+describe('verifyDeployment - Case 2c: rollback (deployed commit is an ancestor of the previous)', () => {
+  const rollbackInput = (targetDeployment: NonNullable<VerificationInput['rollback']>['targetDeployment']) =>
+    makeBaseInput({
+      commitSha: 'deploy-sha-old',
+      previousDeployment: {
+        id: 999,
+        commitSha: 'deploy-sha-new',
+        createdAt: '2026-02-26T10:00:00Z',
+      },
+      commitsBetween: [],
+      rollback: { targetDeployment },
+    })
+
+  it('should return rollback when the target deployment was verified', () => {
+    const result = verifyDeployment(
+      rollbackInput({ id: 990, createdAt: '2026-02-20T10:00:00Z', fourEyesStatus: 'approved' }),
+    )
+
+    expect(result.status).toBe('rollback')
+    expect(result.hasFourEyes).toBe(true)
+    expect(result.approvalDetails.method).toBe('rollback')
+    expect(result.approvalDetails.reason).toContain('#990')
+    expect(result.rollbackTargetDeploymentId).toBe(990)
+  })
+
+  it('should return unverified_commits when the target deployment was not verified', () => {
+    const result = verifyDeployment(
+      rollbackInput({ id: 990, createdAt: '2026-02-20T10:00:00Z', fourEyesStatus: 'unverified_commits' }),
+    )
+
+    expect(result.status).toBe('unverified_commits')
+    expect(result.hasFourEyes).toBe(false)
+    expect(result.unverifiedCommits).toHaveLength(1)
+    expect(result.unverifiedCommits[0].sha).toBe('deploy-sha-old')
+    expect(result.unverifiedCommits[0].reason).toBe('rollback_to_unverified')
+    expect(result.rollbackTargetDeploymentId).toBe(990)
+  })
+
+  it('should return unverified_commits when the commit was never deployed before', () => {
+    const result = verifyDeployment(rollbackInput(null))
+
+    expect(result.status).toBe('unverified_commits')
+    expect(result.unverifiedCommits[0].reason).toBe('rollback_to_unverified')
+    expect(result.rollbackTargetDeploymentId).toBeNull()
+  })
+
+  it('should still report a compare error when the compare API failed', () => {
+    const input = rollbackInput({ id: 990, createdAt: '2026-02-20T10:00:00Z', fourEyesStatus: 'approved' })
+
+    const result = verifyDeployment({ ...input, compareFailed: true })
+
+    expect(result.status).toBe('error')
+  })
+})
+
 // =============================================================================
 // Case 5: approved via base branch merge (integration through verifyDeployment)
 // =============================================================================
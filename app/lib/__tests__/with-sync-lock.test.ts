@@ -53,7 +53,7 @@ describe('withSyncLock', () => {
     )
 
     expect(result).toEqual({ success: true, result: { newCount: 5, skipped: 2 } })
-    expect(mockAcquire).toHaveBeenCalledWith('nais_sync', 1, undefined)
+    expect(mockAcquire).toHaveBeenCalledWith('nais_sync', 1, undefined, undefined, undefined)
     expect(mockLog).toHaveBeenCalledWith(42, 'info', 'Starting sync', undefined)
     expect(mockLog).toHaveBeenCalledWith(42, 'info', 'Sync done', undefined)
     expect(mockRelease).toHaveBeenCalledWith(42, 'completed', { newCount: 5, skipped: 2 })
@@ -70,7 +70,21 @@ describe('withSyncLock', () => {
       async () => ({}),
     )
 
-    expect(mockAcquire).toHaveBeenCalledWith('github_verify', 5, 15)
+    expect(mockAcquire).toHaveBeenCalledWith('github_verify', 5, 15, undefined, undefined)
+  })
+
+  it('passes the cooldown for global jobs to acquireSyncLock', async () => {
+    mockAcquire.mockResolvedValue(100)
+    mockRelease.mockResolvedValue(undefined)
+
+    await withSyncLock(
+      'event_outbox_delivery',
+      null,
+      { timeoutMinutes: 5, cooldownMs: 0, startMessage: 'Start', resultMessage: 'Done' },
+      async () => ({}),
+    )
+
+    expect(mockAcquire).toHaveBeenCalledWith('event_outbox_delivery', null, 5, undefined, 0)
   })
 
   it('calls buildResultContext with the result', async () => {
@@ -0,0 +1,192 @@
+/**
+ * JSON API v1 - response shapes and query parsing
+ *
+ * The shapes here are the public contract of /api/v1. Keep them stable:
+ * add fields freely, but do not rename or remove existing ones.
+ */
+
+import type { AuditReport } from '~/db/audit-reports.server'
+import type { DeploymentFilters, DeploymentWithApp } from '~/db/deployments.server'
+import type { MonitoredApplication } from '~/db/monitored-applications.server'
+import { FOUR_EYES_STATUSES, type FourEyesStatus } from './four-eyes-status'
+import type { StoredReportVerification, UploadedReportVerification } from './report-verification.server'
+
+export const API_V1_DEFAULT_PER_PAGE = 50
+export const API_V1_MAX_PER_PAGE = 200
+
+export interface ApiApp {
+  id: number
+  team: string
+  environment: string
+  name: string
+  defaultBranch: string
+  auditStartYear: number | null
+  testRequirement: MonitoredApplication['test_requirement']
+}
+
+export interface ApiDeployment {
+  id: number
+  appId: number
+  team: string
+  environment: string
+  app: string
+  createdAt: string
+  deployer: string | null
+  commitSha: string | null
+  repository: string
+  branch: string | null
+  title: string | null
+  hasFourEyes: boolean
+  fourEyesStatus: string
+  pullRequest: { number: number; url: string | null } | null
+  unverifiedCommits: Array<{ sha: string; message: string; author: string; reason: string }>
+}
+
+export interface ApiVerificationRun {
+  id: number
+  runAt: string
+  status: string
+  hasFourEyes: boolean
+  schemaVersion: number
+  result: unknown
+}
+
+export interface ApiReportVerification {
+  reportId: string
+  appId: number
+  periodType: string
+  periodLabel: string
+  contentHash: string
+  pdfHash: string | null
+  chainHash: string | null
+  signature: string | null
+  stored: StoredReportVerification
+  uploaded: UploadedReportVerification | null
+}
+
+export function toApiApp(app: MonitoredApplication): ApiApp {
+  return {
+    id: app.id,
+    team: app.team_slug,
+    environment: app.environment_name,
+    name: app.app_name,
+    defaultBranch: app.default_branch,
+    auditStartYear: app.audit_start_year,
+    testRequirement: app.test_requirement,
+  }
+}
+
+export function toApiDeployment(deployment: DeploymentWithApp): ApiDeployment {
+  return {
+    id: deployment.id,
+    appId: deployment.monitored_app_id,
+    team: deployment.team_slug,
+    environment: deployment.environment_name,
+    app: deployment.app_name,
+    createdAt: new Date(deployment.created_at).toISOString(),
+    deployer: deployment.deployer_username,
+    commitSha: deployment.commit_sha,
+    repository: `${deployment.detected_github_owner}/${deployment.detected_github_repo_name}`,
+    branch: deployment.branch_name,
+    title: deployment.title,
+    hasFourEyes: deployment.has_four_eyes,
+    fourEyesStatus: deployment.four_eyes_status,
+    pullRequest: deployment.github_pr_number
+      ? { number: deployment.github_pr_number, url: deployment.github_pr_url }
+      : null,
+    unverifiedCommits: (deployment.unverified_commits ?? []).map((c) => ({
+      sha: c.sha,
+      message: c.message,
+      author: c.author,
+      reason: c.reason,
+    })),
+  }
+}
+
+export function toApiVerificationRun(run: {
+  id: number
+  runAt: Date
+  status: string
+  hasFourEyes: boolean
+  schemaVersion: number
+  result: unknown
+}): ApiVerificationRun {
+  return {
+    id: run.id,
+    runAt: new Date(run.runAt).toISOString(),
+    status: run.status,
+    hasFourEyes: run.hasFourEyes,
+    schemaVersion: run.schemaVersion,
+    result: run.result,
+  }
+}
+
+export function toApiReportVerification(
+  report: AuditReport,
+  stored: StoredReportVerification,
+  uploaded: UploadedReportVerification | null,
+): ApiReportVerification {
+  return {
+    reportId: report.report_id,
+    appId: report.monitored_app_id,
+    periodType: report.period_type,
+    periodLabel: report.period_label,
+    contentHash: report.content_hash,
+    pdfHash: report.pdf_hash,
+    chainHash: report.chain_hash,
+    signature: report.signature,
+    stored,
+    uploaded,
+  }
+}
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function parsePositiveInt(value: string | null): number | undefined | null {
+  if (!value) return undefined
+  const n = Number(value)
+  return Number.isInteger(n) && n > 0 ? n : null
+}
+
+/**
+ * Parse query parameters for the deployment list into DeploymentFilters.
+ *
+ * Supported: page, per_page, status, only_missing_four_eyes, deployer, sha, from, to (ISO dates)
+ */
+export function parseDeploymentQuery(
+  searchParams: URLSearchParams,
+): { filters: DeploymentFilters; error?: undefined } | { filters?: undefined; error: string } {
+  const page = parsePositiveInt(searchParams.get('page'))
+  if (page === null) return { error: 'page must be a positive integer' }
+
+  const perPage = parsePositiveInt(searchParams.get('per_page'))
+  if (perPage === null) return { error: 'per_page must be a positive integer' }
+
+  const status = searchParams.get('status')
+  if (status && !FOUR_EYES_STATUSES.includes(status as FourEyesStatus)) {
+    return { error: `Unknown status: ${status}` }
+  }
+
+  const startDate = parseDate(searchParams.get('from'))
+  if (startDate === null) return { error: 'from must be an ISO date' }
+
+  const endDate = parseDate(searchParams.get('to'))
+  if (endDate === null) return { error: 'to must be an ISO date' }
+
+  return {
+    filters: {
+      page: page ?? 1,
+      per_page: Math.min(perPage ?? API_V1_DEFAULT_PER_PAGE, API_V1_MAX_PER_PAGE),
+      four_eyes_status: status || undefined,
+      only_missing_four_eyes: searchParams.get('only_missing_four_eyes') === 'true' || undefined,
+      deployer_username: searchParams.get('deployer') || undefined,
+      commit_sha: searchParams.get('sha') || undefined,
+      start_date: startDate,
+      end_date: endDate,
+    },
+  }
+}
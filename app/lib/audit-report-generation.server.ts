@@ -0,0 +1,121 @@
+/**
+ * Audit report generation
+ *
+ * Builds, stores, renders and signs the audit report for one app and period.
+ * Shared by the admin report job and the scheduled generation.
+ */
+
+import {
+  type AuditReport,
+  appendAuditReportChain,
+  buildReportData,
+  calculateReportHash,
+  getAuditReportByReportId,
+  getAuditReportData,
+  saveAuditReport,
+  updateAuditReportPdf,
+} from '~/db/audit-reports.server'
+import { generateAuditReportPdf } from '~/lib/audit-report-pdf'
+import { computeDataHash, sha256Hex } from '~/lib/report-integrity'
+import { generateReportId, type ReportPeriodType } from '~/lib/report-periods'
+import { signReportPayload } from '~/lib/report-signing.server'
+
+export interface AuditReportGenerationParams {
+  appId: number
+  year: number
+  periodType: ReportPeriodType
+  periodLabel: string
+  periodStart: Date
+  periodEnd: Date
+  generatedBy?: string
+}
+
+/**
+ * Generate the audit report for an app and period.
+ * Idempotent per report ID: if a report with identical content (same report_id)
+ * already has a PDF, it is returned as-is instead of being regenerated.
+ */
+export async function generateAuditReport(
+  params: AuditReportGenerationParams,
+): Promise<{ report: AuditReport; pdf: Buffer; reused: boolean }> {
+  const { appId, year, periodType, periodLabel, periodStart, periodEnd, generatedBy } = params
+
+  const rawData = await getAuditReportData(appId, periodStart, periodEnd)
+  const reportData = buildReportData(rawData)
+
+  const reportId = generateReportId(
+    periodType,
+    periodLabel,
+    rawData.app.app_name,
+    rawData.app.environment_name,
+    calculateReportHash(reportData),
+  )
+  const existing = await getAuditReportByReportId(reportId)
+  if (existing?.pdf_data) {
+    return { report: existing, pdf: existing.pdf_data, reused: true }
+  }
+
+  const report = await saveAuditReport({
+    monitoredAppId: appId,
+    appName: rawData.app.app_name,
+    teamSlug: rawData.app.team_slug,
+    environmentName: rawData.app.environment_name,
+    repository: rawData.repository,
+    year,
+    periodType,
+    periodLabel,
+    periodStart,
+    periodEnd,
+    reportData,
+    generatedBy,
+  })
+
+  const pdf = await generateAuditReportPdf({
+    appName: report.app_name,
+    repository: report.repository,
+    teamSlug: report.team_slug,
+    environmentName: report.environment_name,
+    year: report.year,
+    periodLabel: report.period_label,
+    periodStart: new Date(report.period_start),
+    periodEnd: new Date(report.period_end),
+    reportData: report.report_data,
+    contentHash: report.content_hash,
+    reportId: report.report_id,
+    generatedAt: new Date(report.generated_at),
+    testRequirement: rawData.app.test_requirement as 'none' | 'unit_tests' | 'integration_tests',
+  })
+
+  await updateAuditReportPdf(report.id, pdf)
+
+  // Link the report into the app's hash chain and sign it (unsigned if no key is configured)
+  const pdfHash = sha256Hex(pdf)
+  const chainEntry = await appendAuditReportChain(report, pdfHash, (link) =>
+    signReportPayload({
+      report_id: report.report_id,
+      monitored_app_id: report.monitored_app_id,
+      period_type: report.period_type,
+      period_start: toDateString(report.period_start),
+      period_end: toDateString(report.period_end),
+      content_hash: report.content_hash,
+      data_hash: computeDataHash(report.report_data),
+      pdf_hash: pdfHash,
+      sequence: link.sequence,
+      previous_chain_hash: link.previousChainHash,
+      chain_hash: link.chainHash,
+      signed_at: new Date().toISOString(),
+    }),
+  )
+
+  return {
+    report: { ...report, pdf_data: pdf, pdf_hash: pdfHash, chain_hash: chainEntry.chain_hash },
+    pdf,
+    reused: false,
+  }
+}
+
+// period_start/period_end are DATE columns, parsed by pg as local midnight
+function toDateString(date: Date | string): string {
+  const d = new Date(date)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
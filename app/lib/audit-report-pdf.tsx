@@ -6,6 +6,7 @@ import type {
   ManualApprovalEntry,
   UnverifiedCommitDeploymentEntry,
 } from '~/db/audit-reports.server'
+import { describeBranchProtection } from '~/lib/branch-protection'
 import {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
@@ -14,6 +15,7 @@ import {
   type DeviationIntent,
   type DeviationSeverity,
 } from '~/lib/deviation-constants'
+import type { SectionAuditReportData, SectionDeviationEntry } from '~/lib/section-report'
 
 // Register fonts from local files (downloaded during Docker build)
 // In production: /app/fonts/
@@ -260,6 +262,15 @@ const styles = StyleSheet.create({
     color: '#005B82',
     textDecoration: 'underline',
   },
+  // Section report app table columns: Applikasjon, Team, Deployments, PR, Manuell, Avvik, Ikke-verifiserte, Rapport
+  sc1: { width: '20%' },
+  sc2: { width: '16%' },
+  sc3: { width: '9%', textAlign: 'right' },
+  sc4: { width: '7%', textAlign: 'right' },
+  sc5: { width: '8%', textAlign: 'right' },
+  sc6: { width: '9%', textAlign: 'right' },
+  sc7: { width: '11%', textAlign: 'right' },
+  sc8: { width: '20%', paddingLeft: 8 },
 })
 
 interface AuditReportPdfProps {
@@ -302,6 +313,8 @@ const UNVERIFIED_REASON_LABELS: Record<string, string> = {
   no_approved_reviews: 'Ingen godkjent review',
   approval_before_last_commit: 'Godkjenning før siste commit',
   pr_not_approved: 'PR ikke godkjent',
+  rollback_to_unverified: 'Rollback til ikke-verifisert commit',
+  codeowner_approval_missing: 'Mangler godkjenning fra code owner',
 }
 
 function formatUnverifiedReason(reason: string): string {
@@ -548,6 +561,33 @@ function AuditReportPdfDocument(props: AuditReportPdfProps) {
               </Text>
             </View>
           )}
+
+          {reportData.branch_protection && reportData.branch_protection.length > 0 && (
+            <View style={styles.methodologyBox}>
+              <Text style={styles.methodologyTitle}>
+                {testRequirement && testRequirement !== 'none' ? '7' : '6'}. Branch protection i perioden
+              </Text>
+              <Text style={styles.methodologyText}>
+                Reglene for standard-branchen hentes jevnlig fra GitHub. Under vises reglene som gjaldt ved periodens
+                start, og eventuelle endringer i løpet av perioden.
+              </Text>
+              {reportData.branch_protection.map((entry) => (
+                <View key={`${entry.repository}-${entry.in_force_from}`} style={{ marginTop: 6 }}>
+                  <Text style={[styles.methodologyText, { fontWeight: 600 }]}>
+                    {entry.repository} ({entry.branch}) fra{' '}
+                    {new Date(entry.in_force_from) < periodStart
+                      ? `periodens start (registrert ${formatDate(entry.in_force_from)})`
+                      : formatDateTime(entry.in_force_from)}
+                  </Text>
+                  {describeBranchProtection(entry.rules).map((line) => (
+                    <Text key={line} style={styles.methodologyText}>
+                      • {line}
+                    </Text>
+                  ))}
+                </View>
+              ))}
+            </View>
+          )}
         </View>
 
         <Text
@@ -880,3 +920,197 @@ export async function generateAuditReportPdf(props: AuditReportPdfProps): Promis
   const buffer = await renderToBuffer(<AuditReportPdfDocument {...props} />)
   return Buffer.from(buffer)
 }
+
+interface SectionAuditReportPdfProps {
+  sectionName: string
+  sectionSlug: string
+  periodLabel: string
+  periodStart: Date
+  periodEnd: Date
+  reportData: SectionAuditReportData
+  contentHash: string
+  reportId: string
+  generatedAt: Date
+  /** Used to link each app row to its stored per-app report */
+  baseUrl: string
+}
+
+function SectionAuditReportPdfDocument(props: SectionAuditReportPdfProps) {
+  const { sectionName, sectionSlug, periodLabel, periodStart, periodEnd, reportData, contentHash, reportId } = props
+  const { apps, deviations, totals } = reportData
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.title}>RAPPORT OM ETTERLEVELSE</Text>
+          <Text style={styles.subtitle}>Leveranser for seksjon</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Dokumentinformasjon</Text>
+          <View style={styles.infoGrid}>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Seksjon</Text>
+              <Text style={styles.infoValue}>{sectionName}</Text>
+            </View>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Applikasjoner</Text>
+              <Text style={styles.infoValue}>{totals.app_count}</Text>
+            </View>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Periode</Text>
+              <Text style={styles.infoValue}>
+                {periodLabel} — {formatDate(periodStart)} - {formatDate(periodEnd)}
+              </Text>
+            </View>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Dokument-ID</Text>
+              <Text style={styles.infoValue}>{reportId}</Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.summaryBox}>
+          <Text style={styles.summaryTitle}>Sammendrag</Text>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Totalt antall deployments:</Text>
+            <Text style={styles.summaryValue}>{totals.total_deployments}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Via Pull Request:</Text>
+            <Text style={styles.summaryValue}>{totals.pr_approved_count}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Manuelt godkjent:</Text>
+            <Text style={styles.summaryValue}>{totals.manually_approved_count}</Text>
+          </View>
+          {totals.legacy_count > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Legacy:</Text>
+              <Text style={styles.summaryValue}>{totals.legacy_count}</Text>
+            </View>
+          )}
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Avvik (åpne):</Text>
+            <Text style={styles.summaryValue}>
+              {totals.deviation_count} ({totals.open_deviation_count})
+            </Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Ikke-verifiserte commits:</Text>
+            <Text style={styles.summaryValue}>
+              {totals.unverified_commit_count} i {totals.unverified_commit_deployment_count} deployments
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Applikasjoner</Text>
+          <View style={styles.table}>
+            <View style={styles.tableHeader} fixed>
+              <Text style={[styles.tableHeaderCell, styles.sc1]}>Applikasjon</Text>
+              <Text style={[styles.tableHeaderCell, styles.sc2]}>Team</Text>
+              <Text style={[styles.tableHeaderCell, styles.sc3]}>Deployments</Text>
+              <Text style={[styles.tableHeaderCell, styles.sc4]}>PR</Text>
+              <Text style={[styles.tableHeaderCell, styles.sc5]}>Manuell</Text>
+              <Text style={[styles.tableHeaderCell, styles.sc6]}>Avvik</Text>
+              <Text style={[styles.tableHeaderCell, styles.sc7]}>Ikke-verif.</Text>
+              <Text style={[styles.tableHeaderCell, styles.sc8]}>Rapport</Text>
+            </View>
+            {apps.map((app, idx) => (
+              <View
+                key={app.monitored_app_id}
+                style={[styles.tableRow, idx % 2 === 1 ? styles.tableRowAlt : {}]}
+                wrap={false}
+              >
+                <Text style={[styles.tableCell, styles.sc1, { fontWeight: 600 }]}>{app.app_name}</Text>
+                <Text style={[styles.tableCell, styles.sc2]}>{app.team_slug}</Text>
+                <Text style={[styles.tableCell, styles.sc3]}>{app.total_deployments}</Text>
+                <Text style={[styles.tableCell, styles.sc4]}>{app.pr_approved_count}</Text>
+                <Text style={[styles.tableCell, styles.sc5]}>{app.manually_approved_count}</Text>
+                <Text style={[styles.tableCell, styles.sc6]}>
+                  {app.deviation_count}
+                  {app.open_deviation_count > 0 ? ` (${app.open_deviation_count} åpne)` : ''}
+                </Text>
+                <Text style={[styles.tableCell, styles.sc7]}>{app.unverified_commit_count}</Text>
+                <Text style={[styles.tableCell, styles.sc8]}>
+                  {app.audit_report_id ? (
+                    <Link src={`${props.baseUrl}/admin/audit-reports/${app.audit_report_id}/pdf`} style={styles.link}>
+                      {app.audit_report_document_id}
+                    </Link>
+                  ) : (
+                    'Ikke generert'
+                  )}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.footer}>
+          <Text style={styles.footerText}>
+            Generert: {formatDateTime(props.generatedAt)} | Deployment Audit System | {sectionSlug}
+          </Text>
+          <Text style={styles.hashText}>SHA256: {contentHash}</Text>
+        </View>
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `Side ${pageNumber} av ${totalPages}`}
+        />
+      </Page>
+
+      {deviations.length > 0 && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Avvik ({deviations.length})</Text>
+            {deviations.map((deviation: SectionDeviationEntry) => (
+              <View
+                key={`${deviation.app_name}-${deviation.deployment_id}-${deviation.date}`}
+                style={styles.manualBox}
+                wrap={false}
+              >
+                <Text style={styles.manualTitle}>
+                  {deviation.app_name} - Deployment #{deviation.deployment_id} - {formatDate(deviation.date)}
+                </Text>
+                <Text style={[styles.manualDetail, { fontSize: 7, color: '#666666' }]}>
+                  {deviation.team_slug} / {deviation.environment_name} • Commit:{' '}
+                  {deviation.commit_sha ? (
+                    <Link
+                      src={`https://github.com/${deviation.repository}/commit/${deviation.commit_sha}`}
+                      style={styles.link}
+                    >
+                      {deviation.commit_sha.substring(0, 7)}
+                    </Link>
+                  ) : (
+                    'N/A'
+                  )}
+                </Text>
+                <Text style={styles.manualDetail}>Beskrivelse: {deviation.reason}</Text>
+                {deviation.breach_type && <Text style={styles.manualDetail}>Type brudd: {deviation.breach_type}</Text>}
+                {deviation.severity && (
+                  <Text style={styles.manualDetail}>
+                    Alvorlighetsgrad:{' '}
+                    {DEVIATION_SEVERITY_LABELS[deviation.severity as DeviationSeverity] || deviation.severity}
+                  </Text>
+                )}
+                <Text style={styles.manualDetail}>
+                  Status: {deviation.resolved_at ? `Løst ${formatDateTime(deviation.resolved_at)}` : 'Åpen'}
+                </Text>
+              </View>
+            ))}
+          </View>
+          <Text
+            style={styles.pageNumber}
+            render={({ pageNumber, totalPages }) => `Side ${pageNumber} av ${totalPages}`}
+          />
+        </Page>
+      )}
+    </Document>
+  )
+}
+
+export async function generateSectionAuditReportPdf(props: SectionAuditReportPdfProps): Promise<Buffer> {
+  const buffer = await renderToBuffer(<SectionAuditReportPdfDocument {...props} />)
+  return Buffer.from(buffer)
+}
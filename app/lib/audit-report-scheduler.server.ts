@@ -0,0 +1,212 @@
+/**
+ * Scheduled audit report generation.
+ *
+ * Checks shortly after startup and then every hour for recently closed report periods
+ * without a report for each production app. If all deployments in the period are
+ * approved, the report is generated; otherwise a summary of the blocking deployments
+ * is posted to the app's Slack channel - again when the blocking deployments change,
+ * or weekly while they stay the same; if the summary could not be sent, it is retried on
+ * the next run. Each app is processed under a sync lock so only one pod generates its reports.
+ */
+
+import {
+  type AuditReadinessCheck,
+  checkAuditReadiness,
+  claimAuditReportBlockedNotice,
+  getAuditReportForPeriod,
+  releaseAuditReportBlockedNotice,
+} from '~/db/audit-reports.server'
+import {
+  getAllMonitoredApplications,
+  getProductionApplicationIds,
+  type MonitoredApplication,
+} from '~/db/monitored-applications.server'
+import { getUserMapping } from '~/db/user-mappings.server'
+import { generateAuditReport } from '~/lib/audit-report-generation.server'
+import { logger } from '~/lib/logger.server'
+import { getRecentlyCompletedPeriods, type ReportPeriod, type ReportPeriodType } from '~/lib/report-periods'
+import { withSyncLock } from '~/lib/sync/with-sync-lock.server'
+import { isSlackConfigured, sendAuditReportBlocked } from './slack'
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
+const STARTUP_DELAY_MS = 2 * 60 * 1000 // 2 minutes, after the first sync has started
+const BLOCKED_NOTICE_RESEND_DAYS = 7
+const SCHEDULED_PERIOD_TYPES: ReportPeriodType[] = ['yearly', 'tertiary', 'quarterly', 'monthly']
+// Periods that closed longer ago than this are left to manual generation
+const LOOKBACK_DAYS = 90
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null
+let startupTimeout: ReturnType<typeof setTimeout> | null = null
+let isRunning = false
+
+/**
+ * Start the audit report scheduler.
+ */
+export function startAuditReportScheduler(): void {
+  if (schedulerInterval) return
+  logger.info('⏰ Starting audit report scheduler (1 hour interval)')
+  // Run once soon after startup, so frequent deploys do not keep postponing the first run
+  startupTimeout = setTimeout(() => {
+    startupTimeout = null
+    runScheduledAuditReports()
+  }, STARTUP_DELAY_MS)
+  schedulerInterval = setInterval(runScheduledAuditReports, SCHEDULER_INTERVAL_MS)
+}
+
+/**
+ * Stop the audit report scheduler.
+ */
+export function stopAuditReportScheduler(): void {
+  if (startupTimeout) {
+    clearTimeout(startupTimeout)
+    startupTimeout = null
+  }
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval)
+    schedulerInterval = null
+    logger.info('⏰ Audit report scheduler stopped')
+  }
+}
+
+/**
+ * Generate missing reports for all production apps.
+ */
+export async function runScheduledAuditReports(): Promise<void> {
+  if (isRunning) return
+  isRunning = true
+
+  try {
+    const [apps, productionAppIds] = await Promise.all([getAllMonitoredApplications(), getProductionApplicationIds()])
+
+    let generated = 0
+    let blocked = 0
+    for (const app of apps) {
+      if (!productionAppIds.includes(app.id)) continue
+
+      try {
+        const result = await withSyncLock(
+          'audit_report_generation',
+          app.id,
+          {
+            timeoutMinutes: 15,
+            startMessage: `Starter automatisk rapportgenerering for ${app.app_name}`,
+            resultMessage: 'Automatisk rapportgenerering fullført',
+            buildResultContext: (r) => ({ generated: r.generated, blocked: r.blocked }),
+          },
+          () => generateMissingReportsForApp(app),
+        )
+        generated += result.result?.generated ?? 0
+        blocked += result.result?.blocked ?? 0
+      } catch (error) {
+        // One failing app should not stop report generation for the rest
+        logger.error(`❌ Scheduled audit report generation failed for ${app.app_name}:`, error)
+      }
+    }
+
+    if (generated > 0 || blocked > 0) {
+      logger.info(`📄 Scheduled audit reports: ${generated} generated, ${blocked} blocked`)
+    }
+  } catch (error) {
+    logger.error('Audit report scheduler error:', error)
+  } finally {
+    isRunning = false
+  }
+}
+
+async function generateMissingReportsForApp(
+  app: MonitoredApplication,
+): Promise<{ generated: number; blocked: number }> {
+  const periods = getRecentlyCompletedPeriods(
+    SCHEDULED_PERIOD_TYPES,
+    LOOKBACK_DAYS,
+    new Date(),
+    app.audit_start_year ?? undefined,
+  )
+
+  let generated = 0
+  let blocked = 0
+  for (const period of periods) {
+    const existing = await getAuditReportForPeriod(app.id, period.type, period.startDate)
+    if (existing) continue
+
+    const readiness = await checkAuditReadiness(app.id, period.startDate, period.endDate)
+    // Nothing was deployed - there is nothing to report
+    if (readiness.total_deployments === 0) continue
+
+    if (!readiness.is_ready) {
+      blocked++
+      await notifyBlockedPeriod(app, period, readiness)
+      continue
+    }
+
+    const { report, reused } = await generateAuditReport({
+      appId: app.id,
+      year: period.year,
+      periodType: period.type,
+      periodLabel: period.label,
+      periodStart: period.startDate,
+      periodEnd: period.endDate,
+      generatedBy: 'system',
+    })
+    if (!reused) {
+      generated++
+      logger.info(`📄 Generated audit report ${report.report_id}`)
+    }
+  }
+
+  return { generated, blocked }
+}
+
+async function notifyBlockedPeriod(
+  app: MonitoredApplication,
+  period: ReportPeriod,
+  readiness: AuditReadinessCheck,
+): Promise<void> {
+  if (!isSlackConfigured() || !app.slack_channel_id) return
+
+  const claimed = await claimAuditReportBlockedNotice(
+    app.id,
+    period.type,
+    period.startDate,
+    readiness.pending_deployment_ids,
+    BLOCKED_NOTICE_RESEND_DAYS,
+  )
+  if (!claimed) return
+
+  const baseUrl = process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
+  const appUrl = `${baseUrl}/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}`
+
+  const deployments = await Promise.all(
+    readiness.pending_deployments.map(async (d) => {
+      const mapping = d.deployer_username ? await getUserMapping(d.deployer_username) : null
+      return {
+        id: d.id,
+        commitSha: d.commit_sha || '',
+        deployerName: mapping?.display_name || d.deployer_username || 'Ukjent',
+        status: d.four_eyes_status,
+        createdAt: new Date(d.created_at).toLocaleString('no-NO', { dateStyle: 'medium', timeStyle: 'short' }),
+        detailsUrl: `${appUrl}/deployments/${d.id}`,
+      }
+    }),
+  )
+
+  const messageTs = await sendAuditReportBlocked(
+    {
+      appName: app.app_name,
+      environmentName: app.environment_name,
+      teamSlug: app.team_slug,
+      periodLabel: period.label,
+      pendingCount: readiness.pending_count,
+      deployments,
+      adminUrl: `${appUrl}/admin`,
+    },
+    app.slack_channel_id,
+  ).catch((error) => {
+    logger.error(`Failed to post blocked audit report summary for app ${app.id}:`, error)
+    return null
+  })
+
+  if (!messageTs) {
+    await releaseAuditReportBlockedNotice(app.id, period.type, period.startDate)
+  }
+}
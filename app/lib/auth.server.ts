@@ -6,15 +6,21 @@
  * In development, we fall back to a mock identity from environment variables.
  *
  * Role and section membership is resolved from Entra ID groups stored in the sections table.
+ * The 'admin' role is global admin; section admins have the 'user' role and an admin
+ * section membership (see authorization.server.ts for how sections scope access).
  */
 
 import { getSectionsForEntraGroups } from '~/db/sections.server'
-import { isJwtValidationConfigured, validateToken } from './jwt-validation.server'
+import { getUserAccessSnapshot, saveUserAccessSnapshot } from '~/db/user-access.server'
+import { isJwtValidationConfigured, isServiceToken, validateServiceToken, validateToken } from './jwt-validation.server'
 import { logger } from './logger.server'
 
-// Fallback hardcoded group IDs — used ONLY if no sections are configured in the DB
-const FALLBACK_GROUP_ADMIN = '1e97cbc6-0687-4d23-aebd-c611035279c1' // pensjon-revisjon
+// Global admins can see and administer all sections, and use the admin pages
+const GLOBAL_ADMIN_GROUP = '1e97cbc6-0687-4d23-aebd-c611035279c1' // pensjon-revisjon
+// Fallback hardcoded user group — used ONLY if the user is not a member of any section
 const FALLBACK_GROUP_USER = '415d3817-c83d-44c9-a52b-5116757f8fa8' // teampensjon
+// How often a logged-in user's groups are written to user_access_snapshots when unchanged
+const ACCESS_SNAPSHOT_REFRESH_MS = 60 * 60 * 1000
 
 export type UserRole = 'admin' | 'user'
 
@@ -37,33 +43,50 @@ export interface UserIdentity {
   navIdent: string
   name?: string
   email?: string
+  /** 'admin' means global admin, independent of section memberships */
   role: UserRole
   /** The user's Entra ID group IDs from the JWT token */
   entraGroups: string[]
+  /** Sections the user belongs to, with role 'admin' where they are section admin */
+  sections: UserSection[]
 }
 
 /**
- * Determine user role from group memberships.
- * First checks sections in DB, then falls back to hardcoded groups.
+ * Determine global role and section memberships from group memberships.
+ * Returns null if the user is neither global admin, in a section, nor in the fallback group.
  */
-async function getRoleFromGroups(groups: string[] | undefined): Promise<UserRole | null> {
+async function getAccessFromGroups(
+  groups: string[] | undefined,
+): Promise<{ role: UserRole; sections: UserSection[] } | null> {
   if (!groups || groups.length === 0) return null
 
-  // Try DB-based section groups first
+  const sections = await getUserSections(groups)
+  if (groups.includes(GLOBAL_ADMIN_GROUP)) return { role: 'admin', sections }
+  if (sections.length > 0) return { role: 'user', sections }
+
+  // Fallback to hardcoded group (for backwards compatibility)
+  if (groups.includes(FALLBACK_GROUP_USER)) return { role: 'user', sections }
+  return null
+}
+
+// Last snapshot written per NAV-ident, to avoid a write on every request
+const savedAccessSnapshots = new Map<string, { key: string; savedAt: number }>()
+
+/**
+ * Store the user's groups so their access can be resolved outside the web app (Slack, notifications).
+ * Failures are logged and ignored, since they must not block the request.
+ */
+async function rememberUserAccess(navIdent: string, groups: string[]): Promise<void> {
+  const key = [...groups].sort().join(',')
+  const saved = savedAccessSnapshots.get(navIdent)
+  if (saved && saved.key === key && Date.now() - saved.savedAt < ACCESS_SNAPSHOT_REFRESH_MS) return
+
   try {
-    const sections = await getSectionsForEntraGroups(groups)
-    if (sections.length > 0) {
-      // User is admin if they're admin in any section
-      return sections.some((s) => s.role === 'admin') ? 'admin' : 'user'
-    }
+    await saveUserAccessSnapshot(navIdent, groups)
+    savedAccessSnapshots.set(navIdent, { key, savedAt: Date.now() })
   } catch (error) {
-    logger.warn(`Could not resolve sections from DB, falling back to hardcoded groups: ${error}`)
+    logger.warn(`Could not store access snapshot for ${navIdent}: ${error}`)
   }
-
-  // Fallback to hardcoded groups (for backwards compatibility)
-  if (groups.includes(FALLBACK_GROUP_ADMIN)) return 'admin'
-  if (groups.includes(FALLBACK_GROUP_USER)) return 'user'
-  return null
 }
 
 /**
@@ -107,15 +130,17 @@ export async function getUserIdentity(request: Request): Promise<UserIdentity |
 
       if (result.success) {
         const groups = result.payload.groups ?? []
-        const role = await getRoleFromGroups(groups)
+        const access = await getAccessFromGroups(groups)
 
-        if (role) {
+        if (access) {
+          await rememberUserAccess(result.payload.navIdent, groups)
           return {
             navIdent: result.payload.navIdent,
             name: result.payload.name,
             email: result.payload.email,
-            role,
+            role: access.role,
             entraGroups: groups,
+            sections: access.sections,
           }
         }
         // User has valid token but not in authorized groups
@@ -144,6 +169,7 @@ export async function getUserIdentity(request: Request): Promise<UserIdentity |
         name: 'Development User',
         role: devRole,
         entraGroups: [],
+        sections: [],
       }
     }
   }
@@ -151,6 +177,25 @@ export async function getUserIdentity(request: Request): Promise<UserIdentity |
   return null
 }
 
+/**
+ * Resolve a user's identity from the groups they last logged in with, for actions
+ * outside the web app where no token is available (Slack, notifications).
+ *
+ * @returns UserIdentity if the user has logged in and is still authorized, null otherwise
+ */
+export async function getUserIdentityByNavIdent(navIdent: string): Promise<UserIdentity | null> {
+  const groups = await getUserAccessSnapshot(navIdent)
+  const access = await getAccessFromGroups(groups ?? undefined)
+  if (!groups || !access) return null
+
+  return {
+    navIdent: navIdent.toUpperCase(),
+    role: access.role,
+    entraGroups: groups,
+    sections: access.sections,
+  }
+}
+
 /**
  * Get NAV-ident from request (convenience function).
  *
@@ -174,7 +219,8 @@ export async function requireUser(request: Request): Promise<UserIdentity> {
 }
 
 /**
- * Require user to be authenticated with 'admin' role.
+ * Require user to be authenticated with 'admin' role (global admin).
+ * Section admins are not global admins; use the guards in authorization.server.ts for section-scoped access.
  * Throws 403 Response if not authorized.
  */
 export async function requireAdmin(request: Request): Promise<UserIdentity> {
@@ -184,3 +230,34 @@ export async function requireAdmin(request: Request): Promise<UserIdentity> {
   }
   return user
 }
+
+/**
+ * Identity of a caller of the JSON API: a logged-in user or another app
+ * using a machine-to-machine token.
+ */
+export type ApiIdentity = { type: 'user'; user: UserIdentity } | { type: 'service'; appName: string; clientId: string }
+
+/**
+ * Require access to the JSON API (/api/v1).
+ * Accepts user tokens (same rules as requireUser) and service-to-service tokens.
+ * Throws 401 JSON Response if not authorized.
+ */
+export async function requireApiAccess(request: Request): Promise<ApiIdentity> {
+  const authHeader = request.headers.get('Authorization')
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null
+
+  if (token && isServiceToken(token)) {
+    const result = await validateServiceToken(token)
+    if (result.success) {
+      return { type: 'service', appName: result.payload.appName, clientId: result.payload.clientId }
+    }
+    logger.warn(`Service token validation failed: ${result.error.code} - ${result.error.message}`)
+    throw Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const user = await getUserIdentity(request)
+  if (!user) {
+    throw Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  return { type: 'user', user }
+}
@@ -0,0 +1,150 @@
+/**
+ * Section-scoped authorization.
+ *
+ * A monitored app belongs to the sections its Nais team is linked to (section_teams).
+ * - Global admins can read and administer everything.
+ * - Section members can read the apps, deployments and boards of their sections.
+ * - Section admins (the section's entra_group_admin) can also administer the apps of their sections.
+ * - Apps whose team is not in any section can be read by all users, but only administered by global admins.
+ *
+ * Every loader and action calls one of these guards (or requireUser/requireAdmin/requireApiAccess);
+ * this is enforced by the route guard test in __tests__/routes.test.ts.
+ */
+
+import { getMonitoredAppIdsForRepository } from '~/db/application-repositories.server'
+import { type DeploymentWithApp, getDeploymentById } from '~/db/deployments.server'
+import {
+  getMonitoredApplicationById,
+  getMonitoredApplicationByIdentity,
+  type MonitoredApplication,
+} from '~/db/monitored-applications.server'
+import { getSectionIdsByTeam, getSectionIdsForTeam } from '~/db/sections.server'
+import { type ApiIdentity, requireUser, type UserIdentity } from './auth.server'
+import { requireTeamEnvAppParams } from './route-params.server'
+
+export type AccessLevel = 'read' | 'admin'
+
+/**
+ * Whether a user has the given access to something that belongs to the given sections.
+ * An empty list means it is not in any section.
+ */
+export function hasSectionAccess(
+  user: Pick<UserIdentity, 'role' | 'sections'>,
+  sectionIds: number[],
+  level: AccessLevel,
+): boolean {
+  if (user.role === 'admin') return true
+  if (sectionIds.length === 0) return level === 'read'
+  return user.sections.some((s) => sectionIds.includes(s.id) && (level === 'read' || s.role === 'admin'))
+}
+
+function forbidden(level: AccessLevel): never {
+  throw new Response(
+    level === 'admin' ? 'Forbidden - section admin access required' : 'Forbidden - no access to this section',
+    { status: 403 },
+  )
+}
+
+/**
+ * Check whether a user has the given access to the apps of a Nais team.
+ */
+export async function canAccessTeam(user: UserIdentity, teamSlug: string, level: AccessLevel): Promise<boolean> {
+  return hasSectionAccess(user, await getSectionIdsForTeam(teamSlug), level)
+}
+
+/**
+ * Require access to a section (section pages and dev team boards).
+ * Throws 403 Response if not authorized.
+ */
+export function requireSectionAccess(user: UserIdentity, sectionId: number, level: AccessLevel = 'read'): void {
+  if (!hasSectionAccess(user, [sectionId], level)) forbidden(level)
+}
+
+/**
+ * Require access to the apps of a Nais team.
+ * Throws 403 Response if not authorized.
+ */
+export async function requireTeamAccess(
+  user: UserIdentity,
+  teamSlug: string,
+  level: AccessLevel = 'read',
+): Promise<void> {
+  if (!(await canAccessTeam(user, teamSlug, level))) forbidden(level)
+}
+
+/**
+ * Require access to the app identified by the team/env/app route params.
+ * Throws 403 Response if not authorized and 404 Response if the app does not exist.
+ */
+export async function requireAppAccess(
+  request: Request,
+  params: Record<string, string | undefined>,
+  level: AccessLevel = 'read',
+): Promise<{ user: UserIdentity; app: MonitoredApplication }> {
+  const user = await requireUser(request)
+  const { team, env, app: appName } = requireTeamEnvAppParams(params)
+  await requireTeamAccess(user, team, level)
+
+  const app = await getMonitoredApplicationByIdentity(team, env, appName)
+  if (!app) {
+    throw new Response('Application not found', { status: 404 })
+  }
+  return { user, app }
+}
+
+/**
+ * Require access to the app a deployment belongs to.
+ * Throws 403 Response if not authorized and 404 Response if the deployment does not exist.
+ */
+export async function requireDeploymentAccess(
+  request: Request,
+  deploymentId: number,
+  level: AccessLevel = 'read',
+): Promise<{ user: UserIdentity; deployment: DeploymentWithApp }> {
+  const user = await requireUser(request)
+  const deployment = await getDeploymentById(deploymentId)
+  if (!deployment) {
+    throw new Response('Deployment not found', { status: 404 })
+  }
+
+  await requireTeamAccess(user, deployment.team_slug, level)
+  return { user, deployment }
+}
+
+/**
+ * Require read access to at least one monitored app with the given active repository.
+ * Throws 403 Response if not authorized.
+ */
+export async function requireRepositoryAccess(request: Request, owner: string, repo: string): Promise<UserIdentity> {
+  const user = await requireUser(request)
+  if (user.role === 'admin') return user
+
+  for (const appId of await getMonitoredAppIdsForRepository(owner, repo)) {
+    const app = await getMonitoredApplicationById(appId)
+    if (app && (await canAccessTeam(user, app.team_slug, 'read'))) return user
+  }
+  forbidden('read')
+}
+
+/**
+ * Require JSON API access to the apps of a Nais team.
+ * Service-to-service callers are not scoped to sections.
+ * Throws 403 JSON Response if not authorized.
+ */
+export async function requireApiTeamAccess(identity: ApiIdentity, teamSlug: string): Promise<void> {
+  if (identity.type === 'service') return
+  if (!(await canAccessTeam(identity.user, teamSlug, 'read'))) {
+    throw Response.json({ error: 'Forbidden' }, { status: 403 })
+  }
+}
+
+/**
+ * Get a predicate telling whether a user can read the apps of a Nais team, for filtering lists
+ * without a query per team.
+ */
+export async function getReadableTeamFilter(user: UserIdentity): Promise<(teamSlug: string) => boolean> {
+  if (user.role === 'admin') return () => true
+
+  const sectionIdsByTeam = await getSectionIdsByTeam()
+  return (teamSlug) => hasSectionAccess(user, sectionIdsByTeam.get(teamSlug) ?? [], 'read')
+}
@@ -0,0 +1,126 @@
+/**
+ * Branch protection snapshots
+ *
+ * The default-branch protection of each repository is snapshotted periodically,
+ * combining classic branch protection and repository rulesets into one set of rules.
+ * A new snapshot is only stored when the rules change, so the history shows which
+ * rules were in force at any time. Changes that weaken the protection raise an alert.
+ */
+
+export interface BranchProtectionRuleset {
+  id: number
+  name: string
+  enforcement: string
+  bypassActorCount: number
+}
+
+export interface BranchProtectionRules {
+  /** Classic branch protection or at least one active ruleset applies to the branch */
+  protected: boolean
+  /** Highest number of required approving reviews across classic protection and rulesets */
+  requiredApprovingReviewCount: number
+  dismissStaleReviews: boolean
+  requireCodeOwnerReviews: boolean
+  requireLastPushApproval: boolean
+  /** Admins are not subject to classic protection, or a ruleset has bypass actors */
+  adminsCanBypass: boolean
+  rulesets: BranchProtectionRuleset[]
+}
+
+export const BRANCH_PROTECTION_WEAKENINGS = [
+  'protection_removed',
+  'required_reviews_reduced',
+  'admin_bypass_enabled',
+  'stale_review_dismissal_disabled',
+  'code_owner_reviews_disabled',
+  'last_push_approval_disabled',
+] as const
+export type BranchProtectionWeakeningType = (typeof BRANCH_PROTECTION_WEAKENINGS)[number]
+
+export const BRANCH_PROTECTION_WEAKENING_LABELS: Record<BranchProtectionWeakeningType, string> = {
+  protection_removed: 'Branch protection fjernet',
+  required_reviews_reduced: 'Færre påkrevde godkjenninger',
+  admin_bypass_enabled: 'Administratorer kan omgå reglene',
+  stale_review_dismissal_disabled: 'Gamle godkjenninger beholdes etter nye commits',
+  code_owner_reviews_disabled: 'Krever ikke lenger godkjenning fra code owners',
+  last_push_approval_disabled: 'Krever ikke lenger godkjenning av siste push',
+}
+
+export interface BranchProtectionWeakening {
+  type: BranchProtectionWeakeningType
+  from: string | number | boolean
+  to: string | number | boolean
+}
+
+export const UNPROTECTED_BRANCH: BranchProtectionRules = {
+  protected: false,
+  requiredApprovingReviewCount: 0,
+  dismissStaleReviews: false,
+  requireCodeOwnerReviews: false,
+  requireLastPushApproval: false,
+  adminsCanBypass: true,
+  rulesets: [],
+}
+
+/**
+ * Whether two snapshots describe the same rules (rulesets compared regardless of order)
+ */
+export function branchProtectionRulesEqual(a: BranchProtectionRules, b: BranchProtectionRules): boolean {
+  const sortRulesets = (rules: BranchProtectionRules) => [...rules.rulesets].sort((x, y) => x.id - y.id)
+  return JSON.stringify({ ...a, rulesets: sortRulesets(a) }) === JSON.stringify({ ...b, rulesets: sortRulesets(b) })
+}
+
+/**
+ * Find the ways the new rules are weaker than the previous ones
+ */
+export function findBranchProtectionWeakenings(
+  previous: BranchProtectionRules,
+  current: BranchProtectionRules,
+): BranchProtectionWeakening[] {
+  if (previous.protected && !current.protected) {
+    return [{ type: 'protection_removed', from: true, to: false }]
+  }
+
+  const weakenings: BranchProtectionWeakening[] = []
+  if (current.requiredApprovingReviewCount < previous.requiredApprovingReviewCount) {
+    weakenings.push({
+      type: 'required_reviews_reduced',
+      from: previous.requiredApprovingReviewCount,
+      to: current.requiredApprovingReviewCount,
+    })
+  }
+  if (current.adminsCanBypass && !previous.adminsCanBypass) {
+    weakenings.push({ type: 'admin_bypass_enabled', from: false, to: true })
+  }
+  if (previous.dismissStaleReviews && !current.dismissStaleReviews) {
+    weakenings.push({ type: 'stale_review_dismissal_disabled', from: true, to: false })
+  }
+  if (previous.requireCodeOwnerReviews && !current.requireCodeOwnerReviews) {
+    weakenings.push({ type: 'code_owner_reviews_disabled', from: true, to: false })
+  }
+  if (previous.requireLastPushApproval && !current.requireLastPushApproval) {
+    weakenings.push({ type: 'last_push_approval_disabled', from: true, to: false })
+  }
+  return weakenings
+}
+
+/**
+ * Human-readable lines describing the rules, for the app page and the audit report
+ */
+export function describeBranchProtection(rules: BranchProtectionRules): string[] {
+  if (!rules.protected) return ['Ingen branch protection eller rulesets']
+
+  const lines = [
+    rules.requiredApprovingReviewCount > 0
+      ? `Krever ${rules.requiredApprovingReviewCount} godkjenning${rules.requiredApprovingReviewCount === 1 ? '' : 'er'} før merge`
+      : 'Krever ikke godkjenning før merge',
+  ]
+  if (rules.dismissStaleReviews) lines.push('Gamle godkjenninger forkastes ved nye commits')
+  if (rules.requireCodeOwnerReviews) lines.push('Krever godkjenning fra code owners')
+  if (rules.requireLastPushApproval) lines.push('Siste push må godkjennes av en annen')
+  lines.push(rules.adminsCanBypass ? 'Administratorer kan omgå reglene' : 'Reglene gjelder også administratorer')
+  if (rules.rulesets.length > 0) {
+    lines.push(`Rulesets: ${rules.rulesets.map((r) => `${r.name} (${r.enforcement})`).join(', ')}`)
+  }
+  return lines
+}
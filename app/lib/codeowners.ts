@@ -0,0 +1,120 @@
+/**
+ * CODEOWNERS parsing and matching
+ *
+ * Follows GitHub's rules: the last matching pattern in the file wins, and a
+ * pattern without owners makes the path unowned. Owners are `@user`,
+ * `@org/team` or an email address (emails cannot be matched against reviewers).
+ *
+ * @see https://docs.github.com/en/repositories/managing-your-repositorys-settings-and-features/customizing-your-repository/about-code-owners
+ */
+
+/** Locations GitHub looks for CODEOWNERS, in priority order */
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'] as const
+
+export interface CodeownersRule {
+  pattern: string
+  owners: string[]
+  regex: RegExp
+}
+
+/**
+ * Parse the content of a CODEOWNERS file into rules, in file order
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = []
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim()
+    if (!line) continue
+
+    const [pattern, ...owners] = line.split(/\s+/)
+    rules.push({ pattern, owners, regex: patternToRegex(pattern) })
+  }
+  return rules
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const directoryOnly = pattern.endsWith('/')
+  const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '')
+  // A slash at the start or in the middle anchors the pattern to the repository root
+  const anchored = pattern.startsWith('/') || trimmed.includes('/')
+
+  let body = ''
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i]
+    if (char === '*' && trimmed[i + 1] === '*') {
+      if (trimmed[i + 2] === '/') {
+        body += '(?:.*/)?'
+        i += 2
+      } else {
+        body += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      body += '[^/]*'
+    } else if (char === '?') {
+      body += '[^/]'
+    } else {
+      body += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  // Patterns naming a path also cover everything below it, but `docs/*` only matches direct children
+  const lastSegment = trimmed.split('/').pop() ?? ''
+  const suffix = directoryOnly ? '/.*' : lastSegment.includes('*') ? '' : '(?:/.*)?'
+
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}${suffix}$`)
+}
+
+/**
+ * Owners of a file (empty when no rule, or a rule without owners, matches)
+ */
+export function getCodeowners(rules: CodeownersRule[], filename: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(filename)) return rules[i].owners
+  }
+  return []
+}
+
+/**
+ * Team owners (`org/team`) referenced by the rules, for resolving team membership
+ */
+export function getCodeownerTeams(rules: CodeownersRule[]): string[] {
+  const teams = new Set<string>()
+  for (const rule of rules) {
+    for (const owner of rule.owners) {
+      if (owner.startsWith('@') && owner.includes('/')) teams.add(owner.slice(1).toLowerCase())
+    }
+  }
+  return [...teams]
+}
+
+/**
+ * Changed files that have owners, but no approval from any of them.
+ *
+ * @param teamMembers - Members of each team owner, keyed by lowercase `org/team`
+ */
+export function findFilesWithoutOwnerApproval(params: {
+  filenames: string[]
+  rules: CodeownersRule[]
+  teamMembers: Record<string, string[]>
+  approvers: string[]
+}): Array<{ filename: string; owners: string[] }> {
+  const { filenames, rules, teamMembers, approvers } = params
+  const approversLower = new Set(approvers.map((a) => a.toLowerCase()))
+
+  const isApprovedByOwner = (owner: string): boolean => {
+    if (!owner.startsWith('@')) return false
+    const name = owner.slice(1).toLowerCase()
+    if (!name.includes('/')) return approversLower.has(name)
+    return (teamMembers[name] ?? []).some((member) => approversLower.has(member.toLowerCase()))
+  }
+
+  const missing: Array<{ filename: string; owners: string[] }> = []
+  for (const filename of filenames) {
+    const owners = getCodeowners(rules, filename)
+    if (owners.length > 0 && !owners.some(isApprovedByOwner)) {
+      missing.push({ filename, owners })
+    }
+  }
+  return missing
+}
@@ -0,0 +1,32 @@
+/**
+ * Deployment status changes and their side effects.
+ *
+ * When a deployment's four-eyes status changes, the users involved get personal notifications
+ * and the status change is dispatched to the app's notification channels. Both status writers -
+ * updateDeploymentStatus and storing a verification result - call notifyDeploymentStatusChanged
+ * after the transition is logged.
+ */
+
+import { updateDeploymentFourEyes } from '~/db/deployments.server'
+import { dispatchDeploymentStatusNotification } from './notifications/dispatch.server'
+import { queueStatusChangeNotifications } from './personal-notifications.server'
+
+export async function notifyDeploymentStatusChanged(deploymentId: number, toStatus: string): Promise<void> {
+  await queueStatusChangeNotifications(deploymentId, toStatus)
+  // Not awaited, so a slow channel does not hold up the status change
+  void dispatchDeploymentStatusNotification(deploymentId, toStatus)
+}
+
+/**
+ * Update a deployment's four-eyes data and notify about the status change, if any.
+ */
+export async function updateDeploymentStatus(
+  deploymentId: number,
+  data: Parameters<typeof updateDeploymentFourEyes>[1],
+  statusChangeOptions?: Parameters<typeof updateDeploymentFourEyes>[2],
+): Promise<void> {
+  const { statusChanged } = await updateDeploymentFourEyes(deploymentId, data, statusChangeOptions)
+  if (statusChanged) {
+    await notifyDeploymentStatusChanged(deploymentId, data.fourEyesStatus)
+  }
+}
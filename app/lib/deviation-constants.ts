@@ -20,3 +20,68 @@ export const DEVIATION_FOLLOW_UP_ROLE_LABELS: Record<DeviationFollowUpRole, stri
   delivery_lead: 'Leveranseleder',
   section_lead: 'Seksjonsleder',
 }
+
+export const DEVIATION_STATUSES = ['open', 'under_investigation', 'action_required', 'closed'] as const
+export type DeviationStatus = (typeof DEVIATION_STATUSES)[number]
+
+export const DEVIATION_STATUS_LABELS: Record<DeviationStatus, string> = {
+  open: 'Åpen',
+  under_investigation: 'Under undersøkelse',
+  action_required: 'Tiltak kreves',
+  closed: 'Lukket',
+}
+
+/** Allowed status changes. A closed deviation can be reopened. */
+export const DEVIATION_STATUS_TRANSITIONS: Record<DeviationStatus, DeviationStatus[]> = {
+  open: ['under_investigation', 'action_required', 'closed'],
+  under_investigation: ['action_required', 'closed'],
+  action_required: ['under_investigation', 'closed'],
+  closed: ['open'],
+}
+
+export function canTransitionDeviation(from: DeviationStatus, to: DeviationStatus): boolean {
+  return DEVIATION_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/** Days from registration until follow-up is due, by severity */
+export const DEVIATION_DUE_DAYS: Record<DeviationSeverity, number> = {
+  critical: 1,
+  high: 3,
+  medium: 14,
+  low: 30,
+}
+
+/** Deviations registered without severity are followed up as medium */
+export const DEFAULT_DEVIATION_SEVERITY: DeviationSeverity = 'medium'
+
+export function getDeviationDueDate(severity: DeviationSeverity | null | undefined, registeredAt: Date): Date {
+  const dueAt = new Date(registeredAt)
+  dueAt.setDate(dueAt.getDate() + DEVIATION_DUE_DAYS[severity ?? DEFAULT_DEVIATION_SEVERITY])
+  return dueAt
+}
+
+export function isDeviationOverdue(
+  deviation: { status: DeviationStatus; due_at: Date | string | null },
+  now: Date = new Date(),
+): boolean {
+  return deviation.status !== 'closed' && deviation.due_at !== null && new Date(deviation.due_at) < now
+}
+
+export interface DeviationFollowUpLeads {
+  product_lead_nav_ident: string | null
+  delivery_lead_nav_ident: string | null
+  section_lead_nav_ident: string | null
+}
+
+/**
+ * Pick the assignee for a deviation from the dev team/section leads.
+ * Falls back to the section lead when the requested role is not set up;
+ * deviations without a follow-up role go to the delivery lead.
+ */
+export function resolveDeviationAssignee(
+  followUpRole: DeviationFollowUpRole | null | undefined,
+  leads: DeviationFollowUpLeads,
+): string | null {
+  const role = followUpRole ?? 'delivery_lead'
+  return leads[`${role}_nav_ident`] ?? leads.section_lead_nav_ident
+}
@@ -0,0 +1,93 @@
+/**
+ * Deviation escalation scheduler.
+ *
+ * Checks every 15 minutes for open deviations past their due date and posts
+ * them to the deviation Slack channel. Each deviation is escalated once;
+ * claiming is an atomic DB update to prevent duplicate sends across pods, and
+ * the claim is released if the message could not be sent, so it is retried.
+ */
+
+import { claimOverdueDeviations, releaseDeviationEscalation } from '~/db/deviations.server'
+import { getDeviationSlackChannel } from '~/db/global-settings.server'
+import { logger } from '~/lib/logger.server'
+import { isSlackConfigured, sendDeviationEscalation } from './slack'
+
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000 // 15 minutes
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Start the deviation escalation scheduler.
+ */
+export function startDeviationEscalationScheduler(): void {
+  if (schedulerInterval) return
+  logger.info('⏰ Starting deviation escalation scheduler (15 min interval)')
+  schedulerInterval = setInterval(escalateOverdueDeviations, SCHEDULER_INTERVAL_MS)
+}
+
+/**
+ * Stop the deviation escalation scheduler.
+ */
+export function stopDeviationEscalationScheduler(): void {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval)
+    schedulerInterval = null
+    logger.info('⏰ Deviation escalation scheduler stopped')
+  }
+}
+
+/**
+ * Escalate all overdue deviations. Returns the number escalated.
+ */
+export async function escalateOverdueDeviations(): Promise<number> {
+  try {
+    // Without Slack or a channel there is nowhere to escalate - leave deviations unclaimed
+    if (!isSlackConfigured()) return 0
+    const { channel_id: channelId } = await getDeviationSlackChannel()
+    if (!channelId) return 0
+
+    const deviations = await claimOverdueDeviations()
+    const baseUrl = process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
+    let escalated = 0
+
+    for (const deviation of deviations) {
+      const appUrl = `/team/${deviation.team_slug}/env/${deviation.environment_name}/app/${deviation.app_name}`
+      const messageTs = await sendDeviationEscalation(
+        {
+          deviationId: deviation.id,
+          deploymentId: deviation.deployment_id,
+          appName: deviation.app_name || 'Ukjent',
+          environmentName: deviation.environment_name || 'Ukjent',
+          teamSlug: deviation.team_slug || 'Ukjent',
+          reason: deviation.reason,
+          severity: deviation.severity || undefined,
+          status: deviation.status,
+          assignedTo: deviation.assigned_to || undefined,
+          dueAt: new Date(deviation.due_at ?? deviation.created_at).toISOString(),
+          detailsUrl: `${baseUrl}${appUrl}/deployments/${deviation.deployment_id}`,
+        },
+        channelId,
+      ).catch((error) => {
+        logger.error(`Failed to escalate deviation ${deviation.id}:`, error)
+        return null
+      })
+
+      if (messageTs) {
+        escalated++
+      } else {
+        await releaseDeviationEscalation(deviation.id)
+      }
+    }
+
+    if (escalated > 0) {
+      logger.info(`⏰ Escalated ${escalated} overdue deviation(s)`)
+    }
+    if (escalated < deviations.length) {
+      logger.warn(`⏰ ${deviations.length - escalated} deviation escalation(s) failed, retrying next run`)
+    }
+    return escalated
+  } catch (error) {
+    logger.error('Deviation escalation error:', error)
+    return 0
+  }
+}
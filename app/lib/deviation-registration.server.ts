@@ -0,0 +1,105 @@
+/**
+ * Deviation registration.
+ *
+ * Registers a deviation on a deployment and posts it to the deviation Slack channel
+ * and the notification channels configured for the app.
+ * Shared by the deployment page and the Slack deviation modal.
+ */
+
+import { type DeploymentWithApp, getDeploymentById } from '~/db/deployments.server'
+import { createDeviation, type DeploymentDeviation, getDeviationById } from '~/db/deviations.server'
+import { getDeviationSlackChannel } from '~/db/global-settings.server'
+import type { DeviationFollowUpRole, DeviationIntent, DeviationSeverity } from '~/lib/deviation-constants'
+import { dispatchNotification } from '~/lib/notifications/dispatch.server'
+import { postSlackMessage } from '~/lib/notifications/slack-channel.server'
+import { queueDeviationNotifications } from '~/lib/personal-notifications.server'
+import type { DeviationNotification } from './slack'
+
+export interface DeviationRegistration {
+  deploymentId: number
+  reason: string
+  breachType?: string
+  intent?: DeviationIntent
+  severity?: DeviationSeverity
+  followUpRole?: DeviationFollowUpRole
+  registeredBy: string
+  registeredByName?: string
+}
+
+/**
+ * Build the Slack deviation message for the current state of a deviation
+ */
+function buildDeviationNotification(
+  deviation: DeploymentDeviation,
+  deployment: DeploymentWithApp,
+): DeviationNotification {
+  const baseUrl = process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
+  const appUrl = `/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}`
+
+  return {
+    deploymentId: deployment.id,
+    appName: deployment.app_name,
+    environmentName: deployment.environment_name,
+    teamSlug: deployment.team_slug,
+    commitSha: deployment.commit_sha || 'Ukjent',
+    reason: deviation.reason,
+    breachType: deviation.breach_type || undefined,
+    intent: deviation.intent || undefined,
+    severity: deviation.severity || undefined,
+    followUpRole: deviation.follow_up_role || undefined,
+    assignedTo: deviation.assigned_to || undefined,
+    dueAt: deviation.due_at ? new Date(deviation.due_at).toISOString() : undefined,
+    registeredByName: deviation.registered_by_name || deviation.registered_by,
+    detailsUrl: `${baseUrl}${appUrl}/deployments/${deployment.id}`,
+    deviationId: deviation.id,
+    status: deviation.status,
+    resolvedByName: deviation.resolved_by_name || deviation.resolved_by || undefined,
+    resolutionNote: deviation.resolution_note || undefined,
+  }
+}
+
+/**
+ * Get the Slack deviation message for a stored deviation, e.g. to re-render it after an update
+ */
+export async function getDeviationNotification(deviationId: number): Promise<DeviationNotification | null> {
+  const deviation = await getDeviationById(deviationId)
+  if (!deviation) return null
+
+  const deployment = await getDeploymentById(deviation.deployment_id)
+  if (!deployment) return null
+
+  return buildDeviationNotification(deviation, deployment)
+}
+
+/**
+ * Register a deviation. Returns null if the deployment does not exist.
+ */
+export async function registerDeviation(params: DeviationRegistration): Promise<DeploymentDeviation | null> {
+  const deployment = await getDeploymentById(params.deploymentId)
+  if (!deployment) return null
+
+  const deviation = await createDeviation({
+    deployment_id: params.deploymentId,
+    reason: params.reason,
+    breach_type: params.breachType,
+    intent: params.intent,
+    severity: params.severity,
+    follow_up_role: params.followUpRole,
+    registered_by: params.registeredBy,
+    registered_by_name: params.registeredByName,
+  })
+
+  const notification = buildDeviationNotification(deviation, deployment)
+
+  // Send Slack notification to deviation channel
+  const deviationChannelConfig = await getDeviationSlackChannel()
+  if (deviationChannelConfig.channel_id) {
+    await postSlackMessage({ type: 'deviation', notification }, deviationChannelConfig.channel_id)
+  }
+
+  await dispatchNotification({ type: 'deviation_registered', deviation: notification }, deployment.monitored_app_id)
+
+  await queueDeviationNotifications(deviation, 'deviation_registered')
+
+  return deviation
+}
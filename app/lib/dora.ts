@@ -0,0 +1,172 @@
+/**
+ * DORA metrics
+ *
+ * Computed from production deployments in a period:
+ * - Deployment frequency: deployments per week
+ * - Lead time for changes: from PR opened to deployed (median), for new commits only
+ * - Change failure rate: share of deployments that got a deviation or were rolled back
+ * - Time to restore: from a failed deployment to the deployment that replaced it (median)
+ *
+ * A rollback is a deployment of a commit the app has run before, replacing a different
+ * commit, or one verification recognised as a rollback (or, before rollback detection,
+ * flagged as "SHAs differ but compare returned 0 commits").
+ * Levels follow the thresholds in the DORA State of DevOps report.
+ */
+
+export type DoraLevel = 'elite' | 'high' | 'medium' | 'low'
+
+export const DORA_LEVEL_LABELS: Record<DoraLevel, string> = {
+  elite: 'Elite',
+  high: 'Høy',
+  medium: 'Middels',
+  low: 'Lav',
+}
+
+/** A deployment in the period with its neighbours in the same app */
+export interface DoraDeployment {
+  id: number
+  created_at: Date
+  commit_sha: string | null
+  pr_created_at: Date | null
+  pr_merged_at: Date | null
+  previous_deployment_id: number | null
+  previous_deployed_at: Date | null
+  previous_commit_sha: string | null
+  next_deployed_at: Date | null
+  has_deviation: boolean
+  /** The commit was deployed to the app before */
+  redeployed_commit: boolean
+  /** Verification recognised the deployment as a rollback */
+  compare_rollback: boolean
+}
+
+export interface DoraMetrics {
+  deployments: number
+  deploymentsPerWeek: number
+  deploymentFrequencyLevel: DoraLevel | null
+  medianLeadTimeMs: number | null
+  medianMergeToDeployMs: number | null
+  leadTimeLevel: DoraLevel | null
+  failures: number
+  rollbacks: number
+  changeFailureRate: number | null
+  changeFailureRateLevel: DoraLevel | null
+  medianTimeToRestoreMs: number | null
+  timeToRestoreLevel: DoraLevel | null
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const WEEK = 7 * DAY
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function elapsed(from: Date | null, to: Date | null): number | null {
+  if (!from || !to) return null
+  const diff = new Date(to).getTime() - new Date(from).getTime()
+  return diff >= 0 ? diff : null
+}
+
+export function isRollback(deployment: DoraDeployment): boolean {
+  if (deployment.compare_rollback) return true
+  return (
+    deployment.redeployed_commit &&
+    deployment.commit_sha !== null &&
+    deployment.previous_commit_sha !== null &&
+    deployment.commit_sha !== deployment.previous_commit_sha
+  )
+}
+
+export function getDeploymentFrequencyLevel(perWeek: number): DoraLevel {
+  if (perWeek >= 7) return 'elite' // On demand, several per day
+  if (perWeek >= 1) return 'high' // Between daily and weekly
+  if (perWeek >= 12 / 52) return 'medium' // Between weekly and monthly
+  return 'low'
+}
+
+export function getLeadTimeLevel(ms: number): DoraLevel {
+  if (ms < DAY) return 'elite'
+  if (ms < WEEK) return 'high'
+  if (ms < 30 * DAY) return 'medium'
+  return 'low'
+}
+
+export function getChangeFailureRateLevel(rate: number): DoraLevel {
+  if (rate <= 0.05) return 'elite'
+  if (rate <= 0.1) return 'high'
+  if (rate <= 0.15) return 'medium'
+  return 'low'
+}
+
+export function getTimeToRestoreLevel(ms: number): DoraLevel {
+  if (ms < HOUR) return 'elite'
+  if (ms < DAY) return 'high'
+  if (ms < WEEK) return 'medium'
+  return 'low'
+}
+
+/**
+ * Compute DORA metrics for the deployments in a period.
+ * Without a range (all time) the period starts at the first deployment.
+ */
+export function computeDoraMetrics(
+  deployments: DoraDeployment[],
+  range: { startDate: Date; endDate: Date } | null,
+): DoraMetrics {
+  const count = deployments.length
+
+  const end = range ? range.endDate.getTime() : Date.now()
+  const start = range
+    ? range.startDate.getTime()
+    : Math.min(end, ...deployments.map((d) => new Date(d.created_at).getTime()))
+  const weeks = Math.max((end - start) / WEEK, 1 / 7)
+  const deploymentsPerWeek = count > 0 ? count / weeks : 0
+
+  // Lead time only for new commits; rollbacks and redeploys would skew it
+  const newChanges = deployments.filter((d) => !d.redeployed_commit && !isRollback(d))
+  const medianLeadTimeMs = median(
+    newChanges.map((d) => elapsed(d.pr_created_at, d.created_at)).filter((v): v is number => v !== null),
+  )
+  const medianMergeToDeployMs = median(
+    newChanges.map((d) => elapsed(d.pr_merged_at, d.created_at)).filter((v): v is number => v !== null),
+  )
+
+  // Failed deployments and how long it took to replace them. A rollback marks the
+  // deployment it replaced as failed; a deviation marks its own deployment.
+  const restoreTimes = new Map<number, number | null>()
+  const rollbacks = deployments.filter(isRollback)
+  for (const rollback of rollbacks) {
+    if (rollback.previous_deployment_id !== null) {
+      restoreTimes.set(rollback.previous_deployment_id, elapsed(rollback.previous_deployed_at, rollback.created_at))
+    }
+  }
+  for (const deployment of deployments) {
+    if (deployment.has_deviation && !restoreTimes.has(deployment.id)) {
+      restoreTimes.set(deployment.id, elapsed(deployment.created_at, deployment.next_deployed_at))
+    }
+  }
+
+  const failures = Math.min(restoreTimes.size, count)
+  const changeFailureRate = count > 0 ? failures / count : null
+  const medianTimeToRestoreMs = median([...restoreTimes.values()].filter((v): v is number => v !== null))
+
+  return {
+    deployments: count,
+    deploymentsPerWeek,
+    deploymentFrequencyLevel: count > 0 ? getDeploymentFrequencyLevel(deploymentsPerWeek) : null,
+    medianLeadTimeMs,
+    medianMergeToDeployMs,
+    leadTimeLevel: medianLeadTimeMs !== null ? getLeadTimeLevel(medianLeadTimeMs) : null,
+    failures,
+    rollbacks: rollbacks.length,
+    changeFailureRate,
+    changeFailureRateLevel: changeFailureRate !== null ? getChangeFailureRateLevel(changeFailureRate) : null,
+    medianTimeToRestoreMs,
+    timeToRestoreLevel: medianTimeToRestoreMs !== null ? getTimeToRestoreLevel(medianTimeToRestoreMs) : null,
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Outbound event stream delivery.
+ *
+ * A scheduler publishes due outbox deliveries to the HTTP subscribers every 30 seconds. The work runs
+ * under a global sync lock so only one pod delivers at a time, and each run stops claiming new batches
+ * well before the lock times out. Deliveries are also claimed with a lease, so a pod that takes over an
+ * expired lock does not resend what is still in flight. Failed attempts are retried with exponential
+ * backoff until MAX_DELIVERY_ATTEMPTS, after which they show up as failed in the admin view.
+ *
+ * Events are delivered at least once and may arrive out of order after retries; receivers should use
+ * the event id (X-Deployment-Audit-Delivery) to deduplicate and occurredAt to order.
+ */
+
+import {
+  claimDueEventDeliveries,
+  type DueEventDelivery,
+  hasDueEventDeliveries,
+  markEventDelivered,
+  markEventDeliveryFailed,
+} from '~/db/event-outbox.server'
+import { getRetryDelayMs } from './event-outbox'
+import { logger } from './logger.server'
+import { signWebhookBody } from './notifications/webhook-channel.server'
+import { withSyncLock } from './sync/with-sync-lock.server'
+
+const SCHEDULER_INTERVAL_MS = 30 * 1000 // 30 seconds
+const REQUEST_TIMEOUT_MS = 10_000
+const LOCK_TIMEOUT_MINUTES = 5
+// Stop claiming new batches after this, so the run ends well within the lock timeout
+const RUN_BUDGET_MS = 2 * 60 * 1000 // 2 minutes
+// Sent one at a time, so a batch takes at most BATCH_SIZE * REQUEST_TIMEOUT_MS (100 s), within the lease
+const BATCH_SIZE = 10
+const CLAIM_LEASE_MS = 3 * 60 * 1000 // 3 minutes
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null
+let isRunning = false
+
+/**
+ * The JSON body posted to subscribers
+ */
+export function buildEventBody(delivery: DueEventDelivery) {
+  return {
+    id: delivery.event_id,
+    type: delivery.event_type,
+    occurredAt: new Date(delivery.event_created_at).toISOString(),
+    app: delivery.app_name
+      ? { team: delivery.team_slug, environment: delivery.environment_name, name: delivery.app_name }
+      : null,
+    deploymentId: delivery.deployment_id,
+    data: delivery.payload,
+  }
+}
+
+/**
+ * Post one delivery and record the outcome. Returns whether it was delivered.
+ */
+export async function deliverEvent(delivery: DueEventDelivery): Promise<boolean> {
+  const body = JSON.stringify(buildEventBody(delivery))
+  let responseStatus: number | undefined
+  let error: string
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'deployment-audit',
+        'X-Deployment-Audit-Event': delivery.event_type,
+        'X-Deployment-Audit-Delivery': delivery.event_id,
+        'X-Deployment-Audit-Signature': signWebhookBody(body, delivery.secret),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    if (response.ok) {
+      await markEventDelivered(delivery.id, response.status)
+      return true
+    }
+    responseStatus = response.status
+    error = `HTTP ${response.status} ${response.statusText}`
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e)
+  }
+
+  const retryDelay = getRetryDelayMs(delivery.attempts + 1)
+  await markEventDeliveryFailed(delivery.id, {
+    nextAttemptAt: retryDelay === null ? null : new Date(Date.now() + retryDelay),
+    responseStatus,
+    error,
+  })
+  if (retryDelay === null) {
+    logger.warn(`📤 Giving up event ${delivery.event_id} to ${delivery.url} after ${delivery.attempts + 1} attempts`)
+  }
+  return false
+}
+
+/**
+ * Deliver due events one claimed batch at a time, oldest first, until none are due or the run budget is used
+ */
+async function deliverDueEvents(): Promise<{ delivered: number; failed: number }> {
+  const deadline = Date.now() + RUN_BUDGET_MS
+  let delivered = 0
+  let failed = 0
+
+  while (Date.now() < deadline) {
+    const batch = await claimDueEventDeliveries(BATCH_SIZE, CLAIM_LEASE_MS)
+    for (const delivery of batch) {
+      if (await deliverEvent(delivery)) {
+        delivered++
+      } else {
+        failed++
+      }
+    }
+    // Claimed and failed deliveries are no longer due, so a short batch means the queue is empty
+    if (batch.length < BATCH_SIZE) break
+  }
+
+  return { delivered, failed }
+}
+
+/**
+ * Publish due outbox events if any, under the global delivery lock
+ */
+export async function publishDueEvents(): Promise<void> {
+  if (isRunning) return
+  isRunning = true
+
+  try {
+    if (!(await hasDueEventDeliveries())) return
+
+    const result = await withSyncLock(
+      'event_outbox_delivery',
+      null,
+      {
+        timeoutMinutes: LOCK_TIMEOUT_MINUTES,
+        cooldownMs: 0,
+        startMessage: 'Starter levering av hendelser',
+        resultMessage: 'Levering av hendelser fullført',
+        buildResultContext: (r) => r,
+      },
+      deliverDueEvents,
+    )
+    if (result.result && (result.result.delivered > 0 || result.result.failed > 0)) {
+      logger.info(`📤 Event stream: ${result.result.delivered} delivered, ${result.result.failed} failed`)
+    }
+  } catch (error) {
+    logger.error('Event outbox delivery error:', error)
+  } finally {
+    isRunning = false
+  }
+}
+
+/**
+ * Start the event outbox delivery scheduler.
+ */
+export function startEventOutboxScheduler(): void {
+  if (schedulerInterval) return
+  logger.info('⏰ Starting event outbox scheduler (30 s interval)')
+  schedulerInterval = setInterval(publishDueEvents, SCHEDULER_INTERVAL_MS)
+}
+
+/**
+ * Stop the event outbox delivery scheduler.
+ */
+export function stopEventOutboxScheduler(): void {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval)
+    schedulerInterval = null
+    logger.info('⏰ Event outbox scheduler stopped')
+  }
+}
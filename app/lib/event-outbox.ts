@@ -0,0 +1,43 @@
+/**
+ * Outbound event stream - event types and retry schedule.
+ *
+ * Every status transition, deviation registration/resolution and repository alert is written
+ * to the event_outbox table and published to the configured HTTP subscribers.
+ */
+
+export const OUTBOX_EVENT_TYPES = [
+  'deployment.status_changed',
+  'deviation.registered',
+  'deviation.resolved',
+  'repository_alert.created',
+] as const
+export type OutboxEventType = (typeof OUTBOX_EVENT_TYPES)[number]
+
+export const OUTBOX_EVENT_TYPE_LABELS: Record<OutboxEventType, string> = {
+  'deployment.status_changed': 'Statusendring',
+  'deviation.registered': 'Avvik registrert',
+  'deviation.resolved': 'Avvik lukket',
+  'repository_alert.created': 'Repository-varsel',
+}
+
+export const EVENT_DELIVERY_STATUS_LABELS = {
+  pending: 'Venter',
+  delivered: 'Levert',
+  failed: 'Feilet',
+} as const
+export type EventDeliveryStatus = keyof typeof EVENT_DELIVERY_STATUS_LABELS
+
+/** A delivery is given up (status failed) after this many attempts */
+export const MAX_DELIVERY_ATTEMPTS = 10
+
+const BASE_RETRY_DELAY_MS = 60 * 1000 // 1 minute
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000 // 6 hours
+
+/**
+ * Delay before the next attempt after a failed one: doubles from one minute, capped at six hours.
+ * Returns null when the delivery has used all its attempts.
+ */
+export function getRetryDelayMs(attempts: number): number | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS)
+}
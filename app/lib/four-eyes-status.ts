@@ -18,6 +18,9 @@ export const FOUR_EYES_STATUSES = [
   'approved_pr', // Alias for approved (legacy)
   'implicitly_approved', // Approved via implicit approval rules
   'manually_approved', // Manually approved by admin
+  'baseline', // First deployment, approved as baseline by admin
+  'no_changes', // Same commit as previous deployment
+  'rollback', // Rollback to a commit verified in an earlier deployment
   'pending', // Awaiting verification
   'pending_baseline', // First deployment, awaiting baseline
   'pending_approval', // Alias for pending (legacy)
@@ -29,6 +32,7 @@ export const FOUR_EYES_STATUSES = [
   'repository_mismatch', // Repository doesn't match monitored app
   'unauthorized_repository', // Repository not approved for this app
   'unauthorized_branch', // Deployed commit not on approved branch
+  'missing_required_tests', // Approved, but the app's required test checks did not pass
   'error', // Error during verification
   'unknown', // Not yet verified (DB default)
 ] as const
@@ -47,6 +51,9 @@ export const APPROVED_STATUSES: FourEyesStatus[] = [
   'approved_pr',
   'implicitly_approved',
   'manually_approved',
+  'baseline',
+  'no_changes',
+  'rollback',
 ]
 
 /**
@@ -58,6 +65,7 @@ export const NOT_APPROVED_STATUSES: FourEyesStatus[] = [
   'approved_pr_with_unreviewed',
   'unauthorized_repository',
   'unauthorized_branch',
+  'missing_required_tests',
 ]
 
 /**
@@ -70,6 +78,12 @@ export const PENDING_STATUSES: FourEyesStatus[] = ['pending', 'pending_baseline'
  */
 export const LEGACY_STATUSES: FourEyesStatus[] = ['legacy', 'legacy_pending']
 
+/**
+ * Statuses that do not block an audit report: approved, plus legacy deployments
+ * that have been looked up and registered
+ */
+export const AUDIT_ACCEPTED_STATUSES: FourEyesStatus[] = [...APPROVED_STATUSES, 'legacy']
+
 // =============================================================================
 // Human-Readable Labels
 // =============================================================================
@@ -79,6 +93,9 @@ export const FOUR_EYES_STATUS_LABELS: Record<FourEyesStatus, string> = {
   approved_pr: 'Godkjent PR',
   implicitly_approved: 'Implisitt godkjent',
   manually_approved: 'Manuelt godkjent',
+  baseline: 'Baseline',
+  no_changes: 'Ingen endringer',
+  rollback: 'Rollback',
   pending: 'Venter',
   pending_baseline: 'Første deployment',
   pending_approval: 'Venter godkjenning',
@@ -90,6 +107,7 @@ export const FOUR_EYES_STATUS_LABELS: Record<FourEyesStatus, string> = {
   repository_mismatch: 'Repository mismatch',
   unauthorized_repository: 'Ikke godkjent repo',
   unauthorized_branch: 'Ikke på godkjent branch',
+  missing_required_tests: 'Mangler påkrevde tester',
   error: 'Feil',
   unknown: 'Ukjent',
 }
@@ -105,6 +123,13 @@ export function isApprovedStatus(status: string): boolean {
   return APPROVED_STATUSES.includes(status as FourEyesStatus)
 }
 
+/**
+ * Check if a status is accepted in an audit report (approved or registered legacy)
+ */
+export function isAuditAcceptedStatus(status: string): boolean {
+  return AUDIT_ACCEPTED_STATUSES.includes(status as FourEyesStatus)
+}
+
 /**
  * Check if a status indicates deployment is not approved
  */
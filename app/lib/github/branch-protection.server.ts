@@ -0,0 +1,93 @@
+import { type BranchProtectionRules, type BranchProtectionRuleset, UNPROTECTED_BRANCH } from '~/lib/branch-protection'
+import { logger } from '~/lib/logger.server'
+import { getGitHubClient } from './client.server'
+
+function isNotFound(error: unknown): boolean {
+  return (error as { status?: number }).status === 404
+}
+
+/**
+ * Fetch the protection rules in force for a branch, combining classic branch
+ * protection with the rules from repository rulesets that apply to the branch.
+ *
+ * Returns null on API error (caller should keep the previous snapshot).
+ */
+export async function getBranchProtectionRules(
+  owner: string,
+  repo: string,
+  branch: string,
+): Promise<BranchProtectionRules | null> {
+  const client = getGitHubClient()
+
+  try {
+    const rules: BranchProtectionRules = { ...UNPROTECTED_BRANCH, rulesets: [] }
+    let classicProtected = false
+
+    // Classic branch protection - 404 means the branch is not protected
+    try {
+      const { data } = await client.repos.getBranchProtection({ owner, repo, branch })
+      classicProtected = true
+      rules.protected = true
+      rules.adminsCanBypass = !data.enforce_admins?.enabled
+      const reviews = data.required_pull_request_reviews
+      if (reviews) {
+        rules.requiredApprovingReviewCount = reviews.required_approving_review_count ?? 0
+        rules.dismissStaleReviews = reviews.dismiss_stale_reviews ?? false
+        rules.requireCodeOwnerReviews = reviews.require_code_owner_reviews ?? false
+        rules.requireLastPushApproval = reviews.require_last_push_approval ?? false
+      }
+    } catch (error) {
+      if (!isNotFound(error)) throw error
+    }
+
+    // Active rules from rulesets targeting the branch
+    const { data: branchRules } = await client.repos.getBranchRules({ owner, repo, branch })
+    const rulesetIds = new Set<number>()
+    for (const rule of branchRules as Array<{
+      type: string
+      ruleset_id?: number
+      parameters?: {
+        required_approving_review_count?: number
+        dismiss_stale_reviews_on_push?: boolean
+        require_code_owner_review?: boolean
+        require_last_push_approval?: boolean
+      }
+    }>) {
+      if (rule.ruleset_id) rulesetIds.add(rule.ruleset_id)
+      if (rule.type !== 'pull_request' || !rule.parameters) continue
+
+      rules.protected = true
+      rules.requiredApprovingReviewCount = Math.max(
+        rules.requiredApprovingReviewCount,
+        rule.parameters.required_approving_review_count ?? 0,
+      )
+      rules.dismissStaleReviews ||= rule.parameters.dismiss_stale_reviews_on_push ?? false
+      rules.requireCodeOwnerReviews ||= rule.parameters.require_code_owner_review ?? false
+      rules.requireLastPushApproval ||= rule.parameters.require_last_push_approval ?? false
+    }
+
+    for (const rulesetId of rulesetIds) {
+      const { data } = await client.repos.getRepoRuleset({ owner, repo, ruleset_id: rulesetId })
+      const ruleset: BranchProtectionRuleset = {
+        id: data.id,
+        name: data.name,
+        enforcement: data.enforcement,
+        bypassActorCount: data.bypass_actors?.length ?? 0,
+      }
+      rules.rulesets.push(ruleset)
+      rules.protected = true
+    }
+
+    // Without classic protection, admins can only be stopped by rulesets without bypass actors
+    if (!classicProtected) {
+      rules.adminsCanBypass = rules.rulesets.length === 0 || rules.rulesets.some((r) => r.bypassActorCount > 0)
+    } else if (rules.rulesets.some((r) => r.bypassActorCount > 0)) {
+      rules.adminsCanBypass = true
+    }
+
+    return rules
+  } catch (error) {
+    logger.warn(`⚠️ Failed to fetch branch protection for ${owner}/${repo}@${branch}:`, error as Record<string, unknown>)
+    return null
+  }
+}
@@ -0,0 +1,72 @@
+import { CODEOWNERS_PATHS } from '~/lib/codeowners'
+import { logger } from '~/lib/logger.server'
+import type { PrFile } from '~/lib/verification/types'
+import { getGitHubClient } from './client.server'
+
+function isNotFound(error: unknown): boolean {
+  return (error as { status?: number }).status === 404
+}
+
+/**
+ * Get the files changed in a PR
+ */
+export async function getPullRequestFiles(owner: string, repo: string, prNumber: number): Promise<PrFile[]> {
+  const client = getGitHubClient()
+  const files = await client.paginate(client.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: prNumber,
+    per_page: 100,
+  })
+
+  return files.map((file) => ({
+    filename: file.filename,
+    status: file.status,
+    previousFilename: file.previous_filename ?? null,
+  }))
+}
+
+/**
+ * Get the CODEOWNERS file in force at a ref, looking in the same locations as GitHub.
+ * Returns null when the repository has no CODEOWNERS file at that ref.
+ */
+export async function getCodeownersFile(
+  owner: string,
+  repo: string,
+  ref: string,
+): Promise<{ path: string; content: string } | null> {
+  const client = getGitHubClient()
+
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const { data } = await client.repos.getContent({ owner, repo, path, ref })
+      if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) continue
+      return { path, content: Buffer.from(data.content, 'base64').toString('utf-8') }
+    } catch (error) {
+      if (!isNotFound(error)) throw error
+    }
+  }
+
+  return null
+}
+
+/**
+ * Get the usernames of the members of a team (`org/team`).
+ * Returns an empty list if the team cannot be read, so its approvals are not counted.
+ */
+export async function getTeamMembers(team: string): Promise<string[]> {
+  const [org, teamSlug] = team.split('/')
+  const client = getGitHubClient()
+
+  try {
+    const members = await client.paginate(client.teams.listMembersInOrg, {
+      org,
+      team_slug: teamSlug,
+      per_page: 100,
+    })
+    return members.map((member) => member.login)
+  } catch (error) {
+    logger.warn(`⚠️ Failed to fetch members of team ${team}:`, error as Record<string, unknown>)
+    return []
+  }
+}
@@ -1,4 +1,5 @@
 import { logger } from '~/lib/logger.server'
+import type { PrChecks } from '~/lib/verification/types'
 import { getGitHubClient } from './client.server'
 
 /**
@@ -71,6 +72,41 @@ export async function getCommitsBetween(
   }
 }
 
+// The compare API lists at most 300 changed files
+const MAX_COMPARE_FILES = 300
+
+/**
+ * Get the paths of the files changed from base to head.
+ *
+ * files is null when the comparison cannot tell: head is not ahead of base (the diff would leave
+ * out changes on the base side, e.g. for a rollback) or the list may be truncated.
+ * Returns null on API error (caller should try again later).
+ */
+export async function getChangedFilesBetween(
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+): Promise<{ files: string[] | null } | null> {
+  try {
+    const client = getGitHubClient()
+
+    const response = await client.repos.compareCommits({ owner, repo, base, head, per_page: 1 })
+    if (response.data.status === 'identical') return { files: [] }
+    if (response.data.status !== 'ahead') return { files: null }
+
+    const files = response.data.files ?? []
+    if (files.length >= MAX_COMPARE_FILES) return { files: null }
+    return { files: files.map((file) => file.filename) }
+  } catch (error) {
+    logger.warn(
+      `⚠️ Failed to get changed files ${base.substring(0, 7)}...${head.substring(0, 7)} in ${owner}/${repo}:`,
+      error as Record<string, unknown>,
+    )
+    return null
+  }
+}
+
 /**
  * Check if a commit SHA exists on a given branch.
  * Uses the compare API: if the branch is identical to or ahead of the commit,
@@ -105,3 +141,92 @@ export async function isCommitOnBranch(
     return null
   }
 }
+
+/**
+ * Check if a commit is an ancestor of another commit, i.e. reachable from it.
+ * Used to recognise rollbacks: the deployed commit is an ancestor of the
+ * previously deployed commit.
+ *
+ * Returns null on API error (caller should treat as unknown).
+ */
+export async function isAncestorCommit(
+  owner: string,
+  repo: string,
+  ancestorSha: string,
+  descendantSha: string,
+): Promise<boolean | null> {
+  try {
+    const client = getGitHubClient()
+
+    const response = await client.repos.compareCommits({
+      owner,
+      repo,
+      base: ancestorSha,
+      head: descendantSha,
+    })
+
+    // The descendant is ahead of the ancestor with nothing behind
+    return response.data.status === 'ahead'
+  } catch (error) {
+    logger.warn(
+      `⚠️ Failed to check if ${ancestorSha.substring(0, 7)} is an ancestor of ${descendantSha.substring(0, 7)} in ${owner}/${repo}:`,
+      error as Record<string, unknown>,
+    )
+    return null
+  }
+}
+
+/**
+ * Get the check runs and commit statuses on a commit.
+ * Statuses are the latest per context (combined status).
+ *
+ * Returns null on API error (caller should treat as unknown).
+ */
+export async function getCommitChecks(owner: string, repo: string, sha: string): Promise<PrChecks | null> {
+  try {
+    const client = getGitHubClient()
+
+    const [checkRuns, combinedStatus] = await Promise.all([
+      client.paginate(client.checks.listForRef, { owner, repo, ref: sha, per_page: 100 }),
+      client.repos.getCombinedStatusForRef({ owner, repo, ref: sha, per_page: 100 }),
+    ])
+
+    const completed = checkRuns.filter((run) => run.status === 'completed')
+    const conclusion =
+      checkRuns.length === 0 || completed.length < checkRuns.length
+        ? null
+        : completed.every((run) => ['success', 'skipped', 'neutral'].includes(run.conclusion ?? ''))
+          ? 'success'
+          : 'failure'
+
+    return {
+      conclusion,
+      checkRuns: checkRuns.map((run) => ({
+        id: run.id,
+        name: run.name,
+        status: run.status as 'queued' | 'in_progress' | 'completed',
+        conclusion: run.conclusion,
+        startedAt: run.started_at ?? null,
+        completedAt: run.completed_at ?? null,
+        htmlUrl: run.html_url,
+        headSha: run.head_sha,
+        detailsUrl: run.details_url,
+        externalId: run.external_id,
+        checkSuiteId: run.check_suite?.id ?? null,
+        app: run.app ? { name: run.app.name, slug: run.app.slug ?? null } : null,
+      })),
+      statuses: combinedStatus.data.statuses.map((status) => ({
+        context: status.context,
+        state: status.state as 'pending' | 'success' | 'failure' | 'error',
+        description: status.description,
+        targetUrl: status.target_url,
+      })),
+    }
+  } catch (error) {
+    logger.warn(
+      `⚠️ Failed to get checks for ${sha.substring(0, 7)} in ${owner}/${repo}:`,
+      error as Record<string, unknown>,
+    )
+    return null
+  }
+}
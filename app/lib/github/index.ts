@@ -1,5 +1,13 @@
+export { getBranchProtectionRules } from './branch-protection.server'
 export { getGitHubClient } from './client.server'
-export { getCommitsBetween, isCommitOnBranch } from './git.server'
+export { getCodeownersFile, getPullRequestFiles, getTeamMembers } from './codeowners.server'
+export {
+  getChangedFilesBetween,
+  getCommitChecks,
+  getCommitsBetween,
+  isAncestorCommit,
+  isCommitOnBranch,
+} from './git.server'
 export { type LegacyLookupResult, lookupLegacyByCommit, lookupLegacyByPR } from './legacy.server'
 export {
   clearPrCommitsCache,
@@ -15,3 +23,13 @@ export {
   type PullRequestWithMatchInfo,
   verifyPullRequestFourEyes,
 } from './pr.server'
+export { getRepositoryIdentity } from './repository.server'
+export {
+  extractWebhookTargets,
+  isSupportedWebhookEvent,
+  SUPPORTED_WEBHOOK_EVENTS,
+  type SupportedWebhookEvent,
+  verifyWebhookSignature,
+  type WebhookPayload,
+  type WebhookTargets,
+} from './webhook.server'
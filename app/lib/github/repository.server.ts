@@ -0,0 +1,23 @@
+import { logger } from '~/lib/logger.server'
+import { getGitHubClient } from './client.server'
+
+/**
+ * Look up a repository's stable ID and current name. GitHub redirects requests
+ * for renamed or transferred repositories, so an old name resolves to the same
+ * ID as the new one.
+ *
+ * Returns null if the repository cannot be found or on API error.
+ */
+export async function getRepositoryIdentity(
+  owner: string,
+  repo: string,
+): Promise<{ id: number; owner: string; repo: string } | null> {
+  try {
+    const client = getGitHubClient()
+    const { data } = await client.repos.get({ owner, repo })
+    return { id: data.id, owner: data.owner.login, repo: data.name }
+  } catch (error) {
+    logger.warn(`⚠️ Failed to look up repository ${owner}/${repo}:`, error as Record<string, unknown>)
+    return null
+  }
+}
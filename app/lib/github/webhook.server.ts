@@ -0,0 +1,120 @@
+/**
+ * GitHub Webhook Parsing
+ *
+ * Pure helpers for the GitHub webhook intake (api/webhooks/github):
+ * - Signature verification (X-Hub-Signature-256, HMAC-SHA256 of the raw body)
+ * - Mapping supported events to the PRs and commits whose cached data is stale
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { assertNever } from '~/lib/verification/types'
+
+export const SUPPORTED_WEBHOOK_EVENTS = ['pull_request', 'pull_request_review', 'check_run', 'push'] as const
+export type SupportedWebhookEvent = (typeof SUPPORTED_WEBHOOK_EVENTS)[number]
+
+/**
+ * PRs and commits in one repository affected by a webhook event
+ */
+export interface WebhookTargets {
+  owner: string
+  repo: string
+  prNumbers: number[]
+  commitShas: string[]
+}
+
+// Minimal payload shapes - only the fields we use
+interface WebhookRepository {
+  name: string
+  owner: { login: string }
+}
+
+interface WebhookPullRequest {
+  number: number
+  title?: string
+  html_url?: string
+  merge_commit_sha?: string | null
+  head?: { sha: string }
+}
+
+export interface WebhookPayload {
+  action?: string
+  repository?: WebhookRepository
+  pull_request?: WebhookPullRequest
+  /** Set on pull_request review_requested events for a user (not a team) */
+  requested_reviewer?: { login: string }
+  check_run?: {
+    head_sha: string
+    pull_requests?: Array<{ number: number }>
+  }
+  commits?: Array<{ id: string }>
+  head_commit?: { id: string } | null
+  deleted?: boolean
+}
+
+export function isSupportedWebhookEvent(event: string | null): event is SupportedWebhookEvent {
+  return SUPPORTED_WEBHOOK_EVENTS.includes(event as SupportedWebhookEvent)
+}
+
+/**
+ * Verify the X-Hub-Signature-256 header against the raw request body.
+ */
+export function verifyWebhookSignature(rawBody: string, signatureHeader: string | null, secret: string): boolean {
+  if (!signatureHeader?.startsWith('sha256=')) return false
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`)
+  const actual = Buffer.from(signatureHeader)
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Extract the PRs and commits whose cached snapshots should be invalidated.
+ * Returns null when the payload has no repository.
+ */
+export function extractWebhookTargets(event: SupportedWebhookEvent, payload: WebhookPayload): WebhookTargets | null {
+  if (!payload.repository) return null
+
+  const prNumbers = new Set<number>()
+  const commitShas = new Set<string>()
+
+  switch (event) {
+    case 'pull_request':
+    case 'pull_request_review': {
+      const pr = payload.pull_request
+      if (pr) {
+        prNumbers.add(pr.number)
+        // The merge commit may have been cached with no PR association before the merge
+        if (pr.merge_commit_sha) commitShas.add(pr.merge_commit_sha)
+        if (pr.head?.sha) commitShas.add(pr.head.sha)
+      }
+      break
+    }
+    case 'check_run': {
+      const checkRun = payload.check_run
+      if (checkRun) {
+        commitShas.add(checkRun.head_sha)
+        for (const pr of checkRun.pull_requests ?? []) {
+          prNumbers.add(pr.number)
+        }
+      }
+      break
+    }
+    case 'push': {
+      if (payload.deleted) break
+      for (const commit of payload.commits ?? []) {
+        commitShas.add(commit.id)
+      }
+      if (payload.head_commit) commitShas.add(payload.head_commit.id)
+      break
+    }
+    default:
+      return assertNever(event, `Unhandled webhook event: ${event}`)
+  }
+
+  return {
+    owner: payload.repository.owner.login,
+    repo: payload.repository.name,
+    prNumbers: [...prNumbers],
+    commitShas: [...commitShas],
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Automatic Goal Linking - database side
+ *
+ * Runs after verification to link a deployment to the objectives/key results
+ * it mentions, and builds the per-board preview of what would be linked.
+ */
+
+import type { BoardWithObjectives } from '~/db/boards.server'
+import {
+  addAutoGoalLinks,
+  type GoalLinkPreviewDeployment,
+  getDeploymentsForGoalLinkPreview,
+  getGoalReferencesForBoard,
+  getGoalReferencesForDevTeams,
+} from '~/db/deployment-goal-links.server'
+import { type DevTeamWithNaisTeams, getDevTeamApplications, getDevTeamsForApp } from '~/db/dev-teams.server'
+import { getMonitoredApplicationById } from '~/db/monitored-applications.server'
+import { logger } from '~/lib/logger.server'
+import type { VerificationInput } from '~/lib/verification/types'
+import { buildGoalKeywords, buildGoalLinkSources, findGoalLinkMatches, type GoalLinkMatch } from './goal-linking'
+
+/**
+ * Link a verified deployment to goals on its dev teams' active boards.
+ * Returns the number of links created.
+ */
+export async function autoLinkDeploymentGoals(
+  deploymentId: number,
+  monitoredAppId: number,
+  input: Pick<VerificationInput, 'deployedPr' | 'commitsBetween'>,
+): Promise<number> {
+  const app = await getMonitoredApplicationById(monitoredAppId)
+  if (!app) return 0
+
+  const devTeams = await getDevTeamsForApp(monitoredAppId, app.team_slug)
+  const refs = await getGoalReferencesForDevTeams(devTeams.map((t) => t.id))
+  const keywords = buildGoalKeywords(refs)
+  if (keywords.length === 0) return 0
+
+  const sources = buildGoalLinkSources({
+    prTitle: input.deployedPr?.metadata.title,
+    prBody: input.deployedPr?.metadata.body,
+    commitMessages: input.commitsBetween.map((c) => c.message),
+  })
+
+  const matches = findGoalLinkMatches(keywords, sources)
+  if (matches.length === 0) return 0
+
+  const created = await addAutoGoalLinks(deploymentId, matches)
+  if (created > 0) {
+    logger.info(`🎯 Auto-linked deployment ${deploymentId} to ${created} goal(s)`)
+  }
+  return created
+}
+
+export interface GoalLinkPreviewItem {
+  deployment: Omit<GoalLinkPreviewDeployment, 'commit_messages' | 'pr_body' | 'linked_goals'>
+  matches: Array<GoalLinkMatch & { already_linked: boolean }>
+}
+
+/**
+ * Preview which deployments in the board's period would be auto-linked to its goals.
+ * Uses the PR and commit data stored on each deployment.
+ */
+export async function previewBoardAutoLinks(
+  devTeam: DevTeamWithNaisTeams,
+  board: BoardWithObjectives,
+): Promise<GoalLinkPreviewItem[]> {
+  const keywords = buildGoalKeywords(await getGoalReferencesForBoard(board.id))
+  if (keywords.length === 0) return []
+
+  const startDate = new Date(board.period_start)
+  const endDate = new Date(board.period_end)
+  endDate.setDate(endDate.getDate() + 1)
+
+  const directApps = await getDevTeamApplications(devTeam.id)
+  const directAppIds = directApps.map((a) => a.monitored_app_id)
+  const deployments = await getDeploymentsForGoalLinkPreview(
+    devTeam.nais_team_slugs,
+    startDate,
+    endDate,
+    directAppIds.length > 0 ? directAppIds : undefined,
+  )
+
+  const items: GoalLinkPreviewItem[] = []
+  for (const { commit_messages, pr_body, linked_goals, ...deployment } of deployments) {
+    const sources = buildGoalLinkSources({
+      prTitle: deployment.pr_title,
+      prBody: pr_body,
+      commitMessages: commit_messages,
+    })
+    const matches = findGoalLinkMatches(keywords, sources)
+    if (matches.length === 0) continue
+
+    items.push({
+      deployment,
+      matches: matches.map((match) => ({
+        ...match,
+        already_linked: linked_goals.some(
+          (g) => g.objective_id === match.objective_id && g.key_result_id === match.key_result_id,
+        ),
+      })),
+    })
+  }
+  return items
+}
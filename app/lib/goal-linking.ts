@@ -0,0 +1,120 @@
+/**
+ * Automatic Goal Linking
+ *
+ * Pure helpers for linking deployments to board objectives/key results by keyword.
+ * Keywords come from the external references on a board (Jira keys and key result
+ * codes such as "KR-3"), and are matched against the deployed PR title/body
+ * (link_method 'pr_title') and commit messages (link_method 'commit_keyword').
+ */
+
+import type { ExternalReference } from '~/db/boards.server'
+
+export type AutoLinkMethod = 'pr_title' | 'commit_keyword'
+
+/** A keyword that links to one objective or key result */
+export interface GoalKeyword {
+  keyword: string
+  objective_id: number | null
+  key_result_id: number | null
+}
+
+/** A piece of text to scan for keywords */
+export interface GoalLinkSource {
+  link_method: AutoLinkMethod
+  text: string
+}
+
+export interface GoalLinkMatch extends GoalKeyword {
+  link_method: AutoLinkMethod
+}
+
+const JIRA_KEY_PATTERN = /\b[A-Z][A-Z0-9]+-\d+\b/g
+const JIRA_BROWSE_PATTERN = /\/browse\/([A-Z][A-Z0-9]+-\d+)/i
+// A single token with at least one separator, e.g. "KR-3", "O1.KR2", "PEN-KR4"
+const CODE_PATTERN = /^[A-Za-z][A-Za-z0-9]*(?:[-.][A-Za-z0-9]+)+$/
+
+/**
+ * Extract the keywords an external reference can be recognized by.
+ * - Jira references: the issue key from the URL and any keys in the title
+ * - Any reference whose title is a single code-like token (e.g. "KR-3")
+ */
+export function extractReferenceKeywords(ref: Pick<ExternalReference, 'ref_type' | 'url' | 'title'>): string[] {
+  const keywords = new Set<string>()
+  const title = ref.title?.trim() ?? ''
+
+  if (ref.ref_type === 'jira') {
+    const browseMatch = ref.url.match(JIRA_BROWSE_PATTERN)
+    if (browseMatch) keywords.add(browseMatch[1].toUpperCase())
+    for (const key of title.toUpperCase().match(JIRA_KEY_PATTERN) ?? []) {
+      keywords.add(key)
+    }
+  }
+
+  if (CODE_PATTERN.test(title)) {
+    keywords.add(title.toUpperCase())
+  }
+
+  return [...keywords]
+}
+
+/**
+ * Build keywords for all references, each pointing at the objective or key result it belongs to
+ */
+export function buildGoalKeywords(
+  refs: Array<Pick<ExternalReference, 'ref_type' | 'url' | 'title' | 'objective_id' | 'key_result_id'>>,
+): GoalKeyword[] {
+  return refs.flatMap((ref) =>
+    extractReferenceKeywords(ref).map((keyword) => ({
+      keyword,
+      objective_id: ref.objective_id,
+      key_result_id: ref.key_result_id,
+    })),
+  )
+}
+
+/**
+ * Collect the texts to scan for a deployment: the deployed PR title/body first,
+ * then each commit message.
+ */
+export function buildGoalLinkSources(data: {
+  prTitle?: string | null
+  prBody?: string | null
+  commitMessages: string[]
+}): GoalLinkSource[] {
+  const sources: GoalLinkSource[] = []
+  if (data.prTitle) sources.push({ link_method: 'pr_title', text: data.prTitle })
+  if (data.prBody) sources.push({ link_method: 'pr_title', text: data.prBody })
+  for (const message of data.commitMessages) {
+    if (message) sources.push({ link_method: 'commit_keyword', text: message })
+  }
+  return sources
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function containsKeyword(text: string, keyword: string): boolean {
+  // Keyword must not be part of a longer key, e.g. "PEN-12" must not match "PEN-123" or "XPEN-12"
+  return new RegExp(`(?<![A-Za-z0-9-])${escapeRegExp(keyword)}(?![A-Za-z0-9])`, 'i').test(text)
+}
+
+/**
+ * Find the goals mentioned in the sources. Each goal is matched at most once;
+ * the first source that mentions it decides the link method.
+ */
+export function findGoalLinkMatches(keywords: GoalKeyword[], sources: GoalLinkSource[]): GoalLinkMatch[] {
+  const matches = new Map<string, GoalLinkMatch>()
+
+  for (const source of sources) {
+    for (const keyword of keywords) {
+      const goalKey = `${keyword.objective_id ?? ''}:${keyword.key_result_id ?? ''}`
+      if (matches.has(goalKey)) continue
+      if (containsKeyword(source.text, keyword.keyword)) {
+        matches.set(goalKey, { ...keyword, link_method: source.link_method })
+      }
+    }
+  }
+
+  return [...matches.values()]
+}
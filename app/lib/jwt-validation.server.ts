@@ -4,6 +4,7 @@
  * Validates JWT tokens from Azure AD using JWKS (JSON Web Key Set).
  * This provides cryptographic verification of token signatures in addition
  * to the validation already performed by Wonderwall.
+ * Also validates machine-to-machine tokens from other apps (used by the JSON API).
  *
  * Environment variables (injected by Nais when azure.sidecar.enabled):
  * - AZURE_OPENID_CONFIG_JWKS_URI: JWKS endpoint for public keys
@@ -34,6 +35,21 @@ export type ValidationResult =
   | { success: true; payload: ValidatedTokenPayload }
   | { success: false; error: ValidationError }
 
+/**
+ * Payload of a machine-to-machine (client credentials) token from another app
+ */
+export interface ValidatedServiceTokenPayload {
+  /** Client ID of the calling app (azp claim) */
+  clientId: string
+  /** Name of the calling app, e.g. "prod-gcp:team:app" (azp_name claim) */
+  appName: string
+  roles: string[]
+}
+
+export type ServiceValidationResult =
+  | { success: true; payload: ValidatedServiceTokenPayload }
+  | { success: false; error: ValidationError }
+
 /**
  * Check if JWT validation is configured (running in Nais with Azure sidecar)
  */
@@ -129,45 +145,100 @@ export async function validateToken(token: string): Promise<ValidationResult> {
       },
     }
   } catch (err) {
-    // Handle specific jose errors
-    if (err instanceof jose.errors.JWTExpired) {
-      return {
-        success: false,
-        error: {
-          code: 'expired',
-          message: 'Token has expired',
-        },
-      }
-    }
+    return { success: false, error: mapJoseError(err) }
+  }
+}
 
-    if (err instanceof jose.errors.JWSSignatureVerificationFailed) {
-      return {
-        success: false,
-        error: {
-          code: 'invalid_signature',
-          message: 'Token signature verification failed',
-        },
-      }
+/**
+ * Check if a token is a machine-to-machine token (without verifying it).
+ * Used to pick the right validation - Azure sets idtyp=app for client credentials tokens.
+ */
+export function isServiceToken(token: string): boolean {
+  try {
+    return jose.decodeJwt(token).idtyp === 'app'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate a machine-to-machine token from another app.
+ *
+ * Validates signature, expiration, issuer and audience like validateToken, and
+ * requires idtyp=app. Which apps may get a token for us is controlled by
+ * accessPolicy.inbound in the Nais manifest.
+ */
+export async function validateServiceToken(token: string): Promise<ServiceValidationResult> {
+  if (!isJwtValidationConfigured()) {
+    return {
+      success: false,
+      error: {
+        code: 'missing_config',
+        message: 'JWT validation not configured - missing Azure environment variables',
+      },
     }
+  }
+
+  const issuer = process.env.AZURE_OPENID_CONFIG_ISSUER as string
+  const audience = process.env.AZURE_APP_CLIENT_ID as string
+
+  try {
+    const jwks = await getJwks()
+    const { payload } = await jose.jwtVerify(token, jwks, { issuer, audience })
 
-    if (err instanceof jose.errors.JWTClaimValidationFailed) {
+    const clientId = payload.azp as string | undefined
+    if (payload.idtyp !== 'app' || !clientId) {
       return {
         success: false,
         error: {
           code: 'invalid_claims',
-          message: `Token claim validation failed: ${err.message}`,
+          message: 'Token is not an application token',
         },
       }
     }
 
-    // Generic token error
     return {
-      success: false,
-      error: {
-        code: 'invalid_token',
-        message: err instanceof Error ? err.message : 'Unknown token validation error',
+      success: true,
+      payload: {
+        clientId,
+        appName: (payload.azp_name as string) || clientId,
+        roles: (payload.roles as string[]) || [],
       },
     }
+  } catch (err) {
+    return { success: false, error: mapJoseError(err) }
+  }
+}
+
+/**
+ * Map errors thrown by jose to a ValidationError
+ */
+function mapJoseError(err: unknown): ValidationError {
+  if (err instanceof jose.errors.JWTExpired) {
+    return {
+      code: 'expired',
+      message: 'Token has expired',
+    }
+  }
+
+  if (err instanceof jose.errors.JWSSignatureVerificationFailed) {
+    return {
+      code: 'invalid_signature',
+      message: 'Token signature verification failed',
+    }
+  }
+
+  if (err instanceof jose.errors.JWTClaimValidationFailed) {
+    return {
+      code: 'invalid_claims',
+      message: `Token claim validation failed: ${err.message}`,
+    }
+  }
+
+  // Generic token error
+  return {
+    code: 'invalid_token',
+    message: err instanceof Error ? err.message : 'Unknown token validation error',
   }
 }
 
@@ -0,0 +1,104 @@
+/**
+ * Manual approval of deployments
+ *
+ * Shared by the web UI (`manual_approval` intent) and the Slack
+ * `approve_deployment` button so that both enforce the same four-eyes
+ * checks and record the approval the same way.
+ */
+
+import { createComment } from '~/db/comments.server'
+import type { DeploymentWithApp } from '~/db/deployments.server'
+import { getUserMappings } from '~/db/user-mappings.server'
+import { updateDeploymentStatus } from '~/lib/deployment-status.server'
+
+export const SELF_APPROVAL_ERRORS = {
+  pr_creator: 'Du kan ikke godkjenne din egen pull request. Fire-øyne-prinsippet krever at en annen person godkjenner.',
+  last_commit_author:
+    'Du kan ikke godkjenne en deployment der du har siste commit. Fire-øyne-prinsippet krever at en annen person godkjenner.',
+  deployer:
+    'Du kan ikke godkjenne en deployment du selv har deployet. Fire-øyne-prinsippet krever at en annen person godkjenner.',
+} as const
+
+export type SelfApprovalConflict = keyof typeof SELF_APPROVAL_ERRORS
+
+/**
+ * Determine whether the approver is one of the people whose work is being approved.
+ * All idents are compared case-insensitively; missing idents never conflict.
+ */
+export function findSelfApprovalConflict(input: {
+  approverNavIdent: string
+  prCreatorNavIdent?: string | null
+  lastCommitAuthorNavIdent?: string | null
+  deployerNavIdent?: string | null
+}): SelfApprovalConflict | null {
+  const approver = input.approverNavIdent.toUpperCase()
+  if (input.prCreatorNavIdent?.toUpperCase() === approver) return 'pr_creator'
+  if (input.lastCommitAuthorNavIdent?.toUpperCase() === approver) return 'last_commit_author'
+  if (input.deployerNavIdent?.toUpperCase() === approver) return 'deployer'
+  return null
+}
+
+/**
+ * Validate that the given NAV-ident may manually approve the deployment.
+ * Returns an error message, or null when the approval is allowed.
+ *
+ * @param options.includeDeployer - Also refuse approval by the deployer
+ */
+export async function validateManualApprover(
+  deployment: DeploymentWithApp,
+  approverNavIdent: string,
+  options?: { includeDeployer?: boolean },
+): Promise<string | null> {
+  const prCreatorUsername = deployment.github_pr_data?.creator?.username ?? null
+  const lastCommitAuthor = deployment.unverified_commits?.length
+    ? deployment.unverified_commits[deployment.unverified_commits.length - 1].author
+    : null
+  const deployerUsername = options?.includeDeployer ? deployment.deployer_username : null
+
+  const usernamesToCheck = [prCreatorUsername, lastCommitAuthor, deployerUsername].filter(
+    (u, i, all): u is string => !!u && all.indexOf(u) === i,
+  )
+  const userMappings = await getUserMappings(usernamesToCheck)
+
+  const conflict = findSelfApprovalConflict({
+    approverNavIdent,
+    prCreatorNavIdent: prCreatorUsername ? userMappings.get(prCreatorUsername)?.nav_ident : null,
+    lastCommitAuthorNavIdent: lastCommitAuthor ? userMappings.get(lastCommitAuthor)?.nav_ident : null,
+    deployerNavIdent: deployerUsername ? userMappings.get(deployerUsername)?.nav_ident : null,
+  })
+
+  return conflict ? SELF_APPROVAL_ERRORS[conflict] : null
+}
+
+/**
+ * Record a manual approval: adds a manual_approval comment and marks the
+ * deployment as manually approved (which also logs the status transition).
+ */
+export async function recordManualApproval(
+  deploymentId: number,
+  data: {
+    approvedBy: string
+    reason?: string
+    slackLink?: string
+    details?: Record<string, unknown>
+  },
+): Promise<void> {
+  await createComment({
+    deployment_id: deploymentId,
+    comment_text: data.reason || 'Manuelt godkjent etter gjennomgang',
+    slack_link: data.slackLink?.trim() || undefined,
+    comment_type: 'manual_approval',
+    approved_by: data.approvedBy,
+  })
+
+  await updateDeploymentStatus(
+    deploymentId,
+    {
+      hasFourEyes: true,
+      fourEyesStatus: 'manually_approved',
+      githubPrNumber: null,
+      githubPrUrl: null,
+    },
+    { changeSource: 'manual_approval', changedBy: data.approvedBy, details: data.details },
+  )
+}
@@ -0,0 +1,154 @@
+/**
+ * Form actions for managing notification channels, shared by the app admin page (per-app channels)
+ * and the global settings page (global channels).
+ */
+
+import {
+  createNotificationChannel,
+  deleteNotificationChannel,
+  getNotificationChannelById,
+  getNotificationChannels,
+  getNotificationDeliveries,
+  type NotificationChannel,
+  setNotificationChannelEnabled,
+} from '~/db/notification-channels.server'
+import { type ActionResult, fail, ok } from '~/lib/action-result'
+import { isValidEmail, isValidSlackChannel } from '~/lib/form-validators'
+import { isChannelKindAvailable, sendTestNotification } from './dispatch.server'
+import { describeChannelTarget } from './format'
+import {
+  NOTIFICATION_CHANNEL_KINDS,
+  NOTIFICATION_EVENT_TYPES,
+  type NotificationChannelConfigs,
+  type NotificationChannelKind,
+  type NotificationEventType,
+} from './types'
+import { checkWebhookUrl } from './webhook-url.server'
+
+export const NOTIFICATION_CHANNEL_ACTIONS = [
+  'create_notification_channel',
+  'toggle_notification_channel',
+  'delete_notification_channel',
+  'test_notification_channel',
+] as const
+
+const MIN_WEBHOOK_SECRET_LENGTH = 16
+
+/**
+ * Channels and recent deliveries for the settings UI, with the webhook secrets left out
+ */
+export async function getNotificationChannelSettings(monitoredAppId: number | null) {
+  const [channels, deliveries] = await Promise.all([
+    getNotificationChannels(monitoredAppId),
+    getNotificationDeliveries(monitoredAppId),
+  ])
+  return {
+    channels: channels.map((channel) => ({
+      id: channel.id,
+      kind: channel.kind,
+      name: channel.name,
+      target: describeChannelTarget(channel.kind, channel.config),
+      events: channel.events,
+      enabled: channel.enabled,
+    })),
+    deliveries,
+    unavailableKinds: NOTIFICATION_CHANNEL_KINDS.filter((kind) => !isChannelKindAvailable(kind)),
+  }
+}
+
+async function parseChannelConfig(
+  kind: NotificationChannelKind,
+  formData: FormData,
+): Promise<{ config: NotificationChannelConfigs[NotificationChannelKind] } | { error: string }> {
+  if (kind === 'slack') {
+    const channelId = (formData.get('slack_channel_id') as string)?.trim() || ''
+    if (!isValidSlackChannel(channelId)) {
+      return { error: 'Ugyldig kanal-format. Bruk kanal-ID (C01234567) eller kanalnavn (#kanal-navn)' }
+    }
+    return { config: { channel_id: channelId } }
+  }
+
+  if (kind === 'email') {
+    const recipients = ((formData.get('email_recipients') as string) || '')
+      .split(/[,\n]/)
+      .map((email) => email.trim())
+      .filter(Boolean)
+    if (recipients.length === 0 || !recipients.every(isValidEmail)) {
+      return { error: 'Oppgi én eller flere gyldige e-postadresser' }
+    }
+    return { config: { recipients } }
+  }
+
+  const url = (formData.get('webhook_url') as string)?.trim() || ''
+  const secret = (formData.get('webhook_secret') as string)?.trim() || ''
+  const urlError = await checkWebhookUrl(url)
+  if (urlError) {
+    return { error: urlError }
+  }
+  if (secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+    return { error: `Hemmeligheten må være minst ${MIN_WEBHOOK_SECRET_LENGTH} tegn` }
+  }
+  return { config: { url, secret } }
+}
+
+/**
+ * Handle a notification channel form action for one scope (an app, or global when monitoredAppId is null).
+ * Channels given by id must belong to the scope.
+ */
+export async function handleNotificationChannelAction(
+  action: (typeof NOTIFICATION_CHANNEL_ACTIONS)[number],
+  formData: FormData,
+  scope: { monitoredAppId: number | null; createdBy: string },
+): Promise<ActionResult> {
+  if (action === 'create_notification_channel') {
+    const kind = formData.get('kind') as NotificationChannelKind
+    const name = (formData.get('name') as string)?.trim() || ''
+    const events = formData
+      .getAll('events')
+      .map(String)
+      .filter((event): event is NotificationEventType =>
+        NOTIFICATION_EVENT_TYPES.includes(event as NotificationEventType),
+      )
+
+    if (!NOTIFICATION_CHANNEL_KINDS.includes(kind)) return fail('Ugyldig kanaltype')
+    if (!name) return fail('Navn kan ikke være tomt')
+    if (events.length === 0) return fail('Velg minst én hendelse')
+
+    const parsed = await parseChannelConfig(kind, formData)
+    if ('error' in parsed) return fail(parsed.error)
+
+    await createNotificationChannel({
+      monitoredAppId: scope.monitoredAppId,
+      kind,
+      name,
+      config: parsed.config,
+      events,
+      createdBy: scope.createdBy,
+    })
+    return ok(`Varslingskanal «${name}» opprettet`)
+  }
+
+  const channel: NotificationChannel | null = await getNotificationChannelById(Number(formData.get('channel_id')))
+  if (!channel || channel.monitored_app_id !== scope.monitoredAppId) {
+    return fail('Varslingskanal ikke funnet')
+  }
+
+  if (action === 'toggle_notification_channel') {
+    await setNotificationChannelEnabled(channel.id, !channel.enabled)
+    return ok(channel.enabled ? `«${channel.name}» er deaktivert` : `«${channel.name}» er aktivert`)
+  }
+
+  if (action === 'delete_notification_channel') {
+    await deleteNotificationChannel(channel.id)
+    return ok(`«${channel.name}» er slettet`)
+  }
+
+  const result = await sendTestNotification(channel)
+  return result.success
+    ? ok(`Testvarsel sendt til ${result.target}`)
+    : fail(`Testvarsel feilet: ${result.error || 'ukjent feil'}`)
+}
+
+export function isNotificationChannelAction(action: unknown): action is (typeof NOTIFICATION_CHANNEL_ACTIONS)[number] {
+  return NOTIFICATION_CHANNEL_ACTIONS.includes(action as (typeof NOTIFICATION_CHANNEL_ACTIONS)[number])
+}
@@ -0,0 +1,161 @@
+/**
+ * Notification dispatch.
+ *
+ * Sends an event to every enabled channel for the app plus every enabled global channel that
+ * subscribes to the event type, and logs each attempt in notification_deliveries.
+ *
+ * Dispatching never throws: a failing channel must not fail the status change or deviation that caused it.
+ */
+
+import {
+  getChannelsForEvent,
+  logNotificationDelivery,
+  type NotificationChannel,
+} from '~/db/notification-channels.server'
+import { getNotificationDeploymentContext } from '~/db/user-notifications.server'
+import { isNotApprovedStatus } from '~/lib/four-eyes-status'
+import { logger } from '~/lib/logger.server'
+import { emailChannel } from './email-channel.server'
+import { buildWebhookBody, getEventDeploymentId } from './format'
+import { slackChannel } from './slack-channel.server'
+import type { DeliveryResult, NotificationChannelKind, NotificationChannelSender, NotificationEvent } from './types'
+import { webhookChannel } from './webhook-channel.server'
+
+const senders: { [K in NotificationChannelKind]: NotificationChannelSender<K> } = {
+  slack: slackChannel,
+  email: emailChannel,
+  webhook: webhookChannel,
+}
+
+function getBaseUrl(): string {
+  return process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
+}
+
+/**
+ * Whether a channel kind can deliver in this environment (Slack and SMTP need configuration)
+ */
+export function isChannelKindAvailable(kind: NotificationChannelKind): boolean {
+  return senders[kind].isAvailable()
+}
+
+/**
+ * Send an event through one channel and log the attempt
+ */
+export async function deliverToChannel(
+  channel: NotificationChannel,
+  event: NotificationEvent,
+  monitoredAppId: number | null,
+): Promise<DeliveryResult> {
+  const sender = senders[channel.kind] as NotificationChannelSender<typeof channel.kind>
+  let result: DeliveryResult
+  try {
+    result = await sender.send(event, channel.config)
+  } catch (error) {
+    result = { success: false, target: '', error: error instanceof Error ? error.message : String(error) }
+  }
+
+  try {
+    await logNotificationDelivery({
+      channel,
+      monitoredAppId,
+      eventType: event.type,
+      // Test notifications use deployment 0
+      deploymentId: getEventDeploymentId(event) || null,
+      result,
+      payload: buildWebhookBody(event) as unknown as Record<string, unknown>,
+    })
+  } catch (error) {
+    logger.error(`Failed to log notification delivery for channel ${channel.id}:`, error)
+  }
+
+  if (!result.success) {
+    logger.warn(`Notification ${event.type} via ${channel.kind} channel ${channel.id} failed: ${result.error}`)
+  }
+  return result
+}
+
+/**
+ * Send an event to all channels subscribed to it for an app
+ */
+export async function dispatchNotification(event: NotificationEvent, monitoredAppId: number): Promise<void> {
+  try {
+    const channels = await getChannelsForEvent(event.type, monitoredAppId)
+    for (const channel of channels) {
+      await deliverToChannel(channel, event, monitoredAppId)
+    }
+  } catch (error) {
+    logger.error(`Failed to dispatch ${event.type} notification for app ${monitoredAppId}:`, error)
+  }
+}
+
+/**
+ * Notify channels when a deployment changes to a not approved status.
+ * Status updates start this without awaiting it, since channel delivery (webhook timeouts,
+ * SMTP) must not hold up verification.
+ */
+export async function dispatchDeploymentStatusNotification(deploymentId: number, toStatus: string): Promise<void> {
+  if (!isNotApprovedStatus(toStatus)) return
+
+  try {
+    const deployment = await getNotificationDeploymentContext(deploymentId)
+    if (!deployment) return
+
+    await dispatchNotification(
+      {
+        type: 'deployment_unverified',
+        fourEyesStatus: toStatus,
+        deployment: {
+          deploymentId: deployment.id,
+          appName: deployment.app_name,
+          environmentName: deployment.environment_name,
+          teamSlug: deployment.team_slug,
+          commitSha: deployment.commit_sha || 'unknown',
+          commitMessage: deployment.title || undefined,
+          deployerName: deployment.deployer_username || 'ukjent',
+          deployerUsername: deployment.deployer_username || 'unknown',
+          prNumber: deployment.github_pr_number || undefined,
+          prUrl: deployment.github_pr_url || undefined,
+          status: 'unverified',
+          detailsUrl: `${getBaseUrl()}/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`,
+        },
+      },
+      deployment.monitored_app_id,
+    )
+  } catch (error) {
+    logger.error(`Failed to dispatch status notification for deployment ${deploymentId}:`, error)
+  }
+}
+
+/**
+ * Send a sample event through a channel so admins can check the configuration.
+ * Slack always gets the deviation sample, as Slack deployment messages are stored per deployment.
+ */
+export async function sendTestNotification(channel: NotificationChannel): Promise<DeliveryResult> {
+  const type = channel.kind === 'slack' ? 'deviation_registered' : (channel.events[0] ?? 'deployment_unverified')
+  const sample = {
+    deploymentId: 0,
+    appName: 'testapp',
+    environmentName: 'test',
+    teamSlug: 'test',
+    commitSha: '0000000',
+    detailsUrl: getBaseUrl(),
+  }
+  const event: NotificationEvent =
+    type === 'deviation_registered'
+      ? {
+          type,
+          deviation: { ...sample, reason: 'Testvarsel fra Deployment Audit', registeredByName: 'Deployment Audit' },
+        }
+      : {
+          type,
+          fourEyesStatus: 'unverified_commits',
+          deployment: {
+            ...sample,
+            commitMessage: 'Testvarsel fra Deployment Audit',
+            deployerName: 'Deployment Audit',
+            deployerUsername: 'deployment-audit',
+            status: 'unverified',
+          },
+        }
+  return deliverToChannel(channel, event, channel.monitored_app_id)
+}
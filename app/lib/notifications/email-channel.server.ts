@@ -0,0 +1,62 @@
+/**
+ * Email notification channel over SMTP.
+ *
+ * Configured with SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" for implicit TLS),
+ * SMTP_USER/SMTP_PASSWORD (optional) and SMTP_FROM.
+ */
+
+import nodemailer, { type Transporter } from 'nodemailer'
+import { logger } from '~/lib/logger.server'
+import { buildEmailMessage } from './format'
+import type { NotificationChannelSender } from './types'
+
+let transporter: Transporter | null = null
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    })
+  }
+  return transporter
+}
+
+/**
+ * Drop the cached transporter, e.g. after SMTP settings change in tests
+ */
+export function resetEmailTransporter(): void {
+  transporter = null
+}
+
+export const emailChannel: NotificationChannelSender<'email'> = {
+  kind: 'email',
+
+  isAvailable() {
+    return Boolean(process.env.SMTP_HOST && process.env.SMTP_FROM)
+  },
+
+  async send(event, config) {
+    const target = config.recipients.join(', ')
+    if (!this.isAvailable()) {
+      return { success: false, target, error: 'SMTP er ikke konfigurert' }
+    }
+
+    const message = buildEmailMessage(event)
+    try {
+      const info = await getTransporter().sendMail({
+        from: process.env.SMTP_FROM,
+        to: config.recipients,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      })
+      return { success: true, target, externalId: info.messageId }
+    } catch (error) {
+      logger.error('Failed to send notification email:', error)
+      return { success: false, target, error: error instanceof Error ? error.message : String(error) }
+    }
+  },
+}
@@ -0,0 +1,108 @@
+/**
+ * Formatting of notification events for email and webhook channels.
+ * Slack uses the Block Kit builders in ~/lib/slack/blocks.
+ */
+
+import { getFourEyesStatusLabel } from '~/lib/four-eyes-status'
+import type { NotificationChannelConfigs, NotificationChannelKind, NotificationEvent } from './types'
+
+export interface EmailMessage {
+  subject: string
+  text: string
+  html: string
+}
+
+export interface WebhookBody {
+  event: NotificationEvent['type']
+  sentAt: string
+  data: Record<string, unknown>
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Label/value rows describing the event, shared by the text and HTML email
+ */
+function getEventFields(event: NotificationEvent): Array<[string, string]> {
+  if (event.type === 'deviation_registered') {
+    const { deviation } = event
+    return [
+      ['Applikasjon', `${deviation.appName} (${deviation.environmentName})`],
+      ['Team', deviation.teamSlug],
+      ['Commit', deviation.commitSha.substring(0, 7)],
+      ['Beskrivelse', deviation.reason],
+      ...(deviation.severity ? [['Alvorlighetsgrad', deviation.severity] as [string, string]] : []),
+      ...(deviation.breachType ? [['Type brudd', deviation.breachType] as [string, string]] : []),
+      ['Registrert av', deviation.registeredByName],
+    ]
+  }
+
+  const { deployment } = event
+  return [
+    ['Applikasjon', `${deployment.appName} (${deployment.environmentName})`],
+    ['Team', deployment.teamSlug],
+    ['Status', getFourEyesStatusLabel(event.fourEyesStatus)],
+    ['Commit', deployment.commitSha.substring(0, 7)],
+    ...(deployment.commitMessage ? [['Tittel', deployment.commitMessage] as [string, string]] : []),
+    ...(deployment.prNumber ? [['Pull request', `#${deployment.prNumber}`] as [string, string]] : []),
+    ['Deployet av', deployment.deployerName],
+  ]
+}
+
+function getEventUrl(event: NotificationEvent): string {
+  return event.type === 'deviation_registered' ? event.deviation.detailsUrl : event.deployment.detailsUrl
+}
+
+export function buildEmailMessage(event: NotificationEvent): EmailMessage {
+  const subject =
+    event.type === 'deviation_registered'
+      ? `Avvik registrert: ${event.deviation.appName} (${event.deviation.environmentName})`
+      : `Deployment ikke verifisert: ${event.deployment.appName} (${event.deployment.environmentName})`
+  const fields = getEventFields(event)
+  const url = getEventUrl(event)
+
+  const text = [subject, '', ...fields.map(([label, value]) => `${label}: ${value}`), '', `Se detaljer: ${url}`].join(
+    '\n',
+  )
+
+  const rows = fields
+    .map(([label, value]) => `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('')
+  const html = `<h2>${escapeHtml(subject)}</h2><table>${rows}</table><p><a href="${escapeHtml(url)}">Se detaljer</a></p>`
+
+  return { subject, text, html }
+}
+
+export function buildWebhookBody(event: NotificationEvent, sentAt = new Date()): WebhookBody {
+  const data =
+    event.type === 'deviation_registered'
+      ? { ...event.deviation }
+      : { ...event.deployment, fourEyesStatus: event.fourEyesStatus }
+  return { event: event.type, sentAt: sentAt.toISOString(), data }
+}
+
+/**
+ * Deployment the event concerns, for the delivery log
+ */
+export function getEventDeploymentId(event: NotificationEvent): number {
+  return event.type === 'deviation_registered' ? event.deviation.deploymentId : event.deployment.deploymentId
+}
+
+/**
+ * Where a channel delivers, for display. Never includes the webhook secret.
+ */
+export function describeChannelTarget<K extends NotificationChannelKind>(
+  kind: K,
+  config: NotificationChannelConfigs[K],
+): string {
+  if (kind === 'slack') return (config as NotificationChannelConfigs['slack']).channel_id
+  if (kind === 'email') return (config as NotificationChannelConfigs['email']).recipients.join(', ')
+  return (config as NotificationChannelConfigs['webhook']).url
+}
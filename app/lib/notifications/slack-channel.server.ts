@@ -0,0 +1,54 @@
+/**
+ * Slack notification channel: posts deployment, deviation and reminder messages to a Slack channel.
+ *
+ * Channel events and the app's own Slack settings (deployment messages and reminders) both post
+ * through postSlackMessage, so Slack delivery results look the same everywhere.
+ */
+
+import { sendDeploymentNotification, sendDeviationNotification, sendReminder } from '~/lib/slack'
+import type { DeploymentNotification, DeviationNotification, ReminderNotification } from '~/lib/slack/blocks'
+import type { DeliveryResult, NotificationChannelSender } from './types'
+
+export type SlackMessage =
+  | { type: 'deployment'; notification: DeploymentNotification }
+  | { type: 'deviation'; notification: DeviationNotification }
+  | { type: 'reminder'; notification: ReminderNotification }
+
+/**
+ * Post a message to a Slack channel. externalId is the message ts, for later updates.
+ */
+export async function postSlackMessage(message: SlackMessage, channelId: string): Promise<DeliveryResult> {
+  let ts: string | null
+  switch (message.type) {
+    case 'deployment':
+      ts = await sendDeploymentNotification(message.notification, channelId)
+      break
+    case 'deviation':
+      ts = await sendDeviationNotification(message.notification, channelId)
+      break
+    case 'reminder':
+      ts = await sendReminder(message.notification, channelId)
+      break
+  }
+
+  return ts
+    ? { success: true, target: channelId, externalId: ts }
+    : { success: false, target: channelId, error: 'Slack-meldingen ble ikke sendt' }
+}
+
+export const slackChannel: NotificationChannelSender<'slack'> = {
+  kind: 'slack',
+
+  isAvailable() {
+    return Boolean(process.env.SLACK_BOT_TOKEN && process.env.SLACK_APP_TOKEN)
+  },
+
+  async send(event, config) {
+    return postSlackMessage(
+      event.type === 'deviation_registered'
+        ? { type: 'deviation', notification: event.deviation }
+        : { type: 'deployment', notification: event.deployment },
+      config.channel_id,
+    )
+  },
+}
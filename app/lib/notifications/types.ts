@@ -0,0 +1,70 @@
+/**
+ * Notification channel types
+ *
+ * Deviation and unverified-deployment events are sent to every enabled channel configured
+ * for the app and every enabled global channel that subscribes to the event.
+ */
+
+import type { DeploymentNotification, DeviationNotification } from '~/lib/slack/blocks'
+
+export const NOTIFICATION_EVENT_TYPES = ['deviation_registered', 'deployment_unverified'] as const
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number]
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  deviation_registered: 'Avvik registrert',
+  deployment_unverified: 'Deployment ikke verifisert',
+}
+
+export type NotificationEvent =
+  | { type: 'deviation_registered'; deviation: DeviationNotification }
+  | { type: 'deployment_unverified'; deployment: DeploymentNotification; fourEyesStatus: string }
+
+export const NOTIFICATION_CHANNEL_KINDS = ['slack', 'email', 'webhook'] as const
+export type NotificationChannelKind = (typeof NOTIFICATION_CHANNEL_KINDS)[number]
+
+export const NOTIFICATION_CHANNEL_KIND_LABELS: Record<NotificationChannelKind, string> = {
+  slack: 'Slack',
+  email: 'E-post',
+  webhook: 'Webhook',
+}
+
+export interface SlackChannelConfig {
+  channel_id: string
+}
+
+export interface EmailChannelConfig {
+  recipients: string[]
+}
+
+export interface WebhookChannelConfig {
+  url: string
+  /** HMAC-SHA256 key for the X-Deployment-Audit-Signature header */
+  secret: string
+}
+
+export interface NotificationChannelConfigs {
+  slack: SlackChannelConfig
+  email: EmailChannelConfig
+  webhook: WebhookChannelConfig
+}
+
+export interface DeliveryResult {
+  success: boolean
+  /** Where the notification was sent (Slack channel, email recipients or webhook URL) */
+  target: string
+  /** HTTP status for webhooks */
+  responseStatus?: number
+  /** Slack message ts or SMTP message ID */
+  externalId?: string
+  error?: string
+}
+
+/**
+ * A way of delivering notification events. Each kind has one implementation.
+ */
+export interface NotificationChannelSender<K extends NotificationChannelKind> {
+  kind: K
+  /** Whether the channel can be used in this environment (e.g. SMTP or Slack is configured) */
+  isAvailable(): boolean
+  send(event: NotificationEvent, config: NotificationChannelConfigs[K]): Promise<DeliveryResult>
+}
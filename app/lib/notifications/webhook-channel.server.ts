@@ -0,0 +1,66 @@
+/**
+ * Generic HTTP webhook notification channel.
+ *
+ * POSTs the event as JSON. The body is signed with the channel secret like GitHub webhooks,
+ * so receivers can verify it: X-Deployment-Audit-Signature: sha256=<HMAC-SHA256 of the raw body>.
+ *
+ * The URL is checked before each delivery (see webhook-url.server.ts) and redirects are not followed.
+ * Delivery errors are shown to app admins, so they only say what went wrong in general terms;
+ * the details are logged.
+ */
+
+import { createHmac } from 'node:crypto'
+import { logger } from '~/lib/logger.server'
+import { buildWebhookBody } from './format'
+import type { NotificationChannelSender } from './types'
+import { checkWebhookUrl } from './webhook-url.server'
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+export const webhookChannel: NotificationChannelSender<'webhook'> = {
+  kind: 'webhook',
+
+  isAvailable() {
+    return true
+  },
+
+  async send(event, config) {
+    const urlError = await checkWebhookUrl(config.url)
+    if (urlError) {
+      return { success: false, target: config.url, error: urlError }
+    }
+
+    const body = JSON.stringify(buildWebhookBody(event))
+    try {
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'deployment-audit',
+          'X-Deployment-Audit-Event': event.type,
+          'X-Deployment-Audit-Signature': signWebhookBody(body, config.secret),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      })
+      if (response.ok) {
+        return { success: true, target: config.url, responseStatus: response.status }
+      }
+      logger.warn(`Notification webhook ${config.url} responded with HTTP ${response.status} ${response.statusText}`)
+      return {
+        success: false,
+        target: config.url,
+        responseStatus: response.status,
+        error: 'Mottakeren svarte med en feilstatus',
+      }
+    } catch (error) {
+      logger.error(`Failed to deliver notification webhook to ${config.url}:`, error)
+      return { success: false, target: config.url, error: 'Fikk ikke kontakt med mottakeren' }
+    }
+  },
+}
@@ -0,0 +1,62 @@
+/**
+ * Webhook URL check.
+ *
+ * Webhook URLs are set by app admins, so the server must not be usable to reach internal services:
+ * the URL must be HTTPS, and its host must only resolve to public addresses. The check runs when a
+ * channel is created and again before every delivery, since DNS can change in between.
+ */
+
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+
+const internalAddresses = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  internalAddresses.addSubnet(network, prefix, 'ipv4')
+}
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  internalAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+function isInternalAddress(address: string): boolean {
+  const family = isIP(address)
+  return family === 0 || internalAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Check that a webhook URL may be called. Returns an error message for the user, or null if it may.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  if (!URL.canParse(url)) return 'Ugyldig webhook-URL'
+  const { protocol, hostname } = new URL(url)
+  if (protocol !== 'https:') return 'Webhook-URL-en må bruke https'
+
+  let addresses: Array<{ address: string }>
+  try {
+    // IPv6 hosts are bracketed in URLs
+    addresses = await lookup(hostname.replace(/^\[(.*)\]$/, '$1'), { all: true })
+  } catch {
+    return 'Fant ikke verten i webhook-URL-en'
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+    return 'Webhook-URL-en kan ikke peke til en intern adresse'
+  }
+  return null
+}
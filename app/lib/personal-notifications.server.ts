@@ -0,0 +1,209 @@
+/**
+ * Personal notification queue and delivery.
+ *
+ * Status changes, deviation events and review requests are queued per user according to
+ * their preferences and subscriptions. A scheduler checks every minute and sends each user
+ * with due notifications one DM via the Slack bot - right away, or batched into an hourly
+ * or daily digest. Claiming the queue is an atomic DB update to prevent duplicate DMs across pods.
+ *
+ * Recipients are checked against the groups they last logged in with, so users who have lost
+ * access to an app (or never logged in) are not notified about it.
+ *
+ * Queueing never throws: a failing notification must not fail the status change that caused it.
+ */
+
+import type { DeploymentDeviation } from '~/db/deviations.server'
+import {
+  claimPendingNotifications,
+  deleteDeliveredNotifications,
+  getDeviationNotificationRecipients,
+  getNotificationDeploymentContext,
+  getReviewRequestRecipient,
+  getStatusNotificationRecipients,
+  getUsersWithPendingNotifications,
+  markNotificationsDelivered,
+  type NotificationDeploymentContext,
+  type NotificationRecipient,
+  queueNotification,
+  releaseNotifications,
+} from '~/db/user-notifications.server'
+import { getUserIdentityByNavIdent } from './auth.server'
+import { canAccessTeam } from './authorization.server'
+import { DEVIATION_STATUS_LABELS } from './deviation-constants'
+import { getFourEyesStatusLabel } from './four-eyes-status'
+import { logger } from './logger.server'
+import { getStatusNotificationType, isDeliveryDue } from './personal-notifications'
+import { sendPersonalNotification } from './slack'
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000 // 1 minute
+const DELIVERED_RETENTION_DAYS = 30
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null
+
+function getBaseUrl(): string {
+  return process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
+}
+
+function deploymentUrl(deployment: NotificationDeploymentContext): string {
+  return `${getBaseUrl()}/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`
+}
+
+/**
+ * URL to a user's notification settings page
+ */
+export function getNotificationSettingsUrl(githubUsername: string): string {
+  return `${getBaseUrl()}/users/${encodeURIComponent(githubUsername)}/notifications`
+}
+
+/**
+ * Whether a recipient can read the apps of a team with the groups they last logged in with
+ */
+async function canRecipientReadTeam(recipient: NotificationRecipient, teamSlug: string): Promise<boolean> {
+  if (!recipient.nav_ident) return false
+  const identity = await getUserIdentityByNavIdent(recipient.nav_ident)
+  return identity !== null && (await canAccessTeam(identity, teamSlug, 'read'))
+}
+
+/**
+ * Queue notifications for a deployment status change
+ */
+export async function queueStatusChangeNotifications(deploymentId: number, toStatus: string): Promise<void> {
+  try {
+    const deployment = await getNotificationDeploymentContext(deploymentId)
+    if (!deployment) return
+
+    const recipients = await getStatusNotificationRecipients(deployment.monitored_app_id, deployment.deployer_username)
+    for (const recipient of recipients) {
+      const type = getStatusNotificationType(recipient, deployment.deployer_username, toStatus)
+      if (!type || !(await canRecipientReadTeam(recipient, deployment.team_slug))) continue
+
+      await queueNotification(recipient.github_username, type, {
+        type,
+        title: deployment.title || `Commit ${deployment.commit_sha?.substring(0, 7) || 'ukjent'}`,
+        appName: deployment.app_name,
+        environmentName: deployment.environment_name,
+        statusLabel: getFourEyesStatusLabel(toStatus),
+        url: deploymentUrl(deployment),
+        createdAt: new Date().toISOString(),
+      })
+    }
+  } catch (error) {
+    logger.error(`Failed to queue personal notifications for deployment ${deploymentId}:`, error)
+  }
+}
+
+/**
+ * Queue notifications for a registered deviation or a deviation status change
+ */
+export async function queueDeviationNotifications(
+  deviation: DeploymentDeviation,
+  type: 'deviation_registered' | 'deviation_status_changed',
+): Promise<void> {
+  try {
+    const deployment = await getNotificationDeploymentContext(deviation.deployment_id)
+    if (!deployment) return
+
+    for (const recipient of await getDeviationNotificationRecipients(deployment.monitored_app_id)) {
+      if (!(await canRecipientReadTeam(recipient, deployment.team_slug))) continue
+
+      await queueNotification(recipient.github_username, type, {
+        type,
+        title: deviation.reason,
+        appName: deployment.app_name,
+        environmentName: deployment.environment_name,
+        statusLabel: DEVIATION_STATUS_LABELS[deviation.status],
+        url: deploymentUrl(deployment),
+        createdAt: new Date().toISOString(),
+      })
+    }
+  } catch (error) {
+    logger.error(`Failed to queue personal notifications for deviation ${deviation.id}:`, error)
+  }
+}
+
+/**
+ * Queue a notification for a user asked to review a PR in a monitored repository
+ */
+export async function queueReviewRequestNotification(params: {
+  reviewerUsername: string
+  repository: string
+  prNumber: number
+  prTitle: string
+  prUrl: string
+}): Promise<void> {
+  try {
+    const githubUsername = await getReviewRequestRecipient(params.reviewerUsername)
+    if (!githubUsername) return
+
+    await queueNotification(githubUsername, 'review_requested', {
+      type: 'review_requested',
+      title: `#${params.prNumber} ${params.prTitle}`,
+      appName: params.repository,
+      url: params.prUrl,
+      createdAt: new Date().toISOString(),
+    })
+  } catch (error) {
+    logger.error(`Failed to queue review request notification for ${params.reviewerUsername}:`, error)
+  }
+}
+
+/**
+ * Start the personal notification scheduler.
+ */
+export function startPersonalNotificationScheduler(): void {
+  if (schedulerInterval) return
+  logger.info('⏰ Starting personal notification scheduler (1 min interval)')
+  schedulerInterval = setInterval(deliverPersonalNotifications, SCHEDULER_INTERVAL_MS)
+}
+
+/**
+ * Stop the personal notification scheduler.
+ */
+export function stopPersonalNotificationScheduler(): void {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval)
+    schedulerInterval = null
+    logger.info('⏰ Personal notification scheduler stopped')
+  }
+}
+
+/**
+ * Deliver pending notifications to every user whose delivery is due. Returns the number of DMs sent.
+ */
+export async function deliverPersonalNotifications(): Promise<number> {
+  try {
+    const now = new Date()
+    let sent = 0
+
+    for (const user of await getUsersWithPendingNotifications()) {
+      if (!isDeliveryDue(user, now)) continue
+
+      const queued = await claimPendingNotifications(user.github_username)
+      if (queued.length === 0) continue
+
+      const messageTs = await sendPersonalNotification(
+        {
+          notifications: queued.map((q) => q.payload),
+          settingsUrl: getNotificationSettingsUrl(user.github_username),
+        },
+        user.slack_member_id,
+      )
+      if (messageTs) {
+        await markNotificationsDelivered(user.github_username)
+        sent++
+      } else {
+        await releaseNotifications(queued.map((q) => q.id))
+      }
+    }
+
+    await deleteDeliveredNotifications(DELIVERED_RETENTION_DAYS)
+
+    if (sent > 0) {
+      logger.info(`🔔 Sent ${sent} personal notification DM(s)`)
+    }
+    return sent
+  } catch (error) {
+    logger.error('Personal notification scheduler error:', error)
+    return 0
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Personal notifications
+ *
+ * Users can get Slack DMs about their own deployments, review requests and the apps they follow.
+ * Events are queued per user and delivered right away or batched into an hourly or daily digest.
+ * Pure helpers shared by the settings page and the delivery scheduler.
+ */
+
+import { type FourEyesStatus, NOT_APPROVED_STATUSES } from './four-eyes-status'
+
+export const NOTIFICATION_DELIVERY_MODES = ['immediate', 'hourly', 'daily'] as const
+export type NotificationDelivery = (typeof NOTIFICATION_DELIVERY_MODES)[number]
+
+export const NOTIFICATION_DELIVERY_LABELS: Record<NotificationDelivery, string> = {
+  immediate: 'Med en gang',
+  hourly: 'Samlet hver time',
+  daily: 'Samlet én gang om dagen',
+}
+
+export type PersonalNotificationType =
+  | 'own_deployment_unverified'
+  | 'review_requested'
+  | 'app_status'
+  | 'deviation_registered'
+  | 'deviation_status_changed'
+
+/**
+ * Statuses a user can follow on an app
+ */
+export const SUBSCRIBABLE_STATUSES: FourEyesStatus[] = [...NOT_APPROVED_STATUSES, 'rollback', 'error']
+
+const DIGEST_TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/
+const HOUR_MS = 60 * 60 * 1000
+
+export function isValidDigestTime(value: string): boolean {
+  return DIGEST_TIME_REGEX.test(value)
+}
+
+/**
+ * Whether a user's pending notifications should be delivered now.
+ * Immediate delivery is always due; hourly at most once an hour; daily once the
+ * digest time (HH:mm, server time) has passed and nothing was delivered since.
+ */
+export function isDeliveryDue(
+  preference: { delivery: NotificationDelivery; digest_time: string; last_delivered_at: Date | null },
+  now: Date,
+): boolean {
+  const last = preference.last_delivered_at ? new Date(preference.last_delivered_at) : null
+
+  switch (preference.delivery) {
+    case 'immediate':
+      return true
+    case 'hourly':
+      return !last || now.getTime() - last.getTime() >= HOUR_MS
+    case 'daily': {
+      const [hours, minutes] = preference.digest_time.split(':').map(Number)
+      const scheduled = new Date(now)
+      scheduled.setHours(hours, minutes, 0, 0)
+      if (now < scheduled) return false
+      return !last || last < scheduled
+    }
+  }
+}
+
+/**
+ * Decide which notification (if any) a status change gives a recipient.
+ * A recipient's own deployment ending up with unverified commits takes precedence over
+ * a followed status, so the same change is only notified once.
+ */
+export function getStatusNotificationType(
+  recipient: { github_username: string; notify_own_unverified: boolean; statuses: string[] | null },
+  deployerUsername: string | null,
+  toStatus: string,
+): PersonalNotificationType | null {
+  const isOwnDeployment = deployerUsername?.toLowerCase() === recipient.github_username.toLowerCase()
+  if (isOwnDeployment && recipient.notify_own_unverified && toStatus === 'unverified_commits') {
+    return 'own_deployment_unverified'
+  }
+  if (recipient.statuses?.includes(toStatus)) {
+    return 'app_status'
+  }
+  return null
+}
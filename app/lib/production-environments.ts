@@ -0,0 +1,50 @@
+/**
+ * Production Classification
+ *
+ * Decides which monitored applications count as production. Only production apps
+ * get audit reports, and dashboard stats are limited to production deployments.
+ * Stored as a global setting and edited in admin/global-settings.
+ */
+
+export interface ProductionEnvironmentSettings {
+  /** Environment names where all apps are production (e.g. prod-fss, prod-gcp) */
+  environments: string[]
+  /** Apps in other environments that should still count as production */
+  production_app_ids: number[]
+  /** Apps in production environments that should not count as production */
+  non_production_app_ids: number[]
+  [key: string]: unknown // Allow index signature for Record<string, unknown> compatibility
+}
+
+export const DEFAULT_PRODUCTION_ENVIRONMENT_SETTINGS: ProductionEnvironmentSettings = {
+  environments: ['prod-fss', 'prod-gcp'],
+  production_app_ids: [],
+  non_production_app_ids: [],
+}
+
+/**
+ * Check if a monitored application counts as production.
+ * Per-app classification takes precedence over the environment list.
+ */
+export function isProductionApp(
+  settings: ProductionEnvironmentSettings,
+  app: { id: number; environment_name: string },
+): boolean {
+  if (settings.non_production_app_ids.includes(app.id)) return false
+  if (settings.production_app_ids.includes(app.id)) return true
+  return settings.environments.includes(app.environment_name)
+}
+
+/**
+ * Parse a comma- or newline-separated list of environment names
+ */
+export function parseEnvironmentList(value: string): string[] {
+  return [
+    ...new Set(
+      value
+        .split(/[,\n]/)
+        .map((name) => name.trim())
+        .filter(Boolean),
+    ),
+  ]
+}
@@ -0,0 +1,175 @@
+/**
+ * Promotion tracking across environments
+ *
+ * Deployments of the same commit SHA to the same app name in different environments
+ * (e.g. dev-gcp → prod-gcp) form a promotion. Production is decided by the production
+ * classification (see production-environments.ts); every other environment is pre-prod.
+ *
+ * Lead time is measured from PR merge to the first pre-prod and first production
+ * deployment of the commit. A production deployment of a commit that was never deployed
+ * to pre-prod beforehand is flagged, as long as the app has a monitored pre-prod environment.
+ */
+
+export interface PromotionDeployment {
+  id: number
+  team_slug: string
+  environment_name: string
+  app_name: string
+  created_at: Date
+  four_eyes_status: string
+  is_production: boolean
+}
+
+export interface PromotionStep {
+  environment_name: string
+  team_slug: string
+  app_name: string
+  is_production: boolean
+  first_deployment_id: number
+  first_deployed_at: Date
+  deployment_count: number
+}
+
+export interface PromotionLeadTimes {
+  mergeToPreProdMs: number | null
+  preProdToProdMs: number | null
+  mergeToProdMs: number | null
+}
+
+export interface PromotionTimeline {
+  commitSha: string
+  mergedAt: Date | null
+  /** One step per environment, ordered by first deployment */
+  steps: PromotionStep[]
+  leadTimes: PromotionLeadTimes
+  /** Whether any pre-prod environment of the app is monitored */
+  hasPreProdEnvironment: boolean
+  /** The deployment is to production, and the commit was not deployed to pre-prod before it */
+  skippedPreProd: boolean
+}
+
+/** The first production deployment of a commit, with its first pre-prod deployment if any */
+export interface ProductionPromotion {
+  deployment_id: number
+  commit_sha: string
+  deployed_at: Date
+  merged_at: Date | null
+  pre_prod_deployed_at: Date | null
+}
+
+export interface PromotionSummary {
+  productionDeployments: number
+  /** Production deployments that went through pre-prod first */
+  promotedViaPreProd: number
+  skippedPreProd: ProductionPromotion[]
+  medianMergeToPreProdMs: number | null
+  medianPreProdToProdMs: number | null
+  medianMergeToProdMs: number | null
+}
+
+function diffMs(from: Date | null | undefined, to: Date | null | undefined): number | null {
+  if (!from || !to) return null
+  const diff = new Date(to).getTime() - new Date(from).getTime()
+  return diff >= 0 ? diff : null
+}
+
+function median(values: Array<number | null>): number | null {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b)
+  if (sorted.length === 0) return null
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Build the promotion timeline for a deployment from all deployments of its commit
+ */
+export function buildPromotionTimeline(params: {
+  currentDeployment: { id: number; created_at: Date }
+  commitSha: string
+  mergedAt: Date | null
+  deployments: PromotionDeployment[]
+  hasPreProdEnvironment: boolean
+}): PromotionTimeline {
+  const deployments = [...params.deployments].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  )
+
+  const steps = new Map<string, PromotionStep>()
+  for (const deployment of deployments) {
+    const key = `${deployment.team_slug}/${deployment.environment_name}`
+    const step = steps.get(key)
+    if (step) {
+      step.deployment_count++
+    } else {
+      steps.set(key, {
+        environment_name: deployment.environment_name,
+        team_slug: deployment.team_slug,
+        app_name: deployment.app_name,
+        is_production: deployment.is_production,
+        first_deployment_id: deployment.id,
+        first_deployed_at: deployment.created_at,
+        deployment_count: 1,
+      })
+    }
+  }
+
+  const firstPreProd = deployments.find((d) => !d.is_production)
+  const firstProd = deployments.find((d) => d.is_production)
+  const current = deployments.find((d) => d.id === params.currentDeployment.id)
+  const currentTime = new Date(params.currentDeployment.created_at).getTime()
+
+  const skippedPreProd =
+    Boolean(current?.is_production) &&
+    params.hasPreProdEnvironment &&
+    !deployments.some((d) => !d.is_production && new Date(d.created_at).getTime() <= currentTime)
+
+  return {
+    commitSha: params.commitSha,
+    mergedAt: params.mergedAt,
+    steps: [...steps.values()],
+    leadTimes: {
+      mergeToPreProdMs: diffMs(params.mergedAt, firstPreProd?.created_at),
+      preProdToProdMs: diffMs(firstPreProd?.created_at, firstProd?.created_at),
+      mergeToProdMs: diffMs(params.mergedAt, firstProd?.created_at),
+    },
+    hasPreProdEnvironment: params.hasPreProdEnvironment,
+    skippedPreProd,
+  }
+}
+
+/**
+ * Summarize the first production deployments of commits in a period
+ */
+export function summarizePromotions(
+  promotions: ProductionPromotion[],
+  hasPreProdEnvironment: boolean,
+): PromotionSummary {
+  const viaPreProd = promotions.filter((p) => p.pre_prod_deployed_at)
+
+  return {
+    productionDeployments: promotions.length,
+    promotedViaPreProd: viaPreProd.length,
+    skippedPreProd: hasPreProdEnvironment ? promotions.filter((p) => !p.pre_prod_deployed_at) : [],
+    medianMergeToPreProdMs: median(viaPreProd.map((p) => diffMs(p.merged_at, p.pre_prod_deployed_at))),
+    medianPreProdToProdMs: median(viaPreProd.map((p) => diffMs(p.pre_prod_deployed_at, p.deployed_at))),
+    medianMergeToProdMs: median(promotions.map((p) => diffMs(p.merged_at, p.deployed_at))),
+  }
+}
+
+/**
+ * Format a lead time, e.g. "45 min", "3 t 20 min" or "2 d 4 t"
+ */
+export function formatLeadTime(ms: number): string {
+  const minutes = Math.round(ms / 60_000)
+  if (minutes < 60) return `${minutes} min`
+
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) {
+    const rest = minutes % 60
+    return rest > 0 ? `${hours} t ${rest} min` : `${hours} t`
+  }
+
+  const days = Math.floor(hours / 24)
+  const restHours = hours % 24
+  return restHours > 0 ? `${days} d ${restHours} t` : `${days} d`
+}
@@ -8,9 +8,9 @@
 import { claimReminderSend, getAppsWithRemindersEnabled, getUnapprovedDeployments } from '~/db/deployments.server'
 import { getUserMapping } from '~/db/user-mappings.server'
 import { logger } from '~/lib/logger.server'
+import { postSlackMessage } from '~/lib/notifications/slack-channel.server'
 import { getWeekdayKey, isBusinessDay } from './norwegian-holidays'
 import type { ReminderDeployment } from './slack'
-import { sendReminder } from './slack'
 
 const SCHEDULER_INTERVAL_MS = 60 * 1000 // 1 minute
 const MIN_INTERVAL_HOURS = 23 // Minimum hours between reminders per app
@@ -104,18 +104,21 @@ export async function sendReminderForApp(
 
   const deploymentsListUrl = `${baseUrl}/team/${teamSlug}/env/${environmentName}/app/${appName}/deployments?status=not_approved&period=all`
 
-  const messageTs = await sendReminder(
+  const result = await postSlackMessage(
     {
-      appName,
-      environmentName,
-      teamSlug,
-      deployments: reminderDeployments,
-      deploymentsListUrl,
+      type: 'reminder',
+      notification: {
+        appName,
+        environmentName,
+        teamSlug,
+        deployments: reminderDeployments,
+        deploymentsListUrl,
+      },
     },
     channelId,
   )
 
-  if (messageTs) {
+  if (result.success) {
     logger.info(`🔔 Reminder sent for ${appName} (${environmentName}): ${deployments.length} deployments`)
     return true
   }
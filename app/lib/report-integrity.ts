@@ -0,0 +1,152 @@
+/**
+ * Audit Report Integrity
+ *
+ * Pure helpers for tamper evidence of stored audit reports:
+ * - Hashing of PDFs and report data (canonical JSON, independent of key order)
+ * - The hash chain linking consecutive reports for the same app
+ * - Checking an uploaded PDF/JSON against a signed report payload
+ */
+
+import { createHash } from 'node:crypto'
+
+/** Claims in the JWS signed when a report is generated */
+export interface SignedReportPayload {
+  /** audit_reports.report_id (document ID) */
+  report_id: string
+  monitored_app_id: number
+  period_type: string
+  period_start: string
+  period_end: string
+  /** SHA-256 of the report data as used for the document ID (printed in the PDF) */
+  content_hash: string
+  /** SHA-256 of the canonical JSON of the report data */
+  data_hash: string
+  /** SHA-256 of the PDF file */
+  pdf_hash: string
+  sequence: number
+  previous_chain_hash: string | null
+  chain_hash: string
+  signed_at: string
+}
+
+export interface ReportChainEntry {
+  sequence: number
+  audit_report_id: number
+  report_id: string
+  content_hash: string
+  previous_chain_hash: string | null
+  chain_hash: string
+  /** Whether the report this entry was created for still exists (same row and document ID) */
+  report_exists: boolean
+}
+
+export type ReportChainIssue =
+  | { type: 'sequence_gap'; sequence: number; expected: number }
+  | { type: 'broken_link'; sequence: number }
+  | { type: 'hash_mismatch'; sequence: number }
+  | { type: 'missing_report'; sequence: number; report_id: string }
+
+export type UploadedReportKind = 'pdf' | 'json'
+
+export function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * JSON with object keys sorted recursively, so the hash does not depend on
+ * key order (stored report data comes back from JSONB with reordered keys).
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(
+        Object.keys(val)
+          .sort()
+          .map((k) => [k, val[k]]),
+      )
+    }
+    return val
+  })
+}
+
+export function computeDataHash(reportData: unknown): string {
+  return sha256Hex(canonicalJson(reportData))
+}
+
+/**
+ * Chain hash for a report: commits to the previous link and the report's content
+ */
+export function computeChainHash(previousChainHash: string | null, contentHash: string): string {
+  return sha256Hex(`${previousChainHash ?? ''}:${contentHash}`)
+}
+
+/**
+ * Check the hash chain for one app (entries in any order).
+ * Detects removed chain entries, altered entries and reports deleted after signing.
+ * A regenerated report replaces its row, so an earlier entry for the same row is
+ * superseded rather than missing.
+ */
+export function verifyReportChain(entries: ReportChainEntry[]): ReportChainIssue[] {
+  const sorted = [...entries].sort((a, b) => a.sequence - b.sequence)
+  const issues: ReportChainIssue[] = []
+
+  let previous: ReportChainEntry | null = null
+  for (const entry of sorted) {
+    const expectedSequence = previous ? previous.sequence + 1 : 1
+    if (entry.sequence !== expectedSequence) {
+      issues.push({ type: 'sequence_gap', sequence: entry.sequence, expected: expectedSequence })
+    }
+    if (entry.previous_chain_hash !== (previous?.chain_hash ?? null)) {
+      issues.push({ type: 'broken_link', sequence: entry.sequence })
+    }
+    if (entry.chain_hash !== computeChainHash(entry.previous_chain_hash, entry.content_hash)) {
+      issues.push({ type: 'hash_mismatch', sequence: entry.sequence })
+    }
+    const superseded = sorted.some((e) => e.sequence > entry.sequence && e.audit_report_id === entry.audit_report_id)
+    if (!entry.report_exists && !superseded) {
+      issues.push({ type: 'missing_report', sequence: entry.sequence, report_id: entry.report_id })
+    }
+    previous = entry
+  }
+
+  return issues
+}
+
+/**
+ * Detect whether uploaded bytes are a PDF or JSON
+ */
+export function detectUploadedReportKind(bytes: Uint8Array): UploadedReportKind | null {
+  const head = new TextDecoder().decode(bytes.subarray(0, 16)).trimStart()
+  if (head.startsWith('%PDF-')) return 'pdf'
+  if (head.startsWith('{')) return 'json'
+  return null
+}
+
+/**
+ * Check uploaded bytes against a signed payload.
+ * JSON may be either the report data itself or an export with a `report_data` field.
+ */
+export function checkUploadedReport(
+  bytes: Uint8Array,
+  payload: Pick<SignedReportPayload, 'pdf_hash' | 'data_hash'>,
+): { kind: UploadedReportKind | null; hash: string | null; matches: boolean } {
+  const kind = detectUploadedReportKind(bytes)
+
+  if (kind === 'pdf') {
+    const hash = sha256Hex(bytes)
+    return { kind, hash, matches: hash === payload.pdf_hash }
+  }
+
+  if (kind === 'json') {
+    try {
+      const parsed = JSON.parse(new TextDecoder().decode(bytes))
+      const reportData = parsed && typeof parsed === 'object' && 'report_data' in parsed ? parsed.report_data : parsed
+      const hash = computeDataHash(reportData)
+      return { kind, hash, matches: hash === payload.data_hash }
+    } catch {
+      return { kind, hash: null, matches: false }
+    }
+  }
+
+  return { kind: null, hash: null, matches: false }
+}
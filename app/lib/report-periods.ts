@@ -124,6 +124,22 @@ export function isPeriodCompleted(period: ReportPeriod, referenceDate: Date = ne
   return period.endDate < referenceDate
 }
 
+/**
+ * Get completed periods of the given types that ended within the last `lookbackDays`.
+ * Used by the scheduled report generation to find periods that have recently closed.
+ */
+export function getRecentlyCompletedPeriods(
+  types: ReportPeriodType[],
+  lookbackDays: number,
+  referenceDate: Date = new Date(),
+  startYear?: number,
+): ReportPeriod[] {
+  const cutoff = new Date(referenceDate.getTime() - lookbackDays * 24 * 60 * 60 * 1000)
+  return types.flatMap((type) =>
+    getCompletedPeriods(type, referenceDate, startYear).filter((period) => period.endDate >= cutoff),
+  )
+}
+
 /**
  * Generate a report ID incorporating the period type.
  */
@@ -0,0 +1,132 @@
+/**
+ * Audit Report Signing
+ *
+ * Signs audit reports as compact JWS with a server key, and verifies stored
+ * signatures against the current and previous public keys.
+ *
+ * Environment variables:
+ * - AUDIT_REPORT_SIGNING_KEY: PKCS#8 private key (EC P-256, RSA or Ed25519), raw PEM or base64 encoded PEM
+ * - AUDIT_REPORT_SIGNING_KEY_ID: Key ID (optional, defaults to the JWK thumbprint of the public key)
+ * - AUDIT_REPORT_PUBLIC_KEYS: JSON array of public JWKs for retired keys (optional, needed after key rotation)
+ */
+
+import { createPrivateKey, createPublicKey, type KeyObject } from 'node:crypto'
+import * as jose from 'jose'
+import { logger } from '~/lib/logger.server'
+import type { SignedReportPayload } from './report-integrity'
+
+const ALG_BY_KEY_TYPE: Record<string, string> = {
+  ec: 'ES256',
+  rsa: 'RS256',
+  ed25519: 'EdDSA',
+}
+
+interface SigningKey {
+  privateKey: KeyObject
+  alg: string
+  kid: string
+  publicJwk: jose.JWK
+}
+
+let signingKeyPromise: Promise<SigningKey | null> | null = null
+
+export type ReportSignatureVerification =
+  | { valid: true; keyId: string; payload: SignedReportPayload }
+  | { valid: false; error: string }
+
+/**
+ * Check if report signing is configured
+ */
+export function isReportSigningConfigured(): boolean {
+  return !!process.env.AUDIT_REPORT_SIGNING_KEY
+}
+
+async function loadSigningKey(): Promise<SigningKey | null> {
+  const rawKey = process.env.AUDIT_REPORT_SIGNING_KEY
+  if (!rawKey) return null
+
+  // Can be base64 encoded or raw PEM
+  const pem = rawKey.includes('-----BEGIN') ? rawKey : Buffer.from(rawKey, 'base64').toString('utf-8')
+  const privateKey = createPrivateKey(pem)
+
+  const alg = ALG_BY_KEY_TYPE[privateKey.asymmetricKeyType ?? '']
+  if (!alg) {
+    throw new Error(`Unsupported audit report signing key type: ${privateKey.asymmetricKeyType}`)
+  }
+
+  const publicJwk = await jose.exportJWK(createPublicKey(privateKey))
+  const kid = process.env.AUDIT_REPORT_SIGNING_KEY_ID || (await jose.calculateJwkThumbprint(publicJwk))
+
+  return { privateKey, alg, kid, publicJwk: { ...publicJwk, kid, alg, use: 'sig' } }
+}
+
+function getSigningKey(): Promise<SigningKey | null> {
+  if (!signingKeyPromise) {
+    signingKeyPromise = loadSigningKey()
+  }
+  return signingKeyPromise
+}
+
+/**
+ * Public keys that report signatures can be verified with (current key first)
+ */
+export async function getReportPublicKeys(): Promise<jose.JWK[]> {
+  const keys: jose.JWK[] = []
+
+  const signingKey = await getSigningKey()
+  if (signingKey) keys.push(signingKey.publicJwk)
+
+  const retiredKeys = process.env.AUDIT_REPORT_PUBLIC_KEYS
+  if (retiredKeys) {
+    try {
+      keys.push(...(JSON.parse(retiredKeys) as jose.JWK[]))
+    } catch (error) {
+      logger.error('❌ Invalid AUDIT_REPORT_PUBLIC_KEYS (expected a JSON array of JWKs):', error)
+    }
+  }
+
+  return keys
+}
+
+/**
+ * Sign a report payload. Returns null when no signing key is configured.
+ */
+export async function signReportPayload(
+  payload: SignedReportPayload,
+): Promise<{ signature: string; keyId: string } | null> {
+  const signingKey = await getSigningKey()
+  if (!signingKey) return null
+
+  const signature = await new jose.CompactSign(new TextEncoder().encode(JSON.stringify(payload)))
+    .setProtectedHeader({ alg: signingKey.alg, kid: signingKey.kid, typ: 'audit-report+jws' })
+    .sign(signingKey.privateKey)
+
+  return { signature, keyId: signingKey.kid }
+}
+
+/**
+ * Verify a stored report signature and return its signed payload
+ */
+export async function verifyReportSignature(signature: string): Promise<ReportSignatureVerification> {
+  const keys = await getReportPublicKeys()
+  if (keys.length === 0) {
+    return { valid: false, error: 'Ingen offentlige nøkler er konfigurert' }
+  }
+
+  try {
+    const { payload, protectedHeader } = await jose.compactVerify(signature, jose.createLocalJWKSet({ keys }))
+    return {
+      valid: true,
+      keyId: protectedHeader.kid ?? '',
+      payload: JSON.parse(new TextDecoder().decode(payload)) as SignedReportPayload,
+    }
+  } catch (error) {
+    if (error instanceof jose.errors.JWKSNoMatchingKey) {
+      return { valid: false, error: 'Signaturen er laget med en ukjent nøkkel' }
+    }
+    if (error instanceof jose.errors.JWSSignatureVerificationFailed) {
+      return { valid: false, error: 'Signaturen er ugyldig' }
+    }
+    return { valid: false, error: error instanceof Error ? error.message : 'Ukjent feil' }
+  }
+}
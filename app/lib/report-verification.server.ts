@@ -0,0 +1,110 @@
+/**
+ * Audit Report Verification
+ *
+ * Checks a stored audit report against its signature and the app's hash chain,
+ * and checks uploaded copies (PDF or JSON) against the signed hashes.
+ * Used by the verify page and the /api/v1 verify endpoint.
+ */
+
+import { type AuditReport, getAuditReportChain } from '~/db/audit-reports.server'
+import {
+  checkUploadedReport,
+  computeDataHash,
+  type ReportChainIssue,
+  sha256Hex,
+  type UploadedReportKind,
+  verifyReportChain,
+} from './report-integrity'
+import { verifyReportSignature } from './report-signing.server'
+
+export interface StoredReportVerification {
+  /** All checks passed */
+  valid: boolean
+  signature: { present: boolean; valid: boolean; keyId: string | null; error: string | null }
+  /** Signed payload refers to this report (document ID, content hash, chain link) */
+  payloadMatches: boolean | null
+  /** Stored report data matches the signed data hash */
+  dataIntact: boolean | null
+  /** Stored PDF matches the signed (or, if unsigned, stored) PDF hash */
+  pdfIntact: boolean | null
+  chain: { sequence: number | null; length: number; issues: ReportChainIssue[] }
+}
+
+export interface UploadedReportVerification {
+  kind: UploadedReportKind | null
+  hash: string | null
+  matches: boolean
+  /** The comparison was made against a valid signature, not only stored hashes */
+  trusted: boolean
+}
+
+/**
+ * Verify a stored report: signature, stored data/PDF and its place in the hash chain
+ */
+export async function verifyStoredAuditReport(report: AuditReport): Promise<StoredReportVerification> {
+  const signatureResult = report.signature ? await verifyReportSignature(report.signature) : null
+  const payload = signatureResult?.valid ? signatureResult.payload : null
+
+  const entries = await getAuditReportChain(report.monitored_app_id)
+  const chainIssues = verifyReportChain(entries)
+  // The latest entry for this row is the one the current report was chained with
+  const chainEntry = entries.filter((e) => e.audit_report_id === report.id && e.report_id === report.report_id).at(-1)
+  const chainMatches = !!chainEntry && chainEntry.chain_hash === report.chain_hash
+
+  const payloadMatches = payload
+    ? payload.report_id === report.report_id &&
+      payload.monitored_app_id === report.monitored_app_id &&
+      payload.content_hash === report.content_hash &&
+      payload.chain_hash === report.chain_hash &&
+      payload.sequence === chainEntry?.sequence
+    : null
+  const dataIntact = payload ? computeDataHash(report.report_data) === payload.data_hash : null
+
+  const expectedPdfHash = payload?.pdf_hash ?? report.pdf_hash
+  const pdfIntact = report.pdf_data && expectedPdfHash ? sha256Hex(report.pdf_data) === expectedPdfHash : null
+
+  return {
+    valid:
+      !!payload &&
+      payloadMatches === true &&
+      dataIntact === true &&
+      pdfIntact !== false &&
+      chainMatches &&
+      chainIssues.length === 0,
+    signature: {
+      present: !!report.signature,
+      valid: !!signatureResult?.valid,
+      keyId: signatureResult?.valid ? signatureResult.keyId : report.signing_key_id,
+      error: signatureResult && !signatureResult.valid ? signatureResult.error : null,
+    },
+    payloadMatches,
+    dataIntact,
+    pdfIntact,
+    chain: {
+      sequence: chainMatches ? (chainEntry?.sequence ?? null) : null,
+      length: entries.length,
+      issues: chainIssues,
+    },
+  }
+}
+
+/**
+ * Verify an uploaded PDF or JSON export against a stored report.
+ * Compares with the signed hashes when the signature is valid, otherwise with the stored hashes (untrusted).
+ */
+export async function verifyUploadedAuditReport(
+  report: AuditReport,
+  bytes: Uint8Array,
+): Promise<UploadedReportVerification> {
+  const signatureResult = report.signature ? await verifyReportSignature(report.signature) : null
+
+  if (signatureResult?.valid && signatureResult.payload.report_id === report.report_id) {
+    return { ...checkUploadedReport(bytes, signatureResult.payload), trusted: true }
+  }
+
+  const stored = checkUploadedReport(bytes, {
+    pdf_hash: report.pdf_hash ?? '',
+    data_hash: computeDataHash(report.report_data),
+  })
+  return { ...stored, trusted: false }
+}
@@ -0,0 +1,184 @@
+/**
+ * Nais resource diffing and deployment change classification
+ *
+ * Nais reports the Kubernetes resources (Application, Topic, Alert, ...) applied by each
+ * deployment. Comparing them with the app's previous deployment, together with the files
+ * changed between the two commits, tells what kind of change the deployment was:
+ *
+ * - infrastructure: resources were added or removed, or a Nais manifest changed
+ * - config: only configuration files changed, or the same commit was redeployed (where
+ *   only configuration outside the commit - secrets, variables, manual reruns - can have changed)
+ * - code: other files changed
+ *
+ * A new commit with the same resources whose changed files are not known is left unclassified
+ * (null), since it may have changed a Nais manifest.
+ *
+ * Resources are compared by kind and name only, since Nais does not expose their spec.
+ * Manifest changes are found by file path, so a spec change in a file not recognised as a
+ * Nais manifest (see isNaisManifest) counts as code.
+ */
+
+export interface DeploymentResource {
+  kind: string
+  name: string
+}
+
+export const DEPLOYMENT_CHANGE_TYPES = ['code', 'config', 'infrastructure'] as const
+export type DeploymentChangeType = (typeof DEPLOYMENT_CHANGE_TYPES)[number]
+
+export const DEPLOYMENT_CHANGE_TYPE_LABELS: Record<DeploymentChangeType, string> = {
+  code: 'Kun kode',
+  config: 'Kun konfigurasjon',
+  infrastructure: 'Infrastrukturendring',
+}
+
+export const DEPLOYMENT_CHANGE_TYPE_DESCRIPTIONS: Record<DeploymentChangeType, string> = {
+  code: 'Ny commit uten endrede Nais-manifester eller ressurser.',
+  config: 'Kun konfigurasjonsfiler er endret, eller samme commit er deployet på nytt.',
+  infrastructure: 'Nais-ressurser er lagt til eller fjernet, eller et Nais-manifest er endret.',
+}
+
+/**
+ * Files changed between the previous deployment's commit and this one, by kind.
+ * Null when the files are not known (same commit, unknown repository, rollback or too many files).
+ */
+export interface ChangedFileSummary {
+  nais: string[]
+  config: string[]
+  other: number
+}
+
+/**
+ * Resource changes compared to the previous deployment (stored in deployments.resource_changes).
+ * previousDeploymentId is kept so the classification can be redone if an older deployment is synced later.
+ */
+export interface ResourceChanges {
+  previousDeploymentId: number | null
+  added: DeploymentResource[]
+  removed: DeploymentResource[]
+  /** Missing on deployments classified before changed files were considered */
+  files?: ChangedFileSummary | null
+}
+
+interface ClassifiableDeployment {
+  commitSha: string | null
+  resources: DeploymentResource[] | null
+}
+
+/**
+ * Whether a path is a Nais manifest: a file in a nais/ or .nais/ directory, or named nais.yaml,
+ * nais-<env>.yaml and the like
+ */
+export function isNaisManifest(path: string): boolean {
+  const segments = path.toLowerCase().split('/')
+  const filename = segments[segments.length - 1]
+  if (!/\.ya?ml$/.test(filename)) return false
+  return (
+    segments.slice(0, -1).some((dir) => dir === 'nais' || dir === '.nais') || /^nais([-_.].*)?\.ya?ml$/.test(filename)
+  )
+}
+
+/**
+ * Whether a path is a configuration file: application/bootstrap config, .env files,
+ * or any file in a config/ directory
+ */
+export function isConfigFile(path: string): boolean {
+  const segments = path.toLowerCase().split('/')
+  const filename = segments[segments.length - 1]
+  return (
+    /^(application|bootstrap)([-_.][^/]*)?\.(ya?ml|properties|conf)$/.test(filename) ||
+    /^\.env(\..+)?$/.test(filename) ||
+    segments.slice(0, -1).includes('config')
+  )
+}
+
+/**
+ * Sort changed files into Nais manifests, configuration files and the rest
+ */
+export function summarizeChangedFiles(paths: string[]): ChangedFileSummary {
+  const summary: ChangedFileSummary = { nais: [], config: [], other: 0 }
+  for (const path of paths) {
+    if (isNaisManifest(path)) summary.nais.push(path)
+    else if (isConfigFile(path)) summary.config.push(path)
+    else summary.other++
+  }
+  return summary
+}
+
+function resourceKey(resource: DeploymentResource): string {
+  return `${resource.kind}/${resource.name}`
+}
+
+function compareResources(a: DeploymentResource, b: DeploymentResource): number {
+  return a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name)
+}
+
+/**
+ * Resources added and removed between two deployments, sorted by kind and name
+ */
+export function diffResources(
+  previous: DeploymentResource[],
+  current: DeploymentResource[],
+): { added: DeploymentResource[]; removed: DeploymentResource[] } {
+  const previousKeys = new Set(previous.map(resourceKey))
+  const currentKeys = new Set(current.map(resourceKey))
+
+  const unique = (resources: DeploymentResource[], exclude: Set<string>) => {
+    const seen = new Set<string>()
+    return resources
+      .filter((r) => {
+        const key = resourceKey(r)
+        if (exclude.has(key) || seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .map((r) => ({ kind: r.kind, name: r.name }))
+      .sort(compareResources)
+  }
+
+  return { added: unique(current, previousKeys), removed: unique(previous, currentKeys) }
+}
+
+/**
+ * Whether classifyDeploymentChange needs the changed files to tell code from config and
+ * infrastructure: the resources are unchanged and the deployment is of another commit
+ */
+export function needsChangedFiles(current: ClassifiableDeployment, previous: ClassifiableDeployment | null): boolean {
+  if (!previous?.resources || !current.resources || !previous.commitSha || !current.commitSha) return false
+  if (current.commitSha === previous.commitSha) return false
+  const { added, removed } = diffResources(previous.resources, current.resources)
+  return added.length === 0 && removed.length === 0
+}
+
+/**
+ * Diff a deployment's resources against the previous deployment and classify the change,
+ * using the files changed between the two commits when they are known.
+ *
+ * The change type is null for the first deployment, when either deployment has no resource list
+ * (e.g. legacy deployments) and when the changed files are needed but not known, since nothing
+ * can be said about what changed.
+ */
+export function classifyDeploymentChange(
+  current: ClassifiableDeployment,
+  previous: (ClassifiableDeployment & { id: number }) | null,
+  changedFiles: string[] | null = null,
+): { changeType: DeploymentChangeType | null; changes: ResourceChanges } {
+  if (!previous || !previous.resources || !current.resources) {
+    return {
+      changeType: null,
+      changes: { previousDeploymentId: previous?.id ?? null, added: [], removed: [], files: null },
+    }
+  }
+
+  const { added, removed } = diffResources(previous.resources, current.resources)
+  const files = changedFiles && current.commitSha !== previous.commitSha ? summarizeChangedFiles(changedFiles) : null
+  const changes = { previousDeploymentId: previous.id, added, removed, files }
+
+  if (added.length > 0 || removed.length > 0 || (files && files.nais.length > 0)) {
+    return { changeType: 'infrastructure', changes }
+  }
+  if (current.commitSha === previous.commitSha || (files && files.other === 0)) {
+    return { changeType: 'config', changes }
+  }
+  return { changeType: files ? 'code' : null, changes }
+}
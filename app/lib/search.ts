@@ -0,0 +1,245 @@
+/**
+ * Global search: result types, full-text query building and facets
+ *
+ * Free-text queries are matched against a Postgres full-text index over deployment
+ * and PR text, cached commit messages, comments and deviations. Matches are grouped
+ * per deployment, ranked, and can be narrowed by team, environment, status and period.
+ * Shared by the search page, the search dialog and /api/search.
+ */
+
+import { isApprovedStatus, isLegacyStatus, isPendingStatus } from './four-eyes-status'
+import { getDateRangeForPeriod, TIME_PERIOD_OPTIONS, type TimePeriod } from './time-periods'
+
+/** Where a full-text query matched a deployment */
+export type SearchMatchSource = 'deployment' | 'pull_request' | 'commit' | 'comment' | 'deviation'
+
+export const SEARCH_MATCH_SOURCE_LABELS: Record<SearchMatchSource, string> = {
+  deployment: 'Deployment',
+  pull_request: 'Pull request',
+  commit: 'Commit',
+  comment: 'Kommentar',
+  deviation: 'Avvik',
+}
+
+/** Four-eyes statuses grouped for filtering */
+export type SearchStatusGroup = 'approved' | 'not_approved' | 'pending' | 'legacy'
+
+export const SEARCH_STATUS_GROUP_LABELS: Record<SearchStatusGroup, string> = {
+  approved: 'Godkjent',
+  not_approved: 'Ikke godkjent',
+  pending: 'Venter',
+  legacy: 'Legacy',
+}
+
+/**
+ * Search result types for global search
+ */
+export interface SearchResult {
+  type: 'deployment' | 'user'
+  id?: number
+  url: string
+  title: string
+  subtitle?: string
+  /** Full-text matches: where the query matched, best match first */
+  matchedIn?: SearchMatchSource[]
+  /** Full-text matches: excerpt of the best match, with hits wrapped in << >> */
+  snippet?: string
+}
+
+export interface SearchFilters {
+  team?: string
+  environment?: string
+  status?: SearchStatusGroup
+  period?: TimePeriod
+}
+
+export interface SearchFacetValue<T extends string = string> {
+  value: T
+  label: string
+  count: number
+}
+
+export interface SearchFacets {
+  team: SearchFacetValue[]
+  environment: SearchFacetValue[]
+  status: SearchFacetValue<SearchStatusGroup>[]
+  period: SearchFacetValue<TimePeriod>[]
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  /** Null when the query was an exact lookup (ID or SHA) rather than a free-text search */
+  facets: SearchFacets | null
+}
+
+/** A deployment matched by the full-text index, with the fields used for facets */
+export interface FullTextSearchHit {
+  id: number
+  rank: number
+  sources: SearchMatchSource[]
+  snippet: string | null
+  title: string
+  app_name: string
+  team_slug: string
+  environment_name: string
+  four_eyes_status: string
+  commit_sha: string | null
+  created_at: Date
+}
+
+export const SEARCH_HIGHLIGHT_START = '<<'
+export const SEARCH_HIGHLIGHT_STOP = '>>'
+
+const MIN_TERM_LENGTH = 2
+const MAX_TERMS = 8
+
+/**
+ * Build a to_tsquery() expression from free text: every word must match, as a prefix
+ * so partial words work while typing. Returns null if there is nothing to search for.
+ */
+export function buildFullTextQuery(query: string): string | null {
+  const terms = [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])]
+    .filter((term) => term.length >= MIN_TERM_LENGTH)
+    .slice(0, MAX_TERMS)
+
+  if (terms.length === 0) return null
+  return terms.map((term) => `${term}:*`).join(' & ')
+}
+
+export function getSearchStatusGroup(fourEyesStatus: string): SearchStatusGroup {
+  if (isApprovedStatus(fourEyesStatus)) return 'approved'
+  if (isLegacyStatus(fourEyesStatus)) return 'legacy'
+  if (isPendingStatus(fourEyesStatus)) return 'pending'
+  return 'not_approved'
+}
+
+/**
+ * Read filters from the query string. Unknown values are ignored.
+ */
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = {}
+
+  const team = params.get('team')?.trim()
+  if (team) filters.team = team
+
+  const environment = params.get('env')?.trim()
+  if (environment) filters.environment = environment
+
+  const status = params.get('status')
+  if (status && status in SEARCH_STATUS_GROUP_LABELS) filters.status = status as SearchStatusGroup
+
+  const period = params.get('period')
+  if (period && period !== 'all' && TIME_PERIOD_OPTIONS.some((o) => o.value === period)) {
+    filters.period = period as TimePeriod
+  }
+
+  return filters
+}
+
+/**
+ * Query string for a search, the inverse of parseSearchFilters
+ */
+export function buildSearchParams(query: string, filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams({ q: query })
+  if (filters.team) params.set('team', filters.team)
+  if (filters.environment) params.set('env', filters.environment)
+  if (filters.status) params.set('status', filters.status)
+  if (filters.period) params.set('period', filters.period)
+  return params
+}
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return Boolean(filters.team || filters.environment || filters.status || filters.period)
+}
+
+function isInPeriod(date: Date, period: TimePeriod): boolean {
+  const range = getDateRangeForPeriod(period)
+  if (!range) return true
+  const time = new Date(date).getTime()
+  return time >= range.startDate.getTime() && time <= range.endDate.getTime()
+}
+
+type FacetKey = keyof SearchFilters
+
+function matchesFilter(hit: FullTextSearchHit, filters: SearchFilters, key: FacetKey): boolean {
+  switch (key) {
+    case 'team':
+      return !filters.team || hit.team_slug === filters.team
+    case 'environment':
+      return !filters.environment || hit.environment_name === filters.environment
+    case 'status':
+      return !filters.status || getSearchStatusGroup(hit.four_eyes_status) === filters.status
+    case 'period':
+      return !filters.period || isInPeriod(hit.created_at, filters.period)
+  }
+}
+
+const FACET_KEYS: FacetKey[] = ['team', 'environment', 'status', 'period']
+
+export function matchesSearchFilters(hit: FullTextSearchHit, filters: SearchFilters): boolean {
+  return FACET_KEYS.every((key) => matchesFilter(hit, filters, key))
+}
+
+function countBy(hits: FullTextSearchHit[], getValue: (hit: FullTextSearchHit) => string): SearchFacetValue[] {
+  const counts = new Map<string, number>()
+  for (const hit of hits) {
+    const value = getValue(hit)
+    counts.set(value, (counts.get(value) ?? 0) + 1)
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, label: value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+/**
+ * Facet counts for the matched deployments. Each facet is counted with the other
+ * filters applied but not its own, so the alternatives to a selected value stay visible.
+ */
+export function computeSearchFacets(hits: FullTextSearchHit[], filters: SearchFilters): SearchFacets {
+  const hitsExcept = (key: FacetKey) =>
+    hits.filter((hit) => FACET_KEYS.every((other) => other === key || matchesFilter(hit, filters, other)))
+
+  const statusHits = hitsExcept('status')
+  const periodHits = hitsExcept('period')
+
+  return {
+    team: countBy(hitsExcept('team'), (hit) => hit.team_slug),
+    environment: countBy(hitsExcept('environment'), (hit) => hit.environment_name),
+    status: (Object.entries(SEARCH_STATUS_GROUP_LABELS) as Array<[SearchStatusGroup, string]>)
+      .map(([value, label]) => ({
+        value,
+        label,
+        count: statusHits.filter((hit) => getSearchStatusGroup(hit.four_eyes_status) === value).length,
+      }))
+      .filter((facet) => facet.count > 0),
+    period: TIME_PERIOD_OPTIONS.filter((option) => option.value !== 'all')
+      .map((option) => ({
+        value: option.value,
+        label: option.label,
+        count: periodHits.filter((hit) => isInPeriod(hit.created_at, option.value)).length,
+      }))
+      .filter((facet) => facet.count > 0),
+  }
+}
+
+/**
+ * Split a snippet into plain and highlighted parts for rendering
+ */
+export function splitSearchSnippet(snippet: string): Array<{ text: string; highlight: boolean }> {
+  const parts: Array<{ text: string; highlight: boolean }> = []
+  let rest = snippet
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START)
+    const stop = start === -1 ? -1 : rest.indexOf(SEARCH_HIGHLIGHT_STOP, start)
+    if (start === -1 || stop === -1) {
+      parts.push({ text: rest, highlight: false })
+      break
+    }
+    if (start > 0) parts.push({ text: rest.substring(0, start), highlight: false })
+    parts.push({ text: rest.substring(start + SEARCH_HIGHLIGHT_START.length, stop), highlight: true })
+    rest = rest.substring(stop + SEARCH_HIGHLIGHT_STOP.length)
+  }
+
+  return parts
+}
@@ -0,0 +1,80 @@
+/**
+ * Section Audit Report - background job
+ *
+ * Builds the per-app audit data for every production app in a section,
+ * aggregates it and renders the section PDF into the report job.
+ */
+
+import { createHash } from 'node:crypto'
+import {
+  buildReportData,
+  getAuditReportData,
+  getAuditReportForPeriod,
+  getSectionAuditApplications,
+} from '~/db/audit-reports.server'
+import { updateReportJobStatus } from '~/db/report-jobs.server'
+import { getSectionWithTeams } from '~/db/sections.server'
+import { generateSectionAuditReportPdf } from '~/lib/audit-report-pdf'
+import type { ReportPeriodType } from '~/lib/report-periods'
+import { buildSectionReportData, type SectionReportAppInput } from '~/lib/section-report'
+
+interface SectionReportJobParams {
+  jobId: string
+  sectionId: number
+  periodType: ReportPeriodType
+  periodLabel: string
+  periodStart: Date
+  periodEnd: Date
+}
+
+export async function processSectionReportJob(params: SectionReportJobParams): Promise<void> {
+  const { jobId, sectionId, periodType, periodLabel, periodStart, periodEnd } = params
+  try {
+    await updateReportJobStatus(jobId, 'processing')
+
+    const section = await getSectionWithTeams(sectionId)
+    if (!section) {
+      throw new Error(`Section not found: ${sectionId}`)
+    }
+
+    const apps = await getSectionAuditApplications(section.id, section.team_slugs)
+
+    // Sequential to keep memory and DB load bounded for large sections
+    const inputs: SectionReportAppInput[] = []
+    for (const app of apps) {
+      const rawData = await getAuditReportData(app.id, periodStart, periodEnd)
+      inputs.push({
+        monitored_app_id: app.id,
+        app_name: app.app_name,
+        team_slug: app.team_slug,
+        environment_name: app.environment_name,
+        repository: rawData.repository,
+        report_data: buildReportData(rawData),
+        audit_report: await getAuditReportForPeriod(app.id, periodType, periodStart),
+      })
+    }
+
+    const reportData = buildSectionReportData(inputs)
+    const contentHash = createHash('sha256').update(JSON.stringify(reportData)).digest('hex')
+    const reportId = `AUDIT-${periodLabel.replace(/\s+/g, '-')}-seksjon-${section.slug}-${contentHash.substring(0, 8)}`
+
+    const pdfBuffer = await generateSectionAuditReportPdf({
+      sectionName: section.name,
+      sectionSlug: section.slug,
+      periodLabel,
+      periodStart,
+      periodEnd,
+      reportData,
+      contentHash,
+      reportId,
+      generatedAt: new Date(),
+      baseUrl: process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no',
+    })
+
+    await updateReportJobStatus(jobId, 'completed', pdfBuffer)
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+    await updateReportJobStatus(jobId, 'failed', undefined, errorMessage)
+    throw err
+  }
+}
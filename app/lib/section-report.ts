@@ -0,0 +1,134 @@
+/**
+ * Section Audit Report
+ *
+ * Pure aggregation of per-app audit report data into one section-wide report:
+ * a summary row per app, all deviations across apps, and unverified-commit totals.
+ */
+
+import type { AuditReportData, DeviationEntry } from '~/db/audit-reports.server'
+
+/** Audit data for one app in the section, with the stored per-app report for the same period (if any) */
+export interface SectionReportAppInput {
+  monitored_app_id: number
+  app_name: string
+  team_slug: string
+  environment_name: string
+  repository: string
+  report_data: AuditReportData
+  audit_report: { id: number; report_id: string } | null
+}
+
+export interface SectionReportAppRow {
+  monitored_app_id: number
+  app_name: string
+  team_slug: string
+  environment_name: string
+  repository: string
+  total_deployments: number
+  pr_approved_count: number
+  manually_approved_count: number
+  legacy_count: number
+  deviation_count: number
+  open_deviation_count: number
+  unverified_commit_deployment_count: number
+  unverified_commit_count: number
+  /** Stored per-app report (audit_reports.id / report_id) for the same period */
+  audit_report_id: number | null
+  audit_report_document_id: string | null
+}
+
+export interface SectionDeviationEntry extends DeviationEntry {
+  app_name: string
+  team_slug: string
+  environment_name: string
+  repository: string
+}
+
+export type SectionReportTotals = Omit<
+  SectionReportAppRow,
+  | 'monitored_app_id'
+  | 'app_name'
+  | 'team_slug'
+  | 'environment_name'
+  | 'repository'
+  | 'audit_report_id'
+  | 'audit_report_document_id'
+> & { app_count: number }
+
+export interface SectionAuditReportData {
+  apps: SectionReportAppRow[]
+  deviations: SectionDeviationEntry[]
+  totals: SectionReportTotals
+}
+
+function buildAppRow(input: SectionReportAppInput): SectionReportAppRow {
+  const { report_data: data } = input
+  return {
+    monitored_app_id: input.monitored_app_id,
+    app_name: input.app_name,
+    team_slug: input.team_slug,
+    environment_name: input.environment_name,
+    repository: input.repository,
+    total_deployments: data.deployments.length,
+    pr_approved_count: data.deployments.filter((d) => d.method === 'pr').length,
+    manually_approved_count: data.deployments.filter((d) => d.method === 'manual').length,
+    legacy_count: data.legacy_count,
+    deviation_count: data.deviations.length,
+    open_deviation_count: data.deviations.filter((d) => !d.resolved_at).length,
+    unverified_commit_deployment_count: data.unverified_commit_deployments.length,
+    unverified_commit_count: data.unverified_commit_deployments.reduce((sum, d) => sum + d.commits.length, 0),
+    audit_report_id: input.audit_report?.id ?? null,
+    audit_report_document_id: input.audit_report?.report_id ?? null,
+  }
+}
+
+/**
+ * Build the section report from per-app audit data.
+ * Apps are sorted by team and app name, deviations chronologically.
+ */
+export function buildSectionReportData(inputs: SectionReportAppInput[]): SectionAuditReportData {
+  const sorted = [...inputs].sort(
+    (a, b) =>
+      a.team_slug.localeCompare(b.team_slug) ||
+      a.app_name.localeCompare(b.app_name) ||
+      a.environment_name.localeCompare(b.environment_name),
+  )
+
+  const apps = sorted.map(buildAppRow)
+
+  const deviations = sorted
+    .flatMap((input) =>
+      input.report_data.deviations.map((deviation) => ({
+        ...deviation,
+        app_name: input.app_name,
+        team_slug: input.team_slug,
+        environment_name: input.environment_name,
+        repository: input.repository,
+      })),
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+  const totals: SectionReportTotals = {
+    app_count: apps.length,
+    total_deployments: 0,
+    pr_approved_count: 0,
+    manually_approved_count: 0,
+    legacy_count: 0,
+    deviation_count: 0,
+    open_deviation_count: 0,
+    unverified_commit_deployment_count: 0,
+    unverified_commit_count: 0,
+  }
+  for (const row of apps) {
+    totals.total_deployments += row.total_deployments
+    totals.pr_approved_count += row.pr_approved_count
+    totals.manually_approved_count += row.manually_approved_count
+    totals.legacy_count += row.legacy_count
+    totals.deviation_count += row.deviation_count
+    totals.open_deviation_count += row.open_deviation_count
+    totals.unverified_commit_deployment_count += row.unverified_commit_deployment_count
+    totals.unverified_commit_count += row.unverified_commit_count
+  }
+
+  return { apps, deviations, totals }
+}
@@ -0,0 +1,49 @@
+/**
+ * Section access for Slack actions and commands
+ *
+ * Slack users act as their mapped NAV ident, with the sections they had at their last
+ * login in the web app (see getUserIdentityByNavIdent). Users who are not mapped or
+ * have never logged in cannot act or query from Slack.
+ */
+
+import { getDeploymentById } from '~/db/deployments.server'
+import { getUserMappingBySlackId } from '~/db/user-mappings.server'
+import { getUserIdentityByNavIdent, type UserIdentity } from '~/lib/auth.server'
+import { canAccessTeam } from '~/lib/authorization.server'
+
+export const NOT_MAPPED_MESSAGE =
+  'Slack-brukeren din er ikke koblet til en NAV-ident. Be en administrator legge deg til under Brukere.'
+
+export const NO_IDENTITY_MESSAGE =
+  'Fant ingen tilganger for deg. Logg inn i webappen én gang, så kan du bruke Slack-handlingene.'
+
+export const NO_ACCESS_MESSAGE = 'Du har ikke tilgang til denne applikasjonen.'
+
+export type SlackUserAccess =
+  | { navIdent: string; displayName: string | null; identity: UserIdentity }
+  | { error: string }
+
+/**
+ * Resolve a Slack user to their NAV ident and section access, or an error message for the user
+ */
+export async function getSlackUserAccess(slackUserId: string): Promise<SlackUserAccess> {
+  const userMapping = await getUserMappingBySlackId(slackUserId)
+  if (!userMapping?.nav_ident) {
+    return { error: NOT_MAPPED_MESSAGE }
+  }
+
+  const identity = await getUserIdentityByNavIdent(userMapping.nav_ident)
+  if (!identity) {
+    return { error: NO_IDENTITY_MESSAGE }
+  }
+
+  return { navIdent: userMapping.nav_ident, displayName: userMapping.display_name, identity }
+}
+
+/**
+ * Whether the user can read the app a deployment belongs to. False if the deployment does not exist.
+ */
+export async function canAccessDeployment(identity: UserIdentity, deploymentId: number): Promise<boolean> {
+  const deployment = await getDeploymentById(deploymentId)
+  return !!deployment && (await canAccessTeam(identity, deployment.team_slug, 'read'))
+}
@@ -6,15 +6,18 @@
  * server context and browser context (Storybook previews).
  */
 
-import type { KnownBlock } from '@slack/types'
+import type { ActionsBlockElement, KnownBlock } from '@slack/types'
 import {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
   DEVIATION_SEVERITY_LABELS,
+  DEVIATION_STATUS_LABELS,
   type DeviationFollowUpRole,
   type DeviationIntent,
   type DeviationSeverity,
+  type DeviationStatus,
 } from '~/lib/deviation-constants'
+import type { PersonalNotificationType } from '~/lib/personal-notifications'
 
 // =============================================================================
 // Types
@@ -33,6 +36,7 @@ export interface DeploymentNotification {
   prUrl?: string
   status: 'unverified' | 'pending_approval' | 'approved' | 'rejected'
   detailsUrl: string
+  approvedBy?: string // Slack user ID of the person who approved via Slack
 }
 
 export interface NewDeploymentNotification {
@@ -55,16 +59,36 @@ export interface NewDeploymentNotification {
   deployMethod: 'pull_request' | 'direct_push' | 'legacy'
 }
 
+export interface HomeTabDeployment {
+  id: number
+  commit_sha: string | null
+  deployer_username: string | null
+  four_eyes_status: string
+  github_pr_number: number | null
+  github_pr_data: { title?: string; creator?: { username?: string } } | null
+  title: string | null
+  created_at: Date
+  app_name: string
+  team_slug: string
+  environment_name: string
+}
+
 export interface HomeTabInput {
   slackUserId: string
   githubUsername: string | null | undefined
   baseUrl: string
+  /** The viewer's dev teams. Stats and apps are limited to these teams when set. */
+  devTeams: Array<{ slug: string; name: string }>
   stats: {
     totalApps: number
     totalDeployments: number
     withoutFourEyes: number
     pendingVerification: number
   }
+  /** The viewer's own deployments (as deployer or PR author) that need attention */
+  myDeployments: HomeTabDeployment[]
+  /** Deployments needing approval where the viewer is a reviewer on the PR */
+  reviewDeployments: HomeTabDeployment[]
   appsWithIssues: Array<{
     app_name: string
     team_slug: string
@@ -73,22 +97,7 @@ export interface HomeTabInput {
     pending_verification: number
     alert_count: number
   }>
-  issueDeployments: Map<
-    string,
-    Array<{
-      id: number
-      commit_sha: string | null
-      deployer_username: string | null
-      four_eyes_status: string
-      github_pr_number: number | null
-      github_pr_data: { title?: string; creator?: { username?: string } } | null
-      title: string | null
-      created_at: Date
-      app_name: string
-      team_slug: string
-      environment_name: string
-    }>
-  >
+  issueDeployments: Map<string, HomeTabDeployment[]>
 }
 
 // =============================================================================
@@ -136,8 +145,29 @@ export interface DeviationNotification {
   intent?: string
   severity?: string
   followUpRole?: string
+  assignedTo?: string
+  dueAt?: string
   registeredByName: string
   detailsUrl: string
+  /** Set when the deviation is stored; enables the follow-up buttons */
+  deviationId?: number
+  status?: DeviationStatus
+  resolvedByName?: string
+  resolutionNote?: string
+}
+
+export interface DeviationEscalationNotification {
+  deviationId: number
+  deploymentId: number
+  appName: string
+  environmentName: string
+  teamSlug: string
+  reason: string
+  severity?: string
+  status: DeviationStatus
+  assignedTo?: string
+  dueAt: string
+  detailsUrl: string
 }
 
 // =============================================================================
@@ -227,22 +257,56 @@ export function buildDeploymentBlocks(notification: DeploymentNotification): Kno
     })
   }
 
-  blocks.push({
-    type: 'actions',
-    elements: [
-      {
-        type: 'button',
+  if (notification.status === 'approved' && notification.approvedBy) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `✅ Godkjent av <@${notification.approvedBy}>`,
+      },
+    })
+  }
+
+  const needsApproval = notification.status === 'unverified' || notification.status === 'pending_approval'
+  const actionElements: ActionsBlockElement[] = [
+    {
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: '🔍 Se deployment',
+        emoji: true,
+      },
+      style: needsApproval ? 'primary' : undefined,
+      action_id: 'view_details',
+      url: notification.detailsUrl,
+    },
+  ]
+
+  if (needsApproval) {
+    actionElements.push({
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: '✅ Godkjenn',
+        emoji: true,
+      },
+      action_id: 'approve_deployment',
+      value: JSON.stringify({ deploymentId: notification.deploymentId, appName: notification.appName }),
+      confirm: {
+        title: { type: 'plain_text', text: 'Godkjenn deployment?' },
         text: {
-          type: 'plain_text',
-          text: '🔍 Se deployment',
-          emoji: true,
+          type: 'mrkdwn',
+          text: `Bekreft at du har gjennomgått endringene i *${notification.appName}* og at fire-øyne-prinsippet er oppfylt.`,
         },
-        style:
-          notification.status === 'unverified' || notification.status === 'pending_approval' ? 'primary' : undefined,
-        action_id: 'view_details',
-        url: notification.detailsUrl,
+        confirm: { type: 'plain_text', text: 'Godkjenn' },
+        deny: { type: 'plain_text', text: 'Avbryt' },
       },
-    ],
+    })
+  }
+
+  blocks.push({
+    type: 'actions',
+    elements: actionElements,
   })
 
   // Add context with timestamp
@@ -264,6 +328,7 @@ export function buildDeploymentBlocks(notification: DeploymentNotification): Kno
  */
 export function buildDeviationBlocks(notification: DeviationNotification): KnownBlock[] {
   const shortSha = notification.commitSha.substring(0, 7)
+  const isClosed = notification.status === 'closed'
 
   const fields = [
     { type: 'mrkdwn' as const, text: `*App:*\n${notification.appName}` },
@@ -272,6 +337,10 @@ export function buildDeviationBlocks(notification: DeviationNotification): Known
     { type: 'mrkdwn' as const, text: `*Registrert av:*\n${notification.registeredByName}` },
   ]
 
+  if (notification.status) {
+    fields.push({ type: 'mrkdwn' as const, text: `*Status:*\n${DEVIATION_STATUS_LABELS[notification.status]}` })
+  }
+
   if (notification.severity) {
     fields.push({
       type: 'mrkdwn' as const,
@@ -290,13 +359,19 @@ export function buildDeviationBlocks(notification: DeviationNotification): Known
       text: `*Oppfølgingsansvarlig:*\n${DEVIATION_FOLLOW_UP_ROLE_LABELS[notification.followUpRole as DeviationFollowUpRole] || notification.followUpRole}`,
     })
   }
+  if (notification.assignedTo) {
+    fields.push({ type: 'mrkdwn' as const, text: `*Tildelt:*\n${notification.assignedTo}` })
+  }
+  if (notification.dueAt) {
+    fields.push({ type: 'mrkdwn' as const, text: `*Frist:*\n${formatDueDate(notification.dueAt)}` })
+  }
 
   const blocks: KnownBlock[] = [
     {
       type: 'header',
       text: {
         type: 'plain_text',
-        text: '⚠️ Avvik registrert',
+        text: isClosed ? '✅ Avvik lukket' : '⚠️ Avvik registrert',
         emoji: true,
       },
     },
@@ -316,28 +391,61 @@ export function buildDeviationBlocks(notification: DeviationNotification): Known
     })
   }
 
-  blocks.push(
-    {
+  blocks.push({
+    type: 'section',
+    text: {
+      type: 'mrkdwn',
+      text: `*Beskrivelse:*\n${notification.reason}`,
+    },
+  })
+
+  if (isClosed && notification.resolutionNote) {
+    blocks.push({
       type: 'section',
       text: {
         type: 'mrkdwn',
-        text: `*Beskrivelse:*\n${notification.reason}`,
+        text: `*Lukket av ${notification.resolvedByName || 'ukjent'}:*\n${notification.resolutionNote}`,
       },
+    })
+  }
+
+  const actionElements: ActionsBlockElement[] = [
+    {
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: '🔍 Se deployment',
+        emoji: true,
+      },
+      action_id: 'view_deviation',
+      url: notification.detailsUrl,
     },
+  ]
+
+  // Follow-up from Slack: classification/status and closing open in modals
+  if (notification.deviationId && !isClosed) {
+    const value = JSON.stringify({ deviationId: notification.deviationId })
+    actionElements.push(
+      {
+        type: 'button',
+        text: { type: 'plain_text', text: '✏️ Følg opp', emoji: true },
+        action_id: 'edit_deviation',
+        value,
+      },
+      {
+        type: 'button',
+        text: { type: 'plain_text', text: '✅ Lukk avvik', emoji: true },
+        style: 'primary',
+        action_id: 'resolve_deviation',
+        value,
+      },
+    )
+  }
+
+  blocks.push(
     {
       type: 'actions',
-      elements: [
-        {
-          type: 'button',
-          text: {
-            type: 'plain_text',
-            text: '🔍 Se deployment',
-            emoji: true,
-          },
-          action_id: 'view_deviation',
-          url: notification.detailsUrl,
-        },
-      ],
+      elements: actionElements,
     },
     {
       type: 'context',
@@ -353,11 +461,99 @@ export function buildDeviationBlocks(notification: DeviationNotification): Known
   return blocks
 }
 
+function formatHomeTabDeploymentLine(d: HomeTabDeployment): string {
+  const shortSha = d.commit_sha?.substring(0, 7) || 'ukjent'
+  const deployer = d.deployer_username || 'ukjent'
+  const prAuthor = d.github_pr_data?.creator?.username
+  const prTitle = d.github_pr_data?.title || d.title
+  const prNumber = d.github_pr_number ? `#${d.github_pr_number}` : ''
+  const statusEmoji = d.four_eyes_status === 'pending' ? '⏳' : '⚠️'
+
+  let line = `${statusEmoji} \`${shortSha}\``
+  if (prNumber && prTitle) {
+    line += ` ${prNumber} _${prTitle.substring(0, 50)}${prTitle.length > 50 ? '…' : ''}_`
+  }
+  line += ` · ${prAuthor || deployer}`
+  return line
+}
+
+function homeTabDeploymentUrl(baseUrl: string, d: HomeTabDeployment): string {
+  return `${baseUrl}/team/${d.team_slug}/env/${d.environment_name}/app/${d.app_name}/deployments/${d.id}`
+}
+
 /**
- * Build blocks for Slack Home Tab
+ * A deployment with quick actions. Approval is only offered on others' deployments,
+ * since deployers cannot approve their own changes.
  */
-export function buildHomeTabBlocks({ baseUrl, stats, appsWithIssues, issueDeployments }: HomeTabInput): KnownBlock[] {
+function buildHomeTabDeploymentBlocks(
+  d: HomeTabDeployment,
+  baseUrl: string,
+  options: { canApprove: boolean },
+): KnownBlock[] {
+  const detailsUrl = homeTabDeploymentUrl(baseUrl, d)
+  const elements: ActionsBlockElement[] = []
+
+  if (options.canApprove) {
+    elements.push({
+      type: 'button',
+      text: { type: 'plain_text', text: '✅ Godkjenn', emoji: true },
+      style: 'primary',
+      action_id: 'approve_deployment',
+      value: JSON.stringify({ deploymentId: d.id, appName: d.app_name }),
+      confirm: {
+        title: { type: 'plain_text', text: 'Godkjenn deployment?' },
+        text: {
+          type: 'mrkdwn',
+          text: `Bekreft at du har gjennomgått endringene i *${d.app_name}* og at fire-øyne-prinsippet er oppfylt.`,
+        },
+        confirm: { type: 'plain_text', text: 'Godkjenn' },
+        deny: { type: 'plain_text', text: 'Avbryt' },
+      },
+    })
+  }
+
+  elements.push(
+    {
+      type: 'button',
+      text: { type: 'plain_text', text: '📝 Registrer avvik', emoji: true },
+      action_id: 'register_deviation_link',
+      url: `${detailsUrl}?avvik=ny`,
+    },
+    {
+      type: 'button',
+      text: { type: 'plain_text', text: '🔍 Se deployment', emoji: true },
+      action_id: 'view_details',
+      url: detailsUrl,
+    },
+  )
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*<${detailsUrl}|${d.app_name}>* (${d.environment_name})\n${formatHomeTabDeploymentLine(d)}`,
+      },
+    },
+    { type: 'actions', elements },
+  ]
+}
+
+/**
+ * Build blocks for Slack Home Tab, personalised for the viewing user
+ */
+export function buildHomeTabBlocks({
+  githubUsername,
+  baseUrl,
+  devTeams,
+  stats,
+  myDeployments,
+  reviewDeployments,
+  appsWithIssues,
+  issueDeployments,
+}: HomeTabInput): KnownBlock[] {
   const blocks: KnownBlock[] = []
+  const teamNames = devTeams.map((t) => t.name).join(', ')
 
   // Header
   blocks.push({
@@ -369,14 +565,24 @@ export function buildHomeTabBlocks({ baseUrl, stats, appsWithIssues, issueDeploy
     },
   })
 
+  if (!githubUsername) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `👤 Slack-brukeren din er ikke koblet til en GitHub-bruker, så vi kan ikke vise dine deployments. Be en administrator legge deg til under <${baseUrl}/admin/users|Brukere>.`,
+      },
+    })
+  }
+
   blocks.push({ type: 'divider' })
 
-  // Section 1: Overview stats
+  // Section 1: Overview stats (for the viewer's teams when known)
   blocks.push({
     type: 'section',
     text: {
       type: 'mrkdwn',
-      text: '*📈 Oversikt*',
+      text: devTeams.length > 0 ? `*📈 Oversikt for ${teamNames}*` : '*📈 Oversikt*',
     },
   })
 
@@ -412,7 +618,7 @@ export function buildHomeTabBlocks({ baseUrl, stats, appsWithIssues, issueDeploy
           text: '🏠 Åpne dashboard',
           emoji: true,
         },
-        url: baseUrl,
+        url: devTeams.length === 1 ? `${baseUrl}/boards/${devTeams[0].slug}/dashboard` : baseUrl,
         action_id: 'open_dashboard',
       },
     ],
@@ -420,13 +626,50 @@ export function buildHomeTabBlocks({ baseUrl, stats, appsWithIssues, issueDeploy
 
   blocks.push({ type: 'divider' })
 
-  // Section 2: Apps with issues + sample deployments
+  // Section 2: The viewer's own deployments that need attention
+  if (githubUsername) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text:
+          myDeployments.length > 0
+            ? `*🙋 Dine deployments som trenger oppfølging* (${myDeployments.length})`
+            : '*🙋 Dine deployments*\n✅ Ingen av dine deployments mangler godkjenning.',
+      },
+    })
+    for (const d of myDeployments) {
+      blocks.push(...buildHomeTabDeploymentBlocks(d, baseUrl, { canApprove: false }))
+    }
+
+    // Section 3: PRs where the viewer is a reviewer and the deployment is not verified
+    if (reviewDeployments.length > 0) {
+      blocks.push({ type: 'divider' })
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*👀 Venter på deg som reviewer* (${reviewDeployments.length})`,
+        },
+      })
+      for (const d of reviewDeployments) {
+        blocks.push(...buildHomeTabDeploymentBlocks(d, baseUrl, { canApprove: true }))
+      }
+    }
+
+    blocks.push({ type: 'divider' })
+  }
+
+  // Section 4: The team's apps with issues + sample deployments
   if (appsWithIssues.length > 0) {
     blocks.push({
       type: 'section',
       text: {
         type: 'mrkdwn',
-        text: `*🔔 Applikasjoner med mangler* (${appsWithIssues.length})`,
+        text:
+          devTeams.length > 0
+            ? `*🔔 Applikasjoner med mangler i ${teamNames}* (${appsWithIssues.length})`
+            : `*🔔 Applikasjoner med mangler* (${appsWithIssues.length})`,
       },
     })
 
@@ -455,28 +698,12 @@ export function buildHomeTabBlocks({ baseUrl, stats, appsWithIssues, issueDeploy
       const key = `${app.team_slug}/${app.environment_name}/${app.app_name}`
       const deployments = issueDeployments.get(key)
       if (deployments && deployments.length > 0) {
-        const lines = deployments.map((d) => {
-          const shortSha = d.commit_sha?.substring(0, 7) || 'ukjent'
-          const deployer = d.deployer_username || 'ukjent'
-          const prAuthor = d.github_pr_data?.creator?.username
-          const prTitle = d.github_pr_data?.title || d.title
-          const prNumber = d.github_pr_number ? `#${d.github_pr_number}` : ''
-          const statusEmoji = d.four_eyes_status === 'pending' ? '⏳' : '⚠️'
-
-          let line = `${statusEmoji} \`${shortSha}\``
-          if (prNumber && prTitle) {
-            line += ` ${prNumber} _${prTitle.substring(0, 50)}${prTitle.length > 50 ? '…' : ''}_`
-          }
-          line += ` · ${prAuthor || deployer}`
-          return line
-        })
-
         blocks.push({
           type: 'context',
           elements: [
             {
               type: 'mrkdwn',
-              text: lines.join('\n'),
+              text: deployments.map(formatHomeTabDeploymentLine).join('\n'),
             },
           ],
         })
@@ -525,6 +752,19 @@ export interface ReminderNotification {
 
 const REMINDER_DETAIL_LIMIT = 5
 
+export interface AuditReportBlockedNotification {
+  appName: string
+  environmentName: string
+  teamSlug: string
+  periodLabel: string
+  /** Total number of deployments blocking the report */
+  pendingCount: number
+  /** The first blocking deployments */
+  deployments: ReminderDeployment[]
+  /** URL to the app admin page where the report is generated */
+  adminUrl: string
+}
+
 /**
  * Build Slack Block Kit blocks for a reminder notification.
  * Shows individual deployments if ≤5, otherwise a summary.
@@ -634,6 +874,8 @@ function mapFourEyesStatus(status: string): { emoji: string; text: string } {
     case 'implicitly_approved':
     case 'manually_approved':
       return { emoji: '✅', text: 'Godkjent' }
+    case 'rollback':
+      return { emoji: '↩️', text: 'Rollback' }
     case 'pending':
     case 'pending_baseline':
     case 'unknown':
@@ -744,3 +986,243 @@ export function buildNewDeploymentBlocks(notification: NewDeploymentNotification
 
   return blocks
 }
+
+function formatDueDate(dueAt: string): string {
+  return new Date(dueAt).toLocaleDateString('no-NO', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+/**
+ * Build blocks for an overdue deviation escalation
+ */
+export function buildDeviationEscalationBlocks(notification: DeviationEscalationNotification): KnownBlock[] {
+  const fields = [
+    { type: 'mrkdwn' as const, text: `*App:*\n${notification.appName}` },
+    { type: 'mrkdwn' as const, text: `*Miljø:*\n${notification.environmentName}` },
+    { type: 'mrkdwn' as const, text: `*Status:*\n${DEVIATION_STATUS_LABELS[notification.status]}` },
+    { type: 'mrkdwn' as const, text: `*Frist:*\n${formatDueDate(notification.dueAt)}` },
+    { type: 'mrkdwn' as const, text: `*Tildelt:*\n${notification.assignedTo || '_Ingen_'}` },
+  ]
+
+  if (notification.severity) {
+    fields.push({
+      type: 'mrkdwn' as const,
+      text: `*Alvorlighetsgrad:*\n${DEVIATION_SEVERITY_LABELS[notification.severity as DeviationSeverity] || notification.severity}`,
+    })
+  }
+
+  return [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '⏰ Avvik har passert fristen',
+        emoji: true,
+      },
+    },
+    {
+      type: 'section',
+      fields,
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*Beskrivelse:*\n${truncate(notification.reason, 500)}`,
+      },
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '🔍 Se deployment',
+            emoji: true,
+          },
+          action_id: 'view_deviation',
+          url: notification.detailsUrl,
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Team: ${notification.teamSlug} | Deployment: ${notification.deploymentId} | Avvik: ${notification.deviationId}`,
+        },
+      ],
+    },
+  ]
+}
+
+/**
+ * Build blocks for a scheduled audit report that could not be generated
+ * because deployments in the period are not approved
+ */
+export function buildAuditReportBlockedBlocks(notification: AuditReportBlockedNotification): KnownBlock[] {
+  const { deployments, pendingCount } = notification
+
+  const blocks: KnownBlock[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `📄 Leveranserapport for ${notification.periodLabel} kan ikke genereres`,
+        emoji: true,
+      },
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${notification.appName}* (${notification.environmentName}): ${pendingCount} deployment${pendingCount === 1 ? '' : 's'} i perioden mangler godkjenning.`,
+      },
+    },
+  ]
+
+  if (deployments.length > 0) {
+    const lines = deployments.map((dep) => {
+      const shortSha = dep.commitSha.substring(0, 7)
+      const statusEmoji = getStatusEmoji(dep.status as DeploymentNotification['status'])
+      return `${statusEmoji} <${dep.detailsUrl}|#${dep.id}> \`${shortSha}\` — ${dep.deployerName} — ${dep.createdAt}`
+    })
+    if (pendingCount > deployments.length) {
+      lines.push(`_…og ${pendingCount - deployments.length} til_`)
+    }
+    blocks.push({ type: 'divider' }, { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } })
+  }
+
+  blocks.push(
+    { type: 'divider' },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '📄 Gå til rapportgenerering',
+            emoji: true,
+          },
+          action_id: 'view_audit_report_admin',
+          url: notification.adminUrl,
+          style: 'primary',
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Team: ${notification.teamSlug} | Automatisk rapportgenerering`,
+        },
+      ],
+    },
+  )
+
+  return blocks
+}
+
+// =============================================================================
+// Personal Notification Blocks
+// =============================================================================
+
+export interface PersonalNotification {
+  type: PersonalNotificationType
+  /** Deployment title, PR title or deviation description */
+  title: string
+  appName?: string
+  environmentName?: string
+  /** Readable deployment or deviation status */
+  statusLabel?: string
+  url: string
+  createdAt: string
+}
+
+export interface PersonalNotificationDigest {
+  notifications: PersonalNotification[]
+  /** URL to the user's notification settings */
+  settingsUrl: string
+}
+
+export const PERSONAL_NOTIFICATION_HEADINGS: Record<PersonalNotificationType, string> = {
+  own_deployment_unverified: '⚠️ Deploymenten din har uverifiserte commits',
+  review_requested: '👀 Du er bedt om å reviewe en PR',
+  app_status: '🔔 Ny status på en app du følger',
+  deviation_registered: '🚨 Avvik registrert på en app du følger',
+  deviation_status_changed: '📝 Avvik oppdatert på en app du følger',
+}
+
+const PERSONAL_DIGEST_DETAIL_LIMIT = 20
+
+function formatPersonalNotificationLine(notification: PersonalNotification): string {
+  const context = [
+    notification.appName &&
+      (notification.environmentName
+        ? `${notification.appName} (${notification.environmentName})`
+        : notification.appName),
+    notification.statusLabel,
+  ]
+    .filter(Boolean)
+    .join(' — ')
+  const link = `*<${notification.url}|${truncate(notification.title, 80)}>*`
+  return context ? `${link}\n${context}` : link
+}
+
+/**
+ * Build blocks for a personal DM. A single notification is shown on its own;
+ * several (a digest) are listed under a common header.
+ */
+export function buildPersonalNotificationBlocks(digest: PersonalNotificationDigest): KnownBlock[] {
+  const { notifications } = digest
+  const count = notifications.length
+  const blocks: KnownBlock[] = []
+
+  if (count === 1) {
+    blocks.push(
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: PERSONAL_NOTIFICATION_HEADINGS[notifications[0].type], emoji: true },
+      },
+      { type: 'section', text: { type: 'mrkdwn', text: formatPersonalNotificationLine(notifications[0]) } },
+    )
+  } else {
+    blocks.push({
+      type: 'header',
+      text: { type: 'plain_text', text: `🔔 ${count} nye varsler`, emoji: true },
+    })
+    for (const notification of notifications.slice(0, PERSONAL_DIGEST_DETAIL_LIMIT)) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${PERSONAL_NOTIFICATION_HEADINGS[notification.type]}\n${formatPersonalNotificationLine(notification)}`,
+        },
+      })
+    }
+    if (count > PERSONAL_DIGEST_DETAIL_LIMIT) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: `_…og ${count - PERSONAL_DIGEST_DETAIL_LIMIT} til_` },
+      })
+    }
+  }
+
+  blocks.push(
+    { type: 'divider' },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Personlig varsel | <${digest.settingsUrl}|Endre varslingsinnstillinger>`,
+        },
+      ],
+    },
+  )
+
+  return blocks
+}
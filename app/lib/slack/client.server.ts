@@ -20,10 +20,15 @@ import {
   type DeploymentWithApp,
   type GitHubPRData,
   getAppsWithIssues,
+  getDeploymentById,
   getDeploymentsNeedingDeployNotify,
   getHomeTabSummaryStats,
   getIssueDeploymentsPerApp,
+  getReviewerIssueDeployments,
+  getUserIssueDeployments,
 } from '~/db/deployments.server'
+import { getAppIdsForDevTeams, getDevTeamsForUser } from '~/db/dev-teams.server'
+import { getAllMonitoredApplications } from '~/db/monitored-applications.server'
 import {
   createSlackNotification,
   getSlackNotificationByMessage,
@@ -31,33 +36,53 @@ import {
   updateSlackNotification,
 } from '~/db/slack-notifications.server'
 import { getUserMappingBySlackId } from '~/db/user-mappings.server'
+import { canAccessTeam, getReadableTeamFilter } from '~/lib/authorization.server'
 import { logger } from '~/lib/logger.server'
+import { recordManualApproval, validateManualApprover } from '~/lib/manual-approval.server'
+import { postSlackMessage } from '~/lib/notifications/slack-channel.server'
+import { getSlackUserAccess, NO_ACCESS_MESSAGE } from './access.server'
 import {
+  type AuditReportBlockedNotification,
+  buildAuditReportBlockedBlocks,
   buildDeploymentBlocks,
   buildDeviationBlocks,
+  buildDeviationEscalationBlocks,
   buildHomeTabBlocks,
   buildNewDeploymentBlocks,
+  buildPersonalNotificationBlocks,
   buildReminderBlocks,
   type DeploymentNotification,
+  type DeviationEscalationNotification,
   type DeviationNotification,
   getStatusEmoji,
   type NewDeploymentNotification,
+  type PersonalNotificationDigest,
   type ReminderNotification,
 } from './blocks'
+import { registerSlashCommands } from './commands.server'
+import { registerDeviationHandlers } from './deviations.server'
 
 // Re-export types and functions from slack-blocks for backward compatibility
 export type {
+  AuditReportBlockedNotification,
   DeploymentNotification,
+  DeviationEscalationNotification,
   DeviationNotification,
+  HomeTabDeployment,
   HomeTabInput,
   NewDeploymentNotification,
+  PersonalNotification,
+  PersonalNotificationDigest,
   ReminderNotification,
 } from './blocks'
 export {
+  buildAuditReportBlockedBlocks,
   buildDeploymentBlocks,
   buildDeviationBlocks,
+  buildDeviationEscalationBlocks,
   buildHomeTabBlocks,
   buildNewDeploymentBlocks,
+  buildPersonalNotificationBlocks,
   buildReminderBlocks,
   getStatusEmoji,
   getStatusText,
@@ -98,6 +123,10 @@ export function getSlackApp(): App | null {
 
     // Register event handlers
     registerEventHandlers(slackApp)
+
+    // Register the /deploy-audit slash command and deviation modals
+    registerSlashCommands(slackApp)
+    registerDeviationHandlers(slackApp)
   }
 
   return slackApp
@@ -225,6 +254,64 @@ export async function sendDeviationNotification(
   }
 }
 
+/**
+ * Send an escalation for an overdue deviation to the deviation Slack channel
+ */
+export async function sendDeviationEscalation(
+  notification: DeviationEscalationNotification,
+  channelId: string,
+): Promise<string | null> {
+  const app = getSlackApp()
+  if (!app) {
+    logger.info('Slack not configured, skipping deviation escalation')
+    return null
+  }
+
+  const blocks = buildDeviationEscalationBlocks(notification)
+  const text = `⏰ Avvik har passert fristen: ${notification.appName} (${notification.environmentName})`
+
+  try {
+    const result = await app.client.chat.postMessage({
+      channel: channelId,
+      blocks: blocks as KnownBlock[],
+      text,
+    })
+    return result.ts || null
+  } catch (error) {
+    logger.error('Failed to send deviation escalation to Slack:', error)
+    return null
+  }
+}
+
+/**
+ * Send a summary of deployments blocking a scheduled audit report
+ */
+export async function sendAuditReportBlocked(
+  notification: AuditReportBlockedNotification,
+  channelId: string,
+): Promise<string | null> {
+  const app = getSlackApp()
+  if (!app) {
+    logger.info('Slack not configured, skipping audit report blocked summary')
+    return null
+  }
+
+  const blocks = buildAuditReportBlockedBlocks(notification)
+  const text = `📄 Leveranserapport for ${notification.periodLabel} kan ikke genereres: ${notification.appName} (${notification.environmentName})`
+
+  try {
+    const result = await app.client.chat.postMessage({
+      channel: channelId,
+      blocks: blocks as KnownBlock[],
+      text,
+    })
+    return result.ts || null
+  } catch (error) {
+    logger.error('Failed to send audit report blocked summary to Slack:', error)
+    return null
+  }
+}
+
 /**
  * Send a reminder notification to a Slack channel
  */
@@ -257,6 +344,36 @@ export async function sendReminder(notification: ReminderNotification, channelId
   }
 }
 
+/**
+ * Send personal notifications as a DM to a user (posting to a member ID opens the DM channel)
+ */
+export async function sendPersonalNotification(
+  digest: PersonalNotificationDigest,
+  slackMemberId: string,
+): Promise<string | null> {
+  const app = getSlackApp()
+  if (!app) {
+    logger.info('Slack not configured, skipping personal notification')
+    return null
+  }
+
+  const blocks = buildPersonalNotificationBlocks(digest)
+  const count = digest.notifications.length
+  const text = count === 1 ? digest.notifications[0].title : `🔔 ${count} nye varsler`
+
+  try {
+    const result = await app.client.chat.postMessage({
+      channel: slackMemberId,
+      blocks: blocks as KnownBlock[],
+      text,
+    })
+    return result.ts || null
+  } catch (error) {
+    logger.error('Failed to send personal Slack notification:', error)
+    return null
+  }
+}
+
 /**
  * Update an existing deployment notification
  */
@@ -300,57 +417,162 @@ export async function updateDeploymentNotification(
   }
 }
 
+/**
+ * Build and publish the Home Tab for a Slack user. The content is personalised from the
+ * user's mapping: their own deployments, PRs they review and their dev teams' apps.
+ */
+async function publishHomeTab(client: App['client'], userId: string): Promise<void> {
+  const userMapping = await getUserMappingBySlackId(userId)
+  const githubUsername = userMapping?.github_username
+  logger.info('[Slack Home Tab] User mapping result:', { githubUsername, hasMapping: !!userMapping })
+
+  const devTeams = githubUsername ? await getDevTeamsForUser(githubUsername, userMapping?.nav_ident ?? null) : []
+  // Without a known team the overview covers all apps the user can read
+  const teamAppIds = devTeams.length > 0 ? new Set(await getAppIdsForDevTeams(devTeams.map((t) => t.id))) : null
+
+  // Apps outside the user's sections are left out, and all apps if their access is unknown
+  const access = await getSlackUserAccess(userId)
+  const canReadTeam = 'error' in access ? () => false : await getReadableTeamFilter(access.identity)
+  const appIds = (await getAllMonitoredApplications())
+    .filter((app) => canReadTeam(app.team_slug) && (!teamAppIds || teamAppIds.has(app.id)))
+    .map((app) => app.id)
+
+  const [stats, appsWithIssues, myDeployments, reviewDeployments] = await Promise.all([
+    getHomeTabSummaryStats(appIds),
+    getAppsWithIssues(appIds),
+    githubUsername ? getUserIssueDeployments(githubUsername) : [],
+    githubUsername ? getReviewerIssueDeployments(githubUsername) : [],
+  ])
+  const issueDeployments = await getIssueDeploymentsPerApp(appsWithIssues, 3)
+
+  logger.info('[Slack Home Tab] Data fetched:', {
+    devTeams: devTeams.length,
+    appsWithIssuesCount: appsWithIssues.length,
+    myDeployments: myDeployments.length,
+    reviewDeployments: reviewDeployments.length,
+  })
+
+  const blocks = buildHomeTabBlocks({
+    slackUserId: userId,
+    githubUsername,
+    baseUrl: process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no',
+    devTeams: devTeams.map((t) => ({ slug: t.slug, name: t.name })),
+    stats,
+    myDeployments,
+    reviewDeployments,
+    appsWithIssues,
+    issueDeployments,
+  })
+
+  await client.views.publish({
+    user_id: userId,
+    view: {
+      type: 'home',
+      blocks,
+    },
+  })
+  logger.info('[Slack Home Tab] View published successfully')
+}
+
 /**
  * Register action handlers for interactive components
  */
 function registerActionHandlers(app: App): void {
-  // Handle approve button click
+  // Handle approve button click: records a manual approval on behalf of the Slack user
   app.action<BlockAction>('approve_deployment', async ({ ack, body, client, action }) => {
     await ack()
 
+    const userId = body.user.id
+    const channelId = body.channel?.id
+    const messageTs = body.message?.ts
+    const fromHomeTab = body.view?.type === 'home'
+    // Ephemeral messages (e.g. from /deploy-audit show) cannot be updated
+    const isEphemeral = !!body.container?.is_ephemeral
+
+    const replyEphemeral = async (text: string) => {
+      // Actions from the Home Tab have no channel - reply in the app's DM instead
+      if (!channelId) {
+        if (fromHomeTab) await client.chat.postMessage({ channel: userId, text })
+        return
+      }
+      await client.chat.postEphemeral({ channel: channelId, user: userId, text })
+    }
+
     try {
       // Parse the action value
       const buttonAction = action as { value: string }
       const value = JSON.parse(buttonAction.value)
-      const { deploymentId, appName } = value
-
-      // Get user info
-      const userId = body.user.id
+      const deploymentId = Number(value.deploymentId)
 
-      logger.info(`Slack: User ${userId} approved deployment ${deploymentId}`)
+      logger.info(`Slack: User ${userId} requested approval of deployment ${deploymentId}`)
 
       // Log the interaction
-      if (body.channel?.id && body.message?.ts) {
-        const notification = await getSlackNotificationByMessage(body.channel.id, body.message.ts)
-        if (notification) {
-          await logSlackInteraction({
-            notificationId: notification.id,
-            actionId: 'approve_deployment',
-            slackUserId: userId,
-            slackUsername: 'username' in body.user ? body.user.username : undefined,
-            actionValue: value,
-          })
-        }
-
-        // TODO: Call the actual approval logic
-        // For now, just update the message to show it was approved
-        await client.chat.update({
-          channel: body.channel.id,
-          ts: body.message.ts,
-          blocks: [
-            {
-              type: 'section',
-              text: {
-                type: 'mrkdwn',
-                text: `✅ *Deployment godkjent*\n\nApp: ${appName}\nGodkjent av: <@${userId}>`,
-              },
-            },
-          ],
-          text: `Deployment ${deploymentId} godkjent av ${userId}`,
+      const notification = channelId && messageTs ? await getSlackNotificationByMessage(channelId, messageTs) : null
+      if (notification) {
+        await logSlackInteraction({
+          notificationId: notification.id,
+          actionId: 'approve_deployment',
+          slackUserId: userId,
+          slackUsername: 'username' in body.user ? body.user.username : undefined,
+          actionValue: value,
         })
       }
+
+      // Map the Slack user to a NAV identity with section access
+      const access = await getSlackUserAccess(userId)
+      if ('error' in access) {
+        await replyEphemeral(access.error)
+        return
+      }
+      const navIdent = access.navIdent
+
+      const deployment = await getDeploymentById(deploymentId)
+      if (!deployment) {
+        await replyEphemeral('Deployment ikke funnet.')
+        return
+      }
+
+      if (!(await canAccessTeam(access.identity, deployment.team_slug, 'read'))) {
+        await replyEphemeral(NO_ACCESS_MESSAGE)
+        return
+      }
+
+      if (deployment.has_four_eyes) {
+        await replyEphemeral('Denne deploymenten er allerede godkjent.')
+        return
+      }
+
+      const approverError = await validateManualApprover(deployment, navIdent, { includeDeployer: true })
+      if (approverError) {
+        await replyEphemeral(approverError)
+        return
+      }
+
+      await recordManualApproval(deploymentId, {
+        approvedBy: navIdent,
+        reason: 'Manuelt godkjent fra Slack',
+        details: { via: 'slack', slack_user_id: userId },
+      })
+
+      logger.info(`Slack: Deployment ${deploymentId} manually approved by ${navIdent} (${userId})`)
+
+      if (isEphemeral) {
+        await replyEphemeral(`✅ Deployment #${deploymentId} er godkjent.`)
+      } else if (channelId && messageTs) {
+        const baseUrl = process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
+        await updateDeploymentNotification(
+          messageTs,
+          { ...buildDeploymentNotification(deployment, baseUrl, 'approved'), approvedBy: userId },
+          channelId,
+          navIdent,
+        )
+      }
+      if (fromHomeTab) {
+        await publishHomeTab(client, userId)
+      }
     } catch (error) {
       logger.error('Error handling approve action:', error)
+      await replyEphemeral('Kunne ikke godkjenne deployment. Prøv igjen eller godkjenn i webappen.').catch(() => {})
     }
   })
 
@@ -380,6 +602,41 @@ function registerActionHandlers(app: App): void {
   })
 }
 
+/**
+ * Build the deployment notification payload from a deployment row
+ */
+function buildDeploymentNotification(
+  deployment: {
+    id: number
+    commit_sha: string | null
+    deployer_username: string | null
+    github_pr_number: number | null
+    github_pr_url: string | null
+    github_pr_data: { title: string } | null
+    title: string | null
+    team_slug: string
+    environment_name: string
+    app_name: string
+  },
+  baseUrl: string,
+  status: DeploymentNotification['status'],
+): DeploymentNotification {
+  return {
+    deploymentId: deployment.id,
+    appName: deployment.app_name,
+    environmentName: deployment.environment_name,
+    teamSlug: deployment.team_slug,
+    commitSha: deployment.commit_sha || 'unknown',
+    commitMessage: deployment.title || deployment.github_pr_data?.title,
+    deployerName: deployment.deployer_username || 'ukjent',
+    deployerUsername: deployment.deployer_username || 'unknown',
+    prNumber: deployment.github_pr_number || undefined,
+    prUrl: deployment.github_pr_url || undefined,
+    status,
+    detailsUrl: `${baseUrl}/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`,
+  }
+}
+
 /**
  * Send notification for a deployment if needed.
  * Uses atomic database claim to prevent duplicate notifications across pods.
@@ -434,23 +691,10 @@ export async function notifyDeploymentIfNeeded(
   }
 
   // Build notification
-  const notification: DeploymentNotification = {
-    deploymentId: deployment.id,
-    appName: deployment.app_name,
-    environmentName: deployment.environment_name,
-    teamSlug: deployment.team_slug,
-    commitSha: deployment.commit_sha || 'unknown',
-    commitMessage: deployment.title || deployment.github_pr_data?.title,
-    deployerName: deployment.deployer_username || 'ukjent',
-    deployerUsername: deployment.deployer_username || 'unknown',
-    prNumber: deployment.github_pr_number || undefined,
-    prUrl: deployment.github_pr_url || undefined,
-    status,
-    detailsUrl: `${baseUrl}/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`,
-  }
+  const notification = buildDeploymentNotification(deployment, baseUrl, status)
 
   // Send to Slack
-  const messageTs = await sendDeploymentNotification(notification, channelId)
+  const { externalId: messageTs } = await postSlackMessage({ type: 'deployment', notification }, channelId)
   if (!messageTs) {
     return false
   }
@@ -651,47 +895,7 @@ function registerEventHandlers(app: App): void {
     logger.info('[Slack Home Tab] Event received:', { user: event.user, tab: event.tab })
 
     try {
-      const userId = event.user
-
-      // Try to find matching GitHub username from user mappings using Slack member ID
-      logger.info('[Slack Home Tab] Looking up user mapping for Slack ID:', { userId })
-      const userMapping = await getUserMappingBySlackId(userId)
-      const githubUsername = userMapping?.github_username
-      logger.info('[Slack Home Tab] User mapping result:', { githubUsername, hasMapping: !!userMapping })
-
-      // Fetch data for Home Tab
-      logger.info('[Slack Home Tab] Fetching data...')
-
-      const [stats, appsWithIssues] = await Promise.all([getHomeTabSummaryStats(), getAppsWithIssues()])
-
-      // Fetch sample issue deployments per app
-      const issueDeployments = await getIssueDeploymentsPerApp(appsWithIssues, 3)
-
-      logger.info('[Slack Home Tab] Data fetched:', {
-        stats,
-        appsWithIssuesCount: appsWithIssues.length,
-      })
-
-      // Build and publish Home Tab
-      const blocks = buildHomeTabBlocks({
-        slackUserId: userId,
-        githubUsername,
-        baseUrl: process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no',
-        stats,
-        appsWithIssues,
-        issueDeployments,
-      })
-      logger.info('[Slack Home Tab] Built blocks, count:', { count: blocks.length })
-
-      logger.info('[Slack Home Tab] Publishing view...')
-      await client.views.publish({
-        user_id: userId,
-        view: {
-          type: 'home',
-          blocks,
-        },
-      })
-      logger.info('[Slack Home Tab] View published successfully')
+      await publishHomeTab(client, event.user)
     } catch (error) {
       logger.error('[Slack Home Tab] Error updating Home Tab:', error)
     }
@@ -0,0 +1,173 @@
+/**
+ * /deploy-audit slash command handlers
+ *
+ * Every command is acknowledged before any lookups, since Slack only waits 3 seconds.
+ * Query subcommands then reply through the response URL with an ephemeral message,
+ * so only the caller sees the answer. Answers only include apps in the caller's
+ * sections (see access.server.ts). `deviation <id>` opens the deviation modal right
+ * after the ack, while the trigger ID is still valid (see deviations.server.ts).
+ */
+
+import type { App } from '@slack/bolt'
+import type { KnownBlock } from '@slack/types'
+import {
+  getAppDeploymentStatsBatch,
+  getAppsWithIssues,
+  getDeploymentById,
+  getIssueDeploymentsPerApp,
+  searchDeployments,
+} from '~/db/deployments.server'
+import { getAppIdsForDevTeams, getDevTeamBySlug } from '~/db/dev-teams.server'
+import { getAllMonitoredApplications, getApplicationsByTeam } from '~/db/monitored-applications.server'
+import { getReadableTeamFilter } from '~/lib/authorization.server'
+import { logger } from '~/lib/logger.server'
+import { getSlackUserAccess } from './access.server'
+import {
+  buildAppStatusBlocks,
+  buildCommandDeploymentBlocks,
+  buildCommandHelpBlocks,
+  buildSearchResultBlocks,
+  buildUnverifiedBlocks,
+  DEPLOY_AUDIT_COMMAND,
+  type DeployAuditCommand,
+  parseDeployAuditCommand,
+} from './commands'
+import { openDeviationModal } from './deviations.server'
+
+type TeamFilter = (teamSlug: string) => boolean
+
+interface CommandResponse {
+  text: string
+  blocks: KnownBlock[]
+}
+
+function getBaseUrl(): string {
+  return process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
+}
+
+function textResponse(text: string): CommandResponse {
+  return { text, blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }] }
+}
+
+async function buildStatusResponse(appName: string, canReadTeam: TeamFilter): Promise<CommandResponse> {
+  const apps = (await getAllMonitoredApplications()).filter(
+    (a) => a.app_name.toLowerCase() === appName.toLowerCase() && canReadTeam(a.team_slug),
+  )
+  if (apps.length === 0) {
+    return textResponse(`Fant ingen overvåket applikasjon med navn \`${appName}\`.`)
+  }
+
+  const stats = await getAppDeploymentStatsBatch(apps)
+  const blocks = buildAppStatusBlocks(
+    apps.flatMap((app) => {
+      const appStats = stats.get(app.id)
+      return appStats ? [{ ...app, stats: appStats }] : []
+    }),
+    getBaseUrl(),
+  )
+  return { text: `Status for ${appName}`, blocks }
+}
+
+/**
+ * Resolve `[team]` to app IDs: a dev team slug first, then a Nais team. Without a team all apps are included.
+ */
+async function buildUnverifiedResponse(team: string | null, canReadTeam: TeamFilter): Promise<CommandResponse> {
+  let appIds: number[] | undefined
+  let scope: string | null = null
+
+  if (team) {
+    const devTeam = await getDevTeamBySlug(team)
+    if (devTeam) {
+      appIds = await getAppIdsForDevTeams([devTeam.id])
+      scope = devTeam.name
+    } else {
+      const naisApps = await getApplicationsByTeam(team)
+      if (naisApps.length === 0 || !canReadTeam(team)) {
+        return textResponse(`Fant ikke team \`${team}\`.`)
+      }
+      appIds = naisApps.map((a) => a.id)
+      scope = team
+    }
+  }
+
+  const apps = (await getAppsWithIssues(appIds)).filter((app) => canReadTeam(app.team_slug))
+  const issueDeployments = await getIssueDeploymentsPerApp(apps, 3)
+  return {
+    text: scope ? `Deployments uten godkjenning i ${scope}` : 'Deployments uten godkjenning',
+    blocks: buildUnverifiedBlocks({ scope, apps, issueDeployments, baseUrl: getBaseUrl() }),
+  }
+}
+
+async function buildShowResponse(query: string, canReadTeam: TeamFilter): Promise<CommandResponse> {
+  const results = (await searchDeployments(query, 10, {}, canReadTeam)).filter((r) => r.type === 'deployment')
+
+  if (results.length === 1 && results[0].id) {
+    const deployment = await getDeploymentById(results[0].id)
+    if (deployment) {
+      return {
+        text: `Deployment #${deployment.id}`,
+        blocks: buildCommandDeploymentBlocks(deployment, getBaseUrl()),
+      }
+    }
+  }
+
+  return { text: `Søk etter ${query}`, blocks: buildSearchResultBlocks(query, results, getBaseUrl()) }
+}
+
+/**
+ * Build the ephemeral response for a query subcommand
+ */
+async function buildCommandResponse(
+  command: Exclude<DeployAuditCommand, { type: 'deviation' }>,
+  slackUserId: string,
+): Promise<CommandResponse> {
+  switch (command.type) {
+    case 'help':
+      return { text: `Bruk: ${DEPLOY_AUDIT_COMMAND} <kommando>`, blocks: buildCommandHelpBlocks() }
+    case 'invalid':
+      return { text: command.message, blocks: buildCommandHelpBlocks(command.message) }
+  }
+
+  const access = await getSlackUserAccess(slackUserId)
+  if ('error' in access) {
+    return textResponse(access.error)
+  }
+  const canReadTeam = await getReadableTeamFilter(access.identity)
+
+  switch (command.type) {
+    case 'status':
+      return buildStatusResponse(command.app, canReadTeam)
+    case 'unverified':
+      return buildUnverifiedResponse(command.team, canReadTeam)
+    case 'show':
+      return buildShowResponse(command.query, canReadTeam)
+  }
+}
+
+/**
+ * Register the /deploy-audit command
+ */
+export function registerSlashCommands(app: App): void {
+  app.command(DEPLOY_AUDIT_COMMAND, async ({ command, ack, client, respond }) => {
+    await ack()
+
+    const parsed = parseDeployAuditCommand(command.text)
+    logger.info(`Slack: ${DEPLOY_AUDIT_COMMAND} ${parsed.type} from ${command.user_id}`)
+
+    try {
+      if (parsed.type === 'deviation') {
+        const error = await openDeviationModal(client, command.trigger_id, command.user_id, parsed.deploymentId)
+        if (error) {
+          await respond({ response_type: 'ephemeral', text: error })
+        }
+        return
+      }
+
+      const response = await buildCommandResponse(parsed, command.user_id)
+      await respond({ response_type: 'ephemeral', ...response })
+    } catch (error) {
+      logger.error(`Error handling ${DEPLOY_AUDIT_COMMAND}:`, error)
+      await respond({ response_type: 'ephemeral', text: 'Noe gikk galt. Prøv igjen eller bruk webappen.' })
+    }
+  })
+}
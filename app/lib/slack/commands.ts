@@ -0,0 +1,335 @@
+/**
+ * /deploy-audit slash command
+ *
+ * Pure functions for parsing the command text and building the ephemeral
+ * responses. Handlers are in commands.server.ts.
+ */
+
+import type { ActionsBlockElement, KnownBlock } from '@slack/types'
+import { getFourEyesStatusLabel } from '~/lib/four-eyes-status'
+
+export const DEPLOY_AUDIT_COMMAND = '/deploy-audit'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DeployAuditCommand =
+  | { type: 'help' }
+  | { type: 'status'; app: string }
+  | { type: 'unverified'; team: string | null }
+  | { type: 'show'; query: string }
+  | { type: 'deviation'; deploymentId: number }
+  | { type: 'invalid'; message: string }
+
+export interface CommandAppStatus {
+  app_name: string
+  team_slug: string
+  environment_name: string
+  stats: {
+    total: number
+    with_four_eyes: number
+    without_four_eyes: number
+    pending_verification: number
+    last_deployment: Date | null
+    four_eyes_percentage: number
+  }
+}
+
+export interface CommandAppWithIssues {
+  app_name: string
+  team_slug: string
+  environment_name: string
+  without_four_eyes: number
+  pending_verification: number
+}
+
+export interface CommandDeployment {
+  id: number
+  commit_sha: string | null
+  deployer_username: string | null
+  four_eyes_status: string
+  has_four_eyes: boolean
+  github_pr_number: number | null
+  github_pr_url: string | null
+  github_pr_data: { title?: string } | null
+  title: string | null
+  created_at: Date | string
+  app_name: string
+  team_slug: string
+  environment_name: string
+}
+
+export interface CommandSearchResult {
+  url: string
+  title: string
+  subtitle?: string
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse the text after /deploy-audit. Subcommands are case-insensitive.
+ */
+export function parseDeployAuditCommand(text: string): DeployAuditCommand {
+  const [subcommand = '', ...args] = text.trim().split(/\s+/).filter(Boolean)
+  const arg = args.join(' ')
+
+  switch (subcommand.toLowerCase()) {
+    case '':
+    case 'help':
+    case 'hjelp':
+      return { type: 'help' }
+    case 'status':
+      return arg ? { type: 'status', app: arg } : { type: 'invalid', message: 'Oppgi en applikasjon: `status <app>`' }
+    case 'unverified':
+      return { type: 'unverified', team: arg || null }
+    case 'show':
+      return arg
+        ? { type: 'show', query: arg }
+        : { type: 'invalid', message: 'Oppgi deployment-ID eller commit SHA: `show <id|sha>`' }
+    case 'deviation': {
+      const deploymentId = /^\d+$/.test(arg) ? Number(arg) : 0
+      return deploymentId > 0
+        ? { type: 'deviation', deploymentId }
+        : { type: 'invalid', message: 'Oppgi deployment-ID: `deviation <id>`' }
+    }
+    default:
+      return { type: 'invalid', message: `Ukjent kommando \`${subcommand}\`` }
+  }
+}
+
+// =============================================================================
+// Response Blocks
+// =============================================================================
+
+function deploymentUrl(
+  baseUrl: string,
+  d: { id: number; team_slug: string; environment_name: string; app_name: string },
+) {
+  return `${baseUrl}/team/${d.team_slug}/env/${d.environment_name}/app/${d.app_name}/deployments/${d.id}`
+}
+
+function appUrl(baseUrl: string, a: { team_slug: string; environment_name: string; app_name: string }) {
+  return `${baseUrl}/team/${a.team_slug}/env/${a.environment_name}/app/${a.app_name}`
+}
+
+/**
+ * Help text, optionally preceded by an error message
+ */
+export function buildCommandHelpBlocks(error?: string): KnownBlock[] {
+  const blocks: KnownBlock[] = []
+  if (error) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `❌ ${error}` } })
+  }
+  blocks.push({
+    type: 'section',
+    text: {
+      type: 'mrkdwn',
+      text: [
+        `*${DEPLOY_AUDIT_COMMAND}*`,
+        '`status <app>` – godkjenningsstatus for en applikasjon',
+        '`unverified [team]` – applikasjoner med deployments som mangler godkjenning',
+        '`show <id|sha>` – vis en deployment',
+        '`deviation <id>` – registrer avvik på en deployment',
+      ].join('\n'),
+    },
+  })
+  return blocks
+}
+
+/**
+ * Four-eyes status for the apps matching `status <app>` (one per environment)
+ */
+export function buildAppStatusBlocks(apps: CommandAppStatus[], baseUrl: string): KnownBlock[] {
+  const blocks: KnownBlock[] = []
+
+  for (const app of apps) {
+    const { stats } = app
+    const lastDeployment = stats.last_deployment ? new Date(stats.last_deployment).toLocaleString('nb-NO') : 'Aldri'
+    blocks.push(
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*<${appUrl(baseUrl, app)}|${app.app_name}>* (${app.environment_name}) · ${app.team_slug}`,
+        },
+      },
+      {
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Deployments:*\n${stats.total}` },
+          { type: 'mrkdwn', text: `*Godkjent:*\n${stats.with_four_eyes} (${stats.four_eyes_percentage}%)` },
+          { type: 'mrkdwn', text: `*⚠️ Mangler godkjenning:*\n${stats.without_four_eyes}` },
+          { type: 'mrkdwn', text: `*⏳ Venter verifisering:*\n${stats.pending_verification}` },
+        ],
+      },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `Siste deployment: ${lastDeployment}` }] },
+    )
+  }
+
+  return blocks
+}
+
+/**
+ * Apps with unapproved deployments, with a few sample deployments each
+ */
+export function buildUnverifiedBlocks({
+  scope,
+  apps,
+  issueDeployments,
+  baseUrl,
+}: {
+  /** Team name shown in the heading, or null for all apps */
+  scope: string | null
+  apps: CommandAppWithIssues[]
+  issueDeployments: Map<string, Array<{ id: number; commit_sha: string | null; deployer_username: string | null }>>
+  baseUrl: string
+}): KnownBlock[] {
+  const scopeText = scope ? ` i ${scope}` : ''
+  if (apps.length === 0) {
+    return [
+      { type: 'section', text: { type: 'mrkdwn', text: `✅ Ingen deployments mangler godkjenning${scopeText}.` } },
+    ]
+  }
+
+  const blocks: KnownBlock[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*🔔 Applikasjoner med mangler${scopeText}* (${apps.length})` },
+    },
+  ]
+
+  for (const app of apps) {
+    const issues: string[] = []
+    if (app.without_four_eyes > 0) {
+      issues.push(`⚠️ ${app.without_four_eyes} uten godkjenning`)
+    }
+    if (app.pending_verification > 0) {
+      issues.push(`⏳ ${app.pending_verification} venter verifisering`)
+    }
+
+    const deploymentsUrl = `${appUrl(baseUrl, app)}/deployments?status=not_approved`
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*<${deploymentsUrl}|${app.app_name}>* (${app.environment_name})\n${issues.join('  •  ')}`,
+      },
+    })
+
+    const deployments = issueDeployments.get(`${app.team_slug}/${app.environment_name}/${app.app_name}`)
+    if (deployments && deployments.length > 0) {
+      blocks.push({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: deployments
+              .map(
+                (d) =>
+                  `<${deploymentUrl(baseUrl, { ...app, id: d.id })}|#${d.id}> \`${d.commit_sha?.substring(0, 7) || 'ukjent'}\` · ${d.deployer_username || 'ukjent'}`,
+              )
+              .join('\n'),
+          },
+        ],
+      })
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * A single deployment with approve and deviation actions
+ */
+export function buildCommandDeploymentBlocks(deployment: CommandDeployment, baseUrl: string): KnownBlock[] {
+  const detailsUrl = deploymentUrl(baseUrl, deployment)
+  const shortSha = deployment.commit_sha?.substring(0, 7) || 'ukjent'
+  const prTitle = deployment.github_pr_data?.title || deployment.title
+  const statusEmoji = deployment.has_four_eyes ? '✅' : '⚠️'
+
+  const blocks: KnownBlock[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*<${detailsUrl}|Deployment #${deployment.id}>* · ${deployment.app_name} (${deployment.environment_name})${prTitle ? `\n_${prTitle}_` : ''}`,
+      },
+    },
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `*Commit:*\n\`${shortSha}\`` },
+        { type: 'mrkdwn', text: `*Status:*\n${statusEmoji} ${getFourEyesStatusLabel(deployment.four_eyes_status)}` },
+        { type: 'mrkdwn', text: `*Deployer:*\n${deployment.deployer_username || 'ukjent'}` },
+        {
+          type: 'mrkdwn',
+          text: deployment.github_pr_number
+            ? `*PR:*\n<${deployment.github_pr_url}|#${deployment.github_pr_number}>`
+            : '*PR:*\nIngen',
+        },
+      ],
+    },
+  ]
+
+  const elements: ActionsBlockElement[] = [
+    {
+      type: 'button',
+      text: { type: 'plain_text', text: '🔍 Se deployment', emoji: true },
+      action_id: 'view_details',
+      url: detailsUrl,
+    },
+  ]
+
+  if (!deployment.has_four_eyes) {
+    elements.push({
+      type: 'button',
+      text: { type: 'plain_text', text: '✅ Godkjenn', emoji: true },
+      action_id: 'approve_deployment',
+      value: JSON.stringify({ deploymentId: deployment.id, appName: deployment.app_name }),
+      confirm: {
+        title: { type: 'plain_text', text: 'Godkjenn deployment?' },
+        text: {
+          type: 'mrkdwn',
+          text: `Bekreft at du har gjennomgått endringene i *${deployment.app_name}* og at fire-øyne-prinsippet er oppfylt.`,
+        },
+        confirm: { type: 'plain_text', text: 'Godkjenn' },
+        deny: { type: 'plain_text', text: 'Avbryt' },
+      },
+    })
+  }
+
+  elements.push({
+    type: 'button',
+    text: { type: 'plain_text', text: '📝 Registrer avvik', emoji: true },
+    action_id: 'open_deviation_modal',
+    value: JSON.stringify({ deploymentId: deployment.id }),
+  })
+
+  blocks.push({ type: 'actions', elements })
+  return blocks
+}
+
+/**
+ * Several search hits for `show <sha>`
+ */
+export function buildSearchResultBlocks(query: string, results: CommandSearchResult[], baseUrl: string): KnownBlock[] {
+  if (results.length === 0) {
+    return [{ type: 'section', text: { type: 'mrkdwn', text: `Fant ingen deployments for \`${query}\`.` } }]
+  }
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${results.length} deployments matcher \`${query}\`*\n${results
+          .map((r) => `<${baseUrl}${r.url}|${r.title}>${r.subtitle ? ` · ${r.subtitle}` : ''}`)
+          .join('\n')}`,
+      },
+    },
+  ]
+}
@@ -0,0 +1,311 @@
+/**
+ * Slack modals for deviations
+ *
+ * Pure builders and parsers for the modals used to register a deviation
+ * (/deploy-audit deviation) and to follow one up from the deviation message.
+ * Handlers are in deviations.server.ts.
+ */
+
+import type { KnownBlock, ModalView, PlainTextOption } from '@slack/types'
+import {
+  DEVIATION_FOLLOW_UP_ROLE_LABELS,
+  DEVIATION_INTENT_LABELS,
+  DEVIATION_SEVERITY_LABELS,
+  DEVIATION_STATUS_LABELS,
+  DEVIATION_STATUS_TRANSITIONS,
+  type DeviationFollowUpRole,
+  type DeviationIntent,
+  type DeviationSeverity,
+  type DeviationStatus,
+} from '~/lib/deviation-constants'
+
+export const DEVIATION_MODAL_CALLBACK_ID = 'register_deviation_modal'
+export const DEVIATION_FOLLOW_UP_MODAL_CALLBACK_ID = 'follow_up_deviation_modal'
+export const DEVIATION_RESOLVE_MODAL_CALLBACK_ID = 'resolve_deviation_modal'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DeviationClassification {
+  breachType?: string
+  intent?: DeviationIntent
+  severity?: DeviationSeverity
+  followUpRole?: DeviationFollowUpRole
+}
+
+export interface DeviationModalValues extends DeviationClassification {
+  reason: string
+}
+
+export interface DeviationFollowUpValues extends DeviationClassification {
+  status?: DeviationStatus
+}
+
+/** Carried in private_metadata so the submission can re-render the deviation message */
+export interface DeviationModalMetadata {
+  deviationId: number
+  channelId?: string
+  messageTs?: string
+}
+
+/** The deviation fields shown in the follow-up modals */
+export interface DeviationModalDeviation {
+  id: number
+  reason: string
+  breach_type: string | null
+  intent: DeviationIntent | null
+  severity: DeviationSeverity | null
+  follow_up_role: DeviationFollowUpRole | null
+  status: DeviationStatus
+}
+
+/** view.state.values as sent with a view_submission */
+export type ViewStateValues = Record<
+  string,
+  Record<string, { value?: string | null; selected_option?: { value: string } | null }>
+>
+
+// =============================================================================
+// Builders
+// =============================================================================
+
+function toOptions<T extends string>(labels: Record<T, string>, values?: T[]): PlainTextOption[] {
+  return (Object.entries(labels) as Array<[T, string]>)
+    .filter(([value]) => !values || values.includes(value))
+    .map(([value, text]) => ({
+      text: { type: 'plain_text', text },
+      value,
+    }))
+}
+
+function findOption(options: PlainTextOption[], value: string | null | undefined): PlainTextOption | undefined {
+  return value ? options.find((o) => o.value === value) : undefined
+}
+
+/**
+ * Breach type, intent, severity and follow-up role, prefilled from `initial`
+ */
+function buildClassificationBlocks(initial: {
+  breachType?: string | null
+  intent?: DeviationIntent | null
+  severity?: DeviationSeverity | null
+  followUpRole?: DeviationFollowUpRole | null
+}): KnownBlock[] {
+  const intentOptions = toOptions(DEVIATION_INTENT_LABELS)
+  const severityOptions = toOptions(DEVIATION_SEVERITY_LABELS)
+  const followUpRoleOptions = toOptions(DEVIATION_FOLLOW_UP_ROLE_LABELS)
+
+  return [
+    {
+      type: 'input',
+      block_id: 'breach_type',
+      optional: true,
+      label: { type: 'plain_text', text: 'Type brudd' },
+      hint: { type: 'plain_text', text: 'Hvilken lov, forskrift, rutine eller regel er brutt?' },
+      element: { type: 'plain_text_input', action_id: 'value', initial_value: initial.breachType ?? undefined },
+    },
+    {
+      type: 'input',
+      block_id: 'intent',
+      label: { type: 'plain_text', text: 'Intensjon' },
+      element: {
+        type: 'radio_buttons',
+        action_id: 'value',
+        options: intentOptions,
+        initial_option: findOption(intentOptions, initial.intent),
+      },
+    },
+    {
+      type: 'input',
+      block_id: 'severity',
+      label: { type: 'plain_text', text: 'Alvorlighetsgrad' },
+      element: {
+        type: 'radio_buttons',
+        action_id: 'value',
+        options: severityOptions,
+        initial_option: findOption(severityOptions, initial.severity),
+      },
+    },
+    {
+      type: 'input',
+      block_id: 'follow_up_role',
+      optional: true,
+      label: { type: 'plain_text', text: 'Oppfølgingsansvarlig' },
+      element: {
+        type: 'static_select',
+        action_id: 'value',
+        placeholder: { type: 'plain_text', text: 'Velg rolle' },
+        options: followUpRoleOptions,
+        initial_option: findOption(followUpRoleOptions, initial.followUpRole),
+      },
+    },
+  ]
+}
+
+/**
+ * Modal with the same fields as the deviation form on the deployment page
+ */
+export function buildDeviationModal(deployment: {
+  id: number
+  app_name: string
+  environment_name: string
+  commit_sha: string | null
+}): ModalView {
+  const [breachType, ...selects] = buildClassificationBlocks({ intent: 'unknown', severity: 'medium' })
+
+  return {
+    type: 'modal',
+    callback_id: DEVIATION_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify({ deploymentId: deployment.id }),
+    title: { type: 'plain_text', text: 'Registrer avvik' },
+    submit: { type: 'plain_text', text: 'Registrer' },
+    close: { type: 'plain_text', text: 'Avbryt' },
+    blocks: [
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Deployment #${deployment.id} · ${deployment.app_name} (${deployment.environment_name}) · \`${deployment.commit_sha?.substring(0, 7) || 'ukjent'}\``,
+          },
+        ],
+      },
+      breachType,
+      {
+        type: 'input',
+        block_id: 'reason',
+        label: { type: 'plain_text', text: 'Beskrivelse' },
+        hint: { type: 'plain_text', text: 'Beskriv avviket, hva som skjedde og konsekvensene' },
+        element: { type: 'plain_text_input', action_id: 'value', multiline: true },
+      },
+      ...selects,
+    ],
+  }
+}
+
+function buildDeviationContext(deviation: DeviationModalDeviation): KnownBlock {
+  const reason = deviation.reason.length > 200 ? `${deviation.reason.substring(0, 200)}...` : deviation.reason
+  return {
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: `*Avvik #${deviation.id}:* ${reason}` }],
+  }
+}
+
+/**
+ * Modal for following up a deviation: status and classification.
+ * Closing is done in the resolve modal, since it requires a resolution note.
+ */
+export function buildDeviationFollowUpModal(
+  deviation: DeviationModalDeviation,
+  metadata: DeviationModalMetadata,
+): ModalView {
+  const statusOptions = toOptions(DEVIATION_STATUS_LABELS, [
+    deviation.status,
+    ...DEVIATION_STATUS_TRANSITIONS[deviation.status].filter((s) => s !== 'closed'),
+  ])
+
+  return {
+    type: 'modal',
+    callback_id: DEVIATION_FOLLOW_UP_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify(metadata),
+    title: { type: 'plain_text', text: 'Følg opp avvik' },
+    submit: { type: 'plain_text', text: 'Lagre' },
+    close: { type: 'plain_text', text: 'Avbryt' },
+    blocks: [
+      buildDeviationContext(deviation),
+      {
+        type: 'input',
+        block_id: 'status',
+        label: { type: 'plain_text', text: 'Status' },
+        element: {
+          type: 'static_select',
+          action_id: 'value',
+          options: statusOptions,
+          initial_option: findOption(statusOptions, deviation.status),
+        },
+      },
+      ...buildClassificationBlocks({
+        breachType: deviation.breach_type,
+        intent: deviation.intent,
+        severity: deviation.severity,
+        followUpRole: deviation.follow_up_role,
+      }),
+    ],
+  }
+}
+
+/**
+ * Modal for closing a deviation with a description of the follow-up
+ */
+export function buildDeviationResolveModal(
+  deviation: DeviationModalDeviation,
+  metadata: DeviationModalMetadata,
+): ModalView {
+  return {
+    type: 'modal',
+    callback_id: DEVIATION_RESOLVE_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify(metadata),
+    title: { type: 'plain_text', text: 'Lukk avvik' },
+    submit: { type: 'plain_text', text: 'Lukk avvik' },
+    close: { type: 'plain_text', text: 'Avbryt' },
+    blocks: [
+      buildDeviationContext(deviation),
+      {
+        type: 'input',
+        block_id: 'resolution_note',
+        label: { type: 'plain_text', text: 'Oppfølging' },
+        hint: { type: 'plain_text', text: 'Beskriv hvordan avviket er fulgt opp' },
+        element: { type: 'plain_text_input', action_id: 'value', multiline: true },
+      },
+    ],
+  }
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function textValue(values: ViewStateValues, blockId: string): string | undefined {
+  return values[blockId]?.value?.value?.trim() || undefined
+}
+
+/** Select values are checked against the known options */
+function selectedValue<T extends string>(
+  values: ViewStateValues,
+  blockId: string,
+  labels: Record<T, string>,
+): T | undefined {
+  const value = values[blockId]?.value?.selected_option?.value
+  return value && value in labels ? (value as T) : undefined
+}
+
+function parseClassification(values: ViewStateValues): DeviationClassification {
+  return {
+    breachType: textValue(values, 'breach_type'),
+    intent: selectedValue(values, 'intent', DEVIATION_INTENT_LABELS),
+    severity: selectedValue(values, 'severity', DEVIATION_SEVERITY_LABELS),
+    followUpRole: selectedValue(values, 'follow_up_role', DEVIATION_FOLLOW_UP_ROLE_LABELS),
+  }
+}
+
+/**
+ * Read the submitted registration modal
+ */
+export function parseDeviationModalValues(values: ViewStateValues): DeviationModalValues {
+  return { reason: textValue(values, 'reason') ?? '', ...parseClassification(values) }
+}
+
+/**
+ * Read the submitted follow-up modal
+ */
+export function parseDeviationFollowUpValues(values: ViewStateValues): DeviationFollowUpValues {
+  return { status: selectedValue(values, 'status', DEVIATION_STATUS_LABELS), ...parseClassification(values) }
+}
+
+/**
+ * Read the resolution note from the submitted resolve modal
+ */
+export function parseDeviationResolveValues(values: ViewStateValues): { resolutionNote: string } {
+  return { resolutionNote: textValue(values, 'resolution_note') ?? '' }
+}
@@ -0,0 +1,321 @@
+/**
+ * Slack handlers for deviations
+ *
+ * - Registering a deviation from /deploy-audit (modal)
+ * - Following up a deviation from its message in the deviation channel:
+ *   status and classification, and closing with a resolution note
+ *
+ * The Slack user must be mapped to a NAV ident, which is recorded as the
+ * user making the change, and have access to the deployment's app (see access.server.ts).
+ * After an update the original message is re-rendered.
+ */
+
+import type { App, BlockAction, ViewSubmitAction } from '@slack/bolt'
+import { getDeploymentById } from '~/db/deployments.server'
+import {
+  DeviationTransitionError,
+  getDeviationById,
+  resolveDeviation,
+  updateDeviationClassification,
+  updateDeviationStatus,
+} from '~/db/deviations.server'
+import { canAccessTeam } from '~/lib/authorization.server'
+import { getDeviationNotification, registerDeviation } from '~/lib/deviation-registration.server'
+import { logger } from '~/lib/logger.server'
+import { queueDeviationNotifications } from '~/lib/personal-notifications.server'
+import { canAccessDeployment, getSlackUserAccess, NO_ACCESS_MESSAGE } from './access.server'
+import { buildDeviationBlocks } from './blocks'
+import {
+  buildDeviationFollowUpModal,
+  buildDeviationModal,
+  buildDeviationResolveModal,
+  DEVIATION_FOLLOW_UP_MODAL_CALLBACK_ID,
+  DEVIATION_MODAL_CALLBACK_ID,
+  DEVIATION_RESOLVE_MODAL_CALLBACK_ID,
+  type DeviationModalMetadata,
+  parseDeviationFollowUpValues,
+  parseDeviationModalValues,
+  parseDeviationResolveValues,
+  type ViewStateValues,
+} from './deviation-modals'
+
+/**
+ * Open the registration modal. Returns an error message for the user if it cannot be opened.
+ */
+export async function openDeviationModal(
+  client: App['client'],
+  triggerId: string,
+  slackUserId: string,
+  deploymentId: number,
+): Promise<string | null> {
+  const access = await getSlackUserAccess(slackUserId)
+  if ('error' in access) {
+    return access.error
+  }
+
+  const deployment = await getDeploymentById(deploymentId)
+  if (!deployment) {
+    return `Fant ikke deployment #${deploymentId}.`
+  }
+  if (!(await canAccessTeam(access.identity, deployment.team_slug, 'read'))) {
+    return NO_ACCESS_MESSAGE
+  }
+
+  await client.views.open({ trigger_id: triggerId, view: buildDeviationModal(deployment) })
+  return null
+}
+
+/**
+ * Re-render the deviation message the modal was opened from
+ */
+async function updateDeviationMessage(client: App['client'], metadata: DeviationModalMetadata): Promise<void> {
+  if (!metadata.channelId || !metadata.messageTs) return
+
+  const notification = await getDeviationNotification(metadata.deviationId)
+  if (!notification) return
+
+  await client.chat.update({
+    channel: metadata.channelId,
+    ts: metadata.messageTs,
+    blocks: buildDeviationBlocks(notification),
+    text: `⚠️ Avvik: ${notification.appName} (${notification.environmentName})`,
+  })
+}
+
+/**
+ * Open a follow-up modal from a button on the deviation message
+ */
+async function openFollowUpModal(
+  body: BlockAction,
+  client: App['client'],
+  action: unknown,
+  build: typeof buildDeviationFollowUpModal,
+): Promise<void> {
+  const replyEphemeral = async (text: string) => {
+    if (body.channel?.id) {
+      await client.chat.postEphemeral({ channel: body.channel.id, user: body.user.id, text })
+    }
+  }
+
+  const access = await getSlackUserAccess(body.user.id)
+  if ('error' in access) {
+    await replyEphemeral(access.error)
+    return
+  }
+
+  const { deviationId } = JSON.parse((action as { value: string }).value)
+  const deviation = await getDeviationById(Number(deviationId))
+  if (!deviation) {
+    await replyEphemeral('Avviket finnes ikke lenger.')
+    return
+  }
+  if (!(await canAccessDeployment(access.identity, deviation.deployment_id))) {
+    await replyEphemeral(NO_ACCESS_MESSAGE)
+    return
+  }
+  if (deviation.status === 'closed') {
+    await replyEphemeral('Avviket er allerede lukket.')
+    return
+  }
+
+  await client.views.open({
+    trigger_id: body.trigger_id,
+    view: build(deviation, { deviationId: deviation.id, channelId: body.channel?.id, messageTs: body.message?.ts }),
+  })
+}
+
+/**
+ * Register deviation actions and modal submissions
+ */
+export function registerDeviationHandlers(app: App): void {
+  // "Registrer avvik" on a deployment shown by /deploy-audit
+  app.action<BlockAction>('open_deviation_modal', async ({ ack, body, client, action }) => {
+    await ack()
+
+    try {
+      const value = JSON.parse((action as { value: string }).value)
+      const error = await openDeviationModal(client, body.trigger_id, body.user.id, Number(value.deploymentId))
+      if (error && body.channel?.id) {
+        await client.chat.postEphemeral({ channel: body.channel.id, user: body.user.id, text: error })
+      }
+    } catch (error) {
+      logger.error('Error opening deviation modal:', error)
+    }
+  })
+
+  app.action<BlockAction>('edit_deviation', async ({ ack, body, client, action }) => {
+    await ack()
+
+    try {
+      await openFollowUpModal(body, client, action, buildDeviationFollowUpModal)
+    } catch (error) {
+      logger.error('Error opening deviation follow-up modal:', error)
+    }
+  })
+
+  app.action<BlockAction>('resolve_deviation', async ({ ack, body, client, action }) => {
+    await ack()
+
+    try {
+      await openFollowUpModal(body, client, action, buildDeviationResolveModal)
+    } catch (error) {
+      logger.error('Error opening deviation resolve modal:', error)
+    }
+  })
+
+  app.view<ViewSubmitAction>(DEVIATION_MODAL_CALLBACK_ID, async ({ ack, body, view, client }) => {
+    const values = parseDeviationModalValues(view.state.values as ViewStateValues)
+    if (!values.reason) {
+      await ack({ response_action: 'errors', errors: { reason: 'Beskrivelse av avvik er påkrevd' } })
+      return
+    }
+
+    const userId = body.user.id
+    const access = await getSlackUserAccess(userId)
+    if ('error' in access) {
+      await ack({ response_action: 'errors', errors: { reason: access.error } })
+      return
+    }
+
+    const { deploymentId } = JSON.parse(view.private_metadata)
+    if (!(await canAccessDeployment(access.identity, Number(deploymentId)))) {
+      await ack({ response_action: 'errors', errors: { reason: NO_ACCESS_MESSAGE } })
+      return
+    }
+
+    await ack()
+
+    try {
+      const deviation = await registerDeviation({
+        deploymentId: Number(deploymentId),
+        ...values,
+        registeredBy: access.navIdent,
+        registeredByName: access.displayName || undefined,
+      })
+
+      logger.info(`Slack: Deviation registered on deployment ${deploymentId} by ${access.navIdent} (${userId})`)
+      await client.chat.postMessage({
+        channel: userId,
+        text: deviation
+          ? `📝 Avvik registrert på deployment #${deploymentId}.`
+          : `Fant ikke deployment #${deploymentId}. Avviket ble ikke registrert.`,
+      })
+    } catch (error) {
+      logger.error('Error registering deviation from Slack:', error)
+      await client.chat
+        .postMessage({ channel: userId, text: 'Kunne ikke registrere avvik. Prøv igjen eller bruk webappen.' })
+        .catch(() => {})
+    }
+  })
+
+  // Status and classification. Errors are shown in the modal, so the update runs before ack.
+  app.view<ViewSubmitAction>(DEVIATION_FOLLOW_UP_MODAL_CALLBACK_ID, async ({ ack, body, view, client }) => {
+    const metadata: DeviationModalMetadata = JSON.parse(view.private_metadata)
+    const values = parseDeviationFollowUpValues(view.state.values as ViewStateValues)
+
+    const access = await getSlackUserAccess(body.user.id)
+    if ('error' in access) {
+      await ack({ response_action: 'errors', errors: { status: access.error } })
+      return
+    }
+
+    try {
+      const current = await getDeviationById(metadata.deviationId)
+      if (!current) {
+        await ack({ response_action: 'errors', errors: { status: 'Avviket finnes ikke lenger' } })
+        return
+      }
+      if (!(await canAccessDeployment(access.identity, current.deployment_id))) {
+        await ack({ response_action: 'errors', errors: { status: NO_ACCESS_MESSAGE } })
+        return
+      }
+
+      if (values.status && values.status !== current.status) {
+        const updated = await updateDeviationStatus({
+          id: current.id,
+          status: values.status,
+          changed_by: access.navIdent,
+          changed_by_name: access.displayName || undefined,
+        })
+        if (updated) await queueDeviationNotifications(updated, 'deviation_status_changed')
+      }
+      await updateDeviationClassification({
+        id: current.id,
+        breach_type: values.breachType,
+        intent: values.intent,
+        severity: values.severity,
+        follow_up_role: values.followUpRole,
+      })
+    } catch (error) {
+      if (error instanceof DeviationTransitionError) {
+        await ack({ response_action: 'errors', errors: { status: 'Statusendringen er ikke tillatt' } })
+        return
+      }
+      logger.error('Error updating deviation from Slack:', error)
+      await ack({ response_action: 'errors', errors: { status: 'Kunne ikke oppdatere avvik. Prøv igjen.' } })
+      return
+    }
+
+    await ack()
+    logger.info(`Slack: Deviation ${metadata.deviationId} updated by ${access.navIdent} (${body.user.id})`)
+    await updateDeviationMessage(client, metadata).catch((error) =>
+      logger.error('Failed to update deviation Slack message:', error),
+    )
+  })
+
+  app.view<ViewSubmitAction>(DEVIATION_RESOLVE_MODAL_CALLBACK_ID, async ({ ack, body, view, client }) => {
+    const metadata: DeviationModalMetadata = JSON.parse(view.private_metadata)
+    const { resolutionNote } = parseDeviationResolveValues(view.state.values as ViewStateValues)
+    if (!resolutionNote) {
+      await ack({
+        response_action: 'errors',
+        errors: { resolution_note: 'Beskriv hvordan avviket er fulgt opp før det lukkes' },
+      })
+      return
+    }
+
+    const access = await getSlackUserAccess(body.user.id)
+    if ('error' in access) {
+      await ack({ response_action: 'errors', errors: { resolution_note: access.error } })
+      return
+    }
+
+    try {
+      const current = await getDeviationById(metadata.deviationId)
+      if (!current) {
+        await ack({ response_action: 'errors', errors: { resolution_note: 'Avviket finnes ikke lenger' } })
+        return
+      }
+      if (!(await canAccessDeployment(access.identity, current.deployment_id))) {
+        await ack({ response_action: 'errors', errors: { resolution_note: NO_ACCESS_MESSAGE } })
+        return
+      }
+
+      const resolved = await resolveDeviation({
+        id: metadata.deviationId,
+        resolved_by: access.navIdent,
+        resolved_by_name: access.displayName || undefined,
+        resolution_note: resolutionNote,
+      })
+      if (!resolved) {
+        await ack({ response_action: 'errors', errors: { resolution_note: 'Avviket finnes ikke lenger' } })
+        return
+      }
+      await queueDeviationNotifications(resolved, 'deviation_status_changed')
+    } catch (error) {
+      if (error instanceof DeviationTransitionError) {
+        await ack({ response_action: 'errors', errors: { resolution_note: 'Avviket er allerede lukket' } })
+        return
+      }
+      logger.error('Error resolving deviation from Slack:', error)
+      await ack({ response_action: 'errors', errors: { resolution_note: 'Kunne ikke lukke avvik. Prøv igjen.' } })
+      return
+    }
+
+    await ack()
+    logger.info(`Slack: Deviation ${metadata.deviationId} closed by ${access.navIdent} (${body.user.id})`)
+    await updateDeviationMessage(client, metadata).catch((error) =>
+      logger.error('Failed to update deviation Slack message:', error),
+    )
+  })
+}
@@ -1,3 +1,5 @@
 export * from './block-kit-url'
 export * from './blocks'
 export * from './client.server'
+export * from './commands'
+export * from './deviation-modals'
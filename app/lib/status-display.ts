@@ -30,6 +30,12 @@ export function getFourEyesStatus(deployment: any): {
         variant: 'success',
         description: 'Samme commit som forrige deployment.',
       }
+    case 'rollback':
+      return {
+        text: 'Rollback',
+        variant: 'success',
+        description: 'Rollback til en commit som ble verifisert da den ble deployet tidligere.',
+      }
     case 'unverified_commits':
       return {
         text: 'Ikke-verifiserte commits',
@@ -44,6 +50,13 @@ export function getFourEyesStatus(deployment: any): {
         description:
           'PR var godkjent, men det ble merget inn commits fra main som ikke har godkjenning. Se detaljer under.',
       }
+    case 'missing_required_tests':
+      return {
+        text: 'Mangler påkrevde tester',
+        variant: 'error',
+        description:
+          'PR-en er godkjent, men testene som kreves for denne appen ble ikke gjennomført med suksess. Se sjekkene under.',
+      }
     case 'legacy':
     case 'legacy_pending':
       return {
@@ -0,0 +1,101 @@
+import { createBranchProtectionAlert } from '~/db/alerts.server'
+import {
+  type BranchProtectionTarget,
+  claimBranchProtectionCheck,
+  getAppIdsForRepository,
+  getDueBranchProtectionTargetsForApp,
+  getLatestBranchProtectionSnapshot,
+  markBranchProtectionSnapshotChecked,
+  saveBranchProtectionSnapshot,
+} from '~/db/branch-protection.server'
+import { branchProtectionRulesEqual, findBranchProtectionWeakenings } from '~/lib/branch-protection'
+import { getBranchProtectionRules } from '~/lib/github'
+import { logger } from '~/lib/logger.server'
+import { withSyncLock } from './with-sync-lock.server'
+
+// Rules rarely change - checking a few times a day is enough for the audit trail
+const SNAPSHOT_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+/**
+ * Snapshot the default-branch protection of an app's repositories with distributed locking.
+ *
+ * Runs every sync cycle, so the lock (a sync_jobs row) is only taken when a repository is due.
+ * Each repository is then claimed before it is checked, since other apps can use the same one.
+ */
+export async function snapshotBranchProtectionWithLock(
+  monitoredAppId: number,
+): Promise<{ success: boolean; result?: { checked: number; changed: number; alerts: number }; locked?: boolean }> {
+  const due = await getDueBranchProtectionTargetsForApp(monitoredAppId, SNAPSHOT_INTERVAL_MS)
+  if (due.length === 0) {
+    return { success: true, result: { checked: 0, changed: 0, alerts: 0 } }
+  }
+
+  return withSyncLock(
+    'branch_protection_sync',
+    monitoredAppId,
+    {
+      startMessage: 'Starter snapshot av branch protection',
+      startContext: { repositories: due.map((t) => `${t.owner}/${t.repo}`) },
+      resultMessage: 'Snapshot av branch protection fullført',
+      buildResultContext: (r) => ({ checked: r.checked, changed: r.changed, alerts: r.alerts }),
+    },
+    () => snapshotBranchProtection(due),
+  )
+}
+
+async function snapshotBranchProtection(
+  targets: BranchProtectionTarget[],
+): Promise<{ checked: number; changed: number; alerts: number }> {
+  let checked = 0
+  let changed = 0
+  let alerts = 0
+  for (const target of targets) {
+    if (!(await claimBranchProtectionCheck(target, SNAPSHOT_INTERVAL_MS))) continue
+
+    const latest = await getLatestBranchProtectionSnapshot(target.owner, target.repo, target.branch)
+    const rules = await getBranchProtectionRules(target.owner, target.repo, target.branch)
+    if (!rules) continue
+    checked++
+
+    if (latest && branchProtectionRulesEqual(latest.data, rules)) {
+      await markBranchProtectionSnapshotChecked(latest.id)
+      continue
+    }
+
+    await saveBranchProtectionSnapshot(target.owner, target.repo, target.branch, rules)
+    changed++
+
+    if (latest) {
+      alerts += await alertOnWeakening(target, findBranchProtectionWeakenings(latest.data, rules))
+    }
+  }
+
+  return { checked, changed, alerts }
+}
+
+/**
+ * Alert every app using the repository - the snapshot is shared, so later syncs
+ * for the other apps will not see the change
+ */
+async function alertOnWeakening(
+  target: BranchProtectionTarget,
+  weakenings: ReturnType<typeof findBranchProtectionWeakenings>,
+): Promise<number> {
+  if (weakenings.length === 0) return 0
+
+  logger.warn(
+    `🔓 Branch protection weakened for ${target.owner}/${target.repo}@${target.branch}: ${weakenings.map((w) => w.type).join(', ')}`,
+  )
+
+  const appIds = await getAppIdsForRepository(target.owner, target.repo)
+  for (const appId of appIds) {
+    await createBranchProtectionAlert({
+      monitoredApplicationId: appId,
+      githubOwner: target.owner,
+      githubRepoName: target.repo,
+      branch: target.branch,
+      weakenings,
+    })
+  }
+  return appIds.length
+}
@@ -1,4 +1,5 @@
-import { type DeploymentFilters, getAllDeployments, updateDeploymentFourEyes } from '~/db/deployments.server'
+import { type DeploymentFilters, getAllDeployments } from '~/db/deployments.server'
+import { updateDeploymentStatus } from '~/lib/deployment-status.server'
 import { logger } from '~/lib/logger.server'
 import { runVerification } from '~/lib/verification'
 
@@ -59,7 +60,7 @@ export async function verifyDeploymentsFourEyes(filters?: DeploymentFilters & {
         logger.info(
           `⚠️  Invalid commit SHA (ref instead of SHA): ${deployment.commit_sha} - marking as legacy for manual lookup`,
         )
-        await updateDeploymentFourEyes(
+        await updateDeploymentStatus(
           deployment.id,
           {
             hasFourEyes: false,
@@ -0,0 +1,86 @@
+import { getMonitoredAppIdsForRepository } from '~/db/application-repositories.server'
+import { invalidateCommitSnapshots, invalidatePrSnapshots } from '~/db/github-data.server'
+import { extractWebhookTargets, type SupportedWebhookEvent, type WebhookPayload } from '~/lib/github/webhook.server'
+import { logger } from '~/lib/logger.server'
+import { queueReviewRequestNotification } from '~/lib/personal-notifications.server'
+import { verifyDeploymentsWithLock } from './scheduler.server'
+
+const VERIFY_LIMIT_PER_APP = 20 // Same limit as one periodic sync cycle
+
+export interface GitHubWebhookResult {
+  invalidatedPrSnapshots: number
+  invalidatedCommitSnapshots: number
+  monitoredAppIds: number[]
+}
+
+/**
+ * Handle a verified GitHub webhook event.
+ * Invalidates cached PR/commit snapshots for the event and returns the
+ * monitored apps whose deployments should be re-verified. Review requests in
+ * monitored repositories are queued as personal notifications.
+ */
+export async function processGitHubWebhook(
+  event: SupportedWebhookEvent,
+  payload: WebhookPayload,
+): Promise<GitHubWebhookResult> {
+  const targets = extractWebhookTargets(event, payload)
+  if (!targets) {
+    return { invalidatedPrSnapshots: 0, invalidatedCommitSnapshots: 0, monitoredAppIds: [] }
+  }
+
+  const { owner, repo, prNumbers, commitShas } = targets
+
+  let invalidatedPrSnapshots = 0
+  for (const prNumber of prNumbers) {
+    invalidatedPrSnapshots += await invalidatePrSnapshots(owner, repo, prNumber)
+  }
+  const invalidatedCommitSnapshots = await invalidateCommitSnapshots(owner, repo, commitShas)
+
+  const monitoredAppIds = await getMonitoredAppIdsForRepository(owner, repo)
+
+  // Review requests are only notified for repositories of monitored apps
+  const pr = payload.pull_request
+  const reviewer = payload.requested_reviewer
+  if (
+    event === 'pull_request' &&
+    payload.action === 'review_requested' &&
+    pr &&
+    reviewer &&
+    monitoredAppIds.length > 0
+  ) {
+    await queueReviewRequestNotification({
+      reviewerUsername: reviewer.login,
+      repository: `${owner}/${repo}`,
+      prNumber: pr.number,
+      prTitle: pr.title || '',
+      prUrl: pr.html_url || `https://github.com/${owner}/${repo}/pull/${pr.number}`,
+    })
+  }
+
+  logger.info(
+    `🪝 GitHub ${event} for ${owner}/${repo}: invalidated ${invalidatedPrSnapshots} PR and ${invalidatedCommitSnapshots} commit snapshots, ${monitoredAppIds.length} apps affected`,
+  )
+
+  return { invalidatedPrSnapshots, invalidatedCommitSnapshots, monitoredAppIds }
+}
+
+/**
+ * Verify pending deployments for the given apps, then send any deploy notifications
+ * that were waiting for a final status. Runs with the same locks as the periodic sync.
+ */
+export async function verifyAppsAfterWebhook(monitoredAppIds: number[]): Promise<void> {
+  for (const appId of monitoredAppIds) {
+    const result = await verifyDeploymentsWithLock(appId, VERIFY_LIMIT_PER_APP)
+    if (result.locked) {
+      logger.info(`⏭️  Verification already running for app ${appId}, skipping webhook trigger`)
+    }
+  }
+
+  try {
+    const baseUrl = process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
+    const { sendPendingDeployNotifications } = await import('~/lib/slack')
+    await sendPendingDeployNotifications(baseUrl)
+  } catch (error) {
+    logger.error('❌ Failed to send deploy notifications after webhook:', error)
+  }
+}
@@ -1,6 +1,8 @@
 // Public API for sync module
 
+export { snapshotBranchProtectionWithLock } from './branch-protection-job.server'
 export { verifyDeploymentsFourEyes, verifySingleDeployment } from './github-verify.server'
+export { processGitHubWebhook, verifyAppsAfterWebhook } from './github-webhook.server'
 export { cacheCheckLogsWithLock } from './log-cache-job.server'
 export { syncDeploymentsFromNais, syncNewDeploymentsFromNais } from './nais-sync.server'
 export { startPeriodicSync, verifyDeploymentsWithLock } from './scheduler.server'
@@ -4,6 +4,7 @@ import {
   getRepositoriesByAppId,
   upsertApplicationRepository,
 } from '~/db/application-repositories.server'
+import { classifyDeploymentChanges } from '~/db/deployments/resource-changes.server'
 import {
   type CreateDeploymentParams,
   createDeployment,
@@ -13,6 +14,7 @@ import {
 import { getMonitoredApplication } from '~/db/monitored-applications.server'
 import { logger } from '~/lib/logger.server'
 import { fetchApplicationDeployments, fetchNewDeployments } from '~/lib/nais.server'
+import { approveRenamedRepository } from './repository-redirect.server'
 
 /**
  * Step 1: Sync deployments from Nais API to database
@@ -128,6 +130,8 @@ export async function syncDeploymentsFromNais(
           status: 'active',
           approvedBy: 'system',
         })
+      } else if (await approveRenamedRepository(monitoredApp.id, detectedOwner, detectedRepoName)) {
+        // Same GitHub repository under a new name - redirect recorded, no approval needed
       } else {
         // Additional repo - require approval
         logger.info(`⏸️  Creating pending approval entry`)
@@ -149,6 +153,11 @@ export async function syncDeploymentsFromNais(
 
         alertsCreated++
       }
+    } else if (
+      repoCheck.repository.status === 'pending_approval' &&
+      (await approveRenamedRepository(monitoredApp.id, detectedOwner, detectedRepoName))
+    ) {
+      // Pending repository turned out to be a rename of the active one - now approved
     } else if (repoCheck.repository.status === 'pending_approval') {
       // Repository exists but pending approval
       logger.warn(`⏸️  Deployment from pending approval repository: ${detectedOwner}/${detectedRepoName}`)
@@ -184,6 +193,8 @@ export async function syncDeploymentsFromNais(
     // else: repository is active - all good, no alert needed
   }
 
+  await classifyDeploymentChanges(monitoredApp.id)
+
   logger.info(`✅ Nais sync complete:`, {
     newCount,
     skippedCount,
@@ -307,7 +318,12 @@ export async function syncNewDeploymentsFromNais(
       (r) => r.github_owner === detectedRepository.owner && r.github_repo_name === detectedRepository.repo,
     )
 
-    if (!matchingRepo) {
+    if (
+      !matchingRepo &&
+      (await approveRenamedRepository(monitoredAppId, detectedRepository.owner, detectedRepository.repo))
+    ) {
+      logger.info(`🔀 Repository renamed: ${detectedRepository.owner}/${detectedRepository.repo}`)
+    } else if (!matchingRepo) {
       // New repository detected - create it (but skip alert for incremental sync)
       await upsertApplicationRepository({
         monitoredAppId,
@@ -319,6 +335,10 @@ export async function syncNewDeploymentsFromNais(
     }
   }
 
+  if (newCount > 0) {
+    await classifyDeploymentChanges(monitoredAppId)
+  }
+
   logger.info(`✅ Incremental sync complete: ${newCount} new, ${alertsCreated} alerts`)
   return { newCount, alertsCreated, stoppedEarly }
 }
@@ -0,0 +1,70 @@
+import {
+  type ApplicationRepository,
+  getRepositoriesByAppId,
+  recordRepositoryRedirect,
+  setRepositoryGitHubId,
+} from '~/db/application-repositories.server'
+import { getRepositoryIdentity } from '~/lib/github'
+import { logger } from '~/lib/logger.server'
+
+/**
+ * The GitHub repository ID of a repository: the stored one, or looked up from GitHub
+ * and stored when the repository is known. Null if GitHub could not answer.
+ */
+async function resolveGitHubId(
+  owner: string,
+  repoName: string,
+  stored?: ApplicationRepository,
+): Promise<string | null> {
+  if (stored?.github_repo_id) return stored.github_repo_id
+
+  const identity = await getRepositoryIdentity(owner, repoName)
+  if (!identity) return null
+
+  const githubRepoId = String(identity.id)
+  if (stored) await setRepositoryGitHubId(stored.id, identity.id)
+  return githubRepoId
+}
+
+/**
+ * Check whether a newly detected repository is an active repository of the app under
+ * a new name (renamed or transferred), by comparing GitHub repository IDs. If so, the
+ * redirect is recorded and the new name approved as active.
+ *
+ * The IDs are stored on the repositories, so a repository that stays pending approval
+ * is only looked up on GitHub once.
+ *
+ * Returns the approved repository, or null if it is not a rename (or GitHub could not
+ * answer) and the normal approval flow should apply.
+ */
+export async function approveRenamedRepository(
+  monitoredAppId: number,
+  detectedOwner: string,
+  detectedRepoName: string,
+): Promise<ApplicationRepository | null> {
+  const repos = await getRepositoriesByAppId(monitoredAppId)
+  const activeRepos = repos.filter((r) => r.status === 'active')
+  if (activeRepos.length === 0) return null
+
+  const detectedRepo = repos.find((r) => r.github_owner === detectedOwner && r.github_repo_name === detectedRepoName)
+  const detectedId = await resolveGitHubId(detectedOwner, detectedRepoName, detectedRepo)
+  if (!detectedId) return null
+
+  for (const active of activeRepos) {
+    const activeId = await resolveGitHubId(active.github_owner, active.github_repo_name, active)
+    if (activeId !== detectedId) continue
+
+    logger.info(
+      `🔀 ${active.github_owner}/${active.github_repo_name} was renamed to ${detectedOwner}/${detectedRepoName} (GitHub repo ID ${detectedId}) - approving automatically`,
+    )
+    return recordRepositoryRedirect({
+      previousRepositoryId: active.id,
+      githubOwner: detectedOwner,
+      githubRepoName: detectedRepoName,
+      githubRepoId: Number(detectedId),
+      approvedBy: 'system',
+    })
+  }
+
+  return null
+}
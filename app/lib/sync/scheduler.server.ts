@@ -1,6 +1,7 @@
 import { getAllMonitoredApplications } from '~/db/monitored-applications.server'
 import { cleanupOldSyncJobs, SYNC_INTERVAL_MS } from '~/db/sync-jobs.server'
 import { logger } from '~/lib/logger.server'
+import { snapshotBranchProtectionWithLock } from './branch-protection-job.server'
 import { verifyDeploymentsFourEyes } from './github-verify.server'
 import { cacheCheckLogsWithLock } from './log-cache-job.server'
 import { syncNewDeploymentsFromNais } from './nais-sync.server'
@@ -117,6 +118,13 @@ async function runPeriodicSync(): Promise<void> {
         cachedLogsCount += cacheResult.result.cached
       }
 
+      // Try snapshotting branch protection (skips repositories checked recently)
+      try {
+        await snapshotBranchProtectionWithLock(app.id)
+      } catch (error) {
+        logger.error(`❌ Branch protection snapshot failed for ${app.app_name}:`, error)
+      }
+
       // Small delay between apps to be nice to APIs
       await new Promise((resolve) => setTimeout(resolve, 1000))
     }
@@ -7,8 +7,9 @@ import { runWithJobContext } from '~/lib/logger.server'
  * Handles: acquire lock → log start → run job → log result → release lock.
  *
  * @param jobType - The sync job type (e.g., 'nais_sync', 'github_verify', 'cache_check_logs')
- * @param monitoredAppId - The app to lock for
+ * @param monitoredAppId - The app to lock for, or null for a global job
  * @param options.timeoutMinutes - Lock timeout in minutes (default: 5)
+ * @param options.cooldownMs - Minimum time between job starts (default: the sync interval)
  * @param options.startMessage - Log message when starting
  * @param options.startContext - Additional context for start log
  * @param options.resultMessage - Log message when complete
@@ -17,9 +18,10 @@ import { runWithJobContext } from '~/lib/logger.server'
  */
 export async function withSyncLock<T>(
   jobType: SyncJobType,
-  monitoredAppId: number,
+  monitoredAppId: number | null,
   options: {
     timeoutMinutes?: number
+    cooldownMs?: number
     startMessage: string
     startContext?: Record<string, unknown>
     resultMessage: string
@@ -27,7 +29,7 @@ export async function withSyncLock<T>(
   },
   fn: () => Promise<T>,
 ): Promise<{ success: boolean; result?: T; locked?: boolean }> {
-  const lockId = await acquireSyncLock(jobType, monitoredAppId, options.timeoutMinutes)
+  const lockId = await acquireSyncLock(jobType, monitoredAppId, options.timeoutMinutes, undefined, options.cooldownMs)
   if (!lockId) {
     return { success: false, locked: true }
   }
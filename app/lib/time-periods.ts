@@ -31,6 +31,14 @@ export const TIME_PERIOD_OPTIONS: TimePeriodOption[] = [
   { value: 'all', label: 'Alle' },
 ]
 
+/**
+ * Parse a time period from a search param, falling back when it is missing or unknown
+ */
+export function parseTimePeriod(value: string | null | undefined, fallback: TimePeriod): TimePeriod {
+  const option = TIME_PERIOD_OPTIONS.find((o) => o.value === value)
+  return option ? option.value : fallback
+}
+
 /**
  * Get the tertial (1, 2, or 3) for a given month (0-11)
  * Tertial 1: Jan-Apr (months 0-3)
@@ -8,7 +8,7 @@
  * Run as a background sync job (reverify_app job type).
  */
 
-import { getImplicitApprovalSettings } from '~/db/app-settings.server'
+import { getImplicitApprovalSettings, getTestRequirementSettings } from '~/db/app-settings.server'
 import { pool } from '~/db/connection.server'
 import {
   getCompareSnapshotForCommit,
@@ -17,8 +17,8 @@ import {
   getPrSnapshotsForDiff,
 } from '~/db/verification-diff.server'
 import { logger } from '~/lib/logger.server'
-import { buildCommitsBetweenFromCache } from './fetch-data.server'
-import type { CompareData, PrCommit, PrMetadata, PrReview, VerificationInput } from './types'
+import { buildCommitsBetweenFromCache, fetchCommitChecks } from './fetch-data.server'
+import type { CompareData, PrChecks, PrCommit, PrMetadata, PrReview, VerificationInput } from './types'
 import { verifyDeployment } from './verify'
 
 interface ComputeDiffsOptions {
@@ -53,6 +53,7 @@ export async function computeVerificationDiffs(
 ): Promise<ComputeDiffsResult> {
   const deployments = await getDeploymentsWithCompareData(monitoredAppId)
   const implicitApprovalSettings = await getImplicitApprovalSettings(monitoredAppId)
+  const testRequirement = await getTestRequirementSettings(monitoredAppId)
 
   const result: ComputeDiffsResult = {
     deploymentsChecked: 0,
@@ -110,6 +111,7 @@ export async function computeVerificationDiffs(
             metadata: snapshotMap.get('metadata') as PrMetadata,
             reviews: snapshotMap.get('reviews') as PrReview[],
             commits: snapshotMap.get('commits') as PrCommit[],
+            checks: (snapshotMap.get('checks') as PrChecks | undefined) ?? null,
           }
         }
       }
@@ -127,6 +129,11 @@ export async function computeVerificationDiffs(
         previousDeployment,
         deployedPr,
         commitsBetween,
+        testRequirement,
+        deployedCommitChecks:
+          testRequirement.level !== 'none'
+            ? await fetchCommitChecks(owner, repo, row.commit_sha, { cacheOnly: true })
+            : undefined,
         dataFreshness: { deployedPrFetchedAt: null, commitsFetchedAt: null, schemaVersion: 1 },
       }
 
@@ -11,28 +11,49 @@
  * - Handles GitHub retention (404/410) gracefully
  */
 
+import {
+  getCodeownersRequirementSettings,
+  getInfrastructureReviewSettings,
+  getTestRequirementSettings,
+} from '~/db/app-settings.server'
 import { findRepositoryForApp } from '~/db/application-repositories.server'
 import { pool } from '~/db/connection.server'
 import {
   getAllLatestPrSnapshots,
   getLatestCommitSnapshot,
   getLatestCompareSnapshot,
+  getLatestPrSnapshot,
   markPrDataUnavailable,
   saveCommitSnapshot,
   saveCompareSnapshot,
+  savePrSnapshot,
   savePrSnapshotsBatch,
 } from '~/db/github-data.server'
 import { heartbeatSyncJob, isSyncJobCancelled, logSyncJobMessage, updateSyncJobProgress } from '~/db/sync-jobs.server'
-import { getCommitsBetween, getDetailedPullRequestInfo, getPullRequestForCommit, isCommitOnBranch } from '~/lib/github'
+import { getCodeownerTeams, parseCodeowners } from '~/lib/codeowners'
+import {
+  getCodeownersFile,
+  getCommitChecks,
+  getCommitsBetween,
+  getDetailedPullRequestInfo,
+  getPullRequestFiles,
+  getPullRequestForCommit,
+  getTeamMembers,
+  isAncestorCommit,
+  isCommitOnBranch,
+} from '~/lib/github'
 import { logger } from '~/lib/logger.server'
 import type { RepositoryStatus } from './types'
 import {
+  type CodeownersSnapshot,
   type CompareData,
   CURRENT_SCHEMA_VERSION,
   type ImplicitApprovalSettings,
   type PrChecks,
+  type PrCodeownersData,
   type PrComment,
   type PrCommit,
+  type PrFile,
   type PrMetadata,
   type PrReview,
   type VerificationInput,
@@ -45,6 +66,8 @@ import {
 export interface FetchOptions {
   forceRefresh?: boolean
   dataTypes?: ('metadata' | 'reviews' | 'commits' | 'comments' | 'checks')[]
+  // Also get changed files and CODEOWNERS for each PR (when the app requires code owner approval)
+  codeowners?: boolean
 }
 
 /**
@@ -67,6 +90,10 @@ export async function fetchVerificationData(
 
   // Get app settings
   const appSettings = await getAppSettings(monitoredAppId)
+  const testRequirement = await getTestRequirementSettings(monitoredAppId)
+  const codeownersRequired = (await getCodeownersRequirementSettings(monitoredAppId)).enabled
+  const prOptions: FetchOptions = { ...options, codeowners: codeownersRequired }
+  const infrastructureReviewRequired = await isInfrastructureReviewRequired(deploymentId, monitoredAppId)
 
   // Check repository status
   const repoCheck = await findRepositoryForApp(monitoredAppId, owner, repo)
@@ -87,7 +114,11 @@ export async function fetchVerificationData(
   )
 
   // Get deployed commit's PR
-  const deployedPr = await fetchDeployedPrData(owner, repo, commitSha, baseBranch, options)
+  const deployedPr = await fetchDeployedPrData(owner, repo, commitSha, baseBranch, prOptions)
+
+  // Required tests are checked on the deployed commit, not on the PR head
+  const deployedCommitChecks =
+    testRequirement.level !== 'none' ? await fetchCommitChecks(owner, repo, commitSha) : undefined
 
   // Get commits between deployments
   let commitsBetween: VerificationInput['commitsBetween'] = []
@@ -100,7 +131,7 @@ export async function fetchVerificationData(
       commitSha,
       baseBranch,
       previousDeployment.createdAt,
-      options,
+      prOptions,
     )
     if (result === null) {
       compareFailed = true
@@ -109,6 +140,27 @@ export async function fetchVerificationData(
     }
   }
 
+  // Different SHAs with no commits between them: check whether this is a rollback
+  let rollback: VerificationInput['rollback']
+  if (
+    previousDeployment &&
+    !compareFailed &&
+    commitsBetween.length === 0 &&
+    commitSha !== previousDeployment.commitSha &&
+    (await isAncestorCommit(owner, repo, commitSha, previousDeployment.commitSha))
+  ) {
+    rollback = {
+      targetDeployment: await getRollbackTargetDeployment(
+        deploymentId,
+        owner,
+        repo,
+        environmentName,
+        commitSha,
+        appSettings.auditStartYear,
+      ),
+    }
+  }
+
   return {
     deploymentId,
     commitSha,
@@ -123,6 +175,11 @@ export async function fetchVerificationData(
     deployedPr,
     commitsBetween,
     compareFailed,
+    rollback,
+    testRequirement,
+    deployedCommitChecks,
+    codeownersRequired,
+    infrastructureReviewRequired,
     dataFreshness: {
       deployedPrFetchedAt: deployedPr ? new Date() : null,
       commitsFetchedAt: commitsBetween.length > 0 ? new Date() : null,
@@ -172,6 +229,20 @@ async function getAppSettings(monitoredAppId: number): Promise<{
   }
 }
 
+/**
+ * Whether the app requires explicit PR approval for infrastructure changes and the deployment
+ * changes infrastructure (see resource-changes.ts) or is unclassified, so it may do so
+ */
+export async function isInfrastructureReviewRequired(deploymentId: number, monitoredAppId: number): Promise<boolean> {
+  if (!(await getInfrastructureReviewSettings(monitoredAppId)).enabled) return false
+
+  const result = await pool.query<{ change_type: string | null }>('SELECT change_type FROM deployments WHERE id = $1', [
+    deploymentId,
+  ])
+  const changeType = result.rows[0]?.change_type ?? null
+  return changeType === null || changeType === 'infrastructure'
+}
+
 // =============================================================================
 // Previous Deployment
 // =============================================================================
@@ -220,6 +291,50 @@ async function getPreviousDeployment(
   }
 }
 
+/**
+ * Find the deployment a rollback returned to: the most recent earlier deployment
+ * of the same commit in the same environment and repository.
+ */
+async function getRollbackTargetDeployment(
+  currentDeploymentId: number,
+  owner: string,
+  repo: string,
+  environmentName: string,
+  commitSha: string,
+  auditStartYear: number | null,
+): Promise<NonNullable<VerificationInput['rollback']>['targetDeployment']> {
+  let query = `
+    SELECT d.id, d.created_at, d.four_eyes_status
+    FROM deployments d
+    JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+    WHERE d.created_at < (SELECT created_at FROM deployments WHERE id = $1)
+      AND ma.environment_name = $2
+      AND d.detected_github_owner = $3
+      AND d.detected_github_repo_name = $4
+      AND d.commit_sha = $5
+  `
+  const params: (number | string)[] = [currentDeploymentId, environmentName, owner, repo, commitSha]
+
+  if (auditStartYear) {
+    query += ` AND d.created_at >= $6`
+    params.push(`${auditStartYear}-01-01`)
+  }
+
+  query += ` ORDER BY d.created_at DESC LIMIT 1`
+
+  const result = await pool.query(query, params)
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return {
+    id: result.rows[0].id,
+    createdAt: result.rows[0].created_at.toISOString(),
+    fourEyesStatus: result.rows[0].four_eyes_status,
+  }
+}
+
 // =============================================================================
 // PR Data Fetching
 // =============================================================================
@@ -256,6 +371,10 @@ async function fetchDeployedPrData(
           metadata,
           reviews,
           commits,
+          checks: cachedData.get('checks')?.data as PrChecks,
+          codeowners: options?.codeowners
+            ? await fetchPrCodeownersData(owner, repo, prNumber, metadata.baseSha)
+            : undefined,
         }
       }
     }
@@ -279,7 +398,92 @@ async function fetchDeployedPrData(
     metadata,
     reviews,
     commits,
+    checks,
+    codeowners: options?.codeowners ? await fetchPrCodeownersData(owner, repo, prNumber, metadata.baseSha) : undefined,
+  }
+}
+
+/**
+ * Get the check runs and statuses on a commit, from cache or GitHub.
+ * A snapshot is reused only once every check has completed, since running checks may still pass.
+ *
+ * Returns null if the checks are not cached (cache-only mode) or could not be fetched.
+ */
+export async function fetchCommitChecks(
+  owner: string,
+  repo: string,
+  sha: string,
+  options?: { cacheOnly?: boolean },
+): Promise<PrChecks | null> {
+  const cached = (await getLatestCommitSnapshot(owner, repo, sha, 'checks'))?.data as PrChecks | undefined
+  if (options?.cacheOnly) return cached ?? null
+  if (cached && areChecksComplete(cached)) return cached
+
+  const checks = await getCommitChecks(owner, repo, sha)
+  if (!checks) return null
+
+  await saveCommitSnapshot(owner, repo, sha, 'checks', checks)
+  return checks
+}
+
+function areChecksComplete(checks: PrChecks): boolean {
+  return (
+    checks.checkRuns.every((run) => run.status === 'completed') &&
+    checks.statuses.every((status) => status.state !== 'pending')
+  )
+}
+
+/**
+ * Get the files changed in a PR and the CODEOWNERS in force at its base SHA, from cache or GitHub.
+ * Both are stored as snapshots, since neither changes for a merged PR.
+ *
+ * Returns null if the data is not cached (cache-only mode) or could not be fetched.
+ */
+export async function fetchPrCodeownersData(
+  owner: string,
+  repo: string,
+  prNumber: number,
+  baseSha: string,
+  options?: { cacheOnly?: boolean },
+): Promise<PrCodeownersData | null> {
+  const cacheOnly = options?.cacheOnly ?? false
+
+  try {
+    let files = (await getLatestPrSnapshot(owner, repo, prNumber, 'files'))?.data as PrFile[] | undefined
+    if (!files) {
+      if (cacheOnly) return null
+      files = await getPullRequestFiles(owner, repo, prNumber)
+      await savePrSnapshot(owner, repo, prNumber, 'files', files)
+    }
+
+    let codeowners = (await getLatestCommitSnapshot(owner, repo, baseSha, 'codeowners'))?.data as
+      | CodeownersSnapshot
+      | undefined
+    if (!codeowners) {
+      if (cacheOnly) return null
+      codeowners = await fetchCodeownersFromGitHub(owner, repo, baseSha)
+      await saveCommitSnapshot(owner, repo, baseSha, 'codeowners', codeowners)
+    }
+
+    return { files, codeowners }
+  } catch (error) {
+    logger.warn(`Failed to fetch changed files or CODEOWNERS for PR #${prNumber} in ${owner}/${repo}: ${error}`)
+    return null
+  }
+}
+
+async function fetchCodeownersFromGitHub(owner: string, repo: string, ref: string): Promise<CodeownersSnapshot> {
+  const file = await getCodeownersFile(owner, repo, ref)
+  if (!file) {
+    return { path: null, content: null, teamMembers: {} }
   }
+
+  const teamMembers: Record<string, string[]> = {}
+  for (const team of getCodeownerTeams(parseCodeowners(file.content))) {
+    teamMembers[team] = await getTeamMembers(team)
+  }
+
+  return { path: file.path, content: file.content, teamMembers }
 }
 
 async function findPrForCommit(
@@ -537,6 +741,7 @@ export async function buildCommitsBetweenFromCache(
     const prNumber = await findPrForCommit(owner, repo, commit.sha, baseBranch, cacheOnly)
 
     let prData: VerificationInput['commitsBetween'][0]['pr'] = null
+    let prBaseSha: string | null = null
 
     if (prNumber && !options?.forceRefresh) {
       // Try to get PR data from cache first
@@ -547,6 +752,7 @@ export async function buildCommitsBetweenFromCache(
         const reviews = cachedData.get('reviews')?.data as PrReview[]
         const prCommits = cachedData.get('commits')?.data as PrCommit[]
 
+        prBaseSha = metadata.baseSha
         prData = {
           number: prNumber,
           title: metadata.title,
@@ -578,6 +784,7 @@ export async function buildCommitsBetweenFromCache(
           { dataType: 'comments', data: comments },
         ])
 
+        prBaseSha = metadata.baseSha
         prData = {
           number: prNumber,
           title: metadata.title,
@@ -591,6 +798,10 @@ export async function buildCommitsBetweenFromCache(
       }
     }
 
+    if (prData && prBaseSha && options?.codeowners) {
+      prData.codeowners = await fetchPrCodeownersData(owner, repo, prData.number, prBaseSha, { cacheOnly })
+    }
+
     result.push({
       sha: commit.sha,
       message: commit.message,
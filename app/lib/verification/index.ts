@@ -18,17 +18,36 @@
  * ```
  */
 
-import { getImplicitApprovalSettings } from '~/db/app-settings.server'
+import {
+  getCodeownersRequirementSettings,
+  getImplicitApprovalSettings,
+  getTestRequirementSettings,
+} from '~/db/app-settings.server'
 import { pool } from '~/db/connection.server'
 import {
   getCompareSnapshotForCommit,
   getPreviousDeploymentForDiff,
   getPrSnapshotsForDiff,
 } from '~/db/verification-diff.server'
+import { autoLinkDeploymentGoals } from '~/lib/goal-linking.server'
 import { logger } from '~/lib/logger.server'
-import { buildCommitsBetweenFromCache, fetchVerificationData } from './fetch-data.server'
+import {
+  buildCommitsBetweenFromCache,
+  fetchCommitChecks,
+  fetchPrCodeownersData,
+  fetchVerificationData,
+  isInfrastructureReviewRequired,
+} from './fetch-data.server'
 import { storeVerificationResult } from './store-data.server'
-import type { CompareData, PrCommit, PrMetadata, PrReview, VerificationInput, VerificationResult } from './types'
+import type {
+  CompareData,
+  PrChecks,
+  PrCommit,
+  PrMetadata,
+  PrReview,
+  VerificationInput,
+  VerificationResult,
+} from './types'
 import { verifyDeployment } from './verify'
 
 // Re-export individual modules
@@ -42,6 +61,7 @@ export { storeVerificationResult } from './store-data.server'
 // Re-export types and constants for convenience
 export type {
   ImplicitApprovalMode,
+  TestRequirement,
   UnverifiedReason,
   VerificationInput,
   VerificationResult,
@@ -52,6 +72,8 @@ export {
   IMPLICIT_APPROVAL_MODE_DESCRIPTIONS,
   IMPLICIT_APPROVAL_MODE_LABELS,
   IMPLICIT_APPROVAL_MODES,
+  TEST_REQUIREMENT_LABELS,
+  TEST_REQUIREMENTS,
   UNVERIFIED_REASON_LABELS,
   UNVERIFIED_REASONS,
   VERIFICATION_STATUS_LABELS,
@@ -90,6 +112,7 @@ export interface RunVerificationOptions {
  * 2. Store fetched data to database
  * 3. Run stateless verification
  * 4. Store verification result
+ * 5. Link the deployment to board goals it mentions
  *
  * @param deploymentId - The deployment ID to verify
  * @param options - Verification options
@@ -143,6 +166,14 @@ export async function runVerification(
   })
 
   logger.info(`   ✅ Stored as verification run #${verificationRunId}`)
+
+  // Step 4: Link to board goals mentioned in the PR or commit messages (best effort)
+  try {
+    await autoLinkDeploymentGoals(deploymentId, options.monitoredAppId, input)
+  } catch (error) {
+    logger.error(`   ❌ Automatic goal linking failed for deployment ${deploymentId}:`, error)
+  }
+
   logger.info(`🎉 Verification complete for deployment ${deploymentId}`)
 
   return result
@@ -333,7 +364,7 @@ export async function reverifyDeployment(deploymentId: number): Promise<{
     `SELECT
        d.id, d.commit_sha, d.four_eyes_status, d.has_four_eyes,
        d.github_pr_number, d.environment_name, d.monitored_app_id,
-       d.detected_github_owner, d.detected_github_repo_name,
+       d.detected_github_owner, d.detected_github_repo_name, d.rollback_target_deployment_id, d.is_rollback,
        ma.default_branch, ma.audit_start_year
      FROM deployments d
      JOIN monitored_applications ma ON d.monitored_app_id = ma.id
@@ -353,6 +384,9 @@ export async function reverifyDeployment(deploymentId: number): Promise<{
   }
 
   const implicitApprovalSettings = await getImplicitApprovalSettings(dep.monitored_app_id)
+  const testRequirement = await getTestRequirementSettings(dep.monitored_app_id)
+  const codeownersRequired = (await getCodeownersRequirementSettings(dep.monitored_app_id)).enabled
+  const infrastructureReviewRequired = await isInfrastructureReviewRequired(dep.id, dep.monitored_app_id)
 
   const compareSnapshot = await getCompareSnapshotForCommit(dep.commit_sha)
   if (!compareSnapshot) return null
@@ -369,22 +403,48 @@ export async function reverifyDeployment(deploymentId: number): Promise<{
 
   const commitsBetween = await buildCommitsBetweenFromCache(owner, repo, baseBranch, compareData, {
     cacheOnly: true,
+    codeowners: codeownersRequired,
   })
 
   let deployedPr: VerificationInput['deployedPr'] = null
   if (dep.github_pr_number) {
     const snapshotMap = await getPrSnapshotsForDiff(dep.github_pr_number)
     if (snapshotMap.has('metadata') && snapshotMap.has('reviews') && snapshotMap.has('commits')) {
+      const metadata = snapshotMap.get('metadata') as PrMetadata
       deployedPr = {
         number: dep.github_pr_number,
         url: `https://github.com/${owner}/${repo}/pull/${dep.github_pr_number}`,
-        metadata: snapshotMap.get('metadata') as PrMetadata,
+        metadata,
         reviews: snapshotMap.get('reviews') as PrReview[],
         commits: snapshotMap.get('commits') as PrCommit[],
+        checks: (snapshotMap.get('checks') as PrChecks | undefined) ?? null,
+        codeowners: codeownersRequired
+          ? await fetchPrCodeownersData(owner, repo, dep.github_pr_number, metadata.baseSha, { cacheOnly: true })
+          : undefined,
       }
     }
   }
 
+  // Ancestry needs GitHub, so reuse the rollback found by the last full verification
+  let rollback: VerificationInput['rollback']
+  if (dep.is_rollback) {
+    const target = dep.rollback_target_deployment_id
+      ? await pool.query(`SELECT id, created_at, four_eyes_status FROM deployments WHERE id = $1`, [
+          dep.rollback_target_deployment_id,
+        ])
+      : null
+    const targetRow = target?.rows[0]
+    rollback = {
+      targetDeployment: targetRow
+        ? {
+            id: targetRow.id,
+            createdAt: targetRow.created_at.toISOString(),
+            fourEyesStatus: targetRow.four_eyes_status,
+          }
+        : null,
+    }
+  }
+
   const input: VerificationInput = {
     deploymentId: dep.id,
     commitSha: dep.commit_sha,
@@ -399,6 +459,14 @@ export async function reverifyDeployment(deploymentId: number): Promise<{
     dataFreshness: { deployedPrFetchedAt: null, commitsFetchedAt: null, schemaVersion: 1 },
     repositoryStatus: 'active',
     commitOnBaseBranch: null,
+    rollback,
+    testRequirement,
+    deployedCommitChecks:
+      testRequirement.level !== 'none'
+        ? await fetchCommitChecks(owner, repo, dep.commit_sha, { cacheOnly: true })
+        : undefined,
+    codeownersRequired,
+    infrastructureReviewRequired,
   }
 
   const newResult = verifyDeployment(input)
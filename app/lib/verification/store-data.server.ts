@@ -10,6 +10,7 @@ import { updateCommitPrVerification } from '~/db/commits.server'
 import { pool } from '~/db/connection.server'
 import { logStatusTransition } from '~/db/deployments.server'
 import { getAllLatestPrSnapshots, saveVerificationRun } from '~/db/github-data.server'
+import { notifyDeploymentStatusChanged } from '~/lib/deployment-status.server'
 import { buildGithubPrDataFromSnapshots } from './build-github-pr-data'
 import type {
   PrChecks,
@@ -107,6 +108,16 @@ async function updateDeploymentVerification(
     case 'unauthorized_branch':
       fourEyesValue = false
       break
+    case 'missing_required_tests':
+      fourEyesValue = false
+      break
+    case 'pending':
+      // Required test checks still running: verified again by the next GitHub verification
+      fourEyesValue = false
+      break
+    case 'rollback':
+      fourEyesValue = true
+      break
   }
 
   // Build github_pr_data from snapshots if a PR was found
@@ -118,59 +129,86 @@ async function updateDeploymentVerification(
     }
   }
 
-  // Get current status before update for history logging
-  const current = await pool.query(`SELECT four_eyes_status, has_four_eyes FROM deployments WHERE id = $1`, [
-    deploymentId,
-  ])
-
-  // Update deployment record
-  await pool.query(
-    `UPDATE deployments
-     SET 
-       has_four_eyes = COALESCE($1, has_four_eyes),
-       four_eyes_status = $2,
-       github_pr_number = COALESCE($3, github_pr_number),
-       unverified_commits = $5::jsonb,
-       github_pr_data = COALESCE($6::jsonb, github_pr_data),
-       title = COALESCE($7, title)
-     WHERE id = $4
-       AND four_eyes_status NOT IN ('manually_approved', 'legacy')`,
-    [
-      fourEyesValue,
-      result.status,
-      result.deployedPr?.number || null,
-      deploymentId,
-      result.unverifiedCommits.length > 0
-        ? JSON.stringify(
-            result.unverifiedCommits.map((c) => ({
-              sha: c.sha,
-              message: c.message,
-              author: c.author,
-              date: c.date,
-              html_url: c.htmlUrl,
-              pr_number: c.prNumber,
-              reason: c.reason,
-            })),
-          )
-        : null,
-      githubPrDataJson,
-      result.deployedPr?.title || result.unverifiedCommits[0]?.message || null,
-    ],
-  )
+  const client = await pool.connect()
+  let statusChanged = false
+  try {
+    await client.query('BEGIN')
 
-  // Log status transition if status changed
-  if (current.rows.length > 0 && fourEyesValue !== null) {
-    const prev = current.rows[0]
-    const newStatus = result.status
-    if (prev.four_eyes_status !== newStatus || prev.has_four_eyes !== (fourEyesValue === true)) {
-      await logStatusTransition(deploymentId, {
-        fromStatus: prev.four_eyes_status,
-        toStatus: newStatus,
-        fromHasFourEyes: prev.has_four_eyes,
-        toHasFourEyes: fourEyesValue === true,
-        changeSource: changeSource || 'verification',
-      })
+    // Get current status before update for history logging
+    const current = await client.query(
+      `SELECT four_eyes_status, has_four_eyes FROM deployments WHERE id = $1 FOR UPDATE`,
+      [deploymentId],
+    )
+
+    // Update deployment record
+    const updated = await client.query(
+      `UPDATE deployments
+       SET 
+         has_four_eyes = COALESCE($1, has_four_eyes),
+         four_eyes_status = $2,
+         github_pr_number = COALESCE($3, github_pr_number),
+         unverified_commits = $5::jsonb,
+         github_pr_data = COALESCE($6::jsonb, github_pr_data),
+         title = COALESCE($7, title),
+         rollback_target_deployment_id = $8,
+         is_rollback = $9
+       WHERE id = $4
+         AND four_eyes_status NOT IN ('manually_approved', 'legacy')`,
+      [
+        fourEyesValue,
+        result.status,
+        result.deployedPr?.number || null,
+        deploymentId,
+        result.unverifiedCommits.length > 0
+          ? JSON.stringify(
+              result.unverifiedCommits.map((c) => ({
+                sha: c.sha,
+                message: c.message,
+                author: c.author,
+                date: c.date,
+                html_url: c.htmlUrl,
+                pr_number: c.prNumber,
+                reason: c.reason,
+              })),
+            )
+          : null,
+        githubPrDataJson,
+        result.deployedPr?.title || result.unverifiedCommits[0]?.message || null,
+        result.rollbackTargetDeploymentId ?? null,
+        result.rollbackTargetDeploymentId !== undefined,
+      ],
+    )
+
+    // Log status transition if status changed
+    if (updated.rowCount && current.rows.length > 0 && fourEyesValue !== null) {
+      const prev = current.rows[0]
+      const newStatus = result.status
+      if (prev.four_eyes_status !== newStatus || prev.has_four_eyes !== (fourEyesValue === true)) {
+        await logStatusTransition(
+          deploymentId,
+          {
+            fromStatus: prev.four_eyes_status,
+            toStatus: newStatus,
+            fromHasFourEyes: prev.has_four_eyes,
+            toHasFourEyes: fourEyesValue === true,
+            changeSource: changeSource || 'verification',
+          },
+          client,
+        )
+        statusChanged = prev.four_eyes_status !== newStatus
+      }
     }
+
+    await client.query('COMMIT')
+  } catch (e) {
+    await client.query('ROLLBACK')
+    throw e
+  } finally {
+    client.release()
+  }
+
+  if (statusChanged) {
+    await notifyDeploymentStatusChanged(deploymentId, result.status)
   }
 }
 
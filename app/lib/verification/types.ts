@@ -85,6 +85,9 @@ export const VERIFICATION_STATUSES = [
   'manually_approved',
   'unauthorized_repository',
   'unauthorized_branch',
+  'missing_required_tests',
+  'pending',
+  'rollback',
   'legacy',
   'error',
 ] as const
@@ -102,10 +105,50 @@ export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
   manually_approved: 'Manuelt godkjent',
   unauthorized_repository: 'Ikke godkjent repo',
   unauthorized_branch: 'Ikke på godkjent branch',
+  missing_required_tests: 'Mangler påkrevde tester',
+  pending: 'Venter',
+  rollback: 'Rollback',
   legacy: 'Legacy',
   error: 'Feil',
 }
 
+// =============================================================================
+// Test Requirement
+// =============================================================================
+
+/**
+ * Test requirement levels per app (monitored_applications.test_requirement).
+ * Levels are cumulative: 'integration_tests' also requires the unit test checks.
+ */
+export const TEST_REQUIREMENTS = ['none', 'unit_tests', 'integration_tests'] as const
+export type TestRequirement = (typeof TEST_REQUIREMENTS)[number]
+
+/**
+ * Human-readable labels for test requirement levels
+ */
+export const TEST_REQUIREMENT_LABELS: Record<TestRequirement, string> = {
+  none: 'Ingen',
+  unit_tests: 'Enhetstester',
+  integration_tests: 'Integrasjonstester',
+}
+
+/**
+ * Names of the check runs that prove each test level, per app.
+ * An empty list means "all check runs on the PR must pass".
+ */
+export interface TestRequirementChecks {
+  unit_tests: string[]
+  integration_tests: string[]
+}
+
+/**
+ * Test requirement for an app, as needed by the verifier
+ */
+export interface TestRequirementSettings {
+  level: TestRequirement
+  checks: TestRequirementChecks
+}
+
 // =============================================================================
 // Repository Status
 // =============================================================================
@@ -132,6 +175,8 @@ export const UNVERIFIED_REASONS = [
   'no_approved_reviews',
   'approval_before_last_commit',
   'pr_not_approved',
+  'rollback_to_unverified',
+  'codeowner_approval_missing',
 ] as const
 export type UnverifiedReason = (typeof UNVERIFIED_REASONS)[number]
 
@@ -143,6 +188,8 @@ export const UNVERIFIED_REASON_LABELS: Record<UnverifiedReason, string> = {
   no_approved_reviews: 'Ingen godkjent review',
   approval_before_last_commit: 'Godkjenning før siste commit',
   pr_not_approved: 'PR ikke godkjent',
+  rollback_to_unverified: 'Rollback til ikke-verifisert commit',
+  codeowner_approval_missing: 'Mangler godkjenning fra code owner',
 }
 
 // =============================================================================
@@ -152,7 +199,14 @@ export const UNVERIFIED_REASON_LABELS: Record<UnverifiedReason, string> = {
 /**
  * All valid approval methods.
  */
-export const APPROVAL_METHODS = ['pr_review', 'implicit', 'base_merge', 'no_changes', 'pending_baseline'] as const
+export const APPROVAL_METHODS = [
+  'pr_review',
+  'implicit',
+  'base_merge',
+  'no_changes',
+  'pending_baseline',
+  'rollback',
+] as const
 export type ApprovalMethod = (typeof APPROVAL_METHODS)[number] | null
 
 // =============================================================================
@@ -167,7 +221,7 @@ export type PrDataType = 'metadata' | 'reviews' | 'commits' | 'comments' | 'chec
 /**
  * Types of commit data that can be fetched/stored separately
  */
-export type CommitDataType = 'metadata' | 'status' | 'checks' | 'prs'
+export type CommitDataType = 'metadata' | 'status' | 'checks' | 'prs' | 'codeowners'
 
 // =============================================================================
 // Snapshot Types (Database Storage)
@@ -376,6 +430,35 @@ export interface PrChecks {
   }>
 }
 
+/**
+ * File changed in a PR (stored in 'files' snapshot as array)
+ */
+export interface PrFile {
+  filename: string
+  status: string
+  previousFilename: string | null
+}
+
+/**
+ * CODEOWNERS in force at a commit (stored in 'codeowners' commit snapshot for the PR's base SHA).
+ * Team members are resolved when fetched, so later membership changes do not affect verification.
+ */
+export interface CodeownersSnapshot {
+  // null = the repository had no CODEOWNERS file at this commit
+  path: string | null
+  content: string | null
+  // Members of the team owners, keyed by lowercase `org/team`
+  teamMembers: Record<string, string[]>
+}
+
+/**
+ * Data needed to check CODEOWNERS approval for a PR
+ */
+export interface PrCodeownersData {
+  files: PrFile[]
+  codeowners: CodeownersSnapshot
+}
+
 // =============================================================================
 // Commit Data Types
 // =============================================================================
@@ -463,6 +546,10 @@ export interface VerificationInput {
     metadata: PrMetadata
     reviews: PrReview[]
     commits: PrCommit[]
+    // Check runs on the PR (null/undefined = not fetched)
+    checks?: PrChecks | null
+    // Changed files and CODEOWNERS (null/undefined = not fetched)
+    codeowners?: PrCodeownersData | null
   } | null
 
   // All commits between previous and current deployment
@@ -483,6 +570,8 @@ export interface VerificationInput {
       commits: PrCommit[]
       baseBranch: string
       rebaseMatched?: boolean
+      // Changed files and CODEOWNERS (null/undefined = not fetched)
+      codeowners?: PrCodeownersData | null
     } | null
   }>
 
@@ -495,6 +584,30 @@ export interface VerificationInput {
 
   // Whether the GitHub compare API failed (404, network error, etc.)
   compareFailed?: boolean
+
+  // Set when the deployed commit is an ancestor of the previous deployment's commit
+  // (undefined = not a rollback, or the ancestry check failed)
+  rollback?: {
+    // Most recent earlier deployment of the same commit, i.e. the deployment rolled back to
+    targetDeployment: {
+      id: number
+      createdAt: string
+      fourEyesStatus: string
+    } | null
+  }
+
+  // Required test checks for the app (undefined = no requirement)
+  testRequirement?: TestRequirementSettings
+
+  // Check runs and statuses on the deployed commit, for the test requirement
+  // (null = could not be fetched, undefined = not fetched)
+  deployedCommitChecks?: PrChecks | null
+
+  // Whether changed files with code owners need approval from one of their owners
+  codeownersRequired?: boolean
+
+  // Whether the deployment changes infrastructure and the app requires explicit PR approval for that
+  infrastructureReviewRequired?: boolean
 }
 
 /**
@@ -534,6 +647,9 @@ export interface VerificationResult {
     reason: string
   }
 
+  // The deployment a rollback returned to (only for rollbacks)
+  rollbackTargetDeploymentId?: number | null
+
   // Metadata
   verifiedAt: Date
   schemaVersion: number
@@ -8,11 +8,16 @@
  * Output: VerificationResult (verification decision)
  */
 
+import { findFilesWithoutOwnerApproval, parseCodeowners } from '~/lib/codeowners'
+import { isApprovedStatus } from '~/lib/four-eyes-status'
 import {
   assertNever,
   type ImplicitApprovalSettings,
+  type PrChecks,
+  type PrCodeownersData,
   type PrCommit,
   type PrReview,
+  type TestRequirementSettings,
   type UnverifiedCommit,
   type UnverifiedReason,
   type VerificationInput,
@@ -33,12 +38,18 @@ import {
  * 1. No previous deployment → pending_baseline
  * 2. No commits between deployments:
  *    a. Same commit SHA → no_changes
- *    b. Different SHA (rollback/error) → error
- * 3. Check each commit against PR data
+ *    b. Deployed commit is an ancestor of the previous one:
+ *       rolled back to a verified deployment → rollback, otherwise → unverified_commits
+ *    c. Different SHA otherwise (branch divergence/error) → error
+ * 3. Check each commit against PR data (and CODEOWNERS approval, if required for the app)
  * 4. All verified → approved
  * 5. Base branch merge explains unverified → approved (base_merge)
  * 6. Implicit approval qualifies → implicitly_approved
+ *    (steps 5-6 are skipped when a code owner approval is missing, or when the deployment
+ *    changes infrastructure and the app requires explicit review of that)
  * 7. Otherwise → unverified_commits
+ * 8. Approved (4-6) but required test checks on the deployed commit did not pass → missing_required_tests,
+ *    or are still running (or could not be fetched) → pending, so the deployment is verified again
  *
  * @see {@link file://docs/verification.md} for full documentation
  */
@@ -68,6 +79,9 @@ export function verifyDeployment(input: VerificationInput): VerificationResult {
     if (input.commitSha === input.previousDeployment.commitSha) {
       return handleNoChanges(input)
     }
+    if (input.rollback) {
+      return handleRollback(input, input.rollback.targetDeployment)
+    }
     return handleCompareError(
       input,
       `Commit SHAs differ (${input.previousDeployment.commitSha.substring(0, 7)}→${input.commitSha.substring(0, 7)}) but GitHub compare returned 0 commits. Possible rollback or branch divergence.`,
@@ -77,17 +91,23 @@ export function verifyDeployment(input: VerificationInput): VerificationResult {
   const unverifiedCommits = findUnverifiedCommits(input)
 
   if (unverifiedCommits.length === 0) {
-    return handleAllCommitsVerified(input)
+    return handleTestRequirement(input, handleAllCommitsVerified(input))
+  }
+
+  // Neither a base merge nor implicit approval can stand in for a missing code owner approval,
+  // or for explicit review of an infrastructure change when the app requires it
+  if (input.infrastructureReviewRequired || unverifiedCommits.some((c) => c.reason === 'codeowner_approval_missing')) {
+    return handleUnverifiedCommits(input, unverifiedCommits)
   }
 
   if (input.deployedPr) {
     const baseMergeResult = handleBaseBranchMerge(input, unverifiedCommits)
-    if (baseMergeResult) return baseMergeResult
+    if (baseMergeResult) return handleTestRequirement(input, baseMergeResult)
   }
 
   if (input.deployedPr && input.implicitApprovalSettings.mode !== 'off') {
     const implicitResult = handleImplicitApproval(input)
-    if (implicitResult) return implicitResult
+    if (implicitResult) return handleTestRequirement(input, implicitResult)
   }
 
   return handleUnverifiedCommits(input, unverifiedCommits)
@@ -145,6 +165,55 @@ function handleNoChanges(input: VerificationInput): VerificationResult {
   })
 }
 
+function handleRollback(
+  input: VerificationInput,
+  target: NonNullable<VerificationInput['rollback']>['targetDeployment'],
+): VerificationResult {
+  const shortSha = input.commitSha.substring(0, 7)
+
+  // The rolled back code was already verified when it was first deployed
+  if (target && isApprovedStatus(target.fourEyesStatus)) {
+    return {
+      ...buildResult(input, {
+        hasFourEyes: true,
+        status: 'rollback',
+        approvalDetails: {
+          method: 'rollback',
+          approvers: [],
+          reason: `Rollback to ${shortSha}, verified in deployment #${target.id} (${target.fourEyesStatus})`,
+        },
+      }),
+      rollbackTargetDeploymentId: target.id,
+    }
+  }
+
+  return {
+    ...buildResult(input, {
+      hasFourEyes: false,
+      status: 'unverified_commits',
+      unverifiedCommits: [
+        {
+          sha: input.commitSha,
+          message: input.deployedPr?.metadata.title ?? `Rollback to ${shortSha}`,
+          author: input.deployedPr?.metadata.author.username ?? 'unknown',
+          date: target?.createdAt ?? '',
+          htmlUrl: `https://github.com/${input.repository}/commit/${input.commitSha}`,
+          prNumber: input.deployedPr?.number ?? null,
+          reason: 'rollback_to_unverified',
+        },
+      ],
+      approvalDetails: {
+        method: null,
+        approvers: [],
+        reason: target
+          ? `Rollback to ${shortSha}, but deployment #${target.id} was not verified (${target.fourEyesStatus})`
+          : `Rollback to ${shortSha}, which has not been deployed here before`,
+      },
+    }),
+    rollbackTargetDeploymentId: target?.id ?? null,
+  }
+}
+
 function handleCompareError(input: VerificationInput, reason: string): VerificationResult {
   return buildResult(input, {
     hasFourEyes: false,
@@ -164,12 +233,17 @@ function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
 
   let deployedPrApproval: { hasFourEyes: boolean; reason: string } | null = null
   if (input.deployedPr) {
-    deployedPrApproval = verifyFourEyesFromPrData({
-      reviewers: input.deployedPr.reviews,
-      commits: input.deployedPr.commits,
-      baseBranch: input.deployedPr.metadata.baseBranch,
-      mergedBy: input.deployedPr.metadata.mergedBy?.username,
-    })
+    deployedPrApproval = applyCodeownersRequirement(
+      input,
+      input.deployedPr.reviews,
+      input.deployedPr.codeowners,
+      verifyFourEyesFromPrData({
+        reviewers: input.deployedPr.reviews,
+        commits: input.deployedPr.commits,
+        baseBranch: input.deployedPr.metadata.baseBranch,
+        mergedBy: input.deployedPr.metadata.mergedBy?.username,
+      }),
+    )
   }
 
   for (const commit of input.commitsBetween) {
@@ -202,11 +276,16 @@ function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
 
     // Check if commit has its own PR
     if (commit.pr) {
-      const prApproval = verifyFourEyesFromPrData({
-        reviewers: commit.pr.reviews,
-        commits: commit.pr.commits,
-        baseBranch: commit.pr.baseBranch,
-      })
+      const prApproval = applyCodeownersRequirement(
+        input,
+        commit.pr.reviews,
+        commit.pr.codeowners,
+        verifyFourEyesFromPrData({
+          reviewers: commit.pr.reviews,
+          commits: commit.pr.commits,
+          baseBranch: commit.pr.baseBranch,
+        }),
+      )
 
       if (prApproval.hasFourEyes) {
         continue
@@ -314,6 +393,26 @@ function handleUnverifiedCommits(input: VerificationInput, unverifiedCommits: Un
   })
 }
 
+/**
+ * Downgrade an approved result when the app's required test checks on the deployed commit
+ * did not pass, or have not finished yet.
+ */
+function handleTestRequirement(input: VerificationInput, approvedResult: VerificationResult): VerificationResult {
+  if (!input.testRequirement || input.testRequirement.level === 'none') return approvedResult
+
+  const testResult = checkTestRequirement(input.testRequirement, input.deployedCommitChecks ?? null)
+  if (testResult.satisfied) return approvedResult
+
+  return buildResult(input, {
+    hasFourEyes: false,
+    status: testResult.pending ? 'pending' : 'missing_required_tests',
+    approvalDetails: {
+      ...approvedResult.approvalDetails,
+      reason: testResult.reason,
+    },
+  })
+}
+
 // =============================================================================
 // Result Builder
 // =============================================================================
@@ -426,6 +525,61 @@ export function verifyFourEyesFromPrData(prData: PrDataForVerification): {
   return { hasFourEyes: false, reason: 'approval_before_last_commit' }
 }
 
+// =============================================================================
+// CODEOWNERS Approval
+// =============================================================================
+
+/**
+ * Check that every changed file with code owners was approved by one of its owners.
+ * Owners are matched against APPROVED reviews; team owners via the members stored with the snapshot.
+ *
+ * Missing data (files or CODEOWNERS not fetched) is not satisfied, since ownership cannot be ruled out.
+ */
+export function checkCodeownerApproval(
+  reviews: PrReview[],
+  data: PrCodeownersData | null,
+): { satisfied: boolean; filesWithoutOwnerApproval: string[]; reason: string } {
+  if (!data) {
+    return { satisfied: false, filesWithoutOwnerApproval: [], reason: 'Changed files or CODEOWNERS not available' }
+  }
+  if (!data.codeowners.content) {
+    return { satisfied: true, filesWithoutOwnerApproval: [], reason: 'No CODEOWNERS file' }
+  }
+
+  const missing = findFilesWithoutOwnerApproval({
+    filenames: data.files.map((f) => f.filename),
+    rules: parseCodeowners(data.codeowners.content),
+    teamMembers: data.codeowners.teamMembers,
+    approvers: extractApprovers(reviews),
+  })
+
+  if (missing.length > 0) {
+    return {
+      satisfied: false,
+      filesWithoutOwnerApproval: missing.map((m) => m.filename),
+      reason: `No approval from code owners of: ${missing.map((m) => `${m.filename} (${m.owners.join(' ')})`).join(', ')}`,
+    }
+  }
+
+  return { satisfied: true, filesWithoutOwnerApproval: [], reason: 'Owned files approved by code owners' }
+}
+
+/**
+ * Downgrade a PR approval when the app requires code owner approval and it is missing
+ */
+function applyCodeownersRequirement(
+  input: VerificationInput,
+  reviews: PrReview[],
+  codeowners: PrCodeownersData | null | undefined,
+  approval: { hasFourEyes: boolean; reason: string },
+): { hasFourEyes: boolean; reason: string } {
+  if (!input.codeownersRequired || !approval.hasFourEyes) return approval
+
+  const codeownerResult = checkCodeownerApproval(reviews, codeowners ?? null)
+  if (codeownerResult.satisfied) return approval
+  return { hasFourEyes: false, reason: 'codeowner_approval_missing' }
+}
+
 // =============================================================================
 // Base Branch Merge Detection
 // =============================================================================
@@ -550,6 +704,120 @@ export function checkImplicitApproval(params: {
   }
 }
 
+// =============================================================================
+// Test Requirement
+// =============================================================================
+
+const PASSING_CHECK_CONCLUSIONS = ['success', 'skipped', 'neutral']
+
+/**
+ * Check whether the required test checks passed.
+ *
+ * Rules:
+ * - level 'none': Always satisfied
+ * - level 'unit_tests': All configured unit test checks must have succeeded
+ * - level 'integration_tests': All configured unit and integration test checks must have succeeded
+ * - No check names configured: Every check run must be completed and passing (and there must be at least one)
+ *
+ * Check names are matched case-insensitively against check run names and commit status contexts.
+ * The result is pending when the checks could not be fetched, or when a check that has not
+ * passed is still queued or running, since it may pass later.
+ */
+export function checkTestRequirement(
+  settings: TestRequirementSettings,
+  checks: PrChecks | null,
+): { satisfied: boolean; pending: boolean; missingChecks: string[]; reason: string } {
+  const { level } = settings
+
+  let requiredChecks: string[]
+  switch (level) {
+    case 'none':
+      return { satisfied: true, pending: false, missingChecks: [], reason: 'No test requirement' }
+    case 'unit_tests':
+      requiredChecks = settings.checks.unit_tests
+      break
+    case 'integration_tests':
+      requiredChecks = [...settings.checks.unit_tests, ...settings.checks.integration_tests]
+      break
+    default:
+      return assertNever(level, `Unhandled test requirement: ${level}`)
+  }
+
+  if (!checks) {
+    return {
+      satisfied: false,
+      pending: true,
+      missingChecks: requiredChecks,
+      reason: `Test requirement '${level}': checks on the deployed commit could not be fetched`,
+    }
+  }
+
+  const { checkRuns, statuses } = checks
+
+  if (requiredChecks.length === 0) {
+    if (checkRuns.length === 0) {
+      return {
+        satisfied: false,
+        pending: false,
+        missingChecks: [],
+        reason: `Test requirement '${level}': no check runs found`,
+      }
+    }
+    const failing = checkRuns.filter(
+      (run) => run.status !== 'completed' || !PASSING_CHECK_CONCLUSIONS.includes(run.conclusion ?? ''),
+    )
+    if (failing.length > 0) {
+      const names = failing.map((run) => run.name)
+      const pending = failing.every((run) => run.status !== 'completed')
+      return {
+        satisfied: false,
+        pending,
+        missingChecks: names,
+        reason: `Test requirement '${level}': checks ${pending ? 'still running' : 'not passed'}: ${names.join(', ')}`,
+      }
+    }
+    return {
+      satisfied: true,
+      pending: false,
+      missingChecks: [],
+      reason: `Test requirement '${level}': all checks passed`,
+    }
+  }
+
+  const matchingRuns = (nameLower: string) => checkRuns.filter((run) => run.name.toLowerCase() === nameLower)
+  const matchingStatuses = (nameLower: string) => statuses.filter((s) => s.context.toLowerCase() === nameLower)
+
+  const missingChecks = requiredChecks.filter((name) => {
+    const nameLower = name.toLowerCase()
+    const runPassed = matchingRuns(nameLower).some((run) => run.status === 'completed' && run.conclusion === 'success')
+    const statusPassed = matchingStatuses(nameLower).some((s) => s.state === 'success')
+    return !runPassed && !statusPassed
+  })
+
+  if (missingChecks.length > 0) {
+    const pending = missingChecks.every((name) => {
+      const nameLower = name.toLowerCase()
+      return (
+        matchingRuns(nameLower).some((run) => run.status !== 'completed') ||
+        matchingStatuses(nameLower).some((s) => s.state === 'pending')
+      )
+    })
+    return {
+      satisfied: false,
+      pending,
+      missingChecks,
+      reason: `Test requirement '${level}': required checks ${pending ? 'still running' : 'not passed'}: ${missingChecks.join(', ')}`,
+    }
+  }
+
+  return {
+    satisfied: true,
+    pending: false,
+    missingChecks: [],
+    reason: `Test requirement '${level}': required checks passed`,
+  }
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -567,6 +835,7 @@ function mapToUnverifiedReason(reason: string): UnverifiedReason {
   if (reason === 'no_pr') return 'no_pr'
   if (reason === 'no_approved_reviews') return 'no_approved_reviews'
   if (reason === 'approval_before_last_commit') return 'approval_before_last_commit'
+  if (reason === 'codeowner_approval_missing') return 'codeowner_approval_missing'
   return 'pr_not_approved'
 }
 
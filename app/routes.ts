@@ -10,6 +10,12 @@ export default [
   route('api/search', 'routes/api/search.ts'),
   route('api/checks/logs', 'routes/api/checks.logs.ts'),
   route('api/checks/annotations', 'routes/api/checks.annotations.ts'),
+  route('api/webhooks/github', 'routes/api/webhooks.github.ts'),
+  // Versioned JSON API (user or service-to-service tokens)
+  route('api/v1/apps', 'routes/api/v1.apps.ts'),
+  route('api/v1/apps/:id/deployments', 'routes/api/v1.apps.$id.deployments.ts'),
+  route('api/v1/deployments/:id', 'routes/api/v1.deployments.$id.ts'),
+  route('api/v1/reports/:id/verify', 'routes/api/v1.reports.$id.verify.ts'),
 
   layout('routes/layout.tsx', [
     index('routes/home.tsx'),
@@ -49,6 +55,7 @@ export default [
     route('deployments/verify', 'routes/deployments/verify.tsx'),
     route('deployments/:id', 'routes/deployments/$id.tsx'),
     route('users/:username', 'routes/users/$username.tsx'),
+    route('users/:username/notifications', 'routes/users/$username.notifications.tsx'),
     route('admin', 'routes/admin/index.tsx'),
     route('admin/users', 'routes/admin/users.tsx'),
     route('admin/users/export', 'routes/admin/users.export.ts'),
@@ -58,7 +65,10 @@ export default [
     route('admin/audit-reports', 'routes/admin/audit-reports.tsx'),
     route('admin/audit-reports/:id/pdf', 'routes/admin/audit-reports.$id.pdf.ts'),
     route('admin/audit-reports/:id/view', 'routes/admin/audit-reports.$id.view.ts'),
+    route('admin/audit-reports/:id/json', 'routes/admin/audit-reports.$id.json.ts'),
+    route('admin/audit-reports/:id/verify', 'routes/admin/audit-reports.$id.verify.tsx'),
     route('admin/global-settings', 'routes/admin/global-settings.tsx'),
+    route('admin/event-stream', 'routes/admin/event-stream.tsx'),
     route('admin/env', 'routes/admin/environment.tsx'),
     route('admin/sections', 'routes/admin/sections.tsx'),
     route('admin/sections/:slug/dev-teams', 'routes/admin/sections.$slug.dev-teams.tsx'),
@@ -0,0 +1,29 @@
+import { getAuditReportById } from '~/db/audit-reports.server'
+import { requireAdmin } from '~/lib/auth.server'
+import type { Route } from './+types/audit-reports.$id.json'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const reportId = Number(params.id)
+
+  if (!reportId) {
+    throw new Response('Ugyldig rapport-ID', { status: 400 })
+  }
+
+  const report = await getAuditReportById(reportId)
+
+  if (!report) {
+    throw new Response('Rapport ikke funnet', { status: 404 })
+  }
+
+  // JSON export with the signature, so a copy can be verified independently of the PDF
+  const { pdf_data: _pdfData, ...exported } = report
+
+  return new Response(JSON.stringify(exported, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="${report.report_id}.json"`,
+    },
+  })
+}
@@ -0,0 +1,249 @@
+import { CheckmarkCircleIcon, UploadIcon, XMarkOctagonIcon } from '@navikt/aksel-icons'
+import { Alert, BodyShort, Box, Button, Detail, Heading, HStack, Label, Tag, VStack } from '@navikt/ds-react'
+import { Form, useActionData, useLoaderData, useNavigation } from 'react-router'
+import { getAuditReportById } from '~/db/audit-reports.server'
+import { requireUser } from '~/lib/auth.server'
+import { requireTeamAccess } from '~/lib/authorization.server'
+import type { ReportChainIssue } from '~/lib/report-integrity'
+import { getReportPublicKeys } from '~/lib/report-signing.server'
+import { verifyStoredAuditReport, verifyUploadedAuditReport } from '~/lib/report-verification.server'
+import type { Route } from './+types/audit-reports.$id.verify'
+
+async function loadReport(id: string | undefined) {
+  const reportId = Number(id)
+  if (!reportId) {
+    throw new Response('Ugyldig rapport-ID', { status: 400 })
+  }
+
+  const report = await getAuditReportById(reportId)
+  if (!report) {
+    throw new Response('Rapport ikke funnet', { status: 404 })
+  }
+  return report
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const user = await requireUser(request)
+
+  const report = await loadReport(params.id)
+  await requireTeamAccess(user, report.team_slug)
+  const [verification, publicKeys] = await Promise.all([verifyStoredAuditReport(report), getReportPublicKeys()])
+
+  return {
+    report: {
+      id: report.id,
+      report_id: report.report_id,
+      app_name: report.app_name,
+      environment_name: report.environment_name,
+      period_label: report.period_label,
+      generated_at: report.generated_at,
+      content_hash: report.content_hash,
+      pdf_hash: report.pdf_hash,
+      chain_hash: report.chain_hash,
+    },
+    verification,
+    publicKeys,
+  }
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  const user = await requireUser(request)
+
+  const report = await loadReport(params.id)
+  await requireTeamAccess(user, report.team_slug)
+  const formData = await request.formData()
+  const file = formData.get('file') as File
+  if (!file || file.size === 0) {
+    return { error: 'Ingen fil valgt' }
+  }
+
+  const result = await verifyUploadedAuditReport(report, new Uint8Array(await file.arrayBuffer()))
+  if (!result.kind) {
+    return { error: 'Filen er verken en PDF eller JSON-eksport av en leveranserapport' }
+  }
+
+  return { fileName: file.name, result }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: `Verifiser ${data?.report.report_id ?? 'leveranserapport'}` }]
+}
+
+const CHAIN_ISSUE_LABELS: Record<ReportChainIssue['type'], string> = {
+  sequence_gap: 'Mangler ledd i kjeden',
+  broken_link: 'Leddet peker ikke på forrige rapport',
+  hash_mismatch: 'Kjedehash stemmer ikke med innholdet',
+  missing_report: 'Rapporten er slettet',
+}
+
+function CheckTag({ ok }: { ok: boolean | null }) {
+  if (ok === null) {
+    return (
+      <Tag data-color="neutral" variant="moderate" size="small">
+        Ikke sjekket
+      </Tag>
+    )
+  }
+  return ok ? (
+    <Tag data-color="success" variant="moderate" size="small">
+      <HStack gap="space-4" align="center">
+        <CheckmarkCircleIcon aria-hidden />
+        OK
+      </HStack>
+    </Tag>
+  ) : (
+    <Tag data-color="danger" variant="moderate" size="small">
+      <HStack gap="space-4" align="center">
+        <XMarkOctagonIcon aria-hidden />
+        Feilet
+      </HStack>
+    </Tag>
+  )
+}
+
+function CheckRow({ label, ok, description }: { label: string; ok: boolean | null; description?: string }) {
+  return (
+    <HStack gap="space-12" align="start" justify="space-between">
+      <VStack gap="space-2">
+        <Label size="small">{label}</Label>
+        {description && <Detail textColor="subtle">{description}</Detail>}
+      </VStack>
+      <CheckTag ok={ok} />
+    </HStack>
+  )
+}
+
+export default function VerifyAuditReport() {
+  const { report, verification, publicKeys } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+  const navigation = useNavigation()
+  const isSubmitting = navigation.state === 'submitting'
+  const upload = actionData?.result
+
+  return (
+    <VStack gap="space-24">
+      <div>
+        <Heading level="1" size="large" spacing>
+          Verifiser leveranserapport
+        </Heading>
+        <BodyShort textColor="subtle">
+          {report.app_name} ({report.environment_name}) • {report.period_label}
+        </BodyShort>
+        <code style={{ fontSize: '0.75rem' }}>{report.report_id}</code>
+      </div>
+
+      {verification.valid ? (
+        <Alert variant="success">Rapporten er signert, uendret og har sin plass i rapportkjeden.</Alert>
+      ) : !verification.signature.present ? (
+        <Alert variant="warning">Rapporten er ikke signert. Innholdet kan ikke verifiseres mot en signatur.</Alert>
+      ) : (
+        <Alert variant="error">Rapporten kunne ikke verifiseres. Se detaljene under.</Alert>
+      )}
+
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <Heading level="2" size="medium">
+            Lagret rapport
+          </Heading>
+          <CheckRow
+            label="Signatur"
+            ok={verification.signature.present ? verification.signature.valid : null}
+            description={
+              verification.signature.error ??
+              (verification.signature.keyId ? `Nøkkel: ${verification.signature.keyId}` : undefined)
+            }
+          />
+          <CheckRow label="Signaturen gjelder denne rapporten" ok={verification.payloadMatches} />
+          <CheckRow label="Rapportdata er uendret" ok={verification.dataIntact} />
+          <CheckRow label="Lagret PDF er uendret" ok={verification.pdfIntact} />
+          <CheckRow
+            label="Rapportkjede"
+            ok={verification.chain.sequence !== null && verification.chain.issues.length === 0}
+            description={
+              verification.chain.sequence !== null
+                ? `Rapport ${verification.chain.sequence} av ${verification.chain.length} for applikasjonen`
+                : 'Rapporten er ikke registrert i kjeden'
+            }
+          />
+          {verification.chain.issues.length > 0 && (
+            <VStack gap="space-4">
+              {verification.chain.issues.map((issue) => (
+                <Detail key={`${issue.type}-${issue.sequence}`}>
+                  Ledd {issue.sequence}: {CHAIN_ISSUE_LABELS[issue.type]}
+                  {issue.type === 'missing_report' && ` (${issue.report_id})`}
+                </Detail>
+              ))}
+            </VStack>
+          )}
+
+          <VStack gap="space-4">
+            <Detail>
+              Innholdshash: <code>{report.content_hash}</code>
+            </Detail>
+            {report.pdf_hash && (
+              <Detail>
+                PDF-hash: <code>{report.pdf_hash}</code>
+              </Detail>
+            )}
+            {report.chain_hash && (
+              <Detail>
+                Kjedehash: <code>{report.chain_hash}</code>
+              </Detail>
+            )}
+          </VStack>
+        </VStack>
+      </Box>
+
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <div>
+            <Heading level="2" size="medium" spacing>
+              Sjekk en kopi
+            </Heading>
+            <BodyShort textColor="subtle">
+              Last opp en PDF eller JSON-eksport av rapporten for å sjekke at den er identisk med den signerte
+              rapporten.
+            </BodyShort>
+          </div>
+
+          <Form method="post" encType="multipart/form-data">
+            <HStack gap="space-8" align="center">
+              <input type="file" name="file" accept=".pdf,.json,application/pdf,application/json" />
+              <Button type="submit" size="small" icon={<UploadIcon aria-hidden />} loading={isSubmitting}>
+                Verifiser fil
+              </Button>
+            </HStack>
+          </Form>
+
+          {actionData?.error && <Alert variant="error">{actionData.error}</Alert>}
+          {upload && (
+            <Alert variant={upload.matches ? (upload.trusted ? 'success' : 'warning') : 'error'}>
+              {upload.matches
+                ? `${actionData?.fileName} er identisk med rapporten${upload.trusted ? '' : ', men rapporten er ikke signert'}.`
+                : `${actionData?.fileName} er ikke identisk med rapporten.`}
+              <Detail>
+                {upload.kind === 'pdf' ? 'PDF-hash' : 'Datahash'}: <code>{upload.hash}</code>
+              </Detail>
+            </Alert>
+          )}
+        </VStack>
+      </Box>
+
+      {publicKeys.length > 0 && (
+        <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+          <VStack gap="space-8">
+            <Heading level="2" size="medium">
+              Offentlige nøkler
+            </Heading>
+            <BodyShort textColor="subtle">
+              Signaturen (JWS) kan også verifiseres uavhengig av denne tjenesten med disse nøklene.
+            </BodyShort>
+            <pre style={{ fontSize: '0.75rem', whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+              {JSON.stringify({ keys: publicKeys }, null, 2)}
+            </pre>
+          </VStack>
+        </Box>
+      )}
+    </VStack>
+  )
+}
@@ -1,6 +1,7 @@
-import { DownloadIcon, EyeIcon } from '@navikt/aksel-icons'
+import { DownloadIcon, EyeIcon, ShieldCheckmarkIcon } from '@navikt/aksel-icons'
 import {
   Link as AkselLink,
+  Alert,
   BodyShort,
   Box,
   Button,
@@ -8,22 +9,77 @@ import {
   Heading,
   Hide,
   HStack,
+  Select,
   Show,
   Table,
   Tag,
   VStack,
 } from '@navikt/ds-react'
-import { Link, useLoaderData } from 'react-router'
+import { useEffect, useState } from 'react'
+import { Form, Link, useActionData, useLoaderData, useNavigation, useRevalidator } from 'react-router'
 import { getAllAuditReports } from '~/db/audit-reports.server'
+import { createSectionReportJob, getSectionReportJobs, type SectionReportJob } from '~/db/report-jobs.server'
+import { getAllSections } from '~/db/sections.server'
 import { requireAdmin } from '~/lib/auth.server'
+import { logger } from '~/lib/logger.server'
+import { getCompletedPeriods, REPORT_PERIOD_TYPE_LABELS, type ReportPeriodType } from '~/lib/report-periods'
+import { processSectionReportJob } from '~/lib/section-audit-report.server'
 import styles from '~/styles/common.module.css'
 import type { Route } from './+types/audit-reports'
 
 export async function loader({ request }: Route.LoaderArgs) {
   await requireAdmin(request)
 
-  const reports = await getAllAuditReports()
-  return { reports }
+  const [reports, sections, sectionJobs] = await Promise.all([
+    getAllAuditReports(),
+    getAllSections(),
+    getSectionReportJobs(),
+  ])
+  return { reports, sections, sectionJobs }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request)
+
+  const formData = await request.formData()
+  const intent = formData.get('intent')
+
+  if (intent === 'generate_section_report') {
+    const sectionId = Number(formData.get('section_id'))
+    const periodType = (formData.get('period_type') as ReportPeriodType) || 'yearly'
+    const periodLabel = formData.get('period_label') as string
+    const periodStartStr = formData.get('period_start') as string
+    const periodEndStr = formData.get('period_end') as string
+    const year = Number(formData.get('year'))
+
+    if (!sectionId || !periodStartStr || !periodEndStr || !periodLabel || !year) {
+      return { error: 'Mangler påkrevde felter for rapportgenerering' }
+    }
+
+    const periodStart = new Date(periodStartStr)
+    const periodEnd = new Date(periodEndStr)
+
+    if (periodEnd > new Date()) {
+      return { error: 'Kan ikke generere rapport for ufullstendige perioder' }
+    }
+
+    let jobId: string
+    try {
+      jobId = await createSectionReportJob(sectionId, year, periodType, periodLabel, periodStart, periodEnd)
+    } catch (err) {
+      logger.error('Failed to create section report job', err)
+      return { error: 'Kunne ikke opprette rapportjobb. Sjekk serverloggen for detaljer.' }
+    }
+
+    // Start async processing (fire and forget)
+    processSectionReportJob({ jobId, sectionId, periodType, periodLabel, periodStart, periodEnd }).catch((err) => {
+      logger.error(`Section report job ${jobId} failed:`, err)
+    })
+
+    return { success: 'Seksjonsrapporten genereres. Den vises i listen når den er ferdig.' }
+  }
+
+  return { error: 'Ukjent handling' }
 }
 
 export function meta() {
@@ -41,6 +97,172 @@ function formatDateTime(date: Date | string): string {
   })
 }
 
+const JOB_STATUS_LABELS: Record<SectionReportJob['status'], string> = {
+  pending: 'I kø',
+  processing: 'Genereres',
+  completed: 'Ferdig',
+  failed: 'Feilet',
+}
+
+const JOB_STATUS_COLORS: Record<SectionReportJob['status'], 'neutral' | 'info' | 'success' | 'danger'> = {
+  pending: 'neutral',
+  processing: 'info',
+  completed: 'success',
+  failed: 'danger',
+}
+
+function SectionReportSection() {
+  const { sections, sectionJobs } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+  const navigation = useNavigation()
+  const revalidator = useRevalidator()
+
+  const [periodType, setPeriodType] = useState<ReportPeriodType>('yearly')
+  const availablePeriods = getCompletedPeriods(periodType)
+  const [selectedPeriodIndex, setSelectedPeriodIndex] = useState(0)
+  const selectedPeriod = availablePeriods[selectedPeriodIndex] || availablePeriods[0]
+
+  // Poll while any section report is still being generated
+  const hasRunningJobs = sectionJobs.some((job) => job.status === 'pending' || job.status === 'processing')
+  useEffect(() => {
+    if (!hasRunningJobs) return
+    const interval = setInterval(() => {
+      if (revalidator.state === 'idle') revalidator.revalidate()
+    }, 3000)
+    return () => clearInterval(interval)
+  }, [hasRunningJobs, revalidator])
+
+  return (
+    <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+      <VStack gap="space-16">
+        <div>
+          <Heading level="2" size="medium" spacing>
+            Seksjonsrapport
+          </Heading>
+          <BodyShort textColor="subtle">
+            Samlet leveranserapport for alle produksjonsapplikasjoner i en seksjon, med oppsummering per applikasjon,
+            avvik og ikke-verifiserte commits.
+          </BodyShort>
+        </div>
+
+        {actionData?.error && <Alert variant="error">{actionData.error}</Alert>}
+        {actionData?.success && <Alert variant="success">{actionData.success}</Alert>}
+
+        {sections.length === 0 ? (
+          <BodyShort textColor="subtle">Ingen seksjoner er opprettet.</BodyShort>
+        ) : (
+          <Form method="post">
+            <input type="hidden" name="intent" value="generate_section_report" />
+            {selectedPeriod && (
+              <>
+                <input type="hidden" name="year" value={selectedPeriod.year} />
+                <input type="hidden" name="period_type" value={selectedPeriod.type} />
+                <input type="hidden" name="period_label" value={selectedPeriod.label} />
+                <input type="hidden" name="period_start" value={selectedPeriod.startDate.toISOString()} />
+                <input type="hidden" name="period_end" value={selectedPeriod.endDate.toISOString()} />
+              </>
+            )}
+            <HStack gap="space-16" align="end" wrap>
+              <Select label="Seksjon" name="section_id" size="small" style={{ minWidth: '180px' }}>
+                {sections.map((section) => (
+                  <option key={section.id} value={section.id}>
+                    {section.name}
+                  </option>
+                ))}
+              </Select>
+
+              <Select
+                label="Rapporttype"
+                value={periodType}
+                onChange={(e) => {
+                  setPeriodType(e.target.value as ReportPeriodType)
+                  setSelectedPeriodIndex(0)
+                }}
+                size="small"
+                style={{ minWidth: '140px' }}
+              >
+                {Object.entries(REPORT_PERIOD_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+
+              <Select
+                label="Periode"
+                value={String(selectedPeriodIndex)}
+                onChange={(e) => setSelectedPeriodIndex(Number(e.target.value))}
+                size="small"
+                style={{ minWidth: '180px' }}
+              >
+                {availablePeriods.map((period, index) => (
+                  <option key={period.label} value={index}>
+                    {period.label}
+                  </option>
+                ))}
+              </Select>
+
+              <Button
+                type="submit"
+                variant="primary"
+                size="small"
+                loading={navigation.state === 'submitting'}
+                disabled={!selectedPeriod}
+              >
+                Generer seksjonsrapport
+              </Button>
+            </HStack>
+          </Form>
+        )}
+
+        {sectionJobs.length > 0 && (
+          <Table size="small">
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Seksjon</Table.HeaderCell>
+                <Table.HeaderCell>Periode</Table.HeaderCell>
+                <Table.HeaderCell>Status</Table.HeaderCell>
+                <Table.HeaderCell>Bestilt</Table.HeaderCell>
+                <Table.HeaderCell>Handlinger</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {sectionJobs.map((job) => (
+                <Table.Row key={job.job_id}>
+                  <Table.DataCell>{job.section_name}</Table.DataCell>
+                  <Table.DataCell>{job.period_label}</Table.DataCell>
+                  <Table.DataCell>
+                    <VStack gap="space-2">
+                      <Tag size="small" variant="moderate" data-color={JOB_STATUS_COLORS[job.status]}>
+                        {JOB_STATUS_LABELS[job.status]}
+                      </Tag>
+                      {job.error && <Detail textColor="subtle">{job.error}</Detail>}
+                    </VStack>
+                  </Table.DataCell>
+                  <Table.DataCell>{formatDateTime(job.created_at)}</Table.DataCell>
+                  <Table.DataCell>
+                    {job.status === 'completed' && (
+                      <Button
+                        as="a"
+                        href={`/api/reports/download?jobId=${job.job_id}`}
+                        size="small"
+                        variant="tertiary"
+                        icon={<DownloadIcon aria-hidden />}
+                      >
+                        Last ned
+                      </Button>
+                    )}
+                  </Table.DataCell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </VStack>
+    </Box>
+  )
+}
+
 export default function AdminAuditReports() {
   const { reports } = useLoaderData<typeof loader>()
 
@@ -51,11 +273,13 @@ export default function AdminAuditReports() {
           Leveranserapport
         </Heading>
         <BodyShort textColor="subtle">
-          Oversikt over genererte leveranserapporter. For å generere ny rapport, gå til admin-siden for den aktuelle
-          applikasjonen.
+          Oversikt over genererte leveranserapporter. For å generere ny rapport for én applikasjon, gå til admin-siden
+          for den aktuelle applikasjonen.
         </BodyShort>
       </div>
 
+      <SectionReportSection />
+
       <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
         <VStack gap="space-16">
           <div>
@@ -130,6 +354,24 @@ export default function AdminAuditReports() {
                             >
                               Last ned
                             </Button>
+                            <Button
+                              as="a"
+                              href={`/admin/audit-reports/${report.id}/json`}
+                              size="small"
+                              variant="tertiary"
+                              icon={<DownloadIcon aria-hidden />}
+                            >
+                              JSON
+                            </Button>
+                            <Button
+                              as={Link}
+                              to={`/admin/audit-reports/${report.id}/verify`}
+                              size="small"
+                              variant="tertiary"
+                              icon={<ShieldCheckmarkIcon aria-hidden />}
+                            >
+                              Verifiser
+                            </Button>
                           </HStack>
                         </Table.DataCell>
                       </Table.Row>
@@ -182,6 +424,24 @@ export default function AdminAuditReports() {
                           >
                             Last ned
                           </Button>
+                          <Button
+                            as="a"
+                            href={`/admin/audit-reports/${report.id}/json`}
+                            size="small"
+                            variant="secondary"
+                            icon={<DownloadIcon aria-hidden />}
+                          >
+                            JSON
+                          </Button>
+                          <Button
+                            as={Link}
+                            to={`/admin/audit-reports/${report.id}/verify`}
+                            size="small"
+                            variant="secondary"
+                            icon={<ShieldCheckmarkIcon aria-hidden />}
+                          >
+                            Verifiser
+                          </Button>
                         </HStack>
                       </VStack>
                     </Box>
@@ -0,0 +1,383 @@
+/**
+ * Event Stream Admin Page
+ *
+ * Manage the HTTP subscribers of the outbound event stream (status changes, deviations and
+ * repository alerts), follow their delivery state and retry deliveries that ran out of attempts.
+ */
+
+import { ArrowsCirclepathIcon, PlusIcon, TrashIcon } from '@navikt/aksel-icons'
+import {
+  BodyShort,
+  Box,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Detail,
+  Heading,
+  HStack,
+  Table,
+  Tag,
+  TextField,
+  VStack,
+} from '@navikt/ds-react'
+import { Form, Link, useActionData, useLoaderData } from 'react-router'
+import { ActionAlert } from '~/components/ActionAlert'
+import {
+  createEventSubscriber,
+  deleteEventSubscriber,
+  getEventSubscribers,
+  getFailedEventDeliveries,
+  getRecentOutboxEvents,
+  retryFailedEventDeliveries,
+  setEventSubscriberEnabled,
+} from '~/db/event-outbox.server'
+import { fail, ok } from '~/lib/action-result'
+import { requireAdmin } from '~/lib/auth.server'
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  OUTBOX_EVENT_TYPE_LABELS,
+  OUTBOX_EVENT_TYPES,
+  type OutboxEventType,
+} from '~/lib/event-outbox'
+import type { Route } from './+types/event-stream'
+
+const MIN_SECRET_LENGTH = 16
+
+export function meta(_args: Route.MetaArgs) {
+  return [{ title: 'Hendelsesstrøm - Admin' }]
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+  const [subscribers, failedDeliveries, recentEvents] = await Promise.all([
+    getEventSubscribers(),
+    getFailedEventDeliveries(),
+    getRecentOutboxEvents(),
+  ])
+  return { subscribers, failedDeliveries, recentEvents }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const user = await requireAdmin(request)
+  const formData = await request.formData()
+  const intent = formData.get('intent')
+
+  if (intent === 'create_subscriber') {
+    const name = (formData.get('name') as string)?.trim() || ''
+    const url = (formData.get('url') as string)?.trim() || ''
+    const secret = (formData.get('secret') as string)?.trim() || ''
+    const eventTypes = formData
+      .getAll('event_types')
+      .map(String)
+      .filter((type): type is OutboxEventType => OUTBOX_EVENT_TYPES.includes(type as OutboxEventType))
+
+    if (!name) return fail('Navn kan ikke være tomt')
+    if (!URL.canParse(url) || !['http:', 'https:'].includes(new URL(url).protocol)) {
+      return fail('Ugyldig URL')
+    }
+    if (secret.length < MIN_SECRET_LENGTH) {
+      return fail(`Hemmeligheten må være minst ${MIN_SECRET_LENGTH} tegn`)
+    }
+
+    // All event types selected is stored as no filter, so new event types are included too
+    await createEventSubscriber({
+      name,
+      url,
+      secret,
+      eventTypes: eventTypes.length === OUTBOX_EVENT_TYPES.length ? [] : eventTypes,
+      createdBy: user.navIdent,
+    })
+    return ok(`Abonnent «${name}» opprettet. Den mottar hendelser fra nå av.`)
+  }
+
+  if (intent === 'toggle_subscriber') {
+    const enabled = formData.get('enabled') === 'true'
+    const updated = await setEventSubscriberEnabled(Number(formData.get('subscriber_id')), enabled)
+    if (!updated) return fail('Abonnent ikke funnet')
+    return ok(enabled ? 'Abonnent aktivert' : 'Abonnent deaktivert. Hendelser holdes igjen til den aktiveres.')
+  }
+
+  if (intent === 'delete_subscriber') {
+    const deleted = await deleteEventSubscriber(Number(formData.get('subscriber_id')))
+    return deleted ? ok('Abonnent slettet') : fail('Abonnent ikke funnet')
+  }
+
+  if (intent === 'retry_delivery') {
+    const deliveryId = String(formData.get('delivery_id'))
+    if (!/^\d+$/.test(deliveryId)) return fail('Leveransen ble ikke funnet')
+    const count = await retryFailedEventDeliveries({ id: deliveryId })
+    return count > 0 ? ok('Leveransen prøves på nytt') : fail('Leveransen ble ikke funnet')
+  }
+
+  if (intent === 'retry_subscriber') {
+    const count = await retryFailedEventDeliveries({ subscriberId: Number(formData.get('subscriber_id')) })
+    return ok(`${count} leveranse(r) prøves på nytt`)
+  }
+
+  return fail('Ukjent handling')
+}
+
+function formatDate(date: Date | string | null): string {
+  if (!date) return '-'
+  return new Date(date).toLocaleString('nb-NO', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatEventTypes(eventTypes: OutboxEventType[]): string {
+  return eventTypes.length === 0 ? 'Alle' : eventTypes.map((type) => OUTBOX_EVENT_TYPE_LABELS[type]).join(', ')
+}
+
+export default function EventStreamPage() {
+  const { subscribers, failedDeliveries, recentEvents } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+
+  return (
+    <Box paddingBlock="space-8" paddingInline={{ xs: 'space-4', md: 'space-8' }}>
+      <VStack gap="space-24">
+        <VStack gap="space-8">
+          <Heading level="1" size="large">
+            Hendelsesstrøm
+          </Heading>
+          <BodyShort textColor="subtle">
+            Statusendringer, avvik og repository-varsler publiseres til abonnentene som signerte JSON-POSTer. Mislykkede
+            leveranser prøves på nytt med økende intervall, opptil {MAX_DELIVERY_ATTEMPTS} forsøk.
+          </BodyShort>
+        </VStack>
+
+        <ActionAlert data={actionData} />
+
+        <Box background="neutral-soft" padding="space-24" borderRadius="8">
+          <VStack gap="space-16">
+            <Heading level="2" size="small">
+              Abonnenter
+            </Heading>
+
+            {subscribers.length === 0 ? (
+              <BodyShort textColor="subtle" style={{ fontStyle: 'italic' }}>
+                Ingen abonnenter er satt opp.
+              </BodyShort>
+            ) : (
+              <Table size="small">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.HeaderCell>Navn</Table.HeaderCell>
+                    <Table.HeaderCell>URL</Table.HeaderCell>
+                    <Table.HeaderCell>Hendelser</Table.HeaderCell>
+                    <Table.HeaderCell>Levert</Table.HeaderCell>
+                    <Table.HeaderCell>Venter</Table.HeaderCell>
+                    <Table.HeaderCell>Feilet</Table.HeaderCell>
+                    <Table.HeaderCell>Sist levert</Table.HeaderCell>
+                    <Table.HeaderCell />
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {subscribers.map((subscriber) => (
+                    <Table.Row key={subscriber.id}>
+                      <Table.DataCell>
+                        <HStack gap="space-8" align="center">
+                          {subscriber.name}
+                          {!subscriber.enabled && (
+                            <Tag data-color="neutral" variant="moderate" size="xsmall">
+                              Deaktivert
+                            </Tag>
+                          )}
+                        </HStack>
+                      </Table.DataCell>
+                      <Table.DataCell style={{ wordBreak: 'break-all' }}>{subscriber.url}</Table.DataCell>
+                      <Table.DataCell>{formatEventTypes(subscriber.event_types)}</Table.DataCell>
+                      <Table.DataCell>{subscriber.delivered_count}</Table.DataCell>
+                      <Table.DataCell>{subscriber.pending_count}</Table.DataCell>
+                      <Table.DataCell>
+                        {subscriber.failed_count > 0 ? (
+                          <Tag data-color="danger" variant="moderate" size="xsmall">
+                            {subscriber.failed_count}
+                          </Tag>
+                        ) : (
+                          0
+                        )}
+                      </Table.DataCell>
+                      <Table.DataCell>
+                        <Detail>{formatDate(subscriber.last_delivered_at)}</Detail>
+                      </Table.DataCell>
+                      <Table.DataCell>
+                        <HStack gap="space-4" wrap={false}>
+                          {subscriber.failed_count > 0 && (
+                            <Form method="post">
+                              <input type="hidden" name="intent" value="retry_subscriber" />
+                              <input type="hidden" name="subscriber_id" value={subscriber.id} />
+                              <Button
+                                type="submit"
+                                size="xsmall"
+                                variant="tertiary"
+                                icon={<ArrowsCirclepathIcon aria-hidden />}
+                              >
+                                Prøv feilede på nytt
+                              </Button>
+                            </Form>
+                          )}
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="toggle_subscriber" />
+                            <input type="hidden" name="subscriber_id" value={subscriber.id} />
+                            <input type="hidden" name="enabled" value={String(!subscriber.enabled)} />
+                            <Button type="submit" size="xsmall" variant="tertiary">
+                              {subscriber.enabled ? 'Deaktiver' : 'Aktiver'}
+                            </Button>
+                          </Form>
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="delete_subscriber" />
+                            <input type="hidden" name="subscriber_id" value={subscriber.id} />
+                            <Button type="submit" size="xsmall" variant="tertiary" icon={<TrashIcon aria-hidden />}>
+                              Slett
+                            </Button>
+                          </Form>
+                        </HStack>
+                      </Table.DataCell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table>
+            )}
+
+            <Form method="post">
+              <input type="hidden" name="intent" value="create_subscriber" />
+              <VStack gap="space-16">
+                <Heading level="3" size="xsmall">
+                  Ny abonnent
+                </Heading>
+                <HStack gap="space-16" wrap>
+                  <TextField label="Navn" name="name" size="small" />
+                  <TextField label="URL" name="url" size="small" style={{ minWidth: '400px' }} />
+                </HStack>
+                <TextField
+                  label="Hemmelighet"
+                  name="secret"
+                  type="password"
+                  size="small"
+                  autoComplete="off"
+                  description={`Minst ${MIN_SECRET_LENGTH} tegn. Brukes til signaturen i X-Deployment-Audit-Signature (sha256=HMAC av innholdet).`}
+                  style={{ maxWidth: '400px' }}
+                />
+                <CheckboxGroup legend="Hendelser" size="small" defaultValue={[...OUTBOX_EVENT_TYPES]}>
+                  {OUTBOX_EVENT_TYPES.map((type) => (
+                    <Checkbox key={type} name="event_types" value={type}>
+                      {OUTBOX_EVENT_TYPE_LABELS[type]} (<code>{type}</code>)
+                    </Checkbox>
+                  ))}
+                </CheckboxGroup>
+                <div>
+                  <Button type="submit" size="small" variant="secondary" icon={<PlusIcon aria-hidden />}>
+                    Legg til abonnent
+                  </Button>
+                </div>
+              </VStack>
+            </Form>
+          </VStack>
+        </Box>
+
+        <Box background="neutral-soft" padding="space-24" borderRadius="8">
+          <VStack gap="space-16">
+            <Heading level="2" size="small">
+              Feilede leveranser
+            </Heading>
+            {failedDeliveries.length === 0 ? (
+              <BodyShort textColor="subtle" style={{ fontStyle: 'italic' }}>
+                Ingen feilede leveranser.
+              </BodyShort>
+            ) : (
+              <Table size="small">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.HeaderCell>Siste forsøk</Table.HeaderCell>
+                    <Table.HeaderCell>Abonnent</Table.HeaderCell>
+                    <Table.HeaderCell>Hendelse</Table.HeaderCell>
+                    <Table.HeaderCell>Forsøk</Table.HeaderCell>
+                    <Table.HeaderCell>Feil</Table.HeaderCell>
+                    <Table.HeaderCell />
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {failedDeliveries.map((delivery) => (
+                    <Table.Row key={delivery.id}>
+                      <Table.DataCell>
+                        <Detail>{formatDate(delivery.last_attempt_at)}</Detail>
+                      </Table.DataCell>
+                      <Table.DataCell>{delivery.subscriber_name}</Table.DataCell>
+                      <Table.DataCell>
+                        {OUTBOX_EVENT_TYPE_LABELS[delivery.event_type]} #{delivery.event_id}
+                      </Table.DataCell>
+                      <Table.DataCell>{delivery.attempts}</Table.DataCell>
+                      <Table.DataCell>
+                        <Detail>{delivery.last_error}</Detail>
+                      </Table.DataCell>
+                      <Table.DataCell>
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="retry_delivery" />
+                          <input type="hidden" name="delivery_id" value={delivery.id} />
+                          <Button
+                            type="submit"
+                            size="xsmall"
+                            variant="tertiary"
+                            icon={<ArrowsCirclepathIcon aria-hidden />}
+                          >
+                            Prøv igjen
+                          </Button>
+                        </Form>
+                      </Table.DataCell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table>
+            )}
+          </VStack>
+        </Box>
+
+        <Box background="neutral-soft" padding="space-24" borderRadius="8">
+          <VStack gap="space-16">
+            <Heading level="2" size="small">
+              Siste hendelser
+            </Heading>
+            {recentEvents.length === 0 ? (
+              <BodyShort textColor="subtle" style={{ fontStyle: 'italic' }}>
+                Ingen hendelser ennå.
+              </BodyShort>
+            ) : (
+              <Table size="small">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.HeaderCell>#</Table.HeaderCell>
+                    <Table.HeaderCell>Tidspunkt</Table.HeaderCell>
+                    <Table.HeaderCell>Hendelse</Table.HeaderCell>
+                    <Table.HeaderCell>Deployment</Table.HeaderCell>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {recentEvents.map((event) => (
+                    <Table.Row key={event.id}>
+                      <Table.DataCell>{event.id}</Table.DataCell>
+                      <Table.DataCell>
+                        <Detail>{formatDate(event.created_at)}</Detail>
+                      </Table.DataCell>
+                      <Table.DataCell>{OUTBOX_EVENT_TYPE_LABELS[event.event_type]}</Table.DataCell>
+                      <Table.DataCell>
+                        {event.deployment_id ? (
+                          <Link to={`/deployments/${event.deployment_id}`}>{event.deployment_id}</Link>
+                        ) : (
+                          '-'
+                        )}
+                      </Table.DataCell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table>
+            )}
+          </VStack>
+        </Box>
+      </VStack>
+    </Box>
+  )
+}
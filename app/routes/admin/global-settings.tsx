@@ -1,15 +1,29 @@
 /**
  * Global Settings Admin Page
  *
- * Configure application-wide settings like deviation Slack channel.
+ * Configure application-wide settings like deviation Slack channel, global notification
+ * channels and which environments/apps count as production.
  */
 
-import { BodyShort, Box, Button, Heading, TextField, VStack } from '@navikt/ds-react'
+import { BodyShort, Box, Button, Heading, Select, Table, TextField, VStack } from '@navikt/ds-react'
 import { Form, useActionData, useLoaderData } from 'react-router'
 import { ActionAlert } from '~/components/ActionAlert'
-import { getDeviationSlackChannel, updateDeviationSlackChannel } from '~/db/global-settings.server'
+import { NotificationChannelsSection } from '~/components/NotificationChannelsSection'
+import {
+  getDeviationSlackChannel,
+  getProductionEnvironmentSettings,
+  updateDeviationSlackChannel,
+  updateProductionEnvironmentSettings,
+} from '~/db/global-settings.server'
+import { getAllMonitoredApplications } from '~/db/monitored-applications.server'
 import { fail, ok } from '~/lib/action-result'
 import { requireAdmin } from '~/lib/auth.server'
+import {
+  getNotificationChannelSettings,
+  handleNotificationChannelAction,
+  isNotificationChannelAction,
+} from '~/lib/notifications/channel-actions.server'
+import { isProductionApp, parseEnvironmentList } from '~/lib/production-environments'
 import type { Route } from './+types/global-settings'
 
 export function meta(_args: Route.MetaArgs) {
@@ -18,15 +32,24 @@ export function meta(_args: Route.MetaArgs) {
 
 export async function loader({ request }: Route.LoaderArgs) {
   await requireAdmin(request)
-  const deviationChannel = await getDeviationSlackChannel()
-  return { deviationChannel }
+  const [deviationChannel, productionSettings, apps, notificationChannels] = await Promise.all([
+    getDeviationSlackChannel(),
+    getProductionEnvironmentSettings(),
+    getAllMonitoredApplications(),
+    getNotificationChannelSettings(null),
+  ])
+  return { deviationChannel, productionSettings, apps, notificationChannels }
 }
 
 export async function action({ request }: Route.ActionArgs) {
-  await requireAdmin(request)
+  const user = await requireAdmin(request)
   const formData = await request.formData()
   const intent = formData.get('intent')
 
+  if (isNotificationChannelAction(intent)) {
+    return handleNotificationChannelAction(intent, formData, { monitoredAppId: null, createdBy: user.navIdent })
+  }
+
   if (intent === 'update_deviation_channel') {
     const channelId = (formData.get('channel_id') as string)?.trim() || ''
     try {
@@ -37,11 +60,48 @@ export async function action({ request }: Route.ActionArgs) {
     }
   }
 
+  if (intent === 'update_production_environments') {
+    const environments = parseEnvironmentList((formData.get('environments') as string) || '')
+    if (environments.length === 0) {
+      return fail('Minst ett produksjonsmiljø må være valgt')
+    }
+
+    // Per-app classification: app_<id> = 'auto' | 'production' | 'non_production'
+    const productionAppIds: number[] = []
+    const nonProductionAppIds: number[] = []
+    for (const [key, value] of formData.entries()) {
+      const appId = key.startsWith('app_') ? Number(key.slice(4)) : Number.NaN
+      if (!Number.isInteger(appId)) continue
+      if (value === 'production') productionAppIds.push(appId)
+      if (value === 'non_production') nonProductionAppIds.push(appId)
+    }
+
+    try {
+      await updateProductionEnvironmentSettings({
+        environments,
+        production_app_ids: productionAppIds,
+        non_production_app_ids: nonProductionAppIds,
+      })
+      return ok('Produksjonsmiljøer oppdatert')
+    } catch (_error) {
+      return fail('Kunne ikke oppdatere produksjonsmiljøer')
+    }
+  }
+
   return fail('Ukjent handling')
 }
 
+function getAppClassification(
+  settings: { production_app_ids: number[]; non_production_app_ids: number[] },
+  appId: number,
+): 'auto' | 'production' | 'non_production' {
+  if (settings.production_app_ids.includes(appId)) return 'production'
+  if (settings.non_production_app_ids.includes(appId)) return 'non_production'
+  return 'auto'
+}
+
 export default function GlobalSettingsPage() {
-  const { deviationChannel } = useLoaderData<typeof loader>()
+  const { deviationChannel, productionSettings, apps, notificationChannels } = useLoaderData<typeof loader>()
   const actionData = useActionData<typeof action>()
 
   return (
@@ -81,6 +141,86 @@ export default function GlobalSettingsPage() {
             </Form>
           </VStack>
         </Box>
+
+        <NotificationChannelsSection
+          {...notificationChannels}
+          intentField="intent"
+          description="Globale kanaler mottar avvik og uverifiserte deployments for alle apper. Kanaler for én app settes opp under appens administrasjon."
+        />
+
+        <Box background="neutral-soft" padding="space-24" borderRadius="8">
+          <VStack gap="space-16">
+            <Heading level="2" size="small">
+              Produksjonsmiljøer
+            </Heading>
+            <BodyShort>
+              Bestemmer hvilke apper som regnes som produksjon. Kun produksjonsapper kan få leveranserapport, og
+              dashboard-statistikken teller kun produksjonsdeployments. Enkeltapper kan overstyres.
+            </BodyShort>
+
+            <Form method="post">
+              <input type="hidden" name="intent" value="update_production_environments" />
+              <VStack gap="space-16">
+                <TextField
+                  name="environments"
+                  label="Miljøer"
+                  description="Kommaseparert liste med Nais-miljøer der alle apper er produksjon"
+                  placeholder="prod-fss, prod-gcp"
+                  defaultValue={productionSettings.environments.join(', ')}
+                  style={{ maxWidth: '400px' }}
+                />
+
+                {apps.length > 0 && (
+                  <Table size="small">
+                    <Table.Header>
+                      <Table.Row>
+                        <Table.HeaderCell>Applikasjon</Table.HeaderCell>
+                        <Table.HeaderCell>Miljø</Table.HeaderCell>
+                        <Table.HeaderCell>Klassifisering</Table.HeaderCell>
+                      </Table.Row>
+                    </Table.Header>
+                    <Table.Body>
+                      {apps.map((app) => (
+                        <Table.Row key={app.id}>
+                          <Table.DataCell>
+                            {app.team_slug}/{app.app_name}
+                          </Table.DataCell>
+                          <Table.DataCell>{app.environment_name}</Table.DataCell>
+                          <Table.DataCell>
+                            <Select
+                              label="Klassifisering"
+                              hideLabel
+                              size="small"
+                              name={`app_${app.id}`}
+                              defaultValue={getAppClassification(productionSettings, app.id)}
+                            >
+                              <option value="auto">
+                                Fra miljø (
+                                {isProductionApp(
+                                  { ...productionSettings, production_app_ids: [], non_production_app_ids: [] },
+                                  app,
+                                )
+                                  ? 'produksjon'
+                                  : 'ikke produksjon'}
+                                )
+                              </option>
+                              <option value="production">Produksjon</option>
+                              <option value="non_production">Ikke produksjon</option>
+                            </Select>
+                          </Table.DataCell>
+                        </Table.Row>
+                      ))}
+                    </Table.Body>
+                  </Table>
+                )}
+
+                <Button type="submit" variant="primary">
+                  Lagre
+                </Button>
+              </VStack>
+            </Form>
+          </VStack>
+        </Box>
       </VStack>
     </Box>
   )
@@ -6,6 +6,7 @@ import {
   CogIcon,
   FileTextIcon,
   LaptopIcon,
+  PaperplaneIcon,
   PersonGroupIcon,
 } from '@navikt/aksel-icons'
 import { BodyShort, Box, Heading, HGrid, VStack } from '@navikt/ds-react'
@@ -183,6 +184,30 @@ export default function AdminIndex() {
           </Box>
         </Link>
 
+        <Link to="/admin/event-stream" style={{ textDecoration: 'none', height: '100%' }}>
+          <Box
+            padding="space-24"
+            borderRadius="8"
+            background="raised"
+            borderColor="neutral-subtle"
+            borderWidth="1"
+            className="admin-card"
+            style={{ height: '100%' }}
+          >
+            <VStack gap="space-12">
+              <PaperplaneIcon fontSize="2rem" aria-hidden />
+              <div>
+                <Heading level="2" size="small" spacing>
+                  Hendelsesstrøm
+                </Heading>
+                <BodyShort textColor="subtle">
+                  Abonnenter på statusendringer, avvik og repository-varsler, og feilede leveranser.
+                </BodyShort>
+              </div>
+            </VStack>
+          </Box>
+        </Link>
+
         <Link to="/admin/env" style={{ textDecoration: 'none', height: '100%' }}>
           <Box
             padding="space-24"
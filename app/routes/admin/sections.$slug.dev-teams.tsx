@@ -84,6 +84,8 @@ export async function action({ request, params }: Route.ActionArgs) {
   if (intent === 'update') {
     const id = Number(formData.get('id'))
     const name = (formData.get('name') as string)?.trim()
+    const productLead = (formData.get('product_lead_nav_ident') as string)?.trim()
+    const deliveryLead = (formData.get('delivery_lead_nav_ident') as string)?.trim()
     const naisTeamSlugs = (formData.get('nais_team_slugs') as string)
       ?.split(',')
       .map((s) => s.trim())
@@ -94,7 +96,11 @@ export async function action({ request, params }: Route.ActionArgs) {
     }
 
     try {
-      await updateDevTeam(id, { name })
+      await updateDevTeam(id, {
+        name,
+        product_lead_nav_ident: productLead || null,
+        delivery_lead_nav_ident: deliveryLead || null,
+      })
       await setDevTeamNaisTeams(id, naisTeamSlugs ?? [])
       return { success: true }
     } catch (error) {
@@ -273,6 +279,25 @@ function DevTeamRow({
                   style={{ minWidth: '400px' }}
                 />
               </HStack>
+              <HStack gap="space-16" wrap>
+                <TextField
+                  label="Produktleder (NAV-ident)"
+                  name="product_lead_nav_ident"
+                  size="small"
+                  defaultValue={team.product_lead_nav_ident ?? ''}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Leveranseleder (NAV-ident)"
+                  name="delivery_lead_nav_ident"
+                  size="small"
+                  defaultValue={team.delivery_lead_nav_ident ?? ''}
+                  autoComplete="off"
+                />
+              </HStack>
+              <BodyShort size="small" textColor="subtle">
+                Avvik tildeles produktleder eller leveranseleder etter valgt oppfølgingsansvar.
+              </BodyShort>
               <HStack gap="space-8">
                 <Button type="submit" size="small">
                   Lagre
@@ -50,6 +50,7 @@ export async function action({ request }: Route.ActionArgs) {
     const name = (formData.get('name') as string)?.trim()
     const entraGroupAdmin = (formData.get('entra_group_admin') as string)?.trim()
     const entraGroupUser = (formData.get('entra_group_user') as string)?.trim()
+    const sectionLead = (formData.get('section_lead_nav_ident') as string)?.trim()
     const teamSlugs = (formData.get('team_slugs') as string)
       ?.split(',')
       .map((s) => s.trim())
@@ -64,6 +65,7 @@ export async function action({ request }: Route.ActionArgs) {
         name,
         entra_group_admin: entraGroupAdmin || null,
         entra_group_user: entraGroupUser || null,
+        section_lead_nav_ident: sectionLead || null,
       })
       if (teamSlugs) {
         await setSectionTeams(id, teamSlugs)
@@ -233,6 +235,14 @@ function SectionRow({
                   defaultValue={section.entra_group_user ?? ''}
                   autoComplete="off"
                 />
+                <TextField
+                  label="Seksjonsleder (NAV-ident)"
+                  description="Får avvik med oppfølging av seksjonsleder"
+                  name="section_lead_nav_ident"
+                  size="small"
+                  defaultValue={section.section_lead_nav_ident ?? ''}
+                  autoComplete="off"
+                />
               </HStack>
               <HStack gap="space-8">
                 <Button type="submit" size="small">
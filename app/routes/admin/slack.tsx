@@ -7,7 +7,8 @@
 import { Alert, BodyShort, Box, Button, Heading, HStack, TextField, VStack } from '@navikt/ds-react'
 import { Form, useActionData, useLoaderData } from 'react-router'
 import { requireAdmin } from '~/lib/auth.server'
-import { type DeploymentNotification, isSlackConfigured, sendDeploymentNotification } from '~/lib/slack'
+import { postSlackMessage } from '~/lib/notifications/slack-channel.server'
+import { type DeploymentNotification, isSlackConfigured } from '~/lib/slack'
 import type { Route } from './+types/slack'
 
 export async function loader({ request }: Route.LoaderArgs) {
@@ -51,10 +52,10 @@ export async function action({ request }: Route.ActionArgs) {
     }
 
     try {
-      const messageTs = await sendDeploymentNotification(testNotification, channelId)
+      const result = await postSlackMessage({ type: 'deployment', notification: testNotification }, channelId)
 
-      if (messageTs) {
-        return { success: true, messageTs }
+      if (result.success) {
+        return { success: true, messageTs: result.externalId }
       }
       return { success: false, error: 'Kunne ikke sende melding - sjekk server-logger' }
     } catch (error) {
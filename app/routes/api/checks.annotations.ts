@@ -1,3 +1,4 @@
+import { requireRepositoryAccess } from '~/lib/authorization.server'
 import { getGitHubClient } from '~/lib/github'
 import { logger } from '~/lib/logger.server'
 import type { Route } from './+types/checks.annotations'
@@ -17,6 +18,8 @@ export async function loader({ request }: Route.LoaderArgs) {
     return Response.json({ error: 'check_run_id must be a number' }, { status: 400 })
   }
 
+  await requireRepositoryAccess(request, owner, repo)
+
   try {
     const client = getGitHubClient()
     const response = await client.checks.listAnnotations({
@@ -1,3 +1,4 @@
+import { requireRepositoryAccess } from '~/lib/authorization.server'
 import { downloadLog, isGcsConfigured, logExists, uploadLog } from '~/lib/gcs.server'
 import { getGitHubClient } from '~/lib/github'
 import { logger } from '~/lib/logger.server'
@@ -18,6 +19,8 @@ export async function loader({ request }: Route.LoaderArgs) {
     return Response.json({ error: 'job_id must be a number' }, { status: 400 })
   }
 
+  await requireRepositoryAccess(request, owner, repo)
+
   // Try GCS first (cached logs)
   if (isGcsConfigured()) {
     try {
@@ -1,14 +1,23 @@
-import { searchDeployments } from '~/db/deployments.server'
+import { searchDeploymentsWithFacets } from '~/db/deployments.server'
+import { requireUser } from '~/lib/auth.server'
+import { getReadableTeamFilter } from '~/lib/authorization.server'
+import { parseSearchFilters } from '~/lib/search'
 import type { Route } from './+types/search'
 
 export async function loader({ request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
   const url = new URL(request.url)
   const query = url.searchParams.get('q') || ''
 
   if (!query.trim()) {
-    return Response.json({ results: [] })
+    return Response.json({ results: [], facets: null })
   }
 
-  const results = await searchDeployments(query, 10)
-  return Response.json({ results })
+  const response = await searchDeploymentsWithFacets(
+    query,
+    10,
+    parseSearchFilters(url.searchParams),
+    await getReadableTeamFilter(user),
+  )
+  return Response.json(response)
 }
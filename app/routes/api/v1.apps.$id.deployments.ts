@@ -0,0 +1,41 @@
+import { getDeploymentsPaginated } from '~/db/deployments.server'
+import { getMonitoredApplicationById } from '~/db/monitored-applications.server'
+import { parseDeploymentQuery, toApiDeployment } from '~/lib/api-v1'
+import { requireApiAccess } from '~/lib/auth.server'
+import { requireApiTeamAccess } from '~/lib/authorization.server'
+import type { Route } from './+types/v1.apps.$id.deployments'
+
+// GET: Paginated deployments for a monitored application, newest first
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const identity = await requireApiAccess(request)
+
+  const appId = Number(params.id)
+  if (!Number.isInteger(appId)) {
+    return Response.json({ error: 'Invalid app id' }, { status: 400 })
+  }
+
+  const app = await getMonitoredApplicationById(appId)
+  if (!app) {
+    return Response.json({ error: 'App not found' }, { status: 404 })
+  }
+  await requireApiTeamAccess(identity, app.team_slug)
+
+  const query = parseDeploymentQuery(new URL(request.url).searchParams)
+  if (query.error !== undefined) {
+    return Response.json({ error: query.error }, { status: 400 })
+  }
+
+  const result = await getDeploymentsPaginated({
+    ...query.filters,
+    monitored_app_id: app.id,
+    audit_start_year: app.audit_start_year,
+  })
+
+  return Response.json({
+    deployments: result.deployments.map(toApiDeployment),
+    page: result.page,
+    perPage: result.per_page,
+    total: result.total,
+    totalPages: result.total_pages,
+  })
+}
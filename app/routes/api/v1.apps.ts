@@ -0,0 +1,18 @@
+import { getAllMonitoredApplications } from '~/db/monitored-applications.server'
+import { toApiApp } from '~/lib/api-v1'
+import { requireApiAccess } from '~/lib/auth.server'
+import { getReadableTeamFilter } from '~/lib/authorization.server'
+import type { Route } from './+types/v1.apps'
+
+// GET: List active monitored applications (for users, only those in their sections)
+export async function loader({ request }: Route.LoaderArgs) {
+  const identity = await requireApiAccess(request)
+
+  const apps = await getAllMonitoredApplications()
+  if (identity.type === 'service') {
+    return Response.json({ apps: apps.map(toApiApp) })
+  }
+
+  const canRead = await getReadableTeamFilter(identity.user)
+  return Response.json({ apps: apps.filter((app) => canRead(app.team_slug)).map(toApiApp) })
+}
@@ -0,0 +1,29 @@
+import { getDeploymentById } from '~/db/deployments.server'
+import { getLatestVerificationRun } from '~/db/github-data.server'
+import { toApiDeployment, toApiVerificationRun } from '~/lib/api-v1'
+import { requireApiAccess } from '~/lib/auth.server'
+import { requireApiTeamAccess } from '~/lib/authorization.server'
+import type { Route } from './+types/v1.deployments.$id'
+
+// GET: A single deployment with its latest verification run
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const identity = await requireApiAccess(request)
+
+  const deploymentId = Number(params.id)
+  if (!Number.isInteger(deploymentId)) {
+    return Response.json({ error: 'Invalid deployment id' }, { status: 400 })
+  }
+
+  const deployment = await getDeploymentById(deploymentId)
+  if (!deployment) {
+    return Response.json({ error: 'Deployment not found' }, { status: 404 })
+  }
+  await requireApiTeamAccess(identity, deployment.team_slug)
+
+  const latestRun = await getLatestVerificationRun(deployment.id)
+
+  return Response.json({
+    deployment: toApiDeployment(deployment),
+    latestVerificationRun: latestRun ? toApiVerificationRun(latestRun) : null,
+  })
+}
@@ -0,0 +1,63 @@
+import { getAuditReportById } from '~/db/audit-reports.server'
+import { toApiReportVerification } from '~/lib/api-v1'
+import { requireApiAccess } from '~/lib/auth.server'
+import { requireApiTeamAccess } from '~/lib/authorization.server'
+import { verifyStoredAuditReport, verifyUploadedAuditReport } from '~/lib/report-verification.server'
+import type { Route } from './+types/v1.reports.$id.verify'
+
+async function loadReport(id: string | undefined) {
+  const reportId = Number(id)
+  if (!Number.isInteger(reportId)) {
+    return { error: Response.json({ error: 'Invalid report id' }, { status: 400 }) }
+  }
+
+  const report = await getAuditReportById(reportId)
+  if (!report) {
+    return { error: Response.json({ error: 'Report not found' }, { status: 404 }) }
+  }
+  return { report }
+}
+
+// GET: Verify the stored report (signature and hash chain)
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const identity = await requireApiAccess(request)
+
+  const { report, error } = await loadReport(params.id)
+  if (error) return error
+  await requireApiTeamAccess(identity, report.team_slug)
+
+  const stored = await verifyStoredAuditReport(report)
+  return Response.json(toApiReportVerification(report, stored, null))
+}
+
+// POST: Verify an uploaded copy, sent as the raw body or as a multipart `file` field
+export async function action({ request, params }: Route.ActionArgs) {
+  const identity = await requireApiAccess(request)
+
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 })
+  }
+
+  const { report, error } = await loadReport(params.id)
+  if (error) return error
+  await requireApiTeamAccess(identity, report.team_slug)
+
+  let bytes: Uint8Array
+  if (request.headers.get('Content-Type')?.startsWith('multipart/form-data')) {
+    const file = (await request.formData()).get('file')
+    if (!(file instanceof File)) {
+      return Response.json({ error: 'Missing file' }, { status: 400 })
+    }
+    bytes = new Uint8Array(await file.arrayBuffer())
+  } else {
+    bytes = new Uint8Array(await request.arrayBuffer())
+  }
+
+  const uploaded = await verifyUploadedAuditReport(report, bytes)
+  if (!uploaded.kind) {
+    return Response.json({ error: 'Body must be a report PDF or JSON export' }, { status: 400 })
+  }
+
+  const stored = await verifyStoredAuditReport(report)
+  return Response.json(toApiReportVerification(report, stored, uploaded))
+}
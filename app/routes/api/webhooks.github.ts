@@ -0,0 +1,54 @@
+import { isSupportedWebhookEvent, verifyWebhookSignature, type WebhookPayload } from '~/lib/github'
+import { logger } from '~/lib/logger.server'
+import { processGitHubWebhook, verifyAppsAfterWebhook } from '~/lib/sync'
+import type { Route } from './+types/webhooks.github'
+
+/**
+ * GitHub webhook intake.
+ *
+ * Accepts pull_request, pull_request_review, check_run and push events signed with
+ * GITHUB_WEBHOOK_SECRET. Invalidates cached GitHub data for the affected PRs/commits
+ * and triggers verification for the matching monitored apps in the background.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 })
+  }
+
+  const secret = process.env.GITHUB_WEBHOOK_SECRET
+  if (!secret) {
+    logger.warn('GitHub webhook received, but GITHUB_WEBHOOK_SECRET is not set')
+    return Response.json({ error: 'Webhook not configured' }, { status: 503 })
+  }
+
+  const rawBody = await request.text()
+  if (!verifyWebhookSignature(rawBody, request.headers.get('x-hub-signature-256'), secret)) {
+    return Response.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  const event = request.headers.get('x-github-event')
+  if (event === 'ping') {
+    return Response.json({ ok: true })
+  }
+  if (!isSupportedWebhookEvent(event)) {
+    return Response.json({ ignored: true, event }, { status: 202 })
+  }
+
+  let payload: WebhookPayload
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return Response.json({ error: 'Invalid JSON payload' }, { status: 400 })
+  }
+
+  const result = await processGitHubWebhook(event, payload)
+
+  // Respond before verifying - GitHub expects a reply within 10 seconds
+  if (result.monitoredAppIds.length > 0) {
+    verifyAppsAfterWebhook(result.monitoredAppIds).catch((err) => {
+      logger.error('❌ Webhook-triggered verification failed:', err)
+    })
+  }
+
+  return Response.json(result, { status: 202 })
+}
@@ -8,6 +8,7 @@ import {
   Heading,
   HStack,
   Select,
+  Table,
   Tag,
   TextField,
   VStack,
@@ -29,6 +30,8 @@ import {
 } from '~/db/boards.server'
 import { getDevTeamBySlug } from '~/db/dev-teams.server'
 import { requireUser } from '~/lib/auth.server'
+import { requireSectionAccess } from '~/lib/authorization.server'
+import { type GoalLinkPreviewItem, previewBoardAutoLinks } from '~/lib/goal-linking.server'
 import type { Route } from './+types/boards.$devTeamSlug.$boardId'
 
 export function meta({ data }: Route.MetaArgs) {
@@ -36,20 +39,27 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export async function loader({ request, params }: Route.LoaderArgs) {
-  await requireUser(request)
+  const user = await requireUser(request)
   const devTeam = await getDevTeamBySlug(params.devTeamSlug)
   if (!devTeam) throw new Response('Utviklingsteam ikke funnet', { status: 404 })
+  requireSectionAccess(user, devTeam.section_id)
 
   const board = await getBoardWithObjectives(Number(params.boardId))
   if (!board || board.dev_team_id !== devTeam.id) throw new Response('Tavle ikke funnet', { status: 404 })
 
-  return { devTeam, board }
+  const autoLinkPreview = await previewBoardAutoLinks(devTeam, board)
+
+  return { devTeam, board, autoLinkPreview }
 }
 
 export async function action({ request, params }: Route.ActionArgs) {
-  await requireUser(request)
+  const user = await requireUser(request)
   const devTeam = await getDevTeamBySlug(params.devTeamSlug)
   if (!devTeam) throw new Response('Utviklingsteam ikke funnet', { status: 404 })
+  requireSectionAccess(user, devTeam.section_id)
+
+  const board = await getBoardWithObjectives(Number(params.boardId))
+  if (!board || board.dev_team_id !== devTeam.id) throw new Response('Tavle ikke funnet', { status: 404 })
 
   const formData = await request.formData()
   const intent = formData.get('intent') as string
@@ -120,7 +130,7 @@ export async function action({ request, params }: Route.ActionArgs) {
 }
 
 export default function BoardDetail() {
-  const { devTeam, board } = useLoaderData<typeof loader>()
+  const { devTeam, board, autoLinkPreview } = useLoaderData<typeof loader>()
   const [showAddObjective, setShowAddObjective] = useState(false)
 
   return (
@@ -161,6 +171,8 @@ export default function BoardDetail() {
         <ObjectiveCard key={objective.id} objective={objective} />
       ))}
 
+      {board.objectives.length > 0 && <AutoLinkPreview board={board} items={autoLinkPreview} />}
+
       {!showAddObjective ? (
         <HStack>
           <Button
@@ -296,6 +308,88 @@ function ObjectiveCard({ objective }: { objective: ObjectiveWithKeyResults }) {
   )
 }
 
+const AUTO_LINK_METHOD_LABELS: Record<string, string> = {
+  pr_title: 'PR-tittel',
+  commit_keyword: 'Commit-nøkkelord',
+}
+
+function AutoLinkPreview({
+  board,
+  items,
+}: {
+  board: { objectives: ObjectiveWithKeyResults[] }
+  items: GoalLinkPreviewItem[]
+}) {
+  const goalTitles = new Map<string, string>()
+  for (const objective of board.objectives) {
+    goalTitles.set(`${objective.id}:`, objective.title)
+    for (const kr of objective.key_results) {
+      goalTitles.set(`:${kr.id}`, `${objective.title} → ${kr.title}`)
+    }
+  }
+
+  return (
+    <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+      <VStack gap="space-16">
+        <div>
+          <Heading level="2" size="small">
+            Automatisk kobling
+          </Heading>
+          <BodyShort size="small" textColor="subtle">
+            Deployments i perioden som nevner en Jira-nøkkel eller kode fra en ekstern lenke i PR-tittel, PR-beskrivelse
+            eller commit-meldinger. Koblingene opprettes automatisk etter verifisering.
+          </BodyShort>
+        </div>
+
+        {items.length === 0 ? (
+          <BodyShort size="small">Ingen deployments i perioden nevner målene på denne tavlen.</BodyShort>
+        ) : (
+          <Table size="small">
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Deployment</Table.HeaderCell>
+                <Table.HeaderCell>Mål</Table.HeaderCell>
+                <Table.HeaderCell>Nøkkelord</Table.HeaderCell>
+                <Table.HeaderCell>Kilde</Table.HeaderCell>
+                <Table.HeaderCell>Status</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {items.flatMap(({ deployment, matches }) =>
+                matches.map((match) => (
+                  <Table.Row key={`${deployment.id}-${match.objective_id}-${match.key_result_id}`}>
+                    <Table.DataCell>
+                      <AkselLink
+                        as={Link}
+                        to={`/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`}
+                      >
+                        {deployment.app_name} #{deployment.id}
+                      </AkselLink>
+                      <BodyShort size="small" textColor="subtle">
+                        {deployment.pr_title ?? deployment.title ?? deployment.commit_sha?.substring(0, 7)}
+                      </BodyShort>
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {goalTitles.get(`${match.objective_id ?? ''}:${match.key_result_id ?? ''}`) ?? '–'}
+                    </Table.DataCell>
+                    <Table.DataCell>{match.keyword}</Table.DataCell>
+                    <Table.DataCell>{AUTO_LINK_METHOD_LABELS[match.link_method]}</Table.DataCell>
+                    <Table.DataCell>
+                      <Tag variant={match.already_linked ? 'success' : 'neutral'} size="xsmall">
+                        {match.already_linked ? 'Koblet' : 'Vil kobles'}
+                      </Tag>
+                    </Table.DataCell>
+                  </Table.Row>
+                )),
+              )}
+            </Table.Body>
+          </Table>
+        )}
+      </VStack>
+    </Box>
+  )
+}
+
 function ReferenceList({ refs }: { refs: ExternalReference[] }) {
   const REF_TYPE_LABELS: Record<string, string> = {
     jira: 'Jira',
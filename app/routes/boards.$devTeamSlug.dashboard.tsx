@@ -1,12 +1,16 @@
 import { ChevronLeftIcon, LinkIcon } from '@navikt/aksel-icons'
 import { Alert, BodyShort, Box, Button, Detail, Heading, HStack, Select, Tag, VStack } from '@navikt/ds-react'
 import { Link, useLoaderData, useSearchParams } from 'react-router'
+import { DoraMetricsPanel } from '~/components/DoraMetricsPanel'
 import { getBoardsByDevTeam } from '~/db/boards.server'
 import { type BoardObjectiveProgress, getBoardObjectiveProgress } from '~/db/dashboard-stats.server'
 import { getOriginOfChangeCoverage } from '~/db/deployment-goal-links.server'
+import { getDevTeamDoraMetrics } from '~/db/deployments/dora.server'
 import { getDevTeamApplications, getDevTeamBySlug } from '~/db/dev-teams.server'
 import { requireUser } from '~/lib/auth.server'
+import { requireSectionAccess } from '~/lib/authorization.server'
 import { type BoardPeriodType, getCurrentPeriod, getPeriodsForYear } from '~/lib/board-periods'
+import { parseTimePeriod } from '~/lib/time-periods'
 import type { Route } from './+types/boards.$devTeamSlug.dashboard'
 
 export function meta({ data }: Route.MetaArgs) {
@@ -14,9 +18,10 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export async function loader({ request, params }: Route.LoaderArgs) {
-  await requireUser(request)
+  const user = await requireUser(request)
   const devTeam = await getDevTeamBySlug(params.devTeamSlug)
   if (!devTeam) throw new Response('Utviklingsteam ikke funnet', { status: 404 })
+  requireSectionAccess(user, devTeam.section_id)
 
   const url = new URL(request.url)
   const periodType = (url.searchParams.get('periodType') as BoardPeriodType) || 'tertiary'
@@ -48,12 +53,35 @@ export async function loader({ request, params }: Route.LoaderArgs) {
     directAppIds.length > 0 ? directAppIds : undefined,
   )
 
-  return { devTeam, periods, selectedPeriod, periodType, currentBoard, objectiveProgress, coverage }
+  // DORA metrics use the standard time periods, independent of the board period
+  const doraPeriod = parseTimePeriod(url.searchParams.get('doraPeriod'), 'current-tertial')
+  const doraMetrics = await getDevTeamDoraMetrics(devTeam.id, doraPeriod)
+
+  return {
+    devTeam,
+    periods,
+    selectedPeriod,
+    periodType,
+    currentBoard,
+    objectiveProgress,
+    coverage,
+    doraPeriod,
+    doraMetrics,
+  }
 }
 
 export default function DevTeamDashboard() {
-  const { devTeam, periods, selectedPeriod, periodType, currentBoard, objectiveProgress, coverage } =
-    useLoaderData<typeof loader>()
+  const {
+    devTeam,
+    periods,
+    selectedPeriod,
+    periodType,
+    currentBoard,
+    objectiveProgress,
+    coverage,
+    doraPeriod,
+    doraMetrics,
+  } = useLoaderData<typeof loader>()
   const [searchParams, setSearchParams] = useSearchParams()
 
   return (
@@ -137,6 +165,16 @@ export default function DevTeamDashboard() {
         </HStack>
       </Box>
 
+      <DoraMetricsPanel
+        metrics={doraMetrics}
+        period={doraPeriod}
+        onPeriodChange={(period) => {
+          const params = new URLSearchParams(searchParams)
+          params.set('doraPeriod', period)
+          setSearchParams(params)
+        }}
+      />
+
       {/* Board objective progress */}
       {!currentBoard ? (
         <Alert variant="info">
@@ -5,6 +5,7 @@ import { Form, Link, useLoaderData } from 'react-router'
 import { type Board, createBoard, getBoardsByDevTeam } from '~/db/boards.server'
 import { getDevTeamBySlug } from '~/db/dev-teams.server'
 import { requireUser } from '~/lib/auth.server'
+import { requireSectionAccess } from '~/lib/authorization.server'
 import { type BoardPeriodType, getCurrentPeriod, getPeriodsForYear } from '~/lib/board-periods'
 import type { Route } from './+types/boards.$devTeamSlug'
 
@@ -13,11 +14,12 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export async function loader({ request, params }: Route.LoaderArgs) {
-  await requireUser(request)
+  const user = await requireUser(request)
   const devTeam = await getDevTeamBySlug(params.devTeamSlug)
   if (!devTeam) {
     throw new Response('Utviklingsteam ikke funnet', { status: 404 })
   }
+  requireSectionAccess(user, devTeam.section_id)
   const boards = await getBoardsByDevTeam(devTeam.id)
   const currentTertial = getCurrentPeriod('tertiary')
   const currentQuarter = getCurrentPeriod('quarterly')
@@ -30,6 +32,7 @@ export async function action({ request, params }: Route.ActionArgs) {
   if (!devTeam) {
     throw new Response('Utviklingsteam ikke funnet', { status: 404 })
   }
+  requireSectionAccess(user, devTeam.section_id)
 
   const formData = await request.formData()
   const intent = formData.get('intent') as string
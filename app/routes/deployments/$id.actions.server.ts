@@ -1,18 +1,39 @@
-import { createComment, deleteComment, deleteLegacyInfo, getLegacyInfo } from '~/db/comments.server'
-import { addDeploymentGoalLink, removeDeploymentGoalLink } from '~/db/deployment-goal-links.server'
-import { getDeploymentById, updateDeploymentFourEyes, updateDeploymentLegacyData } from '~/db/deployments.server'
-import { createDeviation } from '~/db/deviations.server'
-import { getDeviationSlackChannel } from '~/db/global-settings.server'
+import {
+  createComment,
+  deleteComment,
+  deleteLegacyInfo,
+  getCommentsByDeploymentId,
+  getLegacyInfo,
+} from '~/db/comments.server'
+import {
+  addDeploymentGoalLink,
+  getLinksForDeployment,
+  removeDeploymentGoalLink,
+} from '~/db/deployment-goal-links.server'
+import { getDeploymentById, updateDeploymentLegacyData } from '~/db/deployments.server'
+import { DeviationTransitionError, getDeviationById, updateDeviationStatus } from '~/db/deviations.server'
 import { getMonitoredApplicationById } from '~/db/monitored-applications.server'
-import { getUserMappings } from '~/db/user-mappings.server'
-import { getNavIdent, getUserIdentity } from '~/lib/auth.server'
+import { canAccessTeam, requireDeploymentAccess } from '~/lib/authorization.server'
+import { updateDeploymentStatus } from '~/lib/deployment-status.server'
+import {
+  DEVIATION_STATUS_LABELS,
+  DEVIATION_STATUSES,
+  type DeviationFollowUpRole,
+  type DeviationIntent,
+  type DeviationSeverity,
+  type DeviationStatus,
+} from '~/lib/deviation-constants'
+import { registerDeviation } from '~/lib/deviation-registration.server'
 import { lookupLegacyByCommit, lookupLegacyByPR } from '~/lib/github'
 import { logger } from '~/lib/logger.server'
-import { notifyDeploymentIfNeeded, sendDeviationNotification } from '~/lib/slack'
+import { recordManualApproval, validateManualApprover } from '~/lib/manual-approval.server'
+import { queueDeviationNotifications } from '~/lib/personal-notifications.server'
+import { notifyDeploymentIfNeeded } from '~/lib/slack'
 import { runVerification } from '~/lib/verification'
 
 export async function action({ request, params }: { request: Request; params: Record<string, string | undefined> }) {
   const deploymentId = parseInt(params.id ?? '', 10)
+  const { user: identity, deployment: accessedDeployment } = await requireDeploymentAccess(request, deploymentId)
   const formData = await request.formData()
   const intent = formData.get('intent')
 
@@ -37,7 +58,6 @@ export async function action({ request, params }: { request: Request; params: Re
   }
 
   if (intent === 'manual_approval') {
-    const identity = await getUserIdentity(request)
     const reason = formData.get('reason') as string
     const slackLink = formData.get('slack_link') as string
 
@@ -51,68 +71,18 @@ export async function action({ request, params }: { request: Request; params: Re
       return { error: 'Deployment ikke funnet' }
     }
 
-    // Collect GitHub usernames to check
-    const usernamesToCheck: string[] = []
-    if (deployment.github_pr_data?.creator?.username) {
-      usernamesToCheck.push(deployment.github_pr_data.creator.username)
-    }
-    if (deployment.unverified_commits) {
-      for (const commit of deployment.unverified_commits) {
-        if (commit.author && !usernamesToCheck.includes(commit.author)) {
-          usernamesToCheck.push(commit.author)
-        }
-      }
-    }
-
-    const userMappings = await getUserMappings(usernamesToCheck)
-    const currentNavIdent = identity.navIdent.toUpperCase()
-
-    // Check if user is PR creator
-    const prCreatorUsername = deployment.github_pr_data?.creator?.username
-    if (prCreatorUsername) {
-      const prCreatorMapping = userMappings.get(prCreatorUsername)
-      if (prCreatorMapping?.nav_ident?.toUpperCase() === currentNavIdent) {
-        return {
-          error:
-            'Du kan ikke godkjenne din egen pull request. Fire-øyne-prinsippet krever at en annen person godkjenner.',
-        }
-      }
-    }
-
-    // Check if user is author of the last unverified commit (relaxed four-eyes check)
-    if (deployment.unverified_commits && deployment.unverified_commits.length > 0) {
-      const lastCommit = deployment.unverified_commits[deployment.unverified_commits.length - 1]
-      const lastCommitAuthorMapping = userMappings.get(lastCommit.author)
-      if (lastCommitAuthorMapping?.nav_ident?.toUpperCase() === currentNavIdent) {
-        return {
-          error:
-            'Du kan ikke godkjenne en deployment der du har siste commit. Fire-øyne-prinsippet krever at en annen person godkjenner.',
-        }
-      }
+    const approverError = await validateManualApprover(deployment, identity.navIdent)
+    if (approverError) {
+      return { error: approverError }
     }
 
     try {
-      // Create manual approval comment with slack link
-      await createComment({
-        deployment_id: deploymentId,
-        comment_text: reason || 'Manuelt godkjent etter gjennomgang',
-        slack_link: slackLink?.trim() || undefined,
-        comment_type: 'manual_approval',
-        approved_by: identity.navIdent,
+      await recordManualApproval(deploymentId, {
+        approvedBy: identity.navIdent,
+        reason,
+        slackLink,
       })
 
-      // Update deployment to mark as manually approved
-      await updateDeploymentFourEyes(
-        deploymentId,
-        {
-          hasFourEyes: true,
-          fourEyesStatus: 'manually_approved',
-          githubPrNumber: null,
-          githubPrUrl: null,
-        },
-        { changeSource: 'manual_approval', changedBy: identity.navIdent },
-      )
-
       return { success: 'Deployment manuelt godkjent' }
     } catch (_error) {
       return { error: 'Kunne ikke godkjenne deployment' }
@@ -120,7 +90,6 @@ export async function action({ request, params }: { request: Request; params: Re
   }
 
   if (intent === 'register_deviation') {
-    const identity = await getUserIdentity(request)
     const reason = formData.get('deviation_reason') as string
     const breachType = formData.get('deviation_breach_type') as string
     const deviationIntent = formData.get('deviation_intent') as string
@@ -135,46 +104,18 @@ export async function action({ request, params }: { request: Request; params: Re
     }
 
     try {
-      const deployment = await getDeploymentById(deploymentId)
-      if (!deployment) {
-        return { error: 'Deployment ikke funnet' }
-      }
-
-      const app = await getMonitoredApplicationById(deployment.monitored_app_id)
-
-      await createDeviation({
-        deployment_id: deploymentId,
+      const deviation = await registerDeviation({
+        deploymentId,
         reason: reason.trim(),
-        breach_type: breachType?.trim() || undefined,
-        intent: (deviationIntent as 'malicious' | 'accidental' | 'unknown') || undefined,
-        severity: (severity as 'low' | 'medium' | 'high' | 'critical') || undefined,
-        follow_up_role: (followUpRole as 'product_lead' | 'delivery_lead' | 'section_lead') || undefined,
-        registered_by: identity.navIdent,
-        registered_by_name: identity.name,
+        breachType: breachType?.trim() || undefined,
+        intent: (deviationIntent as DeviationIntent) || undefined,
+        severity: (severity as DeviationSeverity) || undefined,
+        followUpRole: (followUpRole as DeviationFollowUpRole) || undefined,
+        registeredBy: identity.navIdent,
+        registeredByName: identity.name,
       })
-
-      // Send Slack notification to deviation channel
-      const deviationChannelConfig = await getDeviationSlackChannel()
-      if (deviationChannelConfig.channel_id) {
-        const appUrl = app ? `/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}` : ''
-        const baseUrl = process.env.BASE_URL || 'https://pensjon-deployment-audit.ansatt.nav.no'
-        await sendDeviationNotification(
-          {
-            deploymentId,
-            appName: app?.app_name || 'Ukjent',
-            environmentName: app?.environment_name || 'Ukjent',
-            teamSlug: app?.team_slug || 'Ukjent',
-            commitSha: deployment.commit_sha || 'Ukjent',
-            reason: reason.trim(),
-            breachType: breachType?.trim() || undefined,
-            intent: deviationIntent || undefined,
-            severity: severity || undefined,
-            followUpRole: followUpRole || undefined,
-            registeredByName: identity.name || identity.navIdent,
-            detailsUrl: `${baseUrl}${appUrl}/deployments/${deploymentId}`,
-          },
-          deviationChannelConfig.channel_id,
-        )
+      if (!deviation) {
+        return { error: 'Deployment ikke funnet' }
       }
 
       return { success: 'Avvik registrert' }
@@ -183,12 +124,54 @@ export async function action({ request, params }: { request: Request; params: Re
     }
   }
 
+  if (intent === 'update_deviation_status') {
+    const deviationId = Number(formData.get('deviation_id'))
+    const status = formData.get('deviation_status') as string
+    const note = (formData.get('deviation_note') as string)?.trim()
+
+    if (!identity?.navIdent) {
+      return { error: 'Kunne ikke identifisere bruker. Vennligst logg inn på nytt.' }
+    }
+    if (!DEVIATION_STATUSES.includes(status as DeviationStatus)) {
+      return { error: 'Ugyldig status' }
+    }
+    if (status === 'closed' && !note) {
+      return { error: 'Beskriv hvordan avviket er fulgt opp før det lukkes' }
+    }
+
+    const deviation = await getDeviationById(deviationId)
+    if (!deviation || deviation.deployment_id !== deploymentId) {
+      return { error: 'Avvik ikke funnet' }
+    }
+
+    try {
+      const updated = await updateDeviationStatus({
+        id: deviationId,
+        status: status as DeviationStatus,
+        changed_by: identity.navIdent,
+        changed_by_name: identity.name,
+        note: note || undefined,
+      })
+      if (!updated) {
+        return { error: 'Avvik ikke funnet' }
+      }
+      await queueDeviationNotifications(updated, 'deviation_status_changed')
+      return { success: `Avvik satt til «${DEVIATION_STATUS_LABELS[updated.status]}»` }
+    } catch (error) {
+      if (error instanceof DeviationTransitionError) {
+        return { error: 'Statusendringen er ikke tillatt' }
+      }
+      logger.error('Error updating deviation status:', error)
+      return { error: 'Kunne ikke oppdatere avvik' }
+    }
+  }
+
   // Step 1: Look up GitHub data for legacy deployment
   if (intent === 'lookup_legacy_github') {
     const searchType = formData.get('search_type') as string
     const searchValue = formData.get('search_value') as string
     const slackLink = formData.get('slack_link') as string
-    const navIdent = await getNavIdent(request)
+    const navIdent = identity.navIdent
 
     if (!navIdent) {
       return { error: 'Kunne ikke identifisere bruker. Vennligst logg inn på nytt.' }
@@ -251,7 +234,7 @@ export async function action({ request, params }: { request: Request; params: Re
     const prMergedAt = formData.get('pr_merged_at') as string
     const mergedBy = formData.get('merged_by') as string
     const reviewersJson = formData.get('reviewers') as string
-    const navIdent = await getNavIdent(request)
+    const navIdent = identity.navIdent
 
     if (!navIdent) {
       return { error: 'Kunne ikke identifisere bruker. Vennligst logg inn på nytt.' }
@@ -311,7 +294,7 @@ export async function action({ request, params }: { request: Request; params: Re
       }
 
       // Set status to legacy_pending but PRESERVE the github_pr_data from verification
-      await updateDeploymentFourEyes(
+      await updateDeploymentStatus(
         deploymentId,
         {
           hasFourEyes: false,
@@ -338,7 +321,7 @@ export async function action({ request, params }: { request: Request; params: Re
     const deployer = formData.get('deployer') as string
     const commitSha = formData.get('commit_sha') as string
     const prNumber = formData.get('pr_number') as string
-    const navIdent = await getNavIdent(request)
+    const navIdent = identity.navIdent
 
     if (!navIdent) {
       return { error: 'Kunne ikke identifisere bruker. Vennligst logg inn på nytt.' }
@@ -365,7 +348,7 @@ export async function action({ request, params }: { request: Request; params: Re
       })
 
       // Update deployment with provided info
-      await updateDeploymentFourEyes(
+      await updateDeploymentStatus(
         deploymentId,
         {
           hasFourEyes: false,
@@ -383,7 +366,7 @@ export async function action({ request, params }: { request: Request; params: Re
   }
 
   if (intent === 'approve_legacy') {
-    const navIdent = await getNavIdent(request)
+    const navIdent = identity.navIdent
     const legacyInfo = await getLegacyInfo(deploymentId)
 
     if (!navIdent) {
@@ -412,7 +395,7 @@ export async function action({ request, params }: { request: Request; params: Re
       })
 
       // Preserve existing GitHub data when approving
-      await updateDeploymentFourEyes(
+      await updateDeploymentStatus(
         deploymentId,
         {
           hasFourEyes: true,
@@ -432,7 +415,7 @@ export async function action({ request, params }: { request: Request; params: Re
   }
 
   if (intent === 'reject_legacy') {
-    const navIdent = await getNavIdent(request)
+    const navIdent = identity.navIdent
     const reason = formData.get('reason') as string
 
     if (!navIdent) {
@@ -451,7 +434,7 @@ export async function action({ request, params }: { request: Request; params: Re
       })
 
       // Reset status back to legacy
-      await updateDeploymentFourEyes(
+      await updateDeploymentStatus(
         deploymentId,
         {
           hasFourEyes: false,
@@ -470,6 +453,9 @@ export async function action({ request, params }: { request: Request; params: Re
 
   if (intent === 'delete_comment') {
     const commentId = parseInt(formData.get('comment_id') as string, 10)
+    if (!(await getCommentsByDeploymentId(deploymentId)).some((comment) => comment.id === commentId)) {
+      return { error: 'Kommentar ikke funnet' }
+    }
     try {
       await deleteComment(commentId)
       return { success: 'Kommentar slettet' }
@@ -524,7 +510,7 @@ export async function action({ request, params }: { request: Request; params: Re
 
   if (intent === 'approve_baseline') {
     try {
-      await updateDeploymentFourEyes(
+      await updateDeploymentStatus(
         deploymentId,
         {
           hasFourEyes: true,
@@ -541,8 +527,7 @@ export async function action({ request, params }: { request: Request; params: Re
   }
 
   if (intent === 'send_slack_notification') {
-    const identity = await getUserIdentity(request)
-    if (!identity || identity.role !== 'admin') {
+    if (!(await canAccessTeam(identity, accessedDeployment.team_slug, 'admin'))) {
       return { error: 'Kun administratorer kan sende Slack-varsler' }
     }
 
@@ -587,7 +572,6 @@ export async function action({ request, params }: { request: Request; params: Re
   }
 
   if (intent === 'link_goal') {
-    const identity = await getUserIdentity(request)
     const objectiveId = formData.get('objective_id') ? Number(formData.get('objective_id')) : undefined
     const keyResultId = formData.get('key_result_id') ? Number(formData.get('key_result_id')) : undefined
     const externalUrl = (formData.get('external_url') as string)?.trim() || undefined
@@ -616,6 +600,9 @@ export async function action({ request, params }: { request: Request; params: Re
 
   if (intent === 'unlink_goal') {
     const linkId = Number(formData.get('link_id'))
+    if (!(await getLinksForDeployment(deploymentId)).some((link) => link.id === linkId)) {
+      return { error: 'Kobling ikke funnet' }
+    }
     try {
       await removeDeploymentGoalLink(linkId)
       return { success: 'Kobling fjernet' }
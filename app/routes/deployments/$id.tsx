@@ -34,28 +34,31 @@ import {
   TextField,
   VStack,
 } from '@navikt/ds-react'
-import { useRef, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Form, Link, useSearchParams } from 'react-router'
 import { ActionAlert } from '~/components/ActionAlert'
 import { CheckAnnotations } from '~/components/CheckAnnotations'
 import { CheckLogViewer } from '~/components/CheckLogViewer'
+import { DeviationCard } from '~/components/DeviationCard'
+import { ChangeTypeTag } from '~/components/deployment-tags'
 import { GoalLinksSection } from '~/components/GoalLinksSection'
+import { PromotionTimeline } from '~/components/PromotionTimeline'
 import { getBoardsWithGoalsForDevTeam } from '~/db/boards.server'
 import { getCommentsByDeploymentId, getLegacyInfo, getManualApproval } from '~/db/comments.server'
 import { getLinksForDeployment } from '~/db/deployment-goal-links.server'
+import { getPromotionTimeline } from '~/db/deployments/promotions.server'
 import {
   type DeploymentNavFilters,
-  getDeploymentById,
   getNextDeployment,
   getPreviousDeploymentForNav,
   getStatusHistory,
 } from '~/db/deployments.server'
 import { getDevTeamsForApp } from '~/db/dev-teams.server'
-import { getDeviationsByDeploymentId } from '~/db/deviations.server'
+import { getDeviationStatusLog, getDeviationsByDeploymentId } from '~/db/deviations.server'
 import { getLatestVerificationRun } from '~/db/github-data.server'
 import { getMonitoredApplicationById } from '~/db/monitored-applications.server'
 import { getUserMappings } from '~/db/user-mappings.server'
-import { getUserIdentity } from '~/lib/auth.server'
+import { canAccessTeam, getReadableTeamFilter, requireDeploymentAccess } from '~/lib/authorization.server'
 import {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
@@ -71,11 +74,7 @@ export { action } from './$id.actions.server'
 
 export async function loader({ params, request }: Route.LoaderArgs) {
   const deploymentId = parseInt(params.id, 10)
-  const deployment = await getDeploymentById(deploymentId)
-
-  if (!deployment) {
-    throw new Response('Deployment not found', { status: 404 })
-  }
+  const { user: currentUser, deployment } = await requireDeploymentAccess(request, deploymentId)
 
   // Get app info for building semantic URLs
   const app = await getMonitoredApplicationById(deployment.monitored_app_id)
@@ -117,7 +116,9 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   const legacyInfo = await getLegacyInfo(deploymentId)
   const statusHistory = await getStatusHistory(deploymentId)
   const deviations = await getDeviationsByDeploymentId(deploymentId)
+  const deviationStatusLog = await getDeviationStatusLog(deviations.map((d) => d.id))
   const goalLinks = await getLinksForDeployment(deploymentId)
+  const promotion = await getPromotionTimeline(deployment, await getReadableTeamFilter(currentUser))
 
   // Get available boards/goals for goal linking UI (from all matching dev teams)
   const devTeams = await getDevTeamsForApp(deployment.monitored_app_id, app.team_slug)
@@ -186,11 +187,10 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   const userMappings = await getUserMappings(usernames)
 
   // Check if current user is involved in this deployment (for four-eyes validation)
-  const currentUser = await getUserIdentity(request)
   let isCurrentUserInvolved = false
   let involvementReason: string | null = null
 
-  if (currentUser?.navIdent) {
+  if (currentUser.navIdent) {
     const currentNavIdent = currentUser.navIdent.toUpperCase()
 
     // Check if user is PR creator
@@ -214,7 +214,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
     }
   }
 
-  const isAdmin = currentUser?.role === 'admin'
+  const isAdmin = await canAccessTeam(currentUser, deployment.team_slug, 'admin')
 
   // Fetch verification run data for admin download
   const verificationRun = isAdmin ? await getLatestVerificationRun(deploymentId) : null
@@ -226,7 +226,9 @@ export async function loader({ params, request }: Route.LoaderArgs) {
     legacyInfo,
     statusHistory,
     deviations,
+    deviationStatusLog,
     goalLinks,
+    promotion,
     availableBoards,
     previousDeployment,
     nextDeployment,
@@ -259,7 +261,9 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
     legacyInfo,
     statusHistory,
     deviations,
+    deviationStatusLog,
     goalLinks,
+    promotion,
     availableBoards,
     previousDeployment,
     nextDeployment,
@@ -310,6 +314,13 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
   const deviationDialogRef = useRef<HTMLDialogElement>(null)
   const [deviationReason, setDeviationReason] = useState('')
 
+  // Quick action links (e.g. from the Slack Home Tab) open the deviation dialog directly
+  useEffect(() => {
+    if (searchParams.get('avvik') === 'ny') {
+      deviationDialogRef.current?.showModal()
+    }
+  }, [searchParams])
+
   const status = getFourEyesStatus(deployment)
 
   // Helper to get user display info (falls back to username if no mapping)
@@ -381,7 +392,8 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
             {/* Godkjenning status tag (only shown for OK/approved states) */}
             {(deployment.four_eyes_status === 'approved' ||
               deployment.four_eyes_status === 'manually_approved' ||
-              deployment.four_eyes_status === 'implicitly_approved') && (
+              deployment.four_eyes_status === 'implicitly_approved' ||
+              deployment.four_eyes_status === 'rollback') && (
               <Tag data-color="success" variant="outline" size="small">
                 {deployment.four_eyes_status === 'implicitly_approved' ? 'Implisitt godkjent' : 'Godkjent'}
               </Tag>
@@ -401,6 +413,8 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
                 Legacy
               </Tag>
             ) : null}
+            {/* Change type tag (from Nais resources) */}
+            {deployment.change_type && <ChangeTypeTag change_type={deployment.change_type} />}
             {/* Verify button for non-OK states */}
             {deployment.commit_sha &&
               [
@@ -487,6 +501,14 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
                     </a>
                   </>
                 )}
+              {deployment.rollback_target_deployment_id && (
+                <>
+                  {' '}
+                  <Link to={`/deployments/${deployment.rollback_target_deployment_id}`}>
+                    Se deploymentet det ble rullet tilbake til
+                  </Link>
+                </>
+              )}
             </BodyShort>
             {deployment.four_eyes_status === 'error' && (
               <VStack gap="space-8" marginBlock="space-8 space-0">
@@ -1148,6 +1170,61 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
               </Tag>
             ))}
           </HStack>
+          {deployment.resource_changes?.previousDeploymentId && (
+            <VStack gap="space-8" marginBlock="space-12 space-0">
+              {deployment.resource_changes.added.length === 0 && deployment.resource_changes.removed.length === 0 ? (
+                <BodyShort size="small" textColor="subtle">
+                  Samme ressurser som{' '}
+                  <Link to={`/deployments/${deployment.resource_changes.previousDeploymentId}`}>
+                    forrige deployment
+                  </Link>
+                  .
+                </BodyShort>
+              ) : (
+                <>
+                  <BodyShort size="small" textColor="subtle">
+                    Endret siden{' '}
+                    <Link to={`/deployments/${deployment.resource_changes.previousDeploymentId}`}>
+                      forrige deployment
+                    </Link>
+                    :
+                  </BodyShort>
+                  <HStack gap="space-8" wrap>
+                    {deployment.resource_changes.added.map((resource) => (
+                      <Tag
+                        data-color="success"
+                        key={`added:${resource.kind}:${resource.name}`}
+                        variant="outline"
+                        size="small"
+                      >
+                        + {resource.kind}: {resource.name}
+                      </Tag>
+                    ))}
+                    {deployment.resource_changes.removed.map((resource) => (
+                      <Tag
+                        data-color="danger"
+                        key={`removed:${resource.kind}:${resource.name}`}
+                        variant="outline"
+                        size="small"
+                      >
+                        − {resource.kind}: {resource.name}
+                      </Tag>
+                    ))}
+                  </HStack>
+                </>
+              )}
+              {deployment.resource_changes.files && deployment.resource_changes.files.nais.length > 0 && (
+                <BodyShort size="small" textColor="subtle">
+                  Endrede Nais-manifester: {deployment.resource_changes.files.nais.join(', ')}
+                </BodyShort>
+              )}
+              {deployment.resource_changes.files && deployment.resource_changes.files.config.length > 0 && (
+                <BodyShort size="small" textColor="subtle">
+                  Endrede konfigurasjonsfiler: {deployment.resource_changes.files.config.join(', ')}
+                </BodyShort>
+              )}
+            </VStack>
+          )}
         </div>
       )}
       {/* PR Details section */}
@@ -1641,6 +1718,10 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
           )}
         </Alert>
       )}
+      {/* Promotion across environments */}
+      {promotion && (promotion.steps.length > 1 || promotion.skippedPreProd) && (
+        <PromotionTimeline timeline={promotion} currentDeploymentId={deployment.id} />
+      )}
       {/* Status history section */}
       {statusHistory.length > 0 && (
         <VStack gap="space-16">
@@ -1736,73 +1817,12 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
         ) : (
           <VStack gap="space-12">
             {deviations.map((deviation) => (
-              <Box
+              <DeviationCard
                 key={deviation.id}
-                padding="space-16"
-                borderRadius="8"
-                background="raised"
-                borderColor="warning-subtle"
-                borderWidth="1"
-              >
-                <VStack gap="space-4">
-                  <HStack gap="space-8" align="center">
-                    <ExclamationmarkTriangleIcon aria-hidden style={{ color: 'var(--ax-text-warning)' }} />
-                    <Detail textColor="subtle">
-                      {new Date(deviation.created_at).toLocaleString('no-NO', {
-                        dateStyle: 'medium',
-                        timeStyle: 'short',
-                      })}
-                      {' — '}
-                      {deviation.registered_by_name || deviation.registered_by}
-                    </Detail>
-                    {deviation.resolved_at ? (
-                      <Tag size="xsmall" variant="moderate" data-color="success">
-                        Løst
-                      </Tag>
-                    ) : (
-                      <Tag size="xsmall" variant="moderate" data-color="warning">
-                        Åpen
-                      </Tag>
-                    )}
-                    {deviation.severity && (
-                      <Tag
-                        size="xsmall"
-                        variant="moderate"
-                        data-color={
-                          deviation.severity === 'critical' || deviation.severity === 'high'
-                            ? 'danger'
-                            : deviation.severity === 'medium'
-                              ? 'warning'
-                              : 'neutral'
-                        }
-                      >
-                        {DEVIATION_SEVERITY_LABELS[deviation.severity]}
-                      </Tag>
-                    )}
-                  </HStack>
-                  {deviation.breach_type && (
-                    <BodyShort size="small" weight="semibold">
-                      {deviation.breach_type}
-                    </BodyShort>
-                  )}
-                  <BodyShort>{deviation.reason}</BodyShort>
-                  <HStack gap="space-12" wrap>
-                    {deviation.intent && (
-                      <Detail textColor="subtle">Intensjon: {DEVIATION_INTENT_LABELS[deviation.intent]}</Detail>
-                    )}
-                    {deviation.follow_up_role && (
-                      <Detail textColor="subtle">
-                        Oppfølging: {DEVIATION_FOLLOW_UP_ROLE_LABELS[deviation.follow_up_role]}
-                      </Detail>
-                    )}
-                  </HStack>
-                  {deviation.resolved_at && deviation.resolution_note && (
-                    <BodyShort size="small" textColor="subtle">
-                      Løsning: {deviation.resolution_note}
-                    </BodyShort>
-                  )}
-                </VStack>
-              </Box>
+                deviation={deviation}
+                statusLog={deviationStatusLog.filter((entry) => entry.deviation_id === deviation.id)}
+                editable
+              />
             ))}
           </VStack>
         )}
@@ -5,6 +5,7 @@ import { Form, useNavigation } from 'react-router'
 import { ActionAlert } from '~/components/ActionAlert'
 import { getVerificationStats } from '~/db/deployments.server'
 import { getAllMonitoredApplications } from '~/db/monitored-applications.server'
+import { requireAdmin } from '~/lib/auth.server'
 import { logger } from '~/lib/logger.server'
 import { verifyDeploymentsWithLock } from '~/lib/sync'
 import type { Route } from './+types/verify'
@@ -14,6 +15,7 @@ export function meta(_args: Route.MetaArgs) {
 }
 
 export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
   const url = new URL(request.url)
   const appId = url.searchParams.get('app')
 
@@ -27,6 +29,7 @@ export async function loader({ request }: Route.LoaderArgs) {
 }
 
 export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request)
   const formData = await request.formData()
   const limit = Number(formData.get('limit')) || 50
   const appIdParam = formData.get('app_id')
@@ -2,10 +2,10 @@ import { Alert, Button, Heading, HStack, Tag, VStack } from '@navikt/ds-react'
 import { Link, useRouteLoaderData } from 'react-router'
 import { AppCard, type AppCardData } from '~/components/AppCard'
 import { getAllActiveRepositories } from '~/db/application-repositories.server'
-import { getTeamSlugsForSections } from '~/db/sections.server'
 import { getAppDeploymentStatsBatch } from '../db/deployments.server'
 import { getAllAlertCounts, getAllMonitoredApplications } from '../db/monitored-applications.server'
-import { getUserSections, requireUser } from '../lib/auth.server'
+import { requireUser } from '../lib/auth.server'
+import { getReadableTeamFilter } from '../lib/authorization.server'
 import type { Route } from './+types/home'
 import type { loader as layoutLoader } from './layout'
 
@@ -19,24 +19,18 @@ export function meta(_args: Route.MetaArgs) {
 export async function loader({ request }: Route.LoaderArgs) {
   try {
     const identity = await requireUser(request)
-    const sections = await getUserSections(identity.entraGroups)
-    const isGlobalAdmin = identity.role === 'admin'
+    const sections = identity.sections
 
-    // Resolve which team_slugs the user can see
-    let allowedTeamSlugs: string[] | null = null // null = show all (global admin)
-    if (!isGlobalAdmin && sections.length > 0) {
-      allowedTeamSlugs = await getTeamSlugsForSections(sections.map((s) => s.id))
-    }
-
-    // Fetch all data in parallel (3 queries instead of 2N+1)
-    const [apps, alertCounts, activeReposByApp] = await Promise.all([
+    // Fetch all data in parallel (4 queries instead of 2N+1)
+    const [apps, alertCounts, activeReposByApp, canReadTeam] = await Promise.all([
       getAllMonitoredApplications(),
       getAllAlertCounts(),
       getAllActiveRepositories(),
+      getReadableTeamFilter(identity),
     ])
 
-    // Filter apps by allowed teams (unless global admin)
-    const filteredApps = allowedTeamSlugs ? apps.filter((app) => allowedTeamSlugs.includes(app.team_slug)) : apps
+    // Filter apps by the user's sections (unless global admin)
+    const filteredApps = apps.filter((app) => canReadTeam(app.team_slug))
 
     if (filteredApps.length === 0) {
       return { apps: [], sectionNames: sections.map((s) => s.name), totalApps: apps.length }
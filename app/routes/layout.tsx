@@ -21,18 +21,14 @@ import { Breadcrumbs } from '~/components/Breadcrumbs'
 import { SearchDialog } from '~/components/SearchDialog'
 import { getUserMappingByNavIdent } from '~/db/user-mappings.server'
 import { useTheme } from '~/hooks/useTheme'
-import { getUserSections, requireUser } from '~/lib/auth.server'
+import { requireUser } from '~/lib/auth.server'
 import styles from '../styles/common.module.css'
 import type { Route } from './+types/layout'
 
 export async function loader({ request }: Route.LoaderArgs) {
   const identity = await requireUser(request)
 
-  // Resolve user's display name and section memberships in parallel
-  const [userMapping, sections] = await Promise.all([
-    getUserMappingByNavIdent(identity.navIdent),
-    getUserSections(identity.entraGroups),
-  ])
+  const userMapping = await getUserMappingByNavIdent(identity.navIdent)
 
   return {
     user: {
@@ -40,7 +36,7 @@ export async function loader({ request }: Route.LoaderArgs) {
       displayName: userMapping?.display_name || identity.name || identity.navIdent,
       email: userMapping?.nav_email || identity.email || null,
       role: identity.role,
-      sections,
+      sections: identity.sections,
     },
   }
 }
@@ -1,7 +1,11 @@
 import { MagnifyingGlassIcon } from '@navikt/aksel-icons'
-import { BodyShort, Box, Heading, Hide, HStack, Search, Show, Tag, VStack } from '@navikt/ds-react'
-import { Form, Link, useLoaderData } from 'react-router'
-import { type SearchResult, searchDeployments } from '~/db/deployments.server'
+import { BodyShort, Box, Heading, Hide, HStack, Search, Select, Show, VStack } from '@navikt/ds-react'
+import { Form, Link, useLoaderData, useSearchParams } from 'react-router'
+import { SearchResultTags, SearchSnippet } from '~/components/SearchResultDetails'
+import { searchDeploymentsWithFacets } from '~/db/deployments.server'
+import { requireUser } from '~/lib/auth.server'
+import { getReadableTeamFilter } from '~/lib/authorization.server'
+import { parseSearchFilters, type SearchFacetValue, type SearchResponse } from '~/lib/search'
 import type { Route } from './+types/search'
 
 export function meta({ data }: { data: { query: string } }) {
@@ -9,19 +13,62 @@ export function meta({ data }: { data: { query: string } }) {
 }
 
 export async function loader({ request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
   const url = new URL(request.url)
   const query = url.searchParams.get('q') || ''
 
-  let results: SearchResult[] = []
+  const filters = parseSearchFilters(url.searchParams)
+
+  let response: SearchResponse = { results: [], facets: null }
   if (query.trim()) {
-    results = await searchDeployments(query, 50)
+    response = await searchDeploymentsWithFacets(query, 50, filters, await getReadableTeamFilter(user))
   }
 
-  return { query, results }
+  return { query, filters, ...response }
+}
+
+function FacetSelect({
+  label,
+  name,
+  value,
+  values,
+  onChange,
+}: {
+  label: string
+  name: string
+  value: string | undefined
+  values: SearchFacetValue[]
+  onChange: (name: string, value: string) => void
+}) {
+  // Keep a selected value visible even if it no longer has any matches
+  const options =
+    value && !values.some((v) => v.value === value) ? [{ value, label: value, count: 0 }, ...values] : values
+
+  return (
+    <Select label={label} size="small" value={value ?? ''} onChange={(e) => onChange(name, e.target.value)}>
+      <option value="">Alle</option>
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label} ({option.count})
+        </option>
+      ))}
+    </Select>
+  )
 }
 
 export default function SearchPage() {
-  const { query, results } = useLoaderData<typeof loader>()
+  const { query, filters, results, facets } = useLoaderData<typeof loader>()
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const updateFilter = (key: string, value: string) => {
+    const newParams = new URLSearchParams(searchParams)
+    if (value) {
+      newParams.set(key, value)
+    } else {
+      newParams.delete(key)
+    }
+    setSearchParams(newParams)
+  }
 
   return (
     <VStack gap="space-24">
@@ -30,7 +77,7 @@ export default function SearchPage() {
           Søk
         </Heading>
         <Hide above="md">
-          <BodyShort>Søk på navn, NAV-ident, e-post, brukernavn, SHA eller ID</BodyShort>
+          <BodyShort>Søk på navn, NAV-ident, e-post, brukernavn, SHA, ID eller fritekst</BodyShort>
         </Hide>
         <Show above="md">
           <BodyShort>
@@ -47,6 +94,10 @@ export default function SearchPage() {
       <Hide above="md">
         <Box background="sunken" padding="space-16" borderRadius="8">
           <Form method="get" action="/search">
+            {filters.team && <input type="hidden" name="team" value={filters.team} />}
+            {filters.environment && <input type="hidden" name="env" value={filters.environment} />}
+            {filters.status && <input type="hidden" name="status" value={filters.status} />}
+            {filters.period && <input type="hidden" name="period" value={filters.period} />}
             <Search
               label="Søk"
               hideLabel
@@ -66,6 +117,35 @@ export default function SearchPage() {
         )}
       </Hide>
 
+      {facets && (
+        <Box padding="space-20" borderRadius="8" background="sunken">
+          <HStack gap="space-16" wrap>
+            <FacetSelect label="Team" name="team" value={filters.team} values={facets.team} onChange={updateFilter} />
+            <FacetSelect
+              label="Miljø"
+              name="env"
+              value={filters.environment}
+              values={facets.environment}
+              onChange={updateFilter}
+            />
+            <FacetSelect
+              label="Status"
+              name="status"
+              value={filters.status}
+              values={facets.status}
+              onChange={updateFilter}
+            />
+            <FacetSelect
+              label="Tidsperiode"
+              name="period"
+              value={filters.period}
+              values={facets.period}
+              onChange={updateFilter}
+            />
+          </HStack>
+        </Box>
+      )}
+
       {results.length > 0 && (
         <VStack gap="space-8">
           {results.map((result) => (
@@ -91,15 +171,14 @@ export default function SearchPage() {
                   <VStack gap="space-4" style={{ flex: 1 }}>
                     <HStack gap="space-8" align="center">
                       <BodyShort weight="semibold">{result.title}</BodyShort>
-                      <Tag size="xsmall" variant={result.type === 'deployment' ? 'info' : 'neutral'}>
-                        {result.type === 'deployment' ? 'Deployment' : 'Bruker'}
-                      </Tag>
+                      <SearchResultTags result={result} />
                     </HStack>
                     {result.subtitle && (
                       <BodyShort size="small" style={{ color: 'var(--ax-text-neutral-subtle)' }}>
                         {result.subtitle}
                       </BodyShort>
                     )}
+                    {result.snippet && <SearchSnippet snippet={result.snippet} />}
                   </VStack>
                 </HStack>
               </Box>
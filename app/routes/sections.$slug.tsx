@@ -13,12 +13,16 @@ import {
   VStack,
 } from '@navikt/ds-react'
 import { Link, useLoaderData, useSearchParams } from 'react-router'
+import { DoraMetricsPanel } from '~/components/DoraMetricsPanel'
 import type { DevTeamDashboardStats } from '~/db/dashboard-stats.server'
 import { getSectionDashboardStats, getSectionOverallStats } from '~/db/dashboard-stats.server'
+import { getSectionDoraMetrics } from '~/db/deployments/dora.server'
 import { getDevTeamsBySection } from '~/db/dev-teams.server'
 import { getSectionBySlug } from '~/db/sections.server'
 import { requireUser } from '~/lib/auth.server'
+import { requireSectionAccess } from '~/lib/authorization.server'
 import { type BoardPeriodType, getCurrentPeriod, getPeriodsForYear } from '~/lib/board-periods'
+import { parseTimePeriod } from '~/lib/time-periods'
 import type { Route } from './+types/sections.$slug'
 
 export function meta({ data }: Route.MetaArgs) {
@@ -26,9 +30,10 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export async function loader({ request, params }: Route.LoaderArgs) {
-  await requireUser(request)
+  const user = await requireUser(request)
   const section = await getSectionBySlug(params.slug)
   if (!section) throw new Response('Seksjon ikke funnet', { status: 404 })
+  requireSectionAccess(user, section.id)
 
   const url = new URL(request.url)
   const periodType = (url.searchParams.get('periodType') as BoardPeriodType) || 'tertiary'
@@ -46,11 +51,16 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   const stats = await getSectionDashboardStats(section.id, startDate, endDate)
   const devTeams = await getDevTeamsBySection(section.id)
 
-  return { section, overallStats, stats, devTeams, periods, selectedPeriod, periodType }
+  // DORA metrics use the standard time periods, independent of the board period
+  const doraPeriod = parseTimePeriod(url.searchParams.get('doraPeriod'), 'current-tertial')
+  const doraMetrics = await getSectionDoraMetrics(section.id, doraPeriod)
+
+  return { section, overallStats, stats, devTeams, periods, selectedPeriod, periodType, doraPeriod, doraMetrics }
 }
 
 export default function SectionOverview() {
-  const { section, overallStats, stats, devTeams, periods, selectedPeriod, periodType } = useLoaderData<typeof loader>()
+  const { section, overallStats, stats, devTeams, periods, selectedPeriod, periodType, doraPeriod, doraMetrics } =
+    useLoaderData<typeof loader>()
   const [searchParams, setSearchParams] = useSearchParams()
 
   const totalDeployments = overallStats.total_deployments
@@ -123,6 +133,16 @@ export default function SectionOverview() {
         />
       </HGrid>
 
+      <DoraMetricsPanel
+        metrics={doraMetrics}
+        period={doraPeriod}
+        onPeriodChange={(period) => {
+          const params = new URLSearchParams(searchParams)
+          params.set('doraPeriod', period)
+          setSearchParams(params)
+        }}
+      />
+
       {/* Dev team breakdown */}
       <VStack gap="space-16">
         <Heading level="2" size="large">
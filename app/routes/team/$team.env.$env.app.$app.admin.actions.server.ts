@@ -1,12 +1,6 @@
-import { updateImplicitApprovalSettings } from '~/db/app-settings.server'
-import {
-  buildReportData,
-  checkAuditReadiness,
-  getAuditReportData,
-  saveAuditReport,
-  updateAuditReportPdf,
-} from '~/db/audit-reports.server'
-import { getMonitoredApplicationByIdentity, updateMonitoredApplication } from '~/db/monitored-applications.server'
+import { SETTING_KEYS, updateAppSetting, updateImplicitApprovalSettings } from '~/db/app-settings.server'
+import { checkAuditReadiness } from '~/db/audit-reports.server'
+import { updateMonitoredApplication } from '~/db/monitored-applications.server'
 import { createReportJob, updateReportJobStatus } from '~/db/report-jobs.server'
 import {
   acquireSyncLock,
@@ -16,14 +10,27 @@ import {
   getSyncJobOptions,
   releaseSyncLock,
 } from '~/db/sync-jobs.server'
-import { generateAuditReportPdf } from '~/lib/audit-report-pdf'
-import { requireAdmin } from '~/lib/auth.server'
+import { generateAuditReport } from '~/lib/audit-report-generation.server'
+import { requireAppAccess } from '~/lib/authorization.server'
 import { isValidSlackChannel } from '~/lib/form-validators'
 import { logger, runWithJobContext } from '~/lib/logger.server'
+import {
+  handleNotificationChannelAction,
+  isNotificationChannelAction,
+} from '~/lib/notifications/channel-actions.server'
 import type { ReportPeriodType } from '~/lib/report-periods'
 import { fetchVerificationDataForAllDeployments } from '~/lib/verification'
 import { computeVerificationDiffs } from '~/lib/verification/compute-diffs.server'
 
+// Parse a comma- or newline-separated list of check names from a form field
+function parseCheckNames(value: FormDataEntryValue | null): string[] {
+  if (typeof value !== 'string') return []
+  return value
+    .split(/[,\n]/)
+    .map((name) => name.trim())
+    .filter(Boolean)
+}
+
 // Async function to process data fetch job in background
 async function processFetchDataJobAsync(jobId: number, appId: number) {
   const options = await getSyncJobOptions(jobId)
@@ -86,47 +93,18 @@ async function processReportJobAsync(params: ReportJobParams) {
   try {
     await updateReportJobStatus(jobId, 'processing')
 
-    const rawData = await getAuditReportData(appId, periodStart, periodEnd)
-    const reportData = buildReportData(rawData)
-
-    // Save report metadata
-    const report = await saveAuditReport({
-      monitoredAppId: appId,
-      appName: rawData.app.app_name,
-      teamSlug: rawData.app.team_slug,
-      environmentName: rawData.app.environment_name,
-      repository: rawData.repository,
+    const { pdf } = await generateAuditReport({
+      appId,
       year,
       periodType,
       periodLabel,
       periodStart,
       periodEnd,
-      reportData,
       generatedBy,
     })
 
-    // Generate PDF
-    const pdfBuffer = await generateAuditReportPdf({
-      appName: report.app_name,
-      repository: report.repository,
-      teamSlug: report.team_slug,
-      environmentName: report.environment_name,
-      year: report.year,
-      periodLabel: report.period_label,
-      periodStart: new Date(report.period_start),
-      periodEnd: new Date(report.period_end),
-      reportData: report.report_data,
-      contentHash: report.content_hash,
-      reportId: report.report_id,
-      generatedAt: new Date(report.generated_at),
-      testRequirement: rawData.app.test_requirement as 'none' | 'unit_tests' | 'integration_tests',
-    })
-
-    // Store PDF in audit_reports table
-    await updateAuditReportPdf(report.id, Buffer.from(pdfBuffer))
-
     // Update job with PDF data and mark completed
-    await updateReportJobStatus(jobId, 'completed', pdfBuffer)
+    await updateReportJobStatus(jobId, 'completed', pdf)
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error'
     await updateReportJobStatus(jobId, 'failed', undefined, errorMessage)
@@ -134,12 +112,27 @@ async function processReportJobAsync(params: ReportJobParams) {
   }
 }
 
-export async function action({ request }: { request: Request; params: Record<string, string | undefined> }) {
-  const user = await requireAdmin(request)
+export async function action({ request, params }: { request: Request; params: Record<string, string | undefined> }) {
+  const { user, app } = await requireAppAccess(request, params, 'admin')
 
   const formData = await request.formData()
   const action = formData.get('action') as string
-  const appId = parseInt(formData.get('app_id') as string, 10)
+  // Always act on the app in the URL, which the guard above has checked access to
+  const appId = app.id
+
+  // Sync jobs are identified by a form field, so only allow jobs belonging to this app
+  const getAppSyncJob = async (jobId: number) => {
+    const job = await getSyncJobById(jobId)
+    return job?.monitored_app_id === appId ? job : null
+  }
+
+  if (isNotificationChannelAction(action)) {
+    const { success, error } = await handleNotificationChannelAction(action, formData, {
+      monitoredAppId: appId,
+      createdBy: user.navIdent,
+    })
+    return { success, error }
+  }
 
   if (action === 'update_default_branch') {
     const defaultBranch = formData.get('default_branch') as string
@@ -165,6 +158,28 @@ export async function action({ request }: { request: Request; params: Record<str
     return { success: 'Implisitt godkjenning-innstillinger oppdatert!' }
   }
 
+  if (action === 'update_codeowners_requirement') {
+    await updateAppSetting({
+      monitoredAppId: appId,
+      settingKey: SETTING_KEYS.CODEOWNERS_REQUIREMENT,
+      newValue: { enabled: formData.get('codeowners_required') === 'true' },
+      changedByNavIdent: user.navIdent,
+      changedByName: user.name || undefined,
+    })
+    return { success: 'Krav om godkjenning fra code owners oppdatert!' }
+  }
+
+  if (action === 'update_infrastructure_review') {
+    await updateAppSetting({
+      monitoredAppId: appId,
+      settingKey: SETTING_KEYS.INFRASTRUCTURE_REVIEW,
+      newValue: { enabled: formData.get('infrastructure_review_required') === 'true' },
+      changedByNavIdent: user.navIdent,
+      changedByName: user.name || undefined,
+    })
+    return { success: 'Krav om review av infrastrukturendringer oppdatert!' }
+  }
+
   if (action === 'update_test_requirement') {
     const testRequirement = formData.get('test_requirement') as 'none' | 'unit_tests' | 'integration_tests'
     if (!['none', 'unit_tests', 'integration_tests'].includes(testRequirement)) {
@@ -172,11 +187,20 @@ export async function action({ request }: { request: Request; params: Record<str
     }
 
     await updateMonitoredApplication(appId, { test_requirement: testRequirement })
+    await updateAppSetting({
+      monitoredAppId: appId,
+      settingKey: SETTING_KEYS.TEST_REQUIREMENT_CHECKS,
+      newValue: {
+        unit_tests: parseCheckNames(formData.get('unit_test_checks')),
+        integration_tests: parseCheckNames(formData.get('integration_test_checks')),
+      },
+      changedByNavIdent: user.navIdent,
+      changedByName: user.name || undefined,
+    })
     return { success: 'Testkrav oppdatert!' }
   }
 
   if (action === 'update_audit_start_year') {
-    const appIdForYear = parseInt(formData.get('app_id') as string, 10)
     const startYearValue = formData.get('audit_start_year') as string
 
     let auditStartYear: number | null = null
@@ -187,14 +211,14 @@ export async function action({ request }: { request: Request; params: Record<str
       }
     }
 
-    await updateMonitoredApplication(appIdForYear, { audit_start_year: auditStartYear })
+    await updateMonitoredApplication(appId, { audit_start_year: auditStartYear })
     return { success: 'Startår for revisjon oppdatert!' }
   }
 
   if (action === 'check_readiness') {
     const periodStart = formData.get('period_start') as string
     const periodEnd = formData.get('period_end') as string
-    if (!appId || !periodStart || !periodEnd) {
+    if (!periodStart || !periodEnd) {
       return { error: 'Mangler app eller periode' }
     }
     const readiness = await checkAuditReadiness(appId, new Date(periodStart), new Date(periodEnd))
@@ -208,7 +232,7 @@ export async function action({ request }: { request: Request; params: Record<str
     const periodEndStr = formData.get('period_end') as string
     const year = Number(formData.get('year'))
 
-    if (!appId || !periodStartStr || !periodEndStr || !periodLabel || !year) {
+    if (!periodStartStr || !periodEndStr || !periodLabel || !year) {
       return { error: 'Mangler påkrevde felter for rapportgenerering' }
     }
 
@@ -276,13 +300,13 @@ export async function action({ request }: { request: Request; params: Record<str
     if (!jobId) {
       return { error: 'Mangler job_id' }
     }
-    const job = await getSyncJobById(jobId)
+    const job = await getAppSyncJob(jobId)
     return { fetchJobStatus: job }
   }
 
   if (action === 'cancel_fetch_job') {
     const jobId = parseInt(formData.get('job_id') as string, 10)
-    if (!jobId) {
+    if (!jobId || !(await getAppSyncJob(jobId))) {
       return { error: 'Mangler job_id' }
     }
     const cancelled = await cancelSyncJob(jobId)
@@ -294,7 +318,7 @@ export async function action({ request }: { request: Request; params: Record<str
 
   if (action === 'force_release_job') {
     const jobId = parseInt(formData.get('job_id') as string, 10)
-    if (!jobId) {
+    if (!jobId || !(await getAppSyncJob(jobId))) {
       return { error: 'Mangler job_id' }
     }
     const released = await forceReleaseSyncJob(jobId)
@@ -305,9 +329,6 @@ export async function action({ request }: { request: Request; params: Record<str
   }
 
   if (action === 'compute_diffs') {
-    if (Number.isNaN(appId)) {
-      return { error: 'Mangler app_id' }
-    }
     const jobId = await acquireSyncLock('reverify_app', appId, 10)
     if (!jobId) {
       return { error: 'En avviksberegning kjører allerede for denne appen' }
@@ -323,7 +344,7 @@ export async function action({ request }: { request: Request; params: Record<str
     if (!jobId) {
       return { error: 'Mangler job_id' }
     }
-    const job = await getSyncJobById(jobId)
+    const job = await getAppSyncJob(jobId)
     return { computeDiffsJobStatus: job }
   }
 
@@ -376,12 +397,7 @@ export async function action({ request }: { request: Request; params: Record<str
   }
 
   if (action === 'send_reminder') {
-    const app = await getMonitoredApplicationByIdentity(
-      formData.get('team_slug') as string,
-      formData.get('environment_name') as string,
-      formData.get('app_name') as string,
-    )
-    if (!app || !app.slack_channel_id) {
+    if (!app.slack_channel_id) {
       return { error: 'Slack-kanal er ikke konfigurert for denne appen' }
     }
 
@@ -1,19 +1,20 @@
 /**
  * App-level deviation list page
  *
- * Shows all registered deviations for the app, filterable by status (open/resolved).
+ * Shows all registered deviations for the app, filterable by status (open/overdue/closed).
  */
 
 import { ExclamationmarkTriangleIcon } from '@navikt/aksel-icons'
 import { Link as AkselLink, BodyShort, Box, Detail, Heading, HStack, Tag, ToggleGroup, VStack } from '@navikt/ds-react'
 import { Link, useLoaderData, useSearchParams } from 'react-router'
 import { getDeviationsByAppId } from '~/db/deviations.server'
-import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAccess } from '~/lib/authorization.server'
 import {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
   DEVIATION_SEVERITY_LABELS,
+  DEVIATION_STATUS_LABELS,
+  isDeviationOverdue,
 } from '~/lib/deviation-constants'
 import type { Route } from './+types/$team.env.$env.app.$app.admin.deviations'
 
@@ -22,18 +23,13 @@ export function meta(_args: Route.MetaArgs) {
 }
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  await requireAdmin(request)
-  const { team, env, app: appName } = params
-  const app = await getMonitoredApplicationByIdentity(team, env, appName)
-  if (!app) {
-    throw new Response('Application not found', { status: 404 })
-  }
+  const { app } = await requireAppAccess(request, params, 'admin')
 
   const url = new URL(request.url)
   const filter = url.searchParams.get('filter') || 'all'
   const resolved = filter === 'resolved' ? true : filter === 'open' ? false : undefined
 
-  const deviations = await getDeviationsByAppId(app.id, { resolved })
+  const deviations = await getDeviationsByAppId(app.id, { resolved, overdue: filter === 'overdue' || undefined })
   const appUrl = `/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}`
 
   return { app, deviations, appUrl }
@@ -57,7 +53,8 @@ export default function AppDeviationsPage() {
         <ToggleGroup defaultValue={currentFilter} onChange={(value) => setSearchParams({ filter: value })} size="small">
           <ToggleGroup.Item value="all">Alle ({deviations.length})</ToggleGroup.Item>
           <ToggleGroup.Item value="open">Åpne</ToggleGroup.Item>
-          <ToggleGroup.Item value="resolved">Løste</ToggleGroup.Item>
+          <ToggleGroup.Item value="overdue">Frist passert</ToggleGroup.Item>
+          <ToggleGroup.Item value="resolved">Lukkede</ToggleGroup.Item>
         </ToggleGroup>
 
         {deviations.length === 0 ? (
@@ -72,7 +69,7 @@ export default function AppDeviationsPage() {
                 padding="space-16"
                 borderRadius="8"
                 background="raised"
-                borderColor={deviation.resolved_at ? 'neutral-subtle' : 'warning-subtle'}
+                borderColor={deviation.status === 'closed' ? 'neutral-subtle' : 'warning-subtle'}
                 borderWidth="1"
               >
                 <VStack gap="space-8">
@@ -81,7 +78,8 @@ export default function AppDeviationsPage() {
                       <ExclamationmarkTriangleIcon
                         aria-hidden
                         style={{
-                          color: deviation.resolved_at ? 'var(--ax-text-neutral-subtle)' : 'var(--ax-text-warning)',
+                          color:
+                            deviation.status === 'closed' ? 'var(--ax-text-neutral-subtle)' : 'var(--ax-text-warning)',
                         }}
                       />
                       <Detail textColor="subtle">
@@ -90,13 +88,16 @@ export default function AppDeviationsPage() {
                           timeStyle: 'short',
                         })}
                       </Detail>
-                      {deviation.resolved_at ? (
-                        <Tag size="xsmall" variant="moderate" data-color="success">
-                          Løst
-                        </Tag>
-                      ) : (
-                        <Tag size="xsmall" variant="moderate" data-color="warning">
-                          Åpen
+                      <Tag
+                        size="xsmall"
+                        variant="moderate"
+                        data-color={deviation.status === 'closed' ? 'success' : 'warning'}
+                      >
+                        {DEVIATION_STATUS_LABELS[deviation.status]}
+                      </Tag>
+                      {isDeviationOverdue(deviation) && (
+                        <Tag size="xsmall" variant="strong" data-color="danger">
+                          Frist passert
                         </Tag>
                       )}
                     </HStack>
@@ -132,6 +133,16 @@ export default function AppDeviationsPage() {
                         Oppfølging: {DEVIATION_FOLLOW_UP_ROLE_LABELS[deviation.follow_up_role]}
                       </Detail>
                     )}
+                    <Detail textColor="subtle">Tildelt: {deviation.assigned_to || 'Ingen'}</Detail>
+                    {deviation.due_at && deviation.status !== 'closed' && (
+                      <Detail textColor="subtle">
+                        Frist:{' '}
+                        {new Date(deviation.due_at).toLocaleString('no-NO', {
+                          dateStyle: 'medium',
+                          timeStyle: 'short',
+                        })}
+                      </Detail>
+                    )}
                   </HStack>
 
                   <Detail textColor="subtle">
@@ -141,7 +152,7 @@ export default function AppDeviationsPage() {
 
                   {deviation.resolved_at && (
                     <Detail textColor="subtle">
-                      Løst{' '}
+                      Lukket{' '}
                       {new Date(deviation.resolved_at).toLocaleString('no-NO', {
                         dateStyle: 'medium',
                         timeStyle: 'short',
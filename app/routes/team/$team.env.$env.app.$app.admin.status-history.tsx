@@ -8,17 +8,11 @@
 import { BodyShort, Box, Heading, Table, Tag, VStack } from '@navikt/ds-react'
 import { Link } from 'react-router'
 import { getDeploymentsWithStatusChanges } from '~/db/deployments.server'
-import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAccess } from '~/lib/authorization.server'
 import type { Route } from './+types/$team.env.$env.app.$app.admin.status-history'
 
 export async function loader({ request, params }: Route.LoaderArgs) {
-  await requireAdmin(request)
-
-  const app = await getMonitoredApplicationByIdentity(params.team, params.env, params.app)
-  if (!app) {
-    throw new Response('Application not found', { status: 404 })
-  }
+  const { app } = await requireAppAccess(request, params, 'admin')
 
   const deployments = await getDeploymentsWithStatusChanges(app.id)
 
@@ -44,11 +38,22 @@ function formatChangeSource(source: string): string {
 
 function getStatusVariant(status: string): 'success' | 'warning' | 'error' | 'info' | 'neutral' {
   if (
-    ['approved', 'approved_pr', 'manually_approved', 'implicitly_approved', 'baseline', 'no_changes'].includes(status)
+    [
+      'approved',
+      'approved_pr',
+      'manually_approved',
+      'implicitly_approved',
+      'baseline',
+      'no_changes',
+      'rollback',
+    ].includes(status)
   )
     return 'success'
   if (['pending', 'pending_baseline', 'legacy_pending', 'direct_push'].includes(status)) return 'warning'
-  if (['unverified_commits', 'approved_pr_with_unreviewed', 'error', 'missing'].includes(status)) return 'error'
+  if (
+    ['unverified_commits', 'approved_pr_with_unreviewed', 'missing_required_tests', 'error', 'missing'].includes(status)
+  )
+    return 'error'
   return 'neutral'
 }
 
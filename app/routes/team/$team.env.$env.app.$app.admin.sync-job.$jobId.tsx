@@ -1,7 +1,6 @@
 import { SyncJobDetailView } from '~/components/SyncJobDetailView'
-import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
 import { getSyncJobById, getSyncJobLogs, SYNC_JOB_STATUS_LABELS, SYNC_JOB_TYPE_LABELS } from '~/db/sync-jobs.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAccess } from '~/lib/authorization.server'
 import type { Route } from './+types/$team.env.$env.app.$app.admin.sync-job.$jobId'
 
 export function meta({ data }: Route.MetaArgs) {
@@ -9,14 +8,12 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  await requireAdmin(request)
+  const { app } = await requireAppAccess(request, params, 'admin')
 
-  const { team, env, app: appName, jobId: jobIdParam } = params
-  const jobId = parseInt(jobIdParam, 10)
+  const jobId = parseInt(params.jobId, 10)
+  const job = await getSyncJobById(jobId)
 
-  const [app, job] = await Promise.all([getMonitoredApplicationByIdentity(team, env, appName), getSyncJobById(jobId)])
-
-  if (!app || !job) {
+  if (!job || job.monitored_app_id !== app.id) {
     throw new Response('Not found', { status: 404 })
   }
 
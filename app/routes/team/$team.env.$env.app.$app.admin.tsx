@@ -19,12 +19,21 @@ import {
 } from '@navikt/ds-react'
 import { useEffect, useRef, useState } from 'react'
 import { Form, Link, useFetcher, useNavigation, useRevalidator } from 'react-router'
-import { getAppConfigAuditLog, getImplicitApprovalSettings } from '~/db/app-settings.server'
+import { NotificationChannelsSection } from '~/components/NotificationChannelsSection'
+import {
+  getAppConfigAuditLog,
+  getCodeownersRequirementSettings,
+  getImplicitApprovalSettings,
+  getInfrastructureReviewSettings,
+  getTestRequirementChecks,
+} from '~/db/app-settings.server'
 import { getAuditReportsForApp } from '~/db/audit-reports.server'
 import { getGitHubDataStatsForApp } from '~/db/github-data.server'
-import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
+import { getProductionEnvironmentSettings } from '~/db/global-settings.server'
 import { getLatestSyncJob, type SyncJob } from '~/db/sync-jobs.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAccess } from '~/lib/authorization.server'
+import { getNotificationChannelSettings } from '~/lib/notifications/channel-actions.server'
+import { isProductionApp } from '~/lib/production-environments'
 import { getCompletedPeriods, REPORT_PERIOD_TYPE_LABELS, type ReportPeriodType } from '~/lib/report-periods'
 import type { Route } from './+types/$team.env.$env.app.$app.admin'
 
@@ -35,35 +44,45 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  await requireAdmin(request)
-
-  const { team, env, app: appName } = params
-
-  const app = await getMonitoredApplicationByIdentity(team, env, appName)
-  if (!app) {
-    throw new Response('Application not found', { status: 404 })
-  }
+  const { app } = await requireAppAccess(request, params, 'admin')
 
   // Check if this is a production app (audit reports only make sense for prod)
-  const isProdApp = app.environment_name.startsWith('prod-')
+  const isProdApp = isProductionApp(await getProductionEnvironmentSettings(), app)
 
-  const [implicitApprovalSettings, recentConfigChanges, auditReports, latestFetchJob, githubDataStats] =
-    await Promise.all([
-      getImplicitApprovalSettings(app.id),
-      getAppConfigAuditLog(app.id, { limit: 10 }),
-      getAuditReportsForApp(app.id),
-      getLatestSyncJob(app.id, 'fetch_verification_data'),
-      getGitHubDataStatsForApp(app.id, app.audit_start_year),
-    ])
+  const [
+    implicitApprovalSettings,
+    testRequirementChecks,
+    codeownersRequirement,
+    infrastructureReview,
+    recentConfigChanges,
+    auditReports,
+    latestFetchJob,
+    githubDataStats,
+    notificationChannels,
+  ] = await Promise.all([
+    getImplicitApprovalSettings(app.id),
+    getTestRequirementChecks(app.id),
+    getCodeownersRequirementSettings(app.id),
+    getInfrastructureReviewSettings(app.id),
+    getAppConfigAuditLog(app.id, { limit: 10 }),
+    getAuditReportsForApp(app.id),
+    getLatestSyncJob(app.id, 'fetch_verification_data'),
+    getGitHubDataStatsForApp(app.id, app.audit_start_year),
+    getNotificationChannelSettings(app.id),
+  ])
 
   return {
     app,
     implicitApprovalSettings,
+    testRequirementChecks,
+    codeownersRequirement,
+    infrastructureReview,
     recentConfigChanges,
     auditReports,
     isProdApp,
     latestFetchJob,
     githubDataStats,
+    notificationChannels,
   }
 }
 
@@ -71,11 +90,15 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
   const {
     app,
     implicitApprovalSettings,
+    testRequirementChecks,
+    codeownersRequirement,
+    infrastructureReview,
     recentConfigChanges,
     auditReports,
     isProdApp,
     latestFetchJob,
     githubDataStats,
+    notificationChannels,
   } = loaderData
   const navigation = useNavigation()
   const revalidator = useRevalidator()
@@ -508,6 +531,77 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
         </VStack>
       </Box>
 
+      {/* CODEOWNERS Requirement */}
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <div>
+            <Heading size="small" level="2">
+              Godkjenning fra code owners
+            </Heading>
+            <BodyShort textColor="subtle" size="small">
+              Krev at endrede filer som har eiere i CODEOWNERS er godkjent av en av eierne.
+            </BodyShort>
+          </div>
+
+          <Form method="post">
+            <input type="hidden" name="action" value="update_codeowners_requirement" />
+            <input type="hidden" name="app_id" value={app.id} />
+            <VStack gap="space-12">
+              <Switch name="codeowners_required" value="true" defaultChecked={codeownersRequirement.enabled}>
+                Krev godkjenning fra code owners
+              </Switch>
+
+              <BodyShort size="small" textColor="subtle">
+                CODEOWNERS leses slik filen var i PR-ens base-commit. Leveranser der en eid fil kun er godkjent av andre
+                enn eierne får status «Ikke verifisert» med årsak «Mangler godkjenning fra code owner».
+              </BodyShort>
+
+              <Button type="submit" size="small" variant="secondary">
+                Lagre
+              </Button>
+            </VStack>
+          </Form>
+        </VStack>
+      </Box>
+
+      {/* Infrastructure Review Requirement */}
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <div>
+            <Heading size="small" level="2">
+              Review av infrastrukturendringer
+            </Heading>
+            <BodyShort textColor="subtle" size="small">
+              Krev godkjent PR for deployments som legger til eller fjerner Nais-ressurser (Application, Topic, Alert
+              osv.).
+            </BodyShort>
+          </div>
+
+          <Form method="post">
+            <input type="hidden" name="action" value="update_infrastructure_review" />
+            <input type="hidden" name="app_id" value={app.id} />
+            <VStack gap="space-12">
+              <Switch name="infrastructure_review_required" value="true" defaultChecked={infrastructureReview.enabled}>
+                Krev godkjent PR for infrastrukturendringer
+              </Switch>
+
+              <BodyShort size="small" textColor="subtle">
+                Ressursene og de endrede filene sammenlignes med forrige deployment. Et deployment er en
+                infrastrukturendring når Nais-ressurser er lagt til eller fjernet, eller når et Nais-manifest (filer i
+                nais/ eller .nais/, eller nais*.yaml) er endret. Endringer i manifester med andre navn regnes som kode.
+                Deployments der endrede filer ikke er kjent, behandles som infrastrukturendringer. For
+                infrastrukturendringer gjelder ikke implisitt godkjenning eller godkjenning via merge fra base-branch,
+                så alle commits må ha en godkjent PR.
+              </BodyShort>
+
+              <Button type="submit" size="small" variant="secondary">
+                Lagre
+              </Button>
+            </VStack>
+          </Form>
+        </VStack>
+      </Box>
+
       {/* Test Requirements */}
       <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
         <VStack gap="space-16">
@@ -536,8 +630,24 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
                 <option value="integration_tests">Integrasjonstester</option>
               </Select>
 
+              <TextField
+                label="Sjekker for enhetstester"
+                description="Navn på GitHub-sjekker, kommaseparert. Tomt betyr at alle sjekker på commiten må være grønne."
+                name="unit_test_checks"
+                defaultValue={testRequirementChecks.unit_tests.join(', ')}
+                size="small"
+              />
+              <TextField
+                label="Sjekker for integrasjonstester"
+                description="Kreves i tillegg til enhetstestene når testkravet er integrasjonstester."
+                name="integration_test_checks"
+                defaultValue={testRequirementChecks.integration_tests.join(', ')}
+                size="small"
+              />
+
               <BodyShort size="small" textColor="subtle">
-                Dette valget dokumenteres i rapporten under «Sikkerhet og dataintegritet».
+                Testkravet sjekkes ved verifisering. Leveranser der påkrevde sjekker ikke er vellykket får status
+                «Mangler påkrevde tester». Valget dokumenteres også i rapporten under «Sikkerhet og dataintegritet».
               </BodyShort>
 
               <Button type="submit" size="small" variant="secondary">
@@ -697,9 +807,6 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
           <HStack gap="space-8">
             <Form method="post">
               <input type="hidden" name="action" value="send_reminder" />
-              <input type="hidden" name="team_slug" value={app.team_slug} />
-              <input type="hidden" name="environment_name" value={app.environment_name} />
-              <input type="hidden" name="app_name" value={app.app_name} />
               <Button type="submit" size="small" variant="tertiary">
                 Send purring nå
               </Button>
@@ -708,6 +815,12 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
         </VStack>
       </Box>
 
+      <NotificationChannelsSection
+        {...notificationChannels}
+        intentField="action"
+        description="Send avvik og uverifiserte deployments for denne appen til Slack, e-post eller en signert webhook (f.eks. Teams eller hendelsesverktøy)."
+      />
+
       {/* Fetch Verification Data */}
       <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
         <VStack gap="space-16">
@@ -7,18 +7,12 @@
 
 import { Alert, BodyShort, Box, Button, Heading, HStack, Switch, Tag, VStack } from '@navikt/ds-react'
 import { Link, useSearchParams } from 'react-router'
-import { getDeploymentById } from '~/db/deployments.server'
-import { getUserIdentity } from '~/lib/auth.server'
+import { requireDeploymentAccess } from '~/lib/authorization.server'
 import { logger } from '~/lib/logger.server'
 import { type DebugVerificationResult, isVerificationDebugMode, runDebugVerification } from '~/lib/verification'
 import type { Route } from './+types/$team.env.$env.app.$app.admin.verification-diff.$deploymentId'
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  const user = await getUserIdentity(request)
-  if (!isVerificationDebugMode && user?.role !== 'admin') {
-    throw new Response('Debug mode not enabled', { status: 403 })
-  }
-
   const url = new URL(request.url)
   const useCache = url.searchParams.get('cache') !== 'false'
 
@@ -27,10 +21,12 @@ export async function loader({ params, request }: Route.LoaderArgs) {
     throw new Response('Invalid deployment ID', { status: 400 })
   }
 
-  const deployment = await getDeploymentById(deploymentId)
-  if (!deployment) {
-    throw new Response('Deployment not found', { status: 404 })
-  }
+  // Allow access if debug mode is enabled OR user is admin for the app's section
+  const { deployment } = await requireDeploymentAccess(
+    request,
+    deploymentId,
+    isVerificationDebugMode ? 'read' : 'admin',
+  )
 
   if (!deployment.commit_sha || !deployment.detected_github_owner || !deployment.detected_github_repo_name) {
     return {
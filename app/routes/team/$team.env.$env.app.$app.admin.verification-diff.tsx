@@ -22,9 +22,8 @@ import {
 import { useEffect, useRef, useState } from 'react'
 import { Form, Link, useFetcher, useLoaderData, useNavigation, useRevalidator } from 'react-router'
 import { pool } from '~/db/connection.server'
-import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
 import { getLatestSyncJob, getSyncJobById } from '~/db/sync-jobs.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAccess } from '~/lib/authorization.server'
 import { logger } from '~/lib/logger.server'
 import { reverifyDeployment } from '~/lib/verification'
 import type { Route } from './+types/$team.env.$env.app.$app.admin.verification-diff'
@@ -41,14 +40,7 @@ interface DeploymentDiff {
 }
 
 export async function loader({ request, params }: Route.LoaderArgs) {
-  await requireAdmin(request)
-
-  const { team, env, app } = params
-
-  const monitoredApp = await getMonitoredApplicationByIdentity(team, env, app)
-  if (!monitoredApp) {
-    return { diffs: [], appContext: null, lastComputed: null, latestJob: null }
-  }
+  const { app: monitoredApp } = await requireAppAccess(request, params, 'admin')
 
   const appContext = {
     teamSlug: monitoredApp.team_slug,
@@ -88,14 +80,20 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   return { diffs, appContext, lastComputed, latestJob }
 }
 
-export async function action({ request }: Route.ActionArgs) {
-  await requireAdmin(request)
+export async function action({ request, params }: Route.ActionArgs) {
+  const { app: monitoredApp } = await requireAppAccess(request, params, 'admin')
 
   const formData = await request.formData()
   const actionType = formData.get('action') as string
   const deploymentId = parseInt(formData.get('deployment_id') as string, 10)
 
-  if (actionType === 'apply_reverification' && deploymentId) {
+  // Only deployments with a diff for this app can be re-verified from here
+  const diffResult = await pool.query('SELECT deployment_id FROM verification_diffs WHERE monitored_app_id = $1', [
+    monitoredApp.id,
+  ])
+  const appDiffIds = new Set<number>(diffResult.rows.map((row) => row.deployment_id))
+
+  if (actionType === 'apply_reverification' && appDiffIds.has(deploymentId)) {
     try {
       const result = await reverifyDeployment(deploymentId)
       if (!result) {
@@ -122,7 +120,10 @@ export async function action({ request }: Route.ActionArgs) {
   }
 
   if (actionType === 'apply_all') {
-    const ids = formData.getAll('deployment_ids').map((id) => parseInt(id as string, 10))
+    const ids = formData
+      .getAll('deployment_ids')
+      .map((id) => parseInt(id as string, 10))
+      .filter((id) => appDiffIds.has(id))
     let applied = 0
     let skipped = 0
     let errors = 0
@@ -149,7 +150,7 @@ export async function action({ request }: Route.ActionArgs) {
     const jobId = parseInt(formData.get('job_id') as string, 10)
     if (!jobId) return { error: 'Mangler job_id' }
     const job = await getSyncJobById(jobId)
-    return { computeJobStatus: job }
+    return { computeJobStatus: job?.monitored_app_id === monitoredApp.id ? job : null }
   }
 
   return null
@@ -1,18 +1,14 @@
 // This route provides app-scoped deployment view with proper breadcrumbs
 // Re-exports the deployment detail page with additional app context
 
-import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
+import { requireAppAccess } from '~/lib/authorization.server'
 import { requireParams } from '~/lib/route-params.server'
 import { default as DeploymentDetail, action as deploymentAction, loader as deploymentLoader } from '../deployments/$id'
 import type { Route } from './+types/$team.env.$env.app.$app.deployments.$deploymentId'
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  const { team, env, app: appName, deploymentId } = requireParams(params, ['team', 'env', 'app', 'deploymentId'])
-
-  const app = await getMonitoredApplicationByIdentity(team, env, appName)
-  if (!app) {
-    throw new Response('Application not found', { status: 404 })
-  }
+  const { deploymentId } = requireParams(params, ['deploymentId'])
+  const { app } = await requireAppAccess(request, params)
 
   // Call the original deployment loader
   const result = await deploymentLoader({
@@ -40,6 +36,7 @@ export function meta({ data }: Route.MetaArgs) {
 
 // Wrap the action to pass deploymentId as id
 export async function action({ params, request }: Route.ActionArgs) {
+  await requireAppAccess(request, params)
   return deploymentAction({
     params: { id: params.deploymentId },
     request,
@@ -3,10 +3,9 @@ import { BodyShort, Box, Button, Detail, Hide, HStack, Select, Show, TextField,
 import { Form, Link, redirect, useLoaderData, useSearchParams } from 'react-router'
 import { MethodTag, StatusTag } from '~/components/deployment-tags'
 import { type DeploymentFilters, getDeploymentsPaginated } from '~/db/deployments.server'
-import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
 import { getUserMappings } from '~/db/user-mappings.server'
+import { requireAppAccess } from '~/lib/authorization.server'
 import type { FourEyesStatus } from '~/lib/four-eyes-status'
-import { requireTeamEnvAppParams } from '~/lib/route-params.server'
 import { getDateRangeForPeriod, TIME_PERIOD_OPTIONS, type TimePeriod } from '~/lib/time-periods'
 import { getUserDisplayName, serializeUserMappings } from '~/lib/user-display'
 import styles from '~/styles/common.module.css'
@@ -17,12 +16,7 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  const { team, env, app: appName } = requireTeamEnvAppParams(params)
-
-  const app = await getMonitoredApplicationByIdentity(team, env, appName)
-  if (!app) {
-    throw new Response('Application not found', { status: 404 })
-  }
+  const { app } = await requireAppAccess(request, params)
 
   const url = new URL(request.url)
   const page = parseInt(url.searchParams.get('page') || '1', 10)
@@ -207,6 +201,7 @@ export default function AppDeployments() {
                     <StatusTag
                       four_eyes_status={deployment.four_eyes_status as FourEyesStatus}
                       has_four_eyes={deployment.has_four_eyes}
+                      change_type={deployment.change_type}
                     />
                   </HStack>
                 </HStack>
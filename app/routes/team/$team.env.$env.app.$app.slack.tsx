@@ -1,28 +1,20 @@
 import { ChatIcon, ClockIcon } from '@navikt/aksel-icons'
 import { Link as AkselLink, Alert, BodyShort, Box, Detail, Heading, HStack, Table, Tag, VStack } from '@navikt/ds-react'
 import { redirect, useLoaderData } from 'react-router'
-import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
 import {
   getSlackInteractions,
   getSlackNotificationsByApp,
   getSlackNotificationUpdates,
 } from '~/db/slack-notifications.server'
-import { getUserIdentity } from '~/lib/auth.server'
-import { requireTeamEnvAppParams } from '~/lib/route-params.server'
+import { canAccessTeam, requireAppAccess } from '~/lib/authorization.server'
 import type { Route } from './+types/$team.env.$env.app.$app.slack'
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  const { team, env, app: appName } = requireTeamEnvAppParams(params)
+  const { user, app } = await requireAppAccess(request, params)
 
   // Check admin access
-  const identity = await getUserIdentity(request)
-  if (!identity || identity.role !== 'admin') {
-    return redirect(`/team/${team}/env/${env}/app/${appName}`)
-  }
-
-  const app = await getMonitoredApplicationByIdentity(team, env, appName)
-  if (!app) {
-    throw new Response('Application not found', { status: 404 })
+  if (!(await canAccessTeam(user, app.team_slug, 'admin'))) {
+    return redirect(`/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}`)
   }
 
   const notifications = await getSlackNotificationsByApp(app.id, 100)
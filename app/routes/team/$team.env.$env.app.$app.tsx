@@ -1,4 +1,5 @@
 import {
+  ArrowRightIcon,
   BarChartIcon,
   CheckmarkIcon,
   CogIcon,
@@ -28,8 +29,9 @@ import {
   VStack,
 } from '@navikt/ds-react'
 import { useState } from 'react'
-import { Form, Link, useActionData, useLoaderData, useRouteLoaderData, useSearchParams } from 'react-router'
+import { Form, Link, useActionData, useLoaderData, useSearchParams } from 'react-router'
 import { ActionAlert } from '~/components/ActionAlert'
+import { DoraMetricsPanel } from '~/components/DoraMetricsPanel'
 import { StatCard } from '~/components/StatCard'
 import { getUnresolvedAlertsByApp, resolveRepositoryAlert } from '~/db/alerts.server'
 import { updateImplicitApprovalSettings } from '~/db/app-settings.server'
@@ -40,17 +42,21 @@ import {
   setRepositoryAsActive,
 } from '~/db/application-repositories.server'
 import { getAuditReportsForApp } from '~/db/audit-reports.server'
+import { getDoraMetrics } from '~/db/deployments/dora.server'
+import { getPromotionSummary } from '~/db/deployments/promotions.server'
 import { getAppDeploymentStats } from '~/db/deployments.server'
-import { getMonitoredApplicationByIdentity, updateMonitoredApplication } from '~/db/monitored-applications.server'
-import { getUserIdentity } from '~/lib/auth.server'
+import { getProductionEnvironmentSettings } from '~/db/global-settings.server'
+import { updateMonitoredApplication } from '~/db/monitored-applications.server'
+import { canAccessTeam, requireAppAccess, requireTeamAccess } from '~/lib/authorization.server'
+import { BRANCH_PROTECTION_WEAKENING_LABELS } from '~/lib/branch-protection'
 import { logger } from '~/lib/logger.server'
-import { requireTeamEnvAppParams } from '~/lib/route-params.server'
+import { isProductionApp } from '~/lib/production-environments'
+import { formatLeadTime } from '~/lib/promotion'
 import { getDateRangeForPeriod, TIME_PERIOD_OPTIONS, type TimePeriod } from '~/lib/time-periods'
-import type { loader as layoutLoader } from '../layout'
 import type { Route } from './+types/$team.env.$env.app.$app'
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  const { team, env, app: appName } = requireTeamEnvAppParams(params)
+  const { user, app } = await requireAppAccess(request, params)
 
   const url = new URL(request.url)
   const period = (url.searchParams.get('period') || 'last-week') as TimePeriod
@@ -59,22 +65,24 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   const startDate = range?.startDate
   const endDate = range?.endDate
 
-  const app = await getMonitoredApplicationByIdentity(team, env, appName)
-  if (!app) {
-    throw new Response('Application not found', { status: 404 })
-  }
-
-  const [repositories, deploymentStats, alerts, auditReports] = await Promise.all([
+  const [repositories, deploymentStats, alerts, auditReports, productionSettings, canAdminister] = await Promise.all([
     getRepositoriesByAppId(app.id),
     getAppDeploymentStats(app.id, startDate, endDate, app.audit_start_year),
     getUnresolvedAlertsByApp(app.id),
     getAuditReportsForApp(app.id),
+    getProductionEnvironmentSettings(),
+    canAccessTeam(user, app.team_slug, 'admin'),
   ])
 
   const activeRepo = repositories.find((r) => r.status === 'active')
   const pendingRepos = repositories.filter((r) => r.status === 'pending_approval')
   const historicalRepos = repositories.filter((r) => r.status === 'historical')
 
+  const isProdApp = isProductionApp(productionSettings, app)
+  const [promotionSummary, doraMetrics] = isProdApp
+    ? await Promise.all([getPromotionSummary(app, startDate, endDate), getDoraMetrics([app.id], period)])
+    : [null, null]
+
   return {
     app,
     repositories,
@@ -84,6 +92,10 @@ export async function loader({ params, request }: Route.LoaderArgs) {
     deploymentStats,
     alerts,
     auditReports,
+    isProdApp,
+    promotionSummary,
+    doraMetrics,
+    canAdminister,
   }
 }
 
@@ -91,27 +103,45 @@ export function meta({ data }: { data?: { app: { app_name: string } } }) {
   return [{ title: `${data?.app?.app_name ?? 'App'} - Deployment Audit` }]
 }
 
-export async function action({ request }: Route.ActionArgs) {
+export async function action({ request, params }: Route.ActionArgs) {
+  const { user: identity, app } = await requireAppAccess(request, params)
   const formData = await request.formData()
   const action = formData.get('action')
-  const identity = await getUserIdentity(request)
+
+  // Repositories and alerts are identified by form fields, so check that they belong to this app
+  const isAppRepository = async (repoId: number) =>
+    (await getRepositoriesByAppId(app.id)).some((repo) => repo.id === repoId)
+
+  // Settings are changed from the admin page, which requires section admin access
+  if (['update_default_branch', 'update_implicit_approval', 'update_audit_start_year'].includes(action as string)) {
+    await requireTeamAccess(identity, app.team_slug, 'admin')
+  }
 
   try {
     if (action === 'approve_repo') {
       const repoId = parseInt(formData.get('repo_id') as string, 10)
       const setActive = formData.get('set_active') === 'true'
+      if (!(await isAppRepository(repoId))) {
+        return { error: 'Repository tilhører ikke denne applikasjonen' }
+      }
       await approveRepository(repoId, 'web-user', setActive)
       return { success: 'Repository godkjent!' }
     }
 
     if (action === 'reject_repo') {
       const repoId = parseInt(formData.get('repo_id') as string, 10)
+      if (!(await isAppRepository(repoId))) {
+        return { error: 'Repository tilhører ikke denne applikasjonen' }
+      }
       await rejectRepository(repoId)
       return { success: 'Repository avvist!' }
     }
 
     if (action === 'set_active') {
       const repoId = parseInt(formData.get('repo_id') as string, 10)
+      if (!(await isAppRepository(repoId))) {
+        return { error: 'Repository tilhører ikke denne applikasjonen' }
+      }
       await setRepositoryAsActive(repoId)
       return { success: 'Aktivt repository oppdatert!' }
     }
@@ -124,36 +154,34 @@ export async function action({ request }: Route.ActionArgs) {
         return { error: 'Vennligst skriv en merknad om hvordan varselet ble løst' }
       }
 
+      if (!(await getUnresolvedAlertsByApp(app.id)).some((alert) => alert.id === alertId)) {
+        return { error: 'Varselet tilhører ikke denne applikasjonen' }
+      }
+
       await resolveRepositoryAlert(alertId, resolutionNote)
       return { success: 'Varsel markert som løst!' }
     }
 
     if (action === 'update_default_branch') {
-      const appId = parseInt(formData.get('app_id') as string, 10)
       const defaultBranch = formData.get('default_branch') as string
 
       if (!defaultBranch?.trim()) {
         return { error: 'Default branch kan ikke være tom' }
       }
 
-      await updateMonitoredApplication(appId, { default_branch: defaultBranch.trim() })
+      await updateMonitoredApplication(app.id, { default_branch: defaultBranch.trim() })
       return { success: `Default branch oppdatert til "${defaultBranch.trim()}"` }
     }
 
     if (action === 'update_implicit_approval') {
-      const appId = parseInt(formData.get('app_id') as string, 10)
       const mode = formData.get('mode') as 'off' | 'dependabot_only' | 'all'
 
-      if (!identity) {
-        return { error: 'Du må være innlogget for å endre innstillinger' }
-      }
-
       if (!['off', 'dependabot_only', 'all'].includes(mode)) {
         return { error: 'Ugyldig modus valgt' }
       }
 
       await updateImplicitApprovalSettings({
-        monitoredAppId: appId,
+        monitoredAppId: app.id,
         settings: { mode },
         changedByNavIdent: identity.navIdent,
         changedByName: identity.name || undefined,
@@ -163,7 +191,6 @@ export async function action({ request }: Route.ActionArgs) {
     }
 
     if (action === 'update_audit_start_year') {
-      const appId = parseInt(formData.get('app_id') as string, 10)
       const startYearValue = formData.get('audit_start_year') as string
 
       // Allow empty value to clear the start year
@@ -173,7 +200,7 @@ export async function action({ request }: Route.ActionArgs) {
         return { error: 'Ugyldig årstall (må være mellom 2000 og 2100)' }
       }
 
-      await updateMonitoredApplication(appId, { audit_start_year: auditStartYear })
+      await updateMonitoredApplication(app.id, { audit_start_year: auditStartYear })
       return {
         success: auditStartYear ? `Startår oppdatert til ${auditStartYear}` : 'Startår fjernet',
       }
@@ -187,12 +214,22 @@ export async function action({ request }: Route.ActionArgs) {
 }
 
 export default function AppDetail() {
-  const { app, repositories, activeRepo, pendingRepos, historicalRepos, deploymentStats, alerts, auditReports } =
-    useLoaderData<typeof loader>()
+  const {
+    app,
+    repositories,
+    activeRepo,
+    pendingRepos,
+    historicalRepos,
+    deploymentStats,
+    alerts,
+    auditReports,
+    isProdApp,
+    promotionSummary,
+    doraMetrics,
+    canAdminister,
+  } = useLoaderData<typeof loader>()
   const actionData = useActionData<typeof action>()
   const [searchParams] = useSearchParams()
-  const layoutData = useRouteLoaderData<typeof layoutLoader>('routes/layout')
-  const isAdmin = layoutData?.user?.role === 'admin'
   const currentPeriod = searchParams.get('period') || 'last-week'
   const [resolveModalOpen, setResolveModalOpen] = useState(false)
   const [selectedAlert, setSelectedAlert] = useState<(typeof alerts)[0] | null>(null)
@@ -234,7 +271,7 @@ export default function AppDetail() {
             </Button>
           </HStack>
         </div>
-        {isAdmin && (
+        {canAdminister && (
           <Button as={Link} to={`${appUrl}/admin`} variant="tertiary" size="small" icon={<CogIcon aria-hidden />}>
             Administrer
           </Button>
@@ -302,8 +339,76 @@ export default function AppDetail() {
         </VStack>
       </Box>
 
+      {/* DORA metrics - Only for production apps, for the period selected under Statistikk */}
+      {doraMetrics && <DoraMetricsPanel metrics={doraMetrics} period={currentPeriod as TimePeriod} />}
+
+      {/* Promotion from pre-prod - Only for production apps */}
+      {promotionSummary && promotionSummary.productionDeployments > 0 && (
+        <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+          <VStack gap="space-20">
+            <Heading level="2" size="medium">
+              <ArrowRightIcon aria-hidden /> Promotering
+            </Heading>
+            <HGrid gap="space-16" columns={{ xs: 2, md: 4 }}>
+              <StatCard
+                label="Via pre-prod"
+                value={`${promotionSummary.promotedViaPreProd} av ${promotionSummary.productionDeployments}`}
+                variant={promotionSummary.skippedPreProd.length > 0 ? 'warning' : 'success'}
+                compact
+              />
+              <StatCard
+                label="Median merge → pre-prod"
+                value={
+                  promotionSummary.medianMergeToPreProdMs !== null
+                    ? formatLeadTime(promotionSummary.medianMergeToPreProdMs)
+                    : '–'
+                }
+                compact
+              />
+              <StatCard
+                label="Median pre-prod → prod"
+                value={
+                  promotionSummary.medianPreProdToProdMs !== null
+                    ? formatLeadTime(promotionSummary.medianPreProdToProdMs)
+                    : '–'
+                }
+                compact
+              />
+              <StatCard
+                label="Median merge → prod"
+                value={
+                  promotionSummary.medianMergeToProdMs !== null
+                    ? formatLeadTime(promotionSummary.medianMergeToProdMs)
+                    : '–'
+                }
+                compact
+              />
+            </HGrid>
+            {promotionSummary.skippedPreProd.length > 0 && (
+              <VStack gap="space-8">
+                <BodyShort weight="semibold">Deployet til produksjon uten å ha vært i pre-prod</BodyShort>
+                {promotionSummary.skippedPreProd.slice(0, 10).map((promotion) => (
+                  <HStack key={promotion.deployment_id} gap="space-8" align="center">
+                    <Tag data-color="warning" size="xsmall" variant="outline">
+                      Ikke via pre-prod
+                    </Tag>
+                    <Link to={`${appUrl}/deployments/${promotion.deployment_id}`}>
+                      <code style={{ fontSize: '0.75rem' }}>{promotion.commit_sha.substring(0, 7)}</code>
+                    </Link>
+                    <Detail textColor="subtle">{new Date(promotion.deployed_at).toLocaleString('no-NO')}</Detail>
+                  </HStack>
+                ))}
+                {promotionSummary.skippedPreProd.length > 10 && (
+                  <Detail textColor="subtle">og {promotionSummary.skippedPreProd.length - 10} til</Detail>
+                )}
+              </VStack>
+            )}
+          </VStack>
+        </Box>
+      )}
+
       {/* Audit Reports Section - Only for production apps */}
-      {app.environment_name.startsWith('prod-') && (
+      {isProdApp && (
         <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
           <VStack gap="space-20">
             <Heading level="2" size="medium">
@@ -386,18 +491,21 @@ export default function AppDetail() {
                           {alert.alert_type === 'repository_mismatch' && 'Ukjent repo'}
                           {alert.alert_type === 'pending_approval' && 'Venter godkjenning'}
                           {alert.alert_type === 'historical_repository' && 'Historisk repo'}
+                          {alert.alert_type === 'branch_protection_weakened' && 'Svekket branch protection'}
                         </Tag>
                         <Detail textColor="subtle">{new Date(alert.created_at).toLocaleDateString('no-NO')}</Detail>
                       </HStack>
                       <HStack gap="space-8">
-                        <Button
-                          as={Link}
-                          to={`${appUrl}/deployments/${alert.deployment_id}`}
-                          size="xsmall"
-                          variant="tertiary"
-                        >
-                          Se deployment
-                        </Button>
+                        {alert.deployment_id && (
+                          <Button
+                            as={Link}
+                            to={`${appUrl}/deployments/${alert.deployment_id}`}
+                            size="xsmall"
+                            variant="tertiary"
+                          >
+                            Se deployment
+                          </Button>
+                        )}
                         <Button
                           size="xsmall"
                           variant="secondary"
@@ -408,21 +516,36 @@ export default function AppDetail() {
                         </Button>
                       </HStack>
                     </HStack>
-                    {/* Repository comparison */}
-                    <VStack gap="space-4">
-                      <HStack gap="space-8" wrap>
-                        <Detail textColor="subtle">Forventet:</Detail>
+                    {alert.alert_type === 'branch_protection_weakened' ? (
+                      <VStack gap="space-4">
                         <code style={{ fontSize: '0.75rem' }}>
                           {alert.expected_github_owner}/{alert.expected_github_repo_name}
+                          {alert.details?.branch && ` (${alert.details.branch})`}
                         </code>
-                      </HStack>
-                      <HStack gap="space-8" wrap>
-                        <Detail textColor="subtle">Detektert:</Detail>
-                        <code style={{ fontSize: '0.75rem', color: 'var(--ax-text-danger)' }}>
-                          {alert.detected_github_owner}/{alert.detected_github_repo_name}
-                        </code>
-                      </HStack>
-                    </VStack>
+                        {alert.details?.weakenings?.map((weakening) => (
+                          <Detail key={weakening.type}>
+                            {BRANCH_PROTECTION_WEAKENING_LABELS[weakening.type]}
+                            {weakening.type === 'required_reviews_reduced' && ` (${weakening.from} → ${weakening.to})`}
+                          </Detail>
+                        ))}
+                      </VStack>
+                    ) : (
+                      /* Repository comparison */
+                      <VStack gap="space-4">
+                        <HStack gap="space-8" wrap>
+                          <Detail textColor="subtle">Forventet:</Detail>
+                          <code style={{ fontSize: '0.75rem' }}>
+                            {alert.expected_github_owner}/{alert.expected_github_repo_name}
+                          </code>
+                        </HStack>
+                        <HStack gap="space-8" wrap>
+                          <Detail textColor="subtle">Detektert:</Detail>
+                          <code style={{ fontSize: '0.75rem', color: 'var(--ax-text-danger)' }}>
+                            {alert.detected_github_owner}/{alert.detected_github_repo_name}
+                          </code>
+                        </HStack>
+                      </VStack>
+                    )}
                   </VStack>
                 </Box>
               ))}
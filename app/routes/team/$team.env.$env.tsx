@@ -6,11 +6,15 @@ import { getAlertCountsByApp } from '~/db/alerts.server'
 import { getRepositoriesByAppId } from '~/db/application-repositories.server'
 import { getAppDeploymentStats } from '~/db/deployments.server'
 import { getApplicationsByTeamAndEnv } from '~/db/monitored-applications.server'
+import { requireUser } from '~/lib/auth.server'
+import { requireTeamAccess } from '~/lib/authorization.server'
 import { requireTeamEnvParams } from '~/lib/route-params.server'
 import type { Route } from './+types/$team.env.$env'
 
-export async function loader({ params }: Route.LoaderArgs) {
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
   const { team, env } = requireTeamEnvParams(params)
+  await requireTeamAccess(user, team)
 
   const applications = await getApplicationsByTeamAndEnv(team, env)
 
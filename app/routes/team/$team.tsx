@@ -6,9 +6,14 @@ import { getAlertCountsByApp } from '~/db/alerts.server'
 import { getRepositoriesByAppId } from '~/db/application-repositories.server'
 import { getAppDeploymentStats } from '~/db/deployments.server'
 import { getApplicationsByTeam } from '~/db/monitored-applications.server'
+import { requireUser } from '~/lib/auth.server'
+import { requireTeamAccess } from '~/lib/authorization.server'
 import type { Route } from './+types/$team'
 
-export async function loader({ params: { team } }: Route.LoaderArgs) {
+export async function loader({ params: { team }, request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
+  await requireTeamAccess(user, team)
+
   const applications = await getApplicationsByTeam(team)
 
   if (applications.length === 0) {
@@ -0,0 +1,365 @@
+/**
+ * Personal notification settings
+ *
+ * A user chooses which Slack DMs they get: their own deployments ending up with unverified
+ * commits, review requests, and status changes and deviations on apps they follow.
+ * Only the user themself (matched on Nav-ident) and global admins can change the settings.
+ * Apps are offered and checked by what the user whose settings they are can read, not the
+ * one changing them.
+ */
+
+import { TrashIcon } from '@navikt/aksel-icons'
+import {
+  Alert,
+  BodyShort,
+  Box,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Heading,
+  Select,
+  Table,
+  TextField,
+  VStack,
+} from '@navikt/ds-react'
+import { Form, Link, useActionData, useLoaderData } from 'react-router'
+import { ActionAlert } from '~/components/ActionAlert'
+import { getAllMonitoredApplications, getMonitoredApplicationById } from '~/db/monitored-applications.server'
+import { getUserMapping, type UserMapping } from '~/db/user-mappings.server'
+import {
+  deleteNotificationPreferences,
+  deleteNotificationSubscription,
+  getNotificationPreferences,
+  getNotificationSubscriptions,
+  upsertNotificationPreferences,
+  upsertNotificationSubscription,
+} from '~/db/user-notifications.server'
+import { fail, ok } from '~/lib/action-result'
+import { getUserIdentityByNavIdent, requireUser, type UserIdentity } from '~/lib/auth.server'
+import { canAccessTeam, getReadableTeamFilter } from '~/lib/authorization.server'
+import { type FourEyesStatus, getFourEyesStatusLabel } from '~/lib/four-eyes-status'
+import {
+  isValidDigestTime,
+  NOTIFICATION_DELIVERY_LABELS,
+  NOTIFICATION_DELIVERY_MODES,
+  type NotificationDelivery,
+  SUBSCRIBABLE_STATUSES,
+} from '~/lib/personal-notifications'
+import type { Route } from './+types/$username.notifications'
+
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: `Varsler for ${data?.username || 'bruker'} - Deployment Audit` }]
+}
+
+/**
+ * Get the user mapping whose settings are being changed.
+ * Throws 404 Response without a mapping and 403 Response for other users than oneself.
+ */
+async function requireEditableMapping(user: UserIdentity, username: string | undefined): Promise<UserMapping> {
+  const mapping = username ? await getUserMapping(username) : null
+  if (!mapping) {
+    throw new Response('User mapping not found', { status: 404 })
+  }
+  const isSelf = mapping.nav_ident?.toUpperCase() === user.navIdent.toUpperCase()
+  if (!isSelf && user.role !== 'admin') {
+    throw new Response('Forbidden - you can only change your own notification settings', { status: 403 })
+  }
+  return mapping
+}
+
+/**
+ * Identity of the user whose settings are being changed, from their last login when it is someone else.
+ * Null if they have never logged in or are no longer authorized.
+ */
+async function getMappingIdentity(user: UserIdentity, mapping: UserMapping): Promise<UserIdentity | null> {
+  if (!mapping.nav_ident) return null
+  if (mapping.nav_ident.toUpperCase() === user.navIdent.toUpperCase()) return user
+  return getUserIdentityByNavIdent(mapping.nav_ident)
+}
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
+  const mapping = await requireEditableMapping(user, params.username)
+  const identity = await getMappingIdentity(user, mapping)
+
+  const [preferences, subscriptions, apps, canReadTeam] = await Promise.all([
+    getNotificationPreferences(mapping.github_username),
+    getNotificationSubscriptions(mapping.github_username),
+    getAllMonitoredApplications(),
+    identity ? getReadableTeamFilter(identity) : () => false,
+  ])
+
+  return {
+    username: mapping.github_username,
+    displayName: mapping.display_name,
+    hasSlackMemberId: Boolean(mapping.slack_member_id),
+    hasIdentity: Boolean(identity),
+    preferences,
+    subscriptions,
+    apps: apps
+      .filter((app) => canReadTeam(app.team_slug))
+      .map((app) => ({ id: app.id, label: `${app.app_name} (${app.environment_name}) – ${app.team_slug}` })),
+  }
+}
+
+export async function action({ params, request }: Route.ActionArgs) {
+  const user = await requireUser(request)
+  const mapping = await requireEditableMapping(user, params.username)
+  const username = mapping.github_username
+  const formData = await request.formData()
+  const intent = formData.get('intent')
+
+  if (intent === 'save_preferences') {
+    const delivery = formData.get('delivery') as NotificationDelivery
+    const digestTime = (formData.get('digest_time') as string)?.trim() || '09:00'
+    if (!NOTIFICATION_DELIVERY_MODES.includes(delivery)) {
+      return fail('Ugyldig leveringsvalg')
+    }
+    if (!isValidDigestTime(digestTime)) {
+      return fail('Tidspunkt må være på formatet HH:mm')
+    }
+
+    await upsertNotificationPreferences(username, {
+      notifyOwnUnverified: formData.has('notify_own_unverified'),
+      notifyReviewRequested: formData.has('notify_review_requested'),
+      delivery,
+      digestTime,
+    })
+    return ok('Varslingsinnstillinger lagret')
+  }
+
+  if (intent === 'disable') {
+    await deleteNotificationPreferences(username)
+    return ok('Personlige varsler er slått av')
+  }
+
+  if (intent === 'subscribe') {
+    if (!(await getNotificationPreferences(username))) {
+      return fail('Slå på personlige varsler før du følger apper')
+    }
+
+    const identity = await getMappingIdentity(user, mapping)
+    if (!identity) {
+      return fail('Brukeren må ha logget inn i Deployment Audit før den kan følge apper')
+    }
+
+    const app = await getMonitoredApplicationById(Number(formData.get('app_id')))
+    if (!app || !(await canAccessTeam(identity, app.team_slug, 'read'))) {
+      return fail('Applikasjon ikke funnet')
+    }
+
+    const statuses = formData
+      .getAll('statuses')
+      .map(String)
+      .filter((s) => SUBSCRIBABLE_STATUSES.includes(s as FourEyesStatus))
+    const deviationEvents = formData.get('deviation_events') === 'true'
+    if (statuses.length === 0 && !deviationEvents) {
+      return fail('Velg minst én status eller avvik')
+    }
+
+    await upsertNotificationSubscription(username, app.id, { statuses, deviationEvents })
+    return ok(`Du følger nå ${app.app_name} (${app.environment_name})`)
+  }
+
+  if (intent === 'unsubscribe') {
+    const removed = await deleteNotificationSubscription(username, Number(formData.get('subscription_id')))
+    return removed ? ok('Sluttet å følge appen') : fail('Abonnement ikke funnet')
+  }
+
+  return fail('Ukjent handling')
+}
+
+export default function UserNotificationsPage() {
+  const { username, displayName, hasSlackMemberId, hasIdentity, preferences, subscriptions, apps } =
+    useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+
+  return (
+    <VStack gap="space-32">
+      <VStack gap="space-8">
+        <Heading level="1" size="large">
+          Personlige varsler
+        </Heading>
+        <BodyShort textColor="subtle">
+          Slack-meldinger til <Link to={`/users/${username}`}>{displayName || username}</Link> om egne deployments,
+          review-forespørsler og apper du følger.
+        </BodyShort>
+      </VStack>
+
+      <ActionAlert data={actionData} />
+
+      {!hasSlackMemberId && (
+        <Alert variant="warning">
+          Brukermappingen mangler Slack member ID, så varsler kan ikke leveres før den er lagt inn.
+        </Alert>
+      )}
+
+      {!hasIdentity && (
+        <Alert variant="warning">
+          Brukeren har ikke logget inn i Deployment Audit ennå, så det er ikke kjent hvilke apper den har tilgang til.
+          Apper kan følges og varsler leveres etter første innlogging.
+        </Alert>
+      )}
+
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <div>
+            <Heading level="2" size="small">
+              Varsler
+            </Heading>
+            <BodyShort textColor="subtle" size="small">
+              {preferences
+                ? 'Personlige varsler er slått på.'
+                : 'Personlige varsler er slått av. Lagre innstillingene for å slå dem på.'}
+            </BodyShort>
+          </div>
+
+          <Form method="post">
+            <input type="hidden" name="intent" value="save_preferences" />
+            <VStack gap="space-16">
+              <CheckboxGroup
+                legend="Send meg en melding når"
+                size="small"
+                defaultValue={[
+                  ...((preferences?.notify_own_unverified ?? true) ? ['notify_own_unverified'] : []),
+                  ...((preferences?.notify_review_requested ?? true) ? ['notify_review_requested'] : []),
+                ]}
+              >
+                <Checkbox name="notify_own_unverified" value="notify_own_unverified">
+                  En deployment jeg har gjort får uverifiserte commits
+                </Checkbox>
+                <Checkbox name="notify_review_requested" value="notify_review_requested">
+                  Jeg blir bedt om å reviewe en PR i et overvåket repository
+                </Checkbox>
+              </CheckboxGroup>
+
+              <Select
+                label="Levering"
+                name="delivery"
+                size="small"
+                defaultValue={preferences?.delivery ?? 'immediate'}
+                style={{ maxWidth: '250px' }}
+              >
+                {NOTIFICATION_DELIVERY_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {NOTIFICATION_DELIVERY_LABELS[mode]}
+                  </option>
+                ))}
+              </Select>
+
+              <TextField
+                label="Tidspunkt for daglig oppsummering"
+                name="digest_time"
+                defaultValue={preferences?.digest_time ?? '09:00'}
+                description="Klokkeslett (HH:mm). Brukes bare ved daglig oppsummering."
+                size="small"
+                style={{ maxWidth: '150px' }}
+              />
+
+              <div>
+                <Button type="submit" size="small">
+                  Lagre
+                </Button>
+              </div>
+            </VStack>
+          </Form>
+
+          {preferences && (
+            <Form method="post">
+              <input type="hidden" name="intent" value="disable" />
+              <Button type="submit" size="small" variant="secondary">
+                Slå av personlige varsler
+              </Button>
+            </Form>
+          )}
+        </VStack>
+      </Box>
+
+      {preferences && (
+        <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+          <VStack gap="space-16">
+            <div>
+              <Heading level="2" size="small">
+                Apper du følger
+              </Heading>
+              <BodyShort textColor="subtle" size="small">
+                Få beskjed når en deployment får en av de valgte statusene, eller når avvik registreres eller endres.
+              </BodyShort>
+            </div>
+
+            {subscriptions.length > 0 && (
+              <Table size="small">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.HeaderCell>Applikasjon</Table.HeaderCell>
+                    <Table.HeaderCell>Statuser</Table.HeaderCell>
+                    <Table.HeaderCell>Avvik</Table.HeaderCell>
+                    <Table.HeaderCell />
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {subscriptions.map((subscription) => (
+                    <Table.Row key={subscription.id}>
+                      <Table.DataCell>
+                        <Link
+                          to={`/team/${subscription.team_slug}/env/${subscription.environment_name}/app/${subscription.app_name}`}
+                        >
+                          {subscription.app_name}
+                        </Link>{' '}
+                        ({subscription.environment_name})
+                      </Table.DataCell>
+                      <Table.DataCell>
+                        {subscription.statuses.map(getFourEyesStatusLabel).join(', ') || '–'}
+                      </Table.DataCell>
+                      <Table.DataCell>{subscription.deviation_events ? 'Ja' : 'Nei'}</Table.DataCell>
+                      <Table.DataCell>
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="unsubscribe" />
+                          <input type="hidden" name="subscription_id" value={subscription.id} />
+                          <Button type="submit" size="xsmall" variant="tertiary" icon={<TrashIcon aria-hidden />}>
+                            Slutt å følge
+                          </Button>
+                        </Form>
+                      </Table.DataCell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table>
+            )}
+
+            <Form method="post">
+              <input type="hidden" name="intent" value="subscribe" />
+              <VStack gap="space-16">
+                <Select label="Applikasjon" name="app_id" size="small" style={{ maxWidth: '400px' }}>
+                  {apps.map((app) => (
+                    <option key={app.id} value={app.id}>
+                      {app.label}
+                    </option>
+                  ))}
+                </Select>
+
+                <CheckboxGroup legend="Statuser" size="small" defaultValue={['unverified_commits']}>
+                  {SUBSCRIBABLE_STATUSES.map((status) => (
+                    <Checkbox key={status} name="statuses" value={status}>
+                      {getFourEyesStatusLabel(status)}
+                    </Checkbox>
+                  ))}
+                </CheckboxGroup>
+
+                <Checkbox name="deviation_events" value="true" size="small">
+                  Avvik registreres eller endrer status
+                </Checkbox>
+
+                <div>
+                  <Button type="submit" size="small" variant="secondary">
+                    Følg app
+                  </Button>
+                </div>
+              </VStack>
+            </Form>
+          </VStack>
+        </Box>
+      )}
+    </VStack>
+  )
+}
@@ -1,4 +1,4 @@
-import { ExternalLinkIcon, PlusIcon } from '@navikt/aksel-icons'
+import { BellIcon, ExternalLinkIcon, PlusIcon } from '@navikt/aksel-icons'
 import {
   Link as AkselLink,
   Alert,
@@ -18,6 +18,8 @@ import { useEffect, useRef } from 'react'
 import { Form, Link, useActionData, useLoaderData, useNavigation } from 'react-router'
 import { getDeploymentCountByDeployer, getDeploymentsByDeployer } from '~/db/deployments.server'
 import { getUserMapping, upsertUserMapping } from '~/db/user-mappings.server'
+import { requireUser } from '~/lib/auth.server'
+import { getReadableTeamFilter } from '~/lib/authorization.server'
 import { isValidEmail, isValidNavIdent } from '~/lib/form-validators'
 import { getBotDescription, getBotDisplayName, isGitHubBot } from '~/lib/github-bots'
 import styles from '~/styles/common.module.css'
@@ -27,7 +29,8 @@ export function meta({ data }: { data: { username: string } }) {
   return [{ title: `${data?.username || 'Bruker'} - Deployment Audit` }]
 }
 
-export async function loader({ params }: Route.LoaderArgs) {
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
   const username = params.username
   if (!username) {
     throw new Response('Username required', { status: 400 })
@@ -37,11 +40,16 @@ export async function loader({ params }: Route.LoaderArgs) {
   const botDisplayName = getBotDisplayName(username)
   const botDescription = getBotDescription(username)
 
-  const [mapping, deploymentCount, recentDeployments] = await Promise.all([
+  const [mapping, deploymentCount, deployments, canReadTeam] = await Promise.all([
     isBot ? Promise.resolve(null) : getUserMapping(username),
     getDeploymentCountByDeployer(username),
     getDeploymentsByDeployer(username, 5),
+    getReadableTeamFilter(user),
   ])
+  const recentDeployments = deployments.filter((d) => canReadTeam(d.team_slug))
+  // Notification settings can only be changed by the user themself and global admins
+  const canEditNotifications =
+    !!mapping && (user.role === 'admin' || mapping.nav_ident?.toUpperCase() === user.navIdent.toUpperCase())
 
   return {
     username,
@@ -51,10 +59,12 @@ export async function loader({ params }: Route.LoaderArgs) {
     isBot,
     botDisplayName,
     botDescription,
+    canEditNotifications,
   }
 }
 
 export async function action({ request }: Route.ActionArgs) {
+  await requireUser(request)
   const formData = await request.formData()
   const intent = formData.get('intent')
 
@@ -101,8 +111,16 @@ export async function action({ request }: Route.ActionArgs) {
 }
 
 export default function UserPage() {
-  const { username, mapping, deploymentCount, recentDeployments, isBot, botDisplayName, botDescription } =
-    useLoaderData<typeof loader>()
+  const {
+    username,
+    mapping,
+    deploymentCount,
+    recentDeployments,
+    isBot,
+    botDisplayName,
+    botDescription,
+    canEditNotifications,
+  } = useLoaderData<typeof loader>()
   const actionData = useActionData<typeof action>()
   const navigation = useNavigation()
   const isSubmitting = navigation.state === 'submitting'
@@ -139,6 +157,17 @@ export default function UserPage() {
               Bot
             </Tag>
           )}
+          {canEditNotifications && (
+            <Button
+              as={Link}
+              to={`/users/${username}/notifications`}
+              size="small"
+              variant="secondary"
+              icon={<BellIcon aria-hidden />}
+            >
+              Varslingsinnstillinger
+            </Button>
+          )}
         </HStack>
         {isBot && botDescription && <BodyShort textColor="subtle">{botDescription}</BodyShort>}
       </VStack>